@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "mindline"."tasks" ADD COLUMN "parent_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "tasks_user_id_parent_id_idx" ON "mindline"."tasks"("user_id", "parent_id");
+
+-- AddForeignKey
+ALTER TABLE "mindline"."tasks" ADD CONSTRAINT "tasks_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "mindline"."tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "mindline"."tasks" ADD COLUMN "recurrence_rule" TEXT,
+ADD COLUMN "recurrence_index" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "mindline"."SavedViewSort" AS ENUM ('MANUAL', 'DUE_DATE', 'PRIORITY', 'CREATED_AT', 'TITLE');
+
+-- CreateTable
+CREATE TABLE "mindline"."saved_views" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "query" TEXT NOT NULL,
+    "sort" "mindline"."SavedViewSort" NOT NULL DEFAULT 'MANUAL',
+    "icon" TEXT NOT NULL DEFAULT 'list',
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "saved_views_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "saved_views_user_id_order_idx" ON "mindline"."saved_views"("user_id", "order");
+
+-- AddForeignKey
+ALTER TABLE "mindline"."saved_views" ADD CONSTRAINT "saved_views_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "mindline"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
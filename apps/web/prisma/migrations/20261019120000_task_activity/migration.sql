@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "mindline"."TaskActivityAction" AS ENUM ('CREATED', 'UPDATED', 'BULK_UPDATED', 'STATUS_CHANGED', 'ARCHIVED', 'RESTORED');
+
+-- CreateTable
+CREATE TABLE "mindline"."task_activities" (
+    "id" TEXT NOT NULL,
+    "task_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "action" "mindline"."TaskActivityAction" NOT NULL,
+    "changes" JSONB NOT NULL DEFAULT '[]',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "task_activities_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "task_activities_task_id_created_at_idx" ON "mindline"."task_activities"("task_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "mindline"."task_activities" ADD CONSTRAINT "task_activities_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "mindline"."tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mindline"."task_activities" ADD CONSTRAINT "task_activities_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "mindline"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
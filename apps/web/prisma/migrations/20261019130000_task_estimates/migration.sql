@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "mindline"."tasks" ADD COLUMN "estimate_minutes" INTEGER;
@@ -0,0 +1,131 @@
+-- CreateTable
+CREATE TABLE "mindline"."tags" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL DEFAULT '#6b7280',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tags_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "mindline"."_TaskTags" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_TaskTags_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateTable
+CREATE TABLE "mindline"."_NoteTags" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_NoteTags_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateTable
+CREATE TABLE "mindline"."_TimeEntryTags" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_TimeEntryTags_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tags_user_id_name_key" ON "mindline"."tags"("user_id", "name");
+
+-- CreateIndex
+CREATE INDEX "_TaskTags_B_index" ON "mindline"."_TaskTags"("B");
+
+-- CreateIndex
+CREATE INDEX "_NoteTags_B_index" ON "mindline"."_NoteTags"("B");
+
+-- CreateIndex
+CREATE INDEX "_TimeEntryTags_B_index" ON "mindline"."_TimeEntryTags"("B");
+
+-- AddForeignKey
+ALTER TABLE "mindline"."tags" ADD CONSTRAINT "tags_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "mindline"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mindline"."_TaskTags" ADD CONSTRAINT "_TaskTags_A_fkey" FOREIGN KEY ("A") REFERENCES "mindline"."tags"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mindline"."_TaskTags" ADD CONSTRAINT "_TaskTags_B_fkey" FOREIGN KEY ("B") REFERENCES "mindline"."tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mindline"."_NoteTags" ADD CONSTRAINT "_NoteTags_A_fkey" FOREIGN KEY ("A") REFERENCES "mindline"."notes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mindline"."_NoteTags" ADD CONSTRAINT "_NoteTags_B_fkey" FOREIGN KEY ("B") REFERENCES "mindline"."tags"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mindline"."_TimeEntryTags" ADD CONSTRAINT "_TimeEntryTags_A_fkey" FOREIGN KEY ("A") REFERENCES "mindline"."tags"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mindline"."_TimeEntryTags" ADD CONSTRAINT "_TimeEntryTags_B_fkey" FOREIGN KEY ("B") REFERENCES "mindline"."time_entries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Convert existing labels and tags. Task labels were mostly colors picked
+-- from the task modal palette, so those become color-named tags in that
+-- color; anything else keeps its text as the name.
+CREATE TEMPORARY TABLE "legacy_tags" AS
+SELECT "user_id", "source", "source_id", "raw",
+    CASE lower("raw")
+        WHEN '#ef4444' THEN 'Red'
+        WHEN '#f97316' THEN 'Orange'
+        WHEN '#eab308' THEN 'Yellow'
+        WHEN '#22c55e' THEN 'Green'
+        WHEN '#3b82f6' THEN 'Blue'
+        WHEN '#8b5cf6' THEN 'Purple'
+        WHEN '#ec4899' THEN 'Pink'
+        WHEN '#6b7280' THEN 'Gray'
+        ELSE "raw"
+    END AS "name",
+    CASE WHEN "raw" ~* '^#[0-9a-f]{6}$' THEN lower("raw") ELSE '#6b7280' END AS "color"
+FROM (
+    SELECT "user_id", 'task' AS "source", "id" AS "source_id", trim("label") AS "raw"
+    FROM "mindline"."tasks"
+    UNION ALL
+    SELECT n."user_id", 'note', n."id", trim(t."value")
+    FROM "mindline"."notes" n, jsonb_array_elements_text(
+        CASE WHEN jsonb_typeof(n."tags") = 'array' THEN n."tags" ELSE '[]'::jsonb END
+    ) AS t("value")
+    UNION ALL
+    SELECT "user_id", 'time_entry', "id", trim("label")
+    FROM "mindline"."time_entries"
+) AS "labels"
+WHERE "raw" IS NOT NULL AND "raw" <> '';
+
+INSERT INTO "mindline"."tags" ("id", "user_id", "name", "color", "updated_at")
+SELECT DISTINCT ON ("user_id", "name")
+    gen_random_uuid()::text, "user_id", "name", "color", CURRENT_TIMESTAMP
+FROM "legacy_tags"
+ORDER BY "user_id", "name", "color" DESC;
+
+INSERT INTO "mindline"."_TaskTags" ("A", "B")
+SELECT DISTINCT t."id", l."source_id"
+FROM "legacy_tags" l
+JOIN "mindline"."tags" t ON t."user_id" = l."user_id" AND t."name" = l."name"
+WHERE l."source" = 'task';
+
+INSERT INTO "mindline"."_NoteTags" ("A", "B")
+SELECT DISTINCT l."source_id", t."id"
+FROM "legacy_tags" l
+JOIN "mindline"."tags" t ON t."user_id" = l."user_id" AND t."name" = l."name"
+WHERE l."source" = 'note';
+
+INSERT INTO "mindline"."_TimeEntryTags" ("A", "B")
+SELECT DISTINCT t."id", l."source_id"
+FROM "legacy_tags" l
+JOIN "mindline"."tags" t ON t."user_id" = l."user_id" AND t."name" = l."name"
+WHERE l."source" = 'time_entry';
+
+DROP TABLE "legacy_tags";
+
+-- AlterTable
+ALTER TABLE "mindline"."tasks" DROP COLUMN "label";
+
+-- AlterTable
+ALTER TABLE "mindline"."notes" DROP COLUMN "tags";
@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "mindline"."ProjectStatus" AS ENUM ('ACTIVE', 'ON_HOLD', 'COMPLETED', 'ARCHIVED');
+
+-- AlterTable
+ALTER TABLE "mindline"."boards" ADD COLUMN "project_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "mindline"."notes" ADD COLUMN "project_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "mindline"."tasks" ADD COLUMN "project_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "mindline"."time_entries" ADD COLUMN "project_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "mindline"."projects" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL DEFAULT '#3b82f6',
+    "status" "mindline"."ProjectStatus" NOT NULL DEFAULT 'ACTIVE',
+    "deadline" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "projects_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "projects_user_id_status_idx" ON "mindline"."projects"("user_id", "status");
+
+-- CreateIndex
+CREATE INDEX "notes_user_id_project_id_idx" ON "mindline"."notes"("user_id", "project_id");
+
+-- CreateIndex
+CREATE INDEX "tasks_user_id_project_id_idx" ON "mindline"."tasks"("user_id", "project_id");
+
+-- CreateIndex
+CREATE INDEX "time_entries_user_id_project_id_idx" ON "mindline"."time_entries"("user_id", "project_id");
+
+-- AddForeignKey
+ALTER TABLE "mindline"."tasks" ADD CONSTRAINT "tasks_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "mindline"."projects"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mindline"."notes" ADD CONSTRAINT "notes_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "mindline"."projects"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mindline"."boards" ADD CONSTRAINT "boards_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "mindline"."projects"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mindline"."time_entries" ADD CONSTRAINT "time_entries_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "mindline"."projects"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mindline"."projects" ADD CONSTRAINT "projects_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "mindline"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "mindline"."TaskActivityAction" ADD VALUE 'SNOOZED';
+
+-- AlterTable
+ALTER TABLE "mindline"."tasks" ADD COLUMN "defer_until" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "tasks_user_id_defer_until_idx" ON "mindline"."tasks"("user_id", "defer_until");
@@ -0,0 +1,66 @@
+-- CreateEnum
+CREATE TYPE "mindline"."ReminderKind" AS ENUM ('BEFORE', 'MORNING_OF', 'AT');
+
+-- CreateTable
+CREATE TABLE "mindline"."reminders" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "task_id" TEXT,
+    "calendar_event_id" TEXT,
+    "kind" "mindline"."ReminderKind" NOT NULL,
+    "offset_minutes" INTEGER,
+    "remind_at" TIMESTAMP(3),
+    "timezone_offset" INTEGER NOT NULL DEFAULT 0,
+    "fire_at" TIMESTAMP(3),
+    "fired_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "reminders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "mindline"."notifications" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "reminder_id" TEXT,
+    "title" TEXT NOT NULL,
+    "body" TEXT,
+    "href" TEXT,
+    "scheduled_for" TIMESTAMP(3) NOT NULL,
+    "delivered_at" TIMESTAMP(3),
+    "read_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "reminders_fire_at_idx" ON "mindline"."reminders"("fire_at");
+
+-- CreateIndex
+CREATE INDEX "reminders_user_id_task_id_idx" ON "mindline"."reminders"("user_id", "task_id");
+
+-- CreateIndex
+CREATE INDEX "reminders_user_id_calendar_event_id_idx" ON "mindline"."reminders"("user_id", "calendar_event_id");
+
+-- CreateIndex
+CREATE INDEX "notifications_user_id_created_at_idx" ON "mindline"."notifications"("user_id", "created_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notifications_reminder_id_scheduled_for_key" ON "mindline"."notifications"("reminder_id", "scheduled_for");
+
+-- AddForeignKey
+ALTER TABLE "mindline"."reminders" ADD CONSTRAINT "reminders_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "mindline"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mindline"."reminders" ADD CONSTRAINT "reminders_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "mindline"."tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mindline"."reminders" ADD CONSTRAINT "reminders_calendar_event_id_fkey" FOREIGN KEY ("calendar_event_id") REFERENCES "mindline"."calendar_events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mindline"."notifications" ADD CONSTRAINT "notifications_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "mindline"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mindline"."notifications" ADD CONSTRAINT "notifications_reminder_id_fkey" FOREIGN KEY ("reminder_id") REFERENCES "mindline"."reminders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
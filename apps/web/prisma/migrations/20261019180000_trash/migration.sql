@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "mindline"."boards" ADD COLUMN "deleted_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "mindline"."calendar_events" ADD COLUMN "deleted_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "mindline"."notes" ADD COLUMN "deleted_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "mindline"."tasks" ADD COLUMN "deleted_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "boards_user_id_deleted_at_idx" ON "mindline"."boards"("user_id", "deleted_at");
+
+-- CreateIndex
+CREATE INDEX "calendar_events_user_id_deleted_at_idx" ON "mindline"."calendar_events"("user_id", "deleted_at");
+
+-- CreateIndex
+CREATE INDEX "notes_user_id_deleted_at_idx" ON "mindline"."notes"("user_id", "deleted_at");
+
+-- CreateIndex
+CREATE INDEX "tasks_user_id_deleted_at_idx" ON "mindline"."tasks"("user_id", "deleted_at");
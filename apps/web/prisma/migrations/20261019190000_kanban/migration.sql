@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "mindline"."KanbanGroupBy" AS ENUM ('STATUS', 'PRIORITY', 'TAG', 'CUSTOM');
+
+-- AlterTable
+ALTER TABLE "mindline"."tasks" ADD COLUMN "kanban_column_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "mindline"."kanban_preferences" (
+    "user_id" TEXT NOT NULL,
+    "group_by" "mindline"."KanbanGroupBy" NOT NULL DEFAULT 'STATUS',
+    "wip_limits" JSONB NOT NULL DEFAULT '{}',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "kanban_preferences_pkey" PRIMARY KEY ("user_id")
+);
+
+-- CreateTable
+CREATE TABLE "mindline"."kanban_columns" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL DEFAULT '#6b7280',
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "kanban_columns_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "kanban_columns_user_id_order_idx" ON "mindline"."kanban_columns"("user_id", "order");
+
+-- AddForeignKey
+ALTER TABLE "mindline"."tasks" ADD CONSTRAINT "tasks_kanban_column_id_fkey" FOREIGN KEY ("kanban_column_id") REFERENCES "mindline"."kanban_columns"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mindline"."kanban_preferences" ADD CONSTRAINT "kanban_preferences_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "mindline"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mindline"."kanban_columns" ADD CONSTRAINT "kanban_columns_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "mindline"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
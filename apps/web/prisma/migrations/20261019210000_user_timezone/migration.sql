@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "mindline"."users" ADD COLUMN "timezone" TEXT NOT NULL DEFAULT 'UTC';
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "mindline"."calendar_events" ADD COLUMN "recurrence_rule" TEXT,
+ADD COLUMN "excluded_dates" TIMESTAMP(3)[],
+ADD COLUMN "recurring_event_id" TEXT,
+ADD COLUMN "original_starts_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "calendar_events_recurring_event_id_idx" ON "mindline"."calendar_events"("recurring_event_id");
+
+-- AddForeignKey
+ALTER TABLE "mindline"."calendar_events" ADD CONSTRAINT "calendar_events_recurring_event_id_fkey" FOREIGN KEY ("recurring_event_id") REFERENCES "mindline"."calendar_events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
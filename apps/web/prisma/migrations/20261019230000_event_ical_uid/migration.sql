@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "mindline"."calendar_events" ADD COLUMN "ical_uid" TEXT;
+
+-- CreateIndex
+CREATE INDEX "calendar_events_user_id_ical_uid_idx" ON "mindline"."calendar_events"("user_id", "ical_uid");
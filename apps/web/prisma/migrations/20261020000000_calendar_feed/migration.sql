@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "mindline"."users" ADD COLUMN "calendarFeedIncludesTasks" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "calendarFeedToken" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_calendarFeedToken_key" ON "mindline"."users"("calendarFeedToken");
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "mindline"."users" ADD COLUMN "workingDays" INTEGER[] DEFAULT ARRAY[1, 2, 3, 4, 5]::INTEGER[],
+ADD COLUMN "workingHoursEnd" INTEGER NOT NULL DEFAULT 1020,
+ADD COLUMN "workingHoursStart" INTEGER NOT NULL DEFAULT 540;
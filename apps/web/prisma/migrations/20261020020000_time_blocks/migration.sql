@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "mindline"."calendar_events" ADD COLUMN "time_block" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "locked" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "mindline"."calendars" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL DEFAULT '#3b82f6',
+    "visible" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "calendars_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "calendars_user_id_idx" ON "mindline"."calendars"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "mindline"."calendars" ADD CONSTRAINT "calendars_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "mindline"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing events all go into one calendar per user
+INSERT INTO "mindline"."calendars" ("id", "user_id", "name", "updated_at")
+SELECT gen_random_uuid()::text, "user_id", 'Personal', CURRENT_TIMESTAMP
+FROM (SELECT DISTINCT "user_id" FROM "mindline"."calendar_events") AS "owners";
+
+-- AlterTable
+ALTER TABLE "mindline"."calendar_events" ADD COLUMN "calendar_id" TEXT;
+
+UPDATE "mindline"."calendar_events" AS e
+SET "calendar_id" = c."id"
+FROM "mindline"."calendars" AS c
+WHERE c."user_id" = e."user_id";
+
+ALTER TABLE "mindline"."calendar_events" ALTER COLUMN "calendar_id" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "calendar_events_calendar_id_idx" ON "mindline"."calendar_events"("calendar_id");
+
+-- AddForeignKey
+ALTER TABLE "mindline"."calendar_events" ADD CONSTRAINT "calendar_events_calendar_id_fkey" FOREIGN KEY ("calendar_id") REFERENCES "mindline"."calendars"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "mindline"."CalendarTaskDrop" AS ENUM ('EVENT', 'DUE_DATE');
+
+-- AlterTable
+ALTER TABLE "mindline"."users" ADD COLUMN "calendarTaskDrop" "mindline"."CalendarTaskDrop" NOT NULL DEFAULT 'EVENT';
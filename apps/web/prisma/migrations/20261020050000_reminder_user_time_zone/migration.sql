@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "mindline"."reminders" DROP COLUMN "timezone_offset";
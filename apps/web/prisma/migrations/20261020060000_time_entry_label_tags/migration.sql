@@ -0,0 +1,28 @@
+-- Labels written since tags were introduced become tags as well, reusing
+-- a tag whose name differs only in case
+CREATE TEMPORARY TABLE "legacy_labels" AS
+SELECT "id" AS "entry_id", "user_id", regexp_replace(trim("label"), '\s+', ' ', 'g') AS "name"
+FROM "mindline"."time_entries"
+WHERE trim(coalesce("label", '')) <> '';
+
+INSERT INTO "mindline"."tags" ("id", "user_id", "name", "updated_at")
+SELECT DISTINCT ON (l."user_id", lower(l."name"))
+    gen_random_uuid()::text, l."user_id", l."name", CURRENT_TIMESTAMP
+FROM "legacy_labels" l
+WHERE NOT EXISTS (
+    SELECT 1 FROM "mindline"."tags" t
+    WHERE t."user_id" = l."user_id" AND lower(t."name") = lower(l."name")
+)
+ORDER BY l."user_id", lower(l."name"), l."name";
+
+INSERT INTO "mindline"."_TimeEntryTags" ("A", "B")
+SELECT DISTINCT ON (l."entry_id") t."id", l."entry_id"
+FROM "legacy_labels" l
+JOIN "mindline"."tags" t ON t."user_id" = l."user_id" AND lower(t."name") = lower(l."name")
+ORDER BY l."entry_id", t."name" = l."name" DESC
+ON CONFLICT DO NOTHING;
+
+DROP TABLE "legacy_labels";
+
+-- AlterTable
+ALTER TABLE "mindline"."time_entries" DROP COLUMN "label";
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "mindline"."calendars" ADD COLUMN "is_default" BOOLEAN NOT NULL DEFAULT false;
+
+-- Each user's first calendar was their default
+UPDATE "mindline"."calendars"
+SET "is_default" = true
+WHERE "id" IN (
+    SELECT DISTINCT ON ("user_id") "id"
+    FROM "mindline"."calendars"
+    ORDER BY "user_id", "created_at", "id"
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "calendars_user_id_default_key" ON "mindline"."calendars"("user_id") WHERE "is_default";
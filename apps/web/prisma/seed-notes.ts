@@ -279,7 +279,12 @@ async function seedNotes() {
       data: {
         title: noteData.title,
         content: noteData.content,
-        tags: noteData.tags,
+        tags: {
+          connectOrCreate: noteData.tags.map((name) => ({
+            where: { userId_name: { userId: user.id, name } },
+            create: { userId: user.id, name },
+          })),
+        },
         userId: user.id,
       },
     })
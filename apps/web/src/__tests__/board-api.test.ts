@@ -208,7 +208,7 @@ describe('Board API Integration Tests', () => {
         dueDate: new Date(),
         priority: 'MEDIUM' as const,
         status: 'ACTIVE' as const,
-        label: null,
+        tags: [],
         order: 1,
         calendarEventId: null,
         createdAt: new Date(),
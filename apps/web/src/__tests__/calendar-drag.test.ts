@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getDroppedTimes,
+  isAllDayDrop,
+  toLocalDay,
+  toStoredDay,
+} from '@/lib/calendar-drag'
+
+// Days on the browser's clock, whatever timezone the tests run in
+const local = (day: number, hours = 0, minutes = 0) =>
+  new Date(2026, 9, day, hours, minutes)
+
+const stored = (day: number) => new Date(Date.UTC(2026, 9, day))
+
+describe('all-day dates', () => {
+  it('should keep the same calendar day both ways', () => {
+    expect(toLocalDay(stored(19))).toEqual(local(19))
+    expect(toStoredDay(local(19))).toEqual(stored(19))
+    expect(toStoredDay(local(19, 23, 30))).toEqual(stored(19))
+  })
+})
+
+describe('getDroppedTimes', () => {
+  it('should take the new times of a timed event', () => {
+    expect(
+      getDroppedTimes(
+        { allDay: false },
+        { start: local(20, 10), end: local(20, 11, 30) }
+      )
+    ).toEqual({
+      startsAt: local(20, 10),
+      endsAt: local(20, 11, 30),
+      allDay: false,
+    })
+  })
+
+  it('should store all-day events on their days', () => {
+    expect(
+      getDroppedTimes({ allDay: true }, { start: local(21), end: local(23) })
+    ).toEqual({ startsAt: stored(21), endsAt: stored(23), allDay: true })
+  })
+
+  it('should cover whole days when a timed event becomes all-day', () => {
+    expect(
+      getDroppedTimes(
+        { allDay: false },
+        { start: local(21), end: local(21, 1), isAllDay: true }
+      )
+    ).toEqual({ startsAt: stored(21), endsAt: stored(22), allDay: true })
+  })
+
+  it('should give an all-day event a default length in the time grid', () => {
+    expect(
+      getDroppedTimes(
+        { allDay: true },
+        { start: local(21, 9), end: local(22, 9), isAllDay: false }
+      )
+    ).toEqual({
+      startsAt: local(21, 9),
+      endsAt: local(21, 10),
+      allDay: false,
+    })
+  })
+})
+
+describe('isAllDayDrop', () => {
+  it('should take month cells and the all-day row as whole days', () => {
+    expect(isAllDayDrop({ start: local(21), end: local(22) })).toBe(true)
+  })
+
+  it('should take time slots as timed, even at midnight', () => {
+    expect(isAllDayDrop({ start: local(21, 9), end: local(21, 10) })).toBe(
+      false
+    )
+    expect(isAllDayDrop({ start: local(21), end: local(21, 1) })).toBe(false)
+  })
+})
@@ -0,0 +1,274 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+
+// Mock Prisma client
+const mockPrisma = {
+  user: {
+    findUnique: vi.fn(),
+  },
+  calendar: {
+    findFirst: vi.fn(),
+  },
+  calendarEvent: {
+    findMany: vi.fn(),
+    aggregate: vi.fn(),
+  },
+  task: {
+    findMany: vi.fn(),
+    aggregate: vi.fn(),
+  },
+}
+
+vi.mock('@/lib/db', () => ({ prisma: mockPrisma }))
+
+const { GET } = await import('@/app/api/calendar/feed/[token]/route')
+const { buildCalendarFeed, getCalendarFeedVersion, isCalendarFeedCurrent } =
+  await import('@/server/calendar/feed')
+
+const feedUser = {
+  id: 'test-user-id',
+  timezone: 'America/New_York',
+  calendarFeedIncludesTasks: true,
+  updatedAt: new Date('2026-10-01T00:00:00Z'),
+}
+
+const workCalendar = {
+  id: 'work',
+  name: 'Work',
+  updatedAt: new Date('2026-10-19T08:00:00Z'),
+}
+
+const request = (headers: Record<string, string> = {}, query = '') =>
+  new NextRequest(`http://localhost/api/calendar/feed/secret.ics${query}`, {
+    headers,
+  })
+
+const params = (token: string) => ({ params: Promise.resolve({ token }) })
+
+describe('Calendar feed', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.user.findUnique.mockResolvedValue(feedUser)
+    mockPrisma.calendarEvent.aggregate.mockResolvedValue({
+      _max: { updatedAt: new Date('2026-10-18T10:00:00.250Z') },
+      _count: { _all: 4 },
+    })
+    mockPrisma.task.aggregate.mockResolvedValue({
+      _max: { updatedAt: new Date('2026-10-17T10:00:00Z') },
+      _count: { _all: 9 },
+    })
+    mockPrisma.calendarEvent.findMany.mockResolvedValue([
+      {
+        id: 'lunch',
+        icalUid: null,
+        title: 'Lunch',
+        description: null,
+        location: null,
+        color: '#3b82f6',
+        startsAt: new Date('2026-10-19T16:00:00Z'),
+        endsAt: new Date('2026-10-19T17:00:00Z'),
+        allDay: false,
+        recurrenceRule: null,
+        excludedDates: [],
+        updatedAt: new Date('2026-10-18T10:00:00Z'),
+      },
+    ])
+    mockPrisma.task.findMany.mockResolvedValue([
+      {
+        id: 'report',
+        title: 'Send report',
+        description: null,
+        // Still the 19th in New York
+        dueDate: new Date('2026-10-20T02:00:00Z'),
+        updatedAt: new Date('2026-10-17T10:00:00Z'),
+      },
+    ])
+  })
+
+  it('should version the feed by its latest change and item counts', async () => {
+    const version = await getCalendarFeedVersion(mockPrisma as any, feedUser)
+
+    expect(version).toEqual({
+      etag: `"${new Date('2026-10-18T10:00:00.250Z').getTime()}-4-9"`,
+      lastModified: new Date('2026-10-18T10:00:00.250Z'),
+    })
+    // Trashed items count too, since trashing them changes the feed
+    expect(mockPrisma.calendarEvent.aggregate).toHaveBeenCalledWith({
+      where: { userId: 'test-user-id' },
+      _max: { updatedAt: true },
+      _count: { _all: true },
+    })
+  })
+
+  it('should leave tasks out of the version when the feed has none', async () => {
+    const version = await getCalendarFeedVersion(mockPrisma as any, {
+      ...feedUser,
+      calendarFeedIncludesTasks: false,
+    })
+
+    expect(version.etag).toMatch(/-4-no-tasks"$/)
+    expect(mockPrisma.task.aggregate).not.toHaveBeenCalled()
+  })
+
+  it('should version a calendar feed by its own events', async () => {
+    const version = await getCalendarFeedVersion(
+      mockPrisma as any,
+      feedUser,
+      workCalendar
+    )
+
+    // Renaming the calendar changes the feed too
+    expect(version).toEqual({
+      etag: `"${workCalendar.updatedAt.getTime()}-4-no-tasks"`,
+      lastModified: workCalendar.updatedAt,
+    })
+    expect(mockPrisma.calendarEvent.aggregate).toHaveBeenCalledWith({
+      where: { userId: 'test-user-id', calendarId: 'work' },
+      _max: { updatedAt: true },
+      _count: { _all: true },
+    })
+    expect(mockPrisma.task.aggregate).not.toHaveBeenCalled()
+  })
+
+  it('should match conditional request headers', () => {
+    const version = {
+      etag: '"123-4-9"',
+      lastModified: new Date('2026-10-18T10:00:00.250Z'),
+    }
+    const current = (headers: Record<string, string>) =>
+      isCalendarFeedCurrent(new Headers(headers), version)
+
+    expect(current({ 'If-None-Match': '"123-4-9"' })).toBe(true)
+    expect(current({ 'If-None-Match': '"old", W/"123-4-9"' })).toBe(true)
+    expect(current({ 'If-None-Match': '"old"' })).toBe(false)
+    expect(
+      current({ 'If-Modified-Since': 'Sun, 18 Oct 2026 10:00:00 GMT' })
+    ).toBe(true)
+    expect(
+      current({ 'If-Modified-Since': 'Sun, 18 Oct 2026 09:59:59 GMT' })
+    ).toBe(false)
+    // The ETag wins when both are sent
+    expect(
+      current({
+        'If-None-Match': '"old"',
+        'If-Modified-Since': 'Sun, 18 Oct 2026 10:00:00 GMT',
+      })
+    ).toBe(false)
+    expect(current({})).toBe(false)
+  })
+
+  it('should list tasks as all-day events on their due day', async () => {
+    const content = await buildCalendarFeed(mockPrisma as any, feedUser)
+
+    expect(content).toContain('UID:lunch@mindline\r\n')
+    expect(content).toContain(
+      [
+        'UID:task-report@mindline',
+        'DTSTAMP:20261017T100000Z',
+        'DTSTART;VALUE=DATE:20261019',
+        'DTEND;VALUE=DATE:20261020',
+        'SUMMARY:Due: Send report',
+      ].join('\r\n')
+    )
+    expect(mockPrisma.task.findMany).toHaveBeenCalledWith({
+      where: {
+        userId: 'test-user-id',
+        deletedAt: null,
+        status: 'ACTIVE',
+        dueDate: { not: null },
+      },
+      orderBy: { dueDate: 'asc' },
+    })
+  })
+
+  it('should narrow the feed to one calendar, without tasks', async () => {
+    const content = await buildCalendarFeed(
+      mockPrisma as any,
+      feedUser,
+      workCalendar
+    )
+
+    expect(content).toContain('X-WR-CALNAME:Work\r\n')
+    expect(content).toContain('UID:lunch@mindline\r\n')
+    expect(content).not.toContain('task-report')
+    expect(mockPrisma.calendarEvent.findMany).toHaveBeenCalledWith({
+      where: {
+        userId: 'test-user-id',
+        deletedAt: null,
+        recurringEventId: null,
+        calendarId: 'work',
+      },
+      orderBy: { startsAt: 'asc' },
+    })
+    expect(mockPrisma.task.findMany).not.toHaveBeenCalled()
+  })
+
+  describe('GET', () => {
+    it('should serve the feed for a known token', async () => {
+      const response = await GET(request(), params('secret.ics'))
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('Content-Type')).toBe(
+        'text/calendar; charset=utf-8'
+      )
+      expect(response.headers.get('ETag')).toMatch(/-4-9"$/)
+      expect(response.headers.get('Last-Modified')).toBe(
+        'Sun, 18 Oct 2026 10:00:00 GMT'
+      )
+      expect(await response.text()).toContain('SUMMARY:Lunch')
+      expect(mockPrisma.user.findUnique).toHaveBeenCalledWith({
+        where: { calendarFeedToken: 'secret' },
+        select: expect.any(Object),
+      })
+    })
+
+    it('should answer 304 without building an unchanged feed', async () => {
+      const { etag } = await getCalendarFeedVersion(mockPrisma as any, feedUser)
+      const response = await GET(
+        request({ 'If-None-Match': etag }),
+        params('secret.ics')
+      )
+
+      expect(response.status).toBe(304)
+      expect(response.headers.get('ETag')).toBe(etag)
+      expect(mockPrisma.calendarEvent.findMany).not.toHaveBeenCalled()
+    })
+
+    it("should serve one of the user's calendars", async () => {
+      mockPrisma.calendar.findFirst.mockResolvedValue(workCalendar)
+
+      const response = await GET(
+        request({}, '?calendar=work'),
+        params('secret.ics')
+      )
+
+      expect(response.status).toBe(200)
+      expect(await response.text()).toContain('X-WR-CALNAME:Work')
+      expect(mockPrisma.calendar.findFirst).toHaveBeenCalledWith({
+        where: { id: 'work', userId: 'test-user-id' },
+        select: { id: true, name: true, updatedAt: true },
+      })
+    })
+
+    it('should not serve calendars the user does not have', async () => {
+      mockPrisma.calendar.findFirst.mockResolvedValue(null)
+
+      const response = await GET(
+        request({}, '?calendar=someone-elses'),
+        params('secret.ics')
+      )
+
+      expect(response.status).toBe(404)
+      expect(mockPrisma.calendarEvent.aggregate).not.toHaveBeenCalled()
+    })
+
+    it('should not serve revoked or unknown tokens', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null)
+
+      const response = await GET(request(), params('revoked'))
+
+      expect(response.status).toBe(404)
+      expect(mockPrisma.calendarEvent.aggregate).not.toHaveBeenCalled()
+    })
+  })
+})
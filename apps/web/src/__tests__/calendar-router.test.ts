@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { calendarRouter } from '@/server/api/routers/calendar'
+
+// Mock Prisma client
+const mockPrisma = {
+  calendar: {
+    findMany: vi.fn(),
+    findFirst: vi.fn(),
+    findFirstOrThrow: vi.fn(),
+    create: vi.fn(),
+    createMany: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+  calendarEvent: {
+    updateMany: vi.fn(),
+  },
+  $transaction: vi.fn(),
+}
+
+// Mock session
+const mockSession = {
+  user: {
+    id: 'test-user-id',
+    email: 'test@example.com',
+    name: 'Test User',
+  },
+  expires: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+}
+
+// Mock context
+const mockContext = {
+  session: mockSession,
+  req: undefined,
+  prisma: mockPrisma as any,
+}
+
+const personal = {
+  id: 'personal',
+  name: 'Personal',
+  color: '#3b82f6',
+  visible: true,
+  userId: mockSession.user.id,
+}
+
+const work = { ...personal, id: 'work', name: 'Work', color: '#ef4444' }
+
+describe('Calendar Router', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-10-19T10:00:00Z'))
+    mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma))
+    mockPrisma.calendar.create.mockImplementation(({ data }) =>
+      Promise.resolve({ id: 'created', ...data })
+    )
+    mockPrisma.calendarEvent.updateMany.mockResolvedValue({ count: 0 })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('list', () => {
+    it('should create the default calendar for users without one', async () => {
+      mockPrisma.calendar.findFirst.mockResolvedValue(null)
+      mockPrisma.calendar.findFirstOrThrow.mockResolvedValue(personal)
+      mockPrisma.calendar.findMany.mockResolvedValue([personal])
+
+      const caller = calendarRouter.createCaller(mockContext)
+      await caller.list()
+
+      // A request creating it at the same time can't add a second one
+      expect(mockPrisma.calendar.createMany).toHaveBeenCalledWith({
+        data: [{ userId: 'test-user-id', name: 'Personal', isDefault: true }],
+        skipDuplicates: true,
+      })
+      expect(mockPrisma.calendar.findFirstOrThrow).toHaveBeenCalledWith({
+        where: { userId: 'test-user-id', isDefault: true },
+      })
+      expect(mockPrisma.calendar.findMany).toHaveBeenCalledWith({
+        where: { userId: 'test-user-id' },
+        orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }, { id: 'asc' }],
+      })
+    })
+
+    it('should not add another default calendar', async () => {
+      mockPrisma.calendar.findFirst.mockResolvedValue(personal)
+      mockPrisma.calendar.findMany.mockResolvedValue([personal, work])
+
+      const caller = calendarRouter.createCaller(mockContext)
+      const calendars = await caller.list()
+
+      expect(calendars).toEqual([personal, work])
+      expect(mockPrisma.calendar.createMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('create', () => {
+    it('should default to a shown calendar in blue', async () => {
+      const caller = calendarRouter.createCaller(mockContext)
+      await caller.create({ name: '  Work  ' })
+
+      expect(mockPrisma.calendar.create).toHaveBeenCalledWith({
+        data: {
+          name: 'Work',
+          color: '#3b82f6',
+          visible: true,
+          userId: 'test-user-id',
+        },
+      })
+    })
+
+    it('should reject colors that are not hex values', async () => {
+      const caller = calendarRouter.createCaller(mockContext)
+
+      await expect(
+        caller.create({ name: 'Work', color: 'red' })
+      ).rejects.toThrow('Color must be a hex value like #3b82f6')
+    })
+  })
+
+  describe('update', () => {
+    it('should only change the fields given', async () => {
+      mockPrisma.calendar.findFirst.mockResolvedValue(work)
+
+      const caller = calendarRouter.createCaller(mockContext)
+      await caller.update({ id: 'work', data: { visible: false } })
+
+      expect(mockPrisma.calendar.update).toHaveBeenCalledWith({
+        where: { id: 'work' },
+        data: { visible: false },
+      })
+    })
+
+    it("should not change other users' calendars", async () => {
+      mockPrisma.calendar.findFirst.mockResolvedValue(null)
+
+      const caller = calendarRouter.createCaller(mockContext)
+
+      await expect(
+        caller.update({ id: 'work', data: { visible: false } })
+      ).rejects.toThrow('Calendar not found')
+      expect(mockPrisma.calendar.findFirst).toHaveBeenCalledWith({
+        where: { id: 'work', userId: 'test-user-id' },
+      })
+      expect(mockPrisma.calendar.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('delete', () => {
+    it('should trash its events and keep them in another calendar', async () => {
+      mockPrisma.calendar.findFirst
+        .mockResolvedValueOnce(work)
+        .mockResolvedValueOnce(personal)
+      mockPrisma.calendarEvent.updateMany.mockResolvedValueOnce({ count: 3 })
+
+      const caller = calendarRouter.createCaller(mockContext)
+      const result = await caller.delete({ id: 'work' })
+
+      expect(result).toEqual({ id: 'work', trashedEvents: 3 })
+      expect(mockPrisma.calendarEvent.updateMany).toHaveBeenNthCalledWith(1, {
+        where: { calendarId: 'work', deletedAt: null },
+        data: { deletedAt: new Date('2026-10-19T10:00:00Z') },
+      })
+      expect(mockPrisma.calendarEvent.updateMany).toHaveBeenNthCalledWith(2, {
+        where: { calendarId: 'work' },
+        data: { calendarId: 'personal' },
+      })
+      expect(mockPrisma.calendar.delete).toHaveBeenCalledWith({
+        where: { id: 'work' },
+      })
+    })
+
+    it('should make the next calendar the default in its place', async () => {
+      mockPrisma.calendar.findFirst
+        .mockResolvedValueOnce({ ...personal, isDefault: true })
+        .mockResolvedValueOnce(work)
+
+      const caller = calendarRouter.createCaller(mockContext)
+      await caller.delete({ id: 'personal' })
+
+      expect(mockPrisma.calendar.update).toHaveBeenCalledWith({
+        where: { id: 'work' },
+        data: { isDefault: true },
+      })
+      expect(
+        mockPrisma.calendar.delete.mock.invocationCallOrder[0]
+      ).toBeLessThan(mockPrisma.calendar.update.mock.invocationCallOrder[0])
+    })
+
+    it('should keep the last calendar', async () => {
+      mockPrisma.calendar.findFirst
+        .mockResolvedValueOnce(personal)
+        .mockResolvedValueOnce(null)
+
+      const caller = calendarRouter.createCaller(mockContext)
+
+      await expect(caller.delete({ id: 'personal' })).rejects.toThrow(
+        'You need at least one calendar'
+      )
+      expect(mockPrisma.calendarEvent.updateMany).not.toHaveBeenCalled()
+      expect(mockPrisma.calendar.delete).not.toHaveBeenCalled()
+    })
+  })
+})
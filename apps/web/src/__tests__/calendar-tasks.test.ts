@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { getTaskCalendarTimes, getTaskDropTimes } from '@/lib/calendar-tasks'
+
+const zone = 'America/New_York'
+
+describe('getTaskCalendarTimes', () => {
+  it('should show a task due at midnight as all-day', () => {
+    expect(
+      getTaskCalendarTimes(new Date('2026-10-20T04:00:00Z'), zone)
+    ).toEqual({
+      startsAt: new Date('2026-10-20T00:00:00Z'),
+      endsAt: new Date('2026-10-21T00:00:00Z'),
+      allDay: true,
+    })
+  })
+
+  it('should show a task due at a time in the time grid', () => {
+    expect(
+      getTaskCalendarTimes(new Date('2026-10-20T13:00:00Z'), zone)
+    ).toEqual({
+      startsAt: new Date('2026-10-20T13:00:00Z'),
+      endsAt: new Date('2026-10-20T13:30:00Z'),
+      allDay: false,
+    })
+  })
+})
+
+describe('getTaskDropTimes', () => {
+  it('should make a day dropped on midnight on the user clock', () => {
+    expect(
+      getTaskDropTimes(
+        { estimateMinutes: 90 },
+        { start: new Date('2026-10-20T00:00:00Z'), allDay: true },
+        zone
+      )
+    ).toEqual({
+      event: {
+        startsAt: new Date('2026-10-20T00:00:00Z'),
+        endsAt: new Date('2026-10-21T00:00:00Z'),
+        allDay: true,
+      },
+      dueDate: new Date('2026-10-20T04:00:00Z'),
+    })
+  })
+
+  it('should make events as long as the estimate', () => {
+    expect(
+      getTaskDropTimes(
+        { estimateMinutes: 90 },
+        { start: new Date('2026-10-20T13:00:00Z'), allDay: false },
+        zone
+      )
+    ).toEqual({
+      event: {
+        startsAt: new Date('2026-10-20T13:00:00Z'),
+        endsAt: new Date('2026-10-20T14:30:00Z'),
+        allDay: false,
+      },
+      dueDate: new Date('2026-10-20T13:00:00Z'),
+    })
+  })
+
+  it('should fall back to the default length without an estimate', () => {
+    expect(
+      getTaskDropTimes(
+        { estimateMinutes: null },
+        { start: new Date('2026-10-20T13:00:00Z'), allDay: false },
+        zone
+      ).event.endsAt
+    ).toEqual(new Date('2026-10-20T14:00:00Z'))
+  })
+})
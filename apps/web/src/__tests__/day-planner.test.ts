@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest'
+import {
+  compareForPlanning,
+  planTimeBlocks,
+  type PlannerTask,
+} from '@/lib/day-planner'
+
+const task = (id: string, fields: Partial<PlannerTask> = {}): PlannerTask => ({
+  id,
+  priority: 'MEDIUM',
+  dueDate: null,
+  estimateMinutes: 30,
+  order: 0,
+  ...fields,
+})
+
+const gap = (start: string, end: string) => ({
+  start: new Date(`2026-10-19T${start}:00Z`),
+  end: new Date(`2026-10-19T${end}:00Z`),
+})
+
+const dueBy = new Date('2026-10-20T00:00:00Z')
+
+const times = (blocks: { taskId: string; start: Date; end: Date }[]) =>
+  blocks.map((block) => [
+    block.taskId,
+    block.start.toISOString().slice(11, 16),
+    block.end.toISOString().slice(11, 16),
+  ])
+
+describe('compareForPlanning', () => {
+  it('should put tasks due by the end of the day first', () => {
+    const tasks = [
+      task('urgent', { priority: 'URGENT' }),
+      task('due-later', {
+        priority: 'HIGH',
+        dueDate: new Date('2026-10-22T00:00:00Z'),
+      }),
+      task('due-today', {
+        priority: 'LOW',
+        dueDate: new Date('2026-10-19T17:00:00Z'),
+      }),
+      task('high', { priority: 'HIGH' }),
+    ]
+
+    expect(
+      tasks
+        .sort((a, b) => compareForPlanning(a, b, dueBy))
+        .map((task) => task.id)
+    ).toEqual(['due-today', 'urgent', 'due-later', 'high'])
+  })
+
+  it('should fall back to list order and then ids', () => {
+    const tasks = [
+      task('b', { order: 1 }),
+      task('c', { order: 0 }),
+      task('a', { order: 1 }),
+    ]
+
+    expect(
+      tasks
+        .sort((a, b) => compareForPlanning(a, b, dueBy))
+        .map((task) => task.id)
+    ).toEqual(['c', 'a', 'b'])
+  })
+})
+
+describe('planTimeBlocks', () => {
+  it('should place each task in the earliest gap it fits', () => {
+    const plan = planTimeBlocks(
+      [
+        task('long', { estimateMinutes: 90, order: 1 }),
+        task('short', { estimateMinutes: 30, order: 2 }),
+      ],
+      [gap('09:00', '10:00'), gap('11:00', '13:00')],
+      { dueBy }
+    )
+
+    expect(times(plan.blocks)).toEqual([
+      ['short', '09:00', '09:30'],
+      ['long', '11:00', '12:30'],
+    ])
+    expect(plan.unplaced).toEqual([])
+  })
+
+  it('should start blocks on slot boundaries', () => {
+    const plan = planTimeBlocks(
+      [task('a', { order: 1 }), task('b', { estimateMinutes: 20, order: 2 })],
+      [gap('09:05', '12:00')],
+      { dueBy }
+    )
+
+    expect(times(plan.blocks)).toEqual([
+      ['a', '09:15', '09:45'],
+      ['b', '09:45', '10:05'],
+    ])
+  })
+
+  it('should leave out tasks no gap is long enough for', () => {
+    const plan = planTimeBlocks(
+      [
+        task('big', { estimateMinutes: 120, priority: 'URGENT' }),
+        task('small', { estimateMinutes: 45 }),
+      ],
+      [gap('09:00', '10:00'), gap('14:00', '15:30')],
+      { dueBy }
+    )
+
+    expect(times(plan.blocks)).toEqual([['small', '09:00', '09:45']])
+    expect(plan.unplaced).toEqual(['big'])
+  })
+
+  it('should give the same plan whatever order tasks come in', () => {
+    const tasks = [
+      task('a', { priority: 'HIGH' }),
+      task('b', { dueDate: new Date('2026-10-19T12:00:00Z') }),
+      task('c', { estimateMinutes: 60 }),
+      task('d'),
+    ]
+    const free = [gap('09:00', '10:00'), gap('10:30', '12:00')]
+
+    expect(planTimeBlocks(tasks, free, { dueBy })).toEqual(
+      planTimeBlocks([...tasks].reverse(), [...free].reverse(), { dueBy })
+    )
+  })
+})
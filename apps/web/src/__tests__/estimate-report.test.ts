@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildEstimateReport,
+  formatMinutes,
+  weekStartOf,
+} from '@/lib/estimate-report'
+
+const tag = (name: string) => ({ id: `tag-${name}`, name, color: '#3b82f6' })
+
+const task = (id: string, tags: string[], estimateMinutes: number | null) => ({
+  id,
+  title: `Task ${id}`,
+  tags: tags.map(tag),
+  status: 'COMPLETED',
+  estimateMinutes,
+})
+
+const entry = (taskId: string, start: string, minutes: number) => ({
+  taskId,
+  start: new Date(start),
+  duration: minutes * 60,
+})
+
+describe('Estimate Report', () => {
+  it('should compare estimates per task, tag and week', () => {
+    const report = buildEstimateReport(
+      [
+        task('a', ['work'], 60),
+        task('b', ['work', 'home'], 30),
+        task('c', [], 20),
+      ],
+      [
+        // Task a spans two weeks and counts towards the later one
+        entry('a', '2026-10-16T09:00:00Z', 30),
+        entry('a', '2026-10-19T09:00:00Z', 60),
+        entry('b', '2026-10-13T09:00:00Z', 30),
+        entry('c', '2026-10-20T09:00:00Z', 10),
+      ]
+    )
+
+    expect(report.tasks.map((row) => [row.taskId, row.accuracyRatio])).toEqual([
+      ['a', 1.5],
+      ['b', 1],
+      ['c', 0.5],
+    ])
+    // Task b counts towards both of its tags
+    expect(report.tags).toEqual([
+      {
+        tag: tag('work'),
+        estimatedMinutes: 90,
+        actualMinutes: 120,
+        accuracyRatio: 1.33,
+        taskCount: 2,
+      },
+      {
+        tag: tag('home'),
+        estimatedMinutes: 30,
+        actualMinutes: 30,
+        accuracyRatio: 1,
+        taskCount: 1,
+      },
+      {
+        tag: null,
+        estimatedMinutes: 20,
+        actualMinutes: 10,
+        accuracyRatio: 0.5,
+        taskCount: 1,
+      },
+    ])
+    expect(report.weeks).toEqual([
+      {
+        weekStart: '2026-10-12',
+        estimatedMinutes: 30,
+        actualMinutes: 30,
+        accuracyRatio: 1,
+        taskCount: 1,
+      },
+      {
+        weekStart: '2026-10-19',
+        estimatedMinutes: 80,
+        actualMinutes: 100,
+        accuracyRatio: 1.25,
+        taskCount: 2,
+      },
+    ])
+    expect(report.totals).toMatchObject({
+      estimatedMinutes: 110,
+      actualMinutes: 130,
+      accuracyRatio: 1.18,
+      unestimatedMinutes: 0,
+    })
+  })
+
+  it('should report tracked time on tasks without an estimate separately', () => {
+    const report = buildEstimateReport(
+      [task('a', [], null), task('b', [], 30)],
+      [entry('a', '2026-10-19T09:00:00Z', 45)]
+    )
+
+    expect(report.tasks).toEqual([])
+    expect(report.totals).toEqual({
+      estimatedMinutes: 0,
+      actualMinutes: 0,
+      accuracyRatio: null,
+      taskCount: 0,
+      unestimatedMinutes: 45,
+    })
+  })
+
+  it('should bucket weeks in the local timezone', () => {
+    // Monday 00:30 in UTC+2 is still Sunday in UTC
+    const start = new Date('2026-10-18T22:30:00Z')
+
+    expect(weekStartOf(start, 'UTC')).toBe('2026-10-12')
+    expect(weekStartOf(start, 'Europe/Berlin')).toBe('2026-10-19')
+  })
+
+  it('should start weeks at the local Monday across daylight saving time', () => {
+    // Berlin is UTC+1 from 25 October: Monday 00:30 is 23:30 UTC on Sunday
+    expect(weekStartOf(new Date('2026-10-25T23:30:00Z'), 'Europe/Berlin')).toBe(
+      '2026-10-26'
+    )
+    // An hour earlier it is still Sunday in Berlin
+    expect(weekStartOf(new Date('2026-10-25T22:30:00Z'), 'Europe/Berlin')).toBe(
+      '2026-10-19'
+    )
+  })
+
+  it('should format minutes compactly', () => {
+    expect(formatMinutes(45)).toBe('45m')
+    expect(formatMinutes(120)).toBe('2h')
+    expect(formatMinutes(95)).toBe('1h 35m')
+  })
+})
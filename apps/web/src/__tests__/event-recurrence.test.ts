@@ -0,0 +1,245 @@
+import { describe, it, expect } from 'vitest'
+import { parseRecurrenceRule } from '@/lib/recurrence'
+import {
+  continueRuleFrom,
+  endRuleBefore,
+  findEventOccurrence,
+  getEventOccurrences,
+} from '@/lib/event-recurrence'
+
+const series = (rule: string, startsAt: string, minutes = 30) => ({
+  startsAt: new Date(startsAt),
+  endsAt: new Date(new Date(startsAt).getTime() + minutes * 60 * 1000),
+  rule: parseRecurrenceRule(rule),
+})
+
+const starts = (occurrences: { start: Date }[]) =>
+  occurrences.map((occurrence) => occurrence.start.toISOString())
+
+describe('getEventOccurrences', () => {
+  it('should repeat daily within the range', () => {
+    const occurrences = getEventOccurrences(
+      series('FREQ=DAILY;INTERVAL=2', '2026-10-01T09:00:00Z'),
+      {
+        start: new Date('2026-10-04T00:00:00Z'),
+        end: new Date('2026-10-09T00:00:00Z'),
+      },
+      'UTC'
+    )
+
+    expect(starts(occurrences)).toEqual([
+      '2026-10-05T09:00:00.000Z',
+      '2026-10-07T09:00:00.000Z',
+    ])
+    expect(occurrences.map((occurrence) => occurrence.index)).toEqual([2, 3])
+    expect(occurrences[0].end).toEqual(new Date('2026-10-05T09:30:00Z'))
+  })
+
+  it('should repeat weekly on the chosen weekdays', () => {
+    // Thursday the 1st, then Mondays and Thursdays every other week
+    const occurrences = getEventOccurrences(
+      series('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH', '2026-10-01T09:00:00Z'),
+      {
+        start: new Date('2026-10-01T00:00:00Z'),
+        end: new Date('2026-10-31T00:00:00Z'),
+      },
+      'UTC'
+    )
+
+    expect(starts(occurrences)).toEqual([
+      '2026-10-01T09:00:00.000Z',
+      '2026-10-12T09:00:00.000Z',
+      '2026-10-15T09:00:00.000Z',
+      '2026-10-26T09:00:00.000Z',
+      '2026-10-29T09:00:00.000Z',
+    ])
+    expect(occurrences.map((occurrence) => occurrence.index)).toEqual([
+      0, 1, 2, 3, 4,
+    ])
+  })
+
+  it('should repeat monthly on the nth weekday', () => {
+    const occurrences = getEventOccurrences(
+      series('FREQ=MONTHLY;BYDAY=-1FR', '2026-10-30T15:00:00Z'),
+      {
+        start: new Date('2026-10-01T00:00:00Z'),
+        end: new Date('2027-01-31T00:00:00Z'),
+      },
+      'UTC'
+    )
+
+    expect(starts(occurrences)).toEqual([
+      '2026-10-30T15:00:00.000Z',
+      '2026-11-27T15:00:00.000Z',
+      '2026-12-25T15:00:00.000Z',
+      '2027-01-29T15:00:00.000Z',
+    ])
+  })
+
+  it('should skip months without the day', () => {
+    const occurrences = getEventOccurrences(
+      series('FREQ=MONTHLY;BYMONTHDAY=31', '2026-01-31T12:00:00Z'),
+      {
+        start: new Date('2026-01-01T00:00:00Z'),
+        end: new Date('2026-06-30T00:00:00Z'),
+      },
+      'UTC'
+    )
+
+    expect(starts(occurrences)).toEqual([
+      '2026-01-31T12:00:00.000Z',
+      '2026-03-31T12:00:00.000Z',
+      '2026-05-31T12:00:00.000Z',
+    ])
+    expect(occurrences.map((occurrence) => occurrence.index)).toEqual([0, 1, 2])
+  })
+
+  it('should stop at COUNT and UNTIL', () => {
+    const range = {
+      start: new Date('2026-10-01T00:00:00Z'),
+      end: new Date('2026-12-31T00:00:00Z'),
+    }
+
+    expect(
+      getEventOccurrences(
+        series('FREQ=WEEKLY;COUNT=3', '2026-10-01T09:00:00Z'),
+        range,
+        'UTC'
+      )
+    ).toHaveLength(3)
+    expect(
+      starts(
+        getEventOccurrences(
+          series('FREQ=DAILY;UNTIL=20261003T090000Z', '2026-10-01T09:00:00Z'),
+          range,
+          'UTC'
+        )
+      )
+    ).toEqual([
+      '2026-10-01T09:00:00.000Z',
+      '2026-10-02T09:00:00.000Z',
+      '2026-10-03T09:00:00.000Z',
+    ])
+  })
+
+  it('should keep the wall clock time across a DST change', () => {
+    // 09:00 in New York is 13:00 UTC in summer and 14:00 UTC in winter
+    const occurrences = getEventOccurrences(
+      series('FREQ=WEEKLY', '2026-10-26T13:00:00Z', 60),
+      {
+        start: new Date('2026-10-20T00:00:00Z'),
+        end: new Date('2026-11-10T00:00:00Z'),
+      },
+      'America/New_York'
+    )
+
+    expect(starts(occurrences)).toEqual([
+      '2026-10-26T13:00:00.000Z',
+      '2026-11-02T14:00:00.000Z',
+      '2026-11-09T14:00:00.000Z',
+    ])
+    expect(occurrences[1].end).toEqual(new Date('2026-11-02T15:00:00Z'))
+  })
+
+  it('should move times in the skipped hour forward', () => {
+    // 02:30 doesn't exist in Berlin on March 29th
+    const occurrences = getEventOccurrences(
+      series('FREQ=DAILY', '2026-03-28T01:30:00Z'),
+      {
+        start: new Date('2026-03-28T00:00:00Z'),
+        end: new Date('2026-03-30T23:00:00Z'),
+      },
+      'Europe/Berlin'
+    )
+
+    expect(starts(occurrences)).toEqual([
+      '2026-03-28T01:30:00.000Z',
+      '2026-03-29T01:30:00.000Z',
+      '2026-03-30T00:30:00.000Z',
+    ])
+  })
+
+  it('should number occurrences the same when jumping ahead', () => {
+    const weekly = series(
+      'FREQ=WEEKLY;INTERVAL=3;BYDAY=TU,TH',
+      '2026-10-01T09:00:00Z'
+    )
+    const range = {
+      start: new Date('2031-01-01T00:00:00Z'),
+      end: new Date('2031-03-01T00:00:00Z'),
+    }
+
+    const fromStart = getEventOccurrences(
+      weekly,
+      { start: weekly.startsAt, end: range.end },
+      'UTC'
+    ).filter((occurrence) => occurrence.start >= range.start)
+
+    expect(getEventOccurrences(weekly, range, 'UTC')).toEqual(fromStart)
+    expect(fromStart.length).toBeGreaterThan(0)
+  })
+
+  it('should expand ranges spanning years quickly', () => {
+    const started = performance.now()
+    const occurrences = getEventOccurrences(
+      series('FREQ=DAILY', '2000-01-01T09:00:00Z'),
+      {
+        start: new Date('2026-01-01T00:00:00Z'),
+        end: new Date('2030-12-31T00:00:00Z'),
+      },
+      'Europe/Berlin'
+    )
+
+    expect(occurrences).toHaveLength(1825)
+    expect(performance.now() - started).toBeLessThan(1000)
+  })
+})
+
+describe('findEventOccurrence', () => {
+  it('should only find starts the series produces', () => {
+    const weekly = series('FREQ=WEEKLY', '2026-10-05T09:00:00Z')
+
+    expect(
+      findEventOccurrence(weekly, new Date('2026-10-19T09:00:00Z'), 'UTC')
+    ).toMatchObject({ index: 2 })
+    expect(
+      findEventOccurrence(weekly, new Date('2026-10-19T10:00:00Z'), 'UTC')
+    ).toBeNull()
+  })
+})
+
+describe('splitting a series', () => {
+  const occurrence = {
+    start: new Date('2026-10-19T09:00:00Z'),
+    end: new Date('2026-10-19T09:30:00Z'),
+    index: 2,
+  }
+
+  it('should end the first part just before the occurrence', () => {
+    expect(
+      endRuleBefore(parseRecurrenceRule('FREQ=WEEKLY'), occurrence)
+    ).toEqual({
+      freq: 'WEEKLY',
+      interval: 1,
+      until: new Date('2026-10-19T08:59:59Z'),
+    })
+    expect(
+      endRuleBefore(parseRecurrenceRule('FREQ=WEEKLY;COUNT=10'), occurrence)
+    ).toMatchObject({ count: 2 })
+    expect(
+      endRuleBefore(parseRecurrenceRule('FREQ=WEEKLY'), {
+        ...occurrence,
+        index: 0,
+      })
+    ).toBeNull()
+  })
+
+  it('should give the second part the remaining count', () => {
+    expect(
+      continueRuleFrom(parseRecurrenceRule('FREQ=WEEKLY;COUNT=10'), occurrence)
+    ).toMatchObject({ count: 8 })
+    expect(
+      continueRuleFrom(parseRecurrenceRule('FREQ=WEEKLY'), occurrence)
+    ).toEqual({ freq: 'WEEKLY', interval: 1 })
+  })
+})
@@ -0,0 +1,800 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { eventRouter } from '@/server/api/routers/event'
+
+// Mock Prisma client
+const mockPrisma = {
+  calendarEvent: {
+    findMany: vi.fn(),
+    findFirst: vi.fn(),
+    findUniqueOrThrow: vi.fn(),
+    create: vi.fn(),
+    createMany: vi.fn(),
+    createManyAndReturn: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+  },
+  calendar: {
+    findFirst: vi.fn(),
+    create: vi.fn(),
+  },
+  reminder: {
+    findMany: vi.fn(),
+    createMany: vi.fn(),
+    update: vi.fn(),
+  },
+  timeEntry: {
+    findMany: vi.fn(),
+  },
+  user: {
+    findUnique: vi.fn(),
+  },
+  $transaction: vi.fn(),
+}
+
+// Mock session
+const mockSession = {
+  user: {
+    id: 'test-user-id',
+    email: 'test@example.com',
+    name: 'Test User',
+  },
+  expires: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+}
+
+// Mock context
+const mockContext = {
+  session: mockSession,
+  req: undefined,
+  prisma: mockPrisma as any,
+}
+
+const calendar = (...lines: string[]) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n')
+
+// Weekly on Mondays at 09:00 UTC, starting October 5th
+const standup = {
+  id: 'standup',
+  userId: 'test-user-id',
+  title: 'Standup',
+  description: null,
+  startsAt: new Date('2026-10-05T09:00:00Z'),
+  endsAt: new Date('2026-10-05T09:15:00Z'),
+  allDay: false,
+  color: '#3b82f6',
+  location: null,
+  deletedAt: null,
+  recurrenceRule: 'FREQ=WEEKLY;COUNT=10',
+  excludedDates: [] as Date[],
+  recurringEventId: null,
+  originalStartsAt: null,
+  icalUid: null,
+  calendarId: 'personal',
+  createdAt: new Date('2026-10-01T00:00:00Z'),
+  updatedAt: new Date('2026-10-01T00:00:00Z'),
+}
+
+const personal = {
+  id: 'personal',
+  userId: 'test-user-id',
+  name: 'Personal',
+  color: '#3b82f6',
+  visible: true,
+}
+
+describe('Event Router', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.$transaction.mockImplementation(async (callback: any) =>
+      callback(mockPrisma)
+    )
+    mockPrisma.user.findUnique.mockResolvedValue({ timezone: 'UTC' })
+    mockPrisma.calendar.findFirst.mockResolvedValue(personal)
+    mockPrisma.reminder.findMany.mockResolvedValue([])
+    mockPrisma.calendarEvent.findMany.mockResolvedValue([])
+    mockPrisma.calendarEvent.create.mockImplementation(({ data }) =>
+      Promise.resolve({ id: 'created', ...data })
+    )
+    mockPrisma.calendarEvent.update.mockImplementation(({ where, data }) =>
+      Promise.resolve({ ...standup, id: where.id, ...data })
+    )
+  })
+
+  describe('getByDateRange', () => {
+    it('should expand series and skip deleted and edited occurrences', async () => {
+      const moved = {
+        ...standup,
+        id: 'moved',
+        recurrenceRule: null,
+        startsAt: new Date('2026-10-13T10:00:00Z'),
+        endsAt: new Date('2026-10-13T10:15:00Z'),
+        recurringEventId: 'standup',
+        originalStartsAt: new Date('2026-10-12T09:00:00Z'),
+      }
+      mockPrisma.calendarEvent.findMany
+        // Single events and edited occurrences
+        .mockResolvedValueOnce([moved])
+        // Recurring series
+        .mockResolvedValueOnce([
+          {
+            ...standup,
+            excludedDates: [new Date('2026-10-19T09:00:00Z')],
+            overrides: [{ originalStartsAt: moved.originalStartsAt }],
+          },
+        ])
+
+      const caller = eventRouter.createCaller(mockContext)
+      const events = await caller.getByDateRange({
+        start: new Date('2026-10-01T00:00:00Z'),
+        end: new Date('2026-10-31T00:00:00Z'),
+      })
+
+      expect(
+        events.map((event) => [event.id, event.startsAt.toISOString()])
+      ).toEqual([
+        ['standup', '2026-10-05T09:00:00.000Z'],
+        ['moved', '2026-10-13T10:00:00.000Z'],
+        ['standup', '2026-10-26T09:00:00.000Z'],
+      ])
+      expect(events[2]).toMatchObject({
+        endsAt: new Date('2026-10-26T09:15:00Z'),
+        originalStartsAt: new Date('2026-10-26T09:00:00Z'),
+      })
+    })
+
+    it('should leave out events in hidden calendars', async () => {
+      const caller = eventRouter.createCaller(mockContext)
+      await caller.getByDateRange({
+        start: new Date('2026-10-01T00:00:00Z'),
+        end: new Date('2026-10-31T00:00:00Z'),
+      })
+
+      expect(mockPrisma.calendarEvent.findMany).toHaveBeenCalledTimes(2)
+      for (const [query] of mockPrisma.calendarEvent.findMany.mock.calls) {
+        expect(query.where).toMatchObject({ calendar: { visible: true } })
+      }
+    })
+  })
+
+  describe('create', () => {
+    it('should put events in the default calendar, in its color', async () => {
+      mockPrisma.calendar.findFirst.mockResolvedValue({
+        ...personal,
+        color: '#22c55e',
+      })
+
+      const caller = eventRouter.createCaller(mockContext)
+      await caller.create({
+        title: 'Dentist',
+        startsAt: new Date('2026-10-20T08:00:00Z'),
+        endsAt: new Date('2026-10-20T09:00:00Z'),
+      })
+
+      expect(mockPrisma.calendar.findFirst).toHaveBeenCalledWith({
+        where: { userId: 'test-user-id', isDefault: true },
+      })
+      expect(mockPrisma.calendarEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          title: 'Dentist',
+          color: '#22c55e',
+          calendarId: 'personal',
+          userId: 'test-user-id',
+        }),
+      })
+    })
+
+    it("should reject calendars that aren't the user's", async () => {
+      mockPrisma.calendar.findFirst.mockResolvedValue(null)
+
+      const caller = eventRouter.createCaller(mockContext)
+      await expect(
+        caller.create({
+          title: 'Dentist',
+          startsAt: new Date('2026-10-20T08:00:00Z'),
+          endsAt: new Date('2026-10-20T09:00:00Z'),
+          calendarId: 'someone-elses',
+        })
+      ).rejects.toThrow('Calendar not found')
+      expect(mockPrisma.calendar.findFirst).toHaveBeenCalledWith({
+        where: { id: 'someone-elses', userId: 'test-user-id' },
+      })
+      expect(mockPrisma.calendarEvent.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getConflicts', () => {
+    it('should list other events overlapping the time', async () => {
+      mockPrisma.calendarEvent.findMany
+        .mockResolvedValueOnce([
+          {
+            ...standup,
+            id: 'lunch',
+            recurrenceRule: null,
+            startsAt: new Date('2026-10-19T12:00:00Z'),
+            endsAt: new Date('2026-10-19T13:00:00Z'),
+          },
+          {
+            ...standup,
+            id: 'editing',
+            recurrenceRule: null,
+            startsAt: new Date('2026-10-19T10:00:00Z'),
+            endsAt: new Date('2026-10-19T11:00:00Z'),
+          },
+        ])
+        .mockResolvedValueOnce([{ ...standup, overrides: [] }])
+
+      const caller = eventRouter.createCaller(mockContext)
+      const conflicts = await caller.getConflicts({
+        startsAt: new Date('2026-10-19T09:10:00Z'),
+        endsAt: new Date('2026-10-19T12:00:00Z'),
+        excludeId: 'editing',
+      })
+
+      // Lunch only touches the end, and the edited event doesn't count
+      expect(conflicts).toEqual([
+        {
+          id: 'standup',
+          title: 'Standup',
+          startsAt: new Date('2026-10-19T09:00:00Z'),
+          endsAt: new Date('2026-10-19T09:15:00Z'),
+          allDay: false,
+          color: '#3b82f6',
+        },
+      ])
+    })
+  })
+
+  describe('getPlannedVsActual', () => {
+    it('should return events, tracked time and comparisons together', async () => {
+      const entry = {
+        id: 'entry-1',
+        start: new Date('2026-10-19T09:00:00Z'),
+        end: new Date('2026-10-19T09:20:00Z'),
+        duration: 20 * 60,
+        source: 'POMODORO',
+        taskId: null,
+        eventId: 'standup',
+        task: null,
+        event: { title: 'Standup' },
+        tags: [],
+      }
+      mockPrisma.calendarEvent.findMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ ...standup, overrides: [] }])
+      mockPrisma.timeEntry.findMany
+        .mockResolvedValueOnce([entry])
+        .mockResolvedValueOnce([
+          { eventId: 'standup', start: entry.start, duration: entry.duration },
+          // Logged on the week before's standup
+          {
+            eventId: 'standup',
+            start: new Date('2026-10-12T09:00:00Z'),
+            duration: 15 * 60,
+          },
+        ])
+
+      const caller = eventRouter.createCaller(mockContext)
+      const result = await caller.getPlannedVsActual({
+        start: new Date('2026-10-19T00:00:00Z'),
+        end: new Date('2026-10-20T00:00:00Z'),
+      })
+
+      expect(result.events).toHaveLength(1)
+      expect(result.timeEntries).toEqual([entry])
+      expect(result.comparisons).toEqual([
+        {
+          eventId: 'standup',
+          occurrenceStart: new Date('2026-10-19T09:00:00Z'),
+          scheduledMinutes: 15,
+          loggedMinutes: 20,
+        },
+      ])
+      expect(mockPrisma.timeEntry.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: 'test-user-id',
+            start: { lt: new Date('2026-10-20T00:00:00Z') },
+            end: { gt: new Date('2026-10-19T00:00:00Z') },
+          },
+        })
+      )
+      expect(mockPrisma.timeEntry.findMany).toHaveBeenCalledWith({
+        where: { userId: 'test-user-id', eventId: { in: ['standup'] } },
+        select: { eventId: true, start: true, duration: true },
+      })
+    })
+  })
+
+  describe('getFreeBusy', () => {
+    it('should find open time around occurrences', async () => {
+      mockPrisma.calendarEvent.findMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ ...standup, overrides: [] }])
+
+      const caller = eventRouter.createCaller(mockContext)
+      const result = await caller.getFreeBusy({
+        start: new Date('2026-10-19T00:00:00Z'),
+        end: new Date('2026-10-20T00:00:00Z'),
+        workingHours: { start: 9 * 60, end: 12 * 60, days: [1] },
+      })
+
+      expect(result).toEqual({
+        busy: [
+          {
+            start: new Date('2026-10-19T09:00:00Z'),
+            end: new Date('2026-10-19T09:15:00Z'),
+            eventIds: ['standup'],
+          },
+        ],
+        free: [
+          {
+            start: new Date('2026-10-19T09:15:00Z'),
+            end: new Date('2026-10-19T12:00:00Z'),
+          },
+        ],
+      })
+      // Looks a day further either way for all-day events
+      expect(mockPrisma.calendarEvent.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            recurrenceRule: null,
+            startsAt: { lte: new Date('2026-10-21T00:00:00Z') },
+            OR: [
+              { startsAt: { gte: new Date('2026-10-18T00:00:00Z') } },
+              { endsAt: { gt: new Date('2026-10-18T00:00:00Z') } },
+            ],
+          }),
+        })
+      )
+    })
+
+    it('should reject ranges longer than two months', async () => {
+      const caller = eventRouter.createCaller(mockContext)
+
+      await expect(
+        caller.getFreeBusy({
+          start: new Date('2026-01-01T00:00:00Z'),
+          end: new Date('2026-12-31T00:00:00Z'),
+        })
+      ).rejects.toThrow('Ranges can be at most 62 days long')
+    })
+  })
+
+  describe('update', () => {
+    beforeEach(() => {
+      mockPrisma.calendarEvent.findFirst.mockResolvedValue(standup)
+    })
+
+    it('should save an edit to one occurrence as its own event', async () => {
+      const caller = eventRouter.createCaller(mockContext)
+      await caller.update({
+        id: 'standup',
+        scope: 'this',
+        occurrenceStart: new Date('2026-10-19T09:00:00Z'),
+        data: { title: 'Long standup' },
+      })
+
+      expect(mockPrisma.calendarEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          title: 'Long standup',
+          startsAt: new Date('2026-10-19T09:00:00Z'),
+          endsAt: new Date('2026-10-19T09:15:00Z'),
+          recurrenceRule: null,
+          recurringEventId: 'standup',
+          originalStartsAt: new Date('2026-10-19T09:00:00Z'),
+        }),
+      })
+      expect(mockPrisma.calendarEvent.update).not.toHaveBeenCalled()
+    })
+
+    it("should give an edited occurrence its series' reminders", async () => {
+      vi.useFakeTimers({ now: new Date('2026-10-12T12:00:00Z') })
+      mockPrisma.reminder.findMany.mockImplementation(({ where }) =>
+        Promise.resolve([
+          where.calendarEventId === 'standup'
+            ? { id: 'series-reminder', kind: 'BEFORE', offsetMinutes: 15 }
+            : { id: 'copied-reminder', kind: 'BEFORE', offsetMinutes: 15 },
+        ])
+      )
+      mockPrisma.calendarEvent.findUniqueOrThrow.mockImplementation(
+        ({ where }) =>
+          Promise.resolve(
+            where.id === 'standup'
+              ? {
+                  ...standup,
+                  overrides: [
+                    { originalStartsAt: new Date('2026-10-19T09:00:00Z') },
+                  ],
+                }
+              : {
+                  ...standup,
+                  startsAt: new Date('2026-10-19T10:00:00Z'),
+                  endsAt: new Date('2026-10-19T10:15:00Z'),
+                  recurrenceRule: null,
+                  overrides: [],
+                }
+          )
+      )
+
+      const caller = eventRouter.createCaller(mockContext)
+      await caller.update({
+        id: 'standup',
+        scope: 'this',
+        occurrenceStart: new Date('2026-10-19T09:00:00Z'),
+        data: {
+          startsAt: new Date('2026-10-19T10:00:00Z'),
+          endsAt: new Date('2026-10-19T10:15:00Z'),
+        },
+      })
+      vi.useRealTimers()
+
+      expect(mockPrisma.reminder.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            kind: 'BEFORE',
+            offsetMinutes: 15,
+            calendarEventId: 'created',
+            userId: 'test-user-id',
+          },
+        ],
+      })
+      expect(mockPrisma.reminder.update).toHaveBeenCalledWith({
+        where: { id: 'copied-reminder' },
+        data: { fireAt: new Date('2026-10-19T09:45:00Z') },
+      })
+      // The series' own reminder skips the edited occurrence
+      expect(mockPrisma.reminder.update).toHaveBeenCalledWith({
+        where: { id: 'series-reminder' },
+        data: { fireAt: new Date('2026-10-26T08:45:00Z') },
+      })
+    })
+
+    it('should split the series for this and following occurrences', async () => {
+      mockPrisma.calendarEvent.findMany.mockResolvedValue([
+        {
+          id: 'later-edit',
+          originalStartsAt: new Date('2026-10-26T09:00:00Z'),
+        },
+      ])
+
+      const caller = eventRouter.createCaller(mockContext)
+      await caller.update({
+        id: 'standup',
+        scope: 'following',
+        occurrenceStart: new Date('2026-10-19T09:00:00Z'),
+        data: {
+          startsAt: new Date('2026-10-19T10:00:00Z'),
+          endsAt: new Date('2026-10-19T10:15:00Z'),
+          recurrenceRule: 'FREQ=WEEKLY;COUNT=10',
+        },
+      })
+
+      // The rest of the ten occurrences move to a new series
+      expect(mockPrisma.calendarEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          startsAt: new Date('2026-10-19T10:00:00Z'),
+          recurrenceRule: 'FREQ=WEEKLY;COUNT=8',
+        }),
+      })
+      expect(mockPrisma.calendarEvent.update).toHaveBeenCalledWith({
+        where: { id: 'standup' },
+        data: { recurrenceRule: 'FREQ=WEEKLY;COUNT=2', excludedDates: [] },
+      })
+      // Edited occurrences keep their place in the moved series
+      expect(mockPrisma.calendarEvent.update).toHaveBeenCalledWith({
+        where: { id: 'later-edit' },
+        data: {
+          recurringEventId: 'created',
+          originalStartsAt: new Date('2026-10-26T10:00:00Z'),
+        },
+      })
+    })
+
+    it('should move the whole series by as much as the occurrence', async () => {
+      mockPrisma.calendarEvent.findFirst.mockResolvedValue({
+        ...standup,
+        excludedDates: [new Date('2026-10-12T09:00:00Z')],
+      })
+
+      const caller = eventRouter.createCaller(mockContext)
+      await caller.update({
+        id: 'standup',
+        scope: 'all',
+        occurrenceStart: new Date('2026-10-19T09:00:00Z'),
+        data: {
+          startsAt: new Date('2026-10-19T09:30:00Z'),
+          endsAt: new Date('2026-10-19T10:00:00Z'),
+        },
+      })
+
+      expect(mockPrisma.calendarEvent.update).toHaveBeenCalledWith({
+        where: { id: 'standup', userId: 'test-user-id', deletedAt: null },
+        data: {
+          startsAt: new Date('2026-10-05T09:30:00Z'),
+          endsAt: new Date('2026-10-05T10:00:00Z'),
+          excludedDates: [new Date('2026-10-12T09:30:00Z')],
+        },
+      })
+    })
+
+    it('should move edited occurrences along with their series', async () => {
+      const caller = eventRouter.createCaller(mockContext)
+      await caller.update({
+        id: 'standup',
+        scope: 'all',
+        occurrenceStart: new Date('2026-10-19T09:00:00Z'),
+        data: { calendarId: 'work' },
+      })
+
+      expect(mockPrisma.calendar.findFirst).toHaveBeenCalledWith({
+        where: { id: 'work', userId: 'test-user-id' },
+      })
+      expect(mockPrisma.calendarEvent.updateMany).toHaveBeenCalledWith({
+        where: { recurringEventId: 'standup' },
+        data: { calendarId: 'work' },
+      })
+      expect(mockPrisma.calendarEvent.update).toHaveBeenCalledWith({
+        where: { id: 'standup', userId: 'test-user-id', deletedAt: null },
+        data: expect.objectContaining({ calendarId: 'work' }),
+      })
+    })
+
+    it('should reject a start the series never produces', async () => {
+      const caller = eventRouter.createCaller(mockContext)
+
+      await expect(
+        caller.update({
+          id: 'standup',
+          scope: 'this',
+          occurrenceStart: new Date('2026-10-20T09:00:00Z'),
+          data: { title: 'Tuesday?' },
+        })
+      ).rejects.toThrow('Occurrence not found')
+      expect(mockPrisma.calendarEvent.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('delete', () => {
+    it('should take a single occurrence out of the series', async () => {
+      mockPrisma.calendarEvent.findFirst.mockResolvedValue(standup)
+
+      const caller = eventRouter.createCaller(mockContext)
+      const result = await caller.delete({
+        id: 'standup',
+        scope: 'this',
+        occurrenceStart: new Date('2026-10-12T09:00:00Z'),
+      })
+
+      expect(result).toEqual({ id: 'standup', deletedAt: null })
+      expect(mockPrisma.calendarEvent.update).toHaveBeenCalledWith({
+        where: { id: 'standup' },
+        data: { excludedDates: { push: new Date('2026-10-12T09:00:00Z') } },
+      })
+    })
+
+    it('should trash a series along with its edited occurrences', async () => {
+      mockPrisma.calendarEvent.findFirst.mockResolvedValue(standup)
+
+      const caller = eventRouter.createCaller(mockContext)
+      const result = await caller.delete({ id: 'standup' })
+
+      expect(result.deletedAt).toBeInstanceOf(Date)
+      expect(mockPrisma.calendarEvent.updateMany).toHaveBeenCalledWith({
+        where: {
+          OR: [{ id: 'standup' }, { recurringEventId: 'standup' }],
+          userId: 'test-user-id',
+          deletedAt: null,
+        },
+        data: { deletedAt: result.deletedAt },
+      })
+    })
+  })
+
+  describe('exportIcs', () => {
+    it('should export events and series with occurrences in the range', async () => {
+      mockPrisma.calendarEvent.findMany
+        .mockResolvedValueOnce([
+          // Ended before the range
+          { ...standup, id: 'old', recurrenceRule: 'FREQ=DAILY;COUNT=2' },
+          standup,
+          {
+            ...standup,
+            id: 'lunch',
+            title: 'Lunch',
+            icalUid: 'lunch@example.com',
+            recurrenceRule: null,
+            startsAt: new Date('2026-10-20T12:00:00Z'),
+            endsAt: new Date('2026-10-20T13:00:00Z'),
+          },
+        ])
+        .mockResolvedValueOnce([
+          {
+            ...standup,
+            id: 'moved',
+            recurrenceRule: null,
+            recurringEventId: 'standup',
+            startsAt: new Date('2026-10-20T09:00:00Z'),
+            endsAt: new Date('2026-10-20T09:15:00Z'),
+            originalStartsAt: new Date('2026-10-19T09:00:00Z'),
+          },
+        ])
+
+      const caller = eventRouter.createCaller(mockContext)
+      const content = await caller.exportIcs({
+        start: new Date('2026-10-19T00:00:00Z'),
+        end: new Date('2026-10-25T23:59:59Z'),
+      })
+
+      expect(mockPrisma.calendarEvent.findMany).toHaveBeenLastCalledWith({
+        where: {
+          userId: 'test-user-id',
+          deletedAt: null,
+          recurringEventId: { in: ['standup'] },
+        },
+        orderBy: { startsAt: 'asc' },
+      })
+      expect(content.match(/^UID:[^\r]*/gm)).toEqual([
+        'UID:standup@mindline',
+        'UID:standup@mindline',
+        'UID:lunch@example.com',
+      ])
+      expect(content).toContain('RECURRENCE-ID:20261019T090000Z\r\n')
+    })
+
+    it('should export one calendar under its name', async () => {
+      mockPrisma.calendar.findFirst.mockResolvedValue({
+        ...personal,
+        id: 'work',
+        name: 'Work',
+      })
+
+      const caller = eventRouter.createCaller(mockContext)
+      const content = await caller.exportIcs({ calendarId: 'work' })
+
+      expect(mockPrisma.calendarEvent.findMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'test-user-id',
+          deletedAt: null,
+          recurringEventId: null,
+          calendarId: 'work',
+        },
+        orderBy: { startsAt: 'asc' },
+      })
+      expect(content).toContain('X-WR-CALNAME:Work\r\n')
+    })
+  })
+
+  describe('importIcs', () => {
+    const content = calendar(
+      'BEGIN:VEVENT',
+      'UID:review@example.com',
+      'SUMMARY:Review',
+      'DTSTART:20261019T150000Z',
+      'DTEND:20261019T160000Z',
+      'RRULE:FREQ=WEEKLY',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:review@example.com',
+      'SUMMARY:Review (moved)',
+      'RECURRENCE-ID:20261026T150000Z',
+      'DTSTART:20261027T150000Z',
+      'DTEND:20261027T160000Z',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:standup@mindline',
+      'SUMMARY:Standup',
+      'DTSTART:20261005T090000Z',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:lunch@example.com',
+      'SUMMARY:Lunch',
+      'DTSTART:20261020T120000Z',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:orphan@example.com',
+      'SUMMARY:Orphan',
+      'RECURRENCE-ID:20261026T150000Z',
+      'DTSTART:20261027T150000Z',
+      'END:VEVENT'
+    )
+
+    beforeEach(() => {
+      // Standup was exported from here, lunch was imported before
+      mockPrisma.calendarEvent.findMany.mockResolvedValue([
+        { id: 'standup', icalUid: null },
+        { id: 'lunch', icalUid: 'lunch@example.com' },
+      ])
+      mockPrisma.calendarEvent.createManyAndReturn.mockResolvedValue([
+        {
+          id: 'review',
+          icalUid: 'review@example.com',
+          recurrenceRule: 'FREQ=WEEKLY',
+        },
+      ])
+    })
+
+    it('should preview new events and report duplicates', async () => {
+      const caller = eventRouter.createCaller(mockContext)
+      const preview = await caller.previewIcsImport({ content })
+
+      expect(preview.events.map((event) => event.title)).toEqual([
+        'Review',
+        'Review (moved)',
+      ])
+      expect(preview.skipped).toEqual([
+        {
+          uid: 'standup@mindline',
+          title: 'Standup',
+          reason: 'Already in your calendar',
+        },
+        {
+          uid: 'lunch@example.com',
+          title: 'Lunch',
+          reason: 'Already in your calendar',
+        },
+        {
+          uid: 'orphan@example.com',
+          title: 'Orphan',
+          reason: 'The repeating event it belongs to is not in the file',
+        },
+      ])
+      expect(mockPrisma.calendarEvent.findMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'test-user-id',
+          deletedAt: null,
+          OR: [
+            {
+              icalUid: {
+                in: [
+                  'review@example.com',
+                  'standup@mindline',
+                  'lunch@example.com',
+                  'orphan@example.com',
+                ],
+              },
+            },
+            { id: { in: ['standup'] } },
+          ],
+        },
+        select: { id: true, icalUid: true },
+      })
+      expect(
+        mockPrisma.calendarEvent.createManyAndReturn
+      ).not.toHaveBeenCalled()
+    })
+
+    it('should create series before their edited occurrences', async () => {
+      const caller = eventRouter.createCaller(mockContext)
+      const result = await caller.importIcs({ content })
+
+      expect(result.imported).toBe(2)
+      expect(result.skipped).toHaveLength(3)
+      expect(mockPrisma.calendarEvent.createManyAndReturn).toHaveBeenCalledWith(
+        {
+          data: [
+            expect.objectContaining({
+              title: 'Review',
+              icalUid: 'review@example.com',
+              recurrenceRule: 'FREQ=WEEKLY',
+              color: '#3b82f6',
+              calendarId: 'personal',
+              userId: 'test-user-id',
+            }),
+          ],
+          select: { id: true, icalUid: true, recurrenceRule: true },
+        }
+      )
+      expect(mockPrisma.calendarEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            title: 'Review (moved)',
+            icalUid: null,
+            startsAt: new Date('2026-10-27T15:00:00Z'),
+            recurringEventId: 'review',
+            originalStartsAt: new Date('2026-10-26T15:00:00Z'),
+            calendarId: 'personal',
+          }),
+        ],
+      })
+    })
+  })
+})
@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_WORKING_HOURS,
+  getEventInterval,
+  getFreeBusy,
+  getWorkingIntervals,
+  intervalsOverlap,
+} from '@/lib/free-busy'
+
+const event = (
+  id: string,
+  startsAt: string,
+  endsAt: string,
+  allDay = false
+) => ({
+  id,
+  startsAt: new Date(startsAt),
+  endsAt: new Date(endsAt),
+  allDay,
+})
+
+const iso = (intervals: { start: Date; end: Date }[]) =>
+  intervals.map((interval) => [
+    interval.start.toISOString(),
+    interval.end.toISOString(),
+  ])
+
+// Monday October 19th to Wednesday October 21st
+const range = {
+  start: new Date('2026-10-19T00:00:00Z'),
+  end: new Date('2026-10-22T00:00:00Z'),
+}
+
+describe('getEventInterval', () => {
+  it('should put all-day events on the days of the user', () => {
+    expect(
+      getEventInterval(
+        event('a', '2026-10-19T00:00:00Z', '2026-10-21T00:00:00Z', true),
+        'America/New_York'
+      )
+    ).toEqual({
+      start: new Date('2026-10-19T04:00:00Z'),
+      end: new Date('2026-10-21T04:00:00Z'),
+    })
+  })
+
+  it('should let all-day events last at least a day', () => {
+    expect(
+      getEventInterval(
+        event('a', '2026-10-19T00:00:00Z', '2026-10-19T00:00:00Z', true),
+        'UTC'
+      )
+    ).toEqual({
+      start: new Date('2026-10-19T00:00:00Z'),
+      end: new Date('2026-10-20T00:00:00Z'),
+    })
+  })
+})
+
+describe('intervalsOverlap', () => {
+  it('should not count intervals that only touch', () => {
+    const a = { start: new Date(0), end: new Date(10) }
+
+    expect(intervalsOverlap(a, { start: new Date(5), end: new Date(15) })).toBe(
+      true
+    )
+    expect(
+      intervalsOverlap(a, { start: new Date(10), end: new Date(15) })
+    ).toBe(false)
+  })
+})
+
+describe('getWorkingIntervals', () => {
+  it('should skip days off and follow the local clock', () => {
+    // Clocks go back in New York on Sunday November 1st
+    const intervals = getWorkingIntervals(
+      {
+        start: new Date('2026-10-30T00:00:00Z'),
+        end: new Date('2026-11-03T00:00:00Z'),
+      },
+      DEFAULT_WORKING_HOURS,
+      'America/New_York'
+    )
+
+    expect(iso(intervals)).toEqual([
+      ['2026-10-30T13:00:00.000Z', '2026-10-30T21:00:00.000Z'],
+      ['2026-11-02T14:00:00.000Z', '2026-11-02T22:00:00.000Z'],
+    ])
+  })
+
+  it('should clip the working day to the range', () => {
+    const intervals = getWorkingIntervals(
+      {
+        start: new Date('2026-10-19T12:00:00Z'),
+        end: new Date('2026-10-19T15:00:00Z'),
+      },
+      DEFAULT_WORKING_HOURS,
+      'UTC'
+    )
+
+    expect(iso(intervals)).toEqual([
+      ['2026-10-19T12:00:00.000Z', '2026-10-19T15:00:00.000Z'],
+    ])
+  })
+})
+
+describe('getFreeBusy', () => {
+  it('should merge overlapping events and find the gaps between them', () => {
+    const { busy, free } = getFreeBusy(
+      [
+        event('standup', '2026-10-19T09:00:00Z', '2026-10-19T09:30:00Z'),
+        event('review', '2026-10-19T11:00:00Z', '2026-10-19T12:00:00Z'),
+        event('lunch', '2026-10-19T11:30:00Z', '2026-10-19T12:30:00Z'),
+        // Touches lunch, so it joins the same busy stretch
+        event('call', '2026-10-19T12:30:00Z', '2026-10-19T13:00:00Z'),
+      ],
+      {
+        start: new Date('2026-10-19T00:00:00Z'),
+        end: new Date('2026-10-20T00:00:00Z'),
+      },
+      DEFAULT_WORKING_HOURS,
+      'UTC'
+    )
+
+    expect(busy).toEqual([
+      {
+        start: new Date('2026-10-19T09:00:00Z'),
+        end: new Date('2026-10-19T09:30:00Z'),
+        eventIds: ['standup'],
+      },
+      {
+        start: new Date('2026-10-19T11:00:00Z'),
+        end: new Date('2026-10-19T13:00:00Z'),
+        eventIds: ['review', 'lunch', 'call'],
+      },
+    ])
+    expect(iso(free)).toEqual([
+      ['2026-10-19T09:30:00.000Z', '2026-10-19T11:00:00.000Z'],
+      ['2026-10-19T13:00:00.000Z', '2026-10-19T17:00:00.000Z'],
+    ])
+  })
+
+  it('should block every day a multi-day event spans', () => {
+    const { busy, free } = getFreeBusy(
+      [
+        // Started the week before and ends Tuesday at noon
+        event('trip', '2026-10-16T08:00:00Z', '2026-10-20T12:00:00Z'),
+      ],
+      range,
+      DEFAULT_WORKING_HOURS,
+      'UTC'
+    )
+
+    expect(iso(busy)).toEqual([
+      ['2026-10-19T00:00:00.000Z', '2026-10-20T12:00:00.000Z'],
+    ])
+    expect(iso(free)).toEqual([
+      ['2026-10-20T12:00:00.000Z', '2026-10-20T17:00:00.000Z'],
+      ['2026-10-21T09:00:00.000Z', '2026-10-21T17:00:00.000Z'],
+    ])
+  })
+
+  it("should block all-day events' days on the user's clock", () => {
+    const { busy, free } = getFreeBusy(
+      [event('offsite', '2026-10-20T00:00:00Z', '2026-10-21T00:00:00Z', true)],
+      range,
+      { start: 9 * 60, end: 17 * 60, days: [1, 2, 3] },
+      'Europe/Berlin'
+    )
+
+    expect(iso(busy)).toEqual([
+      ['2026-10-19T22:00:00.000Z', '2026-10-20T22:00:00.000Z'],
+    ])
+    expect(iso(free)).toEqual([
+      ['2026-10-19T07:00:00.000Z', '2026-10-19T15:00:00.000Z'],
+      ['2026-10-21T07:00:00.000Z', '2026-10-21T15:00:00.000Z'],
+    ])
+  })
+
+  it('should ignore events outside the range and without length', () => {
+    const { busy } = getFreeBusy(
+      [
+        event('before', '2026-10-18T09:00:00Z', '2026-10-19T00:00:00Z'),
+        event('reminder', '2026-10-19T09:00:00Z', '2026-10-19T09:00:00Z'),
+      ],
+      range,
+      DEFAULT_WORKING_HOURS,
+      'UTC'
+    )
+
+    expect(busy).toEqual([])
+  })
+})
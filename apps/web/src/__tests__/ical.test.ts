@@ -0,0 +1,323 @@
+import { describe, it, expect } from 'vitest'
+import { formatIcsCalendar, parseIcsCalendar } from '@/lib/ical'
+
+const calendar = (...lines: string[]) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n')
+
+const event = {
+  uid: 'event-1@mindline',
+  title: 'Planning, part 1',
+  description: 'Bring notes;\nand coffee',
+  location: 'Room 4',
+  color: '#ef4444',
+  startsAt: new Date('2026-10-19T09:00:00Z'),
+  endsAt: new Date('2026-10-19T10:00:00Z'),
+  allDay: false,
+  updatedAt: new Date('2026-10-01T12:00:00Z'),
+}
+
+describe('formatIcsCalendar', () => {
+  it('should write events with escaped text and the color', () => {
+    const content = formatIcsCalendar([event], { timeZone: 'UTC' })
+    const lines = content.split('\r\n')
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR')
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        'UID:event-1@mindline',
+        'DTSTAMP:20261001T120000Z',
+        'DTSTART:20261019T090000Z',
+        'DTEND:20261019T100000Z',
+        'SUMMARY:Planning\\, part 1',
+        'DESCRIPTION:Bring notes\\;\\nand coffee',
+        'LOCATION:Room 4',
+        'X-MINDLINE-COLOR:#ef4444',
+      ])
+    )
+    expect(content.endsWith('END:VCALENDAR\r\n')).toBe(true)
+  })
+
+  it('should write all-day events as dates', () => {
+    const content = formatIcsCalendar(
+      [
+        {
+          ...event,
+          allDay: true,
+          startsAt: new Date('2026-10-19T00:00:00Z'),
+          endsAt: new Date('2026-10-21T00:00:00Z'),
+        },
+      ],
+      { timeZone: 'Europe/Berlin' }
+    )
+
+    expect(content).toContain('DTSTART;VALUE=DATE:20261019\r\n')
+    expect(content).toContain('DTEND;VALUE=DATE:20261021\r\n')
+  })
+
+  it('should write recurring events on the local clock', () => {
+    const content = formatIcsCalendar(
+      [
+        {
+          ...event,
+          recurrenceRule: 'FREQ=WEEKLY;COUNT=5',
+          excludedDates: [new Date('2026-10-26T09:00:00Z')],
+        },
+        {
+          ...event,
+          startsAt: new Date('2026-11-02T11:00:00Z'),
+          endsAt: new Date('2026-11-02T12:00:00Z'),
+          recurrenceId: new Date('2026-11-02T10:00:00Z'),
+        },
+      ],
+      { timeZone: 'Europe/Berlin' }
+    )
+
+    expect(content).toContain('DTSTART;TZID=Europe/Berlin:20261019T110000\r\n')
+    expect(content).toContain('RRULE:FREQ=WEEKLY;COUNT=5\r\n')
+    expect(content).toContain('EXDATE;TZID=Europe/Berlin:20261026T100000\r\n')
+    expect(content).toContain(
+      'RECURRENCE-ID;TZID=Europe/Berlin:20261102T110000\r\n'
+    )
+  })
+
+  it('should describe the timezone recurring events use', () => {
+    const content = formatIcsCalendar(
+      [{ ...event, recurrenceRule: 'FREQ=WEEKLY' }],
+      { timeZone: 'Europe/Berlin' }
+    )
+
+    expect(content.match(/BEGIN:VTIMEZONE/g)).toHaveLength(1)
+    expect(content).toContain(
+      [
+        'BEGIN:VTIMEZONE',
+        'TZID:Europe/Berlin',
+        'BEGIN:STANDARD',
+        'DTSTART:20260101T010000',
+        'TZOFFSETFROM:+0100',
+        'TZOFFSETTO:+0100',
+        'END:STANDARD',
+        'BEGIN:DAYLIGHT',
+        'DTSTART:20260329T020000',
+        'TZOFFSETFROM:+0100',
+        'TZOFFSETTO:+0200',
+        'END:DAYLIGHT',
+        'BEGIN:STANDARD',
+        'DTSTART:20261025T030000',
+        'TZOFFSETFROM:+0200',
+        'TZOFFSETTO:+0100',
+        'END:STANDARD',
+      ].join('\r\n')
+    )
+    // Ten years on, for series without an end
+    expect(content).toContain('DTSTART:20361026T030000')
+    expect(content.indexOf('END:VTIMEZONE')).toBeLessThan(
+      content.indexOf('BEGIN:VEVENT')
+    )
+  })
+
+  it('should leave out the timezone when only UTC times are written', () => {
+    const content = formatIcsCalendar([event], { timeZone: 'Europe/Berlin' })
+
+    expect(content).not.toContain('VTIMEZONE')
+    expect(content).toContain('DTSTART:20261019T090000Z\r\n')
+  })
+
+  it('should fold long lines', () => {
+    const content = formatIcsCalendar(
+      [{ ...event, description: 'ä'.repeat(100) }],
+      { timeZone: 'UTC' }
+    )
+    const lines = content.split('\r\n')
+
+    for (const line of lines) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75)
+    }
+    const parsed = parseIcsCalendar(content, 'UTC')
+    expect(parsed.events[0].description).toBe('ä'.repeat(100))
+  })
+
+  it('should read back what it writes', () => {
+    const content = formatIcsCalendar(
+      [{ ...event, recurrenceRule: 'FREQ=DAILY;INTERVAL=2' }],
+      { timeZone: 'America/New_York' }
+    )
+
+    expect(parseIcsCalendar(content, 'UTC')).toEqual({
+      events: [
+        {
+          uid: event.uid,
+          title: event.title,
+          description: 'Bring notes;\nand coffee',
+          location: event.location,
+          color: event.color,
+          startsAt: event.startsAt,
+          endsAt: event.endsAt,
+          allDay: false,
+          recurrenceRule: 'FREQ=DAILY;INTERVAL=2',
+          excludedDates: [],
+          recurrenceId: null,
+        },
+      ],
+      skipped: [],
+    })
+  })
+})
+
+describe('parseIcsCalendar', () => {
+  it('should read UTC, zoned, floating and all-day times', () => {
+    const { events } = parseIcsCalendar(
+      calendar(
+        'BEGIN:VEVENT',
+        'UID:utc',
+        'DTSTART:20261019T090000Z',
+        'DURATION:PT1H30M',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:zoned',
+        'DTSTART;TZID="America/New_York":20261019T090000',
+        'DTEND;TZID=America/New_York:20261019T100000',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:floating',
+        'DTSTART:20261019T090000',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:all-day',
+        'DTSTART;VALUE=DATE:20261024',
+        'END:VEVENT'
+      ),
+      'Europe/Berlin'
+    )
+
+    expect(
+      events.map((entry) => [
+        entry.uid,
+        entry.startsAt.toISOString(),
+        entry.endsAt.toISOString(),
+        entry.allDay,
+      ])
+    ).toEqual([
+      ['utc', '2026-10-19T09:00:00.000Z', '2026-10-19T10:30:00.000Z', false],
+      ['zoned', '2026-10-19T13:00:00.000Z', '2026-10-19T14:00:00.000Z', false],
+      // Floating times are read in the user's timezone
+      [
+        'floating',
+        '2026-10-19T07:00:00.000Z',
+        '2026-10-19T07:00:00.000Z',
+        false,
+      ],
+      ['all-day', '2026-10-24T00:00:00.000Z', '2026-10-25T00:00:00.000Z', true],
+    ])
+    expect(events[0].title).toBe('Untitled event')
+  })
+
+  it('should read folded lines, excluded dates and nested alarms', () => {
+    const { events } = parseIcsCalendar(
+      calendar(
+        'BEGIN:VEVENT',
+        'UID:standup',
+        'SUMMARY:Daily',
+        '  standup',
+        'DTSTART:20261019T090000Z',
+        'DTEND:20261019T091500Z',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO,WE',
+        'EXDATE:20261021T090000Z,20261026T090000Z',
+        'EXDATE:20261028T090000Z',
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        'DESCRIPTION:Reminder',
+        'END:VALARM',
+        'END:VEVENT'
+      ),
+      'UTC'
+    )
+
+    expect(events).toHaveLength(1)
+    expect(events[0]).toMatchObject({
+      title: 'Daily standup',
+      description: null,
+      recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO,WE',
+      excludedDates: [
+        new Date('2026-10-21T09:00:00Z'),
+        new Date('2026-10-26T09:00:00Z'),
+        new Date('2026-10-28T09:00:00Z'),
+      ],
+    })
+  })
+
+  it('should report items it cannot import', () => {
+    const { events, skipped } = parseIcsCalendar(
+      calendar(
+        'BEGIN:VTIMEZONE',
+        'TZID:Europe/Berlin',
+        'END:VTIMEZONE',
+        'BEGIN:VTODO',
+        'UID:todo',
+        'SUMMARY:Buy milk',
+        'END:VTODO',
+        'BEGIN:VEVENT',
+        'UID:yearly',
+        'SUMMARY:Birthday',
+        'DTSTART;VALUE=DATE:20261019',
+        'RRULE:FREQ=YEARLY',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:no-start',
+        'SUMMARY:Someday',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:backwards',
+        'DTSTART:20261019T100000Z',
+        'DTEND:20261019T090000Z',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:cancelled',
+        'STATUS:CANCELLED',
+        'DTSTART:20261019T100000Z',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:twice',
+        'DTSTART:20261019T100000Z',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:twice',
+        'DTSTART:20261020T100000Z',
+        'END:VEVENT'
+      ),
+      'UTC'
+    )
+
+    expect(events.map((entry) => entry.uid)).toEqual(['twice'])
+    expect(skipped).toEqual([
+      {
+        uid: 'todo',
+        title: 'Buy milk',
+        reason: 'Only events are imported (VTODO)',
+      },
+      {
+        uid: 'yearly',
+        title: 'Birthday',
+        reason:
+          'Unsupported repeat rule: FREQ must be DAILY, WEEKLY or MONTHLY',
+      },
+      {
+        uid: 'no-start',
+        title: 'Someday',
+        reason: 'The event has no start (DTSTART)',
+      },
+      {
+        uid: 'backwards',
+        title: undefined,
+        reason: 'The event ends before it starts',
+      },
+      { uid: 'cancelled', title: undefined, reason: 'The event is cancelled' },
+      { uid: 'twice', title: undefined, reason: 'The file repeats this event' },
+    ])
+  })
+
+  it('should reject files that are not calendars', () => {
+    expect(() => parseIcsCalendar('hello', 'UTC')).toThrow(
+      'Not an iCalendar file'
+    )
+  })
+})
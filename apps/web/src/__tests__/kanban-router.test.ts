@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { kanbanRouter } from '@/server/api/routers/kanban'
+
+// Mock Prisma client
+const mockPrisma = {
+  kanbanPreference: {
+    findUnique: vi.fn(),
+    create: vi.fn(),
+    upsert: vi.fn(),
+  },
+  kanbanColumn: {
+    findFirst: vi.fn(),
+    findMany: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+  $transaction: vi.fn(),
+}
+
+// Mock session
+const mockSession = {
+  user: {
+    id: 'test-user-id',
+    email: 'test@example.com',
+    name: 'Test User',
+  },
+  expires: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+}
+
+// Mock context
+const mockContext = {
+  session: mockSession,
+  req: undefined,
+  prisma: mockPrisma as any,
+}
+
+const preferences = {
+  userId: 'test-user-id',
+  groupBy: 'STATUS',
+  wipLimits: {},
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}
+
+describe('Kanban Router', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.kanbanPreference.upsert.mockImplementation(({ update }) =>
+      Promise.resolve({ ...preferences, ...update })
+    )
+  })
+
+  describe('getPreferences', () => {
+    it('should create default preferences on first use', async () => {
+      mockPrisma.kanbanPreference.findUnique.mockResolvedValue(null)
+      mockPrisma.kanbanPreference.create.mockResolvedValue(preferences)
+
+      const caller = kanbanRouter.createCaller(mockContext)
+      const result = await caller.getPreferences()
+
+      expect(mockPrisma.kanbanPreference.create).toHaveBeenCalledWith({
+        data: { userId: 'test-user-id' },
+      })
+      expect(result.groupBy).toBe('STATUS')
+      expect(result.wipLimits).toEqual({})
+    })
+
+    it('should drop stored WIP limits that are not valid', async () => {
+      mockPrisma.kanbanPreference.findUnique.mockResolvedValue({
+        ...preferences,
+        wipLimits: { 'status:ACTIVE': 3, 'status:COMPLETED': -1 },
+      })
+
+      const caller = kanbanRouter.createCaller(mockContext)
+      const result = await caller.getPreferences()
+
+      expect(result.wipLimits).toEqual({ 'status:ACTIVE': 3 })
+    })
+  })
+
+  describe('updatePreferences', () => {
+    it('should save the chosen grouping', async () => {
+      const caller = kanbanRouter.createCaller(mockContext)
+      const result = await caller.updatePreferences({ groupBy: 'TAG' })
+
+      expect(mockPrisma.kanbanPreference.upsert).toHaveBeenCalledWith({
+        where: { userId: 'test-user-id' },
+        update: { groupBy: 'TAG' },
+        create: { userId: 'test-user-id', groupBy: 'TAG' },
+      })
+      expect(result.groupBy).toBe('TAG')
+    })
+  })
+
+  describe('setWipLimit', () => {
+    it('should keep the limits of other columns', async () => {
+      mockPrisma.kanbanPreference.findUnique.mockResolvedValue({
+        wipLimits: { 'status:ACTIVE': 3 },
+      })
+
+      const caller = kanbanRouter.createCaller(mockContext)
+      const result = await caller.setWipLimit({
+        columnKey: 'status:COMPLETED',
+        limit: 10,
+      })
+
+      expect(result.wipLimits).toEqual({
+        'status:ACTIVE': 3,
+        'status:COMPLETED': 10,
+      })
+    })
+
+    it('should clear a limit', async () => {
+      mockPrisma.kanbanPreference.findUnique.mockResolvedValue({
+        wipLimits: { 'status:ACTIVE': 3 },
+      })
+
+      const caller = kanbanRouter.createCaller(mockContext)
+      const result = await caller.setWipLimit({
+        columnKey: 'status:ACTIVE',
+        limit: null,
+      })
+
+      expect(result.wipLimits).toEqual({})
+    })
+
+    it('should reject limits below one', async () => {
+      const caller = kanbanRouter.createCaller(mockContext)
+
+      await expect(
+        caller.setWipLimit({ columnKey: 'status:ACTIVE', limit: 0 })
+      ).rejects.toThrow()
+      expect(mockPrisma.kanbanPreference.upsert).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('columns', () => {
+    it('should add new columns on the right', async () => {
+      mockPrisma.kanbanColumn.findFirst.mockResolvedValue({ order: 2 })
+      mockPrisma.kanbanColumn.create.mockResolvedValue({ id: 'col-4' })
+
+      const caller = kanbanRouter.createCaller(mockContext)
+      await caller.createColumn({ name: '  Review ' })
+
+      expect(mockPrisma.kanbanColumn.create).toHaveBeenCalledWith({
+        data: { name: 'Review', order: 3, userId: 'test-user-id' },
+      })
+    })
+
+    it('should reorder columns in one transaction', async () => {
+      mockPrisma.kanbanColumn.findMany.mockResolvedValue([
+        { id: 'col-1' },
+        { id: 'col-2' },
+      ])
+      mockPrisma.kanbanColumn.update.mockImplementation((args) => args)
+      mockPrisma.$transaction.mockResolvedValue([])
+
+      const caller = kanbanRouter.createCaller(mockContext)
+      await caller.reorderColumns({ ids: ['col-2', 'col-1'] })
+
+      expect(mockPrisma.$transaction).toHaveBeenCalledWith([
+        { where: { id: 'col-2' }, data: { order: 0 } },
+        { where: { id: 'col-1' }, data: { order: 1 } },
+      ])
+    })
+
+    it("should not reorder another user's columns", async () => {
+      mockPrisma.kanbanColumn.findMany.mockResolvedValue([{ id: 'col-1' }])
+
+      const caller = kanbanRouter.createCaller(mockContext)
+
+      await expect(
+        caller.reorderColumns({ ids: ['col-1', 'foreign'] })
+      ).rejects.toThrow('Column not found')
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should throw when deleting a missing column', async () => {
+      mockPrisma.kanbanColumn.findFirst.mockResolvedValue(null)
+
+      const caller = kanbanRouter.createCaller(mockContext)
+
+      await expect(caller.deleteColumn({ id: 'missing' })).rejects.toThrow(
+        'Column not found'
+      )
+      expect(mockPrisma.kanbanColumn.delete).not.toHaveBeenCalled()
+    })
+  })
+})
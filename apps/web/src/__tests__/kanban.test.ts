@@ -0,0 +1,198 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getColumnMoveChange,
+  getKanbanColumns,
+  getTaskColumnKeys,
+  groupTasksByColumn,
+  isOverWipLimit,
+  parseCardId,
+  parseWipLimits,
+  toCardId,
+  type KanbanTask,
+} from '@/lib/kanban'
+
+const task = (overrides: Partial<KanbanTask> = {}): KanbanTask => ({
+  id: 'task-1',
+  status: 'ACTIVE',
+  priority: 'MEDIUM',
+  tags: [],
+  kanbanColumnId: null,
+  ...overrides,
+})
+
+const tags = [
+  { id: 'tag-a', name: 'Errands', color: '#ef4444' },
+  { id: 'tag-b', name: 'Work', color: '#3b82f6' },
+]
+
+describe('getKanbanColumns', () => {
+  it('should list statuses and priorities in a fixed order', () => {
+    expect(getKanbanColumns('STATUS').map((column) => column.key)).toEqual([
+      'status:ACTIVE',
+      'status:COMPLETED',
+      'status:ARCHIVED',
+    ])
+    expect(getKanbanColumns('PRIORITY').map((column) => column.key)).toEqual([
+      'priority:URGENT',
+      'priority:HIGH',
+      'priority:MEDIUM',
+      'priority:LOW',
+    ])
+  })
+
+  it('should start label and custom boards with a column for the rest', () => {
+    expect(getKanbanColumns('TAG', { tags })).toEqual([
+      { key: 'tag:none', title: 'No label' },
+      { key: 'tag:tag-a', title: 'Errands', color: '#ef4444' },
+      { key: 'tag:tag-b', title: 'Work', color: '#3b82f6' },
+    ])
+    expect(
+      getKanbanColumns('CUSTOM', {
+        customColumns: [{ id: 'col-1', name: 'Doing', color: '#22c55e' }],
+      })
+    ).toEqual([
+      { key: 'custom:none', title: 'Unsorted' },
+      {
+        key: 'custom:col-1',
+        title: 'Doing',
+        color: '#22c55e',
+        customColumnId: 'col-1',
+      },
+    ])
+  })
+})
+
+describe('getTaskColumnKeys', () => {
+  it('should put a task in one column for each of its tags', () => {
+    expect(
+      getTaskColumnKeys(
+        'TAG',
+        task({ tags: [{ id: 'tag-a' }, { id: 'tag-b' }] })
+      )
+    ).toEqual(['tag:tag-a', 'tag:tag-b'])
+    expect(getTaskColumnKeys('TAG', task())).toEqual(['tag:none'])
+  })
+
+  it('should use the custom column, or Unsorted without one', () => {
+    expect(
+      getTaskColumnKeys('CUSTOM', task({ kanbanColumnId: 'col-1' }))
+    ).toEqual(['custom:col-1'])
+    expect(getTaskColumnKeys('CUSTOM', task())).toEqual(['custom:none'])
+  })
+})
+
+describe('groupTasksByColumn', () => {
+  it('should keep the task order within each column', () => {
+    const tasks = [
+      task({ id: 'a', priority: 'HIGH' }),
+      task({ id: 'b', priority: 'LOW' }),
+      task({ id: 'c', priority: 'HIGH' }),
+    ]
+
+    const grouped = groupTasksByColumn(
+      'PRIORITY',
+      tasks,
+      getKanbanColumns('PRIORITY')
+    )
+
+    expect(grouped.get('priority:HIGH')!.map((item) => item.id)).toEqual([
+      'a',
+      'c',
+    ])
+    expect(grouped.get('priority:LOW')!.map((item) => item.id)).toEqual(['b'])
+    expect(grouped.get('priority:URGENT')).toEqual([])
+  })
+})
+
+describe('getColumnMoveChange', () => {
+  it('should change nothing within the same column', () => {
+    expect(
+      getColumnMoveChange('STATUS', task(), 'status:ACTIVE', 'status:ACTIVE')
+    ).toBeNull()
+  })
+
+  it('should set the grouped field to the target column', () => {
+    expect(
+      getColumnMoveChange('STATUS', task(), 'status:ACTIVE', 'status:COMPLETED')
+    ).toEqual({ status: 'COMPLETED' })
+    expect(
+      getColumnMoveChange(
+        'PRIORITY',
+        task(),
+        'priority:MEDIUM',
+        'priority:HIGH'
+      )
+    ).toEqual({ priority: 'HIGH' })
+    expect(
+      getColumnMoveChange('CUSTOM', task(), 'custom:none', 'custom:col-1')
+    ).toEqual({ kanbanColumnId: 'col-1' })
+    expect(
+      getColumnMoveChange(
+        'CUSTOM',
+        task({ kanbanColumnId: 'col-1' }),
+        'custom:col-1',
+        'custom:none'
+      )
+    ).toEqual({ kanbanColumnId: null })
+  })
+
+  it('should swap one tag for another and keep the rest', () => {
+    const tagged = task({ tags: [{ id: 'tag-a' }, { id: 'tag-c' }] })
+
+    expect(
+      getColumnMoveChange('TAG', tagged, 'tag:tag-a', 'tag:tag-b')
+    ).toEqual({ tagIds: ['tag-c', 'tag-b'] })
+    expect(getColumnMoveChange('TAG', tagged, 'tag:tag-a', 'tag:none')).toEqual(
+      { tagIds: ['tag-c'] }
+    )
+    expect(getColumnMoveChange('TAG', task(), 'tag:none', 'tag:tag-b')).toEqual(
+      { tagIds: ['tag-b'] }
+    )
+  })
+
+  it('should not add a tag twice when the task already has it', () => {
+    const tagged = task({ tags: [{ id: 'tag-a' }, { id: 'tag-b' }] })
+
+    expect(
+      getColumnMoveChange('TAG', tagged, 'tag:tag-a', 'tag:tag-b')
+    ).toEqual({ tagIds: ['tag-b'] })
+  })
+})
+
+describe('card ids', () => {
+  it('should round-trip the column and task', () => {
+    const cardId = toCardId('tag:tag-a', 'task-1')
+
+    expect(parseCardId(cardId)).toEqual({
+      columnKey: 'tag:tag-a',
+      taskId: 'task-1',
+    })
+  })
+})
+
+describe('parseWipLimits', () => {
+  it('should keep only positive whole numbers', () => {
+    expect(
+      parseWipLimits({
+        'status:ACTIVE': 3,
+        'status:COMPLETED': 0,
+        'priority:HIGH': 2.5,
+        'priority:LOW': '4',
+      })
+    ).toEqual({ 'status:ACTIVE': 3 })
+  })
+
+  it('should ignore values that are not an object', () => {
+    expect(parseWipLimits(null)).toEqual({})
+    expect(parseWipLimits([3])).toEqual({})
+    expect(parseWipLimits('3')).toEqual({})
+  })
+})
+
+describe('isOverWipLimit', () => {
+  it('should only warn once the limit is exceeded', () => {
+    expect(isOverWipLimit(3, 3)).toBe(false)
+    expect(isOverWipLimit(4, 3)).toBe(true)
+    expect(isOverWipLimit(100, undefined)).toBe(false)
+  })
+})
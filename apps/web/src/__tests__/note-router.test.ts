@@ -16,6 +16,9 @@ const mockPrisma = {
   noteRevision: {
     create: vi.fn(),
   },
+  tag: {
+    findMany: vi.fn(),
+  },
   $transaction: vi.fn(),
   $queryRaw: vi.fn(),
 }
@@ -55,9 +58,14 @@ describe('Note Router', () => {
             },
           ],
         },
-        tags: ['test', 'demo'],
+        tagIds: ['tag-1', 'tag-2'],
       }
 
+      mockPrisma.tag.findMany.mockResolvedValue([
+        { id: 'tag-1', name: 'test', color: '#6b7280' },
+        { id: 'tag-2', name: 'demo', color: '#6b7280' },
+      ])
+
       const mockNote = {
         id: 'note-1',
         ...noteData,
@@ -96,10 +104,35 @@ describe('Note Router', () => {
         caller.create({
           title: '',
           content: { type: 'doc', content: [] },
-          tags: [],
+          tagIds: [],
         })
       ).rejects.toThrow()
     })
+
+    it("should reject tags the user doesn't own", async () => {
+      mockPrisma.tag.findMany.mockResolvedValue([
+        { id: 'tag-1', name: 'mine', color: '#6b7280' },
+      ])
+
+      const caller = noteRouter.createCaller(mockContext)
+
+      await expect(
+        caller.create({
+          title: 'Note',
+          content: { type: 'doc', content: [] },
+          tagIds: ['tag-1', 'someone-elses-tag'],
+        })
+      ).rejects.toThrow('Tag not found')
+      expect(mockPrisma.tag.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            id: { in: ['tag-1', 'someone-elses-tag'] },
+            userId: mockSession.user.id,
+          },
+        })
+      )
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
   })
 
   describe('list', () => {
@@ -109,7 +142,7 @@ describe('Note Router', () => {
           id: 'note-1',
           title: 'First Note',
           content: { type: 'doc', content: [] },
-          tags: ['tag1'],
+          tags: [{ id: 'tag-1', name: 'tag1', color: '#6b7280' }],
           createdAt: new Date(),
           updatedAt: new Date(),
         },
@@ -117,7 +150,7 @@ describe('Note Router', () => {
           id: 'note-2',
           title: 'Second Note',
           content: { type: 'doc', content: [] },
-          tags: ['tag2'],
+          tags: [{ id: 'tag-2', name: 'tag2', color: '#6b7280' }],
           createdAt: new Date(),
           updatedAt: new Date(),
         },
@@ -131,20 +164,41 @@ describe('Note Router', () => {
       expect(result.notes).toEqual(mockNotes)
       expect(result.nextCursor).toBeUndefined()
       expect(mockPrisma.note.findMany).toHaveBeenCalledWith({
-        where: { userId: mockSession.user.id },
+        where: { userId: mockSession.user.id, deletedAt: null },
         orderBy: [{ updatedAt: 'desc' }, { id: 'desc' }],
         take: 21,
         select: {
           id: true,
           title: true,
           content: true,
-          tags: true,
+          tags: {
+            select: { id: true, name: true, color: true },
+            orderBy: { name: 'asc' },
+          },
+          project: { select: { id: true, name: true, color: true } },
           createdAt: true,
           updatedAt: true,
         },
       })
     })
 
+    it('should filter by tag id', async () => {
+      mockPrisma.note.findMany.mockResolvedValue([])
+
+      const caller = noteRouter.createCaller(mockContext)
+      await caller.list({ tagId: 'tag-1', limit: 20 })
+
+      expect(mockPrisma.note.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: mockSession.user.id,
+            deletedAt: null,
+            tags: { some: { id: 'tag-1' } },
+          },
+        })
+      )
+    })
+
     it('should handle search queries', async () => {
       mockPrisma.note.findMany.mockResolvedValue([])
 
@@ -175,7 +229,7 @@ describe('Note Router', () => {
         id: 'note-1',
         title: 'Test Note',
         content: { type: 'doc', content: [] },
-        tags: ['test'],
+        tags: [{ id: 'tag-1', name: 'test', color: '#6b7280' }],
         userId: mockSession.user.id,
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -199,8 +253,14 @@ describe('Note Router', () => {
         where: {
           id: 'note-1',
           userId: mockSession.user.id,
+          deletedAt: null,
         },
         include: {
+          tags: {
+            select: { id: true, name: true, color: true },
+            orderBy: { name: 'asc' },
+          },
+          project: { select: { id: true, name: true, color: true } },
           revisions: {
             orderBy: { createdAt: 'desc' },
             take: 5,
@@ -234,7 +294,7 @@ describe('Note Router', () => {
             },
           ],
         },
-        tags: ['old'],
+        tags: [{ id: 'tag-1', name: 'old', color: '#6b7280' }],
         userId: mockSession.user.id,
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -294,7 +354,7 @@ describe('Note Router', () => {
   })
 
   describe('delete', () => {
-    it('should delete a note', async () => {
+    it('should move a note to the trash', async () => {
       const mockNote = {
         id: 'note-1',
         title: 'Test Note',
@@ -302,15 +362,17 @@ describe('Note Router', () => {
       }
 
       mockPrisma.note.findFirst.mockResolvedValue(mockNote)
-      mockPrisma.note.delete.mockResolvedValue(mockNote)
+      mockPrisma.note.update.mockResolvedValue(mockNote)
 
       const caller = noteRouter.createCaller(mockContext)
       const result = await caller.delete({ id: 'note-1' })
 
-      expect(result).toEqual({ success: true })
-      expect(mockPrisma.note.delete).toHaveBeenCalledWith({
+      expect(result).toEqual({ id: 'note-1', deletedAt: expect.any(Date) })
+      expect(mockPrisma.note.update).toHaveBeenCalledWith({
         where: { id: 'note-1' },
+        data: { deletedAt: result.deletedAt },
       })
+      expect(mockPrisma.note.delete).not.toHaveBeenCalled()
     })
 
     it('should throw error if note not found', async () => {
@@ -331,7 +393,6 @@ describe('Note Router', () => {
           id: 'note-1',
           title: 'Test Note',
           content: { type: 'doc', content: [] },
-          tags: ['test'],
           createdAt: new Date(),
           updatedAt: new Date(),
         },
@@ -349,7 +410,7 @@ describe('Note Router', () => {
       const queryCall = mockPrisma.$queryRaw.mock.calls[0]
       const queryParts = queryCall[0]
       expect(Array.isArray(queryParts)).toBe(true)
-      expect(queryParts.join('')).toContain('SELECT id, title, content, tags')
+      expect(queryParts.join('')).toContain('SELECT id, title, content,')
       expect(queryParts.join('')).toContain('FROM notes')
       expect(queryParts.join('')).toContain('WHERE "user_id" =')
       expect(queryCall).toContain('test-user-id')
@@ -364,25 +425,4 @@ describe('Note Router', () => {
       expect(mockPrisma.$queryRaw).not.toHaveBeenCalled()
     })
   })
-
-  describe('getTags', () => {
-    it('should return unique tags from all user notes', async () => {
-      const mockNotes = [
-        { tags: ['tag1', 'tag2'] },
-        { tags: ['tag2', 'tag3'] },
-        { tags: ['tag1'] },
-      ]
-
-      mockPrisma.note.findMany.mockResolvedValue(mockNotes)
-
-      const caller = noteRouter.createCaller(mockContext)
-      const result = await caller.getTags()
-
-      expect(result).toEqual(['tag1', 'tag2', 'tag3'])
-      expect(mockPrisma.note.findMany).toHaveBeenCalledWith({
-        where: { userId: mockSession.user.id },
-        select: { tags: true },
-      })
-    })
-  })
 })
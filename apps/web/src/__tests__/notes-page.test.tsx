@@ -20,9 +20,6 @@ vi.mock('@/lib/trpc', () => ({
       list: {
         useInfiniteQuery: () => mockUseInfiniteQuery(),
       },
-      getTags: {
-        useQuery: () => mockUseQuery(),
-      },
       create: {
         useMutation: (options?: any) => {
           const result = mockUseMutation()
@@ -39,6 +36,16 @@ vi.mock('@/lib/trpc', () => ({
         },
       },
     },
+    tag: {
+      list: {
+        useQuery: () => mockUseQuery(),
+      },
+    },
+    project: {
+      list: {
+        useQuery: () => ({ data: [] }),
+      },
+    },
   },
 }))
 
@@ -52,6 +59,12 @@ vi.mock('date-fns', () => ({
   formatDistanceToNow: vi.fn().mockReturnValue('2 hours ago'),
 }))
 
+const tag = (name: string) => ({
+  id: `tag-${name}`,
+  name,
+  color: '#6b7280',
+})
+
 // Create mock functions that we'll use in tests
 const mockUseInfiniteQuery = vi.fn()
 const mockUseQuery = vi.fn()
@@ -92,7 +105,7 @@ describe('NotesPage', () => {
                     },
                   ],
                 },
-                tags: ['work', 'important'],
+                tags: [tag('work'), tag('important')],
                 updatedAt: new Date().toISOString(),
               },
               {
@@ -112,7 +125,7 @@ describe('NotesPage', () => {
                     },
                   ],
                 },
-                tags: ['personal'],
+                tags: [tag('personal')],
                 updatedAt: new Date().toISOString(),
               },
             ],
@@ -127,7 +140,7 @@ describe('NotesPage', () => {
     })
 
     mockUseQuery.mockReturnValue({
-      data: ['work', 'personal', 'important'],
+      data: ['work', 'personal', 'important'].map(tag),
     })
 
     mockUseMutation.mockReturnValue({
@@ -269,7 +282,8 @@ describe('NotesPage', () => {
       expect(mockMutateAsync).toHaveBeenCalledWith({
         title: 'Untitled Note',
         content: { type: 'doc', content: [{ type: 'paragraph' }] },
-        tags: [],
+        tagIds: [],
+        projectId: null,
       })
     })
 
@@ -344,7 +358,13 @@ describe('NotesPage', () => {
                 id: 'note-1',
                 title: 'Note with many tags',
                 content: { type: 'doc', content: [] },
-                tags: ['tag1', 'tag2', 'tag3', 'tag4', 'tag5'],
+                tags: [
+                  tag('tag1'),
+                  tag('tag2'),
+                  tag('tag3'),
+                  tag('tag4'),
+                  tag('tag5'),
+                ],
                 updatedAt: new Date().toISOString(),
               },
             ],
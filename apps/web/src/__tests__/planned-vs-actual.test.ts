@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import { comparePlannedToActual } from '@/lib/planned-vs-actual'
+
+const event = (
+  id: string,
+  startsAt: string,
+  endsAt: string,
+  fields: { allDay?: boolean; recurrenceRule?: string } = {}
+) => ({
+  id,
+  startsAt: new Date(startsAt),
+  endsAt: new Date(endsAt),
+  allDay: fields.allDay ?? false,
+  recurrenceRule: fields.recurrenceRule ?? null,
+  originalStartsAt: fields.recurrenceRule ? new Date(startsAt) : null,
+})
+
+const entry = (eventId: string | null, start: string, minutes: number) => ({
+  eventId,
+  start: new Date(start),
+  duration: minutes * 60,
+})
+
+describe('comparePlannedToActual', () => {
+  it('should add up everything logged against a single event', () => {
+    expect(
+      comparePlannedToActual(
+        [event('review', '2026-10-19T10:00:00Z', '2026-10-19T11:30:00Z')],
+        [
+          entry('review', '2026-10-19T10:00:00Z', 50),
+          // Finished it off the next day
+          entry('review', '2026-10-20T08:00:00Z', 25),
+          entry(null, '2026-10-19T10:00:00Z', 60),
+        ],
+        'UTC'
+      )
+    ).toEqual([
+      {
+        eventId: 'review',
+        occurrenceStart: null,
+        scheduledMinutes: 90,
+        loggedMinutes: 75,
+      },
+    ])
+  })
+
+  it("should count a series' entries towards the occurrence on their day", () => {
+    const weekly = { recurrenceRule: 'FREQ=WEEKLY' }
+    const comparisons = comparePlannedToActual(
+      [
+        event('gym', '2026-10-19T22:00:00Z', '2026-10-19T23:00:00Z', weekly),
+        event('gym', '2026-10-26T22:00:00Z', '2026-10-26T23:00:00Z', weekly),
+      ],
+      // Past midnight in UTC, still the 19th in New York
+      [entry('gym', '2026-10-20T02:30:00Z', 45)],
+      'America/New_York'
+    )
+
+    expect(comparisons.map((comparison) => comparison.loggedMinutes)).toEqual([
+      45, 0,
+    ])
+    expect(comparisons[0].occurrenceStart).toEqual(
+      new Date('2026-10-19T22:00:00Z')
+    )
+  })
+
+  it('should leave out all-day events', () => {
+    expect(
+      comparePlannedToActual(
+        [
+          event('offsite', '2026-10-19T00:00:00Z', '2026-10-20T00:00:00Z', {
+            allDay: true,
+          }),
+        ],
+        [],
+        'UTC'
+      )
+    ).toEqual([])
+  })
+})
@@ -0,0 +1,308 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { plannerRouter } from '@/server/api/routers/planner'
+import { TIME_BLOCK_COLOR } from '@/server/calendar/planner'
+
+// Mock Prisma client
+const mockPrisma = {
+  user: {
+    findUnique: vi.fn(),
+  },
+  task: {
+    findMany: vi.fn(),
+    update: vi.fn(),
+  },
+  calendar: {
+    findFirst: vi.fn(),
+    create: vi.fn(),
+  },
+  calendarEvent: {
+    findMany: vi.fn(),
+    findFirst: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+  },
+  reminder: {
+    findMany: vi.fn(),
+  },
+  $transaction: vi.fn(),
+}
+
+// Mock session
+const mockSession = {
+  user: {
+    id: 'test-user-id',
+    email: 'test@example.com',
+    name: 'Test User',
+  },
+  expires: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+}
+
+// Mock context
+const mockContext = {
+  session: mockSession,
+  req: undefined,
+  prisma: mockPrisma as any,
+}
+
+const at = (time: string, day = '2026-10-19') => new Date(`${day}T${time}:00Z`)
+
+const block = (id: string, startsAt: Date, endsAt: Date, locked = false) => ({
+  id,
+  startsAt,
+  endsAt,
+  locked,
+  deletedAt: null,
+})
+
+const event = (id: string, startsAt: Date, endsAt: Date) => ({
+  id,
+  title: id,
+  startsAt,
+  endsAt,
+  allDay: false,
+  recurrenceRule: null,
+  excludedDates: [],
+})
+
+// Monday the 19th, a little after ten
+const tasks = [
+  {
+    id: 'report',
+    title: 'Write report',
+    priority: 'HIGH',
+    dueDate: at('17:00'),
+    estimateMinutes: 60,
+    order: 2,
+    calendarEvent: null,
+  },
+  {
+    id: 'review',
+    title: 'Review PR',
+    priority: 'MEDIUM',
+    dueDate: null,
+    estimateMinutes: 60,
+    order: 1,
+    // Still ahead, so it can move
+    calendarEvent: block('block-review', at('11:00'), at('12:00')),
+  },
+  {
+    id: 'bug',
+    title: 'Fix bug',
+    priority: 'URGENT',
+    dueDate: null,
+    estimateMinutes: 30,
+    order: 3,
+    // Missed on Friday
+    calendarEvent: block(
+      'block-bug',
+      at('09:00', '2026-10-16'),
+      at('09:30', '2026-10-16'),
+      true
+    ),
+  },
+  {
+    id: 'quarter',
+    title: 'Plan quarter',
+    priority: 'LOW',
+    dueDate: null,
+    estimateMinutes: 240,
+    order: 4,
+    calendarEvent: null,
+  },
+  {
+    id: 'locked',
+    title: 'Deep work',
+    priority: 'URGENT',
+    dueDate: null,
+    estimateMinutes: 60,
+    order: 0,
+    calendarEvent: block('block-locked', at('15:00'), at('16:00'), true),
+  },
+]
+
+describe('Planner Router', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers()
+    vi.setSystemTime(at('10:05'))
+    mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma))
+    mockPrisma.user.findUnique.mockResolvedValue({
+      timezone: 'UTC',
+      workingHoursStart: 9 * 60,
+      workingHoursEnd: 17 * 60,
+      workingDays: [1, 2, 3, 4, 5],
+    })
+    mockPrisma.task.findMany.mockResolvedValue(tasks)
+    mockPrisma.calendar.findFirst.mockResolvedValue({
+      id: 'personal',
+      color: '#3b82f6',
+    })
+    mockPrisma.calendarEvent.findMany
+      .mockResolvedValueOnce([
+        event('block-review', at('11:00'), at('12:00')),
+        event('meeting', at('13:00'), at('14:00')),
+        event('block-locked', at('15:00'), at('16:00')),
+      ])
+      .mockResolvedValueOnce([])
+    mockPrisma.reminder.findMany.mockResolvedValue([])
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('preview', () => {
+    it('should plan the rest of the day around fixed time', async () => {
+      const caller = plannerRouter.createCaller(mockContext)
+      const plan = await caller.preview({ date: at('12:00') })
+
+      expect(plan).toEqual({
+        range: { start: at('10:05'), end: at('00:00', '2026-10-20') },
+        blocks: [
+          {
+            taskId: 'report',
+            title: 'Write report',
+            startsAt: at('10:15'),
+            endsAt: at('11:15'),
+            eventId: null,
+            missed: false,
+          },
+          {
+            taskId: 'bug',
+            title: 'Fix bug',
+            startsAt: at('11:15'),
+            endsAt: at('11:45'),
+            eventId: 'block-bug',
+            missed: true,
+          },
+          {
+            taskId: 'review',
+            title: 'Review PR',
+            startsAt: at('11:45'),
+            endsAt: at('12:45'),
+            eventId: 'block-review',
+            missed: false,
+          },
+        ],
+        unplaced: [{ taskId: 'quarter', title: 'Plan quarter', eventId: null }],
+      })
+      expect(mockPrisma.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            userId: 'test-user-id',
+            deletedAt: null,
+            status: 'ACTIVE',
+            estimateMinutes: { gt: 0 },
+          }),
+        })
+      )
+      expect(mockPrisma.calendarEvent.create).not.toHaveBeenCalled()
+    })
+
+    it('should plan nothing for a day that is over', async () => {
+      const caller = plannerRouter.createCaller(mockContext)
+      const plan = await caller.preview({ date: at('12:00', '2026-10-18') })
+
+      expect(plan.blocks).toEqual([])
+      expect(mockPrisma.task.findMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('schedule', () => {
+    it('should create new blocks and move existing ones', async () => {
+      mockPrisma.calendarEvent.create.mockResolvedValue({ id: 'block-report' })
+
+      const caller = plannerRouter.createCaller(mockContext)
+      await caller.schedule({ date: at('12:00') })
+
+      expect(mockPrisma.calendarEvent.create).toHaveBeenCalledTimes(1)
+      expect(mockPrisma.calendarEvent.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'test-user-id',
+          title: 'Write report',
+          startsAt: at('10:15'),
+          endsAt: at('11:15'),
+          color: TIME_BLOCK_COLOR,
+          timeBlock: true,
+          calendarId: 'personal',
+        },
+      })
+      expect(mockPrisma.task.update).toHaveBeenCalledWith({
+        where: { id: 'report' },
+        data: { calendarEventId: 'block-report' },
+      })
+      expect(mockPrisma.calendarEvent.update).toHaveBeenCalledWith({
+        where: { id: 'block-bug' },
+        data: { startsAt: at('11:15'), endsAt: at('11:45') },
+      })
+      expect(mockPrisma.calendarEvent.update).toHaveBeenCalledWith({
+        where: { id: 'block-review' },
+        data: { startsAt: at('11:45'), endsAt: at('12:45') },
+      })
+      expect(mockPrisma.reminder.findMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'test-user-id',
+          calendarEventId: 'block-review',
+          kind: { not: 'AT' },
+        },
+      })
+    })
+
+    it("should remove blocks whose task doesn't fit any more", async () => {
+      mockPrisma.task.findMany.mockResolvedValue([
+        { ...tasks[1], estimateMinutes: 8 * 60 },
+      ])
+
+      const caller = plannerRouter.createCaller(mockContext)
+      const plan = await caller.schedule({ date: at('12:00') })
+
+      expect(plan.unplaced).toEqual([
+        { taskId: 'review', title: 'Review PR', eventId: 'block-review' },
+      ])
+      expect(mockPrisma.calendarEvent.update).toHaveBeenCalledWith({
+        where: { id: 'block-review' },
+        data: { deletedAt: at('10:05') },
+      })
+      expect(mockPrisma.task.update).toHaveBeenCalledWith({
+        where: { id: 'review' },
+        data: { calendarEventId: null },
+      })
+    })
+  })
+
+  describe('setLocked', () => {
+    it('should lock a time block', async () => {
+      mockPrisma.calendarEvent.findFirst.mockResolvedValue({ id: 'block-1' })
+      mockPrisma.calendarEvent.update.mockResolvedValue({
+        id: 'block-1',
+        locked: true,
+      })
+
+      const caller = plannerRouter.createCaller(mockContext)
+      await caller.setLocked({ id: 'block-1', locked: true })
+
+      expect(mockPrisma.calendarEvent.findFirst).toHaveBeenCalledWith({
+        where: {
+          id: 'block-1',
+          userId: 'test-user-id',
+          deletedAt: null,
+          timeBlock: true,
+        },
+      })
+      expect(mockPrisma.calendarEvent.update).toHaveBeenCalledWith({
+        where: { id: 'block-1' },
+        data: { locked: true },
+      })
+    })
+
+    it('should only lock time blocks', async () => {
+      mockPrisma.calendarEvent.findFirst.mockResolvedValue(null)
+
+      const caller = plannerRouter.createCaller(mockContext)
+
+      await expect(
+        caller.setLocked({ id: 'meeting', locked: true })
+      ).rejects.toThrow('Time block not found')
+    })
+  })
+})
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { projectRouter } from '@/server/api/routers/project'
+
+// Mock Prisma client
+const mockPrisma = {
+  project: {
+    findMany: vi.fn(),
+    findFirst: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+  task: {
+    findMany: vi.fn(),
+    count: vi.fn(),
+  },
+  note: {
+    findMany: vi.fn(),
+  },
+  board: {
+    findMany: vi.fn(),
+  },
+  timeEntry: {
+    aggregate: vi.fn(),
+  },
+}
+
+// Mock session
+const mockSession = {
+  user: {
+    id: 'test-user-id',
+    email: 'test@example.com',
+    name: 'Test User',
+  },
+  expires: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+}
+
+// Mock context
+const mockContext = {
+  session: mockSession,
+  req: undefined,
+  prisma: mockPrisma as any,
+}
+
+const project = {
+  id: 'project-1',
+  name: 'Launch',
+  color: '#3b82f6',
+  status: 'ACTIVE',
+  deadline: null,
+  userId: mockSession.user.id,
+}
+
+describe('Project Router', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('list', () => {
+    it('should leave out archived projects unless asked', async () => {
+      mockPrisma.project.findMany.mockResolvedValue([])
+
+      const caller = projectRouter.createCaller(mockContext)
+      await caller.list()
+      await caller.list({ includeArchived: true })
+
+      expect(mockPrisma.project.findMany.mock.calls[0][0].where).toEqual({
+        userId: 'test-user-id',
+        status: { not: 'ARCHIVED' },
+      })
+      expect(mockPrisma.project.findMany.mock.calls[1][0].where).toEqual({
+        userId: 'test-user-id',
+      })
+    })
+  })
+
+  describe('overview', () => {
+    const week = {
+      from: '2026-10-19T00:00:00.000Z',
+      to: '2026-10-25T23:59:59.999Z',
+    }
+
+    it('should gather linked items and time spent', async () => {
+      mockPrisma.project.findFirst.mockResolvedValue(project)
+      mockPrisma.task.findMany.mockResolvedValue([{ id: 'task-1', tags: [] }])
+      mockPrisma.task.count.mockResolvedValue(4)
+      mockPrisma.note.findMany.mockResolvedValue([{ id: 'note-1' }])
+      mockPrisma.board.findMany.mockResolvedValue([])
+      mockPrisma.timeEntry.aggregate
+        .mockResolvedValueOnce({ _sum: { duration: 5400 } })
+        .mockResolvedValueOnce({ _sum: { duration: null } })
+
+      const caller = projectRouter.createCaller(mockContext)
+      const result = await caller.overview({ id: 'project-1', week })
+
+      expect(result).toMatchObject({
+        project,
+        openTasks: [{ id: 'task-1' }],
+        completedTaskCount: 4,
+        notes: [{ id: 'note-1' }],
+        boards: [],
+        weekMinutes: 90,
+        totalMinutes: 0,
+      })
+      expect(mockPrisma.timeEntry.aggregate).toHaveBeenNthCalledWith(1, {
+        _sum: { duration: true },
+        where: {
+          userId: 'test-user-id',
+          projectId: 'project-1',
+          start: { gte: new Date(week.from), lte: new Date(week.to) },
+        },
+      })
+    })
+
+    it("should reject projects the user doesn't own", async () => {
+      mockPrisma.project.findFirst.mockResolvedValue(null)
+
+      const caller = projectRouter.createCaller(mockContext)
+
+      await expect(
+        caller.overview({ id: 'someone-elses', week })
+      ).rejects.toThrow('Project not found')
+      expect(mockPrisma.task.findMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('create', () => {
+    it('should apply defaults and normalize the color', async () => {
+      mockPrisma.project.create.mockResolvedValue(project)
+
+      const caller = projectRouter.createCaller(mockContext)
+      await caller.create({ name: '  Launch ', color: '#3B82F6' })
+
+      expect(mockPrisma.project.create).toHaveBeenCalledWith({
+        data: {
+          name: 'Launch',
+          color: '#3b82f6',
+          status: 'ACTIVE',
+          userId: 'test-user-id',
+        },
+      })
+    })
+  })
+
+  describe('update', () => {
+    it('should only write the fields that were sent', async () => {
+      mockPrisma.project.findFirst.mockResolvedValue(project)
+      mockPrisma.project.update.mockResolvedValue(project)
+
+      const caller = projectRouter.createCaller(mockContext)
+      await caller.update({ id: 'project-1', data: { status: 'ON_HOLD' } })
+
+      expect(mockPrisma.project.update).toHaveBeenCalledWith({
+        where: { id: 'project-1' },
+        data: { status: 'ON_HOLD' },
+      })
+    })
+  })
+})
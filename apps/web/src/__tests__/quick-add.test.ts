@@ -0,0 +1,210 @@
+import { describe, it, expect } from 'vitest'
+import { parseQuickAdd } from '@/lib/quick-add'
+
+// Monday 19 October 2026, 10:00 in the user's zone (UTC in most tests)
+const now = new Date('2026-10-19T10:00:00Z')
+
+function parse(text: string, timeZone = 'UTC') {
+  return parseQuickAdd(text, { now, timeZone })
+}
+
+function dueDate(text: string, timeZone = 'UTC') {
+  return parse(text, timeZone).input.dueDate?.toISOString()
+}
+
+describe('Quick Add Parser', () => {
+  it('should parse the full example', () => {
+    const result = parse('Pay rent tomorrow 5pm !urgent #finance')
+
+    expect(result.input).toEqual({
+      title: 'Pay rent',
+      dueDate: new Date('2026-10-20T17:00:00Z'),
+      priority: 'URGENT',
+      tag: 'finance',
+    })
+    expect(result.tokens).toEqual([
+      { type: 'date', text: 'tomorrow', start: 9, end: 17 },
+      { type: 'time', text: '5pm', start: 18, end: 21 },
+      { type: 'priority', text: '!urgent', start: 22, end: 29 },
+      { type: 'tag', text: '#finance', start: 30, end: 38 },
+    ])
+  })
+
+  it('should return a plain title when nothing matches', () => {
+    expect(parse('  Buy   milk ')).toEqual({
+      input: { title: 'Buy milk' },
+      tokens: [],
+    })
+  })
+
+  describe('relative dates', () => {
+    it('should handle today and tomorrow with abbreviations', () => {
+      expect(dueDate('Call mom today')).toBe('2026-10-19T00:00:00.000Z')
+      expect(dueDate('Call mom tomorrow')).toBe('2026-10-20T00:00:00.000Z')
+      expect(dueDate('Call mom tmrw')).toBe('2026-10-20T00:00:00.000Z')
+      expect(dueDate('Call mom TMR')).toBe('2026-10-20T00:00:00.000Z')
+    })
+
+    it('should handle "in N days/weeks/months"', () => {
+      expect(dueDate('Renew in 3 days')).toBe('2026-10-22T00:00:00.000Z')
+      expect(dueDate('Renew in 2 weeks')).toBe('2026-11-02T00:00:00.000Z')
+      expect(dueDate('Renew in 1 month')).toBe('2026-11-19T00:00:00.000Z')
+    })
+
+    it('should clamp month arithmetic to the end of the month', () => {
+      const result = parseQuickAdd('Report in 1 month', {
+        now: new Date('2026-01-31T09:00:00Z'),
+        timeZone: 'UTC',
+      })
+      expect(result.input.dueDate).toEqual(new Date('2026-02-28T00:00:00Z'))
+    })
+
+    it('should handle next week and next month', () => {
+      expect(dueDate('Plan next week')).toBe('2026-10-26T00:00:00.000Z')
+      expect(dueDate('Plan next month')).toBe('2026-11-01T00:00:00.000Z')
+    })
+  })
+
+  describe('weekdays', () => {
+    it('should pick the upcoming weekday', () => {
+      expect(dueDate('Gym wednesday')).toBe('2026-10-21T00:00:00.000Z')
+      expect(dueDate('Gym on fri')).toBe('2026-10-23T00:00:00.000Z')
+      expect(dueDate('Gym on Sunday')).toBe('2026-10-25T00:00:00.000Z')
+    })
+
+    it('should move a weekday matching today to next week', () => {
+      expect(dueDate('Standup monday')).toBe('2026-10-26T00:00:00.000Z')
+      expect(dueDate('Standup next mon')).toBe('2026-10-26T00:00:00.000Z')
+    })
+
+    it('should not match weekday names inside other words', () => {
+      expect(parse('Save money on wedding').tokens).toEqual([])
+    })
+
+    it('should only read abbreviations after on or next', () => {
+      expect(parse('Call Sun Life').tokens).toEqual([])
+      expect(parse('sat exam prep').tokens).toEqual([])
+      expect(parse('Share wed plans').tokens).toEqual([])
+      expect(parse('Call Sun Life').input.title).toBe('Call Sun Life')
+    })
+  })
+
+  describe('explicit dates', () => {
+    it('should parse ISO dates', () => {
+      expect(dueDate('Taxes 2027-04-15')).toBe('2027-04-15T00:00:00.000Z')
+    })
+
+    it('should parse month-day in both orders with ordinals', () => {
+      expect(dueDate('Party Nov 3')).toBe('2026-11-03T00:00:00.000Z')
+      expect(dueDate('Party on december 24th')).toBe('2026-12-24T00:00:00.000Z')
+      expect(dueDate('Party 3rd Nov')).toBe('2026-11-03T00:00:00.000Z')
+    })
+
+    it('should roll dates that already passed into next year', () => {
+      expect(dueDate('Dentist Jan 5')).toBe('2027-01-05T00:00:00.000Z')
+      expect(dueDate('Dentist Oct 19')).toBe('2026-10-19T00:00:00.000Z')
+    })
+
+    it('should ignore impossible dates', () => {
+      const result = parse('Dentist Feb 30')
+      expect(result.input.dueDate).toBeUndefined()
+      expect(result.input.title).toBe('Dentist Feb 30')
+    })
+  })
+
+  describe('times', () => {
+    it('should parse 12-hour and 24-hour times', () => {
+      expect(dueDate('Call tomorrow 9am')).toBe('2026-10-20T09:00:00.000Z')
+      expect(dueDate('Call tomorrow 5:30 pm')).toBe('2026-10-20T17:30:00.000Z')
+      expect(dueDate('Call tomorrow at 17:45')).toBe('2026-10-20T17:45:00.000Z')
+      expect(dueDate('Call tomorrow 12am')).toBe('2026-10-20T00:00:00.000Z')
+      expect(dueDate('Lunch tomorrow at noon')).toBe('2026-10-20T12:00:00.000Z')
+    })
+
+    it('should consume a leading "at"', () => {
+      expect(parse('Meet Sam at 3pm').input.title).toBe('Meet Sam')
+    })
+
+    it('should use today for a time later today and tomorrow otherwise', () => {
+      expect(dueDate('Call 3pm')).toBe('2026-10-19T15:00:00.000Z')
+      expect(dueDate('Call 9am')).toBe('2026-10-20T09:00:00.000Z')
+    })
+
+    it('should accept a time before the date', () => {
+      expect(dueDate('Call 8pm friday')).toBe('2026-10-23T20:00:00.000Z')
+    })
+
+    it('should ignore invalid hours', () => {
+      expect(parse('Call 13pm').input.dueDate).toBeUndefined()
+      expect(parse('Score was 24:10').input.dueDate).toBeUndefined()
+    })
+  })
+
+  describe('timezones', () => {
+    it('should interpret dates in the given timezone', () => {
+      // UTC-4: 5pm local is 21:00 UTC
+      expect(dueDate('Pay rent tomorrow 5pm', 'America/New_York')).toBe(
+        '2026-10-20T21:00:00.000Z'
+      )
+      // UTC+9: it is already 19:00 on the 19th, so "today" is the 19th
+      expect(dueDate('Pay rent today', 'Asia/Tokyo')).toBe(
+        '2026-10-18T15:00:00.000Z'
+      )
+    })
+
+    it('should use the local day when it differs from the UTC day', () => {
+      // 10:00 UTC is 23:00 on the 19th in UTC+13, so tomorrow is the 20th
+      expect(dueDate('Ship tomorrow 9am', 'Pacific/Auckland')).toBe(
+        '2026-10-19T20:00:00.000Z'
+      )
+    })
+
+    it('should keep the wall clock time across daylight saving time', () => {
+      // New York is UTC-4 today but UTC-5 after clocks go back on 1 November
+      expect(dueDate('Pay rent in 2 weeks 9am', 'America/New_York')).toBe(
+        '2026-11-02T14:00:00.000Z'
+      )
+      expect(dueDate('Pay rent 2026-11-02', 'America/New_York')).toBe(
+        '2026-11-02T05:00:00.000Z'
+      )
+    })
+  })
+
+  describe('priority', () => {
+    it('should map words and numbers to priorities', () => {
+      expect(parse('Fix !high').input.priority).toBe('HIGH')
+      expect(parse('Fix !MED').input.priority).toBe('MEDIUM')
+      expect(parse('Fix !low').input.priority).toBe('LOW')
+      expect(parse('Fix !1').input.priority).toBe('URGENT')
+      expect(parse('Fix !4').input.priority).toBe('LOW')
+    })
+
+    it('should leave exclamation marks in the title alone', () => {
+      const result = parse('Wow! !huge !5')
+      expect(result.input.priority).toBeUndefined()
+      expect(result.input.title).toBe('Wow! !huge !5')
+    })
+  })
+
+  describe('tags', () => {
+    it('should take the first tag and keep the rest in the title', () => {
+      const result = parse('#home Clean #garage')
+      expect(result.input.tag).toBe('home')
+      expect(result.input.title).toBe('Clean #garage')
+    })
+
+    it('should not treat a hash inside a word as a tag', () => {
+      expect(parse('Learn C# basics').input.tag).toBeUndefined()
+    })
+  })
+
+  it('should only use the first date in the text', () => {
+    const result = parse('Move meeting from friday to monday')
+    expect(result.input.dueDate).toEqual(new Date('2026-10-23T00:00:00Z'))
+    expect(result.input.title).toBe('Move meeting from to monday')
+  })
+
+  it('should produce an empty title when only tokens are given', () => {
+    expect(parse('tomorrow !high').input.title).toBe('')
+  })
+})
@@ -0,0 +1,230 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseRecurrenceRule,
+  formatRecurrenceRule,
+  validateRecurrenceRule,
+  getNextOccurrence,
+  describeRecurrenceRule,
+} from '@/lib/recurrence'
+
+describe('Recurrence Rules', () => {
+  describe('parseRecurrenceRule', () => {
+    it('should parse a daily rule with an interval', () => {
+      expect(parseRecurrenceRule('FREQ=DAILY;INTERVAL=3')).toEqual({
+        freq: 'DAILY',
+        interval: 3,
+      })
+    })
+
+    it('should accept the RRULE: prefix and lowercase input', () => {
+      expect(parseRecurrenceRule('RRULE:freq=weekly;byday=mo,fr')).toEqual({
+        freq: 'WEEKLY',
+        interval: 1,
+        byDay: ['MO', 'FR'],
+      })
+    })
+
+    it('should parse monthly nth weekday in both notations', () => {
+      const expected = {
+        freq: 'MONTHLY',
+        interval: 1,
+        byDay: ['TU'],
+        bySetPos: 2,
+      }
+      expect(parseRecurrenceRule('FREQ=MONTHLY;BYDAY=2TU')).toEqual(expected)
+      expect(parseRecurrenceRule('FREQ=MONTHLY;BYDAY=TU;BYSETPOS=2')).toEqual(
+        expected
+      )
+    })
+
+    it('should parse COUNT and UNTIL', () => {
+      expect(parseRecurrenceRule('FREQ=DAILY;COUNT=5').count).toBe(5)
+      expect(
+        parseRecurrenceRule('FREQ=DAILY;UNTIL=20261231T120000Z').until
+      ).toEqual(new Date('2026-12-31T12:00:00Z'))
+    })
+
+    it('should reject unsupported or contradictory rules', () => {
+      expect(() => parseRecurrenceRule('FREQ=YEARLY')).toThrow('FREQ')
+      expect(() => parseRecurrenceRule('FREQ=DAILY;BYHOUR=9')).toThrow(
+        'Unsupported recurrence property BYHOUR'
+      )
+      expect(() =>
+        parseRecurrenceRule('FREQ=DAILY;COUNT=2;UNTIL=20261231')
+      ).toThrow('either UNTIL or COUNT')
+      expect(() => parseRecurrenceRule('FREQ=MONTHLY;BYDAY=TU')).toThrow(
+        'position'
+      )
+      expect(() => parseRecurrenceRule('FREQ=WEEKLY;BYDAY=2TU')).toThrow()
+      expect(() => parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=32')).toThrow()
+    })
+  })
+
+  describe('formatRecurrenceRule', () => {
+    it('should round-trip supported rules', () => {
+      const rules = [
+        'FREQ=DAILY',
+        'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE',
+        'FREQ=MONTHLY;BYDAY=-1FR;COUNT=6',
+        'FREQ=MONTHLY;BYMONTHDAY=15;UNTIL=20261231T120000Z',
+      ]
+      rules.forEach((rule) => {
+        expect(formatRecurrenceRule(parseRecurrenceRule(rule))).toBe(rule)
+      })
+    })
+  })
+
+  describe('validateRecurrenceRule', () => {
+    it('should return null for valid rules and a message otherwise', () => {
+      expect(validateRecurrenceRule('FREQ=WEEKLY')).toBeNull()
+      expect(validateRecurrenceRule('FREQ=HOURLY')).toContain('FREQ')
+    })
+  })
+
+  describe('getNextOccurrence', () => {
+    it('should add the interval for daily rules and keep the time', () => {
+      const next = getNextOccurrence(
+        parseRecurrenceRule('FREQ=DAILY;INTERVAL=2'),
+        new Date(2026, 0, 30, 17, 0)
+      )
+      expect(next).toEqual(new Date(2026, 1, 1, 17, 0))
+    })
+
+    it('should move to the next listed weekday', () => {
+      const rule = parseRecurrenceRule('FREQ=WEEKLY;BYDAY=MO,TH')
+      // Monday 2026-10-19 -> Thursday 2026-10-22
+      expect(getNextOccurrence(rule, new Date(2026, 9, 19, 9))).toEqual(
+        new Date(2026, 9, 22, 9)
+      )
+      // Thursday -> following Monday
+      expect(getNextOccurrence(rule, new Date(2026, 9, 22, 9))).toEqual(
+        new Date(2026, 9, 26, 9)
+      )
+    })
+
+    it('should skip weeks for weekly intervals', () => {
+      const rule = parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR')
+      // Friday 2026-10-23 -> Monday two weeks after the current week
+      expect(getNextOccurrence(rule, new Date(2026, 9, 23))).toEqual(
+        new Date(2026, 10, 2)
+      )
+    })
+
+    it('should default weekly rules to the weekday of the occurrence', () => {
+      const rule = parseRecurrenceRule('FREQ=WEEKLY')
+      expect(getNextOccurrence(rule, new Date(2026, 9, 21))).toEqual(
+        new Date(2026, 9, 28)
+      )
+    })
+
+    it('should skip months that do not have the day', () => {
+      const rule = parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=31')
+      expect(getNextOccurrence(rule, new Date(2026, 0, 31))).toEqual(
+        new Date(2026, 2, 31)
+      )
+    })
+
+    it('should support the last day of the month', () => {
+      const rule = parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=-1')
+      expect(getNextOccurrence(rule, new Date(2026, 0, 31))).toEqual(
+        new Date(2026, 1, 28)
+      )
+    })
+
+    it('should find the nth and last weekday of the month', () => {
+      const second = parseRecurrenceRule('FREQ=MONTHLY;BYDAY=2TU')
+      expect(getNextOccurrence(second, new Date(2026, 9, 13))).toEqual(
+        new Date(2026, 10, 10)
+      )
+
+      const last = parseRecurrenceRule('FREQ=MONTHLY;BYDAY=-1FR')
+      expect(getNextOccurrence(last, new Date(2026, 9, 30))).toEqual(
+        new Date(2026, 10, 27)
+      )
+    })
+
+    it('should end the series after COUNT occurrences', () => {
+      const rule = parseRecurrenceRule('FREQ=DAILY;COUNT=3')
+      expect(getNextOccurrence(rule, new Date(2026, 0, 1), 1)).not.toBeNull()
+      expect(getNextOccurrence(rule, new Date(2026, 0, 1), 2)).toBeNull()
+    })
+
+    it("should keep the time on the user's clock across daylight saving", () => {
+      const zone = 'America/New_York'
+      // 09:00 EDT on Friday 30 October, then 09:00 EST after 1 November
+      const current = new Date('2026-10-30T13:00:00Z')
+
+      expect(
+        getNextOccurrence(
+          parseRecurrenceRule('FREQ=DAILY;INTERVAL=3'),
+          current,
+          0,
+          zone
+        )
+      ).toEqual(new Date('2026-11-02T14:00:00Z'))
+      expect(
+        getNextOccurrence(
+          parseRecurrenceRule('FREQ=WEEKLY;BYDAY=MO'),
+          current,
+          0,
+          zone
+        )
+      ).toEqual(new Date('2026-11-02T14:00:00Z'))
+      expect(
+        getNextOccurrence(
+          parseRecurrenceRule('FREQ=MONTHLY;BYDAY=1MO'),
+          current,
+          0,
+          zone
+        )
+      ).toEqual(new Date('2026-11-02T14:00:00Z'))
+    })
+
+    it("should read the user's weekday when it differs from the UTC one", () => {
+      // 20:00 on Sunday in Los Angeles is already Monday in UTC
+      const rule = parseRecurrenceRule('FREQ=WEEKLY;BYDAY=SU,WE')
+      expect(
+        getNextOccurrence(
+          rule,
+          new Date('2026-10-19T03:00:00Z'),
+          0,
+          'America/Los_Angeles'
+        )
+      ).toEqual(new Date('2026-10-22T03:00:00Z'))
+    })
+
+    it('should end a date-only UNTIL at the end of the day in the zone', () => {
+      const zone = 'Asia/Tokyo'
+      const rule = parseRecurrenceRule('FREQ=DAILY;UNTIL=20261025', zone)
+      expect(rule.until).toEqual(new Date('2026-10-25T14:59:59Z'))
+      // 23:00 on the 25th in Tokyo is still before the end
+      expect(
+        getNextOccurrence(rule, new Date('2026-10-24T14:00:00Z'), 0, zone)
+      ).toEqual(new Date('2026-10-25T14:00:00Z'))
+    })
+
+    it('should end the series after UNTIL', () => {
+      const rule = parseRecurrenceRule('FREQ=WEEKLY;UNTIL=20261025')
+      expect(getNextOccurrence(rule, new Date(2026, 9, 19))).toBeNull()
+      expect(getNextOccurrence(rule, new Date(2026, 9, 12))).toEqual(
+        new Date(2026, 9, 19)
+      )
+    })
+  })
+
+  describe('describeRecurrenceRule', () => {
+    it('should summarize rules in plain language', () => {
+      expect(
+        describeRecurrenceRule(
+          parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE')
+        )
+      ).toBe('Every 2 weeks on Mon, Wed')
+      expect(
+        describeRecurrenceRule(parseRecurrenceRule('FREQ=MONTHLY;BYDAY=-1FR'))
+      ).toBe('Monthly on the last Fri')
+      expect(
+        describeRecurrenceRule(parseRecurrenceRule('FREQ=DAILY;COUNT=1'))
+      ).toBe('Daily, 1 time')
+    })
+  })
+})
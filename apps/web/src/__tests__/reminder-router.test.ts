@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { reminderRouter } from '@/server/api/routers/reminder'
+
+// Mock Prisma client
+const mockPrisma = {
+  reminder: {
+    findMany: vi.fn(),
+    findFirst: vi.fn(),
+    create: vi.fn(),
+    delete: vi.fn(),
+  },
+  task: {
+    findFirst: vi.fn(),
+  },
+  calendarEvent: {
+    findFirst: vi.fn(),
+  },
+  user: {
+    findUnique: vi.fn(),
+  },
+}
+
+// Mock session
+const mockSession = {
+  user: {
+    id: 'test-user-id',
+    email: 'test@example.com',
+    name: 'Test User',
+  },
+  expires: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+}
+
+// Mock context
+const mockContext = {
+  session: mockSession,
+  req: undefined,
+  prisma: mockPrisma as any,
+}
+
+describe('Reminder Router', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers()
+    mockPrisma.user.findUnique.mockResolvedValue({ timezone: 'UTC' })
+    vi.setSystemTime(new Date('2026-10-19T12:00:00Z'))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('create', () => {
+    it('should schedule a reminder relative to the due date', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue({
+        dueDate: new Date('2026-10-20T15:00:00Z'),
+      })
+      mockPrisma.reminder.create.mockResolvedValue({ id: 'reminder-1' })
+
+      const caller = reminderRouter.createCaller(mockContext)
+      await caller.create({
+        target: { taskId: 'task-1' },
+        rule: { kind: 'BEFORE', offsetMinutes: 30 },
+      })
+
+      expect(mockPrisma.task.findFirst).toHaveBeenCalledWith({
+        where: { id: 'task-1', userId: 'test-user-id', deletedAt: null },
+        select: { dueDate: true },
+      })
+      expect(mockPrisma.reminder.create).toHaveBeenCalledWith({
+        data: {
+          kind: 'BEFORE',
+          offsetMinutes: 30,
+          taskId: 'task-1',
+          calendarEventId: undefined,
+          fireAt: new Date('2026-10-20T14:30:00Z'),
+          userId: 'test-user-id',
+        },
+      })
+    })
+
+    it("should remind on the morning of the due date on the user's clock", async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        timezone: 'America/New_York',
+      })
+      // Clocks in New York go back on 1 November
+      mockPrisma.task.findFirst.mockResolvedValue({
+        dueDate: new Date('2026-11-02T20:00:00Z'),
+      })
+      mockPrisma.reminder.create.mockResolvedValue({ id: 'reminder-1' })
+
+      const caller = reminderRouter.createCaller(mockContext)
+      await caller.create({
+        target: { taskId: 'task-1' },
+        rule: { kind: 'MORNING_OF' },
+      })
+
+      expect(mockPrisma.reminder.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          kind: 'MORNING_OF',
+          fireAt: new Date('2026-11-02T14:00:00Z'),
+        }),
+      })
+    })
+
+    it('should need a due date for relative reminders', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue({ dueDate: null })
+
+      const caller = reminderRouter.createCaller(mockContext)
+
+      await expect(
+        caller.create({
+          target: { taskId: 'task-1' },
+          rule: { kind: 'MORNING_OF' },
+        })
+      ).rejects.toMatchObject({ code: 'BAD_REQUEST' })
+      expect(mockPrisma.reminder.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject times that have already passed', async () => {
+      mockPrisma.calendarEvent.findFirst.mockResolvedValue({
+        startsAt: new Date('2026-10-19T12:10:00Z'),
+      })
+
+      const caller = reminderRouter.createCaller(mockContext)
+
+      await expect(
+        caller.create({
+          target: { calendarEventId: 'event-1' },
+          rule: { kind: 'BEFORE', offsetMinutes: 15 },
+        })
+      ).rejects.toThrow('already passed')
+    })
+
+    it('should count from the next occurrence of a repeating event', async () => {
+      mockPrisma.calendarEvent.findFirst.mockResolvedValue({
+        startsAt: new Date('2026-10-05T09:00:00Z'),
+        endsAt: new Date('2026-10-05T09:15:00Z'),
+        allDay: false,
+        recurrenceRule: 'FREQ=WEEKLY',
+        excludedDates: [new Date('2026-10-26T09:00:00Z')],
+        overrides: [],
+      })
+      mockPrisma.reminder.create.mockResolvedValue({ id: 'reminder-1' })
+
+      const caller = reminderRouter.createCaller(mockContext)
+      await caller.create({
+        target: { calendarEventId: 'event-1' },
+        rule: { kind: 'BEFORE', offsetMinutes: 15 },
+      })
+
+      expect(mockPrisma.reminder.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          fireAt: new Date('2026-11-02T08:45:00Z'),
+        }),
+      })
+    })
+
+    it("should reject events the user doesn't own", async () => {
+      mockPrisma.calendarEvent.findFirst.mockResolvedValue(null)
+
+      const caller = reminderRouter.createCaller(mockContext)
+
+      await expect(
+        caller.create({
+          target: { calendarEventId: 'someone-elses' },
+          rule: { kind: 'AT', remindAt: new Date('2026-10-20T09:00:00Z') },
+        })
+      ).rejects.toThrow('Event not found')
+    })
+
+    it('should need exactly one task or event', async () => {
+      const caller = reminderRouter.createCaller(mockContext)
+
+      await expect(
+        caller.create({
+          target: { taskId: 'task-1', calendarEventId: 'event-1' },
+          rule: { kind: 'MORNING_OF' },
+        })
+      ).rejects.toThrow()
+    })
+  })
+})
@@ -0,0 +1,325 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { Clock } from '@/server/jobs/poller'
+import {
+  createReminderScheduler,
+  fireDueReminders,
+} from '@/server/reminders/scheduler'
+
+// Clock whose time only moves when the test says so
+function createFakeClock(start: string) {
+  let now = new Date(start).getTime()
+  let nextId = 1
+  const timers = new Map<number, { at: number; callback: () => void }>()
+
+  return {
+    now: () => new Date(now),
+    setTimeout(callback: () => void, ms: number) {
+      const id = nextId++
+      timers.set(id, { at: now + ms, callback })
+      return id
+    },
+    clearTimeout(handle: unknown) {
+      timers.delete(handle as number)
+    },
+    pendingTimers: () => timers.size,
+    // Jumps ahead without running timers, like a server that was down
+    set(time: string) {
+      now = new Date(time).getTime()
+    },
+    // Moves time forward, running the timers that come due on the way
+    async advance(ms: number) {
+      const end = now + ms
+      for (;;) {
+        const [next] = [...timers.entries()].sort((a, b) => a[1].at - b[1].at)
+        if (!next || next[1].at > end) break
+        timers.delete(next[0])
+        now = next[1].at
+        await next[1].callback()
+      }
+      now = end
+    },
+  } satisfies Clock & Record<string, unknown>
+}
+
+type StoredReminder = {
+  id: string
+  userId: string
+  kind?: 'BEFORE' | 'MORNING_OF' | 'AT'
+  offsetMinutes?: number | null
+  fireAt: Date | null
+  firedAt: Date | null
+  task: {
+    id: string
+    title: string
+    status: string
+    dueDate: Date | null
+  } | null
+  calendarEvent: {
+    id: string
+    title: string
+    startsAt: Date
+    endsAt?: Date
+    allDay?: boolean
+    recurrenceRule?: string | null
+    excludedDates?: Date[]
+    overrides?: { originalStartsAt: Date | null }[]
+  } | null
+}
+
+// In-memory stand-in for the reminder and notification tables
+function createFakeDb(reminders: StoredReminder[]) {
+  const notifications: Record<string, unknown>[] = []
+
+  const prisma = {
+    reminder: {
+      findMany: vi.fn(async ({ where, take }: any) =>
+        reminders
+          .filter(
+            (reminder) =>
+              reminder.fireAt &&
+              reminder.fireAt <= where.fireAt.lte &&
+              !where.id?.notIn.includes(reminder.id)
+          )
+          .sort((a, b) => a.fireAt!.getTime() - b.fireAt!.getTime())
+          .slice(0, take)
+          .map((reminder) => ({ ...reminder }))
+      ),
+      updateMany: vi.fn(async ({ where, data }: any) => {
+        const reminder = reminders.find(
+          (entry) =>
+            entry.id === where.id &&
+            entry.fireAt?.getTime() === where.fireAt.getTime()
+        )
+        if (!reminder) return { count: 0 }
+        Object.assign(reminder, data)
+        return { count: 1 }
+      }),
+    },
+    user: {
+      findUnique: vi.fn(async () => ({ timezone: 'UTC' })),
+    },
+    notification: {
+      createMany: vi.fn(async ({ data }: any) => {
+        for (const row of data) {
+          const duplicate = notifications.some(
+            (existing) =>
+              existing.reminderId === row.reminderId &&
+              (existing.scheduledFor as Date).getTime() ===
+                row.scheduledFor.getTime()
+          )
+          if (!duplicate) notifications.push(row)
+        }
+      }),
+    },
+    $transaction: vi.fn(
+      async (callback: any): Promise<unknown> => callback(prisma)
+    ),
+  }
+
+  return { prisma: prisma as any, notifications, reminders }
+}
+
+const taskReminder = (id: string, fireAt: string): StoredReminder => ({
+  id,
+  userId: 'user-1',
+  fireAt: new Date(fireAt),
+  firedAt: null,
+  task: {
+    id: `task-${id}`,
+    title: `Task ${id}`,
+    status: 'ACTIVE',
+    dueDate: new Date('2026-10-19T10:00:00Z'),
+  },
+  calendarEvent: null,
+})
+
+describe('fireDueReminders', () => {
+  it('should fire due reminders and leave later ones pending', async () => {
+    const db = createFakeDb([
+      taskReminder('due', '2026-10-19T09:45:00Z'),
+      taskReminder('later', '2026-10-19T09:55:00Z'),
+    ])
+    const now = new Date('2026-10-19T09:50:00Z')
+
+    expect(await fireDueReminders(db.prisma, now)).toBe(1)
+    expect(db.notifications).toEqual([
+      {
+        userId: 'user-1',
+        reminderId: 'due',
+        title: 'Task due',
+        body: 'Due in 15 minutes',
+        href: '/tasks',
+        scheduledFor: new Date('2026-10-19T09:45:00Z'),
+      },
+    ])
+    expect(db.reminders[0]).toMatchObject({ fireAt: null, firedAt: now })
+    expect(db.reminders[1].fireAt).toEqual(new Date('2026-10-19T09:55:00Z'))
+  })
+
+  it('should work through more due reminders than fit in one batch', async () => {
+    const db = createFakeDb(
+      ['a', 'b', 'c', 'd', 'e'].map((id) =>
+        taskReminder(id, '2026-10-19T09:00:00Z')
+      )
+    )
+
+    expect(
+      await fireDueReminders(db.prisma, new Date('2026-10-19T09:00:00Z'), 2)
+    ).toBe(5)
+  })
+
+  it('should use up reminders of finished tasks without notifying', async () => {
+    const reminder = taskReminder('done', '2026-10-19T09:00:00Z')
+    reminder.task!.status = 'COMPLETED'
+    const db = createFakeDb([reminder])
+
+    expect(
+      await fireDueReminders(db.prisma, new Date('2026-10-19T09:00:00Z'))
+    ).toBe(0)
+    expect(db.notifications).toHaveLength(0)
+    expect(reminder.fireAt).toBeNull()
+  })
+
+  it('should move reminders of repeating events on to the next occurrence', async () => {
+    // Daily at 09:00, except the 20th, which was moved to an event of its own
+    const db = createFakeDb([
+      {
+        id: 'standup',
+        userId: 'user-1',
+        kind: 'BEFORE',
+        offsetMinutes: 15,
+        fireAt: new Date('2026-10-19T08:45:00Z'),
+        firedAt: null,
+        task: null,
+        calendarEvent: {
+          id: 'event-standup',
+          title: 'Standup',
+          startsAt: new Date('2026-10-01T09:00:00Z'),
+          endsAt: new Date('2026-10-01T09:15:00Z'),
+          allDay: false,
+          recurrenceRule: 'FREQ=DAILY',
+          excludedDates: [],
+          overrides: [{ originalStartsAt: new Date('2026-10-20T09:00:00Z') }],
+        },
+      },
+    ])
+
+    expect(
+      await fireDueReminders(db.prisma, new Date('2026-10-19T08:46:00Z'))
+    ).toBe(1)
+    expect(db.notifications).toEqual([
+      expect.objectContaining({
+        body: 'Starts in 15 minutes',
+        scheduledFor: new Date('2026-10-19T08:45:00Z'),
+      }),
+    ])
+    expect(db.reminders[0].fireAt).toEqual(new Date('2026-10-21T08:45:00Z'))
+  })
+
+  it('should report a failing reminder and fire the rest', async () => {
+    const db = createFakeDb(
+      ['broken', 'b', 'c'].map((id) => taskReminder(id, '2026-10-19T09:00:00Z'))
+    )
+    db.prisma.notification.createMany.mockImplementationOnce(async () => {
+      throw new Error('insert failed')
+    })
+    const onError = vi.fn()
+
+    expect(
+      await fireDueReminders(
+        db.prisma,
+        new Date('2026-10-19T09:00:00Z'),
+        2,
+        onError
+      )
+    ).toBe(2)
+    expect(onError).toHaveBeenCalledWith(new Error('insert failed'))
+    expect(db.notifications.map((row) => row.reminderId)).toEqual(['b', 'c'])
+  })
+
+  it('should notify once when two schedulers run at the same time', async () => {
+    const db = createFakeDb([taskReminder('shared', '2026-10-19T09:00:00Z')])
+    const now = new Date('2026-10-19T09:00:00Z')
+
+    const results = await Promise.all([
+      fireDueReminders(db.prisma, now),
+      fireDueReminders(db.prisma, now),
+    ])
+
+    expect(results.sort()).toEqual([0, 1])
+    expect(db.notifications).toHaveLength(1)
+  })
+})
+
+describe('createReminderScheduler', () => {
+  it('should fire reminders as the clock reaches them', async () => {
+    const clock = createFakeClock('2026-10-19T09:00:00Z')
+    const db = createFakeDb([taskReminder('soon', '2026-10-19T09:01:00Z')])
+    const scheduler = createReminderScheduler({
+      prisma: db.prisma,
+      clock,
+      intervalMs: 30 * 1000,
+    })
+
+    await scheduler.start()
+    await clock.advance(30 * 1000)
+    expect(db.notifications).toHaveLength(0)
+
+    await clock.advance(30 * 1000)
+    expect(db.notifications).toHaveLength(1)
+
+    scheduler.stop()
+    expect(clock.pendingTimers()).toBe(0)
+  })
+
+  it('should catch up on reminders missed while the server was down', async () => {
+    const clock = createFakeClock('2026-10-19T09:00:00Z')
+    const db = createFakeDb([
+      taskReminder('missed', '2026-10-19T09:10:00Z'),
+      taskReminder('upcoming', '2026-10-19T11:00:00Z'),
+    ])
+
+    const before = createReminderScheduler({ prisma: db.prisma, clock })
+    await before.start()
+    before.stop()
+
+    // Restart an hour later with a fresh scheduler
+    clock.set('2026-10-19T10:00:00Z')
+    const after = createReminderScheduler({ prisma: db.prisma, clock })
+    await after.start()
+
+    expect(db.notifications).toEqual([
+      expect.objectContaining({
+        reminderId: 'missed',
+        body: 'Due in 50 minutes',
+        scheduledFor: new Date('2026-10-19T09:10:00Z'),
+      }),
+    ])
+
+    // Starting again fires nothing new
+    after.stop()
+    await createReminderScheduler({ prisma: db.prisma, clock }).tick()
+    expect(db.notifications).toHaveLength(1)
+  })
+
+  it('should keep polling after a failed run', async () => {
+    const clock = createFakeClock('2026-10-19T09:00:00Z')
+    const db = createFakeDb([taskReminder('retry', '2026-10-19T09:00:00Z')])
+    db.prisma.reminder.findMany.mockRejectedValueOnce(new Error('db down'))
+    const onError = vi.fn()
+    const scheduler = createReminderScheduler({
+      prisma: db.prisma,
+      clock,
+      intervalMs: 1000,
+      onError,
+    })
+
+    await scheduler.start()
+    expect(onError).toHaveBeenCalledWith(new Error('db down'))
+    expect(db.notifications).toHaveLength(0)
+
+    await clock.advance(1000)
+    expect(db.notifications).toHaveLength(1)
+    scheduler.stop()
+  })
+})
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import {
+  computeReminderTime,
+  describeReminder,
+  nextFireAt,
+  reminderMessage,
+} from '@/lib/reminders'
+
+describe('computeReminderTime', () => {
+  const anchor = new Date('2026-10-20T15:00:00Z')
+
+  it('should count relative reminders back from the anchor', () => {
+    expect(
+      computeReminderTime({ kind: 'BEFORE', offsetMinutes: 15 }, anchor)
+    ).toEqual(new Date('2026-10-20T14:45:00Z'))
+    expect(
+      computeReminderTime({ kind: 'BEFORE', offsetMinutes: 15 }, null)
+    ).toBeNull()
+  })
+
+  it('should use the fixed time whatever the anchor', () => {
+    const remindAt = new Date('2026-10-19T08:00:00Z')
+
+    expect(computeReminderTime({ kind: 'AT', remindAt }, null)).toEqual(
+      remindAt
+    )
+  })
+
+  it("should remind at 9am on the anchor's day where the user is", () => {
+    // UTC+2, where the anchor is 17:00 on the 20th
+    expect(
+      computeReminderTime({ kind: 'MORNING_OF' }, anchor, 'Europe/Berlin')
+    ).toEqual(new Date('2026-10-20T07:00:00Z'))
+  })
+
+  it('should pick the local day when it differs from the UTC day', () => {
+    // UTC-7, where 02:00 UTC on the 21st is still the evening of the 20th
+    expect(
+      computeReminderTime(
+        { kind: 'MORNING_OF' },
+        new Date('2026-10-21T02:00:00Z'),
+        'America/Los_Angeles'
+      )
+    ).toEqual(new Date('2026-10-20T16:00:00Z'))
+  })
+
+  it('should follow daylight saving time to the morning of the day', () => {
+    // Berlin moves from UTC+2 to UTC+1 on 25 October, so 9am on the 26th
+    // is 08:00 UTC although the reminder was set in summer time
+    expect(
+      computeReminderTime(
+        { kind: 'MORNING_OF' },
+        new Date('2026-10-26T15:00:00Z'),
+        'Europe/Berlin'
+      )
+    ).toEqual(new Date('2026-10-26T08:00:00Z'))
+  })
+})
+
+describe('nextFireAt', () => {
+  it('should not schedule times that have already passed', () => {
+    const anchor = new Date('2026-10-19T12:10:00Z')
+    const now = new Date('2026-10-19T12:00:00Z')
+
+    expect(
+      nextFireAt({ kind: 'BEFORE', offsetMinutes: 5 }, anchor, now)
+    ).toEqual(new Date('2026-10-19T12:05:00Z'))
+    expect(
+      nextFireAt({ kind: 'BEFORE', offsetMinutes: 15 }, anchor, now)
+    ).toBeNull()
+  })
+})
+
+describe('describeReminder', () => {
+  it('should name the offset in the largest whole unit', () => {
+    expect(describeReminder({ kind: 'BEFORE', offsetMinutes: 0 })).toBe(
+      'At the time'
+    )
+    expect(describeReminder({ kind: 'BEFORE', offsetMinutes: 1 })).toBe(
+      '1 minute before'
+    )
+    expect(describeReminder({ kind: 'BEFORE', offsetMinutes: 90 })).toBe(
+      '90 minutes before'
+    )
+    expect(describeReminder({ kind: 'BEFORE', offsetMinutes: 120 })).toBe(
+      '2 hours before'
+    )
+    expect(describeReminder({ kind: 'BEFORE', offsetMinutes: 1440 })).toBe(
+      '1 day before'
+    )
+    expect(describeReminder({ kind: 'MORNING_OF' })).toBe('Morning of the day')
+  })
+})
+
+describe('reminderMessage', () => {
+  const anchor = new Date('2026-10-19T12:00:00Z')
+
+  it('should describe the time left from when the reminder was due', () => {
+    expect(
+      reminderMessage('task', anchor, new Date('2026-10-19T11:45:00Z'))
+    ).toBe('Due in 15 minutes')
+    expect(reminderMessage('event', anchor, anchor)).toBe('Starting now')
+    expect(
+      reminderMessage('task', anchor, new Date('2026-10-19T14:00:00Z'))
+    ).toBe('Overdue by 2 hours')
+    expect(reminderMessage('event', null, anchor)).toBe('Event reminder')
+  })
+})
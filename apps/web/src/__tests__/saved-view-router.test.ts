@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { savedViewRouter } from '@/server/api/routers/saved-view'
+
+// Mock Prisma client
+const mockPrisma = {
+  savedView: {
+    findMany: vi.fn(),
+    findFirst: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+  task: {
+    count: vi.fn(),
+  },
+  user: {
+    findUnique: vi.fn(),
+  },
+  $transaction: vi.fn((queries) => Promise.all(queries)),
+}
+
+// Mock session
+const mockSession = {
+  user: {
+    id: 'test-user-id',
+    email: 'test@example.com',
+    name: 'Test User',
+  },
+  expires: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+}
+
+// Mock context
+const mockContext = {
+  session: mockSession,
+  req: undefined,
+  prisma: mockPrisma as any,
+}
+
+describe('Saved View Router', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.user.findUnique.mockResolvedValue({ timezone: 'UTC' })
+  })
+
+  describe('counts', () => {
+    it('should count active tasks unless the view filters on status', async () => {
+      mockPrisma.savedView.findMany.mockResolvedValue([
+        { id: 'urgent', query: 'priority:urgent' },
+        { id: 'done', query: 'status:completed label:work' },
+      ])
+      mockPrisma.task.count.mockResolvedValueOnce(3).mockResolvedValueOnce(8)
+
+      const caller = savedViewRouter.createCaller(mockContext)
+      const result = await caller.counts()
+
+      expect(result).toEqual({ urgent: 3, done: 8 })
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1)
+      expect(mockPrisma.task.count).toHaveBeenNthCalledWith(1, {
+        where: {
+          userId: mockSession.user.id,
+          deletedAt: null,
+          status: 'ACTIVE',
+          AND: [
+            { AND: [{ priority: { in: ['URGENT'] } }] },
+            {
+              OR: [
+                { status: { not: 'ACTIVE' } },
+                { deferUntil: null },
+                { deferUntil: { lte: expect.any(Date) } },
+              ],
+            },
+          ],
+        },
+      })
+      expect(mockPrisma.task.count.mock.calls[1][0].where).not.toHaveProperty(
+        'status'
+      )
+    })
+
+    it('should only count tasks in the given project', async () => {
+      mockPrisma.savedView.findMany.mockResolvedValue([
+        { id: 'urgent', query: 'priority:urgent' },
+      ])
+      mockPrisma.task.count.mockResolvedValue(1)
+
+      const caller = savedViewRouter.createCaller(mockContext)
+      await caller.counts({ projectId: 'project-1' })
+
+      expect(mockPrisma.task.count.mock.calls[0][0].where).toMatchObject({
+        projectId: 'project-1',
+      })
+    })
+
+    it('should return null for views whose query no longer compiles', async () => {
+      mockPrisma.savedView.findMany.mockResolvedValue([
+        { id: 'broken', query: 'colour:red' },
+      ])
+
+      const caller = savedViewRouter.createCaller(mockContext)
+      const result = await caller.counts()
+
+      expect(result).toEqual({ broken: null })
+      expect(mockPrisma.task.count).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('create', () => {
+    it('should reject an invalid query', async () => {
+      const caller = savedViewRouter.createCaller(mockContext)
+
+      await expect(
+        caller.create({ name: 'Broken', query: 'priority:hgh' })
+      ).rejects.toMatchObject({ code: 'BAD_REQUEST' })
+      expect(mockPrisma.savedView.create).not.toHaveBeenCalled()
+    })
+
+    it('should append the view with default sort and icon', async () => {
+      mockPrisma.savedView.findFirst.mockResolvedValue({ order: 2 })
+      mockPrisma.savedView.create.mockResolvedValue({ id: 'view' })
+
+      const caller = savedViewRouter.createCaller(mockContext)
+      await caller.create({ name: 'Work', query: 'label:work' })
+
+      expect(mockPrisma.savedView.create).toHaveBeenCalledWith({
+        data: {
+          name: 'Work',
+          query: 'label:work',
+          sort: 'MANUAL',
+          icon: 'list',
+          order: 3,
+          userId: mockSession.user.id,
+        },
+      })
+    })
+  })
+
+  describe('update', () => {
+    it('should only write the fields that were sent', async () => {
+      mockPrisma.savedView.update.mockResolvedValue({ id: 'view' })
+
+      const caller = savedViewRouter.createCaller(mockContext)
+      await caller.update({ id: 'view', data: { name: 'Renamed' } })
+
+      expect(mockPrisma.savedView.update).toHaveBeenCalledWith({
+        where: { id: 'view', userId: mockSession.user.id },
+        data: { name: 'Renamed' },
+      })
+    })
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { diffTaskFields } from '@/lib/task-activity'
+
+describe('diffTaskFields', () => {
+  it('should list every set field for a new task', () => {
+    expect(
+      diffTaskFields(null, {
+        title: 'Pay rent',
+        description: '',
+        priority: 'URGENT',
+        status: 'ACTIVE',
+        dueDate: new Date('2026-11-01T17:00:00Z'),
+        tags: [],
+      })
+    ).toEqual([
+      { field: 'title', from: null, to: 'Pay rent' },
+      { field: 'priority', from: null, to: 'URGENT' },
+      { field: 'status', from: null, to: 'ACTIVE' },
+      { field: 'dueDate', from: null, to: '2026-11-01T17:00:00.000Z' },
+    ])
+  })
+
+  it('should compare dates by value and ignore untracked fields', () => {
+    const before = {
+      title: 'Task',
+      dueDate: new Date('2026-11-01T17:00:00Z'),
+      order: 1,
+    }
+    const after = {
+      title: 'Task',
+      dueDate: new Date('2026-11-01T17:00:00Z'),
+      order: 2,
+    }
+
+    expect(diffTaskFields(before, after)).toEqual([])
+  })
+
+  it('should compare tags by name regardless of order', () => {
+    const work = { id: 'tag-1', name: 'work' }
+    const home = { id: 'tag-2', name: 'home' }
+
+    expect(
+      diffTaskFields({ tags: [work, home] }, { tags: [home, work] })
+    ).toEqual([])
+    expect(diffTaskFields({ tags: [work] }, { tags: [home, work] })).toEqual([
+      { field: 'tags', from: 'work', to: 'home, work' },
+    ])
+    expect(diffTaskFields({ tags: [work] }, { tags: [] })).toEqual([
+      { field: 'tags', from: 'work', to: null },
+    ])
+  })
+
+  it('should treat an emptied description as unset', () => {
+    expect(
+      diffTaskFields({ description: 'Notes' }, { description: '' })
+    ).toEqual([{ field: 'description', from: 'Notes', to: null }])
+    expect(diffTaskFields({ description: null }, { description: '' })).toEqual(
+      []
+    )
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { deferredTaskFilter, getSnoozeDate, isDeferred } from '@/lib/task-defer'
+
+// Local times, so the presets are checked in the zone they are computed in
+const monday = (hours: number) => new Date(2026, 9, 19, hours, 30)
+
+describe('getSnoozeDate', () => {
+  it('should snooze until this evening while there is time left', () => {
+    expect(getSnoozeDate('tonight', monday(14))).toEqual(
+      new Date(2026, 9, 19, 19, 0)
+    )
+  })
+
+  it('should not offer tonight late in the day', () => {
+    expect(getSnoozeDate('tonight', monday(18))).toBeNull()
+  })
+
+  it('should snooze until tomorrow morning', () => {
+    expect(getSnoozeDate('tomorrow', monday(23))).toEqual(
+      new Date(2026, 9, 20, 9, 0)
+    )
+  })
+
+  it('should snooze until the following Monday', () => {
+    expect(getSnoozeDate('nextWeek', monday(10))).toEqual(
+      new Date(2026, 9, 26, 9, 0)
+    )
+    expect(getSnoozeDate('nextWeek', new Date(2026, 9, 25, 20, 0))).toEqual(
+      new Date(2026, 9, 26, 9, 0)
+    )
+  })
+})
+
+describe('isDeferred', () => {
+  const now = new Date('2026-10-19T12:00:00Z')
+
+  it('should hide active tasks until their defer date passes', () => {
+    const task = {
+      status: 'ACTIVE',
+      deferUntil: new Date('2026-10-19T18:00:00Z'),
+    }
+
+    expect(isDeferred(task, now)).toBe(true)
+    expect(isDeferred(task, new Date('2026-10-19T18:00:00Z'))).toBe(false)
+  })
+
+  it('should never hide finished or undeferred tasks', () => {
+    const later = new Date('2026-10-20T00:00:00Z')
+
+    expect(isDeferred({ status: 'COMPLETED', deferUntil: later }, now)).toBe(
+      false
+    )
+    expect(isDeferred({ status: 'ACTIVE', deferUntil: null }, now)).toBe(false)
+  })
+})
+
+describe('deferredTaskFilter', () => {
+  const now = new Date('2026-10-19T12:00:00Z')
+
+  it('should build filters matching isDeferred', () => {
+    expect(deferredTaskFilter('only', now)).toEqual({
+      status: 'ACTIVE',
+      deferUntil: { gt: now },
+    })
+    expect(deferredTaskFilter('hide', now)).toEqual({
+      OR: [
+        { status: { not: 'ACTIVE' } },
+        { deferUntil: null },
+        { deferUntil: { lte: now } },
+      ],
+    })
+    expect(deferredTaskFilter('include', now)).toEqual({})
+  })
+})
@@ -0,0 +1,308 @@
+import { describe, it, expect } from 'vitest'
+import {
+  compileTaskQuery,
+  parseTaskQuery,
+  TaskQueryError,
+} from '@/lib/task-query'
+
+// Monday 19 October 2026, 10:00 UTC
+const now = new Date('2026-10-19T10:00:00Z')
+
+function compile(query: string, timeZone = 'UTC') {
+  return compileTaskQuery(query, { now, timeZone })
+}
+
+function issuesOf(query: string) {
+  try {
+    compile(query)
+  } catch (error) {
+    if (error instanceof TaskQueryError) return error.issues
+    throw error
+  }
+  throw new Error('Expected the query to fail')
+}
+
+describe('Task Query Language', () => {
+  describe('parseTaskQuery', () => {
+    it('should split fields, quoted text and bare words', () => {
+      const clauses = parseTaskQuery('priority:high "free text" rent')
+
+      expect(clauses).toEqual([
+        {
+          kind: 'field',
+          field: 'priority',
+          operator: '=',
+          values: [{ value: 'high', start: 9, end: 13 }],
+          negated: false,
+          start: 0,
+          end: 13,
+        },
+        {
+          kind: 'text',
+          value: 'free text',
+          negated: false,
+          start: 14,
+          end: 25,
+        },
+        { kind: 'text', value: 'rent', negated: false, start: 26, end: 30 },
+      ])
+    })
+
+    it('should parse operators, lists, negation and quoted values', () => {
+      const [due, priority, tag] = parseTaskQuery(
+        'due:<=2026-11-01 -priority:low,medium tag:"deep work"'
+      )
+
+      expect(due).toMatchObject({ operator: '<=', negated: false })
+      expect(priority).toMatchObject({
+        negated: true,
+        values: [
+          { value: 'low', start: 27, end: 30 },
+          { value: 'medium', start: 31, end: 37 },
+        ],
+      })
+      expect(tag).toMatchObject({
+        field: 'tag',
+        values: [{ value: 'deep work', start: 42, end: 53 }],
+      })
+    })
+
+    it('should return no clauses for an empty query', () => {
+      expect(parseTaskQuery('   ')).toEqual([])
+    })
+  })
+
+  describe('compileTaskQuery', () => {
+    it('should compile the example query', () => {
+      expect(
+        compile(
+          'priority:high tag:work due:<2026-11-01 status:active "free text"'
+        )
+      ).toEqual({
+        AND: [
+          { priority: { in: ['HIGH'] } },
+          {
+            tags: { some: { name: { equals: 'work', mode: 'insensitive' } } },
+          },
+          { dueDate: { lt: new Date('2026-11-01T00:00:00Z') } },
+          { status: 'ACTIVE' },
+          {
+            OR: [
+              { title: { contains: 'free text', mode: 'insensitive' } },
+              { description: { contains: 'free text', mode: 'insensitive' } },
+            ],
+          },
+        ],
+      })
+    })
+
+    it('should combine due filters instead of overwriting them', () => {
+      const where = compile('due:today due:upcoming')
+
+      expect(where.AND).toEqual([
+        {
+          dueDate: {
+            gte: new Date('2026-10-19T00:00:00Z'),
+            lt: new Date('2026-10-20T00:00:00Z'),
+          },
+        },
+        {
+          dueDate: { gt: now, lte: new Date('2026-10-26T10:00:00Z') },
+          status: 'ACTIVE',
+        },
+      ])
+    })
+
+    it('should expand priority comparisons', () => {
+      expect(compile('priority:>=high').AND).toEqual([
+        { priority: { in: ['HIGH', 'URGENT'] } },
+      ])
+      expect(compile('priority:<medium').AND).toEqual([
+        { priority: { in: ['LOW'] } },
+      ])
+    })
+
+    it('should compile due comparisons on day boundaries', () => {
+      const day = new Date('2026-11-01T00:00:00Z')
+      const nextDay = new Date('2026-11-02T00:00:00Z')
+
+      expect(compile('due:<=2026-11-01').AND).toEqual([
+        { dueDate: { lt: nextDay } },
+      ])
+      expect(compile('due:>2026-11-01').AND).toEqual([
+        { dueDate: { gte: nextDay } },
+      ])
+      expect(compile('due:>=2026-11-01').AND).toEqual([
+        { dueDate: { gte: day } },
+      ])
+      expect(compile('due:2026-11-01..2026-11-03').AND).toEqual([
+        { dueDate: { gte: day, lt: new Date('2026-11-04T00:00:00Z') } },
+      ])
+    })
+
+    it('should use the given timezone for day boundaries', () => {
+      // UTC-4: local midnight is 04:00 UTC
+      expect(compile('due:tomorrow', 'America/New_York').AND).toEqual([
+        {
+          dueDate: {
+            gte: new Date('2026-10-20T04:00:00Z'),
+            lt: new Date('2026-10-21T04:00:00Z'),
+          },
+        },
+      ])
+    })
+
+    it('should follow daylight saving time across a range', () => {
+      // New York falls back on 1 November, so that day is 25 hours long
+      expect(
+        compile('due:2026-10-31..2026-11-01', 'America/New_York').AND
+      ).toEqual([
+        {
+          dueDate: {
+            gte: new Date('2026-10-31T04:00:00Z'),
+            lt: new Date('2026-11-02T05:00:00Z'),
+          },
+        },
+      ])
+      expect(compile('due:2026-11-01', 'America/New_York').AND).toEqual([
+        {
+          dueDate: {
+            gte: new Date('2026-11-01T04:00:00Z'),
+            lt: new Date('2026-11-02T05:00:00Z'),
+          },
+        },
+      ])
+    })
+
+    it('should support keywords, flags and negation', () => {
+      expect(compile('due:none -tag:none is:recurring').AND).toEqual([
+        { dueDate: null },
+        { NOT: { tags: { none: {} } } },
+        { recurrenceRule: { not: null } },
+      ])
+      expect(compile('-label:none').AND).toEqual(compile('-tag:none').AND)
+      expect(compile('status:completed,archived').AND).toEqual([
+        { OR: [{ status: 'COMPLETED' }, { status: 'ARCHIVED' }] },
+      ])
+    })
+
+    it('should keep tasks without a description when negating words', () => {
+      expect(compile('-meeting').AND).toEqual([
+        {
+          AND: [
+            { NOT: { title: { contains: 'meeting', mode: 'insensitive' } } },
+            {
+              OR: [
+                { description: null },
+                {
+                  NOT: {
+                    description: { contains: 'meeting', mode: 'insensitive' },
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      ])
+    })
+
+    it('should keep tasks without a due date when negating due dates', () => {
+      expect(compile('-due:today').AND).toEqual([
+        {
+          OR: [
+            { dueDate: null },
+            {
+              NOT: {
+                dueDate: {
+                  gte: new Date('2026-10-19T00:00:00Z'),
+                  lt: new Date('2026-10-20T00:00:00Z'),
+                },
+              },
+            },
+          ],
+        },
+      ])
+      expect(compile('-due:overdue').AND).toEqual([
+        {
+          OR: [
+            { dueDate: null },
+            { NOT: { dueDate: { lt: now }, status: 'ACTIVE' } },
+          ],
+        },
+      ])
+      expect(compile('-due:none,today').AND).toEqual([
+        {
+          AND: [
+            { NOT: { dueDate: null } },
+            {
+              OR: [
+                { dueDate: null },
+                {
+                  NOT: {
+                    dueDate: {
+                      gte: new Date('2026-10-19T00:00:00Z'),
+                      lt: new Date('2026-10-20T00:00:00Z'),
+                    },
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      ])
+    })
+  })
+
+  describe('errors', () => {
+    it('should report unknown fields with their position', () => {
+      expect(issuesOf('rent colour:red')).toEqual([
+        {
+          message:
+            'Unknown field "colour", expected one of priority, status, tag, due, is',
+          start: 5,
+          end: 11,
+        },
+      ])
+    })
+
+    it('should report every invalid value', () => {
+      expect(issuesOf('priority:hgh due:2026-02-30')).toEqual([
+        {
+          message:
+            'Invalid priority "hgh", expected one of low, medium, high, urgent',
+          start: 9,
+          end: 12,
+        },
+        {
+          message:
+            'Invalid due date "2026-02-30", expected YYYY-MM-DD or one of today, tomorrow, overdue, upcoming, none',
+          start: 17,
+          end: 27,
+        },
+      ])
+    })
+
+    it('should point at the bad item in a list', () => {
+      expect(issuesOf('status:active,done')[0]).toMatchObject({
+        start: 14,
+        end: 18,
+      })
+    })
+
+    it('should reject missing values and unsupported operators', () => {
+      expect(issuesOf('label:')[0].message).toBe('Missing value for "label"')
+      expect(issuesOf('status:>active')[0].message).toBe(
+        'Operator > is not supported for "status"'
+      )
+      expect(issuesOf('due:<today,tomorrow')[0].message).toBe(
+        'Operator < takes a single value'
+      )
+    })
+
+    it('should report an unterminated quote', () => {
+      expect(issuesOf('"free text')).toEqual([
+        { message: 'Unterminated quote', start: 0, end: 10 },
+      ])
+    })
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import {
+  MIN_RANK_GAP,
+  RANK_STEP,
+  rankBetween,
+  spreadRanks,
+} from '@/lib/task-rank'
+
+describe('rankBetween', () => {
+  it('should split the gap between two neighbours', () => {
+    expect(rankBetween(1, 2)).toBe(1.5)
+    expect(rankBetween(-1, 0)).toBe(-0.5)
+  })
+
+  it('should step past a single neighbour at either end', () => {
+    expect(rankBetween(null, 3)).toBe(3 - RANK_STEP)
+    expect(rankBetween(3, null)).toBe(3 + RANK_STEP)
+  })
+
+  it('should start an empty list at one step', () => {
+    expect(rankBetween(null, null)).toBe(RANK_STEP)
+  })
+
+  it('should ask for renumbering once the gap is used up', () => {
+    expect(rankBetween(1, 1 + MIN_RANK_GAP / 2)).toBeNull()
+    expect(rankBetween(2, 2)).toBeNull()
+  })
+
+  it('should ask for renumbering when the neighbours are out of order', () => {
+    expect(rankBetween(3, 2)).toBeNull()
+  })
+
+  it('should keep splitting the same gap for a good while', () => {
+    let after = 2
+    for (let moves = 0; moves < 25; moves++) {
+      const rank = rankBetween(1, after)
+      expect(rank).not.toBeNull()
+      expect(rank!).toBeGreaterThan(1)
+      expect(rank!).toBeLessThan(after)
+      after = rank!
+    }
+  })
+})
+
+describe('spreadRanks', () => {
+  it('should number IDs evenly in order', () => {
+    expect(spreadRanks(['a', 'b', 'c'])).toEqual([
+      { id: 'a', order: RANK_STEP },
+      { id: 'b', order: 2 * RANK_STEP },
+      { id: 'c', order: 3 * RANK_STEP },
+    ])
+  })
+})
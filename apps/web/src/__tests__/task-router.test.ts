@@ -0,0 +1,1465 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Prisma } from '@prisma/client'
+import { taskRouter } from '@/server/api/routers/task'
+
+// Mock Prisma client
+const mockPrisma = {
+  task: {
+    findMany: vi.fn(),
+    findFirst: vi.fn(),
+    findFirstOrThrow: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+    groupBy: vi.fn(),
+    count: vi.fn(),
+  },
+  timeEntry: {
+    groupBy: vi.fn(),
+  },
+  tag: {
+    findMany: vi.fn(),
+    findFirst: vi.fn(),
+    create: vi.fn(),
+  },
+  project: {
+    findFirst: vi.fn(),
+  },
+  kanbanColumn: {
+    findFirst: vi.fn(),
+  },
+  taskTemplate: {
+    findFirst: vi.fn(),
+  },
+  reminder: {
+    findMany: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+  },
+  taskActivity: {
+    createMany: vi.fn(),
+    findMany: vi.fn(),
+  },
+  user: {
+    findUnique: vi.fn(),
+  },
+  calendar: {
+    findFirst: vi.fn(),
+  },
+  calendarEvent: {
+    create: vi.fn(),
+  },
+  $transaction: vi.fn(),
+  $executeRaw: vi.fn(),
+}
+
+// Mock session
+const mockSession = {
+  user: {
+    id: 'test-user-id',
+    email: 'test@example.com',
+    name: 'Test User',
+  },
+  expires: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+}
+
+// Mock context
+const mockContext = {
+  session: mockSession,
+  req: undefined,
+  prisma: mockPrisma as any,
+}
+
+const parentTask = {
+  id: 'parent',
+  title: 'Parent',
+  status: 'ACTIVE',
+  parentId: null,
+  userId: mockSession.user.id,
+}
+
+// Added to list filters unless deferred tasks are asked for
+const hideDeferred = {
+  OR: [
+    { status: { not: 'ACTIVE' } },
+    { deferUntil: null },
+    { deferUntil: { lte: expect.any(Date) } },
+  ],
+}
+
+describe('Task Router', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.$transaction.mockImplementation(async (callback: any) =>
+      callback(mockPrisma)
+    )
+    mockPrisma.timeEntry.groupBy.mockResolvedValue([])
+    mockPrisma.reminder.findMany.mockResolvedValue([])
+    mockPrisma.user.findUnique.mockResolvedValue({ timezone: 'UTC' })
+  })
+
+  describe('list', () => {
+    it('should attach a subtask rollup to each task', async () => {
+      mockPrisma.task.findMany.mockResolvedValue([parentTask])
+      mockPrisma.task.groupBy.mockResolvedValue([
+        { parentId: 'parent', status: 'ACTIVE', _count: { _all: 1 } },
+        { parentId: 'parent', status: 'COMPLETED', _count: { _all: 2 } },
+      ])
+
+      const caller = taskRouter.createCaller(mockContext)
+      const result = await caller.list({ status: 'ACTIVE' })
+
+      expect(result[0].subtaskProgress).toEqual({ total: 3, completed: 2 })
+    })
+
+    it('should attach the tracked time to each task', async () => {
+      mockPrisma.task.findMany.mockResolvedValue([parentTask])
+      mockPrisma.task.groupBy.mockResolvedValue([])
+      mockPrisma.timeEntry.groupBy.mockResolvedValue([
+        { taskId: 'parent', _sum: { duration: 5430 } },
+      ])
+
+      const caller = taskRouter.createCaller(mockContext)
+      const result = await caller.list({ status: 'ACTIVE' })
+
+      expect(result[0].trackedMinutes).toBe(91)
+    })
+
+    it("should find tasks due on the user's today", async () => {
+      vi.useFakeTimers()
+      // Still the 18th in Los Angeles
+      vi.setSystemTime(new Date('2026-10-19T03:00:00Z'))
+      mockPrisma.user.findUnique.mockResolvedValue({
+        timezone: 'America/Los_Angeles',
+      })
+      mockPrisma.task.findMany.mockResolvedValue([])
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.list({ dueToday: true })
+      vi.useRealTimers()
+
+      expect(
+        mockPrisma.task.findMany.mock.calls[0][0].where.AND
+      ).toContainEqual({
+        dueDate: {
+          gte: new Date('2026-10-18T07:00:00Z'),
+          lt: new Date('2026-10-19T07:00:00Z'),
+        },
+      })
+    })
+  })
+
+  describe('search', () => {
+    it('should compile the query and return the next cursor', async () => {
+      mockPrisma.task.findMany.mockResolvedValue([
+        { ...parentTask, id: 'a' },
+        { ...parentTask, id: 'b' },
+        { ...parentTask, id: 'c' },
+      ])
+      mockPrisma.task.groupBy.mockResolvedValue([])
+
+      const caller = taskRouter.createCaller(mockContext)
+      const result = await caller.search({
+        query: 'priority:high',
+        status: 'ACTIVE',
+        cursor: 'prev',
+        limit: 2,
+      })
+
+      expect(mockPrisma.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: 'test-user-id',
+            deletedAt: null,
+            status: 'ACTIVE',
+            AND: [{ AND: [{ priority: { in: ['HIGH'] } }] }, hideDeferred],
+          },
+          take: 3,
+          cursor: { id: 'prev' },
+          skip: 1,
+        })
+      )
+      expect(result.tasks.map((task) => task.id)).toEqual(['a', 'b'])
+      expect(result.nextCursor).toBe('b')
+    })
+
+    it('should reject invalid queries with their issues', async () => {
+      const caller = taskRouter.createCaller(mockContext)
+
+      await expect(
+        caller.search({ query: 'priority:hgh' })
+      ).rejects.toMatchObject({
+        code: 'BAD_REQUEST',
+        cause: {
+          issues: [expect.objectContaining({ start: 9, end: 12 })],
+        },
+      })
+      expect(mockPrisma.task.findMany).not.toHaveBeenCalled()
+    })
+
+    it("should compile due dates on the user's days", async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        timezone: 'America/New_York',
+      })
+      mockPrisma.task.findMany.mockResolvedValue([])
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.search({ query: 'due:2026-11-01' })
+
+      // Clocks go back that day, so it is 25 hours long
+      expect(mockPrisma.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            AND: [
+              {
+                AND: [
+                  {
+                    dueDate: {
+                      gte: new Date('2026-11-01T04:00:00Z'),
+                      lt: new Date('2026-11-02T05:00:00Z'),
+                    },
+                  },
+                ],
+              },
+              hideDeferred,
+            ],
+          }),
+        })
+      )
+    })
+  })
+
+  describe('toggleStatus', () => {
+    it('should block completing a parent with open subtasks by default', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue(parentTask)
+      mockPrisma.task.findMany
+        .mockResolvedValueOnce([{ id: 'child', status: 'ACTIVE' }])
+        .mockResolvedValueOnce([])
+
+      const caller = taskRouter.createCaller(mockContext)
+
+      await expect(caller.toggleStatus({ id: 'parent' })).rejects.toThrow(
+        'Task has 1 open subtask'
+      )
+      expect(mockPrisma.task.update).not.toHaveBeenCalled()
+    })
+
+    it('should complete open subtasks when cascading', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue(parentTask)
+      mockPrisma.task.findMany
+        .mockResolvedValueOnce([
+          { id: 'child', status: 'ACTIVE' },
+          { id: 'done', status: 'COMPLETED' },
+        ])
+        .mockResolvedValueOnce([{ id: 'grandchild', status: 'ACTIVE' }])
+        .mockResolvedValueOnce([])
+      mockPrisma.task.update.mockResolvedValue({
+        ...parentTask,
+        status: 'COMPLETED',
+      })
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.toggleStatus({ id: 'parent', openSubtasks: 'cascade' })
+
+      expect(mockPrisma.task.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['child', 'grandchild'] } },
+        data: { status: 'COMPLETED' },
+      })
+      expect(mockPrisma.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { status: 'COMPLETED' } })
+      )
+    })
+
+    it('should not check subtasks when reopening a task', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue({
+        ...parentTask,
+        status: 'COMPLETED',
+      })
+      mockPrisma.task.update.mockResolvedValue(parentTask)
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.toggleStatus({ id: 'parent' })
+
+      expect(mockPrisma.task.findMany).not.toHaveBeenCalled()
+    })
+
+    it('should block completing a parent with open subtasks through an edit', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue(parentTask)
+      mockPrisma.task.findMany
+        .mockResolvedValueOnce([{ id: 'child', status: 'ACTIVE' }])
+        .mockResolvedValueOnce([])
+
+      const caller = taskRouter.createCaller(mockContext)
+
+      await expect(
+        caller.update({ id: 'parent', data: { status: 'COMPLETED' } })
+      ).rejects.toThrow('Task has 1 open subtask')
+      expect(mockPrisma.task.update).not.toHaveBeenCalled()
+    })
+
+    it('should complete open subtasks when an edit cascades', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue(parentTask)
+      mockPrisma.task.findMany
+        .mockResolvedValueOnce([{ id: 'child', status: 'ACTIVE' }])
+        .mockResolvedValueOnce([])
+      mockPrisma.task.update.mockResolvedValue({
+        ...parentTask,
+        status: 'COMPLETED',
+      })
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.update({
+        id: 'parent',
+        data: { status: 'COMPLETED' },
+        openSubtasks: 'cascade',
+      })
+
+      expect(mockPrisma.task.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['child'] } },
+        data: { status: 'COMPLETED' },
+      })
+    })
+  })
+
+  describe('recurrence', () => {
+    const recurringTask = {
+      ...parentTask,
+      id: 'recurring',
+      description: null,
+      priority: 'MEDIUM',
+      tags: [{ id: 'tag-1', name: 'home', color: '#22c55e' }],
+      order: 0,
+      dueDate: new Date(2026, 9, 19, 9),
+      recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO,TH',
+      recurrenceIndex: 0,
+    }
+
+    it('should create the next occurrence when completing a recurring task', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue(recurringTask)
+      mockPrisma.task.findMany.mockResolvedValue([])
+      mockPrisma.task.create.mockResolvedValue({ ...recurringTask, id: 'next' })
+      mockPrisma.task.update.mockResolvedValue({
+        ...recurringTask,
+        status: 'COMPLETED',
+      })
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.toggleStatus({ id: 'recurring' })
+
+      expect(mockPrisma.task.update).toHaveBeenCalledWith({
+        where: { id: 'recurring' },
+        data: { recurrenceRule: null },
+      })
+      expect(mockPrisma.task.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          title: 'Parent',
+          dueDate: new Date(2026, 9, 22, 9),
+          recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO,TH',
+          recurrenceIndex: 1,
+          tags: { connect: [{ id: 'tag-1' }] },
+        }),
+        include: expect.any(Object),
+      })
+    })
+
+    it('should move reminders on to the next occurrence', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue(recurringTask)
+      mockPrisma.task.findMany.mockResolvedValue([])
+      mockPrisma.task.create.mockResolvedValue({ ...recurringTask, id: 'next' })
+      mockPrisma.task.update.mockResolvedValue(recurringTask)
+      mockPrisma.reminder.findMany.mockResolvedValue([
+        { id: 'reminder-1', kind: 'BEFORE', offsetMinutes: 30 },
+      ])
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.toggleStatus({ id: 'recurring' })
+
+      expect(mockPrisma.reminder.updateMany).toHaveBeenCalledWith({
+        where: { taskId: 'recurring' },
+        data: { taskId: 'next' },
+      })
+      expect(mockPrisma.reminder.update).toHaveBeenCalledWith({
+        where: { id: 'reminder-1' },
+        data: { fireAt: new Date(2026, 9, 22, 8, 30) },
+      })
+    })
+
+    it('should create the next occurrence when an edit completes a recurring task', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue(recurringTask)
+      mockPrisma.task.findMany.mockResolvedValue([])
+      mockPrisma.task.create.mockResolvedValue({ ...recurringTask, id: 'next' })
+      mockPrisma.task.update.mockResolvedValue({
+        ...recurringTask,
+        status: 'COMPLETED',
+      })
+
+      const caller = taskRouter.createCaller(mockContext)
+      const task = await caller.update({
+        id: 'recurring',
+        data: { status: 'COMPLETED' },
+      })
+
+      expect(mockPrisma.task.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          dueDate: new Date(2026, 9, 22, 9),
+          recurrenceIndex: 1,
+        }),
+        include: expect.any(Object),
+      })
+      expect(mockPrisma.task.update).toHaveBeenCalledWith({
+        where: { id: 'recurring' },
+        data: { recurrenceRule: null },
+      })
+      expect(task.recurrenceRule).toBeNull()
+    })
+
+    it('should not create an occurrence past the end of the series', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue({
+        ...recurringTask,
+        recurrenceRule: 'FREQ=DAILY;COUNT=2',
+        recurrenceIndex: 1,
+      })
+      mockPrisma.task.findMany.mockResolvedValue([])
+      mockPrisma.task.update.mockResolvedValue(recurringTask)
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.toggleStatus({ id: 'recurring' })
+
+      expect(mockPrisma.task.create).not.toHaveBeenCalled()
+    })
+
+    it('should create next occurrences for recurring tasks in a bulk completion', async () => {
+      mockPrisma.task.findMany
+        .mockResolvedValueOnce([]) // open subtasks
+        .mockResolvedValueOnce([recurringTask]) // selected tasks
+      mockPrisma.task.create.mockResolvedValue({ ...recurringTask, id: 'next' })
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.bulkUpdate({
+        taskIds: ['recurring', 'other'],
+        data: { status: 'COMPLETED' },
+      })
+
+      expect(mockPrisma.task.create).toHaveBeenCalledTimes(1)
+      expect(mockPrisma.task.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { status: 'COMPLETED' } })
+      )
+    })
+
+    it('should shift the due date when skipping an occurrence', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue(recurringTask)
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.skipOccurrence({ id: 'recurring' })
+
+      expect(mockPrisma.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { dueDate: new Date(2026, 9, 22, 9), recurrenceIndex: 1 },
+        })
+      )
+    })
+
+    it('should reject unsupported recurrence rules', async () => {
+      const caller = taskRouter.createCaller(mockContext)
+
+      await expect(
+        caller.create({ title: 'Task', recurrenceRule: 'FREQ=YEARLY' })
+      ).rejects.toThrow('FREQ')
+      expect(mockPrisma.task.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('quickAdd', () => {
+    it('should create a task from the parsed text', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue({ order: 4 })
+      mockPrisma.task.create.mockResolvedValue({ id: 'new' })
+      mockPrisma.tag.findFirst.mockResolvedValue(null)
+      mockPrisma.tag.create.mockResolvedValue({ id: 'tag-finance' })
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.quickAdd({
+        text: 'Pay rent 2026-11-01 5pm !urgent #finance',
+      })
+
+      expect(mockPrisma.tag.create).toHaveBeenCalledWith({
+        data: { name: 'finance', userId: 'test-user-id' },
+      })
+
+      expect(mockPrisma.task.create).toHaveBeenCalledWith({
+        data: {
+          title: 'Pay rent',
+          dueDate: new Date('2026-11-01T17:00:00Z'),
+          priority: 'URGENT',
+          tags: { connect: { id: 'tag-finance' } },
+          order: 5,
+          userId: 'test-user-id',
+        },
+        include: expect.objectContaining({ calendarEvent: true }),
+      })
+    })
+
+    it('should reuse a tag whose name differs only in case', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue(null)
+      mockPrisma.task.create.mockResolvedValue({ id: 'new' })
+      mockPrisma.tag.findFirst.mockResolvedValue({ id: 'tag-finance' })
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.quickAdd({ text: 'Pay rent #Finance' })
+
+      expect(mockPrisma.tag.findFirst).toHaveBeenCalledWith({
+        where: {
+          userId: 'test-user-id',
+          name: { equals: 'Finance', mode: 'insensitive' },
+        },
+      })
+      expect(mockPrisma.tag.create).not.toHaveBeenCalled()
+      expect(mockPrisma.task.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            tags: { connect: { id: 'tag-finance' } },
+          }),
+        })
+      )
+    })
+
+    it("should read dates on the user's clock", async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        timezone: 'America/New_York',
+      })
+      mockPrisma.task.findFirst.mockResolvedValue(null)
+      mockPrisma.task.create.mockResolvedValue({ id: 'new' })
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.quickAdd({ text: 'Pay rent 2026-11-02 9am' })
+
+      // 9am after clocks went back is UTC-5
+      expect(mockPrisma.task.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            dueDate: new Date('2026-11-02T14:00:00Z'),
+          }),
+        })
+      )
+    })
+
+    it('should reject text without a title', async () => {
+      const caller = taskRouter.createCaller(mockContext)
+
+      await expect(caller.quickAdd({ text: 'tomorrow !high' })).rejects.toThrow(
+        'Quick add needs a task title'
+      )
+      expect(mockPrisma.task.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('tags', () => {
+    const work = { id: 'tag-work', name: 'work', color: '#3b82f6' }
+    const home = { id: 'tag-home', name: 'home', color: '#22c55e' }
+
+    it('should filter the list by tag id', async () => {
+      mockPrisma.task.findMany.mockResolvedValue([])
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.list({ status: 'ACTIVE', tagId: 'tag-work' })
+
+      expect(mockPrisma.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: 'test-user-id',
+            deletedAt: null,
+            AND: [
+              { status: 'ACTIVE' },
+              { tags: { some: { id: 'tag-work' } } },
+              hideDeferred,
+            ],
+          },
+        })
+      )
+    })
+
+    it("should reject tags the user doesn't own", async () => {
+      mockPrisma.tag.findMany.mockResolvedValue([work])
+
+      const caller = taskRouter.createCaller(mockContext)
+
+      await expect(
+        caller.create({ title: 'Task', tagIds: ['tag-work', 'tag-other'] })
+      ).rejects.toThrow('Tag not found')
+      expect(mockPrisma.task.create).not.toHaveBeenCalled()
+    })
+
+    it('should replace the tags on update and record the change', async () => {
+      mockPrisma.tag.findMany.mockResolvedValue([home])
+      mockPrisma.task.findFirst.mockResolvedValue({
+        ...parentTask,
+        tags: [work],
+      })
+      mockPrisma.task.update.mockResolvedValue({ ...parentTask, tags: [home] })
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.update({ id: 'parent', data: { tagIds: ['tag-home'] } })
+
+      expect(mockPrisma.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            tags: { set: [{ id: 'tag-home' }] },
+          }),
+        })
+      )
+      expect(mockPrisma.taskActivity.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            changes: expect.arrayContaining([
+              { field: 'tags', from: 'work', to: 'home' },
+            ]),
+          }),
+        ],
+      })
+    })
+
+    it('should add tags to every task in a bulk update', async () => {
+      mockPrisma.tag.findMany.mockResolvedValue([work])
+      mockPrisma.task.findMany.mockResolvedValue([
+        { ...parentTask, id: 'a', tags: [] },
+        { ...parentTask, id: 'b', tags: [work] },
+      ])
+      mockPrisma.task.updateMany.mockResolvedValue({ count: 2 })
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.bulkUpdate({
+        taskIds: ['a', 'b'],
+        data: { tagIds: ['tag-work'] },
+      })
+
+      expect(mockPrisma.task.update).toHaveBeenCalledTimes(2)
+      expect(mockPrisma.task.update).toHaveBeenCalledWith({
+        where: { id: 'a' },
+        data: { tags: { connect: [{ id: 'tag-work' }] } },
+      })
+      // Only task a actually changed
+      expect(mockPrisma.taskActivity.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            taskId: 'a',
+            changes: [{ field: 'tags', from: null, to: 'work' }],
+          }),
+        ],
+      })
+    })
+  })
+
+  describe('activity history', () => {
+    it('should record only the fields an update changed', async () => {
+      const before = {
+        ...parentTask,
+        priority: 'MEDIUM',
+        dueDate: new Date('2026-10-20T09:00:00Z'),
+      }
+      mockPrisma.task.findFirst.mockResolvedValue(before)
+      mockPrisma.task.update.mockResolvedValue({
+        ...before,
+        priority: 'HIGH',
+        dueDate: new Date('2026-10-22T09:00:00Z'),
+      })
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.update({
+        id: 'parent',
+        data: {
+          title: 'Parent',
+          priority: 'HIGH',
+          dueDate: new Date('2026-10-22T09:00:00Z'),
+        },
+      })
+
+      expect(mockPrisma.taskActivity.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            taskId: 'parent',
+            action: 'UPDATED',
+            changes: [
+              { field: 'priority', from: 'MEDIUM', to: 'HIGH' },
+              {
+                field: 'dueDate',
+                from: '2026-10-20T09:00:00.000Z',
+                to: '2026-10-22T09:00:00.000Z',
+              },
+            ],
+            userId: 'test-user-id',
+          },
+        ],
+      })
+    })
+
+    it('should write one entry per task in a bulk update', async () => {
+      mockPrisma.task.findMany.mockResolvedValue([
+        { ...parentTask, id: 'a', priority: 'LOW' },
+        { ...parentTask, id: 'b', priority: 'HIGH' },
+        { ...parentTask, id: 'c', priority: 'LOW' },
+      ])
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.bulkUpdate({
+        taskIds: ['a', 'b', 'c'],
+        data: { priority: 'HIGH' },
+      })
+
+      const { data } = mockPrisma.taskActivity.createMany.mock.calls[0][0]
+      expect(data.map((entry: any) => entry.taskId)).toEqual(['a', 'c'])
+      expect(data[0]).toMatchObject({
+        action: 'BULK_UPDATED',
+        changes: [{ field: 'priority', from: 'LOW', to: 'HIGH' }],
+      })
+    })
+
+    it('should record cascaded subtasks when toggling a parent', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue(parentTask)
+      mockPrisma.task.findMany
+        .mockResolvedValueOnce([{ id: 'child', status: 'ACTIVE' }])
+        .mockResolvedValueOnce([])
+      mockPrisma.task.update.mockResolvedValue({
+        ...parentTask,
+        status: 'COMPLETED',
+      })
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.toggleStatus({ id: 'parent', openSubtasks: 'cascade' })
+
+      const { data } = mockPrisma.taskActivity.createMany.mock.calls[0][0]
+      expect(data.map((entry: any) => entry.taskId)).toEqual([
+        'parent',
+        'child',
+      ])
+      expect(data[1].changes).toEqual([
+        { field: 'status', from: 'ACTIVE', to: 'COMPLETED' },
+      ])
+    })
+
+    it("should not return the history of another user's task", async () => {
+      mockPrisma.task.findFirst.mockResolvedValue(null)
+
+      const caller = taskRouter.createCaller(mockContext)
+
+      await expect(caller.history({ id: 'other' })).rejects.toThrow(
+        'Task not found'
+      )
+      expect(mockPrisma.taskActivity.findMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('projects', () => {
+    it("should reject a project the user doesn't own", async () => {
+      mockPrisma.project.findFirst.mockResolvedValue(null)
+
+      const caller = taskRouter.createCaller(mockContext)
+
+      await expect(
+        caller.create({ title: 'Task', projectId: 'someone-elses' })
+      ).rejects.toThrow('Project not found')
+      expect(mockPrisma.project.findFirst).toHaveBeenCalledWith({
+        where: { id: 'someone-elses', userId: 'test-user-id' },
+        select: { id: true },
+      })
+      expect(mockPrisma.task.create).not.toHaveBeenCalled()
+    })
+
+    it("should put subtasks in their parent's project by default", async () => {
+      mockPrisma.task.findFirst
+        .mockResolvedValueOnce({ ...parentTask, projectId: 'project-1' })
+        .mockResolvedValueOnce(null) // no siblings yet
+      mockPrisma.task.create.mockResolvedValue({ id: 'child', tags: [] })
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.createSubtask({
+        parentId: 'parent',
+        data: { title: 'Child' },
+      })
+
+      expect(mockPrisma.task.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            projectId: 'project-1',
+            parentId: 'parent',
+          }),
+        })
+      )
+    })
+
+    it('should scope the list to a project', async () => {
+      mockPrisma.task.findMany.mockResolvedValue([])
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.list({ projectId: 'project-1' })
+
+      expect(mockPrisma.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: 'test-user-id',
+            deletedAt: null,
+            AND: [{ projectId: 'project-1' }, hideDeferred],
+          },
+        })
+      )
+    })
+  })
+
+  describe('getCounts', () => {
+    it("should count tasks due on the user's today across a DST change", async () => {
+      vi.useFakeTimers()
+      // Clocks go back in New York that night, so the day has 25 hours
+      vi.setSystemTime(new Date('2026-11-01T15:00:00Z'))
+      mockPrisma.user.findUnique.mockResolvedValue({
+        timezone: 'America/New_York',
+      })
+      mockPrisma.task.count.mockResolvedValue(0)
+      mockPrisma.task.groupBy.mockResolvedValue([])
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.getCounts()
+      vi.useRealTimers()
+
+      expect(mockPrisma.task.count.mock.calls[1][0].where.dueDate).toEqual({
+        gte: new Date('2026-11-01T04:00:00Z'),
+        lt: new Date('2026-11-02T05:00:00Z'),
+      })
+    })
+  })
+
+  describe('defer', () => {
+    it('should list only deferred tasks when asked', async () => {
+      mockPrisma.task.findMany.mockResolvedValue([])
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.list({ deferred: 'only' })
+
+      expect(mockPrisma.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: 'test-user-id',
+            deletedAt: null,
+            AND: [{ status: 'ACTIVE', deferUntil: { gt: expect.any(Date) } }],
+          },
+        })
+      )
+    })
+
+    it('should leave deferred tasks out of the counts', async () => {
+      mockPrisma.task.count.mockResolvedValue(2)
+      mockPrisma.task.groupBy.mockResolvedValue([])
+
+      const caller = taskRouter.createCaller(mockContext)
+      const counts = await caller.getCounts()
+
+      expect(counts).toMatchObject({ totalActive: 2, scheduled: 2 })
+      expect(mockPrisma.task.count).toHaveBeenNthCalledWith(1, {
+        where: {
+          userId: 'test-user-id',
+          deletedAt: null,
+          status: 'ACTIVE',
+          AND: [hideDeferred],
+        },
+      })
+      expect(mockPrisma.task.count).toHaveBeenNthCalledWith(5, {
+        where: {
+          userId: 'test-user-id',
+          deletedAt: null,
+          AND: [{ status: 'ACTIVE', deferUntil: { gt: expect.any(Date) } }],
+        },
+      })
+    })
+
+    it('should snooze a task and record when it comes back', async () => {
+      const until = new Date('2026-10-26T09:00:00Z')
+      mockPrisma.task.findFirst.mockResolvedValue({
+        ...parentTask,
+        deferUntil: null,
+      })
+      mockPrisma.task.update.mockResolvedValue({
+        ...parentTask,
+        deferUntil: until,
+      })
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.snooze({ id: 'parent', until })
+
+      expect(mockPrisma.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'parent' },
+          data: { deferUntil: until },
+        })
+      )
+      expect(mockPrisma.taskActivity.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            taskId: 'parent',
+            action: 'SNOOZED',
+            changes: [
+              {
+                field: 'deferUntil',
+                from: null,
+                to: '2026-10-26T09:00:00.000Z',
+              },
+            ],
+            userId: 'test-user-id',
+          },
+        ],
+      })
+    })
+
+    it('should not snooze tasks that are already done', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue({
+        ...parentTask,
+        status: 'COMPLETED',
+      })
+
+      const caller = taskRouter.createCaller(mockContext)
+
+      await expect(
+        caller.snooze({ id: 'parent', until: new Date() })
+      ).rejects.toMatchObject({ code: 'PRECONDITION_FAILED' })
+      expect(mockPrisma.task.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('reparent', () => {
+    it('should reject moving a task under its own subtask', async () => {
+      mockPrisma.task.findFirst
+        .mockResolvedValueOnce(parentTask) // task being moved
+        .mockResolvedValueOnce({ id: 'child', parentId: 'parent' }) // new parent
+        .mockResolvedValueOnce({ parentId: 'parent' }) // child's parent
+        .mockResolvedValueOnce({ parentId: null }) // parent's parent
+
+      const caller = taskRouter.createCaller(mockContext)
+
+      await expect(
+        caller.reparent({ id: 'parent', parentId: 'child' })
+      ).rejects.toThrow('A task cannot be moved under its own subtask')
+      expect(mockPrisma.task.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('trash', () => {
+    it('should move a task and its open subtasks to the trash', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue({ id: 'parent' })
+      mockPrisma.task.findMany
+        .mockResolvedValueOnce([{ id: 'child', status: 'ACTIVE' }])
+        .mockResolvedValueOnce([{ id: 'grandchild', status: 'COMPLETED' }])
+        .mockResolvedValueOnce([])
+
+      const caller = taskRouter.createCaller(mockContext)
+      const result = await caller.delete({ id: 'parent' })
+
+      expect(mockPrisma.task.findMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'test-user-id',
+          parentId: { in: ['parent'] },
+          deletedAt: null,
+        },
+        select: { id: true, status: true },
+      })
+      expect(mockPrisma.task.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: { in: ['parent', 'child', 'grandchild'] },
+          userId: 'test-user-id',
+        },
+        data: { deletedAt: result.deletedAt },
+      })
+      expect(result).toEqual({ id: 'parent', deletedAt: expect.any(Date) })
+    })
+
+    it('should not trash a task twice', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue(null)
+
+      const caller = taskRouter.createCaller(mockContext)
+
+      await expect(caller.delete({ id: 'parent' })).rejects.toThrow(
+        'Task not found'
+      )
+      expect(mockPrisma.task.findFirst).toHaveBeenCalledWith({
+        where: { id: 'parent', userId: 'test-user-id', deletedAt: null },
+        select: { id: true },
+      })
+      expect(mockPrisma.task.updateMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('move', () => {
+    it('should only rewrite the moved task', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue({ id: 'moved' })
+      mockPrisma.task.findMany.mockResolvedValue([
+        { id: 'above', order: 2 },
+        { id: 'below', order: 3 },
+      ])
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.move({ id: 'moved', beforeId: 'above', afterId: 'below' })
+
+      expect(mockPrisma.task.findMany).toHaveBeenCalledWith({
+        where: {
+          id: { in: ['above', 'below'] },
+          userId: 'test-user-id',
+          deletedAt: null,
+        },
+        select: { id: true, order: true },
+      })
+      expect(mockPrisma.task.update).toHaveBeenCalledTimes(1)
+      expect(mockPrisma.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'moved' },
+          data: { order: 2.5 },
+        })
+      )
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should move to the top of the list', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue({ id: 'moved' })
+      mockPrisma.task.findMany.mockResolvedValue([{ id: 'first', order: 1 }])
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.move({ id: 'moved', beforeId: null, afterId: 'first' })
+
+      expect(mockPrisma.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { order: 0 } })
+      )
+    })
+
+    it('should renumber the list when the neighbours have no room', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue({ id: 'moved' })
+      mockPrisma.task.findMany
+        .mockResolvedValueOnce([
+          { id: 'above', order: 1 },
+          { id: 'below', order: 1 },
+        ])
+        .mockResolvedValueOnce([
+          { id: 'top' },
+          { id: 'above' },
+          { id: 'below' },
+        ])
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.move({ id: 'moved', beforeId: 'above', afterId: 'below' })
+
+      expect(mockPrisma.$transaction).toHaveBeenCalled()
+      expect(mockPrisma.task.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: 'test-user-id',
+            id: { not: 'moved' },
+            deletedAt: null,
+          },
+        })
+      )
+      // One statement for the whole list
+      expect(mockPrisma.task.update).not.toHaveBeenCalled()
+      expect(mockPrisma.$executeRaw).toHaveBeenCalledTimes(1)
+      const [strings, ...values] = mockPrisma.$executeRaw.mock.calls[0]
+      expect(Prisma.sql(strings, ...values).values).toEqual([
+        'top',
+        1,
+        'above',
+        2,
+        'moved',
+        3,
+        'below',
+        4,
+        'test-user-id',
+      ])
+    })
+
+    it("should reject neighbours that aren't the user's", async () => {
+      mockPrisma.task.findFirst.mockResolvedValue({ id: 'moved' })
+      mockPrisma.task.findMany.mockResolvedValue([])
+
+      const caller = taskRouter.createCaller(mockContext)
+
+      await expect(
+        caller.move({ id: 'moved', beforeId: 'someone-elses', afterId: null })
+      ).rejects.toThrow('Task not found')
+      expect(mockPrisma.task.update).not.toHaveBeenCalled()
+    })
+
+    it('should place a subtask between the siblings at its new index', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue({
+        ...parentTask,
+        id: 'child-3',
+        parentId: 'parent',
+      })
+      mockPrisma.task.findMany
+        .mockResolvedValueOnce([{ id: 'child-1' }, { id: 'child-2' }])
+        .mockResolvedValueOnce([
+          { id: 'child-1', order: 4 },
+          { id: 'child-2', order: 5 },
+        ])
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.moveSubtask({ id: 'child-3', index: 1 })
+
+      expect(mockPrisma.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'child-3' },
+          data: { order: 4.5 },
+        })
+      )
+    })
+  })
+
+  describe('kanban columns', () => {
+    it('should move a task into a column without touching other fields', async () => {
+      mockPrisma.kanbanColumn.findFirst.mockResolvedValue({ id: 'col-1' })
+      mockPrisma.task.findFirst.mockResolvedValue({ ...parentTask, tags: [] })
+      mockPrisma.task.update.mockResolvedValue({
+        ...parentTask,
+        kanbanColumnId: 'col-1',
+        tags: [],
+      })
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.update({ id: 'parent', data: { kanbanColumnId: 'col-1' } })
+
+      expect(mockPrisma.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { kanbanColumnId: 'col-1' } })
+      )
+    })
+
+    it("should reject another user's column", async () => {
+      mockPrisma.kanbanColumn.findFirst.mockResolvedValue(null)
+      mockPrisma.task.findFirst.mockResolvedValue({ ...parentTask, tags: [] })
+
+      const caller = taskRouter.createCaller(mockContext)
+
+      await expect(
+        caller.update({ id: 'parent', data: { kanbanColumnId: 'foreign' } })
+      ).rejects.toThrow('Column not found')
+      expect(mockPrisma.kanbanColumn.findFirst).toHaveBeenCalledWith({
+        where: { id: 'foreign', userId: 'test-user-id' },
+        select: { id: true },
+      })
+      expect(mockPrisma.task.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('instantiateTemplate', () => {
+    const template = {
+      id: 'template-1',
+      userId: 'test-user-id',
+      name: 'Onboarding',
+      items: [
+        {
+          title: 'Welcome {{name}}',
+          priority: 'HIGH',
+          dueOffsetDays: 0,
+          tagIds: ['tag-work', 'tag-deleted'],
+          parentIndex: null,
+        },
+        {
+          title: 'Order a laptop',
+          description: 'For {{name}}',
+          priority: 'MEDIUM',
+          dueOffsetDays: 3,
+          tagIds: [],
+          parentIndex: 0,
+        },
+      ],
+    }
+
+    beforeEach(() => {
+      mockPrisma.taskTemplate.findFirst.mockResolvedValue(template)
+      mockPrisma.tag.findMany.mockResolvedValue([{ id: 'tag-work' }])
+      mockPrisma.task.findFirst.mockResolvedValue({ order: 4 })
+      let created = 0
+      mockPrisma.task.create.mockImplementation(({ data }) =>
+        Promise.resolve({ ...data, id: `task-${++created}`, tags: [] })
+      )
+    })
+
+    it('should create every task in one transaction', async () => {
+      const caller = taskRouter.createCaller(mockContext)
+      const tasks = await caller.instantiateTemplate({
+        templateId: 'template-1',
+        variables: { name: 'Ada' },
+        startDate: new Date(2026, 9, 19),
+      })
+
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1)
+      expect(tasks).toHaveLength(2)
+      expect(mockPrisma.task.create).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({
+          data: expect.objectContaining({
+            title: 'Welcome Ada',
+            priority: 'HIGH',
+            dueDate: new Date(2026, 9, 19),
+            parentId: null,
+            order: 5,
+            // The deleted tag is left out
+            tags: { connect: [{ id: 'tag-work' }] },
+          }),
+        })
+      )
+      expect(mockPrisma.task.create).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          data: expect.objectContaining({
+            title: 'Order a laptop',
+            description: 'For Ada',
+            dueDate: new Date(2026, 9, 22),
+            parentId: 'task-1',
+            order: 6,
+          }),
+        })
+      )
+      expect(mockPrisma.taskActivity.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ taskId: 'task-1', action: 'CREATED' }),
+          expect.objectContaining({ taskId: 'task-2', action: 'CREATED' }),
+        ],
+      })
+    })
+
+    it('should reject missing variables before creating anything', async () => {
+      const caller = taskRouter.createCaller(mockContext)
+
+      await expect(
+        caller.instantiateTemplate({
+          templateId: 'template-1',
+          startDate: new Date(2026, 9, 19),
+        })
+      ).rejects.toThrow('Enter a value for {{name}}')
+      expect(mockPrisma.task.create).not.toHaveBeenCalled()
+    })
+
+    it("should not use another user's template", async () => {
+      mockPrisma.taskTemplate.findFirst.mockResolvedValue(null)
+
+      const caller = taskRouter.createCaller(mockContext)
+
+      await expect(
+        caller.instantiateTemplate({
+          templateId: 'foreign',
+          variables: { name: 'Ada' },
+          startDate: new Date(2026, 9, 19),
+        })
+      ).rejects.toThrow('Template not found')
+      expect(mockPrisma.taskTemplate.findFirst).toHaveBeenCalledWith({
+        where: { id: 'foreign', userId: 'test-user-id' },
+      })
+    })
+  })
+
+  describe('calendar', () => {
+    const personal = { id: 'calendar-1', color: '#3b82f6' }
+
+    it('should show tasks due at midnight as all-day items', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        timezone: 'America/New_York',
+      })
+      mockPrisma.task.findMany.mockResolvedValue([
+        { id: 'task-1', dueDate: new Date('2026-10-20T04:00:00Z') },
+        { id: 'task-2', dueDate: new Date('2026-10-20T13:00:00Z') },
+      ])
+
+      const caller = taskRouter.createCaller(mockContext)
+      const tasks = await caller.getByDueDateRange({
+        start: new Date('2026-10-19T00:00:00Z'),
+        end: new Date('2026-10-26T00:00:00Z'),
+      })
+
+      expect(mockPrisma.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: 'test-user-id',
+            deletedAt: null,
+            status: 'ACTIVE',
+            dueDate: {
+              gte: new Date('2026-10-19T00:00:00Z'),
+              lte: new Date('2026-10-26T00:00:00Z'),
+            },
+          },
+        })
+      )
+      expect(tasks).toMatchObject([
+        {
+          id: 'task-1',
+          startsAt: new Date('2026-10-20T00:00:00Z'),
+          endsAt: new Date('2026-10-21T00:00:00Z'),
+          allDay: true,
+        },
+        {
+          id: 'task-2',
+          startsAt: new Date('2026-10-20T13:00:00Z'),
+          endsAt: new Date('2026-10-20T13:30:00Z'),
+          allDay: false,
+        },
+      ])
+    })
+
+    it('should list tasks with no due date and no live event', async () => {
+      mockPrisma.task.findMany.mockResolvedValue([])
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.getUnscheduled()
+
+      expect(mockPrisma.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: 'test-user-id',
+            deletedAt: null,
+            status: 'ACTIVE',
+            dueDate: null,
+            AND: [
+              hideDeferred,
+              {
+                OR: [
+                  { calendarEventId: null },
+                  { calendarEvent: { deletedAt: { not: null } } },
+                ],
+              },
+            ],
+          },
+        })
+      )
+    })
+
+    it('should link an event as long as the estimate to a dropped task', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue({
+        ...parentTask,
+        estimateMinutes: 45,
+        calendarEventId: null,
+        calendarEvent: null,
+      })
+      mockPrisma.calendar.findFirst.mockResolvedValue(personal)
+      mockPrisma.calendarEvent.create.mockResolvedValue({ id: 'event-1' })
+      mockPrisma.task.update.mockResolvedValue({
+        ...parentTask,
+        calendarEventId: 'event-1',
+      })
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.scheduleOnCalendar({
+        id: 'parent',
+        start: new Date('2026-10-20T09:00:00Z'),
+        allDay: false,
+      })
+
+      expect(mockPrisma.calendarEvent.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'test-user-id',
+          title: 'Parent',
+          startsAt: new Date('2026-10-20T09:00:00Z'),
+          endsAt: new Date('2026-10-20T09:45:00Z'),
+          allDay: false,
+          color: '#3b82f6',
+          calendarId: 'calendar-1',
+        },
+      })
+      expect(mockPrisma.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'parent' },
+          data: { calendarEventId: 'event-1' },
+        })
+      )
+    })
+
+    it('should not link a second event to a task', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue({
+        ...parentTask,
+        calendarEventId: 'event-1',
+        calendarEvent: { id: 'event-1', deletedAt: null },
+      })
+
+      const caller = taskRouter.createCaller(mockContext)
+
+      await expect(
+        caller.scheduleOnCalendar({
+          id: 'parent',
+          start: new Date('2026-10-20T09:00:00Z'),
+          allDay: false,
+        })
+      ).rejects.toThrow('Task is already on the calendar')
+      expect(mockPrisma.calendarEvent.create).not.toHaveBeenCalled()
+    })
+
+    it('should set the due date instead when the user prefers it', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        timezone: 'America/New_York',
+        calendarTaskDrop: 'DUE_DATE',
+      })
+      mockPrisma.task.findFirst.mockResolvedValue({
+        ...parentTask,
+        dueDate: null,
+        calendarEvent: null,
+      })
+      mockPrisma.task.update.mockResolvedValue({
+        ...parentTask,
+        dueDate: new Date('2026-10-20T04:00:00Z'),
+      })
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.scheduleOnCalendar({
+        id: 'parent',
+        start: new Date('2026-10-20T00:00:00Z'),
+        allDay: true,
+      })
+
+      expect(mockPrisma.calendarEvent.create).not.toHaveBeenCalled()
+      expect(mockPrisma.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'parent' },
+          data: { dueDate: new Date('2026-10-20T04:00:00Z') },
+        })
+      )
+      expect(mockPrisma.taskActivity.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ taskId: 'parent', action: 'UPDATED' }),
+        ],
+      })
+    })
+
+    it("should move a task dragged to a day to midnight in the user's zone", async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        timezone: 'America/New_York',
+      })
+      mockPrisma.task.findFirst.mockResolvedValue({
+        ...parentTask,
+        dueDate: new Date('2026-10-20T04:00:00Z'),
+      })
+      mockPrisma.task.update.mockResolvedValue({
+        ...parentTask,
+        dueDate: new Date('2026-10-22T04:00:00Z'),
+      })
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.moveOnCalendar({
+        id: 'parent',
+        start: new Date('2026-10-22T00:00:00Z'),
+        allDay: true,
+      })
+
+      expect(mockPrisma.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'parent' },
+          data: { dueDate: new Date('2026-10-22T04:00:00Z') },
+        })
+      )
+    })
+
+    it('should keep the time of a task dragged to a slot', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue(parentTask)
+      mockPrisma.task.update.mockResolvedValue(parentTask)
+
+      const caller = taskRouter.createCaller(mockContext)
+      await caller.moveOnCalendar({
+        id: 'parent',
+        start: new Date('2026-10-22T15:30:00Z'),
+        allDay: false,
+      })
+
+      expect(mockPrisma.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { dueDate: new Date('2026-10-22T15:30:00Z') },
+        })
+      )
+    })
+  })
+})
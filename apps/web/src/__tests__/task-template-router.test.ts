@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { taskTemplateRouter } from '@/server/api/routers/task-template'
+
+// Mock Prisma client
+const mockPrisma = {
+  task: {
+    findMany: vi.fn(),
+  },
+  tag: {
+    findMany: vi.fn(),
+  },
+  taskTemplate: {
+    findMany: vi.fn(),
+    create: vi.fn(),
+    deleteMany: vi.fn(),
+  },
+}
+
+// Mock session
+const mockSession = {
+  user: {
+    id: 'test-user-id',
+    email: 'test@example.com',
+    name: 'Test User',
+  },
+  expires: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+}
+
+// Mock context
+const mockContext = {
+  session: mockSession,
+  req: undefined,
+  prisma: mockPrisma as any,
+}
+
+describe('Task Template Router', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.taskTemplate.create.mockImplementation(({ data }) =>
+      Promise.resolve({ id: 'template-1', ...data })
+    )
+  })
+
+  describe('list', () => {
+    it('should include the variables of each template', async () => {
+      mockPrisma.taskTemplate.findMany.mockResolvedValue([
+        {
+          id: 'template-1',
+          name: 'Onboarding',
+          items: [{ title: 'Laptop for {{name}}', parentIndex: null }],
+        },
+      ])
+
+      const caller = taskTemplateRouter.createCaller(mockContext)
+      const [template] = await caller.list()
+
+      expect(template.variables).toEqual(['name'])
+    })
+  })
+
+  describe('create', () => {
+    it('should reject a subtask listed before its parent', async () => {
+      const caller = taskTemplateRouter.createCaller(mockContext)
+
+      await expect(
+        caller.create({
+          name: 'Broken',
+          items: [{ title: 'Child', parentIndex: 0 }],
+        })
+      ).rejects.toThrow('A subtask must come after its parent')
+      expect(mockPrisma.taskTemplate.create).not.toHaveBeenCalled()
+    })
+
+    it('should fill in defaults for each item', async () => {
+      const caller = taskTemplateRouter.createCaller(mockContext)
+      const template = await caller.create({
+        name: 'Release',
+        items: [{ title: 'Tag {{version}}' }],
+      })
+
+      expect(template.items).toEqual([
+        {
+          title: 'Tag {{version}}',
+          priority: 'MEDIUM',
+          dueOffsetDays: null,
+          tagIds: [],
+          parentIndex: null,
+        },
+      ])
+    })
+  })
+
+  describe('createFromTasks', () => {
+    it('should save the tasks along with their subtasks', async () => {
+      mockPrisma.task.findMany
+        // The selected tasks
+        .mockResolvedValueOnce([
+          {
+            id: 'parent',
+            title: 'Ship {{version}}',
+            priority: 'HIGH',
+            dueDate: new Date(2026, 9, 20),
+            parentId: null,
+            tags: [],
+          },
+        ])
+        // Subtask ids, one level at a time
+        .mockResolvedValueOnce([{ id: 'child', status: 'ACTIVE' }])
+        .mockResolvedValueOnce([])
+        // The subtasks themselves
+        .mockResolvedValueOnce([
+          {
+            id: 'child',
+            title: 'Write notes',
+            priority: 'MEDIUM',
+            dueDate: new Date(2026, 9, 22),
+            parentId: 'parent',
+            tags: [{ id: 'tag-1' }],
+          },
+        ])
+
+      const caller = taskTemplateRouter.createCaller(mockContext)
+      const template = await caller.createFromTasks({
+        name: 'Release',
+        taskIds: ['parent'],
+      })
+
+      expect(template.items).toEqual([
+        expect.objectContaining({
+          title: 'Ship {{version}}',
+          dueOffsetDays: 0,
+          parentIndex: null,
+        }),
+        expect.objectContaining({
+          title: 'Write notes',
+          dueOffsetDays: 2,
+          tagIds: ['tag-1'],
+          parentIndex: 0,
+        }),
+      ])
+      expect(template.variables).toEqual(['version'])
+    })
+
+    it("should not save another user's tasks", async () => {
+      mockPrisma.task.findMany.mockResolvedValueOnce([])
+
+      const caller = taskTemplateRouter.createCaller(mockContext)
+
+      await expect(
+        caller.createFromTasks({ name: 'Stolen', taskIds: ['foreign'] })
+      ).rejects.toThrow('Task not found')
+      expect(mockPrisma.taskTemplate.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('delete', () => {
+    it('should throw when the template does not exist', async () => {
+      mockPrisma.taskTemplate.deleteMany.mockResolvedValue({ count: 0 })
+
+      const caller = taskTemplateRouter.createCaller(mockContext)
+
+      await expect(caller.delete({ id: 'missing' })).rejects.toThrow(
+        'Template not found'
+      )
+    })
+  })
+})
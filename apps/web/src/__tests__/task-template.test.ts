@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest'
+import {
+  fillTemplateText,
+  getTemplateDueDate,
+  getTemplateVariables,
+  TaskTemplateError,
+  toTemplateItems,
+} from '@/lib/task-template'
+
+describe('getTemplateVariables', () => {
+  it('should list each variable once in order of first use', () => {
+    expect(
+      getTemplateVariables([
+        { title: 'Order a laptop for {{name}}' },
+        {
+          title: 'Add {{ name }} to {{team}}',
+          description: 'Ask {{manager}} first',
+        },
+      ])
+    ).toEqual(['name', 'team', 'manager'])
+  })
+
+  it('should ignore braces that are not a variable', () => {
+    expect(getTemplateVariables([{ title: 'Fix {{}} and {{1st}}' }])).toEqual(
+      []
+    )
+  })
+})
+
+describe('fillTemplateText', () => {
+  it('should replace every variable with its trimmed value', () => {
+    expect(
+      fillTemplateText('Release {{version}} ({{ version }})', {
+        version: ' 2.1 ',
+      })
+    ).toBe('Release 2.1 (2.1)')
+  })
+
+  it('should throw when a variable has no value', () => {
+    expect(() => fillTemplateText('Welcome {{name}}', { name: '  ' })).toThrow(
+      TaskTemplateError
+    )
+    expect(() => fillTemplateText('Welcome {{name}}', {})).toThrow(
+      'Enter a value for {{name}}'
+    )
+  })
+})
+
+describe('getTemplateDueDate', () => {
+  it('should count days from the start date', () => {
+    expect(getTemplateDueDate(new Date(2026, 9, 19), 3)).toEqual(
+      new Date(2026, 9, 22)
+    )
+    expect(getTemplateDueDate(new Date(2026, 9, 19), null)).toBeNull()
+  })
+})
+
+describe('toTemplateItems', () => {
+  it('should make due dates relative to the earliest one', () => {
+    const items = toTemplateItems([
+      {
+        id: 'b',
+        title: 'Announce',
+        priority: 'LOW',
+        dueDate: new Date(2026, 9, 24, 17),
+      },
+      {
+        id: 'a',
+        title: 'Tag release',
+        priority: 'HIGH',
+        dueDate: new Date(2026, 9, 20, 9),
+        tags: [{ id: 'tag-1' }],
+      },
+      { id: 'c', title: 'Celebrate', priority: 'MEDIUM' },
+    ])
+
+    expect(items).toEqual([
+      {
+        title: 'Announce',
+        description: null,
+        priority: 'LOW',
+        dueOffsetDays: 4,
+        tagIds: [],
+        estimateMinutes: null,
+        parentIndex: null,
+      },
+      {
+        title: 'Tag release',
+        description: null,
+        priority: 'HIGH',
+        dueOffsetDays: 0,
+        tagIds: ['tag-1'],
+        estimateMinutes: null,
+        parentIndex: null,
+      },
+      {
+        title: 'Celebrate',
+        description: null,
+        priority: 'MEDIUM',
+        dueOffsetDays: null,
+        tagIds: [],
+        estimateMinutes: null,
+        parentIndex: null,
+      },
+    ])
+  })
+
+  it('should put subtasks right after their parent', () => {
+    const items = toTemplateItems([
+      { id: 'child', title: 'Child', priority: 'MEDIUM', parentId: 'parent' },
+      { id: 'other', title: 'Other', priority: 'MEDIUM' },
+      { id: 'parent', title: 'Parent', priority: 'MEDIUM' },
+      {
+        id: 'orphan',
+        title: 'Orphan',
+        priority: 'MEDIUM',
+        parentId: 'not-included',
+      },
+    ])
+
+    expect(
+      items.map((item) => [item.title, item.parentIndex] as const)
+    ).toEqual([
+      ['Other', null],
+      ['Parent', null],
+      ['Child', 1],
+      ['Orphan', null],
+    ])
+  })
+})
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildTaskTree,
+  summarizeSubtasks,
+  getSubtaskPercentage,
+} from '@/lib/task-tree'
+
+describe('Task Tree Utilities', () => {
+  describe('buildTaskTree', () => {
+    it('should separate roots from children', () => {
+      const tasks = [
+        { id: '1', parentId: null },
+        { id: '2', parentId: '1' },
+        { id: '3', parentId: null },
+        { id: '4', parentId: '1' },
+      ]
+
+      const { roots, childrenByParent } = buildTaskTree(tasks)
+
+      expect(roots.map((t) => t.id)).toEqual(['1', '3'])
+      expect(childrenByParent.get('1')?.map((t) => t.id)).toEqual(['2', '4'])
+      expect(childrenByParent.has('3')).toBe(false)
+    })
+
+    it('should support nested subtasks', () => {
+      const tasks = [
+        { id: '1', parentId: null },
+        { id: '2', parentId: '1' },
+        { id: '3', parentId: '2' },
+      ]
+
+      const { roots, childrenByParent } = buildTaskTree(tasks)
+
+      expect(roots.map((t) => t.id)).toEqual(['1'])
+      expect(childrenByParent.get('2')?.map((t) => t.id)).toEqual(['3'])
+    })
+
+    it('should treat tasks with a missing parent as roots', () => {
+      const tasks = [
+        { id: '2', parentId: 'not-in-list' },
+        { id: '3', parentId: '2' },
+      ]
+
+      const { roots, childrenByParent } = buildTaskTree(tasks)
+
+      expect(roots.map((t) => t.id)).toEqual(['2'])
+      expect(childrenByParent.get('2')?.map((t) => t.id)).toEqual(['3'])
+    })
+  })
+
+  describe('summarizeSubtasks', () => {
+    it('should total completed and open subtasks per parent', () => {
+      const progress = summarizeSubtasks([
+        { parentId: 'a', status: 'ACTIVE', _count: { _all: 2 } },
+        { parentId: 'a', status: 'COMPLETED', _count: { _all: 3 } },
+        { parentId: 'b', status: 'ACTIVE', _count: { _all: 1 } },
+      ])
+
+      expect(progress.get('a')).toEqual({ total: 5, completed: 3 })
+      expect(progress.get('b')).toEqual({ total: 1, completed: 0 })
+    })
+
+    it('should ignore archived subtasks and rows without a parent', () => {
+      const progress = summarizeSubtasks([
+        { parentId: 'a', status: 'ARCHIVED', _count: { _all: 4 } },
+        { parentId: null, status: 'ACTIVE', _count: { _all: 7 } },
+      ])
+
+      expect(progress.size).toBe(0)
+    })
+  })
+
+  describe('getSubtaskPercentage', () => {
+    it('should return 0 when there are no subtasks', () => {
+      expect(getSubtaskPercentage({ total: 0, completed: 0 })).toBe(0)
+    })
+
+    it('should round to the nearest percent', () => {
+      expect(getSubtaskPercentage({ total: 3, completed: 1 })).toBe(33)
+      expect(getSubtaskPercentage({ total: 4, completed: 4 })).toBe(100)
+    })
+  })
+})
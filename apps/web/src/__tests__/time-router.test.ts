@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { timeRouter } from '@/server/api/routers/time'
+
+// Mock Prisma client
+const mockPrisma = {
+  timeEntry: {
+    aggregate: vi.fn(),
+    findMany: vi.fn(),
+    create: vi.fn(),
+  },
+  tag: {
+    findFirst: vi.fn(),
+    create: vi.fn(),
+  },
+  distractionPreference: {
+    findUnique: vi.fn(),
+  },
+  user: {
+    findUnique: vi.fn(),
+  },
+  $queryRaw: vi.fn(),
+}
+
+// Mock session
+const mockSession = {
+  user: {
+    id: 'test-user-id',
+    email: 'test@example.com',
+    name: 'Test User',
+  },
+  expires: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+}
+
+// Mock context
+const mockContext = {
+  session: mockSession,
+  req: undefined,
+  prisma: mockPrisma as any,
+}
+
+describe('Time Router', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers()
+    mockPrisma.user.findUnique.mockResolvedValue({
+      timezone: 'America/New_York',
+    })
+    mockPrisma.timeEntry.aggregate.mockResolvedValue({
+      _count: { id: 0 },
+      _sum: { duration: 0 },
+      _avg: { duration: 0 },
+    })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('getSummary', () => {
+    it("should bucket entries by the user's calendar day", async () => {
+      mockPrisma.timeEntry.findMany.mockResolvedValue([
+        // 22:00 on the 18th in New York, already the 19th in UTC
+        { start: new Date('2026-10-19T02:00:00Z'), duration: 1800 },
+        { start: new Date('2026-10-19T14:00:00Z'), duration: 3600 },
+      ])
+
+      const caller = timeRouter.createCaller(mockContext)
+      const summary = await caller.getSummary({
+        range: {
+          from: '2026-10-18T04:00:00.000Z',
+          to: '2026-10-20T04:00:00.000Z',
+        },
+      })
+
+      expect(summary.dailyBreakdown).toEqual([
+        { day: '2026-10-18', totalMinutes: 30, sessionCount: 1 },
+        { day: '2026-10-19', totalMinutes: 60, sessionCount: 1 },
+      ])
+    })
+
+    it('should keep the repeated hour in one day when clocks go back', async () => {
+      mockPrisma.timeEntry.findMany.mockResolvedValue([
+        // 01:30 before and after New York's clocks go back
+        { start: new Date('2026-11-01T05:30:00Z'), duration: 600 },
+        { start: new Date('2026-11-01T06:30:00Z'), duration: 600 },
+        // 23:30 the same evening
+        { start: new Date('2026-11-02T04:30:00Z'), duration: 600 },
+      ])
+
+      const caller = timeRouter.createCaller(mockContext)
+      const summary = await caller.getSummary({
+        range: {
+          from: '2026-11-01T04:00:00.000Z',
+          to: '2026-11-02T05:00:00.000Z',
+        },
+      })
+
+      expect(summary.dailyBreakdown).toEqual([
+        { day: '2026-11-01', totalMinutes: 30, sessionCount: 3 },
+      ])
+    })
+  })
+
+  describe('getTodayTotal', () => {
+    it("should total the user's today on a 23 hour day", async () => {
+      vi.setSystemTime(new Date('2026-03-08T15:00:00Z'))
+
+      const caller = timeRouter.createCaller(mockContext)
+      await caller.getTodayTotal()
+
+      expect(mockPrisma.timeEntry.aggregate).toHaveBeenCalledWith({
+        _sum: { duration: true },
+        where: {
+          userId: 'test-user-id',
+          start: {
+            gte: new Date('2026-03-08T05:00:00Z'),
+            lt: new Date('2026-03-09T04:00:00Z'),
+          },
+        },
+      })
+    })
+  })
+
+  describe('getStreak', () => {
+    it("should count streak days in the user's timezone", async () => {
+      // Evening of the 18th in New York
+      vi.setSystemTime(new Date('2026-10-19T02:00:00Z'))
+      mockPrisma.$queryRaw
+        .mockResolvedValueOnce([{ current_streak: BigInt(3) }])
+        .mockResolvedValueOnce([{ max_streak: BigInt(5) }])
+      mockPrisma.distractionPreference.findUnique.mockResolvedValue({
+        targetName: 'Phone',
+      })
+
+      const caller = timeRouter.createCaller(mockContext)
+      const streak = await caller.getStreak()
+
+      expect(streak).toEqual({
+        currentStreak: 3,
+        bestStreak: 5,
+        targetName: 'Phone',
+      })
+      const [, ...currentValues] = mockPrisma.$queryRaw.mock.calls[0]
+      expect(currentValues).toContain('America/New_York')
+      expect(currentValues).toContain('2026-10-18')
+      const [, ...bestValues] = mockPrisma.$queryRaw.mock.calls[1]
+      expect(bestValues).toContain('America/New_York')
+    })
+  })
+
+  describe('stopTimer', () => {
+    it("should file the timer's label as a tag", async () => {
+      mockPrisma.tag.findFirst.mockResolvedValue({ id: 'tag-reading' })
+      mockPrisma.timeEntry.create.mockResolvedValue({ id: 'entry-1' })
+
+      const caller = timeRouter.createCaller(mockContext)
+      await caller.stopTimer({
+        start: new Date('2026-10-19T09:00:00Z'),
+        end: new Date('2026-10-19T09:30:00Z'),
+        label: ' reading ',
+      })
+
+      expect(mockPrisma.tag.findFirst).toHaveBeenCalledWith({
+        where: {
+          userId: 'test-user-id',
+          name: { equals: 'reading', mode: 'insensitive' },
+        },
+      })
+      expect(mockPrisma.tag.create).not.toHaveBeenCalled()
+      const { data } = mockPrisma.timeEntry.create.mock.calls[0][0]
+      expect(data.tags).toEqual({ connect: { id: 'tag-reading' } })
+      expect(data).not.toHaveProperty('label')
+    })
+  })
+})
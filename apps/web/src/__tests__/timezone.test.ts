@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getDayRangeInZone,
+  getZonedDateKey,
+  isValidTimeZone,
+  startOfDayInZone,
+} from '@/lib/timezone'
+
+const hoursIn = ({ start, end }: { start: Date; end: Date }) =>
+  (end.getTime() - start.getTime()) / (60 * 60 * 1000)
+
+describe('isValidTimeZone', () => {
+  it('should accept IANA names and reject anything else', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true)
+    expect(isValidTimeZone('UTC')).toBe(true)
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false)
+    expect(isValidTimeZone('')).toBe(false)
+  })
+})
+
+describe('getZonedDateKey', () => {
+  it("should return the day on the zone's calendar", () => {
+    const moment = new Date('2026-10-19T23:30:00Z')
+
+    expect(getZonedDateKey(moment, 'UTC')).toBe('2026-10-19')
+    expect(getZonedDateKey(moment, 'Pacific/Auckland')).toBe('2026-10-20')
+    expect(
+      getZonedDateKey(new Date('2026-10-19T03:00:00Z'), 'America/Los_Angeles')
+    ).toBe('2026-10-18')
+  })
+
+  it('should keep both runs of the repeated hour on the same day', () => {
+    // 01:30 happens twice in New York on November 1st
+    expect(
+      getZonedDateKey(new Date('2026-11-01T05:30:00Z'), 'America/New_York')
+    ).toBe('2026-11-01')
+    expect(
+      getZonedDateKey(new Date('2026-11-01T06:30:00Z'), 'America/New_York')
+    ).toBe('2026-11-01')
+  })
+})
+
+describe('startOfDayInZone', () => {
+  it('should use the offset in force at midnight', () => {
+    // Midnight is still summer time in Berlin on the day clocks go back
+    expect(
+      startOfDayInZone(new Date('2026-10-25T12:00:00Z'), 'Europe/Berlin')
+    ).toEqual(new Date('2026-10-24T22:00:00Z'))
+    expect(
+      startOfDayInZone(new Date('2026-10-19T12:00:00Z'), 'Asia/Kolkata')
+    ).toEqual(new Date('2026-10-18T18:30:00Z'))
+  })
+
+  it('should start the day at 01:00 where clocks skip midnight', () => {
+    // Chile moves from 00:00 straight to 01:00 on September 6th
+    expect(
+      startOfDayInZone(new Date('2026-09-06T18:00:00Z'), 'America/Santiago')
+    ).toEqual(new Date('2026-09-06T04:00:00Z'))
+  })
+})
+
+describe('getDayRangeInZone', () => {
+  it('should span 24 hours on an ordinary day', () => {
+    const range = getDayRangeInZone(
+      new Date('2026-10-19T12:00:00Z'),
+      'America/New_York'
+    )
+
+    expect(range).toEqual({
+      start: new Date('2026-10-19T04:00:00Z'),
+      end: new Date('2026-10-20T04:00:00Z'),
+    })
+  })
+
+  it('should span 23 hours when clocks go forward', () => {
+    const newYork = getDayRangeInZone(
+      new Date('2026-03-08T15:00:00Z'),
+      'America/New_York'
+    )
+    const berlin = getDayRangeInZone(
+      new Date('2026-03-29T12:00:00Z'),
+      'Europe/Berlin'
+    )
+
+    expect(newYork.start).toEqual(new Date('2026-03-08T05:00:00Z'))
+    expect(hoursIn(newYork)).toBe(23)
+    expect(berlin.start).toEqual(new Date('2026-03-28T23:00:00Z'))
+    expect(hoursIn(berlin)).toBe(23)
+  })
+
+  it('should span 25 hours when clocks go back', () => {
+    const range = getDayRangeInZone(
+      new Date('2026-11-01T15:00:00Z'),
+      'America/New_York'
+    )
+
+    expect(range).toEqual({
+      start: new Date('2026-11-01T04:00:00Z'),
+      end: new Date('2026-11-02T05:00:00Z'),
+    })
+    expect(hoursIn(range)).toBe(25)
+  })
+
+  it('should end where the next day starts', () => {
+    const moment = new Date('2026-03-07T23:00:00Z')
+    const today = getDayRangeInZone(moment, 'America/New_York')
+    const tomorrow = getDayRangeInZone(today.end, 'America/New_York')
+
+    expect(tomorrow.start).toEqual(today.end)
+    expect(getZonedDateKey(tomorrow.start, 'America/New_York')).toBe(
+      '2026-03-08'
+    )
+  })
+})
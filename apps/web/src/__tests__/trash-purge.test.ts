@@ -0,0 +1,30 @@
+import { describe, it, expect, vi } from 'vitest'
+import { purgeExpiredTrash } from '@/server/trash/purge'
+
+describe('purgeExpiredTrash', () => {
+  it('should delete items trashed longer ago than the retention period', async () => {
+    const deleteMany = (count: number) => vi.fn().mockResolvedValue({ count })
+    const prisma = {
+      task: { deleteMany: deleteMany(2) },
+      note: { deleteMany: deleteMany(1) },
+      calendarEvent: { deleteMany: deleteMany(0) },
+      board: { deleteMany: deleteMany(3) },
+      $transaction: vi.fn((operations: Promise<unknown>[]) =>
+        Promise.all(operations)
+      ),
+    }
+
+    const result = await purgeExpiredTrash(
+      prisma as any,
+      new Date(2026, 9, 19, 12),
+      30
+    )
+
+    expect(result).toEqual({ tasks: 2, notes: 1, events: 0, boards: 3 })
+    const where = { deletedAt: { lte: new Date(2026, 8, 19, 12) } }
+    expect(prisma.task.deleteMany).toHaveBeenCalledWith({ where })
+    expect(prisma.note.deleteMany).toHaveBeenCalledWith({ where })
+    expect(prisma.calendarEvent.deleteMany).toHaveBeenCalledWith({ where })
+    expect(prisma.board.deleteMany).toHaveBeenCalledWith({ where })
+  })
+})
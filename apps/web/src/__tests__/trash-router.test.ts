@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { trashRouter } from '@/server/api/routers/trash'
+
+// Mock Prisma client
+const mockPrisma = {
+  task: {
+    findMany: vi.fn(),
+    findFirst: vi.fn(),
+    updateMany: vi.fn(),
+    deleteMany: vi.fn(),
+  },
+  note: {
+    findMany: vi.fn(),
+    updateMany: vi.fn(),
+    deleteMany: vi.fn(),
+  },
+  calendarEvent: {
+    findMany: vi.fn(),
+    findFirst: vi.fn(),
+    updateMany: vi.fn(),
+    deleteMany: vi.fn(),
+  },
+  board: {
+    findMany: vi.fn(),
+    updateMany: vi.fn(),
+    deleteMany: vi.fn(),
+  },
+  $transaction: vi.fn(),
+}
+
+// Mock session
+const mockSession = {
+  user: {
+    id: 'test-user-id',
+    email: 'test@example.com',
+    name: 'Test User',
+  },
+  expires: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+}
+
+// Mock context
+const mockContext = {
+  session: mockSession,
+  req: undefined,
+  prisma: mockPrisma as any,
+}
+
+const trashed = { userId: 'test-user-id', deletedAt: { not: null } }
+
+describe('Trash Router', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.unstubAllEnvs()
+    mockPrisma.task.findMany.mockResolvedValue([])
+    mockPrisma.note.findMany.mockResolvedValue([])
+    mockPrisma.calendarEvent.findMany.mockResolvedValue([])
+    mockPrisma.board.findMany.mockResolvedValue([])
+  })
+
+  describe('list', () => {
+    it('should list every type newest first with its purge date', async () => {
+      vi.stubEnv('TRASH_RETENTION_DAYS', '7')
+      mockPrisma.task.findMany.mockResolvedValue([
+        { id: 'task-1', title: 'Task', deletedAt: new Date(2026, 9, 17) },
+      ])
+      mockPrisma.note.findMany.mockResolvedValue([
+        { id: 'note-1', title: 'Note', deletedAt: new Date(2026, 9, 19) },
+      ])
+      mockPrisma.board.findMany.mockResolvedValue([
+        { id: 'board-1', name: 'Board', deletedAt: new Date(2026, 9, 18) },
+      ])
+
+      const caller = trashRouter.createCaller(mockContext)
+      const result = await caller.list()
+
+      expect(result.retentionDays).toBe(7)
+      expect(result.items).toEqual([
+        {
+          type: 'note',
+          id: 'note-1',
+          title: 'Note',
+          deletedAt: new Date(2026, 9, 19),
+          purgeAt: new Date(2026, 9, 26),
+        },
+        {
+          type: 'board',
+          id: 'board-1',
+          title: 'Board',
+          deletedAt: new Date(2026, 9, 18),
+          purgeAt: new Date(2026, 9, 25),
+        },
+        {
+          type: 'task',
+          id: 'task-1',
+          title: 'Task',
+          deletedAt: new Date(2026, 9, 17),
+          purgeAt: new Date(2026, 9, 24),
+        },
+      ])
+    })
+
+    it('should leave out subtasks that were deleted with their parent', async () => {
+      const deletedAt = new Date(2026, 9, 18)
+      mockPrisma.task.findMany.mockResolvedValue([
+        { id: 'parent', title: 'Parent', deletedAt, parent: null },
+        {
+          id: 'with-parent',
+          title: 'Deleted with it',
+          deletedAt,
+          parent: { deletedAt },
+        },
+        {
+          id: 'on-its-own',
+          title: 'Deleted before it',
+          deletedAt: new Date(2026, 9, 17),
+          parent: { deletedAt },
+        },
+      ])
+      mockPrisma.calendarEvent.findMany.mockResolvedValue([
+        {
+          id: 'occurrence',
+          title: 'Edited standup',
+          deletedAt,
+          recurringEvent: { deletedAt },
+        },
+      ])
+
+      const caller = trashRouter.createCaller(mockContext)
+      const result = await caller.list()
+
+      expect(result.items.map((item) => item.id)).toEqual([
+        'parent',
+        'on-its-own',
+      ])
+    })
+  })
+
+  describe('restore', () => {
+    it('should bring back the subtasks deleted along with a task', async () => {
+      const deletedAt = new Date(2026, 9, 19, 10)
+      mockPrisma.task.findFirst.mockResolvedValue({ id: 'parent', deletedAt })
+      mockPrisma.task.findMany
+        .mockResolvedValueOnce([{ id: 'child', status: 'ACTIVE' }])
+        .mockResolvedValueOnce([])
+
+      const caller = trashRouter.createCaller(mockContext)
+      await caller.restore({ type: 'task', id: 'parent' })
+
+      // Subtasks trashed on their own earlier have another deletion time
+      expect(mockPrisma.task.findMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'test-user-id',
+          parentId: { in: ['parent'] },
+          deletedAt,
+        },
+        select: { id: true, status: true },
+      })
+      expect(mockPrisma.task.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['parent', 'child'] }, userId: 'test-user-id' },
+        data: { deletedAt: null },
+      })
+    })
+
+    it('should restore a note', async () => {
+      mockPrisma.note.updateMany.mockResolvedValue({ count: 1 })
+
+      const caller = trashRouter.createCaller(mockContext)
+      await caller.restore({ type: 'note', id: 'note-1' })
+
+      expect(mockPrisma.note.updateMany).toHaveBeenCalledWith({
+        where: { id: 'note-1', ...trashed },
+        data: { deletedAt: null },
+      })
+    })
+
+    it('should bring back the occurrences deleted along with a series', async () => {
+      const deletedAt = new Date(2026, 9, 19, 10)
+      mockPrisma.calendarEvent.findFirst.mockResolvedValue({
+        id: 'series',
+        deletedAt,
+      })
+
+      const caller = trashRouter.createCaller(mockContext)
+      await caller.restore({ type: 'event', id: 'series' })
+
+      expect(mockPrisma.calendarEvent.updateMany).toHaveBeenCalledWith({
+        where: {
+          OR: [{ id: 'series' }, { recurringEventId: 'series', deletedAt }],
+          userId: 'test-user-id',
+        },
+        data: { deletedAt: null },
+      })
+    })
+
+    it("should reject items that aren't in the trash", async () => {
+      mockPrisma.calendarEvent.findFirst.mockResolvedValue(null)
+
+      const caller = trashRouter.createCaller(mockContext)
+
+      await expect(
+        caller.restore({ type: 'event', id: 'event-1' })
+      ).rejects.toThrow('Event not found')
+    })
+  })
+
+  describe('purge', () => {
+    it('should only permanently delete trashed items', async () => {
+      mockPrisma.board.deleteMany.mockResolvedValue({ count: 1 })
+
+      const caller = trashRouter.createCaller(mockContext)
+      await caller.purge({ type: 'board', id: 'board-1' })
+
+      expect(mockPrisma.board.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'board-1', ...trashed },
+      })
+    })
+
+    it('should reject items that are not in the trash', async () => {
+      mockPrisma.task.deleteMany.mockResolvedValue({ count: 0 })
+
+      const caller = trashRouter.createCaller(mockContext)
+
+      await expect(
+        caller.purge({ type: 'task', id: 'task-1' })
+      ).rejects.toThrow('Item not found in trash')
+    })
+  })
+})
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  getPurgeDate,
+  parseRetentionDays,
+} from '@/lib/trash'
+
+describe('parseRetentionDays', () => {
+  it('should read a whole number of days', () => {
+    expect(parseRetentionDays('7')).toBe(7)
+  })
+
+  it('should fall back to the default for missing or invalid values', () => {
+    expect(parseRetentionDays(undefined)).toBe(DEFAULT_TRASH_RETENTION_DAYS)
+    expect(parseRetentionDays('')).toBe(DEFAULT_TRASH_RETENTION_DAYS)
+    expect(parseRetentionDays('0')).toBe(DEFAULT_TRASH_RETENTION_DAYS)
+    expect(parseRetentionDays('-3')).toBe(DEFAULT_TRASH_RETENTION_DAYS)
+    expect(parseRetentionDays('1.5')).toBe(DEFAULT_TRASH_RETENTION_DAYS)
+    expect(parseRetentionDays('soon')).toBe(DEFAULT_TRASH_RETENTION_DAYS)
+  })
+})
+
+describe('getPurgeDate', () => {
+  it('should add the retention period to the deletion time', () => {
+    expect(getPurgeDate(new Date(2026, 9, 19, 14, 30), 30)).toEqual(
+      new Date(2026, 10, 18, 14, 30)
+    )
+  })
+})
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { userRouter } from '@/server/api/routers/user'
+
+// Mock Prisma client
+const mockPrisma = {
+  user: {
+    findUnique: vi.fn(),
+    update: vi.fn(),
+  },
+  reminder: {
+    findMany: vi.fn(),
+    update: vi.fn(),
+  },
+  $transaction: vi.fn((callback) => callback(mockPrisma)),
+}
+
+// Mock session
+const mockSession = {
+  user: {
+    id: 'test-user-id',
+    email: 'test@example.com',
+    name: 'Test User',
+  },
+  expires: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+}
+
+// Mock context
+const mockContext = {
+  session: mockSession,
+  req: undefined,
+  prisma: mockPrisma as any,
+}
+
+describe('User Router', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-10-19T12:00:00Z'))
+    mockPrisma.user.update.mockResolvedValue({ timezone: 'Asia/Tokyo' })
+    mockPrisma.user.findUnique.mockResolvedValue({ timezone: 'Asia/Tokyo' })
+    mockPrisma.reminder.findMany.mockResolvedValue([])
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('updateSettings', () => {
+    it('should move pending morning reminders to the new timezone', async () => {
+      mockPrisma.reminder.findMany.mockResolvedValue([
+        {
+          id: 'task-reminder',
+          kind: 'MORNING_OF',
+          offsetMinutes: null,
+          remindAt: null,
+          // 9am in New York, where the user was
+          fireAt: new Date('2026-10-21T13:00:00Z'),
+          task: { dueDate: new Date('2026-10-21T06:00:00Z') },
+          calendarEvent: null,
+        },
+        {
+          id: 'event-reminder',
+          kind: 'MORNING_OF',
+          offsetMinutes: null,
+          remindAt: null,
+          fireAt: new Date('2026-10-22T13:00:00Z'),
+          task: null,
+          calendarEvent: {
+            startsAt: new Date('2026-10-22T02:00:00Z'),
+            endsAt: new Date('2026-10-22T03:00:00Z'),
+            allDay: false,
+            recurrenceRule: null,
+            excludedDates: [],
+            overrides: [],
+          },
+        },
+      ])
+
+      const caller = userRouter.createCaller(mockContext)
+      await caller.updateSettings({ timezone: 'Asia/Tokyo' })
+
+      expect(mockPrisma.reminder.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: 'test-user-id',
+            kind: 'MORNING_OF',
+            fireAt: { not: null },
+          },
+        })
+      )
+      // 9am in Tokyo on the days the task and event fall on there
+      expect(mockPrisma.reminder.update).toHaveBeenCalledWith({
+        where: { id: 'task-reminder' },
+        data: { fireAt: new Date('2026-10-21T00:00:00Z') },
+      })
+      expect(mockPrisma.reminder.update).toHaveBeenCalledWith({
+        where: { id: 'event-reminder' },
+        data: { fireAt: new Date('2026-10-22T00:00:00Z') },
+      })
+    })
+
+    it('should leave reminders alone when the timezone is not changed', async () => {
+      const caller = userRouter.createCaller(mockContext)
+      await caller.updateSettings({ calendarTaskDrop: 'DUE_DATE' })
+
+      expect(mockPrisma.reminder.findMany).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -21,9 +21,16 @@ const mockTask: Task = {
   dueDate: new Date('2024-01-15'),
   priority: 'MEDIUM',
   status: 'ACTIVE',
-  label: null,
   order: 1,
   calendarEventId: null,
+  parentId: null,
+  recurrenceRule: null,
+  recurrenceIndex: 0,
+  estimateMinutes: null,
+  projectId: null,
+  deferUntil: null,
+  deletedAt: null,
+  kanbanColumnId: null,
   createdAt: new Date(),
   updatedAt: new Date(),
   userId: 'user1',
@@ -44,6 +51,15 @@ const mockEvent: CalendarEvent = {
   allDay: false,
   color: '#3b82f6',
   location: 'Test Location',
+  deletedAt: null,
+  recurrenceRule: null,
+  excludedDates: [],
+  recurringEventId: null,
+  originalStartsAt: null,
+  icalUid: null,
+  timeBlock: false,
+  locked: false,
+  calendarId: 'calendar1',
   createdAt: new Date(),
   updatedAt: new Date(),
   userId: 'user1',
@@ -12,6 +12,8 @@ import { Textarea } from '@/components/ui/textarea'
 import { Label } from '@/components/ui/label'
 import { Card } from '@/components/ui/card'
 import { trpc } from '@/lib/trpc'
+import { useProjectStore } from '@/lib/stores/project-store'
+import { ProjectSelect } from '@/components/projects/project-select'
 import { toast } from 'sonner'
 import Link from 'next/link'
 
@@ -44,6 +46,9 @@ const themeColors = [
 export default function NewBoardPage() {
   const router = useRouter()
   const [selectedTheme, setSelectedTheme] = useState(themeColors[0].value)
+  const [projectId, setProjectId] = useState(
+    useProjectStore.getState().activeProjectId
+  )
   const utils = trpc.useUtils()
 
   const createMutation = trpc.board.create.useMutation({
@@ -73,6 +78,7 @@ export default function NewBoardPage() {
         description: data.description || undefined,
         deadline: data.deadline ? new Date(data.deadline) : undefined,
         theme: selectedTheme,
+        projectId,
       })
 
       // Board created successfully
@@ -169,6 +175,16 @@ export default function NewBoardPage() {
               </p>
             </div>
 
+            {/* Project */}
+            <div>
+              <Label className="text-base font-medium">Project</Label>
+              <ProjectSelect
+                value={projectId}
+                onChange={setProjectId}
+                className="mt-2"
+              />
+            </div>
+
             {/* Theme Color */}
             <div>
               <Label className="flex items-center gap-2 text-base font-medium">
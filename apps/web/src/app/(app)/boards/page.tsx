@@ -17,6 +17,7 @@ import { Input } from '@/components/ui/input'
 import { Card } from '@/components/ui/card'
 import { trpc } from '@/lib/trpc'
 import { cn } from '@/lib/utils'
+import { useTrashUndo } from '@/lib/hooks/use-trash-undo'
 import { toast } from 'sonner'
 
 export default function BoardsPage() {
@@ -24,10 +25,12 @@ export default function BoardsPage() {
 
   const utils = trpc.useUtils()
   const { data: boards, isLoading, refetch } = trpc.board.list.useQuery()
+  const showTrashUndo = useTrashUndo()
   const deleteMutation = trpc.board.delete.useMutation({
-    onSuccess: () => {
+    onSuccess: (deleted) => {
       // Automatically invalidate the boards list
       utils.board.list.invalidate()
+      showTrashUndo('board', deleted.id)
     },
   })
 
@@ -37,21 +40,15 @@ export default function BoardsPage() {
       board.description?.toLowerCase().includes(searchQuery.toLowerCase())
   )
 
-  const handleDelete = async (boardId: string, boardName: string) => {
-    if (
-      window.confirm(
-        `Are you sure you want to delete "${boardName}"? This action cannot be undone and will remove all items and connections.`
-      )
-    ) {
-      try {
-        await deleteMutation.mutateAsync({ id: boardId })
-        // Board deleted successfully
-        // Refetch is automatically handled by the mutation, but we can call it explicitly for safety
-        refetch()
-      } catch (error) {
-        console.error('Failed to delete board:', error)
-        toast.error('Failed to delete board')
-      }
+  const handleDelete = async (boardId: string) => {
+    try {
+      await deleteMutation.mutateAsync({ id: boardId })
+      // Board deleted successfully
+      // Refetch is automatically handled by the mutation, but we can call it explicitly for safety
+      refetch()
+    } catch (error) {
+      console.error('Failed to delete board:', error)
+      toast.error('Failed to delete board')
     }
   }
 
@@ -170,7 +167,7 @@ export default function BoardsPage() {
                     </Link>
 
                     <button
-                      onClick={() => handleDelete(board.id, board.name)}
+                      onClick={() => handleDelete(board.id)}
                       className="flex w-full items-center gap-2 px-4 py-2 text-left text-sm text-red-600 hover:bg-gray-50"
                     >
                       <Trash2 className="h-4 w-4" />
@@ -4,23 +4,60 @@
 export const dynamic = 'force-dynamic'
 
 import { useState } from 'react'
-import { Calendar } from '@/components/calendar/calendar'
+import { toast } from 'sonner'
+import { trpc } from '@/lib/trpc'
+import type { CalendarSummary } from '@/lib/calendars'
+import {
+  Calendar,
+  type DraggedTask,
+  type EventSelection,
+} from '@/components/calendar/calendar'
+import { CalendarList } from '@/components/calendar/calendar-list'
 import { EventFormModal } from '@/components/calendar/event-form-modal'
+import { IcsImportDialog } from '@/components/calendar/ics-import-dialog'
+import { PlanDayDialog } from '@/components/calendar/plan-day-dialog'
+import { UnscheduledTasksPanel } from '@/components/calendar/unscheduled-tasks-panel'
 import { Button } from '@/components/ui/button'
-import { Plus } from 'lucide-react'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { CalendarClock, Download, Plus, Upload } from 'lucide-react'
+
+// Saves text as a file through a temporary download link
+function downloadFile(content: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
 
 export default function CalendarPage() {
   const [isEventModalOpen, setIsEventModalOpen] = useState(false)
   const [selectedDate, setSelectedDate] = useState<Date | null>(null)
-  const [selectedEvent, setSelectedEvent] = useState<string | null>(null)
+  const [selectedEvent, setSelectedEvent] = useState<EventSelection | null>(
+    null
+  )
+  const [isImportOpen, setIsImportOpen] = useState(false)
+  const [isPlanOpen, setIsPlanOpen] = useState(false)
+  const [visibleRange, setVisibleRange] = useState<{
+    start: Date
+    end: Date
+  } | null>(null)
+  const [draggedTask, setDraggedTask] = useState<DraggedTask | null>(null)
+  const utils = trpc.useUtils()
 
   const handleDateSelect = (date: Date) => {
     setSelectedDate(date)
     setIsEventModalOpen(true)
   }
 
-  const handleEventSelect = (eventId: string) => {
-    setSelectedEvent(eventId)
+  const handleEventSelect = (event: EventSelection) => {
+    setSelectedEvent(event)
     setIsEventModalOpen(true)
   }
 
@@ -30,6 +67,29 @@ export default function CalendarPage() {
     setSelectedEvent(null)
   }
 
+  const handleExport = async (
+    range?: { start: Date; end: Date },
+    calendar?: CalendarSummary
+  ) => {
+    try {
+      const content = await utils.event.exportIcs.fetch(
+        { ...range, calendarId: calendar?.id },
+        { staleTime: 0 }
+      )
+      const name = calendar
+        ? `mindline-${calendar.name
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/^-|-$/g, '')}`
+        : 'mindline-calendar'
+      downloadFile(content, `${name}.ics`, 'text/calendar')
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to export events'
+      )
+    }
+  }
+
   return (
     <div className="flex h-full flex-col">
       <div className="bg-background flex items-center justify-between border-b px-6 py-4">
@@ -39,25 +99,79 @@ export default function CalendarPage() {
             Manage your events and schedule
           </p>
         </div>
-        <Button onClick={() => setIsEventModalOpen(true)} className="gap-2">
-          <Plus className="h-4 w-4" />
-          Add Event
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setIsPlanOpen(true)}
+            className="gap-2"
+          >
+            <CalendarClock className="h-4 w-4" />
+            Plan my day
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setIsImportOpen(true)}
+            className="gap-2"
+          >
+            <Upload className="h-4 w-4" />
+            Import
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" className="gap-2">
+                <Download className="h-4 w-4" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem
+                disabled={!visibleRange}
+                onClick={() => visibleRange && handleExport(visibleRange)}
+              >
+                Events in this view
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport()}>
+                All events
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button onClick={() => setIsEventModalOpen(true)} className="gap-2">
+            <Plus className="h-4 w-4" />
+            Add Event
+          </Button>
+        </div>
       </div>
 
-      <div className="flex-1 p-6">
-        <Calendar
-          onDateSelect={handleDateSelect}
-          onEventSelect={handleEventSelect}
-        />
+      <div className="flex flex-1 gap-6 p-6">
+        <div className="w-56 shrink-0 space-y-6">
+          <CalendarList
+            onExport={(calendar) => handleExport(undefined, calendar)}
+          />
+          <UnscheduledTasksPanel
+            onDragStart={setDraggedTask}
+            onDragEnd={() => setDraggedTask(null)}
+          />
+        </div>
+        <div className="min-w-0 flex-1">
+          <Calendar
+            onDateSelect={handleDateSelect}
+            onEventSelect={handleEventSelect}
+            onRangeChange={setVisibleRange}
+            draggedTask={draggedTask}
+          />
+        </div>
       </div>
 
       <EventFormModal
         open={isEventModalOpen}
         onClose={handleCloseModal}
         selectedDate={selectedDate}
-        eventId={selectedEvent}
+        eventId={selectedEvent?.id}
+        occurrenceStart={selectedEvent?.occurrenceStart}
       />
+
+      <IcsImportDialog open={isImportOpen} onOpenChange={setIsImportOpen} />
+      <PlanDayDialog open={isPlanOpen} onOpenChange={setIsPlanOpen} />
     </div>
   )
 }
@@ -109,7 +109,7 @@ export function DashboardClient() {
       await createNoteMutation.mutateAsync({
         title: 'Untitled Note',
         content: { type: 'doc', content: [{ type: 'paragraph' }] },
-        tags: [],
+        tagIds: [],
       })
     } catch (error) {
       console.error('Failed to create note:', error)
@@ -186,6 +186,11 @@ export function DashboardClient() {
                 ? `${taskCounts.dueToday} due today`
                 : 'No tasks due today'}
             </p>
+            {!!taskCounts?.scheduled && (
+              <p className="text-muted-foreground text-xs">
+                {taskCounts.scheduled} scheduled for later
+              </p>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -14,10 +14,11 @@ import {
 import { trpc } from '@/lib/trpc'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
-import { Badge } from '@/components/ui/badge'
 import { NoteEditor } from '@/components/notes/note-editor'
 import { NoteRevisionHistory } from '@/components/notes/note-revision-history'
 import { NoteTagsManager } from '@/components/notes/note-tags-manager'
+import { TagBadge } from '@/components/tags/tag-picker'
+import { ProjectSelect } from '@/components/projects/project-select'
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -26,7 +27,9 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
 import { useDebounce } from '@/lib/hooks/use-debounce'
+import { useTrashUndo } from '@/lib/hooks/use-trash-undo'
 import { formatDistanceToNow } from 'date-fns'
+import { toast } from 'sonner'
 
 interface NoteEditorPageProps {
   params: Promise<{
@@ -39,7 +42,8 @@ export default function NoteEditorPage({ params }: NoteEditorPageProps) {
   const router = useRouter()
   const [title, setTitle] = useState('')
   const [content, setContent] = useState<any>(null)
-  const [tags, setTags] = useState<string[]>([])
+  const [tagIds, setTagIds] = useState<string[]>([])
+  const [projectId, setProjectId] = useState<string | null>(null)
   const [isSaving, setIsSaving] = useState(false)
   const [lastSaved, setLastSaved] = useState<Date | null>(null)
   const [showRevisions, setShowRevisions] = useState(false)
@@ -48,12 +52,12 @@ export default function NoteEditorPage({ params }: NoteEditorPageProps) {
   const lastSavedValues = useRef<{
     title: string
     content: any
-    tags: string[]
+    tagIds: string[]
   } | null>(null)
 
   const debouncedTitle = useDebounce(title, 1500)
   const debouncedContent = useDebounce(content, 1500)
-  const debouncedTags = useDebounce(tags, 1500)
+  const debouncedTagIds = useDebounce(tagIds, 1500)
 
   // Get note data
   const {
@@ -62,6 +66,7 @@ export default function NoteEditorPage({ params }: NoteEditorPageProps) {
     error,
     refetch,
   } = trpc.note.get.useQuery({ id: resolvedParams.id })
+  const { data: allTags = [] } = trpc.tag.list.useQuery()
 
   // Update note mutation
   const updateNoteMutation = trpc.note.update.useMutation({
@@ -70,7 +75,7 @@ export default function NoteEditorPage({ params }: NoteEditorPageProps) {
       lastSavedValues.current = {
         title: debouncedTitle,
         content: debouncedContent,
-        tags: debouncedTags,
+        tagIds: debouncedTagIds,
       }
       setLastSaved(new Date())
       setIsSaving(false)
@@ -80,9 +85,33 @@ export default function NoteEditorPage({ params }: NoteEditorPageProps) {
     },
   })
 
+  // Moving between projects saves right away instead of waiting for autosave
+  const moveNoteMutation = trpc.note.update.useMutation({
+    onError: (error, variables) => {
+      toast.error(error.message || 'Failed to move note')
+      if (note && variables.data.projectId !== undefined) {
+        setProjectId(note.project?.id ?? null)
+      }
+    },
+  })
+
+  const handleProjectChange = (nextProjectId: string | null) => {
+    if (!note) return
+    setProjectId(nextProjectId)
+    moveNoteMutation.mutate({
+      id: note.id,
+      data: { projectId: nextProjectId },
+    })
+  }
+
+  const showTrashUndo = useTrashUndo()
+
   // Delete note mutation
   const deleteNoteMutation = trpc.note.delete.useMutation({
-    onSuccess: () => {
+    onSuccess: (deleted) => {
+      showTrashUndo('note', deleted.id, () =>
+        router.push(`/notes/${deleted.id}`)
+      )
       router.push('/notes')
     },
   })
@@ -92,13 +121,8 @@ export default function NoteEditorPage({ params }: NoteEditorPageProps) {
     if (note) {
       setTitle(note.title)
       setContent(note.content)
-      setTags(
-        Array.isArray(note.tags)
-          ? note.tags.filter(
-              (tag: any): tag is string => typeof tag === 'string'
-            )
-          : []
-      )
+      setTagIds(note.tags.map((tag) => tag.id))
+      setProjectId(note.project?.id ?? null)
       setLastSaved(new Date(note.updatedAt))
       isInitialLoad.current = true
       // Clear last saved values when loading a new note
@@ -116,7 +140,7 @@ export default function NoteEditorPage({ params }: NoteEditorPageProps) {
         data: {
           title: debouncedTitle,
           content: debouncedContent,
-          tags: debouncedTags,
+          tagIds: debouncedTagIds,
         },
       })
     } catch (error) {
@@ -128,7 +152,7 @@ export default function NoteEditorPage({ params }: NoteEditorPageProps) {
     updateNoteMutation,
     debouncedTitle,
     debouncedContent,
-    debouncedTags,
+    debouncedTagIds,
   ])
 
   // Auto-save when debounced values change
@@ -148,7 +172,7 @@ export default function NoteEditorPage({ params }: NoteEditorPageProps) {
         debouncedTitle === lastSaved.title &&
         JSON.stringify(debouncedContent) ===
           JSON.stringify(lastSaved.content) &&
-        JSON.stringify(debouncedTags) === JSON.stringify(lastSaved.tags)
+        JSON.stringify(debouncedTagIds) === JSON.stringify(lastSaved.tagIds)
 
       if (isSameAsLastSaved) {
         console.log('Skipping auto-save: values same as last saved')
@@ -156,17 +180,19 @@ export default function NoteEditorPage({ params }: NoteEditorPageProps) {
       }
     }
 
+    const savedTagIds = note.tags.map((tag) => tag.id)
     const hasChanges =
       debouncedTitle !== note.title ||
       JSON.stringify(debouncedContent) !== JSON.stringify(note.content) ||
-      JSON.stringify(debouncedTags) !== JSON.stringify(note.tags)
+      JSON.stringify(debouncedTagIds) !== JSON.stringify(savedTagIds)
 
     console.log('Auto-save check:', {
       hasChanges,
       titleChanged: debouncedTitle !== note.title,
       contentChanged:
         JSON.stringify(debouncedContent) !== JSON.stringify(note.content),
-      tagsChanged: JSON.stringify(debouncedTags) !== JSON.stringify(note.tags),
+      tagsChanged:
+        JSON.stringify(debouncedTagIds) !== JSON.stringify(savedTagIds),
     })
 
     if (hasChanges && debouncedTitle && debouncedContent) {
@@ -177,14 +203,14 @@ export default function NoteEditorPage({ params }: NoteEditorPageProps) {
         data: {
           title: debouncedTitle,
           content: debouncedContent,
-          tags: debouncedTags,
+          tagIds: debouncedTagIds,
         },
       })
     }
   }, [
     debouncedTitle,
     debouncedContent,
-    debouncedTags,
+    debouncedTagIds,
     note,
     isSaving,
     updateNoteMutation,
@@ -197,14 +223,14 @@ export default function NoteEditorPage({ params }: NoteEditorPageProps) {
         data: {
           title,
           content,
-          tags,
+          tagIds,
         },
       })
     }
-  }, [note, title, content, tags, updateNoteMutation])
+  }, [note, title, content, tagIds, updateNoteMutation])
 
   const handleDelete = () => {
-    if (note && window.confirm('Are you sure you want to delete this note?')) {
+    if (note) {
       deleteNoteMutation.mutate({ id: note.id })
     }
   }
@@ -335,14 +361,26 @@ export default function NoteEditorPage({ params }: NoteEditorPageProps) {
           className="placeholder:text-muted-foreground mb-3 border-none px-0 text-2xl font-bold focus-visible:ring-0"
         />
 
-        {/* Tags display */}
-        <div className="flex flex-wrap gap-2">
-          {tags.map((tag) => (
-            <Badge key={tag} variant="secondary">
-              {tag}
-            </Badge>
-          ))}
-          {tags.length === 0 && (
+        {/* Project and tags */}
+        <div className="flex flex-wrap items-center gap-2">
+          <ProjectSelect
+            value={projectId}
+            onChange={handleProjectChange}
+            className="h-8 w-44"
+          />
+          {tagIds.map((id) => {
+            const tag = allTags.find((candidate) => candidate.id === id)
+            return tag ? (
+              <button
+                key={id}
+                type="button"
+                onClick={() => setShowTagsManager(true)}
+              >
+                <TagBadge tag={tag} />
+              </button>
+            ) : null
+          })}
+          {tagIds.length === 0 && (
             <Button
               variant="ghost"
               size="sm"
@@ -381,8 +419,8 @@ export default function NoteEditorPage({ params }: NoteEditorPageProps) {
       {/* Tags Manager Modal */}
       {showTagsManager && (
         <NoteTagsManager
-          tags={tags}
-          onChange={setTags}
+          tagIds={tagIds}
+          onChange={setTagIds}
           open={showTagsManager}
           onOpenChange={setShowTagsManager}
         />
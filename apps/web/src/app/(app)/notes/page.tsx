@@ -2,13 +2,16 @@
 
 import React, { useState } from 'react'
 import { useRouter } from 'next/navigation'
-import { Search, Plus, Tag } from 'lucide-react'
+import { Search, Plus } from 'lucide-react'
 import { trpc } from '@/lib/trpc'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import { TagBadge } from '@/components/tags/tag-picker'
 import { useDebounce } from '@/lib/hooks/use-debounce'
+import { useProjectStore } from '@/lib/stores/project-store'
+import { ProjectScopeBadge } from '@/components/projects/project-scope-badge'
 import { formatDistanceToNow } from 'date-fns'
 
 export default function NotesPage() {
@@ -17,6 +20,7 @@ export default function NotesPage() {
   const [selectedTag, setSelectedTag] = useState<string>('')
 
   const debouncedSearch = useDebounce(searchQuery, 300)
+  const activeProjectId = useProjectStore((state) => state.activeProjectId)
 
   // Get notes with search and filtering
   const {
@@ -28,7 +32,8 @@ export default function NotesPage() {
   } = trpc.note.list.useInfiniteQuery(
     {
       query: debouncedSearch || undefined,
-      tag: selectedTag || undefined,
+      tagId: selectedTag || undefined,
+      projectId: activeProjectId ?? undefined,
       limit: 20,
     },
     {
@@ -37,7 +42,7 @@ export default function NotesPage() {
   )
 
   // Get available tags
-  const { data: tags = [] } = trpc.note.getTags.useQuery()
+  const { data: tags = [] } = trpc.tag.list.useQuery()
 
   // Create note mutation
   const createNoteMutation = trpc.note.create.useMutation({
@@ -51,7 +56,8 @@ export default function NotesPage() {
       await createNoteMutation.mutateAsync({
         title: 'Untitled Note',
         content: { type: 'doc', content: [{ type: 'paragraph' }] },
-        tags: [],
+        tagIds: [],
+        projectId: activeProjectId,
       })
     } catch (error) {
       console.error('Failed to create note:', error)
@@ -83,7 +89,10 @@ export default function NotesPage() {
       {/* Header */}
       <div className="flex items-center justify-between border-b p-6">
         <div>
-          <h1 className="text-3xl font-bold">Notes</h1>
+          <div className="flex items-center gap-3">
+            <h1 className="text-3xl font-bold">Notes</h1>
+            <ProjectScopeBadge />
+          </div>
           <p className="text-muted-foreground">
             Capture your thoughts and ideas
           </p>
@@ -122,32 +131,40 @@ export default function NotesPage() {
               >
                 All
               </Button>
-              {tags.slice(0, 5).map((tag: string) => (
+              {tags.slice(0, 5).map((tag) => (
                 <Button
-                  key={tag}
-                  variant={selectedTag === tag ? 'default' : 'outline'}
+                  key={tag.id}
+                  variant={selectedTag === tag.id ? 'default' : 'outline'}
                   size="sm"
-                  onClick={() => setSelectedTag(selectedTag === tag ? '' : tag)}
+                  onClick={() =>
+                    setSelectedTag(selectedTag === tag.id ? '' : tag.id)
+                  }
                   className="hidden sm:inline-flex"
                 >
-                  <Tag className="mr-1 h-3 w-3" />
-                  {tag}
+                  <span
+                    className="mr-1.5 h-2 w-2 rounded-full"
+                    style={{ backgroundColor: tag.color }}
+                  />
+                  {tag.name}
                 </Button>
               ))}
               {/* Mobile: Show tags in a horizontal scroll */}
               <div className="flex gap-2 overflow-x-auto sm:hidden">
-                {tags.map((tag: string) => (
+                {tags.map((tag) => (
                   <Button
-                    key={tag}
-                    variant={selectedTag === tag ? 'default' : 'outline'}
+                    key={tag.id}
+                    variant={selectedTag === tag.id ? 'default' : 'outline'}
                     size="sm"
                     onClick={() =>
-                      setSelectedTag(selectedTag === tag ? '' : tag)
+                      setSelectedTag(selectedTag === tag.id ? '' : tag.id)
                     }
                     className="flex-shrink-0"
                   >
-                    <Tag className="mr-1 h-3 w-3" />
-                    {tag}
+                    <span
+                      className="mr-1.5 h-2 w-2 rounded-full"
+                      style={{ backgroundColor: tag.color }}
+                    />
+                    {tag.name}
                   </Button>
                 ))}
               </div>
@@ -205,17 +222,22 @@ export default function NotesPage() {
                     </p>
                     <div className="flex items-center justify-between">
                       <div className="flex flex-wrap gap-1">
-                        {Array.isArray(note.tags) &&
-                          note.tags.slice(0, 2).map((tag: string) => (
-                            <Badge
-                              key={tag}
-                              variant="secondary"
-                              className="text-xs"
-                            >
-                              {tag}
-                            </Badge>
-                          ))}
-                        {Array.isArray(note.tags) && note.tags.length > 2 && (
+                        {note.tags
+                          .slice(0, 2)
+                          .map(
+                            (tag: {
+                              id: string
+                              name: string
+                              color: string
+                            }) => (
+                              <TagBadge
+                                key={tag.id}
+                                tag={tag}
+                                className="text-xs"
+                              />
+                            )
+                          )}
+                        {note.tags.length > 2 && (
                           <Badge variant="secondary" className="text-xs">
                             +{note.tags.length - 2}
                           </Badge>
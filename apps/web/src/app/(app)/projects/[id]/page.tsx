@@ -0,0 +1,347 @@
+'use client'
+
+import { use, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import {
+  CheckSquare,
+  Clock,
+  Crosshair,
+  FileText,
+  GitBranch,
+  MoreHorizontal,
+  Pencil,
+  Trash2,
+} from 'lucide-react'
+import {
+  endOfWeek,
+  format,
+  formatDistanceToNow,
+  isPast,
+  startOfWeek,
+} from 'date-fns'
+import { toast } from 'sonner'
+import { cn } from '@/lib/utils'
+import { trpc } from '@/lib/trpc'
+import { formatMinutes } from '@/lib/estimate-report'
+import { PROJECT_STATUS_LABELS } from '@/lib/projects'
+import { useProjectStore } from '@/lib/stores/project-store'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { TagBadge } from '@/components/tags/tag-picker'
+import { ProjectDialog } from '@/components/projects/project-dialog'
+
+interface ProjectPageProps {
+  params: Promise<{ id: string }>
+}
+
+export default function ProjectPage({ params }: ProjectPageProps) {
+  const { id } = use(params)
+  const router = useRouter()
+  const [isEditOpen, setIsEditOpen] = useState(false)
+  const activeProjectId = useProjectStore((state) => state.activeProjectId)
+  const setActiveProject = useProjectStore((state) => state.setActiveProject)
+
+  const utils = trpc.useUtils()
+
+  const today = new Date()
+  const { data, isLoading, error } = trpc.project.overview.useQuery({
+    id,
+    week: {
+      from: startOfWeek(today, { weekStartsOn: 1 }).toISOString(),
+      to: endOfWeek(today, { weekStartsOn: 1 }).toISOString(),
+    },
+  })
+
+  const deleteMutation = trpc.project.delete.useMutation({
+    onSuccess: () => {
+      utils.project.list.invalidate()
+      if (activeProjectId === id) {
+        setActiveProject(null)
+      }
+      router.push('/tasks')
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to delete project')
+    },
+  })
+
+  const handleDelete = () => {
+    if (
+      data &&
+      window.confirm(
+        `Delete "${data.project.name}"? Its tasks, notes, boards and time entries are kept without a project.`
+      )
+    ) {
+      deleteMutation.mutate({ id })
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <div className="text-muted-foreground">Loading project...</div>
+      </div>
+    )
+  }
+
+  if (error || !data) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <div className="text-center">
+          <p className="text-lg font-medium">Project not found</p>
+          <Link href="/tasks" className="text-sm text-blue-600">
+            Back to tasks
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  const { project, openTasks, notes, boards } = data
+  const isFocused = activeProjectId === project.id
+  const stats = [
+    { label: 'Open tasks', value: openTasks.length, icon: CheckSquare },
+    { label: 'Completed', value: data.completedTaskCount, icon: CheckSquare },
+    {
+      label: 'This week',
+      value: formatMinutes(Math.round(data.weekMinutes)),
+      icon: Clock,
+    },
+    {
+      label: 'Total time',
+      value: formatMinutes(Math.round(data.totalMinutes)),
+      icon: Clock,
+    },
+  ]
+
+  return (
+    <div className="space-y-6 p-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <div className="flex items-center gap-3">
+            <span
+              className="h-4 w-4 rounded-full"
+              style={{ backgroundColor: project.color }}
+            />
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+              {project.name}
+            </h1>
+            <Badge variant="secondary">
+              {PROJECT_STATUS_LABELS[project.status]}
+            </Badge>
+          </div>
+          {project.deadline && (
+            <p
+              className={cn(
+                'mt-2 text-sm',
+                isPast(new Date(project.deadline)) &&
+                  project.status !== 'COMPLETED'
+                  ? 'text-red-600'
+                  : 'text-gray-600 dark:text-gray-300'
+              )}
+            >
+              Due {format(new Date(project.deadline), 'MMM d, yyyy')}
+            </p>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button
+            variant={isFocused ? 'default' : 'outline'}
+            onClick={() => setActiveProject(isFocused ? null : project.id)}
+          >
+            <Crosshair className="mr-2 h-4 w-4" />
+            {isFocused ? 'Lists scoped here' : 'Scope lists to project'}
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="icon">
+                <MoreHorizontal className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => setIsEditOpen(true)}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Edit Project
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                onClick={handleDelete}
+                className="text-red-600 focus:text-red-600"
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete Project
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        {stats.map((stat) => (
+          <Card key={stat.label}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">
+                {stat.label}
+              </CardTitle>
+              <stat.icon className="text-muted-foreground h-4 w-4" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{stat.value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Open Tasks */}
+        <Card className="lg:row-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CheckSquare className="h-5 w-5" />
+              Open Tasks
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {openTasks.length === 0 ? (
+              <p className="text-muted-foreground py-4 text-center text-sm">
+                No open tasks in this project
+              </p>
+            ) : (
+              <ul className="divide-y">
+                {openTasks.map((task) => (
+                  <li
+                    key={task.id}
+                    className="flex items-center justify-between gap-3 py-2"
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate text-sm font-medium">
+                        {task.title}
+                      </p>
+                      {task.tags.length > 0 && (
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          {task.tags.map((tag) => (
+                            <TagBadge
+                              key={tag.id}
+                              tag={tag}
+                              className="px-2 py-0 text-xs"
+                            />
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    {task.dueDate && (
+                      <span
+                        className={cn(
+                          'flex-shrink-0 text-xs',
+                          isPast(new Date(task.dueDate))
+                            ? 'text-red-600'
+                            : 'text-muted-foreground'
+                        )}
+                      >
+                        {format(new Date(task.dueDate), 'MMM d')}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Notes */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5" />
+              Notes
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {notes.length === 0 ? (
+              <p className="text-muted-foreground py-4 text-center text-sm">
+                No notes linked to this project
+              </p>
+            ) : (
+              <ul className="divide-y">
+                {notes.map((note) => (
+                  <li key={note.id}>
+                    <Link
+                      href={`/notes/${note.id}`}
+                      className="hover:bg-muted/50 flex items-center justify-between gap-3 rounded py-2"
+                    >
+                      <span className="truncate text-sm font-medium">
+                        {note.title}
+                      </span>
+                      <span className="text-muted-foreground flex-shrink-0 text-xs">
+                        {formatDistanceToNow(new Date(note.updatedAt), {
+                          addSuffix: true,
+                        })}
+                      </span>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Boards */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <GitBranch className="h-5 w-5" />
+              Boards
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {boards.length === 0 ? (
+              <p className="text-muted-foreground py-4 text-center text-sm">
+                No boards linked to this project
+              </p>
+            ) : (
+              <ul className="divide-y">
+                {boards.map((board) => (
+                  <li key={board.id}>
+                    <Link
+                      href={`/boards/${board.id}`}
+                      className="hover:bg-muted/50 flex items-center justify-between gap-3 rounded py-2"
+                    >
+                      <span className="flex items-center gap-2 truncate text-sm font-medium">
+                        <span
+                          className="h-2 w-2 flex-shrink-0 rounded-full"
+                          style={{ backgroundColor: board.theme || '#3b82f6' }}
+                        />
+                        {board.name}
+                      </span>
+                      <span className="text-muted-foreground flex-shrink-0 text-xs">
+                        {board._count.items} items
+                      </span>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <ProjectDialog
+        open={isEditOpen}
+        onOpenChange={setIsEditOpen}
+        project={project}
+      />
+    </div>
+  )
+}
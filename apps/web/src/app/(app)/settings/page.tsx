@@ -0,0 +1,480 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import {
+  Briefcase,
+  CalendarPlus,
+  CalendarSync,
+  Copy,
+  Globe,
+} from 'lucide-react'
+import { toast } from 'sonner'
+import { trpc } from '@/lib/trpc'
+import { DEFAULT_TIME_ZONE } from '@/lib/timezone'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { cn } from '@/lib/utils'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+function formatTimeIn(timeZone: string) {
+  return new Intl.DateTimeFormat(undefined, {
+    timeZone,
+    weekday: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+  }).format(new Date())
+}
+
+const WEEKDAY_OPTIONS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' },
+]
+
+// Minutes after midnight as the HH:mm a time input uses
+function toTimeValue(minutes: number) {
+  const hours = Math.floor(minutes / 60) % 24
+  return `${String(hours).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+}
+
+function fromTimeValue(value: string) {
+  const [hours, minutes] = value.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+// When the user works, which free time lookups stay within
+function WorkingHoursCard() {
+  const utils = trpc.useUtils()
+  const { data: settings } = trpc.user.getSettings.useQuery()
+  const [start, setStart] = useState('09:00')
+  const [end, setEnd] = useState('17:00')
+  const [days, setDays] = useState<number[]>([])
+
+  useEffect(() => {
+    if (!settings) return
+    setStart(toTimeValue(settings.workingHoursStart))
+    setEnd(toTimeValue(settings.workingHoursEnd))
+    setDays(settings.workingDays)
+  }, [settings])
+
+  const updateMutation = trpc.user.updateSettings.useMutation({
+    onSuccess: (data) => {
+      utils.user.getSettings.setData(undefined, data)
+      utils.event.getFreeBusy.invalidate()
+      toast.success('Working hours saved')
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to save working hours')
+    },
+  })
+
+  if (!settings) {
+    return null
+  }
+
+  const toggleDay = (day: number) => {
+    setDays((current) =>
+      current.includes(day)
+        ? current.filter((value) => value !== day)
+        : [...current, day]
+    )
+  }
+
+  const handleSave = () => {
+    // A working day that ends at midnight ends at 24:00
+    const endMinutes = fromTimeValue(end) || 24 * 60
+    updateMutation.mutate({
+      workingHours: { start: fromTimeValue(start), end: endMinutes, days },
+    })
+  }
+
+  return (
+    <Card className="max-w-2xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Briefcase className="h-5 w-5" />
+          Working hours
+        </CardTitle>
+        <CardDescription>
+          Open time in your calendar is looked for within these hours.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="working-hours-start">From</Label>
+            <Input
+              id="working-hours-start"
+              type="time"
+              value={start}
+              onChange={(e) => setStart(e.target.value)}
+              className="w-32"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="working-hours-end">To</Label>
+            <Input
+              id="working-hours-end"
+              type="time"
+              value={end}
+              onChange={(e) => setEnd(e.target.value)}
+              className="w-32"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Working days</Label>
+          <div className="flex flex-wrap gap-1">
+            {WEEKDAY_OPTIONS.map((day) => (
+              <button
+                key={day.value}
+                type="button"
+                aria-pressed={days.includes(day.value)}
+                onClick={() => toggleDay(day.value)}
+                className={cn(
+                  'rounded-md border px-3 py-1 text-sm',
+                  days.includes(day.value)
+                    ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-950 dark:text-blue-300'
+                    : 'border-gray-200 text-gray-600 dark:border-gray-700 dark:text-gray-400'
+                )}
+              >
+                {day.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <Button
+          onClick={handleSave}
+          disabled={!start || !end || updateMutation.isPending}
+        >
+          Save
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
+
+// Lets calendar apps on other devices subscribe to the user's events
+function CalendarFeedCard() {
+  const utils = trpc.useUtils()
+  const { data: settings } = trpc.user.getSettings.useQuery()
+
+  const handleSuccess = (data: NonNullable<typeof settings>) => {
+    utils.user.getSettings.setData(undefined, data)
+  }
+  const handleError = (error: { message: string }) => {
+    toast.error(error.message || 'Failed to update the calendar feed')
+  }
+
+  const regenerateMutation = trpc.user.regenerateCalendarFeedToken.useMutation({
+    onSuccess: handleSuccess,
+    onError: handleError,
+  })
+  const revokeMutation = trpc.user.revokeCalendarFeedToken.useMutation({
+    onSuccess: handleSuccess,
+    onError: handleError,
+  })
+  const updateMutation = trpc.user.updateSettings.useMutation({
+    onSuccess: handleSuccess,
+    onError: handleError,
+  })
+  const isPending =
+    regenerateMutation.isPending ||
+    revokeMutation.isPending ||
+    updateMutation.isPending
+
+  if (!settings) {
+    return null
+  }
+
+  const feedUrl =
+    settings.calendarFeedToken &&
+    `${window.location.origin}/api/calendar/feed/${settings.calendarFeedToken}.ics`
+
+  const handleCopy = async () => {
+    if (!feedUrl) return
+    await navigator.clipboard.writeText(feedUrl)
+    toast.success('Feed URL copied')
+  }
+
+  const handleRegenerate = () => {
+    if (
+      window.confirm(
+        'Apps subscribed with the current URL will stop getting updates. Continue?'
+      )
+    ) {
+      regenerateMutation.mutate()
+    }
+  }
+
+  return (
+    <Card className="max-w-2xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarSync className="h-5 w-5" />
+          Calendar feed
+        </CardTitle>
+        <CardDescription>
+          Subscribe to this private URL in your phone&apos;s calendar app to see
+          your events there. Anyone with the URL can read them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {feedUrl ? (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="calendar-feed-url">Feed URL</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="calendar-feed-url"
+                  value={feedUrl}
+                  readOnly
+                  onFocus={(e) => e.target.select()}
+                />
+                <Button
+                  variant="outline"
+                  onClick={handleCopy}
+                  aria-label="Copy feed URL"
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="calendar-feed-tasks"
+                checked={settings.calendarFeedIncludesTasks}
+                onCheckedChange={(checked) =>
+                  updateMutation.mutate({
+                    calendarFeedIncludesTasks: !!checked,
+                  })
+                }
+                disabled={isPending}
+              />
+              <Label htmlFor="calendar-feed-tasks">
+                Include tasks on their due dates
+              </Label>
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={handleRegenerate}
+                disabled={isPending}
+              >
+                Reset URL
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => revokeMutation.mutate()}
+                disabled={isPending}
+              >
+                Turn off
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button
+            onClick={() => regenerateMutation.mutate()}
+            disabled={isPending}
+          >
+            Turn on feed
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+// Sets what dragging a task onto the calendar does
+function CalendarTaskDropCard() {
+  const utils = trpc.useUtils()
+  const { data: settings } = trpc.user.getSettings.useQuery()
+
+  const updateMutation = trpc.user.updateSettings.useMutation({
+    onSuccess: (data) => {
+      utils.user.getSettings.setData(undefined, data)
+      toast.success('Calendar settings saved')
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to save calendar settings')
+    },
+  })
+
+  if (!settings) {
+    return null
+  }
+
+  return (
+    <Card className="max-w-2xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarPlus className="h-5 w-5" />
+          Scheduling tasks
+        </CardTitle>
+        <CardDescription>
+          Choose what happens when you drag a task onto the calendar.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <Label htmlFor="calendar-task-drop">Dropping a task</Label>
+        <Select
+          value={settings.calendarTaskDrop}
+          onValueChange={(value) =>
+            updateMutation.mutate({
+              calendarTaskDrop: value as typeof settings.calendarTaskDrop,
+            })
+          }
+          disabled={updateMutation.isPending}
+        >
+          <SelectTrigger id="calendar-task-drop" className="w-full sm:w-80">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="EVENT">
+              Blocks time with a linked event
+            </SelectItem>
+            <SelectItem value="DUE_DATE">Sets its due date</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default function SettingsPage() {
+  const utils = trpc.useUtils()
+  const { data: settings, isLoading } = trpc.user.getSettings.useQuery()
+
+  const browserTimeZone = useMemo(
+    () => Intl.DateTimeFormat().resolvedOptions().timeZone,
+    []
+  )
+  const timeZones = useMemo(() => {
+    const zones = new Set(Intl.supportedValuesOf('timeZone'))
+    zones.add(DEFAULT_TIME_ZONE)
+    if (settings) {
+      zones.add(settings.timezone)
+    }
+    return Array.from(zones).sort()
+  }, [settings])
+
+  const updateMutation = trpc.user.updateSettings.useMutation({
+    onSuccess: (data) => {
+      utils.user.getSettings.setData(undefined, data)
+      // Counts and daily totals depend on where the day starts
+      utils.task.invalidate()
+      utils.time.invalidate()
+      utils.pomodoro.invalidate()
+      toast.success(`Timezone set to ${data.timezone}`)
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to update timezone')
+    },
+  })
+
+  return (
+    <div className="space-y-6 p-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+          Settings
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          Preferences for your account
+        </p>
+      </div>
+
+      <Card className="max-w-2xl">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Globe className="h-5 w-5" />
+            Timezone
+          </CardTitle>
+          <CardDescription>
+            Today&apos;s tasks, daily totals and streaks roll over at midnight
+            in this timezone.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading || !settings ? (
+            <p className="text-muted-foreground text-sm">Loading...</p>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="timezone">Timezone</Label>
+                <Select
+                  value={settings.timezone}
+                  onValueChange={(timezone) =>
+                    updateMutation.mutate({ timezone })
+                  }
+                  disabled={updateMutation.isPending}
+                >
+                  <SelectTrigger id="timezone" className="w-full sm:w-80">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-80">
+                    {timeZones.map((zone) => (
+                      <SelectItem key={zone} value={zone}>
+                        {zone.replace(/_/g, ' ')}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-muted-foreground text-xs">
+                  It is {formatTimeIn(settings.timezone)} there now.
+                </p>
+              </div>
+
+              {browserTimeZone !== settings.timezone && (
+                <div className="flex flex-wrap items-center justify-between gap-3 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm dark:border-amber-900 dark:bg-amber-950">
+                  <span>
+                    This browser is set to{' '}
+                    <strong>{browserTimeZone.replace(/_/g, ' ')}</strong>.
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() =>
+                      updateMutation.mutate({ timezone: browserTimeZone })
+                    }
+                    disabled={updateMutation.isPending}
+                  >
+                    Use this timezone
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <WorkingHoursCard />
+
+      <CalendarTaskDropCard />
+
+      <CalendarFeedCard />
+    </div>
+  )
+}
@@ -1,10 +1,19 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
-import { Plus, Search, Filter, MoreHorizontal } from 'lucide-react'
+import { Suspense, useState, useEffect, useCallback, useMemo } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import {
+  Plus,
+  Filter,
+  MoreHorizontal,
+  Pencil,
+  Bookmark,
+  LayoutList,
+  SquareKanban,
+} from 'lucide-react'
+import { keepPreviousData } from '@tanstack/react-query'
 import { trpc } from '@/lib/trpc'
 import { Button } from '@/components/ui/button'
-import { Input } from '@/components/ui/input'
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -15,9 +24,34 @@ import {
 import { TaskCard } from '@/components/tasks/task-card'
 import { TaskModal } from '@/components/tasks/task-modal'
 import { DraggableTaskList } from '@/components/tasks/draggable-task-list'
+import { KanbanBoard } from '@/components/tasks/kanban-board'
+import { SubtaskList } from '@/components/tasks/subtask-list'
+import { QuickAddInput } from '@/components/tasks/quick-add-input'
+import { TaskQueryInput } from '@/components/tasks/task-query-input'
+import {
+  SavedViewDialog,
+  savedViewIcons,
+} from '@/components/tasks/saved-view-dialog'
+import { SaveTemplateDialog } from '@/components/tasks/save-template-dialog'
+import { queryFiltersField } from '@/lib/task-query'
+import { useDebounce } from '@/lib/hooks/use-debounce'
+import { useTrashUndo } from '@/lib/hooks/use-trash-undo'
+import { useProjectStore } from '@/lib/stores/project-store'
+import { ProjectScopeBadge } from '@/components/projects/project-scope-badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { buildTaskTree } from '@/lib/task-tree'
 import { toast } from 'sonner'
+import { format } from 'date-fns'
 
-type TaskStatus = 'ACTIVE' | 'COMPLETED' | 'ARCHIVED'
+// Scheduled holds active tasks that are deferred to a later date
+type TaskTab = 'ACTIVE' | 'SCHEDULED' | 'COMPLETED' | 'ARCHIVED'
 
 type Task = {
   id: string
@@ -26,7 +60,9 @@ type Task = {
   dueDate?: Date | null
   priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT'
   status: 'ACTIVE' | 'COMPLETED' | 'ARCHIVED'
-  label?: string | null
+  tags?: { id: string; name: string; color: string }[]
+  project?: { id: string; name: string; color: string } | null
+  deferUntil?: Date | null
   order: number
   calendarEventId?: string | null
   calendarEvent?: {
@@ -34,35 +70,119 @@ type Task = {
     title: string
     startsAt: Date
   } | null
+  parentId?: string | null
+  recurrenceRule?: string | null
+  estimateMinutes?: number | null
+  trackedMinutes?: number
+  subtaskProgress?: {
+    total: number
+    completed: number
+  }
   createdAt: Date
   updatedAt: Date
 }
 
 const tabs = [
   { id: 'ACTIVE', label: 'Inbox', description: 'Active tasks' },
+  {
+    id: 'SCHEDULED',
+    label: 'Scheduled',
+    description: 'Tasks deferred to a later date',
+  },
   { id: 'COMPLETED', label: 'Completed', description: 'Finished tasks' },
   { id: 'ARCHIVED', label: 'Archived', description: 'Archived tasks' },
 ] as const
 
-export default function TasksPage() {
-  const [activeTab, setActiveTab] = useState<TaskStatus>('ACTIVE')
+function TasksPageContent() {
+  const router = useRouter()
+  const viewId = useSearchParams().get('view')
+  const [activeTab, setActiveTab] = useState<TaskTab>('ACTIVE')
+  const [layout, setLayout] = useState<'list' | 'board'>('list')
   const [searchQuery, setSearchQuery] = useState('')
+  const [quickAddText, setQuickAddText] = useState('')
   const [selectedTasks, setSelectedTasks] = useState<string[]>([])
   const [isTaskModalOpen, setIsTaskModalOpen] = useState(false)
   const [editingTask, setEditingTask] = useState<Task | null>(null)
+  const [newTaskParentId, setNewTaskParentId] = useState<string | null>(null)
+  const [viewDialog, setViewDialog] = useState<'create' | 'edit' | null>(null)
+  const [isTemplateDialogOpen, setIsTemplateDialogOpen] = useState(false)
+  // Completion that was blocked by open subtasks, awaiting a cascade choice
+  const [blockedCompletion, setBlockedCompletion] = useState<{
+    taskIds: string[]
+    bulk: boolean
+    // Saves the edit that completed the task again, cascading this time
+    resave?: () => void
+  } | null>(null)
 
   const utils = trpc.useUtils()
 
-  // Fetch tasks based on active tab
-  const { data: tasks = [], isLoading } = trpc.task.list.useQuery({
-    status: activeTab,
+  // Saved views are always lists
+  const showBoard = !viewId && layout === 'board'
+
+  const debouncedQuery = useDebounce(searchQuery.trim(), 300)
+  const activeProjectId = useProjectStore((state) => state.activeProjectId)
+
+  const { data: activeView, error: viewError } =
+    trpc.savedView.getById.useQuery(
+      { id: viewId ?? '' },
+      { enabled: !!viewId, retry: false }
+    )
+
+  useEffect(() => {
+    if (viewError) {
+      toast.error('This view no longer exists')
+      router.replace('/tasks')
+    }
+  }, [viewError, router])
+
+  // Fetch tasks for the active tab, filtered on the server by the query.
+  // A saved view narrows the search further and brings its own sort.
+  const searchInput = activeView
+    ? {
+        status: queryFiltersField(activeView.query, 'status')
+          ? undefined
+          : ('ACTIVE' as const),
+        query: [activeView.query, debouncedQuery].filter(Boolean).join(' '),
+        sort: activeView.sort,
+        projectId: activeProjectId ?? undefined,
+        limit: 50,
+      }
+    : {
+        status: activeTab === 'SCHEDULED' ? ('ACTIVE' as const) : activeTab,
+        deferred:
+          activeTab === 'SCHEDULED' ? ('only' as const) : ('hide' as const),
+        query: debouncedQuery,
+        projectId: activeProjectId ?? undefined,
+        limit: 50,
+      }
+  const {
+    data: taskPages,
+    isLoading,
+    error: searchError,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = trpc.task.search.useInfiniteQuery(searchInput, {
+    enabled: (!viewId || !!activeView) && !showBoard,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    placeholderData: keepPreviousData,
+    retry: false,
+    // Deferred tasks come back on their own, so pick them up once their
+    // time passes
+    refetchInterval: 60 * 1000,
   })
+  const tasks = useMemo(
+    () => taskPages?.pages.flatMap((page) => page.tasks) ?? [],
+    [taskPages]
+  )
 
   // Mutations
   const createTaskMutation = trpc.task.create.useMutation({
     onSuccess: () => {
+      utils.task.search.invalidate()
       utils.task.list.invalidate()
       utils.task.getCounts.invalidate()
+      utils.savedView.counts.invalidate()
       setIsTaskModalOpen(false)
     },
     onError: (error) => {
@@ -70,39 +190,126 @@ export default function TasksPage() {
     },
   })
 
+  const quickAddMutation = trpc.task.quickAdd.useMutation({
+    onSuccess: () => {
+      utils.task.search.invalidate()
+      utils.task.list.invalidate()
+      utils.task.getCounts.invalidate()
+      utils.savedView.counts.invalidate()
+      setQuickAddText('')
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to create task')
+    },
+  })
+
+  const createSubtaskMutation = trpc.task.createSubtask.useMutation({
+    onSuccess: () => {
+      utils.task.search.invalidate()
+      utils.task.list.invalidate()
+      utils.task.getCounts.invalidate()
+      utils.savedView.counts.invalidate()
+      setIsTaskModalOpen(false)
+      setNewTaskParentId(null)
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to create subtask')
+    },
+  })
+
+  const reparentMutation = trpc.task.reparent.useMutation({
+    onSuccess: () => {
+      utils.task.search.invalidate()
+      utils.task.list.invalidate()
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to move task')
+    },
+  })
+
   const updateTaskMutation = trpc.task.update.useMutation({
     onSuccess: () => {
+      utils.task.search.invalidate()
       utils.task.list.invalidate()
       utils.task.getCounts.invalidate()
+      utils.savedView.counts.invalidate()
       setIsTaskModalOpen(false)
       setEditingTask(null)
+      setBlockedCompletion(null)
     },
-    onError: (error) => {
+    onError: (error, variables) => {
+      if (error.data?.code === 'PRECONDITION_FAILED') {
+        setBlockedCompletion({
+          taskIds: [variables.id],
+          bulk: false,
+          resave: () =>
+            updateTaskMutation.mutate({
+              ...variables,
+              openSubtasks: 'cascade',
+            }),
+        })
+        return
+      }
       toast.error(error.message || 'Failed to update task')
     },
   })
 
+  const skipOccurrenceMutation = trpc.task.skipOccurrence.useMutation({
+    onSuccess: () => {
+      utils.task.search.invalidate()
+      utils.task.list.invalidate()
+      utils.task.getCounts.invalidate()
+      utils.savedView.counts.invalidate()
+      setIsTaskModalOpen(false)
+      setEditingTask(null)
+      toast.success('Occurrence skipped')
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to skip occurrence')
+    },
+  })
+
+  const endSeriesMutation = trpc.task.endSeries.useMutation({
+    onSuccess: () => {
+      utils.task.search.invalidate()
+      utils.task.list.invalidate()
+      setIsTaskModalOpen(false)
+      setEditingTask(null)
+      toast.success('Series ended')
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to end series')
+    },
+  })
+
   const toggleStatusMutation = trpc.task.toggleStatus.useMutation({
     onMutate: async ({ id }) => {
       // Cancel any outgoing refetches
-      await utils.task.list.cancel()
+      await utils.task.search.cancel()
 
       // Snapshot the previous value
-      const previousTasks = utils.task.list.getData({ status: activeTab })
+      const previousTasks = utils.task.search.getInfiniteData(searchInput)
 
       // Optimistically update to the new value
       if (previousTasks) {
-        utils.task.list.setData(
-          { status: activeTab },
-          (old: any) =>
-            old?.map((task: any) =>
-              task.id === id
-                ? {
-                    ...task,
-                    status: task.status === 'ACTIVE' ? 'COMPLETED' : 'ACTIVE',
-                  }
-                : task
-            ) || []
+        utils.task.search.setInfiniteData(searchInput, (old) =>
+          old
+            ? {
+                ...old,
+                pages: old.pages.map((page) => ({
+                  ...page,
+                  tasks: page.tasks.map((task) =>
+                    task.id === id
+                      ? {
+                          ...task,
+                          status:
+                            task.status === 'ACTIVE' ? 'COMPLETED' : 'ACTIVE',
+                        }
+                      : task
+                  ),
+                })),
+              }
+            : old
         )
       }
 
@@ -111,31 +318,44 @@ export default function TasksPage() {
     onError: (err, variables, context) => {
       // If the mutation fails, use the context returned from onMutate to roll back
       if (context?.previousTasks) {
-        utils.task.list.setData({ status: activeTab }, context.previousTasks)
+        utils.task.search.setInfiniteData(searchInput, context.previousTasks)
+      }
+      if (err.data?.code === 'PRECONDITION_FAILED') {
+        setBlockedCompletion({ taskIds: [variables.id], bulk: false })
+        return
       }
       toast.error(err.message || 'Failed to update task')
     },
     onSettled: () => {
       // Always refetch after error or success
+      utils.task.search.invalidate()
       utils.task.list.invalidate()
       utils.task.getCounts.invalidate()
+      utils.savedView.counts.invalidate()
     },
   })
 
   const archiveTaskMutation = trpc.task.archive.useMutation({
     onSuccess: () => {
+      utils.task.search.invalidate()
       utils.task.list.invalidate()
       utils.task.getCounts.invalidate()
+      utils.savedView.counts.invalidate()
     },
     onError: (error) => {
       toast.error(error.message || 'Failed to archive task')
     },
   })
 
+  const showTrashUndo = useTrashUndo()
+
   const deleteTaskMutation = trpc.task.delete.useMutation({
-    onSuccess: () => {
+    onSuccess: (task) => {
+      showTrashUndo('task', task.id)
+      utils.task.search.invalidate()
       utils.task.list.invalidate()
       utils.task.getCounts.invalidate()
+      utils.savedView.counts.invalidate()
     },
     onError: (error) => {
       toast.error(error.message || 'Failed to delete task')
@@ -144,51 +364,152 @@ export default function TasksPage() {
 
   const bulkUpdateMutation = trpc.task.bulkUpdate.useMutation({
     onSuccess: () => {
+      utils.task.search.invalidate()
       utils.task.list.invalidate()
       utils.task.getCounts.invalidate()
+      utils.savedView.counts.invalidate()
       setSelectedTasks([])
+      setBlockedCompletion(null)
     },
-    onError: (error) => {
+    onError: (error, variables) => {
+      if (error.data?.code === 'PRECONDITION_FAILED') {
+        setBlockedCompletion({ taskIds: variables.taskIds, bulk: true })
+        return
+      }
       toast.error(error.message || 'Failed to update tasks')
     },
   })
 
-  const updateOrderMutation = trpc.task.updateOrder.useMutation({
+  const snoozeMutation = trpc.task.snooze.useMutation({
+    onSuccess: (task) => {
+      utils.task.search.invalidate()
+      utils.task.list.invalidate()
+      utils.task.getCounts.invalidate()
+      utils.savedView.counts.invalidate()
+      toast.success(
+        task.deferUntil
+          ? `Snoozed until ${format(new Date(task.deferUntil), 'EEE, MMM d h:mm a')}`
+          : 'Moved to Inbox'
+      )
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to snooze task')
+    },
+  })
+
+  const moveTaskMutation = trpc.task.move.useMutation({
     onSuccess: () => {
+      utils.task.search.invalidate()
       utils.task.list.invalidate()
     },
     onError: (error) => {
       toast.error(error.message || 'Failed to reorder tasks')
+      // Put the list back the way the server has it
+      utils.task.search.invalidate()
+      utils.task.list.invalidate()
+    },
+  })
+
+  const deleteViewMutation = trpc.savedView.delete.useMutation({
+    onSuccess: () => {
+      utils.savedView.list.invalidate()
+      utils.savedView.counts.invalidate()
+      router.push('/tasks')
+      toast.success('View deleted')
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to delete view')
     },
   })
 
-  // Filter tasks based on search query
-  const filteredTasks = tasks.filter(
-    (task: any) =>
-      task.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      (task.description &&
-        task.description.toLowerCase().includes(searchQuery.toLowerCase()))
+  // Nest subtasks under their parents
+  const { roots: rootTasks, childrenByParent } = useMemo(
+    () => buildTaskTree(tasks as Task[]),
+    [tasks]
   )
 
+  // A task cannot become a subtask of itself or of its own descendants
+  const parentOptions = useMemo(() => {
+    const excluded = new Set<string>()
+    if (editingTask) {
+      const { childrenByParent: allChildren } = buildTaskTree(tasks as Task[])
+      const stack = [editingTask.id]
+      while (stack.length > 0) {
+        const id = stack.pop()!
+        excluded.add(id)
+        allChildren.get(id)?.forEach((child) => stack.push(child.id))
+      }
+    }
+    return (tasks as Task[])
+      .filter((task) => task.status === 'ACTIVE' && !excluded.has(task.id))
+      .map((task) => ({ id: task.id, title: task.title }))
+  }, [tasks, editingTask])
+
   // Handlers
   const handleCreateTask = useCallback(() => {
     setEditingTask(null)
+    setNewTaskParentId(null)
     setIsTaskModalOpen(true)
   }, [])
 
+  const handleAddSubtask = (parent: Task) => {
+    setEditingTask(null)
+    setNewTaskParentId(parent.id)
+    setIsTaskModalOpen(true)
+  }
+
   const handleEditTask = (task: Task) => {
     setEditingTask(task)
     setIsTaskModalOpen(true)
   }
 
-  const handleSaveTask = (data: any) => {
+  const handleSaveTask = ({ parentId, recurrenceRule, ...data }: any) => {
     if (editingTask) {
+      // Only send the rule when it changed, since that restarts the series
+      const ruleChanged =
+        (recurrenceRule ?? null) !== (editingTask.recurrenceRule ?? null)
       updateTaskMutation.mutate({
         id: editingTask.id,
-        data,
+        data: {
+          ...data,
+          // A cleared estimate has to be sent as null to remove it
+          estimateMinutes: data.estimateMinutes ?? null,
+          ...(ruleChanged && { recurrenceRule: recurrenceRule ?? null }),
+        },
+      })
+      if ((parentId ?? null) !== (editingTask.parentId ?? null)) {
+        reparentMutation.mutate({
+          id: editingTask.id,
+          parentId: parentId ?? null,
+        })
+      }
+    } else if (parentId) {
+      createSubtaskMutation.mutate({
+        parentId,
+        data: { ...data, recurrenceRule },
       })
     } else {
-      createTaskMutation.mutate(data)
+      createTaskMutation.mutate({ ...data, recurrenceRule })
+    }
+  }
+
+  const handleCompleteWithSubtasks = () => {
+    if (!blockedCompletion) return
+
+    if (blockedCompletion.resave) {
+      blockedCompletion.resave()
+    } else if (blockedCompletion.bulk) {
+      bulkUpdateMutation.mutate({
+        taskIds: blockedCompletion.taskIds,
+        data: { status: 'COMPLETED' },
+        openSubtasks: 'cascade',
+      })
+    } else {
+      toggleStatusMutation.mutate({
+        id: blockedCompletion.taskIds[0],
+        openSubtasks: 'cascade',
+      })
+      setBlockedCompletion(null)
     }
   }
 
@@ -204,6 +525,10 @@ export default function TasksPage() {
     deleteTaskMutation.mutate({ id: taskId })
   }
 
+  const handleSnoozeTask = (taskId: string, until: Date | null) => {
+    snoozeMutation.mutate({ id: taskId, until })
+  }
+
   const handleSelectTask = (taskId: string, selected: boolean) => {
     setSelectedTasks((prev) =>
       selected ? [...prev, taskId] : prev.filter((id) => id !== taskId)
@@ -211,12 +536,12 @@ export default function TasksPage() {
   }
 
   const handleSelectAll = useCallback(() => {
-    if (selectedTasks.length === filteredTasks.length) {
+    if (selectedTasks.length === tasks.length) {
       setSelectedTasks([])
     } else {
-      setSelectedTasks(filteredTasks.map((task: any) => task.id))
+      setSelectedTasks(tasks.map((task: any) => task.id))
     }
-  }, [selectedTasks.length, filteredTasks])
+  }, [selectedTasks.length, tasks])
 
   const handleBulkComplete = () => {
     bulkUpdateMutation.mutate({
@@ -240,8 +565,11 @@ export default function TasksPage() {
     setSelectedTasks([])
   }
 
-  const handleReorder = (taskIds: string[]) => {
-    updateOrderMutation.mutate({ taskIds })
+  const handleMoveTask = (
+    taskId: string,
+    neighbours: { beforeId: string | null; afterId: string | null }
+  ) => {
+    moveTaskMutation.mutate({ id: taskId, ...neighbours })
   }
 
   // Keyboard shortcuts
@@ -272,131 +600,242 @@ export default function TasksPage() {
     return () => window.removeEventListener('keydown', handleKeyDown)
   }, [handleCreateTask, handleSelectAll])
 
+  const ViewIcon = activeView
+    ? (savedViewIcons[activeView.icon] ?? savedViewIcons.list)
+    : null
+
   return (
     <div className="flex h-full flex-col">
       {/* Header */}
       <div className="border-b bg-white px-6 py-4 dark:bg-gray-800">
         <div className="flex items-center justify-between">
-          <div>
-            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
-              Tasks
-            </h1>
-            <p className="text-sm text-gray-600 dark:text-gray-400">
-              Manage your tasks and stay productive
-            </p>
+          {viewId ? (
+            <div className="flex items-center gap-3">
+              {ViewIcon && <ViewIcon className="h-6 w-6 text-blue-500" />}
+              <div>
+                <div className="flex items-center gap-3">
+                  <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+                    {activeView?.name ?? 'Loading view...'}
+                  </h1>
+                  <ProjectScopeBadge />
+                </div>
+                <p className="font-mono text-sm text-gray-600 dark:text-gray-400">
+                  {activeView?.query || 'All active tasks'}
+                </p>
+              </div>
+            </div>
+          ) : (
+            <div>
+              <div className="flex items-center gap-3">
+                <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+                  Tasks
+                </h1>
+                <ProjectScopeBadge />
+              </div>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Manage your tasks and stay productive
+              </p>
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            {activeView && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm">
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => setViewDialog('edit')}>
+                    <Pencil className="mr-2 h-4 w-4" />
+                    Edit View
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    onClick={() =>
+                      deleteViewMutation.mutate({ id: activeView.id })
+                    }
+                    className="text-red-600 focus:text-red-600"
+                  >
+                    Delete View
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            {!viewId && (
+              <div className="flex rounded-md border">
+                <Button
+                  variant={layout === 'list' ? 'secondary' : 'ghost'}
+                  size="sm"
+                  className="rounded-r-none"
+                  onClick={() => setLayout('list')}
+                  aria-label="List view"
+                  aria-pressed={layout === 'list'}
+                >
+                  <LayoutList className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant={layout === 'board' ? 'secondary' : 'ghost'}
+                  size="sm"
+                  className="rounded-l-none"
+                  onClick={() => setLayout('board')}
+                  aria-label="Board view"
+                  aria-pressed={layout === 'board'}
+                >
+                  <SquareKanban className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+            <Button onClick={handleCreateTask} className="gap-2">
+              <Plus className="h-4 w-4" />
+              New Task
+            </Button>
           </div>
-          <Button onClick={handleCreateTask} className="gap-2">
-            <Plus className="h-4 w-4" />
-            New Task
-          </Button>
         </div>
 
         {/* Tabs */}
-        <div className="mt-4 flex space-x-1">
-          {tabs.map((tab) => (
-            <button
-              key={tab.id}
-              onClick={() => setActiveTab(tab.id)}
-              className={`rounded-lg px-3 py-2 text-sm font-medium transition-colors ${
-                activeTab === tab.id
-                  ? 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300'
-                  : 'text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300'
-              }`}
-            >
-              {tab.label}
-            </button>
-          ))}
-        </div>
+        {!viewId && !showBoard && (
+          <div className="mt-4 flex space-x-1">
+            {tabs.map((tab) => (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id)}
+                className={`rounded-lg px-3 py-2 text-sm font-medium transition-colors ${
+                  activeTab === tab.id
+                    ? 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300'
+                    : 'text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Toolbar */}
-      <div className="border-b bg-white px-6 py-3 dark:bg-gray-800">
-        <div className="flex items-center justify-between gap-4">
-          <div className="flex items-center gap-2">
-            <div className="relative">
-              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
-              <Input
-                placeholder="Search tasks..."
+      {!showBoard && (
+        <div className="border-b bg-white px-6 py-3 dark:bg-gray-800">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <TaskQueryInput
                 value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="w-64 pl-9"
+                onChange={setSearchQuery}
+                issues={searchError?.data?.queryIssues}
+                className="w-96"
               />
+              {!viewId && searchQuery.trim() && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => setViewDialog('create')}
+                >
+                  <Bookmark className="h-4 w-4" />
+                  Save View
+                </Button>
+              )}
             </div>
-          </div>
 
-          <div className="flex items-center gap-2">
-            {selectedTasks.length > 0 && (
-              <div className="flex items-center gap-2">
-                <span className="text-sm text-gray-600 dark:text-gray-400">
-                  {selectedTasks.length} selected
-                </span>
-                <DropdownMenu>
-                  <DropdownMenuTrigger asChild>
-                    <Button variant="outline" size="sm">
-                      <MoreHorizontal className="h-4 w-4" />
-                    </Button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent align="end">
-                    {activeTab === 'ACTIVE' && (
-                      <DropdownMenuItem onClick={handleBulkComplete}>
-                        Mark as Complete
+            <div className="flex items-center gap-2">
+              {selectedTasks.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-gray-600 dark:text-gray-400">
+                    {selectedTasks.length} selected
+                  </span>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" size="sm">
+                        <MoreHorizontal className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      {(activeTab === 'ACTIVE' ||
+                        activeTab === 'SCHEDULED') && (
+                        <DropdownMenuItem onClick={handleBulkComplete}>
+                          Mark as Complete
+                        </DropdownMenuItem>
+                      )}
+                      {activeTab !== 'ARCHIVED' && (
+                        <DropdownMenuItem onClick={handleBulkArchive}>
+                          Archive
+                        </DropdownMenuItem>
+                      )}
+                      <DropdownMenuItem
+                        onClick={() => setIsTemplateDialogOpen(true)}
+                      >
+                        Save as Template
                       </DropdownMenuItem>
-                    )}
-                    {activeTab !== 'ARCHIVED' && (
-                      <DropdownMenuItem onClick={handleBulkArchive}>
-                        Archive
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem
+                        onClick={handleBulkDelete}
+                        className="text-red-600 focus:text-red-600"
+                      >
+                        Delete
                       </DropdownMenuItem>
-                    )}
-                    <DropdownMenuSeparator />
-                    <DropdownMenuItem
-                      onClick={handleBulkDelete}
-                      className="text-red-600 focus:text-red-600"
-                    >
-                      Delete
-                    </DropdownMenuItem>
-                  </DropdownMenuContent>
-                </DropdownMenu>
-              </div>
-            )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+              )}
+            </div>
           </div>
         </div>
-      </div>
+      )}
 
       {/* Task List */}
       <div className="flex-1 overflow-auto">
         <div className="p-6">
           {/* Quick add input */}
-          {activeTab === 'ACTIVE' && (
+          {(viewId || showBoard || activeTab === 'ACTIVE') && (
             <div className="mb-6">
-              <button
-                onClick={handleCreateTask}
-                className="w-full rounded-lg border-2 border-dashed border-gray-300 p-4 text-left text-gray-500 hover:border-gray-400 hover:text-gray-600 dark:border-gray-600 dark:text-gray-400 dark:hover:border-gray-500 dark:hover:text-gray-300"
-              >
-                <Plus className="mr-2 inline h-4 w-4" />
-                Add a new task...
-              </button>
+              <QuickAddInput
+                value={quickAddText}
+                onChange={setQuickAddText}
+                onSubmit={(text) =>
+                  quickAddMutation.mutate({
+                    text,
+                    projectId: activeProjectId ?? undefined,
+                  })
+                }
+                onOpenDetails={handleCreateTask}
+                isLoading={quickAddMutation.isPending}
+              />
             </div>
           )}
 
           {/* Task list */}
-          {isLoading ? (
+          {showBoard ? (
+            <KanbanBoard
+              projectId={activeProjectId ?? undefined}
+              onToggleComplete={handleToggleComplete}
+              onEdit={handleEditTask}
+              onArchive={handleArchiveTask}
+              onDelete={handleDeleteTask}
+              onAddSubtask={handleAddSubtask}
+              onSnooze={handleSnoozeTask}
+            />
+          ) : isLoading ? (
             <div className="flex items-center justify-center py-12">
               <div className="text-gray-500 dark:text-gray-400">
                 Loading tasks...
               </div>
             </div>
-          ) : filteredTasks.length === 0 ? (
+          ) : tasks.length === 0 ? (
             <div className="flex flex-col items-center justify-center py-12">
               <div className="mb-2 text-gray-500 dark:text-gray-400">
-                {searchQuery
-                  ? 'No tasks found matching your search'
-                  : activeTab === 'ACTIVE'
-                    ? 'No active tasks'
-                    : activeTab === 'COMPLETED'
-                      ? 'No completed tasks'
-                      : 'No archived tasks'}
+                {viewId
+                  ? 'No tasks in this view'
+                  : searchQuery
+                    ? 'No tasks found matching your search'
+                    : activeTab === 'ACTIVE'
+                      ? 'No active tasks'
+                      : activeTab === 'SCHEDULED'
+                        ? 'No scheduled tasks'
+                        : activeTab === 'COMPLETED'
+                          ? 'No completed tasks'
+                          : 'No archived tasks'}
               </div>
-              {!searchQuery && activeTab === 'ACTIVE' && (
+              {!viewId && !searchQuery && activeTab === 'ACTIVE' && (
                 <Button
                   onClick={handleCreateTask}
                   variant="outline"
@@ -407,35 +846,66 @@ export default function TasksPage() {
                 </Button>
               )}
             </div>
-          ) : activeTab === 'ACTIVE' && !searchQuery ? (
+          ) : !viewId && activeTab === 'ACTIVE' && !searchQuery ? (
             <DraggableTaskList
-              tasks={filteredTasks}
+              tasks={rootTasks}
+              childrenByParent={childrenByParent}
               selectedTasks={selectedTasks}
               onToggleComplete={handleToggleComplete}
               onEdit={handleEditTask}
               onArchive={handleArchiveTask}
               onDelete={handleDeleteTask}
               onSelect={handleSelectTask}
-              onReorder={handleReorder}
+              onAddSubtask={handleAddSubtask}
+              onSnooze={handleSnoozeTask}
+              onMove={handleMoveTask}
               showCheckbox={selectedTasks.length > 0}
             />
           ) : (
             <div className="space-y-3">
-              {filteredTasks.map((task: any) => (
-                <TaskCard
-                  key={task.id}
-                  task={task}
-                  selected={selectedTasks.includes(task.id)}
-                  onToggleComplete={handleToggleComplete}
-                  onEdit={handleEditTask}
-                  onArchive={handleArchiveTask}
-                  onDelete={handleDeleteTask}
-                  onSelect={handleSelectTask}
-                  showCheckbox={selectedTasks.length > 0}
-                />
+              {rootTasks.map((task) => (
+                <div key={task.id} className="space-y-3">
+                  <TaskCard
+                    task={task}
+                    selected={selectedTasks.includes(task.id)}
+                    onToggleComplete={handleToggleComplete}
+                    onEdit={handleEditTask}
+                    onArchive={handleArchiveTask}
+                    onDelete={handleDeleteTask}
+                    onSelect={handleSelectTask}
+                    onAddSubtask={handleAddSubtask}
+                    onSnooze={handleSnoozeTask}
+                    showCheckbox={selectedTasks.length > 0}
+                  />
+                  <SubtaskList
+                    parentId={task.id}
+                    childrenByParent={childrenByParent}
+                    selectedTasks={selectedTasks}
+                    onToggleComplete={handleToggleComplete}
+                    onEdit={handleEditTask}
+                    onArchive={handleArchiveTask}
+                    onDelete={handleDeleteTask}
+                    onSelect={handleSelectTask}
+                    onAddSubtask={handleAddSubtask}
+                    onSnooze={handleSnoozeTask}
+                    showCheckbox={selectedTasks.length > 0}
+                  />
+                </div>
               ))}
             </div>
           )}
+
+          {!showBoard && hasNextPage && (
+            <div className="mt-6 flex justify-center">
+              <Button
+                variant="outline"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+              >
+                {isFetchingNextPage ? 'Loading...' : 'Load more'}
+              </Button>
+            </div>
+          )}
         </div>
       </div>
 
@@ -445,8 +915,76 @@ export default function TasksPage() {
         onOpenChange={setIsTaskModalOpen}
         task={editingTask}
         onSave={handleSaveTask}
-        isLoading={createTaskMutation.isPending || updateTaskMutation.isPending}
+        isLoading={
+          createTaskMutation.isPending ||
+          createSubtaskMutation.isPending ||
+          updateTaskMutation.isPending ||
+          skipOccurrenceMutation.isPending ||
+          endSeriesMutation.isPending
+        }
+        parentOptions={parentOptions}
+        defaultParentId={newTaskParentId}
+        defaultProjectId={activeProjectId}
+        onSkipOccurrence={(id) => skipOccurrenceMutation.mutate({ id })}
+        onEndSeries={(id) => endSeriesMutation.mutate({ id })}
+      />
+
+      {/* Saved view dialog */}
+      <SavedViewDialog
+        open={viewDialog !== null}
+        onOpenChange={(open) => !open && setViewDialog(null)}
+        view={viewDialog === 'edit' ? activeView : null}
+        defaultQuery={searchQuery.trim()}
+        onSaved={(view) => {
+          if (viewDialog === 'create') {
+            setSearchQuery('')
+            router.push(`/tasks?view=${view.id}`)
+          }
+        }}
+      />
+
+      {/* Save selected tasks as a template */}
+      <SaveTemplateDialog
+        open={isTemplateDialogOpen}
+        onOpenChange={setIsTemplateDialogOpen}
+        taskIds={selectedTasks}
+        onSaved={() => setSelectedTasks([])}
       />
+
+      {/* Open subtasks confirmation */}
+      <Dialog
+        open={blockedCompletion !== null}
+        onOpenChange={(open) => !open && setBlockedCompletion(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Complete open subtasks?</DialogTitle>
+            <DialogDescription>
+              {blockedCompletion?.bulk
+                ? 'Some of the selected tasks still have open subtasks.'
+                : 'This task still has open subtasks.'}{' '}
+              Complete them as well, or keep the task open.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setBlockedCompletion(null)}
+            >
+              Keep Open
+            </Button>
+            <Button onClick={handleCompleteWithSubtasks}>Complete All</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
+
+export default function TasksPage() {
+  return (
+    <Suspense>
+      <TasksPageContent />
+    </Suspense>
+  )
+}
@@ -38,7 +38,11 @@ import {
 import { toast } from 'sonner'
 import { TimeEntryEditModal } from '@/components/timer/time-entry-edit-modal'
 import { StreakPanel } from '@/components/timer/streak-panel'
+import { EstimateReport } from '@/components/timer/estimate-report'
+import { TagBadge } from '@/components/tags/tag-picker'
 import { useTimerStore } from '@/lib/stores/timer-store'
+import { useProjectStore } from '@/lib/stores/project-store'
+import { ProjectScopeBadge } from '@/components/projects/project-scope-badge'
 import { useFormattedTime } from '@/lib/stores/useFormattedTime'
 import { useStoreWithEqualityFn } from 'zustand/traditional'
 import { Input } from '@/components/ui/input'
@@ -56,13 +60,14 @@ interface TimeEntry {
   start: Date
   end: Date
   duration: number
-  label: string | null
   distractionFree: boolean
   source: 'STOPWATCH' | 'POMODORO' | 'TIMER'
   task: { id: string; title: string } | null
   event: { id: string; title: string } | null
   pomodoroRun: { id: string } | null
   pomodoroCycle: number | null
+  tags: { id: string; name: string; color: string }[]
+  project: { id: string; name: string; color: string } | null
 }
 
 export function TimeTrackingClient() {
@@ -128,18 +133,26 @@ export function TimeTrackingClient() {
   const sevenDaysAgo = startOfDay(subDays(today, 6))
   const todayEnd = endOfDay(today)
 
+  // Scope every figure to the project picked in the sidebar
+  const projectId =
+    useProjectStore((state) => state.activeProjectId) ?? undefined
+
   // Queries
-  const { data: todayTotal = 0 } = trpc.time.getTodayTotal.useQuery()
+  const { data: todayTotal = 0 } = trpc.time.getTodayTotal.useQuery({
+    projectId,
+  })
 
   const { data: weekSummary } = trpc.time.getSummary.useQuery({
     range: {
       from: sevenDaysAgo.toISOString(),
       to: todayEnd.toISOString(),
     },
+    projectId,
   })
 
   const { data: recentEntries = [], refetch: refetchEntries } =
     trpc.time.listEntries.useQuery({
+      projectId,
       limit: 50,
     })
 
@@ -148,6 +161,7 @@ export function TimeTrackingClient() {
       from: sevenDaysAgo.toISOString(),
       to: todayEnd.toISOString(),
     },
+    projectId,
   })
 
   // Mutations
@@ -393,9 +407,11 @@ export function TimeTrackingClient() {
   }
 
   const getEntryLabel = (entry: TimeEntry) => {
-    if (entry.label) return entry.label
     if (entry.task) return entry.task.title
     if (entry.event) return entry.event.title
+    if (entry.tags.length > 0) {
+      return entry.tags.map((tag) => tag.name).join(', ')
+    }
     return 'Untitled session'
   }
 
@@ -433,9 +449,12 @@ export function TimeTrackingClient() {
     <div className="space-y-6 p-6">
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
-            Time Tracking
-          </h1>
+          <div className="flex items-center gap-3">
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+              Time Tracking
+            </h1>
+            <ProjectScopeBadge />
+          </div>
           <p className="mt-2 text-gray-600 dark:text-gray-300">
             Track your focus sessions and productivity
           </p>
@@ -895,6 +914,9 @@ export function TimeTrackingClient() {
         </div>
       </div>
 
+      {/* Estimate accuracy */}
+      <EstimateReport projectId={projectId} />
+
       {/* Recent Sessions */}
       <Card>
         <CardHeader>
@@ -932,6 +954,22 @@ export function TimeTrackingClient() {
                             With distractions
                           </Badge>
                         )}
+                        {entry.project && (
+                          <Badge variant="outline" className="gap-1.5 text-xs">
+                            <span
+                              className="h-2 w-2 rounded-full"
+                              style={{ backgroundColor: entry.project.color }}
+                            />
+                            {entry.project.name}
+                          </Badge>
+                        )}
+                        {entry.tags.map((tag) => (
+                          <TagBadge
+                            key={tag.id}
+                            tag={tag}
+                            className="text-xs"
+                          />
+                        ))}
                       </div>
                       <div className="text-muted-foreground text-sm">
                         {format(new Date(entry.start), 'MMM dd, h:mm a')} •{' '}
@@ -0,0 +1,180 @@
+'use client'
+
+import {
+  Calendar,
+  CheckSquare,
+  FileText,
+  GitBranch,
+  RotateCcw,
+  Trash2,
+} from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { toast } from 'sonner'
+import { trpc } from '@/lib/trpc'
+import { TRASH_ITEM_LABELS, type TrashItemType } from '@/lib/trash'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent } from '@/components/ui/card'
+
+const trashItemIcons: Record<TrashItemType, typeof CheckSquare> = {
+  task: CheckSquare,
+  note: FileText,
+  event: Calendar,
+  board: GitBranch,
+}
+
+export default function TrashPage() {
+  const utils = trpc.useUtils()
+  const { data, isLoading } = trpc.trash.list.useQuery()
+  const items = data?.items ?? []
+
+  const restoreMutation = trpc.trash.restore.useMutation({
+    onSuccess: (_data, item) => {
+      // Restored items reappear in their own lists
+      utils.invalidate()
+      toast.success(`${TRASH_ITEM_LABELS[item.type]} restored`)
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to restore')
+    },
+  })
+
+  const purgeMutation = trpc.trash.purge.useMutation({
+    onSuccess: () => {
+      utils.trash.list.invalidate()
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to delete')
+    },
+  })
+
+  const emptyMutation = trpc.trash.empty.useMutation({
+    onSuccess: ({ deleted }) => {
+      utils.trash.list.invalidate()
+      toast.success(`Deleted ${deleted} item${deleted === 1 ? '' : 's'}`)
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to empty trash')
+    },
+  })
+
+  const handlePurge = (item: (typeof items)[0]) => {
+    if (
+      window.confirm(
+        `Delete "${item.title}" forever? This action cannot be undone.`
+      )
+    ) {
+      purgeMutation.mutate({ type: item.type, id: item.id })
+    }
+  }
+
+  const handleEmpty = () => {
+    if (
+      window.confirm(
+        `Delete all ${items.length} items in the trash forever? This action cannot be undone.`
+      )
+    ) {
+      emptyMutation.mutate()
+    }
+  }
+
+  return (
+    <div className="space-y-6 p-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            Trash
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            {data
+              ? `Deleted items are removed for good after ${data.retentionDays} days.`
+              : 'Deleted tasks, notes, events and boards'}
+          </p>
+        </div>
+        {items.length > 0 && (
+          <Button
+            variant="outline"
+            onClick={handleEmpty}
+            disabled={emptyMutation.isPending}
+            className="gap-2 text-red-600 hover:text-red-700"
+          >
+            <Trash2 className="h-4 w-4" />
+            Empty trash
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="text-muted-foreground py-12 text-center">
+          Loading trash...
+        </div>
+      ) : items.length === 0 ? (
+        <div className="py-12 text-center">
+          <Trash2 className="mx-auto mb-4 h-12 w-12 text-gray-400" />
+          <p className="text-lg font-medium">Trash is empty</p>
+          <p className="text-muted-foreground text-sm">
+            Deleted tasks, notes, events and boards show up here.
+          </p>
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="divide-y p-0">
+            {items.map((item) => {
+              const Icon = trashItemIcons[item.type]
+              return (
+                <div
+                  key={`${item.type}-${item.id}`}
+                  className="flex items-center justify-between gap-4 px-4 py-3"
+                >
+                  <div className="flex min-w-0 items-center gap-3">
+                    <Icon className="h-4 w-4 flex-shrink-0 text-gray-500" />
+                    <div className="min-w-0">
+                      <p className="truncate font-medium">{item.title}</p>
+                      <p className="text-muted-foreground text-xs">
+                        Deleted{' '}
+                        {formatDistanceToNow(new Date(item.deletedAt), {
+                          addSuffix: true,
+                        })}
+                        {' · '}
+                        Removed{' '}
+                        {formatDistanceToNow(new Date(item.purgeAt), {
+                          addSuffix: true,
+                        })}
+                      </p>
+                    </div>
+                    <Badge variant="secondary">
+                      {TRASH_ITEM_LABELS[item.type]}
+                    </Badge>
+                  </div>
+                  <div className="flex flex-shrink-0 gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-1"
+                      onClick={() =>
+                        restoreMutation.mutate({ type: item.type, id: item.id })
+                      }
+                      disabled={restoreMutation.isPending}
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                      Restore
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600 hover:text-red-700"
+                      onClick={() => handlePurge(item)}
+                      disabled={purgeMutation.isPending}
+                    >
+                      Delete forever
+                    </Button>
+                  </div>
+                </div>
+              )
+            })}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -2,11 +2,14 @@ import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { prisma } from '@/lib/db'
 import { hashPassword } from '@/lib/hash'
+import { isValidTimeZone } from '@/lib/timezone'
 
 const registerSchema = z.object({
   email: z.string().email('Invalid email address'),
   password: z.string().min(6, 'Password must be at least 6 characters'),
   name: z.string().min(1, 'Name is required').optional(),
+  // The browser's zone; an unknown one falls back to the default
+  timezone: z.string().refine(isValidTimeZone).optional().catch(undefined),
 })
 
 export async function POST(request: NextRequest) {
@@ -25,7 +28,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { email, password, name } = validationResult.data
+    const { email, password, name, timezone } = validationResult.data
 
     // Check if user already exists
     const existingUser = await prisma.user.findUnique({
@@ -47,6 +50,7 @@ export async function POST(request: NextRequest) {
         email,
         passwordHash,
         name: name || null,
+        timezone,
       },
       select: {
         id: true,
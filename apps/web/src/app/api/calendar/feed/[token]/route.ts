@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import {
+  buildCalendarFeed,
+  findCalendarFeedCalendar,
+  findCalendarFeedUser,
+  getCalendarFeedVersion,
+  isCalendarFeedCurrent,
+} from '@/server/calendar/feed'
+
+// Read-only .ics feed for calendar apps to subscribe to. The secret token
+// in the URL stands in for a session, since those apps can't sign in.
+// ?calendar=<id> narrows the feed to one of the user's calendars.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params
+  const user = await findCalendarFeedUser(prisma, token.replace(/\.ics$/, ''))
+
+  if (!user) {
+    return NextResponse.json({ error: 'Feed not found' }, { status: 404 })
+  }
+
+  const calendarId = request.nextUrl.searchParams.get('calendar')
+  const calendar = calendarId
+    ? await findCalendarFeedCalendar(prisma, user, calendarId)
+    : null
+
+  if (calendarId && !calendar) {
+    return NextResponse.json({ error: 'Calendar not found' }, { status: 404 })
+  }
+
+  const version = await getCalendarFeedVersion(prisma, user, calendar)
+  const headers = {
+    ETag: version.etag,
+    'Last-Modified': version.lastModified.toUTCString(),
+    // Apps should check back with the ETag rather than reuse a stale copy
+    'Cache-Control': 'private, no-cache',
+  }
+
+  if (isCalendarFeedCurrent(request.headers, version)) {
+    return new NextResponse(null, { status: 304, headers })
+  }
+
+  return new NextResponse(await buildCalendarFeed(prisma, user, calendar), {
+    headers: {
+      ...headers,
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="mindline.ics"',
+    },
+  })
+}
@@ -1,7 +1,8 @@
 'use client'
 
+import { Suspense, useEffect, useState } from 'react'
 import Link from 'next/link'
-import { usePathname } from 'next/navigation'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
 import { cn } from '@/lib/utils'
 import {
   LayoutDashboard,
@@ -12,9 +13,24 @@ import {
   Settings,
   GitBranch,
   Plus,
+  FolderKanban,
+  Trash2,
 } from 'lucide-react'
 import { trpc } from '@/lib/trpc'
+import { useProjectStore } from '@/lib/stores/project-store'
 import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ProjectDialog } from '@/components/projects/project-dialog'
+import {
+  SavedViewDialog,
+  savedViewIcons,
+} from '@/components/tasks/saved-view-dialog'
 
 const navigation = [
   {
@@ -47,18 +63,137 @@ const navigation = [
     icon: Clock,
     current: false,
   },
+  {
+    name: 'Trash',
+    href: '/trash',
+    icon: Trash2,
+    current: false,
+  },
   {
     name: 'Settings',
     href: '/settings',
     icon: Settings,
     current: false,
-    comingSoon: true,
   },
 ]
 
+// Reads the active view from the URL, so it needs its own Suspense boundary
+function SavedViewLinks() {
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const activeViewId = pathname === '/tasks' ? searchParams.get('view') : null
+
+  const activeProjectId = useProjectStore((state) => state.activeProjectId)
+
+  const { data: views } = trpc.savedView.list.useQuery()
+  const { data: counts } = trpc.savedView.counts.useQuery(
+    { projectId: activeProjectId ?? undefined },
+    { refetchInterval: 30000 }
+  )
+
+  if (!views || views.length === 0) {
+    return (
+      <div className="px-2 py-4 text-center">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Save a task filter to pin it here
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      {views.map((view) => {
+        const isViewActive = activeViewId === view.id
+        const Icon = savedViewIcons[view.icon] ?? savedViewIcons.list
+        const count = counts?.[view.id]
+        return (
+          <Link
+            key={view.id}
+            href={`/tasks?view=${view.id}`}
+            className={cn(
+              'group flex items-center rounded-md px-2 py-2 text-sm font-medium transition-colors',
+              isViewActive
+                ? 'bg-blue-100 text-blue-900 dark:bg-blue-900 dark:text-blue-100'
+                : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900 dark:text-gray-300 dark:hover:bg-gray-700 dark:hover:text-white'
+            )}
+          >
+            <Icon
+              className={cn(
+                'mr-3 h-4 w-4 flex-shrink-0',
+                isViewActive
+                  ? 'text-blue-500 dark:text-blue-400'
+                  : 'text-gray-400 group-hover:text-gray-500 dark:text-gray-500 dark:group-hover:text-gray-300'
+              )}
+              aria-hidden="true"
+            />
+            <span className="flex-1 truncate">{view.name}</span>
+            {typeof count === 'number' && (
+              <span className="ml-2 rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-600 dark:bg-gray-700 dark:text-gray-300">
+                {count}
+              </span>
+            )}
+          </Link>
+        )
+      })}
+    </>
+  )
+}
+
+const ALL_PROJECTS = '__ALL__'
+
+// Scopes the task, note and time tracking lists to one project
+function ProjectSwitcher() {
+  const { data: projects } = trpc.project.list.useQuery()
+  const activeProjectId = useProjectStore((state) => state.activeProjectId)
+  const setActiveProject = useProjectStore((state) => state.setActiveProject)
+
+  // Forget a project that was deleted or archived since it was picked
+  useEffect(() => {
+    if (
+      projects &&
+      activeProjectId &&
+      !projects.some((project) => project.id === activeProjectId)
+    ) {
+      setActiveProject(null)
+    }
+  }, [projects, activeProjectId, setActiveProject])
+
+  return (
+    <Select
+      value={activeProjectId ?? ALL_PROJECTS}
+      onValueChange={(value) =>
+        setActiveProject(value === ALL_PROJECTS ? null : value)
+      }
+    >
+      <SelectTrigger className="h-9" aria-label="Active project">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_PROJECTS}>All projects</SelectItem>
+        {projects?.map((project) => (
+          <SelectItem key={project.id} value={project.id}>
+            <span className="flex items-center gap-2">
+              <span
+                className="h-2 w-2 flex-shrink-0 rounded-full"
+                style={{ backgroundColor: project.color }}
+              />
+              {project.name}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
 export function AppSidebar() {
   const pathname = usePathname()
+  const router = useRouter()
   const { data: boards } = trpc.board.list.useQuery()
+  const { data: projects } = trpc.project.list.useQuery()
+  const [isViewDialogOpen, setIsViewDialogOpen] = useState(false)
+  const [isProjectDialogOpen, setIsProjectDialogOpen] = useState(false)
 
   return (
     <div className="hidden md:flex md:w-64 md:flex-shrink-0 md:flex-col">
@@ -68,24 +203,23 @@ export function AppSidebar() {
             MindLine
           </h2>
         </div>
-        <div className="mt-8 flex flex-grow flex-col">
+        <div className="mt-4 px-4">
+          <ProjectSwitcher />
+        </div>
+        <div className="mt-6 flex flex-grow flex-col">
           <nav className="flex-1 space-y-1 px-2 pb-4">
             {navigation.map((item) => {
               const isActive = pathname === item.href
               return (
                 <Link
                   key={item.name}
-                  href={item.comingSoon ? '#' : item.href}
+                  href={item.href}
                   className={cn(
                     'group flex items-center rounded-md px-2 py-2 text-sm font-medium transition-colors',
                     isActive
                       ? 'bg-blue-100 text-blue-900 dark:bg-blue-900 dark:text-blue-100'
-                      : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900 dark:text-gray-300 dark:hover:bg-gray-700 dark:hover:text-white',
-                    item.comingSoon && 'cursor-not-allowed opacity-50'
+                      : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900 dark:text-gray-300 dark:hover:bg-gray-700 dark:hover:text-white'
                   )}
-                  onClick={
-                    item.comingSoon ? (e) => e.preventDefault() : undefined
-                  }
                 >
                   <item.icon
                     className={cn(
@@ -97,15 +231,88 @@ export function AppSidebar() {
                     aria-hidden="true"
                   />
                   <span className="flex-1">{item.name}</span>
-                  {item.comingSoon && (
-                    <span className="ml-2 rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-500 dark:bg-gray-700 dark:text-gray-400">
-                      Soon
-                    </span>
-                  )}
                 </Link>
               )
             })}
 
+            {/* Projects Section */}
+            <div className="mt-8">
+              <div className="mb-3 flex items-center justify-between px-2">
+                <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                  Projects
+                </h3>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0 text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-300"
+                  onClick={() => setIsProjectDialogOpen(true)}
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <div className="space-y-1">
+                {projects?.map((project) => {
+                  const isProjectActive = pathname === `/projects/${project.id}`
+                  return (
+                    <Link
+                      key={project.id}
+                      href={`/projects/${project.id}`}
+                      className={cn(
+                        'group flex items-center rounded-md px-2 py-2 text-sm font-medium transition-colors',
+                        isProjectActive
+                          ? 'bg-blue-100 text-blue-900 dark:bg-blue-900 dark:text-blue-100'
+                          : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900 dark:text-gray-300 dark:hover:bg-gray-700 dark:hover:text-white'
+                      )}
+                    >
+                      <FolderKanban
+                        className="mr-3 h-4 w-4 flex-shrink-0"
+                        style={{ color: project.color }}
+                        aria-hidden="true"
+                      />
+                      <span className="flex-1 truncate">{project.name}</span>
+                      {project._count.tasks > 0 && (
+                        <span className="ml-2 rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-600 dark:bg-gray-700 dark:text-gray-300">
+                          {project._count.tasks}
+                        </span>
+                      )}
+                    </Link>
+                  )
+                })}
+
+                {(!projects || projects.length === 0) && (
+                  <div className="px-2 py-4 text-center">
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Group tasks, notes and time into projects
+                    </p>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Saved Views Section */}
+            <div className="mt-8">
+              <div className="mb-3 flex items-center justify-between px-2">
+                <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                  Views
+                </h3>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0 text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-300"
+                  onClick={() => setIsViewDialogOpen(true)}
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <div className="space-y-1">
+                <Suspense fallback={null}>
+                  <SavedViewLinks />
+                </Suspense>
+              </div>
+            </div>
+
             {/* Workflow Boards Section */}
             <div className="mt-8">
               <div className="mb-3 flex items-center justify-between px-2">
@@ -180,6 +387,18 @@ export function AppSidebar() {
           </nav>
         </div>
       </div>
+
+      <SavedViewDialog
+        open={isViewDialogOpen}
+        onOpenChange={setIsViewDialogOpen}
+        onSaved={(view) => router.push(`/tasks?view=${view.id}`)}
+      />
+
+      <ProjectDialog
+        open={isProjectDialogOpen}
+        onOpenChange={setIsProjectDialogOpen}
+        onSaved={(project) => router.push(`/projects/${project.id}`)}
+      />
     </div>
   )
 }
@@ -82,7 +82,10 @@ export function AuthForm({ mode }: AuthFormProps) {
         const response = await fetch('/api/auth/register', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(registerData),
+          body: JSON.stringify({
+            ...registerData,
+            timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          }),
         })
 
         if (response.ok) {
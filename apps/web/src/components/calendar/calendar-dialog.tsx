@@ -0,0 +1,142 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { cn } from '@/lib/utils'
+import { trpc } from '@/lib/trpc'
+import { TAG_COLORS } from '@/lib/tags'
+import { DEFAULT_CALENDAR_COLOR, type CalendarSummary } from '@/lib/calendars'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+interface CalendarDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  calendar?: CalendarSummary | null
+}
+
+export function CalendarDialog({
+  open,
+  onOpenChange,
+  calendar,
+}: CalendarDialogProps) {
+  const [name, setName] = useState('')
+  const [color, setColor] = useState(DEFAULT_CALENDAR_COLOR)
+
+  const utils = trpc.useUtils()
+
+  useEffect(() => {
+    if (!open) return
+    setName(calendar?.name ?? '')
+    setColor(calendar?.color ?? DEFAULT_CALENDAR_COLOR)
+  }, [open, calendar])
+
+  const handleSuccess = () => {
+    utils.calendar.list.invalidate()
+    onOpenChange(false)
+  }
+
+  const createMutation = trpc.calendar.create.useMutation({
+    onSuccess: handleSuccess,
+    onError: (error) => {
+      toast.error(error.message || 'Failed to save calendar')
+    },
+  })
+
+  const updateMutation = trpc.calendar.update.useMutation({
+    onSuccess: handleSuccess,
+    onError: (error) => {
+      toast.error(error.message || 'Failed to save calendar')
+    },
+  })
+
+  const isPending = createMutation.isPending || updateMutation.isPending
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const data = { name: name.trim(), color }
+    if (calendar) {
+      updateMutation.mutate({ id: calendar.id, data })
+    } else {
+      createMutation.mutate(data)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[400px]">
+        <DialogHeader>
+          <DialogTitle>
+            {calendar ? 'Edit Calendar' : 'New Calendar'}
+          </DialogTitle>
+          <DialogDescription>
+            New events in this calendar get its color.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="calendar-name">Name *</Label>
+            <Input
+              id="calendar-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Work"
+              maxLength={60}
+              autoFocus
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Color</Label>
+            <div className="flex flex-wrap gap-2">
+              {TAG_COLORS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  title={option.name}
+                  aria-pressed={color === option.value}
+                  onClick={() => setColor(option.value)}
+                  className={cn(
+                    'h-6 w-6 rounded-full border-2',
+                    color === option.value
+                      ? 'border-gray-900 dark:border-white'
+                      : 'border-transparent'
+                  )}
+                  style={{ backgroundColor: option.value }}
+                />
+              ))}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isPending || !name.trim()}>
+              {isPending
+                ? 'Saving...'
+                : calendar
+                  ? 'Update Calendar'
+                  : 'Create Calendar'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
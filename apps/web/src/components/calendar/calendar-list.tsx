@@ -0,0 +1,196 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import {
+  Copy,
+  Download,
+  Edit,
+  MoreHorizontal,
+  Plus,
+  Trash2,
+} from 'lucide-react'
+import { trpc } from '@/lib/trpc'
+import type { CalendarSummary } from '@/lib/calendars'
+import { CalendarDialog } from '@/components/calendar/calendar-dialog'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+
+interface CalendarListProps {
+  onExport: (calendar: CalendarSummary) => void
+}
+
+// The calendar page sidebar: shows or hides each calendar's events and
+// manages the calendars themselves
+export function CalendarList({ onExport }: CalendarListProps) {
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editing, setEditing] = useState<CalendarSummary | null>(null)
+  const utils = trpc.useUtils()
+
+  const { data: calendars = [] } = trpc.calendar.list.useQuery()
+  const { data: settings } = trpc.user.getSettings.useQuery()
+
+  const refetchEvents = () => {
+    utils.event.getByDateRange.invalidate()
+    utils.event.getPlannedVsActual.invalidate()
+  }
+
+  // Checkboxes change straight away and are put back if saving fails
+  const toggleMutation = trpc.calendar.update.useMutation({
+    onMutate: async ({ id, data }) => {
+      await utils.calendar.list.cancel()
+      const previous = utils.calendar.list.getData()
+      utils.calendar.list.setData(undefined, (old) =>
+        old?.map((calendar) =>
+          calendar.id === id ? { ...calendar, ...data } : calendar
+        )
+      )
+      return { previous }
+    },
+    onError: (error, _variables, context) => {
+      if (context?.previous) {
+        utils.calendar.list.setData(undefined, context.previous)
+      }
+      toast.error(error.message || 'Failed to update calendar')
+    },
+    onSettled: () => {
+      utils.calendar.list.invalidate()
+      refetchEvents()
+    },
+  })
+
+  const deleteMutation = trpc.calendar.delete.useMutation({
+    onSuccess: ({ trashedEvents }) => {
+      utils.calendar.list.invalidate()
+      refetchEvents()
+      toast.success(
+        trashedEvents > 0
+          ? `Calendar deleted, ${trashedEvents} event${trashedEvents === 1 ? '' : 's'} moved to the trash`
+          : 'Calendar deleted'
+      )
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to delete calendar')
+    },
+  })
+
+  const openDialog = (calendar: CalendarSummary | null) => {
+    setEditing(calendar)
+    setDialogOpen(true)
+  }
+
+  const handleCopyFeed = async (calendar: CalendarSummary) => {
+    if (!settings?.calendarFeedToken) return
+    await navigator.clipboard.writeText(
+      `${window.location.origin}/api/calendar/feed/${settings.calendarFeedToken}.ics?calendar=${calendar.id}`
+    )
+    toast.success('Feed URL copied')
+  }
+
+  const handleDelete = (calendar: CalendarSummary) => {
+    if (
+      window.confirm(
+        `Delete "${calendar.name}"? Its events will be moved to the trash.`
+      )
+    ) {
+      deleteMutation.mutate({ id: calendar.id })
+    }
+  }
+
+  return (
+    <aside className="w-56 shrink-0 space-y-2">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold">Calendars</h2>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 w-6 p-0"
+          onClick={() => openDialog(null)}
+          aria-label="New calendar"
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <ul className="space-y-1">
+        {calendars.map((calendar) => (
+          <li
+            key={calendar.id}
+            className="group flex items-center gap-2 rounded-md px-1 py-1 text-sm hover:bg-gray-100 dark:hover:bg-gray-800"
+          >
+            <Checkbox
+              id={`calendar-${calendar.id}`}
+              checked={calendar.visible}
+              onCheckedChange={(checked) =>
+                toggleMutation.mutate({
+                  id: calendar.id,
+                  data: { visible: !!checked },
+                })
+              }
+              style={{
+                borderColor: calendar.color,
+                backgroundColor: calendar.visible ? calendar.color : undefined,
+              }}
+            />
+            <label
+              htmlFor={`calendar-${calendar.id}`}
+              className="min-w-0 flex-1 cursor-pointer truncate"
+            >
+              {calendar.name}
+            </label>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100"
+                  aria-label={`${calendar.name} options`}
+                >
+                  <MoreHorizontal className="h-3 w-3" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-48">
+                <DropdownMenuItem onClick={() => openDialog(calendar)}>
+                  <Edit className="mr-2 h-4 w-4" />
+                  Edit
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onExport(calendar)}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Export .ics
+                </DropdownMenuItem>
+                {settings?.calendarFeedToken && (
+                  <DropdownMenuItem onClick={() => handleCopyFeed(calendar)}>
+                    <Copy className="mr-2 h-4 w-4" />
+                    Copy feed URL
+                  </DropdownMenuItem>
+                )}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  onClick={() => handleDelete(calendar)}
+                  disabled={calendars.length === 1 || deleteMutation.isPending}
+                  className="text-red-600"
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </li>
+        ))}
+      </ul>
+
+      <CalendarDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        calendar={editing}
+      />
+    </aside>
+  )
+}
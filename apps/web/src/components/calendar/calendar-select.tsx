@@ -0,0 +1,54 @@
+'use client'
+
+import { trpc } from '@/lib/trpc'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+interface CalendarSelectProps {
+  value: string | undefined
+  onChange: (calendar: { id: string; color: string }) => void
+  className?: string
+  disabled?: boolean
+}
+
+export function CalendarSelect({
+  value,
+  onChange,
+  className,
+  disabled,
+}: CalendarSelectProps) {
+  const { data: calendars = [] } = trpc.calendar.list.useQuery()
+
+  return (
+    <Select
+      value={value}
+      onValueChange={(id) => {
+        const calendar = calendars.find((calendar) => calendar.id === id)
+        if (calendar) onChange(calendar)
+      }}
+      disabled={disabled}
+    >
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="Choose a calendar" />
+      </SelectTrigger>
+      <SelectContent>
+        {calendars.map((calendar) => (
+          <SelectItem key={calendar.id} value={calendar.id}>
+            <span className="flex items-center gap-2">
+              <span
+                className="h-2 w-2 flex-shrink-0 rounded-full"
+                style={{ backgroundColor: calendar.color }}
+              />
+              {calendar.name}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -1,17 +1,46 @@
 'use client'
 
-import { useState, useMemo, useCallback } from 'react'
+import {
+  createContext,
+  useContext,
+  useState,
+  useMemo,
+  useCallback,
+  useEffect,
+  useRef,
+} from 'react'
 import {
   Calendar as BigCalendar,
   momentLocalizer,
   Views,
   View,
+  type EventProps,
+  type SlotInfo,
 } from 'react-big-calendar'
+import withDragAndDrop, {
+  type DragFromOutsideItemArgs,
+  type EventInteractionArgs,
+} from 'react-big-calendar/lib/addons/dragAndDrop'
 import moment from 'moment'
+import { toast } from 'sonner'
+import type { TimeSource } from '@prisma/client'
+import type { inferRouterOutputs } from '@trpc/server'
+import type { AppRouter } from '@/server/api/root'
 import { trpc } from '@/lib/trpc'
+import {
+  DEFAULT_EVENT_MINUTES,
+  getDroppedTimes,
+  isAllDayDrop,
+  toLocalDay,
+  toStoredDay,
+} from '@/lib/calendar-drag'
+import { getTaskCalendarTimes, getTaskDropTimes } from '@/lib/calendar-tasks'
+import { DEFAULT_CALENDAR_COLOR, pickNewEventCalendar } from '@/lib/calendars'
+import { formatMinutes } from '@/lib/estimate-report'
 import { Button } from '@/components/ui/button'
-import { ChevronLeft, ChevronRight } from 'lucide-react'
+import { ChevronLeft, ChevronRight, Timer } from 'lucide-react'
 import 'react-big-calendar/lib/css/react-big-calendar.css'
+import 'react-big-calendar/lib/addons/dragAndDrop/styles.css'
 import '@/styles/calendar.css'
 
 // Configure moment to use 24-hour format
@@ -28,8 +57,43 @@ moment.updateLocale('en', {
 
 const localizer = momentLocalizer(moment)
 
+const DragAndDropCalendar = withDragAndDrop<CalendarEvent>(BigCalendar)
+
+// Holding it while dropping an event makes a copy instead of moving it
+const DUPLICATE_KEY = 'Alt'
+
+const NEW_EVENT_TITLE = 'New event'
+// Events shown before they are saved can't be opened or dragged yet
+const OPTIMISTIC_ID_PREFIX = 'optimistic-'
+const DEFAULT_EVENT_COLOR = DEFAULT_CALENDAR_COLOR
+// Tasks without a project
+const TASK_COLOR = '#64748b'
+
+// Tracked time shows in the color of how it was tracked
+const TIME_SOURCES: { source: TimeSource; label: string; color: string }[] = [
+  { source: 'STOPWATCH', label: 'Stopwatch', color: '#0ea5e9' },
+  { source: 'POMODORO', label: 'Pomodoro', color: '#ef4444' },
+  { source: 'TIMER', label: 'Timer', color: '#22c55e' },
+]
+
+type EventRow = inferRouterOutputs<AppRouter>['event']['getByDateRange'][number]
+type DueTaskRow =
+  inferRouterOutputs<AppRouter>['task']['getByDueDateRange'][number]
+
 interface CalendarEvent {
   id: string
+  /** Set on time entries shown next to events */
+  timeEntrySource?: TimeSource
+  /** Scheduled against logged minutes, when tracked time is shown */
+  comparison?: { scheduledMinutes: number; loggedMinutes: number }
+  /** Set on occurrences of a recurring event, see event.getByDateRange */
+  occurrenceStart?: Date
+  /** Whether it belongs to a series, so changes apply to one occurrence */
+  recurring: boolean
+  /** Unset on time entries */
+  calendarId?: string
+  /** Set on tasks shown on their due dates */
+  taskId?: string
   title: string
   start: Date
   end: Date
@@ -39,14 +103,94 @@ interface CalendarEvent {
   location?: string
 }
 
+// Events that can be opened, dragged and resized
+function isEditable(event: CalendarEvent) {
+  return !event.timeEntrySource && !event.id.startsWith(OPTIMISTIC_ID_PREFIX)
+}
+
+// Tasks move with their due dates but always keep the same length
+function isResizable(event: CalendarEvent) {
+  return isEditable(event) && !event.taskId
+}
+
+// Completes a task from its item on the calendar
+const CompleteTaskContext = createContext<(taskId: string) => void>(() => {})
+
+// Shows how much time was logged against an event under its title, and a
+// checkbox on tasks
+function CalendarEventContent({ event, title }: EventProps<CalendarEvent>) {
+  const completeTask = useContext(CompleteTaskContext)
+
+  if (event.taskId) {
+    const taskId = event.taskId
+    return (
+      <div className="flex min-w-0 items-center gap-1">
+        <button
+          type="button"
+          aria-label={`Complete ${title}`}
+          title="Complete task"
+          className="h-3 w-3 shrink-0 rounded-full border border-current hover:bg-current"
+          // Keeps the click from dragging or selecting the item
+          onMouseDown={(e) => e.stopPropagation()}
+          onClick={(e) => {
+            e.stopPropagation()
+            completeTask(taskId)
+          }}
+        />
+        <span className="truncate">{title}</span>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-w-0">
+      <div className="truncate">{title}</div>
+      {event.comparison && (
+        <div className="truncate text-[10px] opacity-90">
+          {formatMinutes(event.comparison.loggedMinutes)} of{' '}
+          {formatMinutes(event.comparison.scheduledMinutes)} logged
+        </div>
+      )}
+    </div>
+  )
+}
+
+const calendarComponents = { event: CalendarEventContent }
+
+// A task being dragged in from outside the calendar
+export interface DraggedTask {
+  id: string
+  title: string
+  estimateMinutes: number | null
+}
+
+export interface EventSelection {
+  id: string
+  occurrenceStart?: Date
+}
+
 interface CalendarProps {
   onDateSelect: (date: Date) => void
-  onEventSelect: (eventId: string) => void
+  onEventSelect: (event: EventSelection) => void
+  /** Called with the range of dates the current view shows */
+  onRangeChange?: (range: { start: Date; end: Date }) => void
+  /** The task being dragged onto the calendar, if any */
+  draggedTask?: DraggedTask | null
 }
 
-export function Calendar({ onDateSelect, onEventSelect }: CalendarProps) {
+export function Calendar({
+  onDateSelect,
+  onEventSelect,
+  onRangeChange,
+  draggedTask,
+}: CalendarProps) {
   const [currentDate, setCurrentDate] = useState(new Date())
   const [view, setView] = useState<View>('month')
+  const [showTimeEntries, setShowTimeEntries] = useState(false)
+  const isDuplicatingRef = useRef(false)
+  const utils = trpc.useUtils()
+  const { data: calendars = [] } = trpc.calendar.list.useQuery()
+  const newEventCalendar = pickNewEventCalendar(calendars)
 
   // Calculate date range for fetching events
   const dateRange = useMemo(() => {
@@ -66,23 +210,325 @@ export function Calendar({ onDateSelect, onEventSelect }: CalendarProps) {
     return { start, end }
   }, [currentDate, view])
 
-  // Fetch events
-  const { data: events = [], isLoading } =
-    trpc.event.getByDateRange.useQuery(dateRange)
+  useEffect(() => {
+    onRangeChange?.(dateRange)
+  }, [dateRange, onRangeChange])
+
+  // Tracked time is shown in the views with a time grid. The events come
+  // with it then, so both arrive in one request.
+  const showsTimeEntries = showTimeEntries && view !== 'month'
+  const eventsQuery = trpc.event.getByDateRange.useQuery(dateRange, {
+    enabled: !showsTimeEntries,
+  })
+  const plannedVsActualQuery = trpc.event.getPlannedVsActual.useQuery(
+    dateRange,
+    { enabled: showsTimeEntries }
+  )
+  const {
+    events = [],
+    timeEntries = [],
+    comparisons = [],
+  } = (showsTimeEntries
+    ? plannedVsActualQuery.data
+    : eventsQuery.data && { events: eventsQuery.data }) ?? {}
+  const isLoading = showsTimeEntries
+    ? plannedVsActualQuery.isLoading
+    : eventsQuery.isLoading
+
+  // Changes the events on screen, whichever query shows them, and returns
+  // both as they were for putting back
+  const patchShownEvents = async (
+    patch: (events: EventRow[]) => EventRow[]
+  ) => {
+    await Promise.all([
+      utils.event.getByDateRange.cancel(),
+      utils.event.getPlannedVsActual.cancel(),
+    ])
+    const previous = {
+      events: utils.event.getByDateRange.getData(dateRange),
+      plannedVsActual: utils.event.getPlannedVsActual.getData(dateRange),
+    }
+
+    utils.event.getByDateRange.setData(dateRange, (old) => old && patch(old))
+    utils.event.getPlannedVsActual.setData(
+      dateRange,
+      (old) => old && { ...old, events: patch(old.events) }
+    )
+
+    return previous
+  }
+
+  const restoreShownEvents = (previous?: {
+    events?: EventRow[]
+    plannedVsActual?: typeof plannedVsActualQuery.data
+  }) => {
+    if (previous?.events) {
+      utils.event.getByDateRange.setData(dateRange, previous.events)
+    }
+    if (previous?.plannedVsActual) {
+      utils.event.getPlannedVsActual.setData(
+        dateRange,
+        previous.plannedVsActual
+      )
+    }
+  }
+
+  const dueTasksQuery = trpc.task.getByDueDateRange.useQuery(dateRange)
+  const dueTasks = dueTasksQuery.data
+
+  // Changes the tasks on screen and returns them as they were
+  const patchDueTasks = async (
+    patch: (tasks: DueTaskRow[]) => DueTaskRow[]
+  ) => {
+    await utils.task.getByDueDateRange.cancel()
+    const previous = utils.task.getByDueDateRange.getData(dateRange)
+    utils.task.getByDueDateRange.setData(dateRange, (old) => old && patch(old))
+    return previous
+  }
+
+  const restoreDueTasks = (previous?: DueTaskRow[]) => {
+    if (previous) {
+      utils.task.getByDueDateRange.setData(dateRange, previous)
+    }
+  }
+
+  const refetchShownEvents = () => {
+    utils.event.getByDateRange.invalidate()
+    utils.event.getPlannedVsActual.invalidate()
+  }
+
+  // Whether the duplicate key is held, since drops don't say
+  useEffect(() => {
+    const track = (e: KeyboardEvent) => {
+      isDuplicatingRef.current = e.getModifierState(DUPLICATE_KEY)
+    }
+    const reset = () => {
+      isDuplicatingRef.current = false
+    }
+    window.addEventListener('keydown', track)
+    window.addEventListener('keyup', track)
+    window.addEventListener('blur', reset)
+    return () => {
+      window.removeEventListener('keydown', track)
+      window.removeEventListener('keyup', track)
+      window.removeEventListener('blur', reset)
+    }
+  }, [])
+
+  // Drags show their result straight away and are put back if saving fails
+  const updateMutation = trpc.event.update.useMutation({
+    onMutate: async ({ id, data, occurrenceStart }) => {
+      const previous = await patchShownEvents((events) =>
+        events.map((event) =>
+          event.id === id &&
+          (!occurrenceStart ||
+            event.originalStartsAt?.getTime() === occurrenceStart.getTime())
+            ? { ...event, ...data }
+            : event
+        )
+      )
+
+      return { previous }
+    },
+    onError: (error, _variables, context) => {
+      restoreShownEvents(context?.previous)
+      toast.error(error.message || 'Failed to move event')
+    },
+    onSettled: refetchShownEvents,
+  })
+
+  const createMutation = trpc.event.create.useMutation({
+    onMutate: async (input) => {
+      const now = new Date()
+      const previous = await patchShownEvents((events) => [
+        ...events,
+        {
+          // Stands in until the saved event comes back
+          id: `${OPTIMISTIC_ID_PREFIX}${now.getTime()}`,
+          title: input.title,
+          description: input.description ?? null,
+          startsAt: input.startsAt,
+          endsAt: input.endsAt,
+          allDay: input.allDay ?? false,
+          color: input.color ?? DEFAULT_EVENT_COLOR,
+          location: input.location ?? null,
+          createdAt: now,
+          updatedAt: now,
+          userId: '',
+          deletedAt: null,
+          recurrenceRule: null,
+          excludedDates: [],
+          recurringEventId: null,
+          originalStartsAt: null,
+          icalUid: null,
+          timeBlock: false,
+          locked: false,
+          calendarId: input.calendarId ?? '',
+        },
+      ])
+
+      return { previous }
+    },
+    onError: (error, _variables, context) => {
+      restoreShownEvents(context?.previous)
+      toast.error(error.message || 'Failed to create event')
+    },
+    onSettled: refetchShownEvents,
+  })
+
+  // Dragging a task moves its due date
+  const moveTaskMutation = trpc.task.moveOnCalendar.useMutation({
+    onMutate: async ({ id, start, allDay }) => {
+      // Where the server will put it, on the browser's clock
+      const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+      const previous = await patchDueTasks((tasks) =>
+        tasks.map((task) => {
+          if (task.id !== id) return task
+          const { dueDate } = getTaskDropTimes(
+            task,
+            { start, allDay },
+            timeZone
+          )
+          return {
+            ...task,
+            dueDate,
+            ...getTaskCalendarTimes(dueDate, timeZone),
+          }
+        })
+      )
+
+      return { previous }
+    },
+    onError: (error, _variables, context) => {
+      restoreDueTasks(context?.previous)
+      toast.error(error.message || 'Failed to move task')
+    },
+    onSettled: () => utils.task.invalidate(),
+  })
+
+  // Completed tasks leave the calendar straight away
+  const completeTaskMutation = trpc.task.toggleStatus.useMutation({
+    onMutate: async ({ id }) => {
+      const previous = await patchDueTasks((tasks) =>
+        tasks.filter((task) => task.id !== id)
+      )
+
+      return { previous }
+    },
+    onError: (error, { id }, context) => {
+      restoreDueTasks(context?.previous)
+      if (error.data?.code === 'PRECONDITION_FAILED') {
+        toast(error.message, {
+          action: {
+            label: 'Complete all',
+            onClick: () =>
+              completeTaskMutation.mutate({ id, openSubtasks: 'cascade' }),
+          },
+        })
+        return
+      }
+      toast.error(error.message || 'Failed to complete task')
+    },
+    onSuccess: () => toast.success('Task completed'),
+    onSettled: () => utils.task.invalidate(),
+  })
+
+  const scheduleTaskMutation = trpc.task.scheduleOnCalendar.useMutation({
+    onError: (error) => {
+      toast.error(error.message || 'Failed to schedule task')
+    },
+    onSettled: () => {
+      utils.task.invalidate()
+      refetchShownEvents()
+    },
+  })
+
+  const completeTask = useCallback(
+    (taskId: string) => completeTaskMutation.mutate({ id: taskId }),
+    [completeTaskMutation]
+  )
 
   // Transform events for react-big-calendar
   const calendarEvents: CalendarEvent[] = useMemo(() => {
-    return events.map((event: any) => ({
+    const comparisonByEvent = new Map(
+      comparisons.map((comparison) => [
+        `${comparison.eventId}|${comparison.occurrenceStart?.getTime() ?? ''}`,
+        comparison,
+      ])
+    )
+
+    return events.map((event) => ({
       id: event.id,
+      // Edited occurrences are events of their own and need no start
+      occurrenceStart:
+        event.recurrenceRule && event.originalStartsAt
+          ? new Date(event.originalStartsAt)
+          : undefined,
+      recurring: !!event.recurrenceRule || !!event.recurringEventId,
+      calendarId: event.calendarId,
       title: event.title,
-      start: new Date(event.startsAt),
-      end: new Date(event.endsAt),
+      start: event.allDay
+        ? toLocalDay(new Date(event.startsAt))
+        : new Date(event.startsAt),
+      end: event.allDay
+        ? toLocalDay(new Date(event.endsAt))
+        : new Date(event.endsAt),
       allDay: event.allDay,
       color: event.color || '#3b82f6',
       description: event.description || undefined,
       location: event.location || undefined,
+      comparison: comparisonByEvent.get(
+        `${event.id}|${
+          event.recurrenceRule && event.originalStartsAt
+            ? event.originalStartsAt.getTime()
+            : ''
+        }`
+      ),
+    }))
+  }, [events, comparisons])
+
+  // Tasks show on their due dates in a style of their own
+  const taskEvents: CalendarEvent[] = useMemo(() => {
+    return (dueTasks ?? []).map((task) => ({
+      id: task.id,
+      taskId: task.id,
+      recurring: false,
+      title: task.title,
+      start: task.allDay
+        ? toLocalDay(new Date(task.startsAt))
+        : new Date(task.startsAt),
+      end: task.allDay
+        ? toLocalDay(new Date(task.endsAt))
+        : new Date(task.endsAt),
+      allDay: task.allDay,
+      color: task.project?.color || TASK_COLOR,
+    }))
+  }, [dueTasks])
+
+  const shownEvents = useMemo(
+    () => [...calendarEvents, ...taskEvents],
+    [calendarEvents, taskEvents]
+  )
+
+  // Time entries sit behind the events they ran alongside
+  const timeEntryEvents: CalendarEvent[] = useMemo(() => {
+    return timeEntries.map((entry) => ({
+      id: entry.id,
+      timeEntrySource: entry.source,
+      recurring: false,
+      title:
+        entry.task?.title ||
+        entry.event?.title ||
+        entry.tags.map((tag) => tag.name).join(', ') ||
+        'Tracked time',
+      start: new Date(entry.start),
+      end: new Date(entry.end),
+      allDay: false,
+      color:
+        TIME_SOURCES.find((source) => source.source === entry.source)?.color ??
+        DEFAULT_EVENT_COLOR,
     }))
-  }, [events])
+  }, [timeEntries])
 
   const handleNavigate = useCallback((newDate: Date) => {
     setCurrentDate(newDate)
@@ -92,16 +538,120 @@ export function Calendar({ onDateSelect, onEventSelect }: CalendarProps) {
     setView(newView)
   }, [])
 
+  // Clicking a slot opens the form there, dragging across slots creates
+  // an event covering them and opens it for naming
   const handleSelectSlot = useCallback(
-    ({ start }: { start: Date }) => {
-      onDateSelect(start)
+    ({ start, end, action }: SlotInfo) => {
+      if (action !== 'select') {
+        onDateSelect(start)
+        return
+      }
+
+      // Month cells and the all-day row select whole days
+      const allDay =
+        view === 'month' ||
+        (moment(start).isSame(moment(start).startOf('day')) &&
+          moment(end).isSame(moment(end).startOf('day')))
+      createMutation.mutate(
+        {
+          title: NEW_EVENT_TITLE,
+          startsAt: allDay ? toStoredDay(start) : start,
+          endsAt: allDay ? toStoredDay(end) : end,
+          allDay,
+          color: newEventCalendar?.color ?? DEFAULT_EVENT_COLOR,
+          calendarId: newEventCalendar?.id,
+        },
+        { onSuccess: (event) => onEventSelect({ id: event.id }) }
+      )
+    },
+    [createMutation, newEventCalendar, onDateSelect, onEventSelect, view]
+  )
+
+  const handleEventChange = useCallback(
+    (
+      { event, start, end, isAllDay }: EventInteractionArgs<CalendarEvent>,
+      action: 'move' | 'resize'
+    ) => {
+      const times = getDroppedTimes(event, {
+        start: new Date(start),
+        end: new Date(end),
+        isAllDay: action === 'move' ? isAllDay : undefined,
+      })
+
+      // Days dropped on become due dates without a time, as the due date
+      // picker sets them
+      if (event.taskId) {
+        moveTaskMutation.mutate({
+          id: event.taskId,
+          start: times.startsAt,
+          allDay: times.allDay,
+        })
+        return
+      }
+
+      if (action === 'move' && isDuplicatingRef.current) {
+        // Copies are single events, even of an occurrence
+        createMutation.mutate({
+          title: event.title,
+          description: event.description,
+          location: event.location,
+          color: event.color,
+          calendarId: event.calendarId,
+          ...times,
+        })
+        return
+      }
+
+      // Dragging an occurrence only moves that one
+      updateMutation.mutate({
+        id: event.id,
+        data: times,
+        scope: event.recurring ? 'this' : 'all',
+        occurrenceStart: event.occurrenceStart,
+      })
     },
-    [onDateSelect]
+    [createMutation, moveTaskMutation, updateMutation]
   )
 
+  // Dropping a task from the unscheduled list links an event to it or
+  // sets its due date, as the user's settings say
+  const handleDropFromOutside = useCallback(
+    ({ start, end }: DragFromOutsideItemArgs) => {
+      if (!draggedTask) return
+
+      const allDay =
+        view === 'month' ||
+        isAllDayDrop({ start: new Date(start), end: new Date(end) })
+      scheduleTaskMutation.mutate({
+        id: draggedTask.id,
+        start: allDay ? toStoredDay(new Date(start)) : new Date(start),
+        allDay,
+        calendarId: newEventCalendar?.id,
+      })
+    },
+    [draggedTask, newEventCalendar, scheduleTaskMutation, view]
+  )
+
+  // What the calendar previews while a task is dragged over it
+  const dragFromOutsideItem = useCallback((): CalendarEvent => {
+    const start = new Date()
+    const minutes = draggedTask?.estimateMinutes ?? DEFAULT_EVENT_MINUTES
+    return {
+      id: `${OPTIMISTIC_ID_PREFIX}${draggedTask?.id}`,
+      taskId: draggedTask?.id,
+      recurring: false,
+      title: draggedTask?.title ?? '',
+      start,
+      end: new Date(start.getTime() + minutes * 60 * 1000),
+      allDay: false,
+      color: TASK_COLOR,
+    }
+  }, [draggedTask])
+
   const handleSelectEvent = useCallback(
     (event: CalendarEvent) => {
-      onEventSelect(event.id)
+      if (!isEditable(event) || event.taskId) return
+      onEventSelect({ id: event.id, occurrenceStart: event.occurrenceStart })
     },
     [onEventSelect]
   )
@@ -111,6 +661,32 @@ export function Calendar({ onDateSelect, onEventSelect }: CalendarProps) {
   }
 
   const eventStyleGetter = (event: CalendarEvent) => {
+    if (event.timeEntrySource) {
+      return {
+        style: {
+          backgroundColor: `${event.color}33`,
+          color: 'inherit',
+          borderRadius: '4px',
+          borderWidth: '0px',
+          borderLeft: `3px solid ${event.color}`,
+          fontSize: '11px',
+        },
+      }
+    }
+
+    if (event.taskId) {
+      return {
+        style: {
+          backgroundColor: `${event.color}1a`,
+          color: 'inherit',
+          borderRadius: '4px',
+          border: `1px dashed ${event.color}`,
+          borderLeft: `3px solid ${event.color}`,
+          fontSize: '12px',
+        },
+      }
+    }
+
     return {
       style: {
         backgroundColor: event.color,
@@ -169,6 +745,17 @@ export function Calendar({ onDateSelect, onEventSelect }: CalendarProps) {
         </h2>
 
         <div className="flex gap-1">
+          <Button
+            variant={showsTimeEntries ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setShowTimeEntries((shown) => !shown)}
+            disabled={view === 'month'}
+            title="Show tracked time next to events in the week and day views"
+            className="mr-2 gap-2"
+          >
+            <Timer className="h-4 w-4" />
+            Tracked time
+          </Button>
           {[
             { key: 'month', label: 'Month' },
             { key: 'week', label: 'Week' },
@@ -186,39 +773,66 @@ export function Calendar({ onDateSelect, onEventSelect }: CalendarProps) {
         </div>
       </div>
 
+      {showsTimeEntries && (
+        <div className="mb-2 flex items-center gap-4 text-xs text-gray-500 dark:text-gray-400">
+          {TIME_SOURCES.map(({ source, label, color }) => (
+            <span key={source} className="flex items-center gap-1">
+              <span
+                className="h-2.5 w-2.5 rounded-sm"
+                style={{ backgroundColor: color }}
+              />
+              {label}
+            </span>
+          ))}
+        </div>
+      )}
+
       {/* Calendar */}
       <div className="calendar-container bg-background h-[600px] rounded-lg border">
-        <BigCalendar
-          localizer={localizer}
-          events={calendarEvents}
-          startAccessor="start"
-          endAccessor="end"
-          titleAccessor="title"
-          allDayAccessor="allDay"
-          view={view}
-          date={currentDate}
-          onNavigate={handleNavigate}
-          onView={handleViewChange}
-          onSelectSlot={handleSelectSlot}
-          onSelectEvent={handleSelectEvent}
-          selectable
-          popup
-          eventPropGetter={eventStyleGetter}
-          views={[Views.MONTH, Views.WEEK, Views.DAY]}
-          step={30}
-          showMultiDayTimes
-          className="p-4"
-          formats={{
-            timeGutterFormat: 'HH:mm',
-            eventTimeRangeFormat: ({ start, end }) => {
-              return `${moment(start).format('HH:mm')} - ${moment(end).format('HH:mm')}`
-            },
-            agendaTimeFormat: 'HH:mm',
-            agendaTimeRangeFormat: ({ start, end }) => {
-              return `${moment(start).format('HH:mm')} - ${moment(end).format('HH:mm')}`
-            },
-          }}
-        />
+        <CompleteTaskContext.Provider value={completeTask}>
+          <DragAndDropCalendar
+            localizer={localizer}
+            events={shownEvents}
+            startAccessor="start"
+            endAccessor="end"
+            titleAccessor="title"
+            allDayAccessor="allDay"
+            view={view}
+            date={currentDate}
+            onNavigate={handleNavigate}
+            onView={handleViewChange}
+            onSelectSlot={handleSelectSlot}
+            onSelectEvent={handleSelectEvent}
+            onEventDrop={(args) => handleEventChange(args, 'move')}
+            onEventResize={(args) => handleEventChange(args, 'resize')}
+            draggableAccessor={isEditable}
+            resizableAccessor={isResizable}
+            // Only while a task is dragged, so other drags over the page
+            // are left alone
+            onDropFromOutside={draggedTask ? handleDropFromOutside : undefined}
+            dragFromOutsideItem={draggedTask ? dragFromOutsideItem : undefined}
+            backgroundEvents={showsTimeEntries ? timeEntryEvents : undefined}
+            components={calendarComponents}
+            resizable
+            selectable
+            popup
+            eventPropGetter={eventStyleGetter}
+            views={[Views.MONTH, Views.WEEK, Views.DAY]}
+            step={30}
+            showMultiDayTimes
+            className="p-4"
+            formats={{
+              timeGutterFormat: 'HH:mm',
+              eventTimeRangeFormat: ({ start, end }) => {
+                return `${moment(start).format('HH:mm')} - ${moment(end).format('HH:mm')}`
+              },
+              agendaTimeFormat: 'HH:mm',
+              agendaTimeRangeFormat: ({ start, end }) => {
+                return `${moment(start).format('HH:mm')} - ${moment(end).format('HH:mm')}`
+              },
+            }}
+          />
+        </CompleteTaskContext.Provider>
       </div>
     </div>
   )
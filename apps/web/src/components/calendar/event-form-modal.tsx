@@ -1,11 +1,11 @@
 'use client'
 
 import * as React from 'react'
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
-import { format } from 'date-fns'
+import { format, isSameDay } from 'date-fns'
 import { trpc } from '@/lib/trpc'
 import { toast } from 'sonner'
 import {
@@ -24,7 +24,25 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
 import { Checkbox } from '@/components/ui/checkbox'
-import { Calendar, Clock, MapPin, Palette, Trash2 } from 'lucide-react'
+import {
+  AlertTriangle,
+  Bell,
+  Calendar,
+  Clock,
+  Lock,
+  MapPin,
+  Palette,
+  Repeat,
+  Trash2,
+} from 'lucide-react'
+import { ReminderList } from '@/components/reminders/reminder-list'
+import { RecurrenceEditor } from '@/components/tasks/recurrence-editor'
+import { RecurrenceScopeDialog } from '@/components/calendar/recurrence-scope-dialog'
+import { CalendarSelect } from '@/components/calendar/calendar-select'
+import { useTrashUndo } from '@/lib/hooks/use-trash-undo'
+import { useDebounce } from '@/lib/hooks/use-debounce'
+import type { RecurrenceScope } from '@/lib/event-recurrence'
+import { pickNewEventCalendar } from '@/lib/calendars'
 
 const eventSchema = z
   .object({
@@ -35,6 +53,8 @@ const eventSchema = z
     allDay: z.boolean(),
     color: z.string(),
     location: z.string().optional(),
+    recurrenceRule: z.string().optional(),
+    calendarId: z.string().optional(),
   })
   .refine(
     (data) => {
@@ -56,6 +76,8 @@ interface EventFormModalProps {
   onClose: () => void
   selectedDate?: Date | null
   eventId?: string | null
+  /** The occurrence picked when the event repeats */
+  occurrenceStart?: Date | null
 }
 
 const colorOptions = [
@@ -69,13 +91,48 @@ const colorOptions = [
   { value: '#84cc16', label: 'Lime' },
 ]
 
+function toEventData(data: EventFormData) {
+  return {
+    title: data.title,
+    description: data.description || undefined,
+    startsAt: new Date(data.startsAt),
+    endsAt: new Date(data.endsAt),
+    allDay: data.allDay,
+    color: data.color,
+    location: data.location || undefined,
+    recurrenceRule: data.recurrenceRule || null,
+    calendarId: data.calendarId || undefined,
+  }
+}
+
+function formatConflictTime(event: {
+  startsAt: Date
+  endsAt: Date
+  allDay: boolean
+}) {
+  const start = new Date(event.startsAt)
+  const end = new Date(event.endsAt)
+  if (event.allDay) {
+    return 'all day'
+  }
+  return isSameDay(start, end)
+    ? `${format(start, 'MMM d HH:mm')}–${format(end, 'HH:mm')}`
+    : `${format(start, 'MMM d HH:mm')} – ${format(end, 'MMM d HH:mm')}`
+}
+
 export function EventFormModal({
   open,
   onClose,
   selectedDate,
   eventId,
+  occurrenceStart,
 }: EventFormModalProps) {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
+  // Recurring events ask which occurrences a change applies to first
+  const [scopeAction, setScopeAction] = useState<'edit' | 'delete' | null>(null)
+  const [pendingUpdate, setPendingUpdate] = useState<ReturnType<
+    typeof toEventData
+  > | null>(null)
   const utils = trpc.useUtils()
 
   // Fetch event data if editing
@@ -83,6 +140,9 @@ export function EventFormModal({
     { id: eventId! },
     { enabled: !!eventId }
   )
+  const { data: calendars = [] } = trpc.calendar.list.useQuery(undefined, {
+    enabled: open,
+  })
 
   const createMutation = trpc.event.create.useMutation({
     onSuccess: () => {
@@ -106,10 +166,28 @@ export function EventFormModal({
     },
   })
 
-  const deleteMutation = trpc.event.delete.useMutation({
+  // Locked time blocks stay where they are when the day is planned again
+  const lockMutation = trpc.planner.setLocked.useMutation({
     onSuccess: () => {
+      utils.event.getById.invalidate({ id: eventId! })
+      utils.planner.preview.invalidate()
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to update time block')
+    },
+  })
+
+  const showTrashUndo = useTrashUndo()
+
+  const deleteMutation = trpc.event.delete.useMutation({
+    onSuccess: (event) => {
       utils.event.getByDateRange.invalidate()
-      // Event deleted successfully
+      // Occurrences taken out of a series don't go to the trash
+      if (event.deletedAt) {
+        showTrashUndo('event', event.id)
+      } else {
+        toast.success('Event deleted')
+      }
       onClose()
     },
     onError: (error: any) => {
@@ -127,6 +205,8 @@ export function EventFormModal({
       allDay: false,
       color: '#3b82f6',
       location: '',
+      recurrenceRule: undefined,
+      calendarId: '',
     },
   })
 
@@ -137,16 +217,47 @@ export function EventFormModal({
     reset,
     watch,
     setValue,
+    getValues,
   } = form
   const watchAllDay = watch('allDay')
+  const watchStartsAt = watch('startsAt')
+  const watchEndsAt = watch('endsAt')
+  const isRecurring = !!event?.recurrenceRule || !!event?.recurringEventId
+
+  // Other events at the chosen time, to warn about before saving
+  const conflictKey = useDebounce(
+    `${watchStartsAt}|${watchEndsAt}|${watchAllDay}`,
+    300
+  )
+  const conflictInput = useMemo(() => {
+    const [startsAt, endsAt, allDay] = conflictKey.split('|')
+    const start = new Date(startsAt)
+    const end = new Date(endsAt)
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) return null
+    if (allDay !== 'true' && end <= start) return null
+    return {
+      startsAt: start,
+      endsAt: end,
+      allDay: allDay === 'true',
+      excludeId: eventId ?? undefined,
+    }
+  }, [conflictKey, eventId])
+  const { data: conflicts = [] } = trpc.event.getConflicts.useQuery(
+    conflictInput!,
+    { enabled: open && !!conflictInput }
+  )
 
   // Reset form when modal opens/closes
   useEffect(() => {
     if (open) {
       if (event) {
-        // Editing existing event
-        const startDate = new Date(event.startsAt)
-        const endDate = new Date(event.endsAt)
+        // Editing existing event, or the picked occurrence of a series
+        const startDate = occurrenceStart ?? new Date(event.startsAt)
+        const endDate = new Date(
+          startDate.getTime() +
+            (new Date(event.endsAt).getTime() -
+              new Date(event.startsAt).getTime())
+        )
 
         reset({
           title: event.title,
@@ -160,6 +271,8 @@ export function EventFormModal({
           allDay: event.allDay,
           color: event.color || '#3b82f6',
           location: event.location || '',
+          recurrenceRule: event.recurrenceRule ?? undefined,
+          calendarId: event.calendarId,
         })
       } else if (selectedDate) {
         // Creating new event
@@ -177,26 +290,35 @@ export function EventFormModal({
           allDay: false,
           color: '#3b82f6',
           location: '',
+          recurrenceRule: undefined,
+          calendarId: '',
         })
       }
     } else {
       reset()
       setShowDeleteConfirm(false)
+      setScopeAction(null)
+      setPendingUpdate(null)
     }
-  }, [open, event, selectedDate, reset])
+  }, [open, event, selectedDate, occurrenceStart, reset])
 
-  const onSubmit = (data: EventFormData) => {
-    const eventData = {
-      title: data.title,
-      description: data.description || undefined,
-      startsAt: new Date(data.startsAt),
-      endsAt: new Date(data.endsAt),
-      allDay: data.allDay,
-      color: data.color,
-      location: data.location || undefined,
+  // New events start in a calendar that's shown, in its color, once the
+  // calendars have loaded
+  useEffect(() => {
+    const calendar = pickNewEventCalendar(calendars)
+    if (open && !eventId && calendar && !getValues('calendarId')) {
+      setValue('calendarId', calendar.id)
+      setValue('color', calendar.color)
     }
+  }, [open, eventId, calendars, getValues, setValue])
 
-    if (eventId) {
+  const onSubmit = (data: EventFormData) => {
+    const eventData = toEventData(data)
+
+    if (eventId && isRecurring) {
+      setPendingUpdate(eventData)
+      setScopeAction('edit')
+    } else if (eventId) {
       updateMutation.mutate({ id: eventId, data: eventData })
     } else {
       createMutation.mutate(eventData)
@@ -209,6 +331,20 @@ export function EventFormModal({
     }
   }
 
+  const handleScopeConfirm = (scope: RecurrenceScope) => {
+    if (!eventId) return
+    const occurrence = {
+      scope,
+      occurrenceStart: occurrenceStart ?? undefined,
+    }
+
+    if (scopeAction === 'edit' && pendingUpdate) {
+      updateMutation.mutate({ id: eventId, data: pendingUpdate, ...occurrence })
+    } else if (scopeAction === 'delete') {
+      deleteMutation.mutate({ id: eventId, ...occurrence })
+    }
+  }
+
   const isLoading =
     createMutation.isPending ||
     updateMutation.isPending ||
@@ -328,6 +464,30 @@ export function EventFormModal({
               </div>
             </div>
 
+            {conflictInput && conflicts.length > 0 && (
+              <div className="flex gap-2 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800 dark:border-amber-900 dark:bg-amber-950 dark:text-amber-200">
+                <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                <div className="min-w-0">
+                  <p className="font-medium">
+                    Overlaps with{' '}
+                    {conflicts.length === 1
+                      ? 'another event'
+                      : `${conflicts.length} other events`}
+                  </p>
+                  <ul className="mt-1 space-y-0.5 text-xs">
+                    {conflicts.slice(0, 5).map((conflict) => (
+                      <li
+                        key={`${conflict.id}-${new Date(conflict.startsAt).getTime()}`}
+                        className="truncate"
+                      >
+                        {conflict.title} · {formatConflictTime(conflict)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            )}
+
             <div>
               <Label
                 htmlFor="location"
@@ -343,6 +503,17 @@ export function EventFormModal({
               />
             </div>
 
+            <div>
+              <Label className="mb-2 block">Calendar</Label>
+              <CalendarSelect
+                value={watch('calendarId') || undefined}
+                onChange={(calendar) => {
+                  setValue('calendarId', calendar.id)
+                  setValue('color', calendar.color)
+                }}
+              />
+            </div>
+
             <div>
               <Label className="mb-2 flex items-center gap-2">
                 <Palette className="h-4 w-4" />
@@ -366,13 +537,65 @@ export function EventFormModal({
               </div>
             </div>
 
+            {!event?.recurringEventId && (
+              <div>
+                <Label className="mb-2 flex items-center gap-2">
+                  <Repeat className="h-4 w-4" />
+                  Repeat
+                </Label>
+                <RecurrenceEditor
+                  value={watch('recurrenceRule')}
+                  onChange={(rule) => setValue('recurrenceRule', rule)}
+                  referenceDate={
+                    watchStartsAt && !isNaN(Date.parse(watchStartsAt))
+                      ? new Date(watchStartsAt)
+                      : undefined
+                  }
+                />
+              </div>
+            )}
+
+            {event?.timeBlock && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="locked"
+                  checked={event.locked}
+                  onCheckedChange={(checked) =>
+                    lockMutation.mutate({ id: event.id, locked: !!checked })
+                  }
+                  disabled={lockMutation.isPending}
+                />
+                <Label htmlFor="locked" className="flex items-center gap-2">
+                  <Lock className="h-4 w-4" />
+                  Keep this time block in place when planning
+                </Label>
+              </div>
+            )}
+
+            {event && (
+              <div>
+                <Label className="mb-2 flex items-center gap-2">
+                  <Bell className="h-4 w-4" />
+                  Reminders
+                </Label>
+                <ReminderList
+                  calendarEventId={event.id}
+                  anchor={new Date(event.startsAt)}
+                />
+              </div>
+            )}
+
             <div className="flex justify-between pt-4">
               {eventId && (
                 <Button
                   type="button"
                   variant="destructive"
                   size="sm"
-                  onClick={() => setShowDeleteConfirm(true)}
+                  onClick={() =>
+                    isRecurring
+                      ? setScopeAction('delete')
+                      : setShowDeleteConfirm(true)
+                  }
                   disabled={isLoading}
                 >
                   <Trash2 className="mr-2 h-4 w-4" />
@@ -402,6 +625,23 @@ export function EventFormModal({
         </CustomDialogContent>
       </Dialog>
 
+      <RecurrenceScopeDialog
+        open={scopeAction !== null}
+        onOpenChange={(isOpen) => {
+          if (!isOpen) setScopeAction(null)
+        }}
+        action={scopeAction ?? 'edit'}
+        onConfirm={handleScopeConfirm}
+        // A new rule applies to a run of events, not a single one
+        disabledScopes={
+          scopeAction === 'edit' &&
+          pendingUpdate?.recurrenceRule !== (event?.recurrenceRule ?? null)
+            ? ['this']
+            : []
+        }
+        isPending={isLoading}
+      />
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={showDeleteConfirm} onOpenChange={setShowDeleteConfirm}>
         <DialogContent>
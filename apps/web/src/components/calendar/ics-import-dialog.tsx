@@ -0,0 +1,231 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+import { AlertTriangle, Repeat } from 'lucide-react'
+import { trpc } from '@/lib/trpc'
+import { describeRecurrenceRule, parseRecurrenceRule } from '@/lib/recurrence'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { CalendarSelect } from '@/components/calendar/calendar-select'
+
+interface IcsImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// All-day events end at the start of the day after their last one
+function formatEventTime(event: {
+  startsAt: Date
+  endsAt: Date
+  allDay: boolean
+}) {
+  if (event.allDay) {
+    const start = new Date(event.startsAt)
+    const last = new Date(new Date(event.endsAt).getTime() - 1)
+    const day = (date: Date) =>
+      format(
+        new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+        'MMM d, yyyy'
+      )
+    return day(start) === day(last)
+      ? `${day(start)}, all day`
+      : `${day(start)} – ${day(last)}`
+  }
+  return `${format(new Date(event.startsAt), 'MMM d, yyyy HH:mm')} – ${format(new Date(event.endsAt), 'HH:mm')}`
+}
+
+export function IcsImportDialog({ open, onOpenChange }: IcsImportDialogProps) {
+  const [content, setContent] = useState<string | null>(null)
+  const [picked, setPicked] = useState<{ id: string; color: string } | null>(
+    null
+  )
+  const utils = trpc.useUtils()
+  const { data: calendars = [] } = trpc.calendar.list.useQuery(undefined, {
+    enabled: open,
+  })
+  // Events go in the default calendar unless another one is picked
+  const calendar = picked ?? calendars[0]
+
+  const previewMutation = trpc.event.previewIcsImport.useMutation({
+    onError: (error) => {
+      toast.error(error.message || 'Failed to read the file')
+    },
+  })
+
+  const importMutation = trpc.event.importIcs.useMutation({
+    onSuccess: ({ imported, skipped }) => {
+      utils.event.getByDateRange.invalidate()
+      toast.success(
+        `Imported ${imported} event${imported === 1 ? '' : 's'}` +
+          (skipped.length > 0 ? `, skipped ${skipped.length}` : '')
+      )
+      handleOpenChange(false)
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to import events')
+    },
+  })
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setContent(null)
+      setPicked(null)
+      previewMutation.reset()
+    }
+    onOpenChange(nextOpen)
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    const text = await file.text()
+    setContent(text)
+    previewMutation.mutate({ content: text })
+  }
+
+  const preview = previewMutation.data
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Import events</DialogTitle>
+          <DialogDescription>
+            Add events from an iCalendar (.ics) file exported by another
+            calendar app.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="ics-file">File</Label>
+          <Input
+            id="ics-file"
+            type="file"
+            accept=".ics,text/calendar"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            disabled={previewMutation.isPending || importMutation.isPending}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Import into</Label>
+          <CalendarSelect
+            value={calendar?.id}
+            onChange={setPicked}
+            disabled={importMutation.isPending}
+          />
+        </div>
+
+        {previewMutation.isPending && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Reading events...
+          </p>
+        )}
+
+        {preview && (
+          <div className="space-y-4">
+            <div>
+              <p className="mb-2 text-sm font-medium">
+                {preview.events.length} event
+                {preview.events.length === 1 ? '' : 's'} to import
+              </p>
+              {preview.events.length > 0 && (
+                <ul className="max-h-60 divide-y overflow-y-auto rounded-md border text-sm">
+                  {preview.events.map((event, index) => (
+                    <li
+                      key={index}
+                      className="flex items-center gap-3 px-3 py-2"
+                    >
+                      <span
+                        className="h-2.5 w-2.5 shrink-0 rounded-full"
+                        style={{
+                          backgroundColor:
+                            event.color || calendar?.color || '#3b82f6',
+                        }}
+                      />
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate font-medium">{event.title}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {formatEventTime(event)}
+                          {event.recurrenceId && ' · changed occurrence'}
+                        </p>
+                      </div>
+                      {event.recurrenceRule && (
+                        <span className="flex shrink-0 items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+                          <Repeat className="h-3 w-3" />
+                          {describeRecurrenceRule(
+                            parseRecurrenceRule(event.recurrenceRule)
+                          )}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {preview.skipped.length > 0 && (
+              <div>
+                <p className="mb-2 flex items-center gap-1 text-sm font-medium text-amber-600 dark:text-amber-400">
+                  <AlertTriangle className="h-4 w-4" />
+                  {preview.skipped.length} item
+                  {preview.skipped.length === 1 ? '' : 's'} will be skipped
+                </p>
+                <ul className="max-h-40 space-y-1 overflow-y-auto text-xs">
+                  {preview.skipped.map((item, index) => (
+                    <li key={index}>
+                      <span className="font-medium">
+                        {item.title || item.uid || 'Unnamed item'}
+                      </span>
+                      <span className="text-gray-500 dark:text-gray-400">
+                        {' '}
+                        – {item.reason}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={importMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={() =>
+              content &&
+              importMutation.mutate({ content, calendarId: calendar?.id })
+            }
+            disabled={
+              !preview ||
+              preview.events.length === 0 ||
+              importMutation.isPending
+            }
+          >
+            {importMutation.isPending
+              ? 'Importing...'
+              : `Import ${preview?.events.length ?? ''} event${preview?.events.length === 1 ? '' : 's'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,165 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+import { AlertTriangle, History } from 'lucide-react'
+import { trpc } from '@/lib/trpc'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+interface PlanDayDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Midday keeps the picked day the same on the user's clock
+function toPlanDate(day: string) {
+  return new Date(`${day}T12:00`)
+}
+
+export function PlanDayDialog({ open, onOpenChange }: PlanDayDialogProps) {
+  const [day, setDay] = useState(() => format(new Date(), 'yyyy-MM-dd'))
+  const utils = trpc.useUtils()
+  const date = toPlanDate(day)
+  const isValidDay = !isNaN(date.getTime())
+
+  const { data: preview, isFetching } = trpc.planner.preview.useQuery(
+    { date },
+    { enabled: open && isValidDay, staleTime: 0 }
+  )
+
+  const scheduleMutation = trpc.planner.schedule.useMutation({
+    onSuccess: ({ blocks }) => {
+      utils.event.getByDateRange.invalidate()
+      utils.planner.preview.invalidate()
+      utils.task.invalidate()
+      toast.success(
+        `Planned ${blocks.length} time block${blocks.length === 1 ? '' : 's'}`
+      )
+      onOpenChange(false)
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to plan the day')
+    },
+  })
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Plan my day</DialogTitle>
+          <DialogDescription>
+            Put active tasks with estimates into the open time within your
+            working hours. Locked time blocks stay where they are.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="plan-day">Day</Label>
+          <Input
+            id="plan-day"
+            type="date"
+            value={day}
+            onChange={(e) => setDay(e.target.value)}
+            disabled={scheduleMutation.isPending}
+          />
+        </div>
+
+        {isFetching && !preview && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Finding open time...
+          </p>
+        )}
+
+        {preview && (
+          <div className="space-y-4">
+            {preview.blocks.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Nothing to plan for this day.
+              </p>
+            ) : (
+              <ul className="max-h-64 divide-y overflow-y-auto rounded-md border text-sm">
+                {preview.blocks.map((block) => (
+                  <li
+                    key={block.taskId}
+                    className="flex items-center gap-3 px-3 py-2"
+                  >
+                    <span className="w-24 shrink-0 text-xs tabular-nums text-gray-500 dark:text-gray-400">
+                      {format(new Date(block.startsAt), 'HH:mm')} –{' '}
+                      {format(new Date(block.endsAt), 'HH:mm')}
+                    </span>
+                    <span className="min-w-0 flex-1 truncate font-medium">
+                      {block.title}
+                    </span>
+                    {block.missed && (
+                      <span className="flex shrink-0 items-center gap-1 text-xs text-amber-600 dark:text-amber-400">
+                        <History className="h-3 w-3" />
+                        Missed
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {preview.unplaced.length > 0 && (
+              <div>
+                <p className="mb-2 flex items-center gap-1 text-sm font-medium text-amber-600 dark:text-amber-400">
+                  <AlertTriangle className="h-4 w-4" />
+                  {preview.unplaced.length} task
+                  {preview.unplaced.length === 1 ? " doesn't" : "s don't"} fit
+                </p>
+                <ul className="max-h-32 space-y-1 overflow-y-auto text-xs">
+                  {preview.unplaced.map((task) => (
+                    <li key={task.taskId} className="truncate">
+                      {task.title}
+                      {task.eventId && (
+                        <span className="text-gray-500 dark:text-gray-400">
+                          {' '}
+                          – its time block will be removed
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={scheduleMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={() => scheduleMutation.mutate({ date })}
+            disabled={
+              !preview ||
+              (preview.blocks.length === 0 &&
+                !preview.unplaced.some((task) => task.eventId)) ||
+              scheduleMutation.isPending
+            }
+          >
+            {scheduleMutation.isPending ? 'Planning...' : 'Plan day'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
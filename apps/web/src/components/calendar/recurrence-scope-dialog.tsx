@@ -0,0 +1,131 @@
+'use client'
+
+import { useState } from 'react'
+import { cn } from '@/lib/utils'
+import {
+  RECURRENCE_SCOPES,
+  RECURRENCE_SCOPE_LABELS,
+  type RecurrenceScope,
+} from '@/lib/event-recurrence'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+
+interface RecurrenceScopeDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  action: 'edit' | 'delete'
+  onConfirm: (scope: RecurrenceScope) => void
+  /** Scopes that don't apply, like "this event" when the rule changed */
+  disabledScopes?: RecurrenceScope[]
+  isPending?: boolean
+}
+
+export function RecurrenceScopeDialog({
+  open,
+  onOpenChange,
+  action,
+  ...options
+}: RecurrenceScopeDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[400px]">
+        <DialogHeader>
+          <DialogTitle>
+            {action === 'edit'
+              ? 'Edit recurring event'
+              : 'Delete recurring event'}
+          </DialogTitle>
+          <DialogDescription>This event is part of a series.</DialogDescription>
+        </DialogHeader>
+
+        <RecurrenceScopeOptions
+          action={action}
+          onCancel={() => onOpenChange(false)}
+          {...options}
+        />
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// Mounted with the dialog's content, so each opening starts from the first
+// scope that applies
+function RecurrenceScopeOptions({
+  action,
+  onConfirm,
+  onCancel,
+  disabledScopes = [],
+  isPending = false,
+}: Pick<
+  RecurrenceScopeDialogProps,
+  'action' | 'onConfirm' | 'disabledScopes' | 'isPending'
+> & { onCancel: () => void }) {
+  const [scope, setScope] = useState<RecurrenceScope>(
+    () =>
+      RECURRENCE_SCOPES.find((option) => !disabledScopes.includes(option)) ??
+      'all'
+  )
+
+  return (
+    <>
+      <div className="space-y-2" role="radiogroup">
+        {RECURRENCE_SCOPES.map((option) => {
+          const disabled = disabledScopes.includes(option)
+          return (
+            <button
+              key={option}
+              type="button"
+              role="radio"
+              aria-checked={scope === option}
+              disabled={disabled}
+              onClick={() => setScope(option)}
+              className={cn(
+                'flex w-full items-center gap-3 rounded-md border px-3 py-2 text-left text-sm',
+                scope === option
+                  ? 'border-blue-500 bg-blue-50 dark:bg-blue-950'
+                  : 'border-gray-200 dark:border-gray-700',
+                disabled && 'cursor-not-allowed opacity-50'
+              )}
+            >
+              <span
+                className={cn(
+                  'h-3 w-3 rounded-full border',
+                  scope === option
+                    ? 'border-blue-500 bg-blue-500'
+                    : 'border-gray-400'
+                )}
+              />
+              {RECURRENCE_SCOPE_LABELS[option]}
+            </button>
+          )
+        })}
+      </div>
+
+      <DialogFooter>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onCancel}
+          disabled={isPending}
+        >
+          Cancel
+        </Button>
+        <Button
+          type="button"
+          variant={action === 'delete' ? 'destructive' : 'default'}
+          onClick={() => onConfirm(scope)}
+          disabled={isPending}
+        >
+          {action === 'edit' ? 'Save' : 'Delete'}
+        </Button>
+      </DialogFooter>
+    </>
+  )
+}
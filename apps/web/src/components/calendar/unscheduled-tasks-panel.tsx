@@ -0,0 +1,74 @@
+'use client'
+
+import { trpc } from '@/lib/trpc'
+import { formatMinutes } from '@/lib/estimate-report'
+import type { DraggedTask } from '@/components/calendar/calendar'
+
+const priorityColors = {
+  LOW: 'bg-gray-400',
+  MEDIUM: 'bg-blue-400',
+  HIGH: 'bg-orange-400',
+  URGENT: 'bg-red-400',
+}
+
+interface UnscheduledTasksPanelProps {
+  onDragStart: (task: DraggedTask) => void
+  onDragEnd: () => void
+}
+
+// Lists tasks that are neither due nor on the calendar, for dragging onto
+// a day or a time slot
+export function UnscheduledTasksPanel({
+  onDragStart,
+  onDragEnd,
+}: UnscheduledTasksPanelProps) {
+  const { data: tasks = [], isLoading } = trpc.task.getUnscheduled.useQuery()
+  const { data: settings } = trpc.user.getSettings.useQuery()
+
+  return (
+    <section className="space-y-2">
+      <div>
+        <h2 className="text-sm font-semibold">Unscheduled tasks</h2>
+        <p className="text-muted-foreground text-xs">
+          {settings?.calendarTaskDrop === 'DUE_DATE'
+            ? 'Drag one onto the calendar to set its due date'
+            : 'Drag one onto the calendar to block time for it'}
+        </p>
+      </div>
+
+      {isLoading ? (
+        <p className="text-muted-foreground text-xs">Loading tasks...</p>
+      ) : tasks.length === 0 ? (
+        <p className="text-muted-foreground text-xs">Every task has a date</p>
+      ) : (
+        <ul className="max-h-80 space-y-1 overflow-y-auto">
+          {tasks.map((task) => (
+            <li
+              key={task.id}
+              draggable
+              onDragStart={(e) => {
+                // Firefox only starts a drag that carries some data
+                e.dataTransfer.setData('text/plain', task.title)
+                e.dataTransfer.effectAllowed = 'move'
+                onDragStart(task)
+              }}
+              onDragEnd={onDragEnd}
+              className="flex cursor-grab items-center gap-2 rounded-md border px-2 py-1 text-sm hover:bg-gray-100 active:cursor-grabbing dark:hover:bg-gray-800"
+            >
+              <span
+                className={`h-2 w-2 shrink-0 rounded-full ${priorityColors[task.priority]}`}
+                title={`${task.priority.toLowerCase()} priority`}
+              />
+              <span className="min-w-0 flex-1 truncate">{task.title}</span>
+              {task.estimateMinutes !== null && (
+                <span className="text-muted-foreground shrink-0 text-xs">
+                  {formatMinutes(task.estimateMinutes)}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,197 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { format, formatDistanceToNow } from 'date-fns'
+import { Bell, CheckCheck } from 'lucide-react'
+import { toast } from 'sonner'
+import { cn } from '@/lib/utils'
+import { trpc } from '@/lib/trpc'
+import { Button } from '@/components/ui/button'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+
+// Reminders the scheduler sent this much later than planned were missed
+// while the server was down, which is worth pointing out
+const LATE_AFTER_MS = 5 * 60 * 1000
+
+// Toasts shown at once, so catching up after a while away stays readable
+const MAX_TOASTS = 3
+
+type BrowserPermission = NotificationPermission | 'unsupported'
+
+function getBrowserPermission(): BrowserPermission {
+  return typeof window !== 'undefined' && 'Notification' in window
+    ? window.Notification.permission
+    : 'unsupported'
+}
+
+export function NotificationBell() {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [permission, setPermission] = useState<BrowserPermission>('default')
+  // Ids already popped up by this tab while markDelivered is in flight
+  const announced = useRef(new Set<string>())
+
+  const utils = trpc.useUtils()
+
+  const { data } = trpc.notification.list.useQuery(undefined, {
+    refetchInterval: 30 * 1000,
+  })
+  const notifications = useMemo(() => data?.notifications ?? [], [data])
+  const unreadCount = data?.unreadCount ?? 0
+
+  const { mutate: markDelivered } =
+    trpc.notification.markDelivered.useMutation()
+
+  const markReadMutation = trpc.notification.markRead.useMutation({
+    onSuccess: () => utils.notification.list.invalidate(),
+  })
+
+  const markAllReadMutation = trpc.notification.markAllRead.useMutation({
+    onSuccess: () => utils.notification.list.invalidate(),
+  })
+
+  useEffect(() => {
+    setPermission(getBrowserPermission())
+  }, [])
+
+  // Announce notifications no browser has shown yet
+  useEffect(() => {
+    const fresh = notifications.filter(
+      (notification) =>
+        !notification.deliveredAt && !announced.current.has(notification.id)
+    )
+    if (fresh.length === 0) return
+
+    fresh.forEach((notification) => announced.current.add(notification.id))
+
+    fresh.slice(0, MAX_TOASTS).forEach((notification) => {
+      toast(notification.title, { description: notification.body })
+    })
+    if (fresh.length > MAX_TOASTS) {
+      toast(`${fresh.length - MAX_TOASTS} more reminders`)
+    }
+
+    if (getBrowserPermission() === 'granted') {
+      fresh.forEach((notification) => {
+        new window.Notification(notification.title, {
+          body: notification.body ?? undefined,
+          tag: notification.id,
+        })
+      })
+    }
+
+    markDelivered({ ids: fresh.map((item) => item.id) })
+  }, [notifications, markDelivered])
+
+  const handleEnableBrowser = async () => {
+    setPermission(await window.Notification.requestPermission())
+  }
+
+  const handleOpenNotification = (notification: (typeof notifications)[0]) => {
+    if (!notification.readAt) {
+      markReadMutation.mutate({ ids: [notification.id] })
+    }
+    if (notification.href) {
+      setOpen(false)
+      router.push(notification.href)
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="relative h-9 w-9 p-0"
+          aria-label={`Notifications, ${unreadCount} unread`}
+        >
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute right-1 top-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-medium text-white">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-2">
+          <span className="text-sm font-medium">Notifications</span>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 gap-1 px-2 text-xs"
+              onClick={() => markAllReadMutation.mutate()}
+            >
+              <CheckCheck className="h-3 w-3" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+
+        {permission === 'default' && (
+          <div className="border-b px-4 py-2 text-xs">
+            <button
+              type="button"
+              className="text-blue-600 hover:underline"
+              onClick={handleEnableBrowser}
+            >
+              Turn on browser notifications
+            </button>{' '}
+            to get reminders while Mindline is in the background.
+          </div>
+        )}
+
+        {notifications.length === 0 ? (
+          <p className="text-muted-foreground px-4 py-6 text-center text-sm">
+            No notifications yet
+          </p>
+        ) : (
+          <ul className="max-h-96 divide-y overflow-auto">
+            {notifications.map((notification) => {
+              const late =
+                new Date(notification.createdAt).getTime() -
+                  new Date(notification.scheduledFor).getTime() >
+                LATE_AFTER_MS
+              return (
+                <li key={notification.id}>
+                  <button
+                    type="button"
+                    onClick={() => handleOpenNotification(notification)}
+                    className={cn(
+                      'hover:bg-muted/50 w-full px-4 py-2 text-left',
+                      !notification.readAt && 'bg-blue-50 dark:bg-blue-950'
+                    )}
+                  >
+                    <p className="truncate text-sm font-medium">
+                      {notification.title}
+                    </p>
+                    {notification.body && (
+                      <p className="text-muted-foreground text-xs">
+                        {notification.body}
+                      </p>
+                    )}
+                    <p className="text-muted-foreground mt-1 text-[11px]">
+                      {late
+                        ? `Missed, was due ${format(new Date(notification.scheduledFor), 'MMM d, h:mm a')}`
+                        : formatDistanceToNow(
+                            new Date(notification.scheduledFor),
+                            { addSuffix: true }
+                          )}
+                    </p>
+                  </button>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,202 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { ProjectStatus } from '@prisma/client'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+import { cn } from '@/lib/utils'
+import { trpc } from '@/lib/trpc'
+import { TAG_COLORS } from '@/lib/tags'
+import { DEFAULT_PROJECT_COLOR, PROJECT_STATUS_LABELS } from '@/lib/projects'
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+type Project = {
+  id: string
+  name: string
+  color: string
+  status: ProjectStatus
+  deadline: Date | null
+}
+
+interface ProjectDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  project?: Project | null
+  onSaved?: (project: Project) => void
+}
+
+export function ProjectDialog({
+  open,
+  onOpenChange,
+  project,
+  onSaved,
+}: ProjectDialogProps) {
+  const [name, setName] = useState('')
+  const [color, setColor] = useState(DEFAULT_PROJECT_COLOR)
+  const [status, setStatus] = useState<ProjectStatus>('ACTIVE')
+  const [deadline, setDeadline] = useState('')
+
+  const utils = trpc.useUtils()
+
+  useEffect(() => {
+    if (!open) return
+    setName(project?.name ?? '')
+    setColor(project?.color ?? DEFAULT_PROJECT_COLOR)
+    setStatus(project?.status ?? 'ACTIVE')
+    setDeadline(
+      project?.deadline ? format(new Date(project.deadline), 'yyyy-MM-dd') : ''
+    )
+  }, [open, project])
+
+  const handleSuccess = (saved: Project) => {
+    utils.project.list.invalidate()
+    utils.project.overview.invalidate({ id: saved.id })
+    onOpenChange(false)
+    onSaved?.(saved)
+  }
+
+  const createMutation = trpc.project.create.useMutation({
+    onSuccess: handleSuccess,
+    onError: (error) => {
+      toast.error(error.message || 'Failed to save project')
+    },
+  })
+
+  const updateMutation = trpc.project.update.useMutation({
+    onSuccess: handleSuccess,
+    onError: (error) => {
+      toast.error(error.message || 'Failed to save project')
+    },
+  })
+
+  const isPending = createMutation.isPending || updateMutation.isPending
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const data = {
+      name: name.trim(),
+      color,
+      status,
+      // Date inputs give a local calendar day, so parse it as local midnight
+      deadline: deadline ? new Date(`${deadline}T00:00:00`) : null,
+    }
+    if (project) {
+      updateMutation.mutate({ id: project.id, data })
+    } else {
+      createMutation.mutate(data)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>{project ? 'Edit Project' : 'New Project'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="project-name">Name *</Label>
+            <Input
+              id="project-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Website relaunch"
+              maxLength={60}
+              autoFocus
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Color</Label>
+            <div className="flex flex-wrap gap-2">
+              {TAG_COLORS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  title={option.name}
+                  aria-pressed={color === option.value}
+                  onClick={() => setColor(option.value)}
+                  className={cn(
+                    'h-6 w-6 rounded-full border-2',
+                    color === option.value
+                      ? 'border-gray-900 dark:border-white'
+                      : 'border-transparent'
+                  )}
+                  style={{ backgroundColor: option.value }}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select
+                value={status}
+                onValueChange={(value) => setStatus(value as ProjectStatus)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PROJECT_STATUS_LABELS).map(
+                    ([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    )
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="project-deadline">Deadline</Label>
+              <Input
+                id="project-deadline"
+                type="date"
+                value={deadline}
+                onChange={(e) => setDeadline(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isPending || !name.trim()}>
+              {isPending
+                ? 'Saving...'
+                : project
+                  ? 'Update Project'
+                  : 'Create Project'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
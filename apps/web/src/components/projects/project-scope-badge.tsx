@@ -0,0 +1,36 @@
+'use client'
+
+import { X } from 'lucide-react'
+import { trpc } from '@/lib/trpc'
+import { useProjectStore } from '@/lib/stores/project-store'
+import { Badge } from '@/components/ui/badge'
+
+// Shows which project the current list is scoped to, with a way out
+export function ProjectScopeBadge() {
+  const activeProjectId = useProjectStore((state) => state.activeProjectId)
+  const setActiveProject = useProjectStore((state) => state.setActiveProject)
+  const { data: projects = [] } = trpc.project.list.useQuery()
+
+  const project = projects.find((project) => project.id === activeProjectId)
+  if (!project) {
+    return null
+  }
+
+  return (
+    <Badge variant="secondary" className="gap-1.5 font-medium">
+      <span
+        className="h-2 w-2 flex-shrink-0 rounded-full"
+        style={{ backgroundColor: project.color }}
+      />
+      {project.name}
+      <button
+        type="button"
+        onClick={() => setActiveProject(null)}
+        className="hover:bg-muted-foreground/20 rounded-full p-0.5"
+        aria-label="Show all projects"
+      >
+        <X className="h-3 w-3" />
+      </button>
+    </Badge>
+  )
+}
@@ -0,0 +1,52 @@
+'use client'
+
+import { trpc } from '@/lib/trpc'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+// Radix Select cannot hold an empty value, so "no project" gets a sentinel
+const NO_PROJECT = '__NONE__'
+
+interface ProjectSelectProps {
+  value: string | null
+  onChange: (projectId: string | null) => void
+  className?: string
+}
+
+export function ProjectSelect({
+  value,
+  onChange,
+  className,
+}: ProjectSelectProps) {
+  const { data: projects = [] } = trpc.project.list.useQuery()
+
+  return (
+    <Select
+      value={value ?? NO_PROJECT}
+      onValueChange={(next) => onChange(next === NO_PROJECT ? null : next)}
+    >
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="No project" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_PROJECT}>No project</SelectItem>
+        {projects.map((project) => (
+          <SelectItem key={project.id} value={project.id}>
+            <span className="flex items-center gap-2">
+              <span
+                className="h-2 w-2 flex-shrink-0 rounded-full"
+                style={{ backgroundColor: project.color }}
+              />
+              {project.name}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
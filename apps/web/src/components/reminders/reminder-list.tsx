@@ -0,0 +1,176 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { Bell, BellOff, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { trpc } from '@/lib/trpc'
+import { describeReminder, REMINDER_PRESETS } from '@/lib/reminders'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+const CUSTOM = '__CUSTOM__'
+
+interface ReminderListProps {
+  taskId?: string
+  calendarEventId?: string
+  /** Saved due date or start time that relative reminders count from */
+  anchor?: Date | null
+}
+
+export function ReminderList({
+  taskId,
+  calendarEventId,
+  anchor,
+}: ReminderListProps) {
+  const [customAt, setCustomAt] = useState<string | null>(null)
+
+  const utils = trpc.useUtils()
+  const target = taskId ? { taskId } : { calendarEventId }
+
+  const { data: reminders = [] } = trpc.reminder.list.useQuery(target)
+
+  const createMutation = trpc.reminder.create.useMutation({
+    onSuccess: () => {
+      utils.reminder.list.invalidate(target)
+      setCustomAt(null)
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to add reminder')
+    },
+  })
+
+  const deleteMutation = trpc.reminder.delete.useMutation({
+    onSuccess: () => {
+      utils.reminder.list.invalidate(target)
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to remove reminder')
+    },
+  })
+
+  const handlePreset = (value: string) => {
+    if (value === CUSTOM) {
+      setCustomAt(format(anchor ?? new Date(), "yyyy-MM-dd'T'HH:mm"))
+      return
+    }
+    const preset = REMINDER_PRESETS.find((entry) => entry.id === value)
+    if (!preset) return
+
+    createMutation.mutate({
+      target,
+      rule:
+        preset.rule.kind === 'BEFORE'
+          ? { kind: 'BEFORE', offsetMinutes: preset.rule.offsetMinutes ?? 0 }
+          : { kind: 'MORNING_OF' },
+    })
+  }
+
+  const handleAddCustom = () => {
+    if (!customAt) return
+    createMutation.mutate({
+      target,
+      // datetime-local values have no zone, so they parse as local time
+      rule: { kind: 'AT', remindAt: new Date(customAt) },
+    })
+  }
+
+  return (
+    <div className="space-y-2">
+      {reminders.length > 0 && (
+        <ul className="space-y-1">
+          {reminders.map((reminder) => (
+            <li
+              key={reminder.id}
+              className="flex items-center justify-between gap-2 rounded-md border px-3 py-1.5 text-sm"
+            >
+              <span className="flex min-w-0 items-center gap-2">
+                {reminder.fireAt ? (
+                  <Bell className="h-4 w-4 flex-shrink-0 text-blue-500" />
+                ) : (
+                  <BellOff className="h-4 w-4 flex-shrink-0 text-gray-400" />
+                )}
+                <span className="truncate">{describeReminder(reminder)}</span>
+                <span className="text-muted-foreground flex-shrink-0 text-xs">
+                  {reminder.fireAt
+                    ? format(new Date(reminder.fireAt), 'MMM d, h:mm a')
+                    : reminder.firedAt
+                      ? 'Sent'
+                      : 'Not scheduled'}
+                </span>
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => deleteMutation.mutate({ id: reminder.id })}
+                aria-label="Remove reminder"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {customAt !== null ? (
+        <div className="flex gap-2">
+          <Input
+            type="datetime-local"
+            value={customAt}
+            onChange={(e) => setCustomAt(e.target.value)}
+            className="flex-1"
+          />
+          <Button
+            type="button"
+            size="sm"
+            onClick={handleAddCustom}
+            disabled={!customAt || createMutation.isPending}
+          >
+            Add
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setCustomAt(null)}
+          >
+            Cancel
+          </Button>
+        </div>
+      ) : (
+        <Select value="" onValueChange={handlePreset}>
+          <SelectTrigger disabled={createMutation.isPending}>
+            <SelectValue placeholder="Add reminder..." />
+          </SelectTrigger>
+          <SelectContent>
+            {REMINDER_PRESETS.map((preset) => (
+              <SelectItem
+                key={preset.id}
+                value={preset.id}
+                // Relative reminders need a date to count from
+                disabled={!anchor}
+              >
+                {preset.label}
+              </SelectItem>
+            ))}
+            <SelectItem value={CUSTOM}>At a specific time...</SelectItem>
+          </SelectContent>
+        </Select>
+      )}
+      {taskId && !anchor && (
+        <p className="text-muted-foreground text-xs">
+          Set and save a due date to remind relative to it.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,193 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Check, Plus, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { cn } from '@/lib/utils'
+import { trpc } from '@/lib/trpc'
+import {
+  DEFAULT_TAG_COLOR,
+  normalizeTagName,
+  TAG_COLORS,
+  type TagSummary,
+} from '@/lib/tags'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+
+interface TagBadgeProps {
+  tag: TagSummary
+  onRemove?: () => void
+  className?: string
+}
+
+export function TagBadge({ tag, onRemove, className }: TagBadgeProps) {
+  return (
+    <Badge variant="secondary" className={cn('gap-1.5 font-medium', className)}>
+      <span
+        className="h-2 w-2 flex-shrink-0 rounded-full"
+        style={{ backgroundColor: tag.color }}
+      />
+      {tag.name}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="hover:bg-muted-foreground/20 rounded-full p-0.5"
+          aria-label={`Remove ${tag.name}`}
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </Badge>
+  )
+}
+
+interface TagPickerProps {
+  /** Selected tag ids */
+  value: string[]
+  onChange: (tagIds: string[]) => void
+  className?: string
+}
+
+export function TagPicker({ value, onChange, className }: TagPickerProps) {
+  const [open, setOpen] = useState(false)
+  const [search, setSearch] = useState('')
+  const [newColor, setNewColor] = useState<string>(DEFAULT_TAG_COLOR)
+
+  const utils = trpc.useUtils()
+  const { data: tags = [] } = trpc.tag.list.useQuery()
+
+  const createTagMutation = trpc.tag.create.useMutation({
+    onSuccess: (tag) => {
+      utils.tag.list.invalidate()
+      onChange([...value, tag.id])
+      setSearch('')
+      setNewColor(DEFAULT_TAG_COLOR)
+    },
+    onError: (error) => {
+      toast.error(error.message)
+    },
+  })
+
+  const selected = value
+    .map((id) => tags.find((tag) => tag.id === id))
+    .filter((tag): tag is (typeof tags)[number] => !!tag)
+
+  const name = normalizeTagName(search)
+  const matching = tags.filter((tag) =>
+    tag.name.toLowerCase().includes(name.toLowerCase())
+  )
+  const exactMatch = tags.some(
+    (tag) => tag.name.toLowerCase() === name.toLowerCase()
+  )
+
+  const toggle = (tagId: string) => {
+    onChange(
+      value.includes(tagId)
+        ? value.filter((id) => id !== tagId)
+        : [...value, tagId]
+    )
+  }
+
+  const handleCreate = () => {
+    if (!name || exactMatch) return
+    createTagMutation.mutate({ name, color: newColor })
+  }
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-2', className)}>
+      {selected.map((tag) => (
+        <TagBadge key={tag.id} tag={tag} onRemove={() => toggle(tag.id)} />
+      ))}
+
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline" size="sm" className="h-7">
+            <Plus className="mr-1 h-3 w-3" />
+            {selected.length === 0 ? 'Add tags' : 'Edit'}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-64 p-2">
+          <Input
+            placeholder="Search or create a tag..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault()
+                if (matching.length === 1 && name) {
+                  toggle(matching[0].id)
+                  setSearch('')
+                } else {
+                  handleCreate()
+                }
+              }
+            }}
+            className="h-8"
+            autoFocus
+          />
+
+          <div className="mt-2 max-h-48 overflow-y-auto">
+            {matching.map((tag) => (
+              <button
+                key={tag.id}
+                type="button"
+                onClick={() => toggle(tag.id)}
+                className="flex w-full items-center gap-2 rounded px-2 py-1.5 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-800"
+              >
+                <span
+                  className="h-2.5 w-2.5 flex-shrink-0 rounded-full"
+                  style={{ backgroundColor: tag.color }}
+                />
+                <span className="flex-1 truncate">{tag.name}</span>
+                {value.includes(tag.id) && <Check className="h-4 w-4" />}
+              </button>
+            ))}
+            {matching.length === 0 && !name && (
+              <p className="px-2 py-1.5 text-sm text-gray-500">
+                No tags yet. Type a name to create one.
+              </p>
+            )}
+          </div>
+
+          {name && !exactMatch && (
+            <div className="mt-2 space-y-2 border-t pt-2">
+              <div className="flex gap-1.5">
+                {TAG_COLORS.map((color) => (
+                  <button
+                    key={color.value}
+                    type="button"
+                    title={color.name}
+                    onClick={() => setNewColor(color.value)}
+                    className={cn(
+                      'h-5 w-5 rounded-full border-2',
+                      newColor === color.value
+                        ? 'border-gray-900 dark:border-white'
+                        : 'border-transparent'
+                    )}
+                    style={{ backgroundColor: color.value }}
+                  />
+                ))}
+              </div>
+              <Button
+                type="button"
+                size="sm"
+                className="w-full"
+                onClick={handleCreate}
+                disabled={createTagMutation.isPending}
+              >
+                Create &ldquo;{name}&rdquo;
+              </Button>
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+    </div>
+  )
+}
@@ -17,6 +17,7 @@ import {
   verticalListSortingStrategy,
 } from '@dnd-kit/sortable'
 import { SortableTaskCard } from './sortable-task-card'
+import { SubtaskList } from './subtask-list'
 
 type Task = {
   id: string
@@ -25,7 +26,9 @@ type Task = {
   dueDate?: Date | null
   priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT'
   status: 'ACTIVE' | 'COMPLETED' | 'ARCHIVED'
-  label?: string | null
+  tags?: { id: string; name: string; color: string }[]
+  project?: { id: string; name: string; color: string } | null
+  deferUntil?: Date | null
   order: number
   calendarEventId?: string | null
   calendarEvent?: {
@@ -33,31 +36,49 @@ type Task = {
     title: string
     startsAt: Date
   } | null
+  parentId?: string | null
+  recurrenceRule?: string | null
+  estimateMinutes?: number | null
+  trackedMinutes?: number
+  subtaskProgress?: {
+    total: number
+    completed: number
+  }
   createdAt: Date
   updatedAt: Date
 }
 
 interface DraggableTaskListProps {
   tasks: Task[]
+  childrenByParent?: Map<string, Task[]>
   selectedTasks: string[]
   onToggleComplete?: (taskId: string) => void
   onEdit?: (task: Task) => void
   onArchive?: (taskId: string) => void
   onDelete?: (taskId: string) => void
   onSelect?: (taskId: string, selected: boolean) => void
-  onReorder?: (taskIds: string[]) => void
+  onAddSubtask?: (task: Task) => void
+  onSnooze?: (taskId: string, until: Date | null) => void
+  /** Called after a drop with the tasks now just before and after it */
+  onMove?: (
+    taskId: string,
+    neighbours: { beforeId: string | null; afterId: string | null }
+  ) => void
   showCheckbox?: boolean
 }
 
 export function DraggableTaskList({
   tasks,
+  childrenByParent,
   selectedTasks,
   onToggleComplete,
   onEdit,
   onArchive,
   onDelete,
   onSelect,
-  onReorder,
+  onAddSubtask,
+  onSnooze,
+  onMove,
   showCheckbox = false,
 }: DraggableTaskListProps) {
   const [items, setItems] = useState(tasks)
@@ -88,8 +109,11 @@ export function DraggableTaskList({
       const newItems = arrayMove(items, oldIndex, newIndex)
       setItems(newItems)
 
-      // Call the onReorder callback with the new order
-      onReorder?.(newItems.map((item) => item.id))
+      // Only the neighbours are sent, so the server can rank the one task
+      onMove?.(active.id as string, {
+        beforeId: newItems[newIndex - 1]?.id ?? null,
+        afterId: newItems[newIndex + 1]?.id ?? null,
+      })
     }
   }
 
@@ -102,17 +126,35 @@ export function DraggableTaskList({
       <SortableContext items={items} strategy={verticalListSortingStrategy}>
         <div className="space-y-3">
           {items.map((task) => (
-            <SortableTaskCard
-              key={task.id}
-              task={task}
-              selected={selectedTasks.includes(task.id)}
-              onToggleComplete={onToggleComplete}
-              onEdit={onEdit}
-              onArchive={onArchive}
-              onDelete={onDelete}
-              onSelect={onSelect}
-              showCheckbox={showCheckbox}
-            />
+            <React.Fragment key={task.id}>
+              <SortableTaskCard
+                task={task}
+                selected={selectedTasks.includes(task.id)}
+                onToggleComplete={onToggleComplete}
+                onEdit={onEdit}
+                onArchive={onArchive}
+                onDelete={onDelete}
+                onSelect={onSelect}
+                onAddSubtask={onAddSubtask}
+                onSnooze={onSnooze}
+                showCheckbox={showCheckbox}
+              />
+              {childrenByParent && (
+                <SubtaskList
+                  parentId={task.id}
+                  childrenByParent={childrenByParent}
+                  selectedTasks={selectedTasks}
+                  onToggleComplete={onToggleComplete}
+                  onEdit={onEdit}
+                  onArchive={onArchive}
+                  onDelete={onDelete}
+                  onSelect={onSelect}
+                  onAddSubtask={onAddSubtask}
+                  onSnooze={onSnooze}
+                  showCheckbox={showCheckbox}
+                />
+              )}
+            </React.Fragment>
           ))}
         </div>
       </SortableContext>
@@ -0,0 +1,671 @@
+'use client'
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import {
+  DndContext,
+  closestCorners,
+  KeyboardSensor,
+  PointerSensor,
+  useDroppable,
+  useSensor,
+  useSensors,
+  DragEndEvent,
+} from '@dnd-kit/core'
+import {
+  arrayMove,
+  SortableContext,
+  sortableKeyboardCoordinates,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable'
+import { toast } from 'sonner'
+import { AlertTriangle, MoreHorizontal, Plus } from 'lucide-react'
+import { trpc } from '@/lib/trpc'
+import { cn } from '@/lib/utils'
+import {
+  getColumnMoveChange,
+  getKanbanColumns,
+  groupTasksByColumn,
+  isOverWipLimit,
+  KANBAN_GROUP_BY_LABELS,
+  MAX_WIP_LIMIT,
+  parseCardId,
+  toCardId,
+  type KanbanColumnDef,
+  type KanbanFieldChange,
+} from '@/lib/kanban'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { SortableTaskCard } from './sortable-task-card'
+
+type KanbanGroupBy = 'STATUS' | 'PRIORITY' | 'TAG' | 'CUSTOM'
+
+type Task = {
+  id: string
+  title: string
+  description?: string | null
+  dueDate?: Date | null
+  priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT'
+  status: 'ACTIVE' | 'COMPLETED' | 'ARCHIVED'
+  tags?: { id: string; name: string; color: string }[]
+  project?: { id: string; name: string; color: string } | null
+  deferUntil?: Date | null
+  order: number
+  calendarEventId?: string | null
+  calendarEvent?: {
+    id: string
+    title: string
+    startsAt: Date
+  } | null
+  parentId?: string | null
+  kanbanColumnId?: string | null
+  recurrenceRule?: string | null
+  estimateMinutes?: number | null
+  trackedMinutes?: number
+  subtaskProgress?: {
+    total: number
+    completed: number
+  }
+  createdAt: Date
+  updatedAt: Date
+}
+
+type Neighbours = { beforeId: string | null; afterId: string | null }
+
+// Column settings being edited: a WIP limit, or the name of a custom column
+type ColumnDialog =
+  | { type: 'wip'; column: KanbanColumnDef }
+  | { type: 'name'; columnId: string | null; name: string }
+
+interface KanbanBoardProps {
+  projectId?: string
+  onToggleComplete?: (taskId: string) => void
+  onEdit?: (task: Task) => void
+  onArchive?: (taskId: string) => void
+  onDelete?: (taskId: string) => void
+  onAddSubtask?: (task: Task) => void
+  onSnooze?: (taskId: string, until: Date | null) => void
+}
+
+export function KanbanBoard({
+  projectId,
+  onToggleComplete,
+  onEdit,
+  onArchive,
+  onDelete,
+  onAddSubtask,
+  onSnooze,
+}: KanbanBoardProps) {
+  const [dialog, setDialog] = useState<ColumnDialog | null>(null)
+  const [dialogValue, setDialogValue] = useState('')
+  const utils = trpc.useUtils()
+
+  const { data: preferences } = trpc.kanban.getPreferences.useQuery()
+  const groupBy = preferences?.groupBy ?? 'STATUS'
+  const wipLimits = useMemo(
+    () => preferences?.wipLimits ?? {},
+    [preferences?.wipLimits]
+  )
+
+  const { data: tags } = trpc.tag.list.useQuery(undefined, {
+    enabled: groupBy === 'TAG',
+  })
+  const { data: customColumns } = trpc.kanban.listColumns.useQuery(undefined, {
+    enabled: groupBy === 'CUSTOM',
+  })
+  // Only the status board needs finished tasks
+  const { data: tasks, isLoading } = trpc.task.list.useQuery(
+    {
+      projectId,
+      status: groupBy === 'STATUS' ? undefined : 'ACTIVE',
+    },
+    { enabled: !!preferences }
+  )
+
+  const columns = useMemo(
+    () => getKanbanColumns(groupBy, { tags, customColumns }),
+    [groupBy, tags, customColumns]
+  )
+
+  // Subtasks stay with their parent and show up as its progress
+  const buildColumns = useCallback(
+    () =>
+      groupTasksByColumn(
+        groupBy,
+        (tasks ?? []).filter((task) => !task.parentId),
+        columns
+      ),
+    [groupBy, tasks, columns]
+  )
+  const [grouped, setGrouped] = useState<Map<string, Task[]>>(buildColumns)
+
+  useEffect(() => {
+    setGrouped(buildColumns())
+  }, [buildColumns])
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8,
+      },
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  )
+
+  const refresh = () => {
+    utils.task.invalidate()
+    utils.savedView.counts.invalidate()
+  }
+
+  const updatePreferencesMutation = trpc.kanban.updatePreferences.useMutation({
+    onSuccess: (data) => {
+      utils.kanban.getPreferences.setData(undefined, data)
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to change grouping')
+    },
+  })
+
+  const setWipLimitMutation = trpc.kanban.setWipLimit.useMutation({
+    onSuccess: (data) => {
+      utils.kanban.getPreferences.setData(undefined, data)
+      setDialog(null)
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to set WIP limit')
+    },
+  })
+
+  const columnMutationOptions = {
+    onSuccess: () => {
+      utils.kanban.listColumns.invalidate()
+      setDialog(null)
+    },
+    onError: (error: { message: string }) => {
+      toast.error(error.message || 'Failed to save column')
+    },
+  }
+  const createColumnMutation = trpc.kanban.createColumn.useMutation(
+    columnMutationOptions
+  )
+  const updateColumnMutation = trpc.kanban.updateColumn.useMutation(
+    columnMutationOptions
+  )
+  const reorderColumnsMutation = trpc.kanban.reorderColumns.useMutation(
+    columnMutationOptions
+  )
+  const deleteColumnMutation = trpc.kanban.deleteColumn.useMutation({
+    onSuccess: () => {
+      utils.kanban.listColumns.invalidate()
+      refresh()
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to delete column')
+    },
+  })
+
+  const updateTaskMutation = trpc.task.update.useMutation()
+  const bulkUpdateMutation = trpc.task.bulkUpdate.useMutation()
+  const moveTaskMutation = trpc.task.move.useMutation({
+    onSettled: refresh,
+  })
+
+  // Put the board back the way the server has it
+  const handleMoveError = (error: { message: string }) => {
+    toast.error(error.message || 'Failed to move task')
+    setGrouped(buildColumns())
+    refresh()
+  }
+
+  // Changes the grouped field through the task router first, so completion
+  // rules and activity apply as usual, then ranks the task in its column
+  const saveMove = (
+    taskId: string,
+    change: KanbanFieldChange | null,
+    neighbours: Neighbours,
+    openSubtasks: 'block' | 'cascade' = 'block'
+  ) => {
+    const onSuccess = () =>
+      moveTaskMutation.mutate(
+        { id: taskId, ...neighbours },
+        { onError: handleMoveError }
+      )
+
+    if (!change) {
+      onSuccess()
+    } else if ('status' in change) {
+      bulkUpdateMutation.mutate(
+        { taskIds: [taskId], data: change, openSubtasks },
+        {
+          onSuccess,
+          onError: (error) => {
+            if (error.data?.code !== 'PRECONDITION_FAILED') {
+              handleMoveError(error)
+              return
+            }
+            setGrouped(buildColumns())
+            toast(error.message, {
+              action: {
+                label: 'Complete all',
+                onClick: () => saveMove(taskId, change, neighbours, 'cascade'),
+              },
+            })
+          },
+        }
+      )
+    } else {
+      updateTaskMutation.mutate(
+        { id: taskId, data: change },
+        { onSuccess, onError: handleMoveError }
+      )
+    }
+  }
+
+  function handleDragEnd(event: DragEndEvent) {
+    const { active, over } = event
+    if (!over || active.id === over.id) {
+      return
+    }
+
+    const { columnKey: fromKey, taskId } = parseCardId(active.id as string)
+    // Dropped onto another card, or onto the empty part of a column
+    const overColumn = grouped.has(over.id as string)
+    const overCard = overColumn ? null : parseCardId(over.id as string)
+    const toKey = overCard?.columnKey ?? (over.id as string)
+
+    const source = grouped.get(fromKey) ?? []
+    const task = source.find((item) => item.id === taskId)
+    if (!task) {
+      return
+    }
+
+    let items: Task[]
+    if (fromKey === toKey) {
+      const oldIndex = source.indexOf(task)
+      const newIndex = overCard
+        ? source.findIndex((item) => item.id === overCard.taskId)
+        : source.length - 1
+      items = arrayMove(source, oldIndex, newIndex)
+    } else {
+      items = (grouped.get(toKey) ?? []).filter((item) => item.id !== taskId)
+      const overIndex = overCard
+        ? items.findIndex((item) => item.id === overCard.taskId)
+        : -1
+      items.splice(overIndex === -1 ? items.length : overIndex, 0, task)
+    }
+
+    const change = getColumnMoveChange(groupBy, task, fromKey, toKey)
+    const index = items.indexOf(task)
+    const neighbours = {
+      beforeId: items[index - 1]?.id ?? null,
+      afterId: items[index + 1]?.id ?? null,
+    }
+
+    setGrouped((current) => {
+      const next = new Map(current)
+      if (fromKey !== toKey) {
+        next.set(
+          fromKey,
+          source.filter((item) => item.id !== taskId)
+        )
+      }
+      next.set(toKey, items)
+      return next
+    })
+
+    const limit = wipLimits[toKey]
+    if (change && isOverWipLimit(items.length, limit)) {
+      const column = columns.find((item) => item.key === toKey)
+      toast.warning(
+        `${column?.title ?? 'This column'} is over its WIP limit of ${limit}`
+      )
+    }
+
+    saveMove(taskId, change, neighbours)
+  }
+
+  const openDialog = (next: ColumnDialog) => {
+    setDialog(next)
+    setDialogValue(
+      next.type === 'wip' ? String(wipLimits[next.column.key] ?? '') : next.name
+    )
+  }
+
+  const handleDialogSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!dialog) {
+      return
+    }
+
+    if (dialog.type === 'wip') {
+      const limit = dialogValue.trim() ? Number(dialogValue) : null
+      if (limit !== null && !(Number.isInteger(limit) && limit > 0)) {
+        toast.error('WIP limit must be a whole number above zero')
+        return
+      }
+      setWipLimitMutation.mutate({ columnKey: dialog.column.key, limit })
+    } else if (dialog.columnId) {
+      updateColumnMutation.mutate({
+        id: dialog.columnId,
+        data: { name: dialogValue },
+      })
+    } else {
+      createColumnMutation.mutate({ name: dialogValue })
+    }
+  }
+
+  // Custom columns move one step left or right at a time
+  const handleShiftColumn = (columnId: string, offset: number) => {
+    const ids = (customColumns ?? []).map((column) => column.id)
+    const index = ids.indexOf(columnId)
+    const target = index + offset
+    if (target < 0 || target >= ids.length) {
+      return
+    }
+    reorderColumnsMutation.mutate({ ids: arrayMove(ids, index, target) })
+  }
+
+  const handleDeleteColumn = (columnId: string, name: string) => {
+    if (
+      window.confirm(`Delete the "${name}" column? Its tasks move to Unsorted.`)
+    ) {
+      deleteColumnMutation.mutate({ id: columnId })
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-gray-600 dark:text-gray-400">
+          Group by
+        </span>
+        <Select
+          value={groupBy}
+          onValueChange={(value) =>
+            updatePreferencesMutation.mutate({
+              groupBy: value as KanbanGroupBy,
+            })
+          }
+        >
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(KANBAN_GROUP_BY_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {groupBy === 'CUSTOM' && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            onClick={() =>
+              openDialog({ type: 'name', columnId: null, name: '' })
+            }
+          >
+            <Plus className="h-4 w-4" />
+            Add Column
+          </Button>
+        )}
+      </div>
+
+      {isLoading || !preferences ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="text-gray-500 dark:text-gray-400">
+            Loading board...
+          </div>
+        </div>
+      ) : (
+        <DndContext
+          sensors={sensors}
+          collisionDetection={closestCorners}
+          onDragEnd={handleDragEnd}
+        >
+          <div className="flex gap-4 overflow-x-auto pb-4">
+            {columns.map((column) => {
+              const columnTasks = grouped.get(column.key) ?? []
+              const customId = column.customColumnId
+
+              return (
+                <KanbanColumn
+                  key={column.key}
+                  column={column}
+                  count={columnTasks.length}
+                  limit={wipLimits[column.key]}
+                  menu={
+                    <>
+                      <DropdownMenuItem
+                        onClick={() => openDialog({ type: 'wip', column })}
+                      >
+                        Set WIP Limit
+                      </DropdownMenuItem>
+                      {customId && (
+                        <>
+                          <DropdownMenuItem
+                            onClick={() =>
+                              openDialog({
+                                type: 'name',
+                                columnId: customId,
+                                name: column.title,
+                              })
+                            }
+                          >
+                            Rename
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() => handleShiftColumn(customId, -1)}
+                          >
+                            Move Left
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() => handleShiftColumn(customId, 1)}
+                          >
+                            Move Right
+                          </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem
+                            onClick={() =>
+                              handleDeleteColumn(customId, column.title)
+                            }
+                            className="text-red-600 focus:text-red-600"
+                          >
+                            Delete Column
+                          </DropdownMenuItem>
+                        </>
+                      )}
+                    </>
+                  }
+                >
+                  <SortableContext
+                    items={columnTasks.map((task) =>
+                      toCardId(column.key, task.id)
+                    )}
+                    strategy={verticalListSortingStrategy}
+                  >
+                    {columnTasks.map((task) => (
+                      <SortableTaskCard
+                        key={task.id}
+                        sortableId={toCardId(column.key, task.id)}
+                        task={task}
+                        onToggleComplete={onToggleComplete}
+                        onEdit={onEdit}
+                        onArchive={onArchive}
+                        onDelete={onDelete}
+                        onAddSubtask={onAddSubtask}
+                        onSnooze={onSnooze}
+                      />
+                    ))}
+                  </SortableContext>
+                </KanbanColumn>
+              )
+            })}
+          </div>
+        </DndContext>
+      )}
+
+      <Dialog
+        open={dialog !== null}
+        onOpenChange={(open) => !open && setDialog(null)}
+      >
+        <DialogContent className="sm:max-w-sm">
+          <form onSubmit={handleDialogSubmit}>
+            <DialogHeader>
+              <DialogTitle>
+                {dialog?.type === 'wip'
+                  ? `WIP limit for ${dialog.column.title}`
+                  : dialog?.columnId
+                    ? 'Rename Column'
+                    : 'New Column'}
+              </DialogTitle>
+            </DialogHeader>
+            <div className="space-y-2 py-4">
+              {dialog?.type === 'wip' ? (
+                <>
+                  <Label htmlFor="kanban-wip-limit">Maximum tasks</Label>
+                  <Input
+                    id="kanban-wip-limit"
+                    type="number"
+                    min={1}
+                    max={MAX_WIP_LIMIT}
+                    placeholder="No limit"
+                    value={dialogValue}
+                    onChange={(event) => setDialogValue(event.target.value)}
+                    autoFocus
+                  />
+                </>
+              ) : (
+                <>
+                  <Label htmlFor="kanban-column-name">Name</Label>
+                  <Input
+                    id="kanban-column-name"
+                    value={dialogValue}
+                    onChange={(event) => setDialogValue(event.target.value)}
+                    maxLength={40}
+                    autoFocus
+                  />
+                </>
+              )}
+            </div>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setDialog(null)}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={
+                  setWipLimitMutation.isPending ||
+                  createColumnMutation.isPending ||
+                  updateColumnMutation.isPending ||
+                  (dialog?.type === 'name' && !dialogValue.trim())
+                }
+              >
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
+
+interface KanbanColumnProps {
+  column: KanbanColumnDef
+  count: number
+  limit?: number
+  menu: React.ReactNode
+  children: React.ReactNode
+}
+
+// A drop target of its own, so cards can land in an empty column
+function KanbanColumn({
+  column,
+  count,
+  limit,
+  menu,
+  children,
+}: KanbanColumnProps) {
+  const { setNodeRef, isOver } = useDroppable({ id: column.key })
+  const overLimit = isOverWipLimit(count, limit)
+
+  return (
+    <div
+      className={cn(
+        'flex w-80 flex-shrink-0 flex-col rounded-lg border bg-gray-50 dark:bg-gray-900',
+        overLimit && 'border-red-300 dark:border-red-800'
+      )}
+    >
+      <div className="flex items-center justify-between gap-2 px-3 py-2">
+        <div className="flex min-w-0 items-center gap-2">
+          {column.color && (
+            <span
+              className="h-2.5 w-2.5 flex-shrink-0 rounded-full"
+              style={{ backgroundColor: column.color }}
+            />
+          )}
+          <h3 className="truncate text-sm font-semibold">{column.title}</h3>
+          <span
+            className={cn(
+              'flex items-center gap-1 text-xs',
+              overLimit
+                ? 'font-medium text-red-600 dark:text-red-400'
+                : 'text-gray-500 dark:text-gray-400'
+            )}
+            title={overLimit ? 'Over the WIP limit' : undefined}
+          >
+            {overLimit && <AlertTriangle className="h-3 w-3" />}
+            {limit !== undefined ? `${count}/${limit}` : count}
+          </span>
+        </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0">
+              <MoreHorizontal className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">{menu}</DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+      <div
+        ref={setNodeRef}
+        className={cn(
+          'min-h-24 flex-1 space-y-3 p-3 pt-0',
+          isOver && 'rounded-b-lg bg-blue-50 dark:bg-blue-950'
+        )}
+      >
+        {children}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,158 @@
+'use client'
+
+import { useMemo } from 'react'
+import { Clock, Flag, Plus, SlidersHorizontal, Tag } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { trpc } from '@/lib/trpc'
+import { parseQuickAdd, type QuickAddTokenType } from '@/lib/quick-add'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+interface QuickAddInputProps {
+  value: string
+  onChange: (value: string) => void
+  onSubmit: (text: string) => void
+  onOpenDetails?: () => void
+  isLoading?: boolean
+}
+
+const tokenStyles: Record<QuickAddTokenType, string> = {
+  date: 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300',
+  time: 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300',
+  priority: 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300',
+  tag: 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300',
+}
+
+const priorityLabels = {
+  LOW: 'Low',
+  MEDIUM: 'Medium',
+  HIGH: 'High',
+  URGENT: 'Urgent',
+}
+
+export function QuickAddInput({
+  value,
+  onChange,
+  onSubmit,
+  onOpenDetails,
+  isLoading = false,
+}: QuickAddInputProps) {
+  // Dates are read on the user's clock, as the server will read them
+  const { data: settings } = trpc.user.getSettings.useQuery()
+  const timeZone =
+    settings?.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone
+  const { input, tokens } = useMemo(
+    () => parseQuickAdd(value, { timeZone }),
+    [value, timeZone]
+  )
+  const hasTime = tokens.some((token) => token.type === 'time')
+
+  const segments = useMemo(() => {
+    const parts: { text: string; type?: QuickAddTokenType }[] = []
+    let cursor = 0
+    tokens.forEach((token) => {
+      if (token.start > cursor) {
+        parts.push({ text: value.slice(cursor, token.start) })
+      }
+      parts.push({ text: token.text, type: token.type })
+      cursor = token.end
+    })
+    if (cursor < value.length) {
+      parts.push({ text: value.slice(cursor) })
+    }
+    return parts
+  }, [value, tokens])
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' && input.title && !isLoading) {
+      e.preventDefault()
+      onSubmit(value)
+    } else if (e.key === 'Escape') {
+      onChange('')
+    }
+  }
+
+  return (
+    <div className="rounded-lg border-2 border-dashed border-gray-300 p-3 focus-within:border-blue-400 dark:border-gray-600">
+      <div className="flex items-center gap-2">
+        <Plus className="h-4 w-4 flex-shrink-0 text-gray-400" />
+        <Input
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder='Add a task... e.g. "Pay rent tomorrow 5pm !urgent #finance"'
+          className="border-0 shadow-none focus-visible:ring-0"
+          aria-label="Quick add task"
+        />
+        {onOpenDetails && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={onOpenDetails}
+            title="Open full task form"
+          >
+            <SlidersHorizontal className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {/* Live preview */}
+      {value.trim() && (
+        <div
+          className="mt-2 space-y-1 pl-6 text-xs"
+          data-testid="quick-add-preview"
+        >
+          <p className="text-gray-600 dark:text-gray-400">
+            {segments.map((segment, index) =>
+              segment.type ? (
+                <mark
+                  key={index}
+                  className={cn('rounded px-0.5', tokenStyles[segment.type])}
+                >
+                  {segment.text}
+                </mark>
+              ) : (
+                <span key={index}>{segment.text}</span>
+              )
+            )}
+          </p>
+          <div className="flex flex-wrap items-center gap-3 text-gray-500">
+            <span
+              className={cn(
+                'font-medium',
+                input.title ? 'text-gray-900 dark:text-white' : 'text-red-500'
+              )}
+            >
+              {input.title || 'Add a title'}
+            </span>
+            {input.dueDate && (
+              <span className="flex items-center gap-1">
+                <Clock className="h-3 w-3" />
+                {input.dueDate.toLocaleString('en-US', {
+                  timeZone,
+                  weekday: 'short',
+                  month: 'short',
+                  day: 'numeric',
+                  ...(hasTime && { hour: 'numeric', minute: '2-digit' }),
+                })}
+              </span>
+            )}
+            {input.priority && (
+              <span className="flex items-center gap-1">
+                <Flag className="h-3 w-3" />
+                {priorityLabels[input.priority]}
+              </span>
+            )}
+            {input.tag && (
+              <span className="flex items-center gap-1">
+                <Tag className="h-3 w-3" />
+                {input.tag}
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,324 @@
+'use client'
+
+import { format, getDay } from 'date-fns'
+import { Repeat } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import {
+  WEEKDAYS,
+  describeRecurrenceRule,
+  formatRecurrenceRule,
+  parseRecurrenceRule,
+  type RecurrenceRule,
+  type Weekday,
+} from '@/lib/recurrence'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+interface RecurrenceEditorProps {
+  value?: string | null
+  onChange: (value: string | undefined) => void
+  referenceDate?: Date
+}
+
+const weekdayLabels: Record<Weekday, string> = {
+  SU: 'S',
+  MO: 'M',
+  TU: 'T',
+  WE: 'W',
+  TH: 'T',
+  FR: 'F',
+  SA: 'S',
+}
+
+const positionOptions = [
+  { value: '1', label: 'First' },
+  { value: '2', label: 'Second' },
+  { value: '3', label: 'Third' },
+  { value: '4', label: 'Fourth' },
+  { value: '-1', label: 'Last' },
+]
+
+const unitLabels = {
+  DAILY: 'day(s)',
+  WEEKLY: 'week(s)',
+  MONTHLY: 'month(s)',
+}
+
+function parseValue(value?: string | null): RecurrenceRule | null {
+  if (!value) return null
+  try {
+    return parseRecurrenceRule(value)
+  } catch {
+    return null
+  }
+}
+
+export function RecurrenceEditor({
+  value,
+  onChange,
+  referenceDate = new Date(),
+}: RecurrenceEditorProps) {
+  const rule = parseValue(value)
+  const referenceWeekday = WEEKDAYS[getDay(referenceDate)]
+  const referencePosition = Math.min(Math.ceil(referenceDate.getDate() / 7), 4)
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (!rule) return
+    onChange(formatRecurrenceRule({ ...rule, ...changes }))
+  }
+
+  const handleFrequencyChange = (freq: string) => {
+    switch (freq) {
+      case 'DAILY':
+        onChange(formatRecurrenceRule({ freq, interval: 1 }))
+        break
+      case 'WEEKLY':
+        onChange(
+          formatRecurrenceRule({
+            freq,
+            interval: 1,
+            byDay: [referenceWeekday],
+          })
+        )
+        break
+      case 'MONTHLY':
+        onChange(
+          formatRecurrenceRule({
+            freq,
+            interval: 1,
+            byMonthDay: referenceDate.getDate(),
+          })
+        )
+        break
+      default:
+        onChange(undefined)
+    }
+  }
+
+  const toggleWeekday = (day: Weekday) => {
+    const current = rule?.byDay ?? []
+    const next = current.includes(day)
+      ? current.filter((d) => d !== day)
+      : WEEKDAYS.filter((d) => d === day || current.includes(d))
+    // Keep at least one weekday selected
+    if (next.length > 0) {
+      update({ byDay: next })
+    }
+  }
+
+  const handleMonthlyModeChange = (mode: string) => {
+    if (mode === 'weekday') {
+      update({
+        byMonthDay: undefined,
+        byDay: [referenceWeekday],
+        bySetPos: referencePosition,
+      })
+    } else {
+      update({
+        byDay: undefined,
+        bySetPos: undefined,
+        byMonthDay: referenceDate.getDate(),
+      })
+    }
+  }
+
+  const handleEndChange = (end: string) => {
+    if (end === 'until') {
+      update({ count: undefined, until: rule?.until ?? referenceDate })
+    } else if (end === 'count') {
+      update({ until: undefined, count: rule?.count ?? 10 })
+    } else {
+      update({ until: undefined, count: undefined })
+    }
+  }
+
+  const endMode = rule?.until ? 'until' : rule?.count ? 'count' : 'never'
+  const monthlyMode = rule?.bySetPos !== undefined ? 'weekday' : 'day'
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Select
+          value={rule?.freq ?? 'none'}
+          onValueChange={handleFrequencyChange}
+        >
+          <SelectTrigger className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Does not repeat</SelectItem>
+            <SelectItem value="DAILY">Daily</SelectItem>
+            <SelectItem value="WEEKLY">Weekly</SelectItem>
+            <SelectItem value="MONTHLY">Monthly</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {rule && (
+          <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+            <span>every</span>
+            <Input
+              type="number"
+              min={1}
+              value={rule.interval}
+              onChange={(e) =>
+                update({ interval: Math.max(1, Number(e.target.value) || 1) })
+              }
+              className="w-16"
+              aria-label="Interval"
+            />
+            <span>{unitLabels[rule.freq]}</span>
+          </div>
+        )}
+      </div>
+
+      {/* Weekdays */}
+      {rule?.freq === 'WEEKLY' && (
+        <div className="flex gap-1">
+          {WEEKDAYS.map((day) => (
+            <button
+              key={day}
+              type="button"
+              onClick={() => toggleWeekday(day)}
+              aria-pressed={rule.byDay?.includes(day) ?? false}
+              aria-label={day}
+              className={cn(
+                'h-8 w-8 rounded-full border text-xs font-medium',
+                rule.byDay?.includes(day)
+                  ? 'border-blue-500 bg-blue-500 text-white'
+                  : 'border-gray-300 text-gray-600 dark:text-gray-400'
+              )}
+            >
+              {weekdayLabels[day]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Day of month or nth weekday */}
+      {rule?.freq === 'MONTHLY' && (
+        <div className="flex items-center gap-2">
+          <Select value={monthlyMode} onValueChange={handleMonthlyModeChange}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="day">On day</SelectItem>
+              <SelectItem value="weekday">On the</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {monthlyMode === 'day' ? (
+            <Select
+              value={String(rule.byMonthDay ?? referenceDate.getDate())}
+              onValueChange={(day) => update({ byMonthDay: Number(day) })}
+            >
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: 31 }, (_, i) => i + 1).map((day) => (
+                  <SelectItem key={day} value={String(day)}>
+                    {day}
+                  </SelectItem>
+                ))}
+                <SelectItem value="-1">Last day</SelectItem>
+              </SelectContent>
+            </Select>
+          ) : (
+            <>
+              <Select
+                value={String(rule.bySetPos)}
+                onValueChange={(pos) => update({ bySetPos: Number(pos) })}
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {positionOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={rule.byDay?.[0] ?? referenceWeekday}
+                onValueChange={(day) => update({ byDay: [day as Weekday] })}
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEEKDAYS.map((day, index) => (
+                    <SelectItem key={day} value={day}>
+                      {format(new Date(2026, 0, 4 + index), 'EEEE')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* End of series */}
+      {rule && (
+        <div className="flex items-center gap-2">
+          <Select value={endMode} onValueChange={handleEndChange}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="never">Never ends</SelectItem>
+              <SelectItem value="until">Ends on</SelectItem>
+              <SelectItem value="count">Ends after</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {endMode === 'until' && rule.until && (
+            <Input
+              type="date"
+              value={format(rule.until, 'yyyy-MM-dd')}
+              onChange={(e) => {
+                if (!e.target.value) return
+                const [year, month, day] = e.target.value.split('-').map(Number)
+                update({ until: new Date(year, month - 1, day, 23, 59, 59) })
+              }}
+              className="flex-1"
+              aria-label="End date"
+            />
+          )}
+
+          {endMode === 'count' && (
+            <div className="flex flex-1 items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+              <Input
+                type="number"
+                min={1}
+                value={rule.count}
+                onChange={(e) =>
+                  update({ count: Math.max(1, Number(e.target.value) || 1) })
+                }
+                className="w-20"
+                aria-label="Occurrences"
+              />
+              <span>occurrences</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {rule && (
+        <p className="flex items-center gap-1 text-xs text-gray-500">
+          <Repeat className="h-3 w-3" />
+          {describeRecurrenceRule(rule)}
+        </p>
+      )}
+    </div>
+  )
+}
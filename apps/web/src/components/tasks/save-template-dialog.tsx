@@ -0,0 +1,119 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { trpc } from '@/lib/trpc'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+
+interface SaveTemplateDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  taskIds: string[]
+  onSaved?: () => void
+}
+
+export function SaveTemplateDialog({
+  open,
+  onOpenChange,
+  taskIds,
+  onSaved,
+}: SaveTemplateDialogProps) {
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+
+  const utils = trpc.useUtils()
+
+  useEffect(() => {
+    if (!open) return
+    setName('')
+    setDescription('')
+  }, [open])
+
+  const createMutation = trpc.taskTemplate.createFromTasks.useMutation({
+    onSuccess: (template) => {
+      utils.taskTemplate.list.invalidate()
+      toast.success(`Saved "${template.name}" as a template`)
+      onOpenChange(false)
+      onSaved?.()
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to save template')
+    },
+  })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    createMutation.mutate({
+      name: name.trim(),
+      description: description.trim() || undefined,
+      taskIds,
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Save as Template</DialogTitle>
+          <DialogDescription>
+            {taskIds.length} task{taskIds.length === 1 ? '' : 's'} and their
+            subtasks. Write {'{{name}}'} in a title to fill it in each time the
+            template is used.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Name *</Label>
+            <Input
+              id="template-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Release checklist"
+              maxLength={80}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-description">Description</Label>
+            <Textarea
+              id="template-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              maxLength={500}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={createMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={createMutation.isPending || !name.trim()}
+            >
+              {createMutation.isPending ? 'Saving...' : 'Save Template'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,238 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  Briefcase,
+  CalendarDays,
+  Clock,
+  Flag,
+  Flame,
+  Home,
+  Inbox,
+  List,
+  Star,
+  Users,
+  type LucideIcon,
+} from 'lucide-react'
+import { toast } from 'sonner'
+import { cn } from '@/lib/utils'
+import { trpc } from '@/lib/trpc'
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { TaskQueryInput } from './task-query-input'
+
+type SavedViewSort = 'MANUAL' | 'DUE_DATE' | 'PRIORITY' | 'CREATED_AT' | 'TITLE'
+
+type SavedView = {
+  id: string
+  name: string
+  query: string
+  sort: SavedViewSort
+  icon: string
+}
+
+export const savedViewIcons: Record<string, LucideIcon> = {
+  list: List,
+  star: Star,
+  flame: Flame,
+  flag: Flag,
+  clock: Clock,
+  calendar: CalendarDays,
+  inbox: Inbox,
+  users: Users,
+  briefcase: Briefcase,
+  home: Home,
+}
+
+export const sortOptions: { value: SavedViewSort; label: string }[] = [
+  { value: 'MANUAL', label: 'Manual order' },
+  { value: 'DUE_DATE', label: 'Due date' },
+  { value: 'PRIORITY', label: 'Priority' },
+  { value: 'CREATED_AT', label: 'Newest first' },
+  { value: 'TITLE', label: 'Title' },
+]
+
+interface SavedViewDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  view?: SavedView | null
+  defaultQuery?: string
+  defaultSort?: SavedViewSort
+  onSaved?: (view: SavedView) => void
+}
+
+export function SavedViewDialog({
+  open,
+  onOpenChange,
+  view,
+  defaultQuery = '',
+  defaultSort = 'MANUAL',
+  onSaved,
+}: SavedViewDialogProps) {
+  const [name, setName] = useState('')
+  const [query, setQuery] = useState('')
+  const [sort, setSort] = useState<SavedViewSort>('MANUAL')
+  const [icon, setIcon] = useState('list')
+
+  const utils = trpc.useUtils()
+
+  useEffect(() => {
+    if (!open) return
+    setName(view?.name ?? '')
+    setQuery(view?.query ?? defaultQuery)
+    setSort(view?.sort ?? defaultSort)
+    setIcon(view?.icon ?? 'list')
+  }, [open, view, defaultQuery, defaultSort])
+
+  const handleSuccess = (saved: SavedView) => {
+    utils.savedView.list.invalidate()
+    utils.savedView.counts.invalidate()
+    utils.savedView.getById.invalidate({ id: saved.id })
+    onOpenChange(false)
+    onSaved?.(saved)
+  }
+
+  const createMutation = trpc.savedView.create.useMutation({
+    onSuccess: handleSuccess,
+    onError: (error) => {
+      if (!error.data?.queryIssues) {
+        toast.error(error.message || 'Failed to save view')
+      }
+    },
+  })
+
+  const updateMutation = trpc.savedView.update.useMutation({
+    onSuccess: handleSuccess,
+    onError: (error) => {
+      if (!error.data?.queryIssues) {
+        toast.error(error.message || 'Failed to save view')
+      }
+    },
+  })
+
+  const mutation = view ? updateMutation : createMutation
+  const queryIssues = mutation.error?.data?.queryIssues
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const data = { name: name.trim(), query: query.trim(), sort, icon }
+    if (view) {
+      updateMutation.mutate({ id: view.id, data })
+    } else {
+      createMutation.mutate(data)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{view ? 'Edit View' : 'Save View'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="view-name">Name *</Label>
+            <Input
+              id="view-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Urgent this week"
+              maxLength={60}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Filter</Label>
+            <TaskQueryInput
+              value={query}
+              onChange={(value) => {
+                setQuery(value)
+                mutation.reset()
+              }}
+              issues={queryIssues}
+            />
+            <p className="text-xs text-gray-500">
+              Without a status: filter, the view shows active tasks.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Sort by</Label>
+            <Select
+              value={sort}
+              onValueChange={(value) => setSort(value as SavedViewSort)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sortOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Icon</Label>
+            <div className="flex flex-wrap gap-2">
+              {Object.entries(savedViewIcons).map(([key, Icon]) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => setIcon(key)}
+                  aria-label={key}
+                  aria-pressed={icon === key}
+                  className={cn(
+                    'flex h-8 w-8 items-center justify-center rounded-md border',
+                    icon === key
+                      ? 'border-blue-500 bg-blue-50 text-blue-600 dark:bg-blue-900 dark:text-blue-300'
+                      : 'border-gray-300 text-gray-500 dark:border-gray-600'
+                  )}
+                >
+                  <Icon className="h-4 w-4" />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={mutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={mutation.isPending || !name.trim()}>
+              {mutation.isPending
+                ? 'Saving...'
+                : view
+                  ? 'Update View'
+                  : 'Save View'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,175 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { AlarmClock, CalendarClock, Inbox } from 'lucide-react'
+import { SNOOZE_PRESETS, getSnoozeDate } from '@/lib/task-defer'
+import {
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+const DATETIME_LOCAL = "yyyy-MM-dd'T'HH:mm"
+
+interface SnoozeSubmenuProps {
+  deferred: boolean
+  onSnooze: (until: Date | null) => void
+  onPickCustom: () => void
+}
+
+// Snooze presets for a task's action menu
+export function SnoozeSubmenu({
+  deferred,
+  onSnooze,
+  onPickCustom,
+}: SnoozeSubmenuProps) {
+  const now = new Date()
+
+  return (
+    <DropdownMenuSub>
+      <DropdownMenuSubTrigger onClick={(e) => e.stopPropagation()}>
+        <AlarmClock className="mr-2 h-4 w-4" />
+        Snooze
+      </DropdownMenuSubTrigger>
+      <DropdownMenuSubContent className="w-56">
+        {SNOOZE_PRESETS.map((preset) => {
+          const until = preset.resolve(now)
+          if (!until) return null
+          return (
+            <DropdownMenuItem
+              key={preset.id}
+              onClick={(e) => {
+                e.stopPropagation()
+                onSnooze(until)
+              }}
+            >
+              <span className="flex-1">{preset.label}</span>
+              <span className="text-muted-foreground text-xs">
+                {format(until, 'EEE h:mm a')}
+              </span>
+            </DropdownMenuItem>
+          )
+        })}
+        <DropdownMenuItem
+          onClick={(e) => {
+            e.stopPropagation()
+            onPickCustom()
+          }}
+        >
+          <CalendarClock className="mr-2 h-4 w-4" />
+          Pick date & time...
+        </DropdownMenuItem>
+        {deferred && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onClick={(e) => {
+                e.stopPropagation()
+                onSnooze(null)
+              }}
+            >
+              <Inbox className="mr-2 h-4 w-4" />
+              Move to Inbox now
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuSubContent>
+    </DropdownMenuSub>
+  )
+}
+
+interface SnoozeDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  initialValue?: Date | null
+  onConfirm: (until: Date) => void
+}
+
+// Custom snooze time, entered in the browser's local time
+export function SnoozeDialog({
+  open,
+  onOpenChange,
+  initialValue,
+  onConfirm,
+}: SnoozeDialogProps) {
+  const [value, setValue] = useState('')
+
+  useEffect(() => {
+    if (!open) return
+    const start =
+      initialValue && new Date(initialValue) > new Date()
+        ? new Date(initialValue)
+        : getSnoozeDate('tomorrow')!
+    setValue(format(start, DATETIME_LOCAL))
+  }, [open, initialValue])
+
+  // datetime-local values have no zone, so they parse as local time
+  const until = value ? new Date(value) : null
+  const isValid = !!until && !isNaN(until.getTime()) && until > new Date()
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (until && isValid) {
+      onConfirm(until)
+      onOpenChange(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="sm:max-w-[380px]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <DialogHeader>
+          <DialogTitle>Snooze until</DialogTitle>
+          <DialogDescription>
+            The task moves to Scheduled and comes back to the Inbox at this
+            time.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="snooze-until">Date and time</Label>
+            <Input
+              id="snooze-until"
+              type="datetime-local"
+              value={value}
+              min={format(new Date(), DATETIME_LOCAL)}
+              onChange={(e) => setValue(e.target.value)}
+            />
+            {value && !isValid && (
+              <p className="text-sm text-red-600">Pick a time in the future</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!isValid}>
+              Snooze
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
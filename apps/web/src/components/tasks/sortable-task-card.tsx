@@ -11,7 +11,9 @@ type Task = {
   dueDate?: Date | null
   priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT'
   status: 'ACTIVE' | 'COMPLETED' | 'ARCHIVED'
-  label?: string | null
+  tags?: { id: string; name: string; color: string }[]
+  project?: { id: string; name: string; color: string } | null
+  deferUntil?: Date | null
   order: number
   calendarEventId?: string | null
   calendarEvent?: {
@@ -19,22 +21,34 @@ type Task = {
     title: string
     startsAt: Date
   } | null
+  parentId?: string | null
+  subtaskProgress?: {
+    total: number
+    completed: number
+  }
   createdAt: Date
   updatedAt: Date
 }
 
 interface SortableTaskCardProps {
   task: Task
+  /** Drag id, when the task can appear more than once in the same context */
+  sortableId?: string
   selected?: boolean
   onToggleComplete?: (taskId: string) => void
   onEdit?: (task: Task) => void
   onArchive?: (taskId: string) => void
   onDelete?: (taskId: string) => void
   onSelect?: (taskId: string, selected: boolean) => void
+  onAddSubtask?: (task: Task) => void
+  onSnooze?: (taskId: string, until: Date | null) => void
   showCheckbox?: boolean
 }
 
-export function SortableTaskCard(props: SortableTaskCardProps) {
+export function SortableTaskCard({
+  sortableId,
+  ...props
+}: SortableTaskCardProps) {
   const {
     attributes,
     listeners,
@@ -42,7 +56,7 @@ export function SortableTaskCard(props: SortableTaskCardProps) {
     transform,
     transition,
     isDragging,
-  } = useSortable({ id: props.task.id })
+  } = useSortable({ id: sortableId ?? props.task.id })
 
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -0,0 +1,83 @@
+'use client'
+
+import { TaskCard } from './task-card'
+
+type Task = {
+  id: string
+  title: string
+  description?: string | null
+  dueDate?: Date | null
+  priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT'
+  status: 'ACTIVE' | 'COMPLETED' | 'ARCHIVED'
+  tags?: { id: string; name: string; color: string }[]
+  project?: { id: string; name: string; color: string } | null
+  deferUntil?: Date | null
+  order: number
+  calendarEventId?: string | null
+  calendarEvent?: {
+    id: string
+    title: string
+    startsAt: Date
+  } | null
+  parentId?: string | null
+  recurrenceRule?: string | null
+  estimateMinutes?: number | null
+  trackedMinutes?: number
+  subtaskProgress?: {
+    total: number
+    completed: number
+  }
+  createdAt: Date
+  updatedAt: Date
+}
+
+interface SubtaskListProps {
+  parentId: string
+  childrenByParent: Map<string, Task[]>
+  depth?: number
+  selectedTasks: string[]
+  onToggleComplete?: (taskId: string) => void
+  onEdit?: (task: Task) => void
+  onArchive?: (taskId: string) => void
+  onDelete?: (taskId: string) => void
+  onSelect?: (taskId: string, selected: boolean) => void
+  onAddSubtask?: (task: Task) => void
+  onSnooze?: (taskId: string, until: Date | null) => void
+  showCheckbox?: boolean
+}
+
+export function SubtaskList({
+  parentId,
+  childrenByParent,
+  depth = 1,
+  selectedTasks,
+  ...handlers
+}: SubtaskListProps) {
+  const subtasks = childrenByParent.get(parentId)
+
+  if (!subtasks || subtasks.length === 0) {
+    return null
+  }
+
+  return (
+    <>
+      {subtasks.map((subtask) => (
+        <div key={subtask.id} className="space-y-3">
+          <TaskCard
+            task={subtask}
+            depth={depth}
+            selected={selectedTasks.includes(subtask.id)}
+            {...handlers}
+          />
+          <SubtaskList
+            parentId={subtask.id}
+            childrenByParent={childrenByParent}
+            depth={depth + 1}
+            selectedTasks={selectedTasks}
+            {...handlers}
+          />
+        </div>
+      ))}
+    </>
+  )
+}
@@ -3,8 +3,19 @@
 import React, { useState } from 'react'
 import { format, isToday, isPast, isThisWeek } from 'date-fns'
 import { cn } from '@/lib/utils'
+import { getSubtaskPercentage } from '@/lib/task-tree'
+import { formatMinutes } from '@/lib/estimate-report'
+import { isDeferred } from '@/lib/task-defer'
+import {
+  describeRecurrenceRule,
+  validateRecurrenceRule,
+  parseRecurrenceRule,
+} from '@/lib/recurrence'
 import { Button } from '@/components/ui/button'
 import { Checkbox } from '@/components/ui/checkbox'
+import { TagBadge } from '@/components/tags/tag-picker'
+import { useProjectStore } from '@/lib/stores/project-store'
+import { SnoozeDialog, SnoozeSubmenu } from './snooze-menu'
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -13,6 +24,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
 import {
+  AlarmClock,
   Calendar,
   Clock,
   MoreHorizontal,
@@ -21,6 +33,10 @@ import {
   Edit,
   Link as LinkIcon,
   GripVertical,
+  ListTree,
+  Plus,
+  Repeat,
+  Timer,
 } from 'lucide-react'
 
 type Task = {
@@ -30,7 +46,9 @@ type Task = {
   dueDate?: Date | null
   priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT'
   status: 'ACTIVE' | 'COMPLETED' | 'ARCHIVED'
-  label?: string | null
+  tags?: { id: string; name: string; color: string }[]
+  project?: { id: string; name: string; color: string } | null
+  deferUntil?: Date | null
   order: number
   calendarEventId?: string | null
   calendarEvent?: {
@@ -38,6 +56,14 @@ type Task = {
     title: string
     startsAt: Date
   } | null
+  parentId?: string | null
+  recurrenceRule?: string | null
+  estimateMinutes?: number | null
+  trackedMinutes?: number
+  subtaskProgress?: {
+    total: number
+    completed: number
+  }
   createdAt: Date
   updatedAt: Date
 }
@@ -50,9 +76,12 @@ interface TaskCardProps {
   onArchive?: (taskId: string) => void
   onDelete?: (taskId: string) => void
   onSelect?: (taskId: string, selected: boolean) => void
+  onAddSubtask?: (task: Task) => void
+  onSnooze?: (taskId: string, until: Date | null) => void
   showCheckbox?: boolean
   draggable?: boolean
   dragHandleProps?: any
+  depth?: number
 }
 
 const priorityColors = {
@@ -77,15 +106,21 @@ export function TaskCard({
   onArchive,
   onDelete,
   onSelect,
+  onAddSubtask,
+  onSnooze,
   showCheckbox = false,
   draggable = false,
   dragHandleProps,
+  depth = 0,
 }: TaskCardProps) {
   const [isHovered, setIsHovered] = useState(false)
+  const [isSnoozeDialogOpen, setIsSnoozeDialogOpen] = useState(false)
+  const activeProjectId = useProjectStore((state) => state.activeProjectId)
 
   const isCompleted = task.status === 'COMPLETED'
   const isOverdue = task.dueDate && isPast(task.dueDate) && !isCompleted
   const isDueToday = task.dueDate && isToday(task.dueDate)
+  const deferred = isDeferred(task)
 
   const handleToggleComplete = (e: React.MouseEvent) => {
     e.stopPropagation()
@@ -115,13 +150,30 @@ export function TaskCard({
     onDelete?.(task.id)
   }
 
+  const handleAddSubtask = (e: React.MouseEvent) => {
+    e.stopPropagation()
+    onAddSubtask?.(task)
+  }
+
   const formatDueDate = (date: Date) => {
     if (isToday(date)) return 'Today'
     if (isThisWeek(date)) return format(date, 'EEEE')
     return format(date, 'MMM d')
   }
 
-  const labelColor = task.label || priorityColors[task.priority]
+  const formatDeferDate = (date: Date) => {
+    if (isToday(date)) return `Today ${format(date, 'h:mm a')}`
+    if (isThisWeek(date)) return format(date, 'EEEE h:mm a')
+    return format(date, 'MMM d, h:mm a')
+  }
+
+  const recurrenceSummary =
+    task.recurrenceRule && !validateRecurrenceRule(task.recurrenceRule)
+      ? describeRecurrenceRule(parseRecurrenceRule(task.recurrenceRule))
+      : null
+
+  // The strip takes the first tag's color, falling back to the priority
+  const stripColor = task.tags?.[0]?.color
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     switch (e.key) {
@@ -153,6 +205,7 @@ export function TaskCard({
         selected && 'ring-2 ring-blue-500',
         isCompleted && 'opacity-60'
       )}
+      style={depth > 0 ? { marginLeft: `${depth * 1.5}rem` } : undefined}
       tabIndex={0}
       onMouseEnter={() => setIsHovered(true)}
       onMouseLeave={() => setIsHovered(false)}
@@ -170,13 +223,11 @@ export function TaskCard({
 
       {/* Color strip */}
       <div
-        className={cn('h-full w-1 rounded-full', labelColor)}
-        style={
-          task.label &&
-          !priorityColors[task.priority as keyof typeof priorityColors]
-            ? { backgroundColor: task.label }
-            : undefined
-        }
+        className={cn(
+          'h-full w-1 rounded-full',
+          !stripColor && priorityColors[task.priority]
+        )}
+        style={stripColor ? { backgroundColor: stripColor } : undefined}
       />
 
       {/* Selection checkbox */}
@@ -244,6 +295,19 @@ export function TaskCard({
                   <Edit className="mr-2 h-4 w-4" />
                   Edit
                 </DropdownMenuItem>
+                {onAddSubtask && task.status === 'ACTIVE' && (
+                  <DropdownMenuItem onClick={handleAddSubtask}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Subtask
+                  </DropdownMenuItem>
+                )}
+                {onSnooze && task.status === 'ACTIVE' && (
+                  <SnoozeSubmenu
+                    deferred={deferred}
+                    onSnooze={(until) => onSnooze(task.id, until)}
+                    onPickCustom={() => setIsSnoozeDialogOpen(true)}
+                  />
+                )}
                 {task.calendarEvent && (
                   <DropdownMenuItem>
                     <LinkIcon className="mr-2 h-4 w-4" />
@@ -299,6 +363,63 @@ export function TaskCard({
             </span>
           )}
 
+          {/* Defer date */}
+          {deferred && task.deferUntil && (
+            <span className="flex items-center gap-1 text-purple-600 dark:text-purple-400">
+              <AlarmClock className="h-3 w-3" />
+              Starts {formatDeferDate(new Date(task.deferUntil))}
+            </span>
+          )}
+
+          {/* Recurrence */}
+          {recurrenceSummary && (
+            <span className="flex items-center gap-1" title={recurrenceSummary}>
+              <Repeat className="h-3 w-3" />
+              {recurrenceSummary}
+            </span>
+          )}
+
+          {/* Tracked time against the estimate */}
+          {(task.estimateMinutes || !!task.trackedMinutes) && (
+            <span
+              className={cn(
+                'flex items-center gap-1',
+                task.estimateMinutes &&
+                  (task.trackedMinutes ?? 0) > task.estimateMinutes &&
+                  'text-red-500'
+              )}
+              title={
+                task.estimateMinutes
+                  ? `${formatMinutes(task.trackedMinutes ?? 0)} tracked of ${formatMinutes(task.estimateMinutes)} estimated`
+                  : `${formatMinutes(task.trackedMinutes ?? 0)} tracked`
+              }
+            >
+              <Timer className="h-3 w-3" />
+              {formatMinutes(task.trackedMinutes ?? 0)}
+              {task.estimateMinutes &&
+                ` / ${formatMinutes(task.estimateMinutes)}`}
+            </span>
+          )}
+
+          {/* Subtask rollup */}
+          {task.subtaskProgress && task.subtaskProgress.total > 0 && (
+            <span
+              className="flex items-center gap-1"
+              title={`${getSubtaskPercentage(task.subtaskProgress)}% of subtasks complete`}
+            >
+              <ListTree className="h-3 w-3" />
+              {task.subtaskProgress.completed}/{task.subtaskProgress.total}
+              <span className="h-1 w-10 overflow-hidden rounded-full bg-gray-200 dark:bg-gray-700">
+                <span
+                  className="block h-full bg-green-500"
+                  style={{
+                    width: `${getSubtaskPercentage(task.subtaskProgress)}%`,
+                  }}
+                />
+              </span>
+            </span>
+          )}
+
           {/* Calendar event */}
           {task.calendarEvent && (
             <span className="flex items-center gap-1">
@@ -306,8 +427,33 @@ export function TaskCard({
               Event
             </span>
           )}
+
+          {/* Project, hidden when the list is already scoped to it */}
+          {task.project && task.project.id !== activeProjectId && (
+            <span className="flex items-center gap-1">
+              <span
+                className="h-2 w-2 rounded-full"
+                style={{ backgroundColor: task.project.color }}
+              />
+              {task.project.name}
+            </span>
+          )}
+
+          {/* Tags */}
+          {task.tags?.map((tag) => (
+            <TagBadge key={tag.id} tag={tag} className="px-2 py-0 text-xs" />
+          ))}
         </div>
       </div>
+
+      {onSnooze && (
+        <SnoozeDialog
+          open={isSnoozeDialogOpen}
+          onOpenChange={setIsSnoozeDialogOpen}
+          initialValue={task.deferUntil}
+          onConfirm={(until) => onSnooze(task.id, until)}
+        />
+      )}
     </div>
   )
 }
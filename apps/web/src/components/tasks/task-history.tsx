@@ -0,0 +1,156 @@
+'use client'
+
+import { format, formatDistanceToNow } from 'date-fns'
+import { ArrowRight, History } from 'lucide-react'
+import { trpc } from '@/lib/trpc'
+import { describeRecurrenceRule, parseRecurrenceRule } from '@/lib/recurrence'
+import type { TaskFieldChange, TrackedTaskField } from '@/lib/task-activity'
+import { formatMinutes } from '@/lib/estimate-report'
+
+interface TaskHistoryProps {
+  taskId: string
+}
+
+const actionLabels: Record<string, string> = {
+  CREATED: 'created this task',
+  UPDATED: 'edited',
+  BULK_UPDATED: 'edited in bulk',
+  STATUS_CHANGED: 'changed the status',
+  ARCHIVED: 'archived this task',
+  RESTORED: 'restored this task',
+  SNOOZED: 'snoozed this task',
+}
+
+const fieldLabels: Record<TrackedTaskField, string> = {
+  title: 'Title',
+  description: 'Description',
+  priority: 'Priority',
+  status: 'Status',
+  dueDate: 'Due date',
+  deferUntil: 'Start date',
+  tags: 'Tags',
+  project: 'Project',
+  parentId: 'Parent task',
+  recurrenceRule: 'Repeat',
+  calendarEventId: 'Calendar event',
+  estimateMinutes: 'Estimate',
+}
+
+function FieldValue({
+  field,
+  value,
+}: {
+  field: TrackedTaskField
+  value: string | null
+}) {
+  if (value === null) {
+    return <span className="italic text-gray-400">none</span>
+  }
+
+  switch (field) {
+    case 'priority':
+    case 'status':
+      return <span>{value.charAt(0) + value.slice(1).toLowerCase()}</span>
+    case 'dueDate':
+    case 'deferUntil':
+      return <span>{format(new Date(value), 'MMM d, yyyy h:mm a')}</span>
+    case 'recurrenceRule':
+      try {
+        return <span>{describeRecurrenceRule(parseRecurrenceRule(value))}</span>
+      } catch {
+        return <span className="font-mono">{value}</span>
+      }
+    case 'estimateMinutes':
+      return <span>{formatMinutes(Number(value))}</span>
+    case 'parentId':
+    case 'calendarEventId':
+      return <span>linked</span>
+    default:
+      return (
+        <span className="line-clamp-1 break-all" title={value}>
+          {value}
+        </span>
+      )
+  }
+}
+
+function ChangeRow({
+  change,
+  created,
+}: {
+  change: TaskFieldChange
+  created: boolean
+}) {
+  return (
+    <li className="flex flex-wrap items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+      <span className="font-medium text-gray-700 dark:text-gray-300">
+        {fieldLabels[change.field] ?? change.field}:
+      </span>
+      {!created && (
+        <>
+          <FieldValue field={change.field} value={change.from} />
+          <ArrowRight className="h-3 w-3 text-gray-400" />
+        </>
+      )}
+      <FieldValue field={change.field} value={change.to} />
+    </li>
+  )
+}
+
+export function TaskHistory({ taskId }: TaskHistoryProps) {
+  const { data: activities, isLoading } = trpc.task.history.useQuery({
+    id: taskId,
+  })
+
+  if (isLoading) {
+    return (
+      <div className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+        Loading history...
+      </div>
+    )
+  }
+
+  if (!activities || activities.length === 0) {
+    return (
+      <div className="py-8 text-center text-gray-500 dark:text-gray-400">
+        <History className="mx-auto mb-2 h-8 w-8" />
+        <p className="text-sm">No changes recorded yet</p>
+      </div>
+    )
+  }
+
+  return (
+    <ol className="max-h-[60vh] space-y-4 overflow-y-auto border-l border-gray-200 pl-4 dark:border-gray-700">
+      {activities.map((activity) => (
+        <li key={activity.id} className="relative">
+          <span className="absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full bg-blue-500" />
+          <p className="text-sm text-gray-900 dark:text-white">
+            <span className="font-medium">
+              {activity.user.name || activity.user.email}
+            </span>{' '}
+            {actionLabels[activity.action] ?? 'changed this task'}
+          </p>
+          <p
+            className="text-xs text-gray-500 dark:text-gray-400"
+            title={format(new Date(activity.createdAt), 'MMM d, yyyy h:mm a')}
+          >
+            {formatDistanceToNow(new Date(activity.createdAt), {
+              addSuffix: true,
+            })}
+          </p>
+          {activity.changes.length > 0 && (
+            <ul className="mt-1 space-y-0.5">
+              {activity.changes.map((change) => (
+                <ChangeRow
+                  key={change.field}
+                  change={change}
+                  created={activity.action === 'CREATED'}
+                />
+              ))}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ol>
+  )
+}
@@ -5,8 +5,15 @@ import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import { format } from 'date-fns'
-import { Calendar as CalendarIcon, X } from 'lucide-react'
+import {
+  AlarmClock,
+  Calendar as CalendarIcon,
+  SkipForward,
+  Square,
+  X,
+} from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { formatMinutes } from '@/lib/estimate-report'
 import {
   Dialog,
   DialogContent,
@@ -31,6 +38,12 @@ import {
   PopoverTrigger,
 } from '@/components/ui/popover'
 import { Calendar } from '@/components/ui/calendar'
+import { TagPicker } from '@/components/tags/tag-picker'
+import { ProjectSelect } from '@/components/projects/project-select'
+import { RecurrenceEditor } from './recurrence-editor'
+import { ReminderList } from '@/components/reminders/reminder-list'
+import { TaskHistory } from './task-history'
+import { TemplateGallery } from './template-gallery'
 
 type Task = {
   id: string
@@ -39,7 +52,9 @@ type Task = {
   dueDate?: Date | null
   priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT'
   status: 'ACTIVE' | 'COMPLETED' | 'ARCHIVED'
-  label?: string | null
+  tags?: { id: string; name: string; color: string }[]
+  project?: { id: string; name: string; color: string } | null
+  deferUntil?: Date | null
   order: number
   calendarEventId?: string | null
   calendarEvent?: {
@@ -47,6 +62,10 @@ type Task = {
     title: string
     startsAt: Date
   } | null
+  parentId?: string | null
+  recurrenceRule?: string | null
+  estimateMinutes?: number | null
+  trackedMinutes?: number
   createdAt: Date
   updatedAt: Date
 }
@@ -57,7 +76,17 @@ const taskSchema = z.object({
   priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']),
   status: z.enum(['ACTIVE', 'COMPLETED', 'ARCHIVED']),
   dueDate: z.date().optional(),
-  label: z.string().optional(),
+  deferUntil: z.date().nullable(),
+  tagIds: z.array(z.string()),
+  projectId: z.string().nullable(),
+  parentId: z.string().optional(),
+  recurrenceRule: z.string().optional(),
+  estimateMinutes: z
+    .number()
+    .int('Use whole minutes')
+    .min(1, 'Estimate must be at least a minute')
+    .max(10000)
+    .optional(),
 })
 
 type TaskFormData = z.infer<typeof taskSchema>
@@ -68,6 +97,12 @@ interface TaskModalProps {
   task?: Task | null
   onSave: (data: TaskFormData) => void
   isLoading?: boolean
+  parentOptions?: { id: string; title: string }[]
+  defaultParentId?: string | null
+  /** Project for new tasks, usually the one the list is scoped to */
+  defaultProjectId?: string | null
+  onSkipOccurrence?: (taskId: string) => void
+  onEndSeries?: (taskId: string) => void
 }
 
 const priorityOptions = [
@@ -83,25 +118,29 @@ const statusOptions = [
   { value: 'ARCHIVED', label: 'Archived' },
 ] as const
 
-const labelColors = [
-  '#ef4444', // red
-  '#f97316', // orange
-  '#eab308', // yellow
-  '#22c55e', // green
-  '#3b82f6', // blue
-  '#8b5cf6', // purple
-  '#ec4899', // pink
-  '#6b7280', // gray
-]
-
 export function TaskModal({
   open,
   onOpenChange,
   task,
   onSave,
   isLoading = false,
+  parentOptions = [],
+  defaultParentId,
+  defaultProjectId = null,
+  onSkipOccurrence,
+  onEndSeries,
 }: TaskModalProps) {
   const [calendarOpen, setCalendarOpen] = useState(false)
+  const [startCalendarOpen, setStartCalendarOpen] = useState(false)
+  const [activeTab, setActiveTab] = useState<
+    'details' | 'history' | 'templates'
+  >('details')
+  // New top-level tasks can also come from a template
+  const tabs = task
+    ? (['details', 'history'] as const)
+    : defaultParentId
+      ? null
+      : (['details', 'templates'] as const)
 
   const {
     register,
@@ -118,15 +157,25 @@ export function TaskModal({
       priority: 'MEDIUM',
       status: 'ACTIVE',
       dueDate: undefined,
-      label: undefined,
+      deferUntil: null,
+      tagIds: [],
+      projectId: null,
+      parentId: undefined,
+      recurrenceRule: undefined,
+      estimateMinutes: undefined,
     },
   })
 
   const watchedDueDate = watch('dueDate')
+  const watchedDeferUntil = watch('deferUntil')
   const watchedPriority = watch('priority')
-  const watchedLabel = watch('label')
+  const watchedTagIds = watch('tagIds')
+  const watchedProjectId = watch('projectId')
+  const watchedParentId = watch('parentId')
+  const watchedRecurrenceRule = watch('recurrenceRule')
 
   useEffect(() => {
+    setActiveTab('details')
     if (task) {
       reset({
         title: task.title,
@@ -134,7 +183,12 @@ export function TaskModal({
         priority: task.priority,
         status: task.status,
         dueDate: task.dueDate ? new Date(task.dueDate) : undefined,
-        label: task.label || undefined,
+        deferUntil: task.deferUntil ? new Date(task.deferUntil) : null,
+        tagIds: task.tags?.map((tag) => tag.id) ?? [],
+        projectId: task.project?.id ?? null,
+        parentId: task.parentId || undefined,
+        recurrenceRule: task.recurrenceRule || undefined,
+        estimateMinutes: task.estimateMinutes ?? undefined,
       })
     } else {
       reset({
@@ -143,10 +197,15 @@ export function TaskModal({
         priority: 'MEDIUM',
         status: 'ACTIVE',
         dueDate: undefined,
-        label: undefined,
+        deferUntil: null,
+        tagIds: [],
+        projectId: defaultProjectId,
+        parentId: defaultParentId || undefined,
+        recurrenceRule: undefined,
+        estimateMinutes: undefined,
       })
     }
-  }, [task, reset])
+  }, [task, defaultParentId, defaultProjectId, reset])
 
   const onSubmit = (data: TaskFormData) => {
     onSave(data)
@@ -168,7 +227,40 @@ export function TaskModal({
           <DialogTitle>{task ? 'Edit Task' : 'Create Task'}</DialogTitle>
         </DialogHeader>
 
-        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+        {tabs && (
+          <div className="flex space-x-1 border-b pb-2">
+            {tabs.map((tab) => (
+              <button
+                key={tab}
+                type="button"
+                onClick={() => setActiveTab(tab)}
+                className={cn(
+                  'rounded-lg px-3 py-1.5 text-sm font-medium capitalize transition-colors',
+                  activeTab === tab
+                    ? 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300'
+                    : 'text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300'
+                )}
+              >
+                {tab}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {task && activeTab === 'history' && <TaskHistory taskId={task.id} />}
+
+        {!task && activeTab === 'templates' && (
+          <TemplateGallery
+            defaultProjectId={defaultProjectId}
+            onCreated={() => onOpenChange(false)}
+          />
+        )}
+
+        {/* Kept mounted while another tab is open so edits survive */}
+        <form
+          onSubmit={handleSubmit(onSubmit)}
+          className={cn('space-y-4', activeTab !== 'details' && 'hidden')}
+        >
           {/* Title */}
           <div className="space-y-2">
             <Label htmlFor="title">Title *</Label>
@@ -287,37 +379,179 @@ export function TaskModal({
             </div>
           </div>
 
-          {/* Label Color */}
+          {/* Start Date */}
           <div className="space-y-2">
-            <Label>Label Color</Label>
+            <Label>Start Date</Label>
             <div className="flex gap-2">
-              <button
-                type="button"
-                onClick={() => setValue('label', undefined)}
+              <Popover
+                open={startCalendarOpen}
+                onOpenChange={setStartCalendarOpen}
+              >
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className={cn(
+                      'flex-1 justify-start text-left font-normal',
+                      !watchedDeferUntil && 'text-muted-foreground'
+                    )}
+                  >
+                    <AlarmClock className="mr-2 h-4 w-4" />
+                    {watchedDeferUntil ? (
+                      format(watchedDeferUntil, 'PPP p')
+                    ) : (
+                      <span>Show in Inbox right away</span>
+                    )}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={watchedDeferUntil ?? undefined}
+                    onSelect={(date) => {
+                      // The task shows up from the start of the chosen day
+                      setValue('deferUntil', date ?? null)
+                      setStartCalendarOpen(false)
+                    }}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+              {watchedDeferUntil && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setValue('deferUntil', null)}
+                  className="px-3"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {/* Estimate */}
+          <div className="space-y-2">
+            <Label htmlFor="estimateMinutes">Estimate (minutes)</Label>
+            <div className="flex items-center gap-3">
+              <Input
+                id="estimateMinutes"
+                type="number"
+                min={1}
+                step={5}
+                placeholder="e.g. 45"
+                {...register('estimateMinutes', {
+                  setValueAs: (value) =>
+                    value === '' || value === null ? undefined : Number(value),
+                })}
                 className={cn(
-                  'flex h-8 w-8 items-center justify-center rounded-full border-2',
-                  !watchedLabel
-                    ? 'border-gray-900 dark:border-white'
-                    : 'border-gray-300'
+                  'w-32',
+                  errors.estimateMinutes && 'border-red-500'
+                )}
+              />
+              {task && (
+                <span className="text-sm text-gray-500 dark:text-gray-400">
+                  {formatMinutes(task.trackedMinutes ?? 0)} tracked
+                </span>
+              )}
+            </div>
+            {errors.estimateMinutes && (
+              <p className="text-sm text-red-500">
+                {errors.estimateMinutes.message}
+              </p>
+            )}
+          </div>
+
+          {/* Recurrence */}
+          <div className="space-y-2">
+            <Label>Repeat</Label>
+            <RecurrenceEditor
+              value={watchedRecurrenceRule}
+              onChange={(value) => setValue('recurrenceRule', value)}
+              referenceDate={watchedDueDate}
+            />
+            {task?.recurrenceRule && (onSkipOccurrence || onEndSeries) && (
+              <div className="flex gap-2">
+                {onSkipOccurrence && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onSkipOccurrence(task.id)}
+                    disabled={isLoading}
+                  >
+                    <SkipForward className="mr-2 h-4 w-4" />
+                    Skip occurrence
+                  </Button>
                 )}
+                {onEndSeries && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onEndSeries(task.id)}
+                    disabled={isLoading}
+                  >
+                    <Square className="mr-2 h-4 w-4" />
+                    End series
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Reminders, which need a saved task to attach to */}
+          {task && (
+            <div className="space-y-2">
+              <Label>Reminders</Label>
+              <ReminderList
+                taskId={task.id}
+                anchor={task.dueDate ? new Date(task.dueDate) : null}
+              />
+            </div>
+          )}
+
+          {/* Parent Task */}
+          {parentOptions.length > 0 && (
+            <div className="space-y-2">
+              <Label>Parent Task</Label>
+              <Select
+                value={watchedParentId ?? 'none'}
+                onValueChange={(value) =>
+                  setValue('parentId', value === 'none' ? undefined : value)
+                }
               >
-                <X className="h-4 w-4" />
-              </button>
-              {labelColors.map((color) => (
-                <button
-                  key={color}
-                  type="button"
-                  onClick={() => setValue('label', color)}
-                  className={cn(
-                    'h-8 w-8 rounded-full border-2',
-                    watchedLabel === color
-                      ? 'border-gray-900 dark:border-white'
-                      : 'border-gray-300'
-                  )}
-                  style={{ backgroundColor: color }}
-                />
-              ))}
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None (top level)</SelectItem>
+                  {parentOptions.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
+          )}
+
+          {/* Project */}
+          <div className="space-y-2">
+            <Label>Project</Label>
+            <ProjectSelect
+              value={watchedProjectId}
+              onChange={(projectId) => setValue('projectId', projectId)}
+            />
+          </div>
+
+          {/* Tags */}
+          <div className="space-y-2">
+            <Label>Tags</Label>
+            <TagPicker
+              value={watchedTagIds}
+              onChange={(tagIds) => setValue('tagIds', tagIds)}
+            />
           </div>
 
           <DialogFooter>
@@ -0,0 +1,84 @@
+'use client'
+
+import { Search } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { TaskQueryIssue } from '@/lib/task-query'
+import { Input } from '@/components/ui/input'
+
+interface TaskQueryInputProps {
+  value: string
+  onChange: (value: string) => void
+  issues?: TaskQueryIssue[] | null
+  className?: string
+}
+
+export function TaskQueryInput({
+  value,
+  onChange,
+  issues,
+  className,
+}: TaskQueryInputProps) {
+  const hasIssues = !!issues && issues.length > 0
+
+  // Split the query so each problem range can be underlined in place
+  const segments: { text: string; invalid: boolean }[] = []
+  if (hasIssues) {
+    const sorted = [...issues].sort((a, b) => a.start - b.start)
+    let cursor = 0
+    sorted.forEach((issue) => {
+      const start = Math.max(issue.start, cursor)
+      if (start > cursor) {
+        segments.push({ text: value.slice(cursor, start), invalid: false })
+      }
+      if (issue.end > start) {
+        segments.push({ text: value.slice(start, issue.end), invalid: true })
+      }
+      cursor = Math.max(cursor, issue.end)
+    })
+    if (cursor < value.length) {
+      segments.push({ text: value.slice(cursor), invalid: false })
+    }
+  }
+
+  return (
+    <div className={cn('relative', className)}>
+      <Search className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+      <Input
+        placeholder='Filter, e.g. priority:high due:<2026-11-01 "text"'
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className={cn('pl-9 font-mono text-sm', hasIssues && 'border-red-500')}
+        aria-label="Task query"
+        aria-invalid={hasIssues}
+        spellCheck={false}
+      />
+      {hasIssues && (
+        <div
+          className="absolute left-0 top-full z-10 mt-1 w-full rounded-md border bg-white p-2 text-xs shadow-md dark:bg-gray-800"
+          role="alert"
+        >
+          <p className="whitespace-pre-wrap break-all font-mono text-gray-700 dark:text-gray-300">
+            {segments.map((segment, index) => (
+              <span
+                key={index}
+                className={cn(
+                  segment.invalid &&
+                    'text-red-600 underline decoration-red-500 decoration-wavy'
+                )}
+              >
+                {segment.text}
+              </span>
+            ))}
+          </p>
+          <ul className="mt-1 space-y-0.5 text-red-600">
+            {issues.map((issue, index) => (
+              <li key={index}>
+                Col {issue.start + 1}: {issue.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,272 @@
+'use client'
+
+import { useState } from 'react'
+import { format, startOfDay } from 'date-fns'
+import { toast } from 'sonner'
+import {
+  ArrowLeft,
+  Calendar as CalendarIcon,
+  LayoutTemplate,
+  Trash2,
+} from 'lucide-react'
+import { trpc } from '@/lib/trpc'
+import { cn } from '@/lib/utils'
+import { fillTemplateText, getTemplateDueDate } from '@/lib/task-template'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import { Calendar } from '@/components/ui/calendar'
+import { ProjectSelect } from '@/components/projects/project-select'
+
+interface TemplateGalleryProps {
+  /** Project the new tasks go into unless another one is picked */
+  defaultProjectId?: string | null
+  onCreated?: () => void
+}
+
+// Shows the title as far as it can be filled in so far
+function previewText(text: string, values: Record<string, string>) {
+  try {
+    return fillTemplateText(text, values)
+  } catch {
+    return text
+  }
+}
+
+export function TemplateGallery({
+  defaultProjectId = null,
+  onCreated,
+}: TemplateGalleryProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [values, setValues] = useState<Record<string, string>>({})
+  const [startDate, setStartDate] = useState(() => startOfDay(new Date()))
+  const [projectId, setProjectId] = useState<string | null>(defaultProjectId)
+  const [calendarOpen, setCalendarOpen] = useState(false)
+
+  const utils = trpc.useUtils()
+  const { data: templates, isLoading } = trpc.taskTemplate.list.useQuery()
+  const selected = templates?.find((template) => template.id === selectedId)
+
+  const deleteMutation = trpc.taskTemplate.delete.useMutation({
+    onSuccess: () => {
+      utils.taskTemplate.list.invalidate()
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to delete template')
+    },
+  })
+
+  const instantiateMutation = trpc.task.instantiateTemplate.useMutation({
+    onSuccess: (tasks) => {
+      utils.task.search.invalidate()
+      utils.task.list.invalidate()
+      utils.task.getCounts.invalidate()
+      utils.savedView.counts.invalidate()
+      toast.success(
+        `Created ${tasks.length} task${tasks.length === 1 ? '' : 's'}`
+      )
+      setSelectedId(null)
+      onCreated?.()
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to create tasks')
+    },
+  })
+
+  const handleSelect = (templateId: string) => {
+    setSelectedId(templateId)
+    setValues({})
+    setStartDate(startOfDay(new Date()))
+    setProjectId(defaultProjectId)
+  }
+
+  const handleDelete = (template: { id: string; name: string }) => {
+    if (window.confirm(`Delete the "${template.name}" template?`)) {
+      deleteMutation.mutate({ id: template.id })
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+        Loading templates...
+      </div>
+    )
+  }
+
+  if (!selected) {
+    return templates && templates.length > 0 ? (
+      <div className="grid max-h-96 grid-cols-2 gap-3 overflow-y-auto">
+        {templates.map((template) => (
+          <div
+            key={template.id}
+            className="group relative rounded-lg border p-3 transition-colors hover:border-blue-400"
+          >
+            <button
+              type="button"
+              onClick={() => handleSelect(template.id)}
+              className="w-full text-left"
+            >
+              <p className="truncate pr-6 font-medium">{template.name}</p>
+              {template.description && (
+                <p className="mt-1 line-clamp-2 text-xs text-gray-500 dark:text-gray-400">
+                  {template.description}
+                </p>
+              )}
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                {template.items.length} task
+                {template.items.length === 1 ? '' : 's'}
+                {template.variables.length > 0 &&
+                  ` · ${template.variables.map((name) => `{{${name}}}`).join(' ')}`}
+              </p>
+            </button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="absolute right-2 top-2 h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+              onClick={() => handleDelete(template)}
+              aria-label={`Delete ${template.name}`}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    ) : (
+      <div className="py-8 text-center">
+        <LayoutTemplate className="mx-auto mb-3 h-10 w-10 text-gray-400" />
+        <p className="font-medium">No templates yet</p>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Select tasks in the list and choose Save as Template.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault()
+        instantiateMutation.mutate({
+          templateId: selected.id,
+          variables: values,
+          startDate,
+          projectId,
+        })
+      }}
+    >
+      <div className="flex items-center gap-2">
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0"
+          onClick={() => setSelectedId(null)}
+          aria-label="Back to templates"
+        >
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <h3 className="font-semibold">{selected.name}</h3>
+      </div>
+
+      {selected.variables.map((name) => (
+        <div key={name} className="space-y-2">
+          <Label htmlFor={`template-variable-${name}`}>{name}</Label>
+          <Input
+            id={`template-variable-${name}`}
+            value={values[name] ?? ''}
+            onChange={(e) =>
+              setValues((current) => ({ ...current, [name]: e.target.value }))
+            }
+            maxLength={200}
+          />
+        </div>
+      ))}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Start Date</Label>
+          <Popover open={calendarOpen} onOpenChange={setCalendarOpen}>
+            <PopoverTrigger asChild>
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full justify-start text-left font-normal"
+              >
+                <CalendarIcon className="mr-2 h-4 w-4" />
+                {format(startDate, 'PPP')}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="single"
+                selected={startDate}
+                onSelect={(date) => {
+                  if (date) {
+                    setStartDate(startOfDay(date))
+                  }
+                  setCalendarOpen(false)
+                }}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+        </div>
+        <div className="space-y-2">
+          <Label>Project</Label>
+          <ProjectSelect value={projectId} onChange={setProjectId} />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label>Tasks</Label>
+        <ul className="max-h-48 space-y-1 overflow-y-auto rounded-md border p-2 text-sm">
+          {selected.items.map((item, index) => {
+            const dueDate = getTemplateDueDate(startDate, item.dueOffsetDays)
+            return (
+              <li
+                key={index}
+                className={cn(
+                  'flex items-center justify-between gap-2',
+                  item.parentIndex !== null && 'pl-4'
+                )}
+              >
+                <span className="truncate">
+                  {previewText(item.title, values)}
+                </span>
+                {dueDate && (
+                  <span className="flex-shrink-0 text-xs text-gray-500 dark:text-gray-400">
+                    {format(dueDate, 'MMM d')}
+                  </span>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          type="submit"
+          disabled={
+            instantiateMutation.isPending ||
+            selected.variables.some((name) => !values[name]?.trim())
+          }
+        >
+          {instantiateMutation.isPending
+            ? 'Creating...'
+            : `Create ${selected.items.length} Task${
+                selected.items.length === 1 ? '' : 's'
+              }`}
+        </Button>
+      </div>
+    </form>
+  )
+}
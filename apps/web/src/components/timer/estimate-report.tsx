@@ -0,0 +1,221 @@
+'use client'
+
+import { useState } from 'react'
+import { endOfDay, format, parseISO, startOfDay, subDays } from 'date-fns'
+import { Target } from 'lucide-react'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils'
+import { trpc } from '@/lib/trpc'
+import { formatMinutes } from '@/lib/estimate-report'
+
+const rangeOptions = [
+  { days: 7, label: '7 days' },
+  { days: 28, label: '4 weeks' },
+  { days: 90, label: '90 days' },
+] as const
+
+type Grouping = 'task' | 'tag' | 'week'
+
+function RatioBadge({ ratio }: { ratio: number | null }) {
+  if (ratio === null) {
+    return <span className="text-gray-400">–</span>
+  }
+
+  // Within 20% either way counts as on target
+  const onTarget = ratio >= 0.8 && ratio <= 1.2
+  return (
+    <Badge
+      variant="secondary"
+      className={cn(
+        'font-mono',
+        onTarget
+          ? 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300'
+          : ratio > 1.2
+            ? 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300'
+            : 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300'
+      )}
+    >
+      {ratio.toFixed(2)}×
+    </Badge>
+  )
+}
+
+interface EstimateReportProps {
+  /** Only count time logged under this project */
+  projectId?: string
+}
+
+export function EstimateReport({ projectId }: EstimateReportProps) {
+  const [days, setDays] = useState<number>(28)
+  const [grouping, setGrouping] = useState<Grouping>('task')
+
+  const today = new Date()
+  const { data: report, isLoading } = trpc.time.getEstimateReport.useQuery({
+    range: {
+      from: startOfDay(subDays(today, days - 1)).toISOString(),
+      to: endOfDay(today).toISOString(),
+    },
+    projectId,
+  })
+
+  const rows =
+    report &&
+    (grouping === 'task'
+      ? report.tasks.map((row) => ({
+          key: row.taskId,
+          name: row.title,
+          color: null,
+          ...row,
+        }))
+      : grouping === 'tag'
+        ? report.tags.map((row) => ({
+            key: row.tag?.id ?? 'none',
+            name: row.tag?.name ?? 'Untagged',
+            color: row.tag?.color ?? null,
+            ...row,
+          }))
+        : report.weeks.map((row) => ({
+            key: row.weekStart,
+            name: `Week of ${format(parseISO(row.weekStart), 'MMM d')}`,
+            color: null,
+            ...row,
+          })))
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Target className="h-5 w-5" />
+            Estimates vs Actual
+          </CardTitle>
+          <CardDescription>
+            Ratio of tracked to estimated time: above 1× means work ran over
+          </CardDescription>
+        </div>
+        <div className="flex gap-1">
+          {rangeOptions.map((option) => (
+            <button
+              key={option.days}
+              type="button"
+              onClick={() => setDays(option.days)}
+              className={cn(
+                'rounded-md px-2 py-1 text-xs font-medium transition-colors',
+                days === option.days
+                  ? 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300'
+                  : 'text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300'
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !report ? (
+          <p className="text-sm text-gray-500">Loading report...</p>
+        ) : report.totals.taskCount === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No estimated tasks were worked on in this period. Add an estimate to
+            a task and track time against it to see how your plans hold up.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div>
+                <p className="text-xs text-gray-500">Estimated</p>
+                <p className="text-lg font-semibold">
+                  {formatMinutes(report.totals.estimatedMinutes)}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-500">Tracked</p>
+                <p className="text-lg font-semibold">
+                  {formatMinutes(report.totals.actualMinutes)}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-500">Accuracy</p>
+                <div className="mt-1">
+                  <RatioBadge ratio={report.totals.accuracyRatio} />
+                </div>
+              </div>
+            </div>
+
+            <div className="flex gap-1 border-b pb-2">
+              {(['task', 'tag', 'week'] as const).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setGrouping(option)}
+                  className={cn(
+                    'rounded-md px-3 py-1 text-sm font-medium capitalize transition-colors',
+                    grouping === option
+                      ? 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300'
+                      : 'text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300'
+                  )}
+                >
+                  By {option}
+                </button>
+              ))}
+            </div>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500">
+                  <th className="pb-2 font-medium">Name</th>
+                  <th className="pb-2 text-right font-medium">Estimated</th>
+                  <th className="pb-2 text-right font-medium">Tracked</th>
+                  <th className="pb-2 text-right font-medium">Ratio</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows?.map((row) => (
+                  <tr key={row.key} className="border-t">
+                    <td className="max-w-0 truncate py-2 pr-2">
+                      {row.color && (
+                        <span
+                          className="mr-2 inline-block h-2.5 w-2.5 rounded-full"
+                          style={{ backgroundColor: row.color }}
+                        />
+                      )}
+                      {row.name}
+                      {grouping !== 'task' && (
+                        <span className="ml-1 text-xs text-gray-400">
+                          ({row.taskCount})
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 text-right font-mono">
+                      {formatMinutes(row.estimatedMinutes)}
+                    </td>
+                    <td className="py-2 text-right font-mono">
+                      {formatMinutes(row.actualMinutes)}
+                    </td>
+                    <td className="py-2 text-right">
+                      <RatioBadge ratio={row.accuracyRatio} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {report.totals.unestimatedMinutes > 0 && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {formatMinutes(report.totals.unestimatedMinutes)} was tracked
+                against tasks without an estimate.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
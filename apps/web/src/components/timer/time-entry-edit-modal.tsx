@@ -18,7 +18,6 @@ import {
   FormLabel,
   FormMessage,
 } from '@/components/ui/form'
-import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { Checkbox } from '@/components/ui/checkbox'
 import {
@@ -28,13 +27,16 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
+import { TagPicker } from '@/components/tags/tag-picker'
+import { ProjectSelect } from '@/components/projects/project-select'
 import { trpc } from '@/lib/trpc'
 import { toast } from 'sonner'
 
 const editEntrySchema = z.object({
-  label: z.string().nullable(),
   taskId: z.string().nullable(),
   eventId: z.string().nullable(),
+  tagIds: z.array(z.string()),
+  projectId: z.string().nullable(),
   distractionFree: z.boolean(),
 })
 
@@ -42,10 +44,11 @@ type EditEntryFormData = z.infer<typeof editEntrySchema>
 
 interface TimeEntry {
   id: string
-  label: string | null
   distractionFree: boolean
   task: { id: string; title: string } | null
   event: { id: string; title: string } | null
+  tags: { id: string }[]
+  project: { id: string } | null
 }
 
 interface TimeEntryEditModalProps {
@@ -64,9 +67,10 @@ export function TimeEntryEditModal({
   const form = useForm<EditEntryFormData>({
     resolver: zodResolver(editEntrySchema),
     defaultValues: {
-      label: entry.label || null,
       taskId: entry.task?.id || '__CLEAR__',
       eventId: entry.event?.id || '__CLEAR__',
+      tagIds: entry.tags.map((tag) => tag.id),
+      projectId: entry.project?.id ?? null,
       distractionFree: entry.distractionFree,
     },
   })
@@ -115,9 +119,10 @@ export function TimeEntryEditModal({
   const onSubmit = (data: EditEntryFormData) => {
     updateEntryMutation.mutate({
       id: entry.id,
-      label: data.label || null,
       taskId: data.taskId === '__CLEAR__' ? null : data.taskId || null,
       eventId: data.eventId === '__CLEAR__' ? null : data.eventId || null,
+      tagIds: data.tagIds,
+      projectId: data.projectId,
       distractionFree: data.distractionFree,
     })
   }
@@ -128,8 +133,8 @@ export function TimeEntryEditModal({
         <DialogHeader>
           <DialogTitle>Edit Time Entry</DialogTitle>
           <DialogDescription>
-            Update the session title, task/event assignment, and
-            distraction-free status.
+            Update the task/event assignment, project, tags and distraction-free
+            status.
           </DialogDescription>
         </DialogHeader>
 
@@ -138,32 +143,13 @@ export function TimeEntryEditModal({
             <p className="font-medium">Limited functionality available</p>
             <p>
               Some features may not work due to connection issues. You can still
-              edit the label and distraction-free status.
+              edit the tags and distraction-free status.
             </p>
           </div>
         )}
 
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-            <FormField
-              control={form.control}
-              name="label"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Session Title</FormLabel>
-                  <FormControl>
-                    <Input
-                      placeholder="e.g., Deep Work, Reading, Planning"
-                      {...field}
-                      value={field.value || ''}
-                      autoFocus
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
             {!tasksError && (
               <FormField
                 control={form.control}
@@ -230,6 +216,33 @@ export function TimeEntryEditModal({
               />
             )}
 
+            <FormField
+              control={form.control}
+              name="projectId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Project</FormLabel>
+                  <ProjectSelect
+                    value={field.value}
+                    onChange={field.onChange}
+                  />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="tagIds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tags</FormLabel>
+                  <TagPicker value={field.value} onChange={field.onChange} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="distractionFree"
@@ -4,6 +4,7 @@ import Link from 'next/link'
 import { useSession, signOut } from 'next-auth/react'
 import { Button } from '@/components/ui/button'
 import { TimerWidget } from '@/components/timer/timer-widget'
+import { NotificationBell } from '@/components/notifications/notification-bell'
 
 export function Header() {
   const { data: session, status } = useSession()
@@ -26,6 +27,7 @@ export function Header() {
             ) : session ? (
               <>
                 <TimerWidget />
+                <NotificationBell />
                 <Button variant="ghost" asChild>
                   <Link href="/dashboard">Dashboard</Link>
                 </Button>
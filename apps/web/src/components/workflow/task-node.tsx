@@ -9,11 +9,12 @@ import {
   XCircle,
 } from 'lucide-react'
 import type { Task } from '@prisma/client'
+import type { TagSummary } from '@/lib/tags'
 import { cn } from '@/lib/utils'
 
 interface TaskNodeProps {
   data: {
-    task: Task
+    task: Task & { tags?: TagSummary[] }
     status: 'completed' | 'upcoming' | 'at-risk' | 'overdue'
   }
   selected?: boolean
@@ -108,10 +109,11 @@ export function TaskNode({ data, selected }: TaskNodeProps) {
               </div>
             )}
 
-            {task.label && (
+            {task.tags?.[0] && (
               <span
                 className="rounded px-1.5 py-0.5 text-xs text-white"
-                style={{ backgroundColor: task.label }}
+                style={{ backgroundColor: task.tags[0].color }}
+                title={task.tags.map((tag) => tag.name).join(', ')}
               >
                 {task.priority}
               </span>
@@ -29,6 +29,7 @@ type BoardItem = {
 }
 import { trpc } from '@/lib/trpc'
 import { cn } from '@/lib/utils'
+import { useTrashUndo } from '@/lib/hooks/use-trash-undo'
 
 interface EnhancedBoardItem extends BoardItem {
   data: any
@@ -57,10 +58,14 @@ export function WorkflowHeader({
 
   const utils = trpc.useUtils()
   const { data: stats } = trpc.board.getStats.useQuery({ boardId: board.id })
+  const showTrashUndo = useTrashUndo()
   const deleteMutation = trpc.board.delete.useMutation({
-    onSuccess: () => {
+    onSuccess: (deleted) => {
       // Invalidate board list when deleting from within a board
       utils.board.list.invalidate()
+      showTrashUndo('board', deleted.id, () =>
+        router.push(`/boards/${deleted.id}`)
+      )
     },
   })
 
@@ -79,18 +84,12 @@ export function WorkflowHeader({
   }, [])
 
   const handleDeleteBoard = async () => {
-    if (
-      window.confirm(
-        `Are you sure you want to delete "${board.name}"? This action cannot be undone and will remove all items and connections.`
-      )
-    ) {
-      try {
-        await deleteMutation.mutateAsync({ id: board.id })
-        router.push('/boards')
-      } catch (error) {
-        console.error('Failed to delete board:', error)
-        // Toast notification would be ideal here, but we'll rely on the mutation error
-      }
+    try {
+      await deleteMutation.mutateAsync({ id: board.id })
+      router.push('/boards')
+    } catch (error) {
+      console.error('Failed to delete board:', error)
+      // Toast notification would be ideal here, but we'll rely on the mutation error
     }
   }
 
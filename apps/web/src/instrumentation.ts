@@ -0,0 +1,20 @@
+// Runs once when the server starts. See
+// https://nextjs.org/docs/app/guides/instrumentation
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.IS_BUILD) {
+    return
+  }
+
+  const { prisma } = await import('@/lib/db')
+  const { createTrashPurger } = await import('@/server/trash/purge')
+
+  void createTrashPurger({ prisma }).start()
+
+  if (process.env.REMINDER_SCHEDULER !== 'off') {
+    const { createReminderScheduler } = await import(
+      '@/server/reminders/scheduler'
+    )
+
+    void createReminderScheduler({ prisma }).start()
+  }
+}
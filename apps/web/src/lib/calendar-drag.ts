@@ -0,0 +1,79 @@
+// Turns what the calendar reports after a drag into the times to save.
+// All-day events are stored as UTC midnights with an exclusive end, while
+// the calendar lays them out on the browser's days, so they are converted
+// on the way in and out.
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Length given to an all-day event dragged into the time grid */
+export const DEFAULT_EVENT_MINUTES = 60
+
+/** Shows a stored all-day date on the same day of the browser's calendar */
+export function toLocalDay(date: Date): Date {
+  return new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+}
+
+/** Stores a day of the browser's calendar as an all-day date */
+export function toStoredDay(date: Date): Date {
+  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()))
+}
+
+// The browser's midnight at or after a time
+function ceilToLocalDay(date: Date) {
+  const midnight = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  return midnight < date
+    ? new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1)
+    : midnight
+}
+
+/**
+ * Works out an event's new times after it was dragged or resized
+ * @param event The event as the calendar showed it
+ * @param drop Where it was dropped. isAllDay is set when a move went
+ * between the all-day row and the time grid.
+ */
+export function getDroppedTimes(
+  event: { allDay: boolean },
+  drop: { start: Date; end: Date; isAllDay?: boolean }
+): { startsAt: Date; endsAt: Date; allDay: boolean } {
+  const allDay = drop.isAllDay ?? event.allDay
+
+  if (allDay) {
+    const startsAt = toStoredDay(drop.start)
+    const endsAt = toStoredDay(ceilToLocalDay(drop.end))
+    return {
+      startsAt,
+      // Lasting at least the day it was dropped on
+      endsAt:
+        endsAt > startsAt ? endsAt : new Date(startsAt.getTime() + DAY_MS),
+      allDay,
+    }
+  }
+
+  // A whole day in the time grid would be too long, so it gets the default
+  const endsAt =
+    event.allDay || drop.end <= drop.start
+      ? new Date(drop.start.getTime() + DEFAULT_EVENT_MINUTES * 60 * 1000)
+      : drop.end
+  return { startsAt: drop.start, endsAt, allDay }
+}
+
+/**
+ * Tells whether something dragged in from outside the calendar was dropped
+ * on whole days. Month cells and the all-day row report the day it was
+ * dropped on, while the time grid reports a slot and the item's length.
+ */
+export function isAllDayDrop(drop: { start: Date; end: Date }): boolean {
+  const { start } = drop
+  const midnight = new Date(
+    start.getFullYear(),
+    start.getMonth(),
+    start.getDate()
+  )
+  const nextDay = new Date(
+    start.getFullYear(),
+    start.getMonth(),
+    start.getDate() + 1
+  )
+  return start.getTime() === midnight.getTime() && drop.end >= nextDay
+}
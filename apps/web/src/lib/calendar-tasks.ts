@@ -0,0 +1,82 @@
+import { DEFAULT_EVENT_MINUTES } from '@/lib/calendar-drag'
+import {
+  fromZonedWallTime,
+  getZonedDateKey,
+  startOfDayInZone,
+} from '@/lib/timezone'
+
+// Tasks show on the calendar on their due dates. Due dates picked without
+// a time are midnight on the user's clock, so those show in the all-day
+// row, stored like all-day events: the UTC midnight of the day, with an
+// exclusive end.
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Length a task due at a time is shown with in the time grid */
+export const TASK_ITEM_MINUTES = 30
+
+export interface CalendarTimes {
+  startsAt: Date
+  endsAt: Date
+  allDay: boolean
+}
+
+/**
+ * Works out where a task shows on the calendar
+ * @param timeZone The user's IANA timezone
+ */
+export function getTaskCalendarTimes(
+  dueDate: Date,
+  timeZone: string
+): CalendarTimes {
+  if (startOfDayInZone(dueDate, timeZone).getTime() === dueDate.getTime()) {
+    const startsAt = new Date(getZonedDateKey(dueDate, timeZone))
+    return {
+      startsAt,
+      endsAt: new Date(startsAt.getTime() + DAY_MS),
+      allDay: true,
+    }
+  }
+
+  return {
+    startsAt: dueDate,
+    endsAt: new Date(dueDate.getTime() + TASK_ITEM_MINUTES * 60 * 1000),
+    allDay: false,
+  }
+}
+
+/**
+ * Works out what dropping a task on the calendar saves, as a linked event
+ * or as its due date
+ * @param task Events are as long as the task's estimate, if it has one
+ * @param drop Where it was dropped. All-day drops start at the UTC
+ * midnight of the day, as all-day events are stored.
+ * @param timeZone The user's IANA timezone
+ */
+export function getTaskDropTimes(
+  task: { estimateMinutes: number | null },
+  drop: { start: Date; allDay: boolean },
+  timeZone: string
+): { event: CalendarTimes; dueDate: Date } {
+  if (drop.allDay) {
+    return {
+      event: {
+        startsAt: drop.start,
+        endsAt: new Date(drop.start.getTime() + DAY_MS),
+        allDay: true,
+      },
+      // Midnight on the user's clock, as the due date picker sets it
+      dueDate: fromZonedWallTime(drop.start, timeZone),
+    }
+  }
+
+  const minutes = task.estimateMinutes ?? DEFAULT_EVENT_MINUTES
+  return {
+    event: {
+      startsAt: drop.start,
+      endsAt: new Date(drop.start.getTime() + minutes * 60 * 1000),
+      allDay: false,
+    },
+    dueDate: drop.start,
+  }
+}
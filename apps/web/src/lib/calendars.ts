@@ -0,0 +1,20 @@
+export const DEFAULT_CALENDAR_NAME = 'Personal'
+export const DEFAULT_CALENDAR_COLOR = '#3b82f6'
+
+export interface CalendarSummary {
+  id: string
+  name: string
+  color: string
+  visible: boolean
+}
+
+/**
+ * Picks the calendar new events go in when none was chosen: the first one
+ * shown, so they don't disappear from view, or else the default one
+ * @param calendars The user's calendars, default first, see calendar.list
+ */
+export function pickNewEventCalendar<T extends CalendarSummary>(
+  calendars: T[]
+): T | undefined {
+  return calendars.find((calendar) => calendar.visible) ?? calendars[0]
+}
@@ -0,0 +1,123 @@
+import type { Priority } from '@prisma/client'
+import type { TimeInterval } from '@/lib/free-busy'
+
+// Places tasks as time blocks into the open gaps of a day. Tasks due by the
+// end of the day go first, then by priority, due date and their order in
+// the list. Each task takes the earliest gap its whole estimate fits in,
+// starting on a slot boundary, and tasks that fit nowhere are left out.
+// The same tasks and gaps always give the same plan.
+
+/** Block starts are rounded up to a multiple of this many minutes */
+export const PLANNER_SLOT_MINUTES = 15
+
+const PRIORITY_RANK: Record<Priority, number> = {
+  URGENT: 3,
+  HIGH: 2,
+  MEDIUM: 1,
+  LOW: 0,
+}
+
+export interface PlannerTask {
+  id: string
+  priority: Priority
+  dueDate: Date | null
+  estimateMinutes: number
+  order: number
+}
+
+export interface PlannedBlock {
+  taskId: string
+  start: Date
+  end: Date
+}
+
+export interface DayPlan {
+  /** Blocks in order of time */
+  blocks: PlannedBlock[]
+  /** Tasks no gap was long enough for, in the order they were tried */
+  unplaced: string[]
+}
+
+/**
+ * Orders tasks by how soon they should be worked on
+ * @param dueBy Tasks due by then come before all others
+ */
+export function compareForPlanning(
+  a: PlannerTask,
+  b: PlannerTask,
+  dueBy: Date
+): number {
+  const aDue = a.dueDate !== null && a.dueDate < dueBy
+  const bDue = b.dueDate !== null && b.dueDate < dueBy
+  if (aDue !== bDue) return aDue ? -1 : 1
+
+  const priority = PRIORITY_RANK[b.priority] - PRIORITY_RANK[a.priority]
+  if (priority !== 0) return priority
+
+  if (a.dueDate?.getTime() !== b.dueDate?.getTime()) {
+    if (!a.dueDate) return 1
+    if (!b.dueDate) return -1
+    return a.dueDate.getTime() - b.dueDate.getTime()
+  }
+
+  if (a.order !== b.order) return a.order - b.order
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0
+}
+
+// Rounds a time up to the next slot boundary
+function ceilToSlot(date: Date, slotMs: number) {
+  return new Date(Math.ceil(date.getTime() / slotMs) * slotMs)
+}
+
+/**
+ * Plans time blocks for tasks
+ * @param tasks Tasks to place, with estimates of at least a minute
+ * @param free Open gaps to place them in, not overlapping each other
+ * @param options.dueBy The end of the day being planned
+ * @param options.slotMinutes What block starts are rounded up to
+ */
+export function planTimeBlocks(
+  tasks: PlannerTask[],
+  free: TimeInterval[],
+  options: { dueBy: Date; slotMinutes?: number }
+): DayPlan {
+  const slotMs = (options.slotMinutes ?? PLANNER_SLOT_MINUTES) * 60 * 1000
+  const gaps = [...free]
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .map((gap) => ({ ...gap }))
+  const blocks: PlannedBlock[] = []
+  const unplaced: string[] = []
+
+  const ordered = [...tasks].sort((a, b) =>
+    compareForPlanning(a, b, options.dueBy)
+  )
+  for (const task of ordered) {
+    const length = task.estimateMinutes * 60 * 1000
+    const index = gaps.findIndex(
+      (gap) =>
+        ceilToSlot(gap.start, slotMs).getTime() + length <= gap.end.getTime()
+    )
+
+    if (index === -1) {
+      unplaced.push(task.id)
+      continue
+    }
+
+    // The block splits its gap into what's left before and after it
+    const gap = gaps[index]
+    const start = ceilToSlot(gap.start, slotMs)
+    const end = new Date(start.getTime() + length)
+    blocks.push({ taskId: task.id, start, end })
+    gaps.splice(
+      index,
+      1,
+      ...[
+        { start: gap.start, end: start },
+        { start: end, end: gap.end },
+      ].filter((rest) => rest.start < rest.end)
+    )
+  }
+
+  blocks.sort((a, b) => a.start.getTime() - b.start.getTime())
+  return { blocks, unplaced }
+}
@@ -0,0 +1,202 @@
+import type { TagSummary } from './tags'
+import { DEFAULT_TIME_ZONE, toZonedWallTime } from './timezone'
+
+export interface EstimatedTask {
+  id: string
+  title: string
+  tags: TagSummary[]
+  status: string
+  estimateMinutes: number | null
+}
+
+export interface TrackedEntry {
+  taskId: string
+  start: Date
+  /** Seconds */
+  duration: number
+}
+
+export interface EstimateComparison {
+  estimatedMinutes: number
+  actualMinutes: number
+  /**
+   * Actual divided by estimated minutes: 1 is spot on, 1.5 means the work
+   * took half again as long as planned. Null when nothing was estimated.
+   */
+  accuracyRatio: number | null
+  taskCount: number
+}
+
+export interface EstimateReport {
+  tasks: (EstimateComparison & {
+    taskId: string
+    title: string
+    tags: TagSummary[]
+    status: string
+    weekStart: string
+  })[]
+  /** A task with several tags counts towards each of them */
+  tags: (EstimateComparison & { tag: TagSummary | null })[]
+  weeks: (EstimateComparison & { weekStart: string })[]
+  totals: EstimateComparison & {
+    /** Tracked time on tasks that had no estimate */
+    unestimatedMinutes: number
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Formats a minute count compactly, e.g. "45m", "2h" or "1h 30m"
+ * @param minutes Whole minutes
+ */
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60)
+  const rest = Math.round(minutes % 60)
+  if (hours === 0) return `${rest}m`
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`
+}
+
+function compare(
+  estimatedMinutes: number,
+  actualMinutes: number,
+  taskCount: number
+): EstimateComparison {
+  return {
+    estimatedMinutes,
+    actualMinutes: Math.round(actualMinutes),
+    accuracyRatio:
+      estimatedMinutes > 0
+        ? Math.round((actualMinutes / estimatedMinutes) * 100) / 100
+        : null,
+    taskCount,
+  }
+}
+
+/**
+ * Returns the Monday (YYYY-MM-DD) of the week containing a moment
+ * @param date The moment to bucket
+ * @param timeZone The user's IANA timezone
+ */
+export function weekStartOf(
+  date: Date,
+  timeZone: string = DEFAULT_TIME_ZONE
+): string {
+  const wall = toZonedWallTime(date, timeZone)
+  const daysSinceMonday = (wall.getUTCDay() + 6) % 7
+  const monday = new Date(wall.getTime() - daysSinceMonday * DAY_MS)
+  return monday.toISOString().slice(0, 10)
+}
+
+/**
+ * Compares estimated and tracked minutes per task, tag and week
+ *
+ * Only tasks with both an estimate and tracked time take part in the
+ * comparison. Each of those tasks counts towards the week of its latest
+ * entry, i.e. the week the work wrapped up, so weekly ratios compare whole
+ * tasks rather than slices of them.
+ * @param tasks Tasks referenced by the entries
+ * @param entries Time entries linked to tasks
+ * @param timeZone The user's IANA timezone, for weeks
+ * @returns Per-task rows sorted by overrun, plus tag and week rollups
+ */
+export function buildEstimateReport(
+  tasks: EstimatedTask[],
+  entries: TrackedEntry[],
+  timeZone: string = DEFAULT_TIME_ZONE
+): EstimateReport {
+  const tracked = new Map<string, { seconds: number; lastStart: Date }>()
+  for (const entry of entries) {
+    const current = tracked.get(entry.taskId)
+    tracked.set(entry.taskId, {
+      seconds: (current?.seconds ?? 0) + entry.duration,
+      lastStart:
+        current && current.lastStart > entry.start
+          ? current.lastStart
+          : entry.start,
+    })
+  }
+
+  const rows: EstimateReport['tasks'] = []
+  let unestimatedSeconds = 0
+
+  for (const task of tasks) {
+    const time = tracked.get(task.id)
+    if (!time) continue
+
+    if (!task.estimateMinutes) {
+      unestimatedSeconds += time.seconds
+      continue
+    }
+
+    rows.push({
+      taskId: task.id,
+      title: task.title,
+      tags: task.tags,
+      status: task.status,
+      weekStart: weekStartOf(time.lastStart, timeZone),
+      ...compare(task.estimateMinutes, time.seconds / 60, 1),
+    })
+  }
+
+  const rollup = <K extends string | null>(
+    keys: (row: (typeof rows)[0]) => K[]
+  ) => {
+    const groups = new Map<
+      K,
+      { estimated: number; actual: number; count: number }
+    >()
+    for (const row of rows) {
+      for (const key of keys(row)) {
+        const group = groups.get(key) ?? {
+          estimated: 0,
+          actual: 0,
+          count: 0,
+        }
+        group.estimated += row.estimatedMinutes
+        group.actual += tracked.get(row.taskId)!.seconds / 60
+        group.count += 1
+        groups.set(key, group)
+      }
+    }
+    return Array.from(groups.entries()).map(([value, group]) => ({
+      value,
+      ...compare(group.estimated, group.actual, group.count),
+    }))
+  }
+
+  const tagsById = new Map(
+    tasks.flatMap((task) => task.tags).map((tag) => [tag.id, tag])
+  )
+  const tags = rollup((row) =>
+    row.tags.length > 0 ? row.tags.map((tag) => tag.id) : [null]
+  )
+    .map(({ value, ...comparison }) => ({
+      tag: value ? tagsById.get(value)! : null,
+      ...comparison,
+    }))
+    .sort((a, b) => b.actualMinutes - a.actualMinutes)
+
+  const weeks = rollup((row) => [row.weekStart])
+    .map(({ value, ...comparison }) => ({ weekStart: value, ...comparison }))
+    .sort((a, b) => a.weekStart.localeCompare(b.weekStart))
+
+  const totalEstimated = rows.reduce(
+    (sum, row) => sum + row.estimatedMinutes,
+    0
+  )
+  const totalActual = rows.reduce(
+    (sum, row) => sum + tracked.get(row.taskId)!.seconds / 60,
+    0
+  )
+
+  return {
+    tasks: rows.sort((a, b) => (b.accuracyRatio ?? 0) - (a.accuracyRatio ?? 0)),
+    tags,
+    weeks,
+    totals: {
+      ...compare(totalEstimated, totalActual, rows.length),
+      unestimatedMinutes: Math.round(unestimatedSeconds / 60),
+    },
+  }
+}
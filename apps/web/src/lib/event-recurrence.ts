@@ -0,0 +1,225 @@
+import { WEEKDAYS, type RecurrenceRule } from '@/lib/recurrence'
+import { fromZonedWallTime, toZonedWallTime } from '@/lib/timezone'
+
+// Recurring calendar events store one RRULE on the first event of the
+// series and are expanded into occurrences when a date range is read.
+// Occurrences are generated on the user's wall clock, so a 09:00 standup
+// stays at 09:00 when daylight saving time starts or ends. Generation
+// jumps straight to the requested range instead of walking the series
+// from its start, which keeps ranges years away from the start cheap.
+
+export const RECURRENCE_SCOPES = ['this', 'following', 'all'] as const
+
+/** Which occurrences of a series an edit or delete applies to */
+export type RecurrenceScope = (typeof RECURRENCE_SCOPES)[number]
+
+export const RECURRENCE_SCOPE_LABELS: Record<RecurrenceScope, string> = {
+  this: 'This event',
+  following: 'This and following events',
+  all: 'All events',
+}
+
+export interface EventOccurrence {
+  start: Date
+  end: Date
+  /** Zero-based position in the series */
+  index: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** All-day events are stored as UTC midnights, so they repeat on UTC days */
+export function getSeriesTimeZone(
+  series: { allDay: boolean },
+  timeZone: string
+) {
+  return series.allDay ? 'UTC' : timeZone
+}
+
+// Generates occurrences from the first one at or after `from` until `to`,
+// all as wall clock times (see toZonedWallTime)
+function* wallOccurrences(
+  rule: RecurrenceRule,
+  anchor: number,
+  from: number,
+  to: number
+): Generator<{ wall: number; index: number }> {
+  const timeOfDay = ((anchor % DAY_MS) + DAY_MS) % DAY_MS
+  const anchorDay = anchor - timeOfDay
+
+  if (rule.freq === 'DAILY') {
+    const step = rule.interval * DAY_MS
+    for (
+      let index = Math.max(0, Math.ceil((from - anchor) / step));
+      anchor + index * step <= to;
+      index++
+    ) {
+      yield { wall: anchor + index * step, index }
+    }
+    return
+  }
+
+  if (rule.freq === 'WEEKLY') {
+    // Days since Monday, since weeks start on Monday like in getNextOccurrence
+    const weekday = (day: number) => (new Date(day).getUTCDay() + 6) % 7
+    const offsets = Array.from(
+      new Set(
+        (rule.byDay?.length
+          ? rule.byDay.map((day) => (WEEKDAYS.indexOf(day) + 6) % 7)
+          : [weekday(anchorDay)]
+        ).sort((a, b) => a - b)
+      )
+    )
+    const anchorWeek = anchorDay - weekday(anchorDay) * DAY_MS
+    const period = 7 * rule.interval * DAY_MS
+    const firstWeek = [
+      anchor,
+      ...offsets
+        .map((offset) => anchorWeek + offset * DAY_MS + timeOfDay)
+        .filter((wall) => wall > anchor),
+    ]
+
+    let week = Math.max(0, Math.floor((from - anchorWeek) / period))
+    let index = week === 0 ? 0 : firstWeek.length + (week - 1) * offsets.length
+    for (; anchorWeek + week * period <= to; week++) {
+      const walls =
+        week === 0
+          ? firstWeek
+          : offsets.map(
+              (offset) =>
+                anchorWeek + week * period + offset * DAY_MS + timeOfDay
+            )
+      for (const wall of walls) {
+        if (wall > to) return
+        if (wall >= from) yield { wall, index }
+        index++
+      }
+    }
+    return
+  }
+
+  // Monthly series skip months without a matching day, so positions are
+  // counted from the start. That is at most twelve steps a year.
+  const start = new Date(anchorDay)
+  let index = 0
+  if (anchor >= from) yield { wall: anchor, index }
+  index++
+
+  for (let step = 0; ; step += rule.interval) {
+    const year = start.getUTCFullYear()
+    const month = start.getUTCMonth() + step
+    if (Date.UTC(year, month, 1) > to) return
+
+    const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+    let day: number | undefined
+    if (rule.byDay && rule.bySetPos !== undefined) {
+      const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay()
+      const first =
+        1 + ((WEEKDAYS.indexOf(rule.byDay[0]) - firstWeekday + 7) % 7)
+      const matches: number[] = []
+      for (let candidate = first; candidate <= daysInMonth; candidate += 7) {
+        matches.push(candidate)
+      }
+      day =
+        rule.bySetPos === -1
+          ? matches[matches.length - 1]
+          : matches[rule.bySetPos - 1]
+    } else {
+      const dayOfMonth = rule.byMonthDay ?? start.getUTCDate()
+      day = dayOfMonth === -1 ? daysInMonth : dayOfMonth
+      // Months without that day are skipped, as in RFC 5545
+      if (day > daysInMonth) day = undefined
+    }
+    if (day === undefined) continue
+
+    const wall = Date.UTC(year, month, day) + timeOfDay
+    if (wall <= anchor) continue
+    if (wall > to) return
+    if (wall >= from) yield { wall, index }
+    index++
+  }
+}
+
+/**
+ * Lists the occurrences of a recurring event that start within a range
+ * @param series The first event of the series and its rule
+ * @param range Inclusive range the occurrences must start in
+ * @param timeZone IANA timezone the series repeats in
+ */
+export function getEventOccurrences(
+  series: { startsAt: Date; endsAt: Date; rule: RecurrenceRule },
+  range: { start: Date; end: Date },
+  timeZone: string
+): EventOccurrence[] {
+  const { rule } = series
+  const anchor = toZonedWallTime(series.startsAt, timeZone).getTime()
+  const duration = toZonedWallTime(series.endsAt, timeZone).getTime() - anchor
+  // A day either side covers any difference between wall and real time
+  const from = toZonedWallTime(range.start, timeZone).getTime() - DAY_MS
+  const to = toZonedWallTime(range.end, timeZone).getTime() + DAY_MS
+
+  const occurrences: EventOccurrence[] = []
+  for (const { wall, index } of wallOccurrences(rule, anchor, from, to)) {
+    if (rule.count !== undefined && index >= rule.count) break
+
+    const start = fromZonedWallTime(new Date(wall), timeZone)
+    if (rule.until && start > rule.until) break
+    if (start < range.start || start > range.end) continue
+
+    occurrences.push({
+      start,
+      end: fromZonedWallTime(new Date(wall + duration), timeZone),
+      index,
+    })
+  }
+
+  return occurrences
+}
+
+/**
+ * Finds the occurrence of a series that starts at a given moment
+ * @returns The occurrence, or null when the series has none then
+ */
+export function findEventOccurrence(
+  series: { startsAt: Date; endsAt: Date; rule: RecurrenceRule },
+  start: Date,
+  timeZone: string
+): EventOccurrence | null {
+  const [occurrence] = getEventOccurrences(
+    series,
+    { start, end: start },
+    timeZone
+  )
+  return occurrence ?? null
+}
+
+/**
+ * Ends a series just before one of its occurrences, for splitting it
+ * @returns The shortened rule, or null when nothing comes before it
+ */
+export function endRuleBefore(
+  rule: RecurrenceRule,
+  occurrence: EventOccurrence
+): RecurrenceRule | null {
+  if (occurrence.index === 0) {
+    return null
+  }
+  if (rule.count !== undefined) {
+    return { ...rule, count: occurrence.index }
+  }
+  return { ...rule, until: new Date(occurrence.start.getTime() - 1000) }
+}
+
+/**
+ * Continues a series from one of its occurrences, for splitting it
+ * @returns The rule for a series that starts at that occurrence
+ */
+export function continueRuleFrom(
+  rule: RecurrenceRule,
+  occurrence: EventOccurrence
+): RecurrenceRule {
+  if (rule.count !== undefined) {
+    return { ...rule, count: rule.count - occurrence.index }
+  }
+  return rule
+}
@@ -0,0 +1,157 @@
+import { fromZonedWallTime, toZonedWallTime } from '@/lib/timezone'
+
+// Busy time and open gaps in a user's calendar. All-day events are stored
+// as UTC midnights with an exclusive end (see lib/ical), so they are read
+// as the same calendar days on the user's clock and block those days from
+// midnight to midnight. Events spanning several days block all of the
+// time in between.
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface TimeInterval {
+  start: Date
+  end: Date
+}
+
+/** A stretch of busy time and the events that fill it */
+export interface BusyInterval extends TimeInterval {
+  eventIds: string[]
+}
+
+export interface WorkingHours {
+  /** Minutes after midnight the working day starts */
+  start: number
+  /** Minutes after midnight the working day ends, after the start */
+  end: number
+  /** Working weekdays, 0 for Sunday through 6 for Saturday */
+  days: number[]
+}
+
+export const DEFAULT_WORKING_HOURS: WorkingHours = {
+  start: 9 * 60,
+  end: 17 * 60,
+  days: [1, 2, 3, 4, 5],
+}
+
+/**
+ * Returns the time an event takes up
+ * @param timeZone IANA timezone all-day events take up whole days in
+ */
+export function getEventInterval(
+  event: { startsAt: Date; endsAt: Date; allDay: boolean },
+  timeZone: string
+): TimeInterval {
+  if (!event.allDay) {
+    return { start: event.startsAt, end: event.endsAt }
+  }
+  // An all-day event lasts at least the day it starts on
+  const end = Math.max(
+    event.endsAt.getTime(),
+    event.startsAt.getTime() + DAY_MS
+  )
+  return {
+    start: fromZonedWallTime(event.startsAt, timeZone),
+    end: fromZonedWallTime(new Date(end), timeZone),
+  }
+}
+
+/**
+ * Checks whether two intervals share any time. Intervals that only touch,
+ * one ending as the other starts, don't.
+ */
+export function intervalsOverlap(a: TimeInterval, b: TimeInterval) {
+  return a.start < b.end && b.start < a.end
+}
+
+/**
+ * Lists the working hours within a range, one interval per working day
+ * @param timeZone IANA timezone the working hours are on the clock of
+ */
+export function getWorkingIntervals(
+  range: TimeInterval,
+  workingHours: WorkingHours,
+  timeZone: string
+): TimeInterval[] {
+  const intervals: TimeInterval[] = []
+  const firstWall = toZonedWallTime(range.start, timeZone).getTime()
+  const lastWall = toZonedWallTime(range.end, timeZone).getTime()
+
+  for (
+    let day = firstWall - (firstWall % DAY_MS);
+    day <= lastWall;
+    day += DAY_MS
+  ) {
+    if (!workingHours.days.includes(new Date(day).getUTCDay())) continue
+
+    const start = fromZonedWallTime(
+      new Date(day + workingHours.start * 60 * 1000),
+      timeZone
+    )
+    const end = fromZonedWallTime(
+      new Date(day + workingHours.end * 60 * 1000),
+      timeZone
+    )
+    const clipped = {
+      start: start < range.start ? range.start : start,
+      end: end > range.end ? range.end : end,
+    }
+    if (clipped.start < clipped.end) intervals.push(clipped)
+  }
+
+  return intervals
+}
+
+/**
+ * Works out when a user is busy and which working hours are still open
+ * @param events Events that may overlap the range
+ * @param range The range to look at
+ * @param workingHours When open gaps may be
+ * @param timeZone The user's IANA timezone
+ * @returns Busy intervals, merged where events overlap or touch and clipped
+ * to the range, and the open gaps within working hours, both in order
+ */
+export function getFreeBusy(
+  events: { id: string; startsAt: Date; endsAt: Date; allDay: boolean }[],
+  range: TimeInterval,
+  workingHours: WorkingHours,
+  timeZone: string
+): { busy: BusyInterval[]; free: TimeInterval[] } {
+  const intervals = events
+    .map((event) => ({ id: event.id, ...getEventInterval(event, timeZone) }))
+    .filter(
+      (interval) =>
+        interval.start < interval.end && intervalsOverlap(interval, range)
+    )
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+
+  const busy: BusyInterval[] = []
+  for (const interval of intervals) {
+    const start = interval.start < range.start ? range.start : interval.start
+    const end = interval.end > range.end ? range.end : interval.end
+    const last = busy[busy.length - 1]
+
+    if (last && start <= last.end) {
+      if (end > last.end) last.end = end
+      if (!last.eventIds.includes(interval.id)) last.eventIds.push(interval.id)
+    } else {
+      busy.push({ start, end, eventIds: [interval.id] })
+    }
+  }
+
+  const free: TimeInterval[] = []
+  for (const window of getWorkingIntervals(range, workingHours, timeZone)) {
+    let cursor = window.start
+    for (const interval of busy) {
+      if (interval.end <= cursor || interval.start >= window.end) continue
+      if (interval.start > cursor) {
+        free.push({ start: cursor, end: interval.start })
+      }
+      cursor = interval.end
+    }
+    if (cursor < window.end) {
+      free.push({ start: cursor, end: window.end })
+    }
+  }
+
+  return { busy, free }
+}
@@ -0,0 +1,40 @@
+'use client'
+
+import { useCallback } from 'react'
+import { toast } from 'sonner'
+import { trpc } from '@/lib/trpc'
+import { TRASH_ITEM_LABELS, type TrashItemType } from '@/lib/trash'
+
+/**
+ * Returns a function that confirms an item went to the trash, with an Undo
+ * button that restores it
+ */
+export function useTrashUndo() {
+  const utils = trpc.useUtils()
+
+  const { mutate: restore } = trpc.trash.restore.useMutation({
+    onSuccess: (_data, item) => {
+      // The item may show up in any list, so refresh them all
+      utils.invalidate()
+      toast.success(`${TRASH_ITEM_LABELS[item.type]} restored`)
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to restore')
+    },
+  })
+
+  return useCallback(
+    (type: TrashItemType, id: string, onUndo?: () => void) => {
+      toast(`${TRASH_ITEM_LABELS[type]} moved to trash`, {
+        action: {
+          label: 'Undo',
+          onClick: () => {
+            restore({ type, id })
+            onUndo?.()
+          },
+        },
+      })
+    },
+    [restore]
+  )
+}
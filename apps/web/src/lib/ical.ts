@@ -0,0 +1,524 @@
+import { formatRecurrenceRule, parseRecurrenceRule } from '@/lib/recurrence'
+import {
+  fromZonedWallTime,
+  isValidTimeZone,
+  toZonedWallTime,
+} from '@/lib/timezone'
+
+// Reads and writes iCalendar (.ics, RFC 5545) files for calendar events.
+// All-day events are kept as UTC midnights with an exclusive end, the way
+// the event form saves them, which matches DTSTART/DTEND;VALUE=DATE.
+// Timed events are written in UTC, except for recurring events: those are
+// written on the user's wall clock (TZID) so other apps repeat them at the
+// same local time across daylight saving changes, with a VTIMEZONE saying
+// what that clock's offsets are.
+
+/** X-property carrying an event's color, which iCalendar has no field for */
+export const ICS_COLOR_PROPERTY = 'X-MINDLINE-COLOR'
+
+const PRODUCT_ID = '-//Mindline//Calendar//EN'
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+const WEEK_MS = 7 * DAY_MS
+
+// How many years past the last date a VTIMEZONE lists offset changes for,
+// since a series can repeat without an end
+const TIME_ZONE_YEARS_AHEAD = 10
+
+export interface IcsEvent {
+  uid: string | null
+  title: string
+  description?: string | null
+  location?: string | null
+  color?: string | null
+  startsAt: Date
+  endsAt: Date
+  allDay: boolean
+  recurrenceRule?: string | null
+  excludedDates?: Date[]
+  /** For an edited occurrence, the start its series gave it (RECURRENCE-ID) */
+  recurrenceId?: Date | null
+  updatedAt?: Date
+}
+
+/** A calendar item that was left out of an import, and why */
+export interface IcsSkippedItem {
+  uid?: string | null
+  title?: string
+  reason: string
+}
+
+interface ContentLine {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+function unescapeText(value: string) {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  )
+}
+
+const encoder = new TextEncoder()
+
+// Lines may be at most 75 octets, longer ones continue after a space
+function foldLine(line: string) {
+  const parts: string[] = []
+  let current = ''
+  let size = 0
+  for (const char of line) {
+    const charSize = encoder.encode(char).length
+    if (size + charSize > 75) {
+      parts.push(current)
+      current = ' '
+      size = 1
+    }
+    current += char
+    size += charSize
+  }
+  parts.push(current)
+  return parts.join('\r\n')
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+// YYYYMMDD from the UTC fields
+function formatDate(date: Date) {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`
+}
+
+// YYYYMMDDTHHMMSS from the UTC fields
+function formatDateTime(date: Date) {
+  return `${formatDate(date)}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}`
+}
+
+function timeProperty(
+  name: string,
+  dates: Date[],
+  allDay: boolean,
+  timeZone: string | undefined
+) {
+  if (allDay) {
+    return `${name};VALUE=DATE:${dates.map(formatDate).join(',')}`
+  }
+  if (timeZone && timeZone !== 'UTC') {
+    const values = dates.map((date) =>
+      formatDateTime(toZonedWallTime(date, timeZone))
+    )
+    return `${name};TZID=${timeZone}:${values.join(',')}`
+  }
+  return `${name}:${dates.map((date) => `${formatDateTime(date)}Z`).join(',')}`
+}
+
+// The zone's offset from UTC at a moment, in milliseconds
+function zoneOffset(time: number, timeZone: string) {
+  return toZonedWallTime(new Date(time), timeZone).getTime() - time
+}
+
+// +HHMM or -HHMM
+function formatUtcOffset(offset: number) {
+  const minutes = Math.abs(offset) / MINUTE_MS
+  return `${offset < 0 ? '-' : '+'}${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}`
+}
+
+// One part of a VTIMEZONE, starting on the clock that was in use until then
+function timeZonePart(
+  type: 'STANDARD' | 'DAYLIGHT',
+  time: number,
+  offsetFrom: number,
+  offsetTo: number
+) {
+  return [
+    `BEGIN:${type}`,
+    `DTSTART:${formatDateTime(new Date(time + offsetFrom))}`,
+    `TZOFFSETFROM:${formatUtcOffset(offsetFrom)}`,
+    `TZOFFSETTO:${formatUtcOffset(offsetTo)}`,
+    `END:${type}`,
+  ]
+}
+
+/**
+ * Writes a VTIMEZONE for the years from the first date on. Each offset
+ * change is listed on its own rather than as a yearly rule, since the
+ * rules themselves have changed over the years.
+ */
+function formatTimeZone(timeZone: string, dates: Date[]) {
+  const years = dates.map((date) => date.getUTCFullYear())
+  const from = Date.UTC(Math.min(...years), 0, 1)
+  const to = Date.UTC(Math.max(...years) + TIME_ZONE_YEARS_AHEAD + 1, 0, 1)
+
+  let offset = zoneOffset(from, timeZone)
+  // Summer time in January means the southern hemisphere
+  const midYear = zoneOffset(Date.UTC(Math.min(...years), 6, 1), timeZone)
+  const lines = [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    ...timeZonePart(
+      offset > midYear ? 'DAYLIGHT' : 'STANDARD',
+      from,
+      offset,
+      offset
+    ),
+  ]
+
+  for (let time = from; time < to; time += WEEK_MS) {
+    const next = Math.min(time + WEEK_MS, to)
+    if (zoneOffset(next, timeZone) === offset) continue
+
+    // Narrow the change down to the minute
+    let before = time
+    let after = next
+    while (after - before > MINUTE_MS) {
+      const middle =
+        before + Math.floor((after - before) / 2 / MINUTE_MS) * MINUTE_MS
+      if (zoneOffset(middle, timeZone) === offset) {
+        before = middle
+      } else {
+        after = middle
+      }
+    }
+
+    const nextOffset = zoneOffset(after, timeZone)
+    lines.push(
+      ...timeZonePart(
+        nextOffset > offset ? 'DAYLIGHT' : 'STANDARD',
+        after,
+        offset,
+        nextOffset
+      )
+    )
+    offset = nextOffset
+  }
+
+  lines.push('END:VTIMEZONE')
+  return lines
+}
+
+/**
+ * Writes events into an iCalendar file
+ * @param events Events to include, edited occurrences after their series
+ * @param options.timeZone IANA timezone recurring events repeat in
+ * @param options.name Calendar name shown by apps that subscribe to it
+ * @returns The file contents, with CRLF line endings
+ */
+export function formatIcsCalendar(
+  events: IcsEvent[],
+  options: { timeZone: string; name?: string }
+): string {
+  const now = new Date()
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(options.name ?? 'Mindline')}`,
+    `X-WR-TIMEZONE:${options.timeZone}`,
+  ]
+
+  // Only recurring events and their edited occurrences use the TZID
+  const zonedDates = events
+    .filter(
+      (event) => !event.allDay && (event.recurrenceRule || event.recurrenceId)
+    )
+    .flatMap((event) => [
+      event.startsAt,
+      event.endsAt,
+      ...(event.excludedDates ?? []),
+      ...(event.recurrenceId ? [event.recurrenceId] : []),
+    ])
+  if (zonedDates.length > 0 && options.timeZone !== 'UTC') {
+    lines.push(...formatTimeZone(options.timeZone, zonedDates))
+  }
+
+  for (const event of events) {
+    const zone =
+      event.recurrenceRule || event.recurrenceId ? options.timeZone : undefined
+    const time = (name: string, dates: Date[]) =>
+      timeProperty(name, dates, event.allDay, zone)
+
+    lines.push('BEGIN:VEVENT')
+    if (event.uid) lines.push(`UID:${event.uid}`)
+    lines.push(
+      `DTSTAMP:${formatDateTime(event.updatedAt ?? now)}Z`,
+      time('DTSTART', [event.startsAt]),
+      time('DTEND', [event.endsAt]),
+      `SUMMARY:${escapeText(event.title)}`
+    )
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+    }
+    if (event.location) {
+      lines.push(`LOCATION:${escapeText(event.location)}`)
+    }
+    if (event.recurrenceRule) {
+      lines.push(`RRULE:${event.recurrenceRule}`)
+    }
+    if (event.excludedDates?.length) {
+      lines.push(time('EXDATE', event.excludedDates))
+    }
+    if (event.recurrenceId) {
+      lines.push(time('RECURRENCE-ID', [event.recurrenceId]))
+    }
+    if (event.color) {
+      lines.push(`${ICS_COLOR_PROPERTY}:${event.color}`)
+    }
+    lines.push('END:VEVENT')
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+// Splits "NAME;PARAM=value;PARAM="quoted:value":value" into its parts
+function parseContentLine(line: string): ContentLine | null {
+  const segments: string[] = []
+  let inQuotes = false
+  let segmentStart = 0
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (char === '"') {
+      inQuotes = !inQuotes
+    } else if (!inQuotes && char === ';') {
+      segments.push(line.slice(segmentStart, i))
+      segmentStart = i + 1
+    } else if (!inQuotes && char === ':') {
+      segments.push(line.slice(segmentStart, i))
+      const [name, ...params] = segments
+      return {
+        name: name.trim().toUpperCase(),
+        params: Object.fromEntries(
+          params.map((param) => {
+            const separator = param.indexOf('=')
+            return [
+              param.slice(0, separator).toUpperCase(),
+              param.slice(separator + 1).replace(/^"|"$/g, ''),
+            ]
+          })
+        ),
+        value: line.slice(i + 1),
+      }
+    }
+  }
+
+  return null
+}
+
+// Dates and date-times, with or without a TZID. Floating times (neither
+// UTC nor TZID) and unknown TZIDs are read in the user's timezone.
+function parseTimes(property: ContentLine, timeZone: string) {
+  const tzid = property.params.TZID
+  const zone = tzid && isValidTimeZone(tzid) ? tzid : timeZone
+  let allDay = false
+
+  const dates = property.value.split(',').map((value) => {
+    const match = value
+      .trim()
+      .match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/)
+    if (!match) {
+      throw new Error(`Invalid ${property.name} value "${value}"`)
+    }
+
+    const [, year, month, day, hour, minute, second, utc] = match
+    if (!hour) {
+      allDay = true
+      return new Date(Date.UTC(+year, +month - 1, +day))
+    }
+    const wallTime = new Date(
+      Date.UTC(+year, +month - 1, +day, +hour, +minute, +second)
+    )
+    return utc ? wallTime : fromZonedWallTime(wallTime, zone)
+  })
+
+  return { dates, allDay }
+}
+
+// Durations such as P1D, PT1H30M or P2W
+function parseDuration(value: string) {
+  const match = value
+    .trim()
+    .match(
+      /^\+?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+    )
+  if (!match) {
+    throw new Error(`Invalid DURATION value "${value}"`)
+  }
+  const [, weeks, days, hours, minutes, seconds] = match.map(
+    (part) => Number(part) || 0
+  )
+  return (
+    (weeks * 7 + days) * DAY_MS + ((hours * 60 + minutes) * 60 + seconds) * 1000
+  )
+}
+
+function readEvent(properties: ContentLine[], timeZone: string): IcsEvent {
+  const get = (name: string) => properties.find((line) => line.name === name)
+  const text = (name: string) => {
+    const value = get(name)?.value
+    return value ? unescapeText(value).trim() || null : null
+  }
+
+  if (get('STATUS')?.value.toUpperCase() === 'CANCELLED') {
+    throw new Error('The event is cancelled')
+  }
+  if (get('RDATE')) {
+    throw new Error('Extra dates (RDATE) are not supported')
+  }
+
+  const dtstart = get('DTSTART')
+  if (!dtstart) {
+    throw new Error('The event has no start (DTSTART)')
+  }
+  const start = parseTimes(dtstart, timeZone)
+  const startsAt = start.dates[0]
+  const allDay = start.allDay
+
+  let endsAt: Date
+  const dtend = get('DTEND')
+  const duration = get('DURATION')
+  if (dtend) {
+    const end = parseTimes(dtend, timeZone)
+    if (end.allDay !== allDay) {
+      throw new Error('The start and end mix dates and times')
+    }
+    endsAt = end.dates[0]
+  } else if (duration) {
+    endsAt = new Date(startsAt.getTime() + parseDuration(duration.value))
+  } else {
+    // Without an end, all-day events last the day and others no time
+    endsAt = allDay ? new Date(startsAt.getTime() + DAY_MS) : startsAt
+  }
+  if (endsAt < startsAt) {
+    throw new Error('The event ends before it starts')
+  }
+  if (allDay && endsAt.getTime() === startsAt.getTime()) {
+    endsAt = new Date(startsAt.getTime() + DAY_MS)
+  }
+
+  let recurrenceRule: string | null = null
+  const rrules = properties.filter((line) => line.name === 'RRULE')
+  if (rrules.length > 1) {
+    throw new Error('Events with more than one RRULE are not supported')
+  }
+  if (rrules.length === 1) {
+    try {
+      recurrenceRule = formatRecurrenceRule(
+        // A date-only UNTIL ends on the clock the event repeats on
+        parseRecurrenceRule(rrules[0].value, allDay ? 'UTC' : timeZone)
+      )
+    } catch (error) {
+      throw new Error(
+        `Unsupported repeat rule: ${error instanceof Error ? error.message : rrules[0].value}`
+      )
+    }
+  }
+
+  const recurrenceIdLine = get('RECURRENCE-ID')
+  const color = get(ICS_COLOR_PROPERTY)?.value.trim()
+
+  return {
+    uid: get('UID')?.value.trim() || null,
+    title: text('SUMMARY') ?? 'Untitled event',
+    description: text('DESCRIPTION'),
+    location: text('LOCATION'),
+    color: color && /^#[0-9a-f]{6}$/i.test(color) ? color : null,
+    startsAt,
+    endsAt,
+    allDay,
+    recurrenceRule,
+    excludedDates: properties
+      .filter((line) => line.name === 'EXDATE')
+      .flatMap((line) => parseTimes(line, timeZone).dates),
+    recurrenceId: recurrenceIdLine
+      ? parseTimes(recurrenceIdLine, timeZone).dates[0]
+      : null,
+  }
+}
+
+/**
+ * Reads the events of an iCalendar file
+ * @param content The file contents
+ * @param timeZone IANA timezone for times that don't name one
+ * @returns The events that could be read, and the items that couldn't
+ * along with why
+ * @throws Error when the content isn't an iCalendar file at all
+ */
+export function parseIcsCalendar(
+  content: string,
+  timeZone: string
+): { events: IcsEvent[]; skipped: IcsSkippedItem[] } {
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)
+  if (!lines.some((line) => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('Not an iCalendar file')
+  }
+
+  // Components directly inside VCALENDAR, ignoring nested ones like VALARM
+  const components: { type: string; properties: ContentLine[] }[] = []
+  const stack: string[] = []
+  for (const rawLine of lines) {
+    const line = parseContentLine(rawLine)
+    if (!line) continue
+
+    if (line.name === 'BEGIN') {
+      stack.push(line.value.trim().toUpperCase())
+      if (stack.length === 2) {
+        components.push({ type: stack[1], properties: [] })
+      }
+    } else if (line.name === 'END') {
+      stack.pop()
+    } else if (stack.length === 2) {
+      components[components.length - 1].properties.push(line)
+    }
+  }
+
+  const events: IcsEvent[] = []
+  const skipped: IcsSkippedItem[] = []
+  const seen = new Set<string>()
+
+  for (const { type, properties } of components) {
+    if (type === 'VTIMEZONE') continue
+
+    const uid = properties.find((line) => line.name === 'UID')?.value.trim()
+    const summary = properties.find((line) => line.name === 'SUMMARY')?.value
+    const item = { uid, title: summary && unescapeText(summary).trim() }
+
+    if (type !== 'VEVENT') {
+      skipped.push({ ...item, reason: `Only events are imported (${type})` })
+      continue
+    }
+
+    let event: IcsEvent
+    try {
+      event = readEvent(properties, timeZone)
+    } catch (error) {
+      skipped.push({
+        ...item,
+        reason: error instanceof Error ? error.message : 'Invalid event',
+      })
+      continue
+    }
+
+    // A UID names one event, or one edited occurrence of it
+    if (event.uid) {
+      const key = `${event.uid}|${event.recurrenceId?.getTime() ?? ''}`
+      if (seen.has(key)) {
+        skipped.push({ ...item, reason: 'The file repeats this event' })
+        continue
+      }
+      seen.add(key)
+    }
+
+    events.push(event)
+  }
+
+  return { events, skipped }
+}
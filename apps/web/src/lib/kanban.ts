@@ -0,0 +1,226 @@
+import type { KanbanGroupBy, Priority, TaskStatus } from '@prisma/client'
+
+// The task board splits tasks into columns by one field. Every column has a
+// key like "status:ACTIVE" or "tag:<id>" that stays the same across reloads,
+// so WIP limits can be stored against it.
+
+export const KANBAN_GROUP_BY_LABELS: Record<KanbanGroupBy, string> = {
+  STATUS: 'Status',
+  PRIORITY: 'Priority',
+  TAG: 'Label',
+  CUSTOM: 'Custom columns',
+}
+
+/** Largest WIP limit that can be set on a column */
+export const MAX_WIP_LIMIT = 999
+
+const STATUS_COLUMNS: { value: TaskStatus; title: string }[] = [
+  { value: 'ACTIVE', title: 'Active' },
+  { value: 'COMPLETED', title: 'Completed' },
+  { value: 'ARCHIVED', title: 'Archived' },
+]
+
+// Most urgent on the left
+const PRIORITY_COLUMNS: { value: Priority; title: string }[] = [
+  { value: 'URGENT', title: 'Urgent' },
+  { value: 'HIGH', title: 'High' },
+  { value: 'MEDIUM', title: 'Medium' },
+  { value: 'LOW', title: 'Low' },
+]
+
+// Column for tasks without a tag or custom column
+const NONE = 'none'
+
+export interface KanbanColumnDef {
+  key: string
+  title: string
+  color?: string
+  /** Set on the user's own columns, which can be renamed and moved */
+  customColumnId?: string
+}
+
+export interface KanbanTask {
+  id: string
+  status: TaskStatus
+  priority: Priority
+  tags?: { id: string }[]
+  kanbanColumnId?: string | null
+}
+
+/** A field update that moves a task into another column */
+export type KanbanFieldChange =
+  | { status: TaskStatus }
+  | { priority: Priority }
+  | { tagIds: string[] }
+  | { kanbanColumnId: string | null }
+
+function columnKey(groupBy: KanbanGroupBy, value: string) {
+  return `${groupBy.toLowerCase()}:${value}`
+}
+
+function columnValue(key: string) {
+  return key.slice(key.indexOf(':') + 1)
+}
+
+/**
+ * Lists the columns of the board in display order
+ * @param groupBy The field tasks are grouped by
+ * @param options The user's tags and custom columns, already sorted
+ */
+export function getKanbanColumns(
+  groupBy: KanbanGroupBy,
+  options: {
+    tags?: { id: string; name: string; color: string }[]
+    customColumns?: { id: string; name: string; color: string }[]
+  } = {}
+): KanbanColumnDef[] {
+  switch (groupBy) {
+    case 'STATUS':
+      return STATUS_COLUMNS.map(({ value, title }) => ({
+        key: columnKey(groupBy, value),
+        title,
+      }))
+    case 'PRIORITY':
+      return PRIORITY_COLUMNS.map(({ value, title }) => ({
+        key: columnKey(groupBy, value),
+        title,
+      }))
+    case 'TAG':
+      return [
+        { key: columnKey(groupBy, NONE), title: 'No label' },
+        ...(options.tags ?? []).map((tag) => ({
+          key: columnKey(groupBy, tag.id),
+          title: tag.name,
+          color: tag.color,
+        })),
+      ]
+    case 'CUSTOM':
+      return [
+        { key: columnKey(groupBy, NONE), title: 'Unsorted' },
+        ...(options.customColumns ?? []).map((column) => ({
+          key: columnKey(groupBy, column.id),
+          title: column.name,
+          color: column.color,
+          customColumnId: column.id,
+        })),
+      ]
+  }
+}
+
+/**
+ * Finds the columns a task belongs in. Only labels can put a task in more
+ * than one column, once for each of its tags.
+ */
+export function getTaskColumnKeys(
+  groupBy: KanbanGroupBy,
+  task: KanbanTask
+): string[] {
+  switch (groupBy) {
+    case 'STATUS':
+      return [columnKey(groupBy, task.status)]
+    case 'PRIORITY':
+      return [columnKey(groupBy, task.priority)]
+    case 'TAG':
+      return task.tags?.length
+        ? task.tags.map((tag) => columnKey(groupBy, tag.id))
+        : [columnKey(groupBy, NONE)]
+    case 'CUSTOM':
+      return [columnKey(groupBy, task.kanbanColumnId ?? NONE)]
+  }
+}
+
+/**
+ * Sorts tasks into the given columns, keeping their order within each one
+ * @returns Tasks by column key, with an entry for every column
+ */
+export function groupTasksByColumn<T extends KanbanTask>(
+  groupBy: KanbanGroupBy,
+  tasks: T[],
+  columns: KanbanColumnDef[]
+): Map<string, T[]> {
+  const grouped = new Map<string, T[]>(
+    columns.map((column) => [column.key, []])
+  )
+
+  for (const task of tasks) {
+    for (const key of getTaskColumnKeys(groupBy, task)) {
+      grouped.get(key)?.push(task)
+    }
+  }
+
+  return grouped
+}
+
+/**
+ * Works out the update that moves a task from one column into another
+ * @returns The fields to change, or null when the task stays where it is
+ */
+export function getColumnMoveChange(
+  groupBy: KanbanGroupBy,
+  task: KanbanTask,
+  fromKey: string,
+  toKey: string
+): KanbanFieldChange | null {
+  if (fromKey === toKey) {
+    return null
+  }
+
+  const to = columnValue(toKey)
+
+  switch (groupBy) {
+    case 'STATUS':
+      return { status: to as TaskStatus }
+    case 'PRIORITY':
+      return { priority: to as Priority }
+    case 'TAG': {
+      // Swap the tag of the column it left for the one it landed in and
+      // leave any other tags alone
+      const from = columnValue(fromKey)
+      const tagIds = (task.tags ?? [])
+        .map((tag) => tag.id)
+        .filter((id) => id !== from && id !== to)
+      return { tagIds: to === NONE ? tagIds : [...tagIds, to] }
+    }
+    case 'CUSTOM':
+      return { kanbanColumnId: to === NONE ? null : to }
+  }
+}
+
+/**
+ * Builds the id of a card on the board. Tasks can sit in several label
+ * columns, so the column is part of the id.
+ */
+export function toCardId(columnKey: string, taskId: string) {
+  return `${columnKey}/${taskId}`
+}
+
+/** Splits a card id from toCardId back into its column and task */
+export function parseCardId(cardId: string) {
+  const index = cardId.lastIndexOf('/')
+  return {
+    columnKey: cardId.slice(0, index),
+    taskId: cardId.slice(index + 1),
+  }
+}
+
+/**
+ * Reads stored WIP limits, dropping anything that is not a positive whole
+ * number
+ */
+export function parseWipLimits(value: unknown): Record<string, number> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return {}
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).filter(
+      (entry): entry is [string, number] =>
+        Number.isInteger(entry[1]) && entry[1] > 0
+    )
+  )
+}
+
+/** Whether a column holds more tasks than its WIP limit allows */
+export function isOverWipLimit(count: number, limit: number | undefined) {
+  return limit !== undefined && count > limit
+}
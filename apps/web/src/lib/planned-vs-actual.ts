@@ -0,0 +1,76 @@
+import { getZonedDateKey } from '@/lib/timezone'
+
+// Compares the time events were scheduled for with the time logged against
+// them through TimeEntry.eventId. Entries logged against a recurring event
+// point at the series, so they count towards the occurrence on the day
+// they started, on the user's clock.
+
+export interface ScheduledEvent {
+  id: string
+  startsAt: Date
+  endsAt: Date
+  allDay: boolean
+  /** Set on occurrences of a recurring event */
+  recurrenceRule: string | null
+  originalStartsAt: Date | null
+}
+
+export interface LoggedEntry {
+  eventId: string | null
+  start: Date
+  /** Seconds */
+  duration: number
+}
+
+export interface PlannedVsActual {
+  eventId: string
+  /** Identifies the occurrence for recurring events */
+  occurrenceStart: Date | null
+  scheduledMinutes: number
+  loggedMinutes: number
+}
+
+/**
+ * Compares scheduled and logged minutes for each event. All-day events are
+ * left out, since they don't schedule a length of time.
+ * @param events Events and occurrences, see getEventsInRange
+ * @param entries Time entries logged against the events
+ * @param timeZone The user's IANA timezone
+ */
+export function comparePlannedToActual(
+  events: ScheduledEvent[],
+  entries: LoggedEntry[],
+  timeZone: string
+): PlannedVsActual[] {
+  const logged = new Map<string, number>()
+  for (const entry of entries) {
+    if (!entry.eventId) continue
+    for (const key of [
+      entry.eventId,
+      `${entry.eventId}|${getZonedDateKey(entry.start, timeZone)}`,
+    ]) {
+      logged.set(key, (logged.get(key) ?? 0) + entry.duration)
+    }
+  }
+
+  return events
+    .filter((event) => !event.allDay)
+    .map((event) => {
+      const occurrenceStart =
+        event.recurrenceRule && event.originalStartsAt
+          ? event.originalStartsAt
+          : null
+      const key = occurrenceStart
+        ? `${event.id}|${getZonedDateKey(event.startsAt, timeZone)}`
+        : event.id
+
+      return {
+        eventId: event.id,
+        occurrenceStart,
+        scheduledMinutes: Math.round(
+          (event.endsAt.getTime() - event.startsAt.getTime()) / 60000
+        ),
+        loggedMinutes: Math.round((logged.get(key) ?? 0) / 60),
+      }
+    })
+}
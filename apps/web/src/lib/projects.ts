@@ -0,0 +1,16 @@
+import type { ProjectStatus } from '@prisma/client'
+
+export const DEFAULT_PROJECT_COLOR = '#3b82f6'
+
+export const PROJECT_STATUS_LABELS: Record<ProjectStatus, string> = {
+  ACTIVE: 'Active',
+  ON_HOLD: 'On hold',
+  COMPLETED: 'Completed',
+  ARCHIVED: 'Archived',
+}
+
+export interface ProjectSummary {
+  id: string
+  name: string
+  color: string
+}
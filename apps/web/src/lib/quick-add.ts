@@ -0,0 +1,380 @@
+import {
+  DEFAULT_TIME_ZONE,
+  fromZonedWallTime,
+  toZonedWallTime,
+} from '@/lib/timezone'
+
+export type QuickAddTokenType = 'date' | 'time' | 'priority' | 'tag'
+
+export type QuickAddPriority = 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT'
+
+export interface QuickAddToken {
+  type: QuickAddTokenType
+  text: string
+  start: number
+  end: number
+}
+
+/**
+ * Subset of the task router's `taskInput` that quick add can fill in
+ */
+export interface QuickAddTaskInput {
+  title: string
+  priority?: QuickAddPriority
+  dueDate?: Date
+  /** Tag name, resolved to the user's tag when the task is created */
+  tag?: string
+}
+
+export interface QuickAddResult {
+  input: QuickAddTaskInput
+  tokens: QuickAddToken[]
+}
+
+export interface QuickAddOptions {
+  /** Reference time for relative dates, defaults to the current time */
+  now?: Date
+  /**
+   * The user's IANA timezone, so "tomorrow 9am" is 9am on the user's clock
+   * whatever the daylight saving time. Defaults to UTC.
+   */
+  timeZone?: string
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const MONTHS = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+]
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+
+const MONTH_PATTERN =
+  'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?'
+
+const WEEKDAY_PATTERN =
+  'mon(?:day)?|tue(?:s(?:day)?)?|wed(?:nesday)?|thu(?:rs(?:day)?)?|fri(?:day)?|sat(?:urday)?|sun(?:day)?'
+
+// Abbreviations read as words too often ("Call Sun Life", "sat exam"), so
+// on their own only full names count
+const FULL_WEEKDAY_PATTERN =
+  'monday|tuesday|wednesday|thursday|friday|saturday|sunday'
+
+const PRIORITY_MARKERS: Record<string, QuickAddPriority> = {
+  urgent: 'URGENT',
+  '1': 'URGENT',
+  high: 'HIGH',
+  '2': 'HIGH',
+  medium: 'MEDIUM',
+  med: 'MEDIUM',
+  '3': 'MEDIUM',
+  low: 'LOW',
+  '4': 'LOW',
+}
+
+// Dates are computed on a "wall clock" Date whose UTC fields hold the
+// user's local date and time, so parsing does not depend on the zone of the
+// machine running it.
+type WallDate = Date
+type WallTime = { hours: number; minutes: number }
+
+type Candidate = {
+  type: QuickAddTokenType
+  start: number
+  end: number
+  value: WallDate | WallTime | QuickAddPriority | string
+}
+
+type Rule = {
+  type: QuickAddTokenType
+  pattern: RegExp
+  resolve: (
+    match: RegExpExecArray,
+    today: WallDate
+  ) => Candidate['value'] | null
+}
+
+function wallDate(year: number, month: number, day: number): WallDate | null {
+  const date = new Date(Date.UTC(year, month, day))
+  // Reject overflowing dates such as Feb 30
+  return date.getUTCMonth() === ((month % 12) + 12) % 12 ? date : null
+}
+
+function addWallDays(date: WallDate, days: number): WallDate {
+  return new Date(date.getTime() + days * DAY_MS)
+}
+
+function addWallMonths(date: WallDate, months: number): WallDate {
+  const target = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1)
+  )
+  const daysInMonth = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)
+  ).getUTCDate()
+  target.setUTCDate(Math.min(date.getUTCDate(), daysInMonth))
+  return target
+}
+
+function monthIndex(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3).toLowerCase())
+}
+
+// Month and day without a year mean the next time that date comes around
+function upcomingMonthDay(
+  today: WallDate,
+  month: number,
+  day: number
+): WallDate | null {
+  const year = today.getUTCFullYear()
+  const thisYear = wallDate(year, month, day)
+  if (thisYear && thisYear.getTime() >= today.getTime()) {
+    return thisYear
+  }
+  return wallDate(year + 1, month, day)
+}
+
+const rules: Rule[] = [
+  {
+    type: 'priority',
+    pattern: /\B!(urgent|high|medium|med|low|[1-4])(?![\w-])/gi,
+    resolve: (match) => PRIORITY_MARKERS[match[1].toLowerCase()],
+  },
+  {
+    type: 'tag',
+    pattern: /\B#([a-z0-9][\w-]*)/gi,
+    resolve: (match) => match[1],
+  },
+  {
+    type: 'date',
+    pattern: /\b(today|tomorrow|tmrw|tmr)\b/gi,
+    resolve: (match, today) =>
+      match[1].toLowerCase() === 'today' ? today : addWallDays(today, 1),
+  },
+  {
+    type: 'date',
+    pattern: /\bin (\d{1,3}) (days?|weeks?|months?)\b/gi,
+    resolve: (match, today) => {
+      const amount = Number(match[1])
+      const unit = match[2].toLowerCase()
+      if (unit.startsWith('day')) return addWallDays(today, amount)
+      if (unit.startsWith('week')) return addWallDays(today, amount * 7)
+      return addWallMonths(today, amount)
+    },
+  },
+  {
+    type: 'date',
+    pattern: /\bnext (week|month)\b/gi,
+    resolve: (match, today) => {
+      if (match[1].toLowerCase() === 'month') {
+        return wallDate(today.getUTCFullYear(), today.getUTCMonth() + 1, 1)
+      }
+      // Monday of the following week
+      const daysUntilMonday = (8 - today.getUTCDay()) % 7 || 7
+      return addWallDays(today, daysUntilMonday)
+    },
+  },
+  {
+    type: 'date',
+    pattern: new RegExp(
+      `\\b(?:(?:on|next) (${WEEKDAY_PATTERN})|(${FULL_WEEKDAY_PATTERN}))\\b`,
+      'gi'
+    ),
+    resolve: (match, today) => {
+      const name = match[1] ?? match[2]
+      const weekday = WEEKDAYS.indexOf(name.slice(0, 3).toLowerCase())
+      // Always the upcoming one, so "friday" typed on a Friday is next week
+      const days = (weekday - today.getUTCDay() + 7) % 7 || 7
+      return addWallDays(today, days)
+    },
+  },
+  {
+    type: 'date',
+    pattern: /\b(\d{4})-(\d{2})-(\d{2})\b/g,
+    resolve: (match) =>
+      wallDate(Number(match[1]), Number(match[2]) - 1, Number(match[3])),
+  },
+  {
+    type: 'date',
+    pattern: new RegExp(
+      `\\b(?:on )?(${MONTH_PATTERN})\\.? (\\d{1,2})(?:st|nd|rd|th)?\\b`,
+      'gi'
+    ),
+    resolve: (match, today) =>
+      upcomingMonthDay(today, monthIndex(match[1]), Number(match[2])),
+  },
+  {
+    type: 'date',
+    pattern: new RegExp(
+      `\\b(?:on )?(\\d{1,2})(?:st|nd|rd|th)? (${MONTH_PATTERN})\\b`,
+      'gi'
+    ),
+    resolve: (match, today) =>
+      upcomingMonthDay(today, monthIndex(match[2]), Number(match[1])),
+  },
+  {
+    type: 'time',
+    pattern: /\b(?:at )?(\d{1,2})(?::([0-5]\d))? ?(am|pm)\b/gi,
+    resolve: (match) => {
+      const hour = Number(match[1])
+      if (hour < 1 || hour > 12) return null
+      const isPm = match[3].toLowerCase() === 'pm'
+      return {
+        hours: (hour % 12) + (isPm ? 12 : 0),
+        minutes: Number(match[2] ?? 0),
+      }
+    },
+  },
+  {
+    type: 'time',
+    pattern: /\b(?:at )?([01]?\d|2[0-3]):([0-5]\d)\b/gi,
+    resolve: (match) => ({
+      hours: Number(match[1]),
+      minutes: Number(match[2]),
+    }),
+  },
+  {
+    type: 'time',
+    pattern: /\b(?:at )?(noon|midnight)\b/gi,
+    resolve: (match) => ({
+      hours: match[1].toLowerCase() === 'noon' ? 12 : 0,
+      minutes: 0,
+    }),
+  },
+]
+
+/**
+ * Collects every rule match, then keeps the earliest non-overlapping ones,
+ * preferring the longer match when two start at the same position
+ */
+function findTokens(text: string, today: WallDate): Candidate[] {
+  const candidates: Candidate[] = []
+
+  for (const rule of rules) {
+    rule.pattern.lastIndex = 0
+    let match: RegExpExecArray | null
+    while ((match = rule.pattern.exec(text)) !== null) {
+      const value = rule.resolve(match, today)
+      if (value !== null) {
+        candidates.push({
+          type: rule.type,
+          start: match.index,
+          end: match.index + match[0].length,
+          value,
+        })
+      }
+    }
+  }
+
+  candidates.sort((a, b) => a.start - b.start || b.end - a.end)
+
+  const accepted: Candidate[] = []
+  const seenTypes = new Set<QuickAddTokenType>()
+  let cursor = 0
+
+  for (const candidate of candidates) {
+    // Only the first token of each kind counts; later ones stay in the title
+    if (candidate.start < cursor || seenTypes.has(candidate.type)) {
+      continue
+    }
+    accepted.push(candidate)
+    seenTypes.add(candidate.type)
+    cursor = candidate.end
+  }
+
+  return accepted
+}
+
+/**
+ * Parses a quick-add line such as "Pay rent tomorrow 5pm !urgent #finance"
+ * into task fields
+ *
+ * Understands relative dates (today, tomorrow, in 3 days, next week),
+ * weekdays (friday, on fri), explicit dates (Nov 3, 3rd November,
+ * 2026-11-03), times (5pm, 17:30, noon), priority markers (!urgent, !high,
+ * !1 … !4) and a #tag.
+ * A time without a date means its next occurrence; a date without a time
+ * means the start of that day.
+ * @param text The raw input line
+ * @param options Reference time and the user's timezone
+ * @returns Task input for the task router, and the tokens that produced it
+ */
+export function parseQuickAdd(
+  text: string,
+  options: QuickAddOptions = {}
+): QuickAddResult {
+  const now = options.now ?? new Date()
+  const timeZone = options.timeZone ?? DEFAULT_TIME_ZONE
+  const wallNow = toZonedWallTime(now, timeZone)
+  const today = new Date(
+    Date.UTC(
+      wallNow.getUTCFullYear(),
+      wallNow.getUTCMonth(),
+      wallNow.getUTCDate()
+    )
+  )
+
+  const candidates = findTokens(text, today)
+  const input: QuickAddTaskInput = { title: '' }
+  let date: WallDate | undefined
+  let time: WallTime | undefined
+
+  for (const candidate of candidates) {
+    switch (candidate.type) {
+      case 'priority':
+        input.priority = candidate.value as QuickAddPriority
+        break
+      case 'tag':
+        input.tag = candidate.value as string
+        break
+      case 'date':
+        date = candidate.value as WallDate
+        break
+      case 'time':
+        time = candidate.value as WallTime
+        break
+    }
+  }
+
+  if (date || time) {
+    let due = date ?? today
+    if (time) {
+      due = new Date(
+        due.getTime() + (time.hours * 60 + time.minutes) * 60 * 1000
+      )
+      if (!date && due.getTime() <= wallNow.getTime()) {
+        due = addWallDays(due, 1)
+      }
+    }
+    input.dueDate = fromZonedWallTime(due, timeZone)
+  }
+
+  let title = ''
+  let cursor = 0
+  for (const candidate of candidates) {
+    title += text.slice(cursor, candidate.start) + ' '
+    cursor = candidate.end
+  }
+  title += text.slice(cursor)
+  input.title = title.replace(/\s+/g, ' ').trim()
+
+  return {
+    input,
+    tokens: candidates.map(({ type, start, end }) => ({
+      type,
+      text: text.slice(start, end),
+      start,
+      end,
+    })),
+  }
+}
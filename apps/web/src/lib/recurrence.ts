@@ -0,0 +1,404 @@
+import { format } from 'date-fns'
+import {
+  DEFAULT_TIME_ZONE,
+  fromZonedWallTime,
+  toZonedWallTime,
+} from '@/lib/timezone'
+
+export const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const
+
+export type Weekday = (typeof WEEKDAYS)[number]
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY'
+
+/**
+ * Supported subset of RFC 5545 recurrence rules
+ *
+ * - DAILY with an interval
+ * - WEEKLY on one or more weekdays
+ * - MONTHLY on a day of the month (BYMONTHDAY, -1 for the last day) or on
+ *   the nth weekday of the month (BYDAY=2TU, -1 for the last one)
+ * - an optional end as either UNTIL or COUNT
+ */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency
+  interval: number
+  byDay?: Weekday[]
+  bySetPos?: number
+  byMonthDay?: number
+  until?: Date
+  count?: number
+}
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  SU: 'Sun',
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+}
+
+const ORDINALS: Record<number, string> = {
+  1: 'first',
+  2: 'second',
+  3: 'third',
+  4: 'fourth',
+  5: 'fifth',
+  [-1]: 'last',
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const SUPPORTED_KEYS = [
+  'FREQ',
+  'INTERVAL',
+  'BYDAY',
+  'BYSETPOS',
+  'BYMONTHDAY',
+  'UNTIL',
+  'COUNT',
+]
+
+function parseInteger(key: string, value: string) {
+  if (!/^[+-]?\d+$/.test(value)) {
+    throw new Error(`${key} must be a whole number`)
+  }
+  return parseInt(value, 10)
+}
+
+function parseUntil(value: string, timeZone: string) {
+  const match = value.match(
+    /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/
+  )
+  if (!match) {
+    throw new Error('UNTIL must be a date (YYYYMMDD) or UTC date-time')
+  }
+
+  const [, year, month, day, hour, minute, second] = match
+  if (!hour) {
+    // Date-only UNTIL includes the whole day on the user's clock
+    return fromZonedWallTime(
+      new Date(Date.UTC(+year, +month - 1, +day, 23, 59, 59)),
+      timeZone
+    )
+  }
+  return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second))
+}
+
+/**
+ * Parses an RRULE string into a recurrence rule
+ * @param value RRULE value, with or without the "RRULE:" prefix
+ * @param timeZone The user's IANA timezone, for where a date-only UNTIL
+ * ends. Defaults to UTC.
+ * @returns The parsed rule
+ * @throws Error describing the first unsupported or invalid part
+ */
+export function parseRecurrenceRule(
+  value: string,
+  timeZone: string = DEFAULT_TIME_ZONE
+): RecurrenceRule {
+  const parts = value
+    .trim()
+    .replace(/^RRULE:/i, '')
+    .split(';')
+  const props = new Map<string, string>()
+
+  for (const part of parts) {
+    if (!part) continue
+    const [rawKey, rawValue] = part.split('=')
+    const key = rawKey?.toUpperCase()
+    if (!key || rawValue === undefined) {
+      throw new Error(`Invalid recurrence part "${part}"`)
+    }
+    if (!SUPPORTED_KEYS.includes(key)) {
+      throw new Error(`Unsupported recurrence property ${key}`)
+    }
+    props.set(key, rawValue.toUpperCase())
+  }
+
+  const freq = props.get('FREQ')
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+    throw new Error('FREQ must be DAILY, WEEKLY or MONTHLY')
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1 }
+
+  if (props.has('INTERVAL')) {
+    rule.interval = parseInteger('INTERVAL', props.get('INTERVAL')!)
+    if (rule.interval < 1) {
+      throw new Error('INTERVAL must be at least 1')
+    }
+  }
+
+  if (props.has('BYDAY')) {
+    if (freq === 'DAILY') {
+      throw new Error('BYDAY is not supported for daily rules')
+    }
+
+    const days: Weekday[] = []
+    for (const entry of props.get('BYDAY')!.split(',')) {
+      const match = entry.match(/^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/)
+      if (!match) {
+        throw new Error(`Invalid BYDAY value "${entry}"`)
+      }
+      if (match[1]) {
+        if (freq !== 'MONTHLY') {
+          throw new Error('Numbered BYDAY values are only supported monthly')
+        }
+        rule.bySetPos = parseInt(match[1], 10)
+      }
+      days.push(match[2] as Weekday)
+    }
+
+    if (freq === 'MONTHLY' && days.length !== 1) {
+      throw new Error('Monthly rules support a single BYDAY weekday')
+    }
+    rule.byDay = days
+  }
+
+  if (props.has('BYSETPOS')) {
+    if (freq !== 'MONTHLY' || !rule.byDay) {
+      throw new Error('BYSETPOS is only supported with monthly BYDAY')
+    }
+    rule.bySetPos = parseInteger('BYSETPOS', props.get('BYSETPOS')!)
+  }
+
+  if (freq === 'MONTHLY' && rule.byDay) {
+    if (rule.bySetPos === undefined) {
+      throw new Error('Monthly BYDAY needs a position such as 2TU or -1FR')
+    }
+    if (!ORDINALS[rule.bySetPos]) {
+      throw new Error('Weekday position must be 1-5 or -1')
+    }
+  }
+
+  if (props.has('BYMONTHDAY')) {
+    if (freq !== 'MONTHLY') {
+      throw new Error('BYMONTHDAY is only supported for monthly rules')
+    }
+    if (rule.byDay) {
+      throw new Error('Use either BYMONTHDAY or BYDAY, not both')
+    }
+    const day = parseInteger('BYMONTHDAY', props.get('BYMONTHDAY')!)
+    if (day !== -1 && (day < 1 || day > 31)) {
+      throw new Error('BYMONTHDAY must be 1-31 or -1')
+    }
+    rule.byMonthDay = day
+  }
+
+  if (props.has('UNTIL') && props.has('COUNT')) {
+    throw new Error('Use either UNTIL or COUNT, not both')
+  }
+
+  if (props.has('UNTIL')) {
+    rule.until = parseUntil(props.get('UNTIL')!, timeZone)
+  }
+
+  if (props.has('COUNT')) {
+    rule.count = parseInteger('COUNT', props.get('COUNT')!)
+    if (rule.count < 1) {
+      throw new Error('COUNT must be at least 1')
+    }
+  }
+
+  return rule
+}
+
+/**
+ * Serializes a recurrence rule back into an RRULE string
+ * @param rule The rule to serialize
+ * @returns RRULE value without the "RRULE:" prefix
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`]
+
+  if (rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`)
+  }
+
+  if (rule.byDay && rule.byDay.length > 0) {
+    const prefix =
+      rule.freq === 'MONTHLY' && rule.bySetPos !== undefined
+        ? String(rule.bySetPos)
+        : ''
+    parts.push(`BYDAY=${rule.byDay.map((day) => prefix + day).join(',')}`)
+  }
+
+  if (rule.byMonthDay !== undefined) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay}`)
+  }
+
+  if (rule.until) {
+    parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]|\.\d{3}/g, '')}`)
+  } else if (rule.count) {
+    parts.push(`COUNT=${rule.count}`)
+  }
+
+  return parts.join(';')
+}
+
+/**
+ * Checks whether a string is a supported RRULE
+ * @param value RRULE value to validate
+ * @returns An error message, or null if the rule is valid
+ */
+export function validateRecurrenceRule(value: string): string | null {
+  try {
+    parseRecurrenceRule(value)
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid recurrence rule'
+  }
+}
+
+// Occurrences are worked out on the user's wall clock (see
+// toZonedWallTime), with the date and time in the UTC fields, so a task
+// due at 09:00 stays at 09:00 when daylight saving time starts or ends
+
+function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+}
+
+// Monday of the week a wall clock day falls in
+function weekStartOf(wall: number) {
+  const day = wall - (wall % DAY_MS)
+  return day - ((new Date(day).getUTCDay() + 6) % 7) * DAY_MS
+}
+
+// Resolves BYMONTHDAY / BYSETPOS+BYDAY within a given month, as the wall
+// clock midnight of the day
+function resolveMonthlyDate(
+  rule: RecurrenceRule,
+  year: number,
+  month: number,
+  anchor: Date
+) {
+  const days = daysInMonth(year, month)
+
+  if (rule.byDay && rule.bySetPos !== undefined) {
+    const weekday = WEEKDAYS.indexOf(rule.byDay[0])
+    const matches: number[] = []
+    for (let day = 1; day <= days; day++) {
+      if (new Date(Date.UTC(year, month, day)).getUTCDay() === weekday) {
+        matches.push(day)
+      }
+    }
+    const day =
+      rule.bySetPos === -1
+        ? matches[matches.length - 1]
+        : matches[rule.bySetPos - 1]
+    return day === undefined ? null : Date.UTC(year, month, day)
+  }
+
+  const dayOfMonth = rule.byMonthDay ?? anchor.getUTCDate()
+  const day = dayOfMonth === -1 ? days : dayOfMonth
+  // Months without that day are skipped, as in RFC 5545
+  if (day > days) return null
+  return Date.UTC(year, month, day)
+}
+
+/**
+ * Calculates the occurrence that follows a given one
+ * @param rule The recurrence rule
+ * @param current Date of the current occurrence
+ * @param index Zero-based position of the current occurrence in the series
+ * @param timeZone The user's IANA timezone. Defaults to UTC.
+ * @returns Date of the next occurrence (keeping the time of day on the
+ * user's clock), or null when the series has ended through UNTIL or COUNT
+ */
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+  current: Date,
+  index = 0,
+  timeZone: string = DEFAULT_TIME_ZONE
+): Date | null {
+  if (rule.count !== undefined && index + 1 >= rule.count) {
+    return null
+  }
+
+  const wall = toZonedWallTime(current, timeZone)
+  const wallTime = wall.getTime()
+  const timeOfDay = wallTime % DAY_MS
+  let next: number | null = null
+
+  if (rule.freq === 'DAILY') {
+    next = wallTime + rule.interval * DAY_MS
+  } else if (rule.freq === 'WEEKLY') {
+    const days = rule.byDay?.length ? rule.byDay : [WEEKDAYS[wall.getUTCDay()]]
+    // The next match is at most `interval` weeks away
+    for (let offset = 1; offset <= 7 * rule.interval; offset++) {
+      const candidate = wallTime + offset * DAY_MS
+      const weeksApart = Math.round(
+        (weekStartOf(candidate) - weekStartOf(wallTime)) / (7 * DAY_MS)
+      )
+      if (
+        weeksApart % rule.interval === 0 &&
+        days.includes(WEEKDAYS[new Date(candidate).getUTCDay()])
+      ) {
+        next = candidate
+        break
+      }
+    }
+  } else {
+    // Bounded search: a day like the 31st or a fifth weekday can skip months
+    for (let step = 0; step <= 48 && next === null; step++) {
+      const months = wall.getUTCMonth() + step * rule.interval
+      const candidate = resolveMonthlyDate(
+        rule,
+        wall.getUTCFullYear() + Math.floor(months / 12),
+        months % 12,
+        wall
+      )
+      if (candidate !== null && candidate + timeOfDay > wallTime) {
+        next = candidate + timeOfDay
+      }
+    }
+  }
+
+  if (next === null) {
+    return null
+  }
+  const nextDate = fromZonedWallTime(new Date(next), timeZone)
+  return rule.until && nextDate > rule.until ? null : nextDate
+}
+
+/**
+ * Builds a short human-readable summary of a recurrence rule
+ * @param rule The recurrence rule
+ * @returns Text such as "Every 2 weeks on Mon, Wed until Dec 31, 2026"
+ */
+export function describeRecurrenceRule(rule: RecurrenceRule): string {
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }[rule.freq]
+  let text =
+    rule.interval === 1
+      ? rule.freq === 'DAILY'
+        ? 'Daily'
+        : rule.freq === 'WEEKLY'
+          ? 'Weekly'
+          : 'Monthly'
+      : `Every ${rule.interval} ${unit}s`
+
+  if (rule.freq === 'WEEKLY' && rule.byDay?.length) {
+    text += ` on ${rule.byDay.map((day) => WEEKDAY_LABELS[day]).join(', ')}`
+  }
+
+  if (rule.freq === 'MONTHLY') {
+    if (rule.byDay && rule.bySetPos !== undefined) {
+      text += ` on the ${ORDINALS[rule.bySetPos]} ${WEEKDAY_LABELS[rule.byDay[0]]}`
+    } else if (rule.byMonthDay === -1) {
+      text += ' on the last day'
+    } else if (rule.byMonthDay !== undefined) {
+      text += ` on day ${rule.byMonthDay}`
+    }
+  }
+
+  if (rule.until) {
+    text += ` until ${format(rule.until, 'MMM d, yyyy')}`
+  } else if (rule.count) {
+    text += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`
+  }
+
+  return text
+}
@@ -0,0 +1,235 @@
+import { format, formatDistanceStrict } from 'date-fns'
+import type { ReminderKind } from '@prisma/client'
+import { parseRecurrenceRule } from '@/lib/recurrence'
+import { getEventOccurrences, getSeriesTimeZone } from '@/lib/event-recurrence'
+import {
+  DEFAULT_TIME_ZONE,
+  fromZonedWallTime,
+  toZonedWallTime,
+} from '@/lib/timezone'
+
+export interface ReminderRule {
+  kind: ReminderKind
+  /** Minutes before the anchor, for BEFORE */
+  offsetMinutes?: number | null
+  /** Fixed time, for AT */
+  remindAt?: Date | null
+}
+
+export type ReminderTarget = 'task' | 'event'
+
+/** The parts of a calendar event its reminders count from */
+export interface ReminderEvent {
+  startsAt: Date
+  endsAt: Date
+  allDay: boolean
+  recurrenceRule: string | null
+  excludedDates: Date[]
+  /** Edited occurrences, which are events with reminders of their own */
+  overrides: { originalStartsAt: Date | null }[]
+}
+
+export const MORNING_REMINDER_HOUR = 9
+
+export const REMINDER_PRESETS: {
+  id: string
+  label: string
+  rule: Pick<ReminderRule, 'kind' | 'offsetMinutes'>
+}[] = [
+  {
+    id: 'at-time',
+    label: 'At the time',
+    rule: { kind: 'BEFORE', offsetMinutes: 0 },
+  },
+  {
+    id: '5m',
+    label: '5 minutes before',
+    rule: { kind: 'BEFORE', offsetMinutes: 5 },
+  },
+  {
+    id: '15m',
+    label: '15 minutes before',
+    rule: { kind: 'BEFORE', offsetMinutes: 15 },
+  },
+  {
+    id: '30m',
+    label: '30 minutes before',
+    rule: { kind: 'BEFORE', offsetMinutes: 30 },
+  },
+  {
+    id: '1h',
+    label: '1 hour before',
+    rule: { kind: 'BEFORE', offsetMinutes: 60 },
+  },
+  {
+    id: '1d',
+    label: '1 day before',
+    rule: { kind: 'BEFORE', offsetMinutes: 24 * 60 },
+  },
+  { id: 'morning', label: 'Morning of the day', rule: { kind: 'MORNING_OF' } },
+]
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+// How far ahead to look for an occurrence of a repeating event, a year at
+// a time, before giving up on its reminders
+const OCCURRENCE_SEARCH_YEARS = 5
+
+// 9am on the anchor's calendar day in the user's zone
+function morningOf(anchor: Date, timeZone: string) {
+  const wall = toZonedWallTime(anchor, timeZone)
+  const morning = Date.UTC(
+    wall.getUTCFullYear(),
+    wall.getUTCMonth(),
+    wall.getUTCDate(),
+    MORNING_REMINDER_HOUR
+  )
+  return fromZonedWallTime(new Date(morning), timeZone)
+}
+
+/**
+ * Works out when a reminder is due
+ * @param rule The reminder's settings
+ * @param anchor The task's due date or the event's start, if it has one
+ * @param timeZone The user's IANA timezone, for MORNING_OF
+ * @returns The time to remind at, or null when a relative reminder has
+ * nothing to be relative to
+ */
+export function computeReminderTime(
+  rule: ReminderRule,
+  anchor: Date | null,
+  timeZone: string = DEFAULT_TIME_ZONE
+): Date | null {
+  switch (rule.kind) {
+    case 'AT':
+      return rule.remindAt ?? null
+    case 'BEFORE':
+      return anchor
+        ? new Date(anchor.getTime() - (rule.offsetMinutes ?? 0) * MINUTE_MS)
+        : null
+    case 'MORNING_OF':
+      return anchor ? morningOf(anchor, timeZone) : null
+  }
+}
+
+/**
+ * The next time the scheduler should fire a reminder. Times that have
+ * already passed when a reminder is set or moved are not fired, so editing
+ * an old task does not set off a burst of stale reminders.
+ */
+export function nextFireAt(
+  rule: ReminderRule,
+  anchor: Date | null,
+  now: Date,
+  timeZone: string = DEFAULT_TIME_ZONE
+): Date | null {
+  const time = computeReminderTime(rule, anchor, timeZone)
+  return time && time > now ? time : null
+}
+
+/**
+ * The next time a reminder on an event is due after a given moment. On a
+ * repeating event it counts from the first occurrence whose reminder is
+ * still to come, leaving out deleted and edited occurrences.
+ * @param timeZone The user's IANA timezone
+ * @returns The start it counts from and the time to remind at, or null
+ * when there is nothing left to remind about
+ */
+export function nextEventReminder(
+  rule: ReminderRule,
+  event: ReminderEvent,
+  after: Date,
+  timeZone: string = DEFAULT_TIME_ZONE
+): { anchor: Date; fireAt: Date } | null {
+  if (!event.recurrenceRule) {
+    const fireAt = computeReminderTime(rule, event.startsAt, timeZone)
+    return fireAt && fireAt > after ? { anchor: event.startsAt, fireAt } : null
+  }
+
+  const seriesZone = getSeriesTimeZone(event, timeZone)
+  const series = {
+    ...event,
+    rule: parseRecurrenceRule(event.recurrenceRule, seriesZone),
+  }
+  const skipped = new Set([
+    ...event.excludedDates.map((date) => date.getTime()),
+    ...event.overrides.map((override) => override.originalStartsAt!.getTime()),
+  ])
+
+  // A morning reminder can come after an early start, but not a day after
+  let start = after.getTime() - DAY_MS
+  for (let year = 0; year < OCCURRENCE_SEARCH_YEARS; year++) {
+    const end = start + 366 * DAY_MS
+    const occurrences = getEventOccurrences(
+      series,
+      { start: new Date(start), end: new Date(end) },
+      seriesZone
+    )
+    for (const occurrence of occurrences) {
+      if (skipped.has(occurrence.start.getTime())) continue
+      const fireAt = computeReminderTime(rule, occurrence.start, timeZone)
+      if (fireAt && fireAt > after) {
+        return { anchor: occurrence.start, fireAt }
+      }
+    }
+    start = end + 1
+  }
+
+  return null
+}
+
+function formatOffset(minutes: number) {
+  if (minutes % (24 * 60) === 0) {
+    const days = minutes / (24 * 60)
+    return `${days} day${days === 1 ? '' : 's'}`
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60
+    return `${hours} hour${hours === 1 ? '' : 's'}`
+  }
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`
+}
+
+/** Short label for a reminder, e.g. "15 minutes before" */
+export function describeReminder(rule: ReminderRule): string {
+  switch (rule.kind) {
+    case 'BEFORE':
+      return rule.offsetMinutes
+        ? `${formatOffset(rule.offsetMinutes)} before`
+        : 'At the time'
+    case 'MORNING_OF':
+      return 'Morning of the day'
+    case 'AT':
+      return rule.remindAt
+        ? format(rule.remindAt, 'MMM d, h:mm a')
+        : 'At a set time'
+  }
+}
+
+/**
+ * Body text for a fired reminder, relative to when it was due rather than
+ * when it was sent, so catch-up notifications read the same as on-time ones
+ */
+export function reminderMessage(
+  target: ReminderTarget,
+  anchor: Date | null,
+  scheduledFor: Date
+): string {
+  if (!anchor) {
+    return target === 'task' ? 'Task reminder' : 'Event reminder'
+  }
+
+  const diff = anchor.getTime() - scheduledFor.getTime()
+  const distance = formatDistanceStrict(anchor, scheduledFor)
+
+  if (diff > 0) {
+    return `${target === 'task' ? 'Due' : 'Starts'} in ${distance}`
+  }
+  if (diff === 0) {
+    return target === 'task' ? 'Due now' : 'Starting now'
+  }
+  return target === 'task'
+    ? `Overdue by ${distance}`
+    : `Started ${distance} ago`
+}
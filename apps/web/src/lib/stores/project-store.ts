@@ -0,0 +1,22 @@
+'use client'
+
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+
+interface ProjectStore {
+  /** Project the task, note and time lists are scoped to, or null for all */
+  activeProjectId: string | null
+  setActiveProject: (projectId: string | null) => void
+}
+
+export const useProjectStore = create<ProjectStore>()(
+  persist(
+    (set) => ({
+      activeProjectId: null,
+      setActiveProject: (projectId) => set({ activeProjectId: projectId }),
+    }),
+    {
+      name: 'mindline-project-storage',
+    }
+  )
+)
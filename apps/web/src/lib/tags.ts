@@ -0,0 +1,28 @@
+export const DEFAULT_TAG_COLOR = '#6b7280'
+
+// The palette task labels used before tags existed, so migrated tags match
+export const TAG_COLORS = [
+  { name: 'Red', value: '#ef4444' },
+  { name: 'Orange', value: '#f97316' },
+  { name: 'Yellow', value: '#eab308' },
+  { name: 'Green', value: '#22c55e' },
+  { name: 'Blue', value: '#3b82f6' },
+  { name: 'Purple', value: '#8b5cf6' },
+  { name: 'Pink', value: '#ec4899' },
+  { name: 'Gray', value: DEFAULT_TAG_COLOR },
+] as const
+
+export interface TagSummary {
+  id: string
+  name: string
+  color: string
+}
+
+/**
+ * Normalizes a tag name typed by the user
+ * @param name The raw name
+ * @returns The name with surrounding and repeated whitespace removed
+ */
+export function normalizeTagName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ')
+}
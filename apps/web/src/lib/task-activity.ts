@@ -0,0 +1,61 @@
+export const TRACKED_TASK_FIELDS = [
+  'title',
+  'description',
+  'priority',
+  'status',
+  'dueDate',
+  'deferUntil',
+  'tags',
+  'project',
+  'parentId',
+  'recurrenceRule',
+  'calendarEventId',
+  'estimateMinutes',
+] as const
+
+export type TrackedTaskField = (typeof TRACKED_TASK_FIELDS)[number]
+
+export interface TaskFieldChange {
+  field: TrackedTaskField
+  /** Previous value, dates as ISO strings, tags as sorted names and projects by name */
+  from: string | null
+  /** New value, dates as ISO strings, tags as sorted names and projects by name */
+  to: string | null
+}
+
+type TaskSnapshot = { [K in TrackedTaskField]?: unknown }
+
+function serialize(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null
+  if (value instanceof Date) return value.toISOString()
+  if (Array.isArray(value)) {
+    const names = value.map((tag: { name: string }) => tag.name).sort()
+    return names.length > 0 ? names.join(', ') : null
+  }
+  if (typeof value === 'object' && 'name' in value) return String(value.name)
+  return String(value)
+}
+
+/**
+ * Lists the tracked fields that differ between two versions of a task
+ * @param before The task before the write, or null for a new task
+ * @param after The task after the write
+ * @returns One change per differing field, in TRACKED_TASK_FIELDS order.
+ * Empty strings count as unset so clearing a description is not noise.
+ */
+export function diffTaskFields(
+  before: TaskSnapshot | null,
+  after: TaskSnapshot
+): TaskFieldChange[] {
+  const changes: TaskFieldChange[] = []
+
+  for (const field of TRACKED_TASK_FIELDS) {
+    const from = serialize(before?.[field])
+    const to = serialize(after[field])
+    if (from !== to) {
+      changes.push({ field, from, to })
+    }
+  }
+
+  return changes
+}
@@ -0,0 +1,91 @@
+import { addDays, nextMonday, set } from 'date-fns'
+import type { Prisma } from '@prisma/client'
+
+export type SnoozePresetId = 'tonight' | 'tomorrow' | 'nextWeek'
+
+export interface SnoozePreset {
+  id: SnoozePresetId
+  label: string
+  /** When the task comes back, or null if the preset makes no sense right now */
+  resolve: (now: Date) => Date | null
+}
+
+/** How lists treat active tasks whose defer date is still in the future */
+export type DeferredMode = 'hide' | 'only' | 'include'
+
+const TONIGHT_HOUR = 19
+const MORNING_HOUR = 9
+
+function atHour(date: Date, hours: number) {
+  return set(date, { hours, minutes: 0, seconds: 0, milliseconds: 0 })
+}
+
+export const SNOOZE_PRESETS: SnoozePreset[] = [
+  {
+    id: 'tonight',
+    label: 'Tonight',
+    // Offered until an hour before, after that "tomorrow" is the better pick
+    resolve: (now) =>
+      now.getHours() < TONIGHT_HOUR - 1 ? atHour(now, TONIGHT_HOUR) : null,
+  },
+  {
+    id: 'tomorrow',
+    label: 'Tomorrow',
+    resolve: (now) => atHour(addDays(now, 1), MORNING_HOUR),
+  },
+  {
+    id: 'nextWeek',
+    label: 'Next week',
+    resolve: (now) => atHour(nextMonday(now), MORNING_HOUR),
+  },
+]
+
+/**
+ * Works out when a snooze preset ends, in the local time of `now`
+ * @returns The defer date, or null if the preset is not available at `now`
+ */
+export function getSnoozeDate(
+  preset: SnoozePresetId,
+  now: Date = new Date()
+): Date | null {
+  return SNOOZE_PRESETS.find((entry) => entry.id === preset)!.resolve(now)
+}
+
+/**
+ * Whether a task is still hidden from the inbox. Tasks come back on their
+ * own once the date passes, so nothing has to clear `deferUntil`.
+ */
+export function isDeferred(
+  task: { status: string; deferUntil?: Date | null },
+  now: Date = new Date()
+) {
+  return (
+    task.status === 'ACTIVE' &&
+    !!task.deferUntil &&
+    new Date(task.deferUntil) > now
+  )
+}
+
+/**
+ * Builds the Prisma filter matching `isDeferred`. Completed and archived
+ * tasks are never hidden, whatever their defer date.
+ */
+export function deferredTaskFilter(
+  mode: DeferredMode,
+  now: Date = new Date()
+): Prisma.TaskWhereInput {
+  switch (mode) {
+    case 'hide':
+      return {
+        OR: [
+          { status: { not: 'ACTIVE' } },
+          { deferUntil: null },
+          { deferUntil: { lte: now } },
+        ],
+      }
+    case 'only':
+      return { status: 'ACTIVE', deferUntil: { gt: now } }
+    case 'include':
+      return {}
+  }
+}
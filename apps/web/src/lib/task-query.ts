@@ -0,0 +1,459 @@
+import type { Prisma } from '@prisma/client'
+import {
+  DEFAULT_TIME_ZONE,
+  fromZonedWallTime,
+  toZonedWallTime,
+} from '@/lib/timezone'
+
+export type TaskQueryField = 'priority' | 'status' | 'tag' | 'due' | 'is'
+
+export type TaskQueryOperator = '=' | '<' | '<=' | '>' | '>='
+
+export interface TaskQueryIssue {
+  message: string
+  /** Offset of the first offending character in the query */
+  start: number
+  /** Offset just past the offending text */
+  end: number
+}
+
+export type TaskQueryClause =
+  | {
+      kind: 'text'
+      value: string
+      negated: boolean
+      start: number
+      end: number
+    }
+  | {
+      kind: 'field'
+      field: TaskQueryField
+      operator: TaskQueryOperator
+      values: { value: string; start: number; end: number }[]
+      negated: boolean
+      start: number
+      end: number
+    }
+
+export interface TaskQueryOptions {
+  /** Reference time for relative dates, defaults to the current time */
+  now?: Date
+  /** The user's IANA timezone, for where days start. Defaults to UTC. */
+  timeZone?: string
+}
+
+/**
+ * Raised for queries that cannot be compiled. Carries every problem found
+ * so the search box can underline each of them.
+ */
+export class TaskQueryError extends Error {
+  constructor(public readonly issues: TaskQueryIssue[]) {
+    super(issues[0]?.message ?? 'Invalid query')
+    this.name = 'TaskQueryError'
+  }
+}
+
+const FIELDS: TaskQueryField[] = ['priority', 'status', 'tag', 'due', 'is']
+
+// Older spellings, kept so saved views written before tags still run
+const FIELD_ALIASES: Record<string, TaskQueryField> = { label: 'tag' }
+
+const PRIORITIES = ['LOW', 'MEDIUM', 'HIGH', 'URGENT'] as const
+const STATUSES = ['ACTIVE', 'COMPLETED', 'ARCHIVED'] as const
+const FLAGS = ['recurring', 'subtask'] as const
+const DUE_KEYWORDS = ['today', 'tomorrow', 'overdue', 'upcoming', 'none']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Splits a query into clauses
+ *
+ * Supported syntax:
+ * - `field:value`, with `field:a,b` matching any of the values
+ * - comparison operators for ordered fields, e.g. `due:<2026-11-01`
+ * - date ranges, e.g. `due:2026-11-01..2026-11-30`
+ * - `-` in front of any clause to negate it
+ * - bare words and `"quoted text"` searching title and description
+ * @param query The raw query string
+ * @returns The parsed clauses in order
+ * @throws TaskQueryError listing every syntax error
+ */
+export function parseTaskQuery(query: string): TaskQueryClause[] {
+  const clauses: TaskQueryClause[] = []
+  const issues: TaskQueryIssue[] = []
+  let i = 0
+
+  const readQuoted = (start: number) => {
+    const close = query.indexOf('"', start + 1)
+    if (close === -1) {
+      issues.push({
+        message: 'Unterminated quote',
+        start,
+        end: query.length,
+      })
+      return { value: query.slice(start + 1), end: query.length }
+    }
+    return { value: query.slice(start + 1, close), end: close + 1 }
+  }
+
+  const readWord = (start: number) => {
+    let end = start
+    while (end < query.length && !/\s/.test(query[end])) end++
+    return { value: query.slice(start, end), end }
+  }
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++
+      continue
+    }
+
+    const start = i
+    const negated =
+      query[i] === '-' && i + 1 < query.length && !/\s/.test(query[i + 1])
+    if (negated) i++
+
+    if (query[i] === '"') {
+      const { value, end } = readQuoted(i)
+      if (value.trim()) {
+        clauses.push({ kind: 'text', value, negated, start, end })
+      }
+      i = end
+      continue
+    }
+
+    const fieldMatch = /^([a-z]+):/i.exec(query.slice(i))
+    if (!fieldMatch) {
+      const { value, end } = readWord(i)
+      clauses.push({ kind: 'text', value, negated, start, end })
+      i = end
+      continue
+    }
+
+    const fieldName = fieldMatch[1].toLowerCase()
+    const fieldEnd = i + fieldMatch[1].length
+    let cursor = i + fieldMatch[0].length
+
+    const operatorMatch = /^(<=|>=|<|>|=)/.exec(query.slice(cursor))
+    const operator = (operatorMatch?.[1] ?? '=') as TaskQueryOperator
+    cursor += operatorMatch?.[1].length ?? 0
+
+    const raw = query[cursor] === '"' ? readQuoted(cursor) : readWord(cursor)
+    const values: { value: string; start: number; end: number }[] = []
+
+    if (query[cursor] === '"') {
+      values.push({ value: raw.value, start: cursor, end: raw.end })
+    } else {
+      let offset = cursor
+      raw.value.split(',').forEach((part) => {
+        values.push({ value: part, start: offset, end: offset + part.length })
+        offset += part.length + 1
+      })
+    }
+
+    i = raw.end
+
+    const field = FIELD_ALIASES[fieldName] ?? fieldName
+    if (!FIELDS.includes(field as TaskQueryField)) {
+      issues.push({
+        message: `Unknown field "${fieldName}", expected one of ${FIELDS.join(', ')}`,
+        start: negated ? start + 1 : start,
+        end: fieldEnd,
+      })
+      continue
+    }
+
+    if (values.every((part) => !part.value.trim())) {
+      issues.push({
+        message: `Missing value for "${fieldName}"`,
+        start,
+        end: i,
+      })
+      continue
+    }
+
+    clauses.push({
+      kind: 'field',
+      field: field as TaskQueryField,
+      operator,
+      values: values.filter((part) => part.value.trim()),
+      negated,
+      start,
+      end: i,
+    })
+  }
+
+  if (issues.length > 0) {
+    throw new TaskQueryError(issues)
+  }
+
+  return clauses
+}
+
+function matchEnum<T extends string>(
+  value: string,
+  options: readonly T[]
+): T | undefined {
+  return options.find((option) => option === value.toUpperCase())
+}
+
+/**
+ * Parses a due date value into the wall clock midnight of that day, with
+ * the date in the UTC fields
+ */
+function resolveDay(value: string, wallToday: number): number | null {
+  const keyword = value.toLowerCase()
+  if (keyword === 'today') return wallToday
+  if (keyword === 'tomorrow') return wallToday + DAY_MS
+
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value)
+  if (!match) return null
+
+  const [year, month, day] = match.slice(1).map(Number)
+  const wall = new Date(Date.UTC(year, month - 1, day))
+  if (wall.getUTCMonth() !== month - 1 || wall.getUTCDate() !== day) {
+    return null
+  }
+  return wall.getTime()
+}
+
+// Columns a condition may compare while they hold NULL
+const NULLABLE_COLUMNS = ['description', 'dueDate'] as const
+
+/**
+ * Negates a compiled condition so that tasks missing a compared value still
+ * match. SQL keeps NOT of a comparison with NULL unknown, which would drop
+ * them, e.g. every task without a description for a negated word.
+ */
+function negate(condition: Prisma.TaskWhereInput): Prisma.TaskWhereInput {
+  // Not any of the alternatives is each of them negated
+  if (Array.isArray(condition.OR)) {
+    return { AND: condition.OR.map(negate) }
+  }
+
+  const compared = NULLABLE_COLUMNS.filter(
+    (column) => condition[column] !== undefined && condition[column] !== null
+  )
+  if (compared.length === 0) {
+    return { NOT: condition }
+  }
+  return {
+    OR: [...compared.map((column) => ({ [column]: null })), { NOT: condition }],
+  }
+}
+
+/**
+ * Compiles a query into a Prisma filter for the task model
+ * @param query The raw query string
+ * @param options Reference time and the user's timezone
+ * @returns A where clause to combine with the caller's own conditions
+ * @throws TaskQueryError listing every problem with the query
+ */
+export function compileTaskQuery(
+  query: string,
+  options: TaskQueryOptions = {}
+): Prisma.TaskWhereInput {
+  const clauses = parseTaskQuery(query)
+  const now = options.now ?? new Date()
+  const timeZone = options.timeZone ?? DEFAULT_TIME_ZONE
+  const wallNow = toZonedWallTime(now, timeZone).getTime()
+  const wallToday = wallNow - (wallNow % DAY_MS)
+  // Days can be 23 or 25 hours long, so each boundary is worked out alone
+  const startOf = (wallDay: number) =>
+    fromZonedWallTime(new Date(wallDay), timeZone)
+
+  const issues: TaskQueryIssue[] = []
+  const conditions: Prisma.TaskWhereInput[] = []
+
+  const fail = (message: string, start: number, end: number) => {
+    issues.push({ message, start, end })
+    return null
+  }
+
+  const compileValue = (
+    field: TaskQueryField,
+    operator: TaskQueryOperator,
+    part: { value: string; start: number; end: number }
+  ): Prisma.TaskWhereInput | null => {
+    const { value, start, end } = part
+
+    switch (field) {
+      case 'priority': {
+        const priority = matchEnum(value, PRIORITIES)
+        if (!priority) {
+          return fail(
+            `Invalid priority "${value}", expected one of low, medium, high, urgent`,
+            start,
+            end
+          )
+        }
+        const rank = PRIORITIES.indexOf(priority)
+        const matching = PRIORITIES.filter((_, index) => {
+          switch (operator) {
+            case '<':
+              return index < rank
+            case '<=':
+              return index <= rank
+            case '>':
+              return index > rank
+            case '>=':
+              return index >= rank
+            default:
+              return index === rank
+          }
+        })
+        return { priority: { in: [...matching] } }
+      }
+
+      case 'status': {
+        const status = matchEnum(value, STATUSES)
+        if (!status) {
+          return fail(
+            `Invalid status "${value}", expected one of active, completed, archived`,
+            start,
+            end
+          )
+        }
+        return { status }
+      }
+
+      case 'tag':
+        return value.toLowerCase() === 'none'
+          ? { tags: { none: {} } }
+          : {
+              tags: {
+                some: { name: { equals: value, mode: 'insensitive' } },
+              },
+            }
+
+      case 'is': {
+        const flag = FLAGS.find((option) => option === value.toLowerCase())
+        if (flag === 'recurring') return { recurrenceRule: { not: null } }
+        if (flag === 'subtask') return { parentId: { not: null } }
+        return fail(
+          `Invalid flag "${value}", expected one of ${FLAGS.join(', ')}`,
+          start,
+          end
+        )
+      }
+
+      case 'due': {
+        const keyword = value.toLowerCase()
+        if (keyword === 'none') return { dueDate: null }
+        if (keyword === 'overdue') {
+          return { dueDate: { lt: now }, status: 'ACTIVE' }
+        }
+        if (keyword === 'upcoming') {
+          return {
+            dueDate: { gt: now, lte: new Date(now.getTime() + 7 * DAY_MS) },
+            status: 'ACTIVE',
+          }
+        }
+
+        const range = value.split('..')
+        if (range.length === 2) {
+          const from = resolveDay(range[0], wallToday)
+          const to = resolveDay(range[1], wallToday)
+          if (from === null || to === null) {
+            return fail(`Invalid date range "${value}"`, start, end)
+          }
+          return {
+            dueDate: { gte: startOf(from), lt: startOf(to + DAY_MS) },
+          }
+        }
+
+        const wallDay = resolveDay(value, wallToday)
+        if (wallDay === null) {
+          return fail(
+            `Invalid due date "${value}", expected YYYY-MM-DD or one of ${DUE_KEYWORDS.join(', ')}`,
+            start,
+            end
+          )
+        }
+        const day = startOf(wallDay)
+        const nextDay = startOf(wallDay + DAY_MS)
+        switch (operator) {
+          case '<':
+            return { dueDate: { lt: day } }
+          case '<=':
+            return { dueDate: { lt: nextDay } }
+          case '>':
+            return { dueDate: { gte: nextDay } }
+          case '>=':
+            return { dueDate: { gte: day } }
+          default:
+            return { dueDate: { gte: day, lt: nextDay } }
+        }
+      }
+    }
+  }
+
+  for (const clause of clauses) {
+    let condition: Prisma.TaskWhereInput | null
+
+    if (clause.kind === 'text') {
+      condition = {
+        OR: [
+          { title: { contains: clause.value, mode: 'insensitive' } },
+          { description: { contains: clause.value, mode: 'insensitive' } },
+        ],
+      }
+    } else {
+      const ordered = clause.field === 'priority' || clause.field === 'due'
+      if (clause.operator !== '=' && !ordered) {
+        fail(
+          `Operator ${clause.operator} is not supported for "${clause.field}"`,
+          clause.start,
+          clause.end
+        )
+        continue
+      }
+      if (clause.operator !== '=' && clause.values.length > 1) {
+        fail(
+          `Operator ${clause.operator} takes a single value`,
+          clause.start,
+          clause.end
+        )
+        continue
+      }
+
+      const alternatives = clause.values.map((part) =>
+        compileValue(clause.field, clause.operator, part)
+      )
+      if (alternatives.some((alternative) => alternative === null)) {
+        continue
+      }
+      condition =
+        alternatives.length === 1
+          ? alternatives[0]
+          : { OR: alternatives as Prisma.TaskWhereInput[] }
+    }
+
+    if (condition) {
+      conditions.push(clause.negated ? negate(condition) : condition)
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new TaskQueryError(issues)
+  }
+
+  return { AND: conditions }
+}
+
+/**
+ * Checks whether a query filters on a field, e.g. to decide whether a
+ * default status still applies
+ * @param query The raw query string
+ * @param field The field to look for
+ * @returns True if any valid clause uses the field
+ */
+export function queryFiltersField(query: string, field: TaskQueryField) {
+  try {
+    return parseTaskQuery(query).some(
+      (clause) => clause.kind === 'field' && clause.field === field
+    )
+  } catch {
+    return false
+  }
+}
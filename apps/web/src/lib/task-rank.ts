@@ -0,0 +1,41 @@
+// Tasks are ordered by a fractional rank. Moving a task gives it a rank
+// between its new neighbours, so only that one row changes. Each move into
+// the same gap halves it, and once it gets too small the whole list is
+// renumbered.
+
+/** Distance between ranks after renumbering, and for tasks added at the end */
+export const RANK_STEP = 1
+
+/** Smallest gap still worth splitting before renumbering */
+export const MIN_RANK_GAP = 1e-9
+
+/**
+ * Picks a rank that sorts between two neighbours
+ * @param before Rank of the task that should come just before, if any
+ * @param after Rank of the task that should come just after, if any
+ * @returns The new rank, or null when the neighbours are too close together
+ * or out of order and the list has to be renumbered first
+ */
+export function rankBetween(
+  before: number | null,
+  after: number | null
+): number | null {
+  if (before === null && after === null) {
+    return RANK_STEP
+  }
+  if (before === null) {
+    return after! - RANK_STEP
+  }
+  if (after === null) {
+    return before + RANK_STEP
+  }
+  if (after - before < MIN_RANK_GAP) {
+    return null
+  }
+  return before + (after - before) / 2
+}
+
+/** Evenly spaced ranks for a list of IDs in their intended order */
+export function spreadRanks(ids: string[]) {
+  return ids.map((id, index) => ({ id, order: (index + 1) * RANK_STEP }))
+}
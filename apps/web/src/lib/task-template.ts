@@ -0,0 +1,136 @@
+import { addDays, differenceInCalendarDays } from 'date-fns'
+import type { Priority } from '@prisma/client'
+
+// A template is a bundle of task definitions that can be created again and
+// again, like an onboarding checklist. Titles and descriptions may contain
+// {{variables}} that are filled in each time, and due dates are kept as a
+// number of days after the day the bundle starts.
+
+export interface TaskTemplateItem {
+  title: string
+  description?: string | null
+  priority: Priority
+  /** Days after the start date the task is due, or null for no due date */
+  dueOffsetDays: number | null
+  tagIds: string[]
+  estimateMinutes?: number | null
+  /** Index of the item this one is a subtask of, always an earlier one */
+  parentIndex: number | null
+}
+
+export class TaskTemplateError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TaskTemplateError'
+  }
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z][\w-]*)\s*\}\}/g
+
+/**
+ * Lists the variables used in a template's titles and descriptions
+ * @returns Variable names in order of first use, without duplicates
+ */
+export function getTemplateVariables(
+  items: Pick<TaskTemplateItem, 'title' | 'description'>[]
+): string[] {
+  const names = new Set<string>()
+
+  for (const item of items) {
+    for (const text of [item.title, item.description ?? '']) {
+      for (const match of text.matchAll(VARIABLE_PATTERN)) {
+        names.add(match[1])
+      }
+    }
+  }
+
+  return Array.from(names)
+}
+
+/**
+ * Replaces the {{variables}} in a text
+ * @param values Values by variable name
+ * @throws TaskTemplateError when a variable has no value
+ */
+export function fillTemplateText(
+  text: string,
+  values: Record<string, string>
+): string {
+  return text.replace(VARIABLE_PATTERN, (_match, name: string) => {
+    const value = values[name]?.trim()
+    if (!value) {
+      throw new TaskTemplateError(`Enter a value for {{${name}}}`)
+    }
+    return value
+  })
+}
+
+/**
+ * Works out when a task from a template is due
+ * @param startDate The day the template is used for
+ * @param offsetDays Days after that day, or null for no due date
+ */
+export function getTemplateDueDate(
+  startDate: Date,
+  offsetDays: number | null
+): Date | null {
+  return offsetDays === null ? null : addDays(startDate, offsetDays)
+}
+
+/**
+ * Turns existing tasks into template items. Due dates become offsets from
+ * the earliest due date among them, and subtasks point at their parent when
+ * it is part of the template too.
+ * @param tasks The tasks, in the order they should be created
+ */
+export function toTemplateItems(
+  tasks: {
+    id: string
+    title: string
+    description?: string | null
+    priority: Priority
+    dueDate?: Date | null
+    estimateMinutes?: number | null
+    parentId?: string | null
+    tags?: { id: string }[]
+  }[]
+): TaskTemplateItem[] {
+  const ids = new Set(tasks.map((task) => task.id))
+  const childrenByParent = new Map<string | null, typeof tasks>()
+  for (const task of tasks) {
+    const parentId =
+      task.parentId && ids.has(task.parentId) ? task.parentId : null
+    childrenByParent.set(parentId, [
+      ...(childrenByParent.get(parentId) ?? []),
+      task,
+    ])
+  }
+
+  // Parents have to come before their subtasks
+  const ordered: { task: (typeof tasks)[0]; parentIndex: number | null }[] = []
+  const visit = (parentId: string | null, parentIndex: number | null) => {
+    for (const task of childrenByParent.get(parentId) ?? []) {
+      ordered.push({ task, parentIndex })
+      visit(task.id, ordered.length - 1)
+    }
+  }
+  visit(null, null)
+
+  const dueTimes = tasks
+    .filter((task) => task.dueDate)
+    .map((task) => task.dueDate!.getTime())
+  const anchor = dueTimes.length > 0 ? new Date(Math.min(...dueTimes)) : null
+
+  return ordered.map(({ task, parentIndex }) => ({
+    title: task.title,
+    description: task.description ?? null,
+    priority: task.priority,
+    dueOffsetDays:
+      task.dueDate && anchor
+        ? differenceInCalendarDays(task.dueDate, anchor)
+        : null,
+    tagIds: task.tags?.map((tag) => tag.id) ?? [],
+    estimateMinutes: task.estimateMinutes ?? null,
+    parentIndex,
+  }))
+}
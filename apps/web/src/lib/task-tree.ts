@@ -0,0 +1,77 @@
+export interface TreeTask {
+  id: string
+  parentId?: string | null
+}
+
+export interface SubtaskProgress {
+  total: number
+  completed: number
+}
+
+export interface TaskTree<T extends TreeTask> {
+  roots: T[]
+  childrenByParent: Map<string, T[]>
+}
+
+/**
+ * Groups a flat task list into roots and children, preserving input order
+ * @param tasks Flat list of tasks as returned by task.list
+ * @returns Root tasks and a lookup of direct children keyed by parent ID.
+ * Tasks whose parent is not part of the list are treated as roots.
+ */
+export function buildTaskTree<T extends TreeTask>(tasks: T[]): TaskTree<T> {
+  const ids = new Set(tasks.map((task) => task.id))
+  const roots: T[] = []
+  const childrenByParent = new Map<string, T[]>()
+
+  for (const task of tasks) {
+    if (task.parentId && ids.has(task.parentId)) {
+      const siblings = childrenByParent.get(task.parentId) ?? []
+      siblings.push(task)
+      childrenByParent.set(task.parentId, siblings)
+    } else {
+      roots.push(task)
+    }
+  }
+
+  return { roots, childrenByParent }
+}
+
+/**
+ * Folds grouped subtask counts into a per-parent progress lookup
+ * @param groups Rows of a task groupBy over parentId and status
+ * @returns Map of parent ID to total and completed subtask counts.
+ * Archived subtasks are not part of the rollup.
+ */
+export function summarizeSubtasks(
+  groups: Array<{
+    parentId: string | null
+    status: string
+    _count: { _all: number }
+  }>
+): Map<string, SubtaskProgress> {
+  const progress = new Map<string, SubtaskProgress>()
+
+  for (const group of groups) {
+    if (!group.parentId || group.status === 'ARCHIVED') continue
+
+    const current = progress.get(group.parentId) ?? { total: 0, completed: 0 }
+    current.total += group._count._all
+    if (group.status === 'COMPLETED') {
+      current.completed += group._count._all
+    }
+    progress.set(group.parentId, current)
+  }
+
+  return progress
+}
+
+/**
+ * Calculates the completion percentage of a subtask rollup
+ * @param progress Total and completed subtask counts
+ * @returns Percentage (0-100), or 0 when there are no subtasks
+ */
+export function getSubtaskPercentage(progress: SubtaskProgress): number {
+  if (progress.total === 0) return 0
+  return Math.round((progress.completed / progress.total) * 100)
+}
@@ -0,0 +1,126 @@
+// Day boundaries in a user's IANA timezone. Dashboards and reports bucket
+// by the user's calendar day rather than the server's, so "today" rolls
+// over at the user's midnight. Offsets come from Intl, which knows about
+// daylight saving time, so days can be 23 or 25 hours long and may start
+// at 01:00 where clocks skip midnight.
+
+export const DEFAULT_TIME_ZONE = 'UTC'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timeZone: string) {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+/**
+ * Checks that a string names a timezone Intl knows, like "Europe/Berlin"
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// The wall clock time in the zone, as if it were a UTC timestamp
+function getWallTime(date: Date, timeZone: string): number {
+  const parts: Record<string, number> = {}
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value)
+    }
+  }
+  return Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+    date.getUTCMilliseconds()
+  )
+}
+
+function toDateKey(wallTime: number): string {
+  return new Date(wallTime).toISOString().slice(0, 10)
+}
+
+/**
+ * Returns the calendar day (YYYY-MM-DD) a moment falls on in a timezone
+ */
+export function getZonedDateKey(date: Date, timeZone: string): string {
+  return toDateKey(getWallTime(date, timeZone))
+}
+
+/**
+ * Returns a moment's wall clock time in a timezone, as a Date whose UTC
+ * fields read like that wall clock. Day arithmetic on these is free of
+ * daylight saving jumps.
+ */
+export function toZonedWallTime(date: Date, timeZone: string): Date {
+  return new Date(getWallTime(date, timeZone))
+}
+
+/**
+ * Returns the moment a wall clock time happens in a timezone. Times in the
+ * hour skipped when clocks go forward move forward with the clocks, and
+ * times in the hour repeated when they go back pick the first run.
+ * @param wallTime Wall clock time in the UTC fields, as from toZonedWallTime
+ */
+export function fromZonedWallTime(wallTime: Date, timeZone: string): Date {
+  const wall = wallTime.getTime()
+  // The wall time minus the offset in force just before and just after it
+  const offsetBefore = getWallTime(wallTime, timeZone) - wall
+  const first = wall - offsetBefore
+  const offsetAfter = getWallTime(new Date(first), timeZone) - first
+  const second = wall - offsetAfter
+
+  const matches = [first, second].filter(
+    (time) => getWallTime(new Date(time), timeZone) === wall
+  )
+  return new Date(
+    matches.length > 0 ? Math.min(...matches) : Math.max(first, second)
+  )
+}
+
+/**
+ * Returns the first moment of the day a moment falls on in a timezone
+ */
+export function startOfDayInZone(date: Date, timeZone: string): Date {
+  const wallTime = getWallTime(date, timeZone)
+  return fromZonedWallTime(new Date(wallTime - (wallTime % DAY_MS)), timeZone)
+}
+
+/**
+ * Returns the day a moment falls on in a timezone, as a range for queries
+ * @returns The first moment of the day and of the next day (exclusive)
+ */
+export function getDayRangeInZone(
+  date: Date,
+  timeZone: string
+): { start: Date; end: Date } {
+  const wallTime = getWallTime(date, timeZone)
+  const midnight = wallTime - (wallTime % DAY_MS)
+  return {
+    start: fromZonedWallTime(new Date(midnight), timeZone),
+    end: fromZonedWallTime(new Date(midnight + DAY_MS), timeZone),
+  }
+}
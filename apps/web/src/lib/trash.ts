@@ -0,0 +1,30 @@
+import { addDays } from 'date-fns'
+
+export const TRASH_ITEM_TYPES = ['task', 'note', 'event', 'board'] as const
+
+export type TrashItemType = (typeof TRASH_ITEM_TYPES)[number]
+
+export const TRASH_ITEM_LABELS: Record<TrashItemType, string> = {
+  task: 'Task',
+  note: 'Note',
+  event: 'Event',
+  board: 'Board',
+}
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30
+
+/**
+ * Reads a retention setting such as `TRASH_RETENTION_DAYS`, falling back
+ * to the default for anything that is not a whole number of days
+ */
+export function parseRetentionDays(value: string | undefined): number {
+  const days = Number(value)
+  return Number.isInteger(days) && days > 0
+    ? days
+    : DEFAULT_TRASH_RETENTION_DAYS
+}
+
+/** When an item deleted at `deletedAt` leaves the trash for good */
+export function getPurgeDate(deletedAt: Date, retentionDays: number): Date {
+  return addDays(deletedAt, retentionDays)
+}
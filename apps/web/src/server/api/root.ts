@@ -7,6 +7,16 @@ import { authRouter } from './routers/auth'
 import { boardRouter } from './routers/board'
 import { timeRouter } from './routers/time'
 import { pomodoroRouter } from './routers/pomodoro'
+import { savedViewRouter } from './routers/saved-view'
+import { tagRouter } from './routers/tag'
+import { projectRouter } from './routers/project'
+import { reminderRouter } from './routers/reminder'
+import { notificationRouter } from './routers/notification'
+import { trashRouter } from './routers/trash'
+import { kanbanRouter } from './routers/kanban'
+import { taskTemplateRouter } from './routers/task-template'
+import { plannerRouter } from './routers/planner'
+import { calendarRouter } from './routers/calendar'
 
 /**
  * This is the primary router for your server.
@@ -22,6 +32,16 @@ export const appRouter = createTRPCRouter({
   board: boardRouter,
   time: timeRouter,
   pomodoro: pomodoroRouter,
+  savedView: savedViewRouter,
+  tag: tagRouter,
+  project: projectRouter,
+  reminder: reminderRouter,
+  notification: notificationRouter,
+  trash: trashRouter,
+  kanban: kanbanRouter,
+  taskTemplate: taskTemplateRouter,
+  planner: plannerRouter,
+  calendar: calendarRouter,
 })
 
 // export type definition of API
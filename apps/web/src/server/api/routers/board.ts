@@ -1,11 +1,13 @@
 import { z } from 'zod'
 import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
+import { assertOwnProject, projectIdInput } from './project'
 
 const boardInput = z.object({
   name: z.string().min(1, 'Board name is required'),
   description: z.string().optional(),
   deadline: z.date().optional(),
   theme: z.string().optional().default('#3b82f6'),
+  projectId: projectIdInput,
 })
 
 const boardItemInput = z.object({
@@ -26,6 +28,7 @@ export const boardRouter = createTRPCRouter({
     return ctx.prisma.board.findMany({
       where: {
         userId: ctx.session.user.id,
+        deletedAt: null,
       },
       include: {
         items: {
@@ -56,6 +59,7 @@ export const boardRouter = createTRPCRouter({
         where: {
           id: input.id,
           userId: ctx.session.user.id,
+          deletedAt: null,
         },
         include: {
           items: {
@@ -92,6 +96,13 @@ export const boardRouter = createTRPCRouter({
               where: {
                 id: { in: taskIds },
                 userId: ctx.session.user.id,
+                deletedAt: null,
+              },
+              include: {
+                tags: {
+                  select: { id: true, name: true, color: true },
+                  orderBy: { name: 'asc' },
+                },
               },
             })
           : [],
@@ -100,6 +111,7 @@ export const boardRouter = createTRPCRouter({
               where: {
                 id: { in: eventIds },
                 userId: ctx.session.user.id,
+                deletedAt: null,
               },
             })
           : [],
@@ -128,6 +140,8 @@ export const boardRouter = createTRPCRouter({
   create: protectedProcedure
     .input(boardInput)
     .mutation(async ({ ctx, input }) => {
+      await assertOwnProject(ctx.prisma, ctx.session.user.id, input.projectId)
+
       return ctx.prisma.board.create({
         data: {
           ...input,
@@ -149,10 +163,17 @@ export const boardRouter = createTRPCRouter({
       })
     )
     .mutation(async ({ ctx, input }) => {
+      await assertOwnProject(
+        ctx.prisma,
+        ctx.session.user.id,
+        input.data.projectId
+      )
+
       return ctx.prisma.board.update({
         where: {
           id: input.id,
           userId: ctx.session.user.id,
+          deletedAt: null,
         },
         data: input.data,
         include: {
@@ -162,16 +183,21 @@ export const boardRouter = createTRPCRouter({
       })
     }),
 
-  // Delete a board
+  // Move a board to the trash, keeping its items and edges
   delete: protectedProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
-      return ctx.prisma.board.delete({
+      const deletedAt = new Date()
+      const board = await ctx.prisma.board.update({
         where: {
           id: input.id,
           userId: ctx.session.user.id,
+          deletedAt: null,
         },
+        data: { deletedAt },
       })
+
+      return { id: board.id, deletedAt }
     }),
 
   // Add an item to a board
@@ -188,6 +214,7 @@ export const boardRouter = createTRPCRouter({
         where: {
           id: input.boardId,
           userId: ctx.session.user.id,
+          deletedAt: null,
         },
       })
 
@@ -201,6 +228,7 @@ export const boardRouter = createTRPCRouter({
           where: {
             id: input.item.externalId,
             userId: ctx.session.user.id,
+            deletedAt: null,
           },
         })
         if (!task) {
@@ -211,6 +239,7 @@ export const boardRouter = createTRPCRouter({
           where: {
             id: input.item.externalId,
             userId: ctx.session.user.id,
+            deletedAt: null,
           },
         })
         if (!event) {
@@ -304,6 +333,7 @@ export const boardRouter = createTRPCRouter({
         where: {
           id: input.boardId,
           userId: ctx.session.user.id,
+          deletedAt: null,
         },
       })
 
@@ -381,6 +411,7 @@ export const boardRouter = createTRPCRouter({
         where: {
           id: input.boardId,
           userId: ctx.session.user.id,
+          deletedAt: null,
         },
         include: {
           items: true,
@@ -407,6 +438,7 @@ export const boardRouter = createTRPCRouter({
               where: {
                 id: { in: taskIds },
                 userId: ctx.session.user.id,
+                deletedAt: null,
               },
             })
           : [],
@@ -415,6 +447,7 @@ export const boardRouter = createTRPCRouter({
               where: {
                 id: { in: eventIds },
                 userId: ctx.session.user.id,
+                deletedAt: null,
               },
             })
           : [],
@@ -0,0 +1,155 @@
+import { z } from 'zod'
+import type { Prisma } from '@prisma/client'
+import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
+import { DEFAULT_CALENDAR_COLOR, DEFAULT_CALENDAR_NAME } from '@/lib/calendars'
+
+// No defaults here, so partial updates leave omitted fields alone
+const calendarFields = z.object({
+  name: z.string().trim().min(1, 'Calendar name is required').max(60),
+  color: z
+    .string()
+    .regex(/^#[0-9a-f]{6}$/i, 'Color must be a hex value like #3b82f6')
+    .transform((color) => color.toLowerCase()),
+  visible: z.boolean(),
+})
+
+const calendarInput = calendarFields.extend({
+  color: calendarFields.shape.color.default(DEFAULT_CALENDAR_COLOR),
+  visible: z.boolean().default(true),
+})
+
+// The default calendar, which events go in when no calendar is picked,
+// then the others in the order they were added
+const calendarOrder: Prisma.CalendarOrderByWithRelationInput[] = [
+  { isDefault: 'desc' },
+  { createdAt: 'asc' },
+  { id: 'asc' },
+]
+
+// Throws unless the calendar belongs to the user, so calendar ids from the
+// client cannot put events in someone else's calendar
+export async function findOwnCalendar(
+  prisma: Prisma.TransactionClient,
+  userId: string,
+  id: string
+) {
+  const calendar = await prisma.calendar.findFirst({
+    where: { id, userId },
+  })
+
+  if (!calendar) {
+    throw new Error('Calendar not found')
+  }
+
+  return calendar
+}
+
+// The user's default calendar, created the first time it's needed. When
+// two requests create it at once, the unique index on default calendars
+// turns the second insert into a no-op and both read the same one back.
+export async function getDefaultCalendar(
+  prisma: Prisma.TransactionClient,
+  userId: string
+) {
+  const where = { userId, isDefault: true }
+  const calendar = await prisma.calendar.findFirst({ where })
+  if (calendar) {
+    return calendar
+  }
+
+  await prisma.calendar.createMany({
+    data: [{ userId, name: DEFAULT_CALENDAR_NAME, isDefault: true }],
+    skipDuplicates: true,
+  })
+  return prisma.calendar.findFirstOrThrow({ where })
+}
+
+// The calendar a new event goes in: the one picked, or the default
+export function resolveCalendar(
+  prisma: Prisma.TransactionClient,
+  userId: string,
+  calendarId: string | undefined
+) {
+  return calendarId
+    ? findOwnCalendar(prisma, userId, calendarId)
+    : getDefaultCalendar(prisma, userId)
+}
+
+export const calendarRouter = createTRPCRouter({
+  // Get the user's calendars, the default one first
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const userId = ctx.session.user.id
+    await getDefaultCalendar(ctx.prisma, userId)
+
+    return ctx.prisma.calendar.findMany({
+      where: { userId },
+      orderBy: calendarOrder,
+    })
+  }),
+
+  create: protectedProcedure
+    .input(calendarInput)
+    .mutation(async ({ ctx, input }) => {
+      return ctx.prisma.calendar.create({
+        data: {
+          ...input,
+          userId: ctx.session.user.id,
+        },
+      })
+    }),
+
+  // Rename, recolor, or show or hide a calendar. Events keep the colors
+  // they have.
+  update: protectedProcedure
+    .input(z.object({ id: z.string(), data: calendarFields.partial() }))
+    .mutation(async ({ ctx, input }) => {
+      const calendar = await findOwnCalendar(
+        ctx.prisma,
+        ctx.session.user.id,
+        input.id
+      )
+
+      return ctx.prisma.calendar.update({
+        where: { id: calendar.id },
+        data: input.data,
+      })
+    }),
+
+  // Delete a calendar. Its events go to the trash, and are restored into
+  // the first calendar left, which becomes the default if this one was.
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+
+      return ctx.prisma.$transaction(async (tx) => {
+        const calendar = await findOwnCalendar(tx, userId, input.id)
+        const fallback = await tx.calendar.findFirst({
+          where: { userId, id: { not: calendar.id } },
+          orderBy: calendarOrder,
+        })
+
+        if (!fallback) {
+          throw new Error('You need at least one calendar')
+        }
+
+        const trashed = await tx.calendarEvent.updateMany({
+          where: { calendarId: calendar.id, deletedAt: null },
+          data: { deletedAt: new Date() },
+        })
+        await tx.calendarEvent.updateMany({
+          where: { calendarId: calendar.id },
+          data: { calendarId: fallback.id },
+        })
+        await tx.calendar.delete({ where: { id: calendar.id } })
+        if (calendar.isDefault) {
+          await tx.calendar.update({
+            where: { id: fallback.id },
+            data: { isDefault: true },
+          })
+        }
+
+        return { id: calendar.id, trashedEvents: trashed.count }
+      })
+    }),
+})
@@ -1,55 +1,629 @@
 import { z } from 'zod'
+import { addDays, subDays } from 'date-fns'
+import type { CalendarEvent, Prisma } from '@prisma/client'
 import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
+import { formatRecurrenceRule, parseRecurrenceRule } from '@/lib/recurrence'
+import {
+  continueRuleFrom,
+  endRuleBefore,
+  findEventOccurrence,
+  getEventOccurrences,
+  getSeriesTimeZone,
+  RECURRENCE_SCOPES,
+} from '@/lib/event-recurrence'
+import {
+  formatIcsCalendar,
+  parseIcsCalendar,
+  type IcsEvent,
+  type IcsSkippedItem,
+} from '@/lib/ical'
+import {
+  getEventInterval,
+  getFreeBusy,
+  intervalsOverlap,
+} from '@/lib/free-busy'
+import { comparePlannedToActual } from '@/lib/planned-vs-actual'
+import { copyEventReminders, rescheduleEventReminders } from './reminder'
+import { recurrenceRuleInput } from './task'
+import { findOwnCalendar, resolveCalendar } from './calendar'
+import { getUserTimeZone, getUserWorkingHours, workingHoursInput } from './user'
 
-const eventInput = z
-  .object({
-    title: z.string().min(1, 'Title is required'),
-    description: z.string().optional(),
-    startsAt: z.date(),
-    endsAt: z.date(),
+const eventFields = z.object({
+  title: z.string().min(1, 'Title is required'),
+  description: z.string().optional(),
+  startsAt: z.date(),
+  endsAt: z.date(),
+  allDay: z.boolean(),
+  color: z.string(),
+  location: z.string().optional(),
+  recurrenceRule: recurrenceRuleInput.nullable().optional(),
+  calendarId: z.string(),
+})
+
+// Without a calendar, events go in the default one. Without a color, they
+// take their calendar's.
+const eventInput = eventFields
+  .extend({
     allDay: z.boolean().default(false),
-    color: z.string().default('#3b82f6'),
-    location: z.string().optional(),
+    color: z.string().optional(),
+    calendarId: z.string().optional(),
   })
   .refine((data) => data.endsAt > data.startsAt, {
     message: 'End time must be after start time',
     path: ['endsAt'],
   })
 
+// Without the create defaults, so fields an update leaves out stay as they are
+const eventUpdateInput = eventFields.partial()
+
+type EventUpdate = z.infer<typeof eventUpdateInput>
+
+const dateRangeInput = z.object({
+  start: z.date(),
+  end: z.date(),
+})
+
+// All-day events are stored on UTC days, which can be up to a day off the
+// user's days, so lookups by time widen their range by that much
+export function widenForAllDay(range: { start: Date; end: Date }) {
+  return {
+    start: subDays(range.start, 1),
+    end: addDays(range.end, 1),
+  }
+}
+
+// Keeps free/busy lookups to what a calendar view or planner needs
+const MAX_FREE_BUSY_DAYS = 62
+
+// Contents of an .ics file to import
+const icsImportInput = z.object({
+  content: z.string().max(2_000_000, 'The file is too large to import'),
+  // The calendar to import into, the default one if left out
+  calendarId: z.string().optional(),
+})
+
+// Everything, or only the events in a range or a calendar
+const icsExportInput = z
+  .object({
+    start: z.date().optional(),
+    end: z.date().optional(),
+    calendarId: z.string().optional(),
+  })
+  .refine((data) => !data.start === !data.end, {
+    message: 'Give both ends of the range, or neither',
+    path: ['end'],
+  })
+  .optional()
+
+// Events that were never imported get a UID made from their id
+const ICS_UID_SUFFIX = '@mindline'
+
+function getIcsUid(event: { id: string; icalUid: string | null }) {
+  return event.icalUid ?? `${event.id}${ICS_UID_SUFFIX}`
+}
+
+// Which occurrences of a recurring event to change, identified by the
+// start the series gives the one that was picked
+const occurrenceInput = {
+  scope: z.enum(RECURRENCE_SCOPES).default('all'),
+  occurrenceStart: z.date().optional(),
+}
+
+async function findOwnEvent(
+  prisma: Prisma.TransactionClient,
+  userId: string,
+  id: string
+) {
+  const event = await prisma.calendarEvent.findFirst({
+    where: { id, userId, deletedAt: null },
+  })
+
+  if (!event) {
+    throw new Error('Event not found')
+  }
+
+  return event
+}
+
+// Resolves the occurrence of a series that an edit or delete was made on.
+// Occurrences edited before are rows of their own that remember their slot.
+async function resolveOccurrence(
+  prisma: Prisma.TransactionClient,
+  userId: string,
+  event: CalendarEvent,
+  occurrenceStart: Date | undefined
+) {
+  const series = event.recurringEventId
+    ? await findOwnEvent(prisma, userId, event.recurringEventId)
+    : event
+  if (!series.recurrenceRule) {
+    return null
+  }
+
+  const start = event.originalStartsAt ?? occurrenceStart ?? series.startsAt
+  const timeZone = getSeriesTimeZone(
+    series,
+    await getUserTimeZone(prisma, userId)
+  )
+  const rule = parseRecurrenceRule(series.recurrenceRule, timeZone)
+  const occurrence = findEventOccurrence(
+    { startsAt: series.startsAt, endsAt: series.endsAt, rule },
+    start,
+    timeZone
+  )
+
+  if (!occurrence) {
+    throw new Error('Occurrence not found')
+  }
+
+  return { series, rule, occurrence }
+}
+
+// Moves excluded dates and edited occurrences along with their series
+async function shiftOccurrenceSlots(
+  prisma: Prisma.TransactionClient,
+  series: { id: string; excludedDates: Date[] },
+  target: { id: string; from?: Date },
+  delta: number
+) {
+  if (target.id === series.id && delta === 0) {
+    return series.excludedDates
+  }
+
+  const overrides = await prisma.calendarEvent.findMany({
+    where: {
+      recurringEventId: series.id,
+      ...(target.from && { originalStartsAt: { gte: target.from } }),
+    },
+    select: { id: true, originalStartsAt: true },
+  })
+
+  await Promise.all(
+    overrides.map((override) =>
+      prisma.calendarEvent.update({
+        where: { id: override.id },
+        data: {
+          recurringEventId: target.id,
+          originalStartsAt: new Date(
+            override.originalStartsAt!.getTime() + delta
+          ),
+        },
+      })
+    )
+  )
+
+  return series.excludedDates
+    .filter((date) => !target.from || date >= target.from)
+    .map((date) => new Date(date.getTime() + delta))
+}
+
+// Edited occurrences follow their series into another calendar
+async function moveOverridesToCalendar(
+  prisma: Prisma.TransactionClient,
+  seriesId: string,
+  calendarId: string | undefined
+) {
+  if (!calendarId) return
+  await prisma.calendarEvent.updateMany({
+    where: { recurringEventId: seriesId },
+    data: { calendarId },
+  })
+}
+
+async function updateEvent(
+  prisma: Prisma.TransactionClient,
+  userId: string,
+  id: string,
+  data: Prisma.CalendarEventUncheckedUpdateInput
+) {
+  const event = await prisma.calendarEvent.update({
+    where: { id, userId, deletedAt: null },
+    data,
+  })
+
+  if (
+    data.startsAt ||
+    data.recurrenceRule !== undefined ||
+    data.excludedDates
+  ) {
+    await rescheduleEventReminders(prisma, userId, event.id)
+  }
+
+  return event
+}
+
+// The new start and end of an occurrence after an edit
+function editedTimes(
+  occurrence: { start: Date; end: Date },
+  data: EventUpdate
+) {
+  const startsAt = data.startsAt ?? occurrence.start
+  const endsAt = data.endsAt ?? occurrence.end
+  if (endsAt <= startsAt) {
+    throw new Error('End time must be after start time')
+  }
+  return { startsAt, endsAt }
+}
+
+/**
+ * Collects a user's events for an .ics file. Recurring events are listed
+ * as one series, followed by their edited occurrences.
+ * @param timeZone The user's timezone, which recurring events repeat in
+ * @param range Only events with an occurrence starting in it, or all
+ * @param calendarId Only events in this calendar, or in all of them
+ */
+export async function getIcsEvents(
+  prisma: Prisma.TransactionClient,
+  userId: string,
+  timeZone: string,
+  range?: { start: Date; end: Date },
+  calendarId?: string
+) {
+  const events = await prisma.calendarEvent.findMany({
+    where: {
+      userId,
+      deletedAt: null,
+      recurringEventId: null,
+      ...(calendarId && { calendarId }),
+      ...(range && { startsAt: { lte: range.end } }),
+    },
+    orderBy: { startsAt: 'asc' },
+  })
+
+  const included = events.filter((event) => {
+    if (!range) return true
+    if (!event.recurrenceRule) return event.startsAt >= range.start
+    const rule = parseRecurrenceRule(
+      event.recurrenceRule,
+      getSeriesTimeZone(event, timeZone)
+    )
+    return (
+      getEventOccurrences(
+        { ...event, rule },
+        range,
+        getSeriesTimeZone(event, timeZone)
+      ).length > 0
+    )
+  })
+
+  const seriesIds = included
+    .filter((event) => event.recurrenceRule)
+    .map((event) => event.id)
+  const overrides = seriesIds.length
+    ? await prisma.calendarEvent.findMany({
+        where: { userId, deletedAt: null, recurringEventId: { in: seriesIds } },
+        orderBy: { startsAt: 'asc' },
+      })
+    : []
+
+  return included.flatMap((event): IcsEvent[] => [
+    { ...event, uid: getIcsUid(event) },
+    ...overrides
+      .filter((override) => override.recurringEventId === event.id)
+      .map((override) => ({
+        ...override,
+        uid: getIcsUid(event),
+        recurrenceId: override.originalStartsAt,
+      })),
+  ])
+}
+
+// Reads an .ics file and works out which of its events to import. Events
+// already in the calendar (by UID, including ones exported from it) and
+// edited occurrences whose series isn't imported along with them are
+// reported as skipped.
+async function planIcsImport(
+  prisma: Prisma.TransactionClient,
+  userId: string,
+  content: string
+) {
+  const timeZone = await getUserTimeZone(prisma, userId)
+  const parsed = parseIcsCalendar(content, timeZone)
+  const skipped: IcsSkippedItem[] = [...parsed.skipped]
+
+  const uids = [...new Set(parsed.events.flatMap((event) => event.uid ?? []))]
+  const existing = uids.length
+    ? await prisma.calendarEvent.findMany({
+        where: {
+          userId,
+          deletedAt: null,
+          OR: [
+            { icalUid: { in: uids } },
+            {
+              id: {
+                in: uids
+                  .filter((uid) => uid.endsWith(ICS_UID_SUFFIX))
+                  .map((uid) => uid.slice(0, -ICS_UID_SUFFIX.length)),
+              },
+            },
+          ],
+        },
+        select: { id: true, icalUid: true },
+      })
+    : []
+  const existingUids = new Set(existing.map(getIcsUid))
+  const skip = (event: IcsEvent, reason: string) =>
+    skipped.push({ uid: event.uid, title: event.title, reason })
+
+  const events: IcsEvent[] = []
+  for (const event of parsed.events) {
+    if (event.uid && existingUids.has(event.uid)) {
+      skip(event, 'Already in your calendar')
+    } else if (!event.recurrenceId) {
+      events.push(event)
+    }
+  }
+
+  for (const override of parsed.events) {
+    if (!override.recurrenceId || existingUids.has(override.uid ?? '')) {
+      continue
+    }
+    const series = events.find(
+      (event) => event.recurrenceRule && event.uid === override.uid
+    )
+    if (!series) {
+      skip(override, 'The repeating event it belongs to is not in the file')
+      continue
+    }
+
+    const occurrence = findEventOccurrence(
+      {
+        ...series,
+        rule: parseRecurrenceRule(
+          series.recurrenceRule!,
+          getSeriesTimeZone(series, timeZone)
+        ),
+      },
+      override.recurrenceId,
+      getSeriesTimeZone(series, timeZone)
+    )
+    if (!occurrence) {
+      skip(override, 'It does not match an occurrence of its repeating event')
+      continue
+    }
+    events.push(override)
+  }
+
+  return { events, skipped }
+}
+
+/**
+ * Lists the events that take up time in a range, with recurring events
+ * expanded into one entry per occurrence. Events that start before the
+ * range and run into it are included. Occurrences carry the id of their
+ * series and the start that identifies them in originalStartsAt.
+ * @param options.visibleOnly Leave out events in hidden calendars. Free/busy
+ * and planning count every calendar, so only views showing events set it.
+ */
+export async function getEventsInRange(
+  prisma: Prisma.TransactionClient,
+  userId: string,
+  range: { start: Date; end: Date },
+  timeZone: string,
+  options: { visibleOnly?: boolean } = {}
+) {
+  const calendarFilter: Prisma.CalendarEventWhereInput = options.visibleOnly
+    ? { calendar: { visible: true } }
+    : {}
+  const [events, seriesList] = await Promise.all([
+    prisma.calendarEvent.findMany({
+      where: {
+        userId,
+        deletedAt: null,
+        ...calendarFilter,
+        recurrenceRule: null,
+        startsAt: { lte: range.end },
+        OR: [
+          { startsAt: { gte: range.start } },
+          { endsAt: { gt: range.start } },
+        ],
+      },
+      orderBy: { startsAt: 'asc' },
+    }),
+    prisma.calendarEvent.findMany({
+      where: {
+        userId,
+        deletedAt: null,
+        ...calendarFilter,
+        recurrenceRule: { not: null },
+        startsAt: { lte: range.end },
+      },
+      include: {
+        overrides: {
+          where: { deletedAt: null },
+          select: { originalStartsAt: true },
+        },
+      },
+    }),
+  ])
+
+  const occurrences = seriesList.flatMap(({ overrides, ...series }) => {
+    // Deleted occurrences and edited ones (listed on their own) are skipped
+    const skipped = new Set([
+      ...series.excludedDates.map((date) => date.getTime()),
+      ...overrides.map((override) => override.originalStartsAt!.getTime()),
+    ])
+    const rule = parseRecurrenceRule(
+      series.recurrenceRule!,
+      getSeriesTimeZone(series, timeZone)
+    )
+    // Reaching back by the event's length finds occurrences running into it
+    const duration = series.endsAt.getTime() - series.startsAt.getTime()
+
+    return getEventOccurrences(
+      { ...series, rule },
+      { start: new Date(range.start.getTime() - duration), end: range.end },
+      getSeriesTimeZone(series, timeZone)
+    )
+      .filter(
+        (occurrence) =>
+          (occurrence.start >= range.start || occurrence.end > range.start) &&
+          !skipped.has(occurrence.start.getTime())
+      )
+      .map((occurrence) => ({
+        ...series,
+        startsAt: occurrence.start,
+        endsAt: occurrence.end,
+        originalStartsAt: occurrence.start,
+      }))
+  })
+
+  return [...events, ...occurrences].sort(
+    (a, b) => a.startsAt.getTime() - b.startsAt.getTime()
+  )
+}
+
 export const eventRouter = createTRPCRouter({
   // Alias for consistency with task router
   list: protectedProcedure.query(async ({ ctx }) => {
     return ctx.prisma.calendarEvent.findMany({
-      where: { userId: ctx.session.user.id },
+      where: { userId: ctx.session.user.id, deletedAt: null },
       orderBy: { startsAt: 'asc' },
     })
   }),
 
   getAll: protectedProcedure.query(async ({ ctx }) => {
     return ctx.prisma.calendarEvent.findMany({
-      where: { userId: ctx.session.user.id },
+      where: { userId: ctx.session.user.id, deletedAt: null },
       orderBy: { startsAt: 'asc' },
     })
   }),
 
+  // Events to show in a range, from the calendars that are shown. See
+  // getEventsInRange.
   getByDateRange: protectedProcedure
+    .input(dateRangeInput)
+    .query(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+      const timeZone = await getUserTimeZone(ctx.prisma, userId)
+      return getEventsInRange(ctx.prisma, userId, input, timeZone, {
+        visibleOnly: true,
+      })
+    }),
+
+  // Events in a range together with the time tracked in it, for showing
+  // planned against actual time. Comparisons count everything logged
+  // against an event, even outside the range.
+  getPlannedVsActual: protectedProcedure
+    .input(dateRangeInput)
+    .query(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+      const timeZone = await getUserTimeZone(ctx.prisma, userId)
+      const events = await getEventsInRange(
+        ctx.prisma,
+        userId,
+        input,
+        timeZone,
+        { visibleOnly: true }
+      )
+      const eventIds = [...new Set(events.map((event) => event.id))]
+
+      const [timeEntries, logged] = await Promise.all([
+        ctx.prisma.timeEntry.findMany({
+          where: {
+            userId,
+            start: { lt: input.end },
+            end: { gt: input.start },
+          },
+          orderBy: { start: 'asc' },
+          select: {
+            id: true,
+            start: true,
+            end: true,
+            duration: true,
+            source: true,
+            taskId: true,
+            eventId: true,
+            task: { select: { title: true } },
+            event: { select: { title: true } },
+            tags: { select: { name: true }, orderBy: { name: 'asc' } },
+          },
+        }),
+        ctx.prisma.timeEntry.findMany({
+          where: { userId, eventId: { in: eventIds } },
+          select: { eventId: true, start: true, duration: true },
+        }),
+      ])
+
+      return {
+        events,
+        timeEntries,
+        comparisons: comparePlannedToActual(events, logged, timeZone),
+      }
+    }),
+
+  // Busy time in a range and the open gaps in it within working hours,
+  // which default to the user's own
+  getFreeBusy: protectedProcedure
+    .input(
+      dateRangeInput
+        .extend({ workingHours: workingHoursInput.optional() })
+        .refine(
+          (range) =>
+            range.end.getTime() - range.start.getTime() <=
+            MAX_FREE_BUSY_DAYS * 24 * 60 * 60 * 1000,
+          {
+            message: `Ranges can be at most ${MAX_FREE_BUSY_DAYS} days long`,
+            path: ['end'],
+          }
+        )
+    )
+    .query(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+      const [timeZone, workingHours] = await Promise.all([
+        getUserTimeZone(ctx.prisma, userId),
+        input.workingHours ?? getUserWorkingHours(ctx.prisma, userId),
+      ])
+      const events = await getEventsInRange(
+        ctx.prisma,
+        userId,
+        widenForAllDay(input),
+        timeZone
+      )
+      return getFreeBusy(events, input, workingHours, timeZone)
+    }),
+
+  // Events that overlap a time, for warning about double bookings before
+  // an event is saved. The event being edited, all of its series included,
+  // doesn't count.
+  getConflicts: protectedProcedure
     .input(
       z.object({
-        start: z.date(),
-        end: z.date(),
+        startsAt: z.date(),
+        endsAt: z.date(),
+        allDay: z.boolean().default(false),
+        excludeId: z.string().optional(),
       })
     )
     .query(async ({ ctx, input }) => {
-      return ctx.prisma.calendarEvent.findMany({
-        where: {
-          userId: ctx.session.user.id,
-          startsAt: {
-            gte: input.start,
-            lte: input.end,
-          },
-        },
-        orderBy: { startsAt: 'asc' },
-      })
+      const userId = ctx.session.user.id
+      const timeZone = await getUserTimeZone(ctx.prisma, userId)
+      const interval = getEventInterval(input, timeZone)
+      if (interval.start >= interval.end) {
+        return []
+      }
+
+      const events = await getEventsInRange(
+        ctx.prisma,
+        userId,
+        widenForAllDay(interval),
+        timeZone
+      )
+      return events
+        .filter(
+          (event) =>
+            event.id !== input.excludeId &&
+            event.recurringEventId !== input.excludeId &&
+            intervalsOverlap(getEventInterval(event, timeZone), interval)
+        )
+        .map((event) => ({
+          id: event.id,
+          title: event.title,
+          startsAt: event.startsAt,
+          endsAt: event.endsAt,
+          allDay: event.allDay,
+          color: event.color,
+        }))
     }),
 
   getById: protectedProcedure
@@ -59,6 +633,7 @@ export const eventRouter = createTRPCRouter({
         where: {
           id: input.id,
           userId: ctx.session.user.id,
+          deletedAt: null,
         },
       })
     }),
@@ -66,39 +641,324 @@ export const eventRouter = createTRPCRouter({
   create: protectedProcedure
     .input(eventInput)
     .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+      const calendar = await resolveCalendar(
+        ctx.prisma,
+        userId,
+        input.calendarId
+      )
+
       return ctx.prisma.calendarEvent.create({
         data: {
           ...input,
-          userId: ctx.session.user.id,
+          color: input.color ?? calendar.color,
+          calendarId: calendar.id,
+          userId,
         },
       })
     }),
 
+  // Update an event. For recurring events the scope says whether the edit
+  // applies to the picked occurrence, to it and those after it (which
+  // splits the series in two) or to the whole series.
   update: protectedProcedure
     .input(
       z.object({
         id: z.string(),
-        data: eventInput.partial(),
+        data: eventUpdateInput,
+        ...occurrenceInput,
       })
     )
     .mutation(async ({ ctx, input }) => {
-      return ctx.prisma.calendarEvent.update({
-        where: {
-          id: input.id,
-          userId: ctx.session.user.id,
-        },
-        data: input.data,
+      const userId = ctx.session.user.id
+
+      return ctx.prisma.$transaction(async (tx) => {
+        const event = await findOwnEvent(tx, userId, input.id)
+        if (input.data.calendarId) {
+          await findOwnCalendar(tx, userId, input.data.calendarId)
+        }
+        const { recurrenceRule: newRule, ...fields } = input.data
+        // Edited occurrences can't change the rule of their series
+        const recurrenceRule = event.recurringEventId ? undefined : newRule
+
+        // An occurrence edited before is an event of its own
+        if (event.recurringEventId && input.scope === 'this') {
+          return updateEvent(tx, userId, event.id, fields)
+        }
+
+        const resolved = await resolveOccurrence(
+          tx,
+          userId,
+          event,
+          input.occurrenceStart
+        )
+        if (!resolved) {
+          return updateEvent(tx, userId, event.id, input.data)
+        }
+
+        const { series, rule, occurrence } = resolved
+        const { startsAt, endsAt } = editedTimes(occurrence, input.data)
+        const delta = startsAt.getTime() - occurrence.start.getTime()
+        const scope =
+          input.scope === 'following' && occurrence.index === 0
+            ? 'all'
+            : input.scope
+
+        if (scope === 'this') {
+          const { id, createdAt, updatedAt, excludedDates, ...copy } = series
+          const override = await tx.calendarEvent.create({
+            data: {
+              ...copy,
+              ...fields,
+              startsAt,
+              endsAt,
+              recurrenceRule: null,
+              recurringEventId: series.id,
+              originalStartsAt: occurrence.start,
+            },
+          })
+          // The occurrence's reminders now count from the edited event
+          await copyEventReminders(tx, userId, series.id, override.id)
+          await rescheduleEventReminders(tx, userId, series.id)
+          return override
+        }
+
+        if (scope === 'following') {
+          const { id, createdAt, updatedAt, excludedDates, ...copy } = series
+          // The form sends the rule back unchanged unless it was edited
+          const nextRule =
+            recurrenceRule === undefined ||
+            recurrenceRule === series.recurrenceRule
+              ? formatRecurrenceRule(continueRuleFrom(rule, occurrence))
+              : recurrenceRule
+
+          const next = await tx.calendarEvent.create({
+            data: {
+              ...copy,
+              ...fields,
+              startsAt,
+              endsAt,
+              recurrenceRule: nextRule,
+            },
+          })
+          const movedDates = await shiftOccurrenceSlots(
+            tx,
+            series,
+            { id: next.id, from: occurrence.start },
+            delta
+          )
+          await moveOverridesToCalendar(tx, next.id, fields.calendarId)
+          await tx.calendarEvent.update({
+            where: { id: series.id },
+            data: {
+              recurrenceRule: formatRecurrenceRule(
+                endRuleBefore(rule, occurrence)!
+              ),
+              excludedDates: series.excludedDates.filter(
+                (date) => date < occurrence.start
+              ),
+            },
+          })
+          await rescheduleEventReminders(tx, userId, series.id)
+
+          const updated = await tx.calendarEvent.update({
+            where: { id: next.id },
+            data: { excludedDates: movedDates },
+          })
+          await copyEventReminders(tx, userId, series.id, next.id)
+          return updated
+        }
+
+        // The whole series moves by as much as the picked occurrence did
+        const excludedDates = await shiftOccurrenceSlots(
+          tx,
+          series,
+          { id: series.id },
+          delta
+        )
+        await moveOverridesToCalendar(tx, series.id, fields.calendarId)
+        const seriesStart = new Date(series.startsAt.getTime() + delta)
+        return updateEvent(tx, userId, series.id, {
+          ...fields,
+          ...(recurrenceRule !== undefined && { recurrenceRule }),
+          startsAt: seriesStart,
+          endsAt: new Date(
+            seriesStart.getTime() + (endsAt.getTime() - startsAt.getTime())
+          ),
+          excludedDates,
+        })
       })
     }),
 
+  // Move an event to the trash. Deleting one occurrence of a recurring
+  // event only takes it out of the series, which returns no deletedAt.
   delete: protectedProcedure
-    .input(z.object({ id: z.string() }))
+    .input(z.object({ id: z.string(), ...occurrenceInput }))
     .mutation(async ({ ctx, input }) => {
-      return ctx.prisma.calendarEvent.delete({
-        where: {
-          id: input.id,
-          userId: ctx.session.user.id,
-        },
+      const userId = ctx.session.user.id
+
+      return ctx.prisma.$transaction(async (tx) => {
+        const deletedAt = new Date()
+        const event = await findOwnEvent(tx, userId, input.id)
+        const resolved = await resolveOccurrence(
+          tx,
+          userId,
+          event,
+          input.occurrenceStart
+        )
+
+        if (!resolved) {
+          await tx.calendarEvent.update({
+            where: { id: event.id },
+            data: { deletedAt },
+          })
+          return { id: event.id, deletedAt }
+        }
+
+        const { series, rule, occurrence } = resolved
+        const scope =
+          input.scope === 'following' && occurrence.index === 0
+            ? 'all'
+            : input.scope
+
+        if (scope === 'this') {
+          await tx.calendarEvent.update({
+            where: { id: series.id },
+            data: { excludedDates: { push: occurrence.start } },
+          })
+          await rescheduleEventReminders(tx, userId, series.id)
+          // An edited occurrence goes to the trash, where it can be restored
+          if (event.recurringEventId) {
+            await tx.calendarEvent.update({
+              where: { id: event.id },
+              data: { deletedAt },
+            })
+            return { id: event.id, deletedAt }
+          }
+          return { id: series.id, deletedAt: null }
+        }
+
+        if (scope === 'following') {
+          await tx.calendarEvent.update({
+            where: { id: series.id },
+            data: {
+              recurrenceRule: formatRecurrenceRule(
+                endRuleBefore(rule, occurrence)!
+              ),
+            },
+          })
+          await rescheduleEventReminders(tx, userId, series.id)
+          await tx.calendarEvent.updateMany({
+            where: {
+              recurringEventId: series.id,
+              originalStartsAt: { gte: occurrence.start },
+              deletedAt: null,
+            },
+            data: { deletedAt },
+          })
+          return { id: series.id, deletedAt: null }
+        }
+
+        // Edited occurrences go to the trash with their series
+        await tx.calendarEvent.updateMany({
+          where: {
+            OR: [{ id: series.id }, { recurringEventId: series.id }],
+            userId,
+            deletedAt: null,
+          },
+          data: { deletedAt },
+        })
+        return { id: series.id, deletedAt }
+      })
+    }),
+
+  // The user's events as an .ics file, for a date range or all of them
+  exportIcs: protectedProcedure
+    .input(icsExportInput)
+    .query(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+      const calendar = input?.calendarId
+        ? await findOwnCalendar(ctx.prisma, userId, input.calendarId)
+        : null
+      const range =
+        input?.start && input.end
+          ? { start: input.start, end: input.end }
+          : undefined
+      const timeZone = await getUserTimeZone(ctx.prisma, userId)
+      const events = await getIcsEvents(
+        ctx.prisma,
+        userId,
+        timeZone,
+        range,
+        calendar?.id
+      )
+      return formatIcsCalendar(events, { timeZone, name: calendar?.name })
+    }),
+
+  // What importing an .ics file would add, for confirming before it does
+  previewIcsImport: protectedProcedure
+    .input(icsImportInput)
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+      if (input.calendarId) {
+        await findOwnCalendar(ctx.prisma, userId, input.calendarId)
+      }
+      return planIcsImport(ctx.prisma, userId, input.content)
+    }),
+
+  // Import the events of an .ics file
+  importIcs: protectedProcedure
+    .input(icsImportInput)
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+
+      return ctx.prisma.$transaction(async (tx) => {
+        const calendar = await resolveCalendar(tx, userId, input.calendarId)
+        const { events, skipped } = await planIcsImport(
+          tx,
+          userId,
+          input.content
+        )
+        const toData = ({
+          uid,
+          recurrenceId,
+          excludedDates,
+          color,
+          updatedAt,
+          ...event
+        }: IcsEvent) => ({
+          ...event,
+          color: color ?? calendar.color,
+          excludedDates: excludedDates ?? [],
+          icalUid: recurrenceId ? null : uid,
+          calendarId: calendar.id,
+          userId,
+        })
+
+        // Series first, so edited occurrences can point at them
+        const created = await tx.calendarEvent.createManyAndReturn({
+          data: events.filter((event) => !event.recurrenceId).map(toData),
+          select: { id: true, icalUid: true, recurrenceRule: true },
+        })
+        const overrides = events.flatMap((event) => {
+          const series = created.find(
+            (entry) => entry.recurrenceRule && entry.icalUid === event.uid
+          )
+          return event.recurrenceId && series
+            ? [
+                {
+                  ...toData(event),
+                  recurringEventId: series.id,
+                  originalStartsAt: event.recurrenceId,
+                },
+              ]
+            : []
+        })
+        if (overrides.length > 0) {
+          await tx.calendarEvent.createMany({ data: overrides })
+        }
+
+        return { imported: created.length + overrides.length, skipped }
       })
     }),
 })
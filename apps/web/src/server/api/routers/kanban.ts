@@ -0,0 +1,212 @@
+import { z } from 'zod'
+import type { KanbanPreference, Prisma } from '@prisma/client'
+import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
+import { MAX_WIP_LIMIT, parseWipLimits } from '@/lib/kanban'
+
+const columnName = z.string().trim().min(1, 'Column name is required').max(40)
+
+const columnColor = z
+  .string()
+  .regex(/^#[0-9a-f]{6}$/i, 'Color must be a hex value like #3b82f6')
+  .transform((color) => color.toLowerCase())
+
+export const kanbanColumnIdInput = z.string().nullable().optional()
+
+// Throws unless the board column belongs to the user, so column ids from
+// the client cannot file tasks under someone else's column
+export async function assertOwnKanbanColumn(
+  prisma: Prisma.TransactionClient,
+  userId: string,
+  columnId: string | null | undefined
+) {
+  if (!columnId) {
+    return
+  }
+
+  const column = await prisma.kanbanColumn.findFirst({
+    where: { id: columnId, userId },
+    select: { id: true },
+  })
+
+  if (!column) {
+    throw new Error('Column not found')
+  }
+}
+
+// Stored limits are plain JSON, so they are checked on the way out
+function withWipLimits(preferences: KanbanPreference) {
+  return { ...preferences, wipLimits: parseWipLimits(preferences.wipLimits) }
+}
+
+export const kanbanRouter = createTRPCRouter({
+  // The user's board settings, created with defaults on first use
+  getPreferences: protectedProcedure.query(async ({ ctx }) => {
+    let preferences = await ctx.prisma.kanbanPreference.findUnique({
+      where: { userId: ctx.session.user.id },
+    })
+
+    if (!preferences) {
+      preferences = await ctx.prisma.kanbanPreference.create({
+        data: { userId: ctx.session.user.id },
+      })
+    }
+
+    return withWipLimits(preferences)
+  }),
+
+  updatePreferences: protectedProcedure
+    .input(
+      z.object({
+        groupBy: z.enum(['STATUS', 'PRIORITY', 'TAG', 'CUSTOM']),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const preferences = await ctx.prisma.kanbanPreference.upsert({
+        where: { userId: ctx.session.user.id },
+        update: input,
+        create: {
+          userId: ctx.session.user.id,
+          ...input,
+        },
+      })
+
+      return withWipLimits(preferences)
+    }),
+
+  // Set or clear the WIP limit of one column, keeping the others
+  setWipLimit: protectedProcedure
+    .input(
+      z.object({
+        columnKey: z.string().min(1).max(100),
+        limit: z.number().int().min(1).max(MAX_WIP_LIMIT).nullable(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.prisma.kanbanPreference.findUnique({
+        where: { userId: ctx.session.user.id },
+        select: { wipLimits: true },
+      })
+
+      const wipLimits = parseWipLimits(existing?.wipLimits)
+      if (input.limit === null) {
+        delete wipLimits[input.columnKey]
+      } else {
+        wipLimits[input.columnKey] = input.limit
+      }
+
+      const preferences = await ctx.prisma.kanbanPreference.upsert({
+        where: { userId: ctx.session.user.id },
+        update: { wipLimits },
+        create: {
+          userId: ctx.session.user.id,
+          wipLimits,
+        },
+      })
+
+      return withWipLimits(preferences)
+    }),
+
+  // The user's own board columns, left to right
+  listColumns: protectedProcedure.query(async ({ ctx }) => {
+    return ctx.prisma.kanbanColumn.findMany({
+      where: { userId: ctx.session.user.id },
+      orderBy: [{ order: 'asc' }, { createdAt: 'asc' }],
+    })
+  }),
+
+  // New columns go on the right
+  createColumn: protectedProcedure
+    .input(
+      z.object({
+        name: columnName,
+        color: columnColor.optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const last = await ctx.prisma.kanbanColumn.findFirst({
+        where: { userId: ctx.session.user.id },
+        orderBy: { order: 'desc' },
+        select: { order: true },
+      })
+
+      return ctx.prisma.kanbanColumn.create({
+        data: {
+          ...input,
+          order: (last?.order ?? -1) + 1,
+          userId: ctx.session.user.id,
+        },
+      })
+    }),
+
+  updateColumn: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        data: z.object({
+          name: columnName.optional(),
+          color: columnColor.optional(),
+        }),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const column = await ctx.prisma.kanbanColumn.findFirst({
+        where: {
+          id: input.id,
+          userId: ctx.session.user.id,
+        },
+      })
+
+      if (!column) {
+        throw new Error('Column not found')
+      }
+
+      return ctx.prisma.kanbanColumn.update({
+        where: { id: column.id },
+        data: input.data,
+      })
+    }),
+
+  // Put the columns in the given order
+  reorderColumns: protectedProcedure
+    .input(z.object({ ids: z.array(z.string()).max(50) }))
+    .mutation(async ({ ctx, input }) => {
+      const columns = await ctx.prisma.kanbanColumn.findMany({
+        where: { id: { in: input.ids }, userId: ctx.session.user.id },
+        select: { id: true },
+      })
+
+      if (columns.length !== new Set(input.ids).size) {
+        throw new Error('Column not found')
+      }
+
+      await ctx.prisma.$transaction(
+        input.ids.map((id, order) =>
+          ctx.prisma.kanbanColumn.update({ where: { id }, data: { order } })
+        )
+      )
+
+      return { success: true }
+    }),
+
+  // Tasks in a deleted column go back to Unsorted
+  deleteColumn: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const column = await ctx.prisma.kanbanColumn.findFirst({
+        where: {
+          id: input.id,
+          userId: ctx.session.user.id,
+        },
+      })
+
+      if (!column) {
+        throw new Error('Column not found')
+      }
+
+      await ctx.prisma.kanbanColumn.delete({
+        where: { id: column.id },
+      })
+
+      return { success: true }
+    }),
+})
@@ -1,34 +1,48 @@
 import { z } from 'zod'
 import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
+import { assertOwnTags, tagIdsInput } from './tag'
+import { assertOwnProject, projectIdInput } from './project'
 
 const noteInput = z.object({
   title: z.string().min(1, 'Title is required'),
   content: z.any(), // TipTap JSON content
-  tags: z.array(z.string()).default([]),
+  tagIds: tagIdsInput.default([]),
+  projectId: projectIdInput,
 })
 
 const noteUpdateInput = z.object({
   title: z.string().min(1, 'Title is required').optional(),
   content: z.any().optional(),
-  tags: z.array(z.string()).optional(),
+  tagIds: tagIdsInput.optional(),
+  projectId: projectIdInput,
 })
 
+const noteTagsSelect = {
+  select: { id: true, name: true, color: true },
+  orderBy: { name: 'asc' },
+} as const
+
+const noteProjectSelect = {
+  select: { id: true, name: true, color: true },
+} as const
+
 export const noteRouter = createTRPCRouter({
   // List notes with pagination and search
   list: protectedProcedure
     .input(
       z.object({
         query: z.string().optional(),
-        tag: z.string().optional(),
+        tagId: z.string().optional(),
+        projectId: z.string().optional(),
         cursor: z.string().optional(),
         limit: z.number().min(1).max(50).default(20),
       })
     )
     .query(async ({ ctx, input }) => {
-      const { query, tag, cursor, limit } = input
+      const { query, tagId, projectId, cursor, limit } = input
       const userId = ctx.session.user.id
 
-      let whereClause: any = { userId }
+      let whereClause: any = { userId, deletedAt: null }
 
       // Add search conditions
       if (query) {
@@ -51,12 +65,16 @@ export const noteRouter = createTRPCRouter({
       }
 
       // Add tag filter
-      if (tag) {
+      if (tagId) {
         whereClause.tags = {
-          array_contains: [tag],
+          some: { id: tagId },
         }
       }
 
+      if (projectId) {
+        whereClause.projectId = projectId
+      }
+
       // Add cursor pagination
       if (cursor) {
         whereClause.id = {
@@ -72,7 +90,8 @@ export const noteRouter = createTRPCRouter({
           id: true,
           title: true,
           content: true,
-          tags: true,
+          tags: noteTagsSelect,
+          project: noteProjectSelect,
           createdAt: true,
           updatedAt: true,
         },
@@ -98,8 +117,11 @@ export const noteRouter = createTRPCRouter({
         where: {
           id: input.id,
           userId: ctx.session.user.id,
+          deletedAt: null,
         },
         include: {
+          tags: noteTagsSelect,
+          project: noteProjectSelect,
           revisions: {
             orderBy: { createdAt: 'desc' },
             take: 5, // Last 5 revisions
@@ -119,6 +141,8 @@ export const noteRouter = createTRPCRouter({
     .input(noteInput)
     .mutation(async ({ ctx, input }) => {
       const userId = ctx.session.user.id
+      await assertOwnTags(ctx.prisma, userId, input.tagIds)
+      await assertOwnProject(ctx.prisma, userId, input.projectId)
 
       // Create note and first revision in a transaction
       const result = await ctx.prisma.$transaction(async (tx: any) => {
@@ -126,9 +150,11 @@ export const noteRouter = createTRPCRouter({
           data: {
             title: input.title,
             content: input.content,
-            tags: input.tags,
+            tags: { connect: input.tagIds.map((id) => ({ id })) },
+            projectId: input.projectId,
             userId,
           },
+          include: { tags: noteTagsSelect, project: noteProjectSelect },
         })
 
         // Create initial revision
@@ -161,6 +187,7 @@ export const noteRouter = createTRPCRouter({
         where: {
           id: input.id,
           userId,
+          deletedAt: null,
         },
       })
 
@@ -168,10 +195,22 @@ export const noteRouter = createTRPCRouter({
         throw new Error('Note not found')
       }
 
+      const { tagIds, ...data } = input.data
+      if (tagIds) {
+        await assertOwnTags(ctx.prisma, userId, tagIds)
+      }
+      await assertOwnProject(ctx.prisma, userId, data.projectId)
+
       const result = await ctx.prisma.$transaction(async (tx: any) => {
         const note = await tx.note.update({
           where: { id: input.id },
-          data: input.data,
+          data: {
+            ...data,
+            ...(tagIds && {
+              tags: { set: tagIds.map((id) => ({ id })) },
+            }),
+          },
+          include: { tags: noteTagsSelect, project: noteProjectSelect },
         })
 
         // Create revision if content changed
@@ -194,7 +233,7 @@ export const noteRouter = createTRPCRouter({
       return result
     }),
 
-  // Delete note
+  // Move a note to the trash
   delete: protectedProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
@@ -205,6 +244,7 @@ export const noteRouter = createTRPCRouter({
         where: {
           id: input.id,
           userId,
+          deletedAt: null,
         },
       })
 
@@ -212,12 +252,14 @@ export const noteRouter = createTRPCRouter({
         throw new Error('Note not found')
       }
 
-      // Delete note (revisions will be cascade deleted)
-      await ctx.prisma.note.delete({
-        where: { id: input.id },
+      // Revisions stay with the note until the trash is purged
+      const deletedAt = new Date()
+      await ctx.prisma.note.update({
+        where: { id: note.id },
+        data: { deletedAt },
       })
 
-      return { success: true }
+      return { id: note.id, deletedAt }
     }),
 
   // Search notes using full-text search
@@ -238,9 +280,10 @@ export const noteRouter = createTRPCRouter({
 
       // Use raw query for PostgreSQL full-text search
       const notes = await ctx.prisma.$queryRaw`
-        SELECT id, title, content, tags, "createdAt", "updatedAt"
+        SELECT id, title, content, "createdAt", "updatedAt"
         FROM notes
         WHERE "user_id" = ${userId}
+          AND "deleted_at" IS NULL
           AND to_tsvector('simple', title || ' ' || content::text) @@ plainto_tsquery('simple', ${searchQuery})
         ORDER BY ts_rank(to_tsvector('simple', title || ' ' || content::text), plainto_tsquery('simple', ${searchQuery})) DESC
         LIMIT ${input.limit}
@@ -248,23 +291,4 @@ export const noteRouter = createTRPCRouter({
 
       return notes
     }),
-
-  // Get all unique tags for the user
-  getTags: protectedProcedure.query(async ({ ctx }) => {
-    const userId = ctx.session.user.id
-
-    const notes = await ctx.prisma.note.findMany({
-      where: { userId },
-      select: { tags: true },
-    })
-
-    // Extract unique tags from all notes
-    const allTags = new Set<string>()
-    notes.forEach((note: any) => {
-      const tags = Array.isArray(note.tags) ? (note.tags as string[]) : []
-      tags.forEach((tag) => allTags.add(tag))
-    })
-
-    return Array.from(allTags).sort()
-  }),
 })
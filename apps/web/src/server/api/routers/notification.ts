@@ -0,0 +1,71 @@
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
+
+export const notificationRouter = createTRPCRouter({
+  // Most recent notifications plus the number still unread
+  list: protectedProcedure
+    .input(
+      z
+        .object({
+          limit: z.number().min(1).max(100).default(20),
+        })
+        .optional()
+    )
+    .query(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+
+      const [notifications, unreadCount] = await Promise.all([
+        ctx.prisma.notification.findMany({
+          where: { userId },
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+          take: input?.limit ?? 20,
+        }),
+        ctx.prisma.notification.count({
+          where: { userId, readAt: null },
+        }),
+      ])
+
+      return { notifications, unreadCount }
+    }),
+
+  markRead: protectedProcedure
+    .input(z.object({ ids: z.array(z.string()).min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.prisma.notification.updateMany({
+        where: {
+          id: { in: input.ids },
+          userId: ctx.session.user.id,
+          readAt: null,
+        },
+        data: { readAt: new Date() },
+      })
+
+      return { success: true }
+    }),
+
+  markAllRead: protectedProcedure.mutation(async ({ ctx }) => {
+    await ctx.prisma.notification.updateMany({
+      where: { userId: ctx.session.user.id, readAt: null },
+      data: { readAt: new Date() },
+    })
+
+    return { success: true }
+  }),
+
+  // Records which notifications a browser has already popped up, so other
+  // tabs and later visits don't show them again
+  markDelivered: protectedProcedure
+    .input(z.object({ ids: z.array(z.string()).min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await ctx.prisma.notification.updateMany({
+        where: {
+          id: { in: input.ids },
+          userId: ctx.session.user.id,
+          deliveredAt: null,
+        },
+        data: { deliveredAt: new Date() },
+      })
+
+      return { delivered: result.count }
+    }),
+})
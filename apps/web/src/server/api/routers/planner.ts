@@ -0,0 +1,45 @@
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
+import { scheduleDayPlan, previewDayPlan } from '@/server/calendar/planner'
+
+// Any moment in the day to plan, on the user's clock
+const planDayInput = z.object({ date: z.date() })
+
+export const plannerRouter = createTRPCRouter({
+  // Where "Plan my day" would put tasks, for confirming before it does
+  preview: protectedProcedure
+    .input(planDayInput)
+    .query(async ({ ctx, input }) => {
+      return previewDayPlan(ctx.prisma, ctx.session.user.id, input.date)
+    }),
+
+  // Plan the day and save the time blocks
+  schedule: protectedProcedure
+    .input(planDayInput)
+    .mutation(async ({ ctx, input }) => {
+      return scheduleDayPlan(ctx.prisma, ctx.session.user.id, input.date)
+    }),
+
+  // Lock a time block so planning again leaves it where it is, or unlock it
+  setLocked: protectedProcedure
+    .input(z.object({ id: z.string(), locked: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      const block = await ctx.prisma.calendarEvent.findFirst({
+        where: {
+          id: input.id,
+          userId: ctx.session.user.id,
+          deletedAt: null,
+          timeBlock: true,
+        },
+      })
+
+      if (!block) {
+        throw new Error('Time block not found')
+      }
+
+      return ctx.prisma.calendarEvent.update({
+        where: { id: block.id },
+        data: { locked: input.locked },
+      })
+    }),
+})
@@ -1,7 +1,10 @@
 import { z } from 'zod'
 import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
 import { TimeSource } from '@prisma/client'
-import { startOfDay, endOfDay, subDays } from 'date-fns'
+import { getDayRangeInZone } from '@/lib/timezone'
+import { projectIdForTask } from './project'
+import { connectLabelTag } from './tag'
+import { getUserTimeZone } from './user'
 
 export const pomodoroRouter = createTRPCRouter({
   getPreferences: protectedProcedure.query(async ({ ctx }) => {
@@ -188,9 +191,18 @@ export const pomodoroRouter = createTRPCRouter({
               start: input.partialWorkStart,
               end: input.partialWorkEnd,
               duration,
-              label: run.label,
+              tags: await connectLabelTag(
+                ctx.prisma,
+                ctx.session.user.id,
+                run.label
+              ),
               taskId: run.taskId,
               eventId: run.eventId,
+              projectId: await projectIdForTask(
+                ctx.prisma,
+                ctx.session.user.id,
+                run.taskId
+              ),
               distractionFree: run.distractionFreeDefault,
               source: TimeSource.POMODORO,
               pomodoroRunId: run.id,
@@ -238,9 +250,18 @@ export const pomodoroRouter = createTRPCRouter({
               start: input.phaseStart,
               end: input.phaseEnd,
               duration,
-              label: run.label,
+              tags: await connectLabelTag(
+                ctx.prisma,
+                ctx.session.user.id,
+                run.label
+              ),
               taskId: run.taskId,
               eventId: run.eventId,
+              projectId: await projectIdForTask(
+                ctx.prisma,
+                ctx.session.user.id,
+                run.taskId
+              ),
               distractionFree: run.distractionFreeDefault,
               source: TimeSource.POMODORO,
               pomodoroRunId: run.id,
@@ -310,6 +331,8 @@ export const pomodoroRouter = createTRPCRouter({
     .query(async ({ ctx, input }) => {
       const from = new Date(input.range.from)
       const to = new Date(input.range.to)
+      const timeZone = await getUserTimeZone(ctx.prisma, ctx.session.user.id)
+      const today = getDayRangeInZone(new Date(), timeZone)
 
       // Get pomodoro completion stats
       const result = await ctx.prisma.$queryRaw<
@@ -342,8 +365,8 @@ export const pomodoroRouter = createTRPCRouter({
         FROM mindline.time_entries
         WHERE user_id = ${ctx.session.user.id}
           AND source = 'POMODORO'
-          AND start >= ${startOfDay(new Date())}
-          AND start <= ${endOfDay(new Date())}
+          AND start >= ${today.start}
+          AND start < ${today.end}
       `
 
       return {
@@ -0,0 +1,249 @@
+import { z } from 'zod'
+import type { Prisma } from '@prisma/client'
+import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
+import { DEFAULT_PROJECT_COLOR } from '@/lib/projects'
+
+const projectStatus = z.enum(['ACTIVE', 'ON_HOLD', 'COMPLETED', 'ARCHIVED'])
+
+// No defaults here, so partial updates leave omitted fields alone
+const projectFields = z.object({
+  name: z.string().trim().min(1, 'Project name is required').max(60),
+  color: z
+    .string()
+    .regex(/^#[0-9a-f]{6}$/i, 'Color must be a hex value like #3b82f6')
+    .transform((color) => color.toLowerCase()),
+  status: projectStatus,
+  deadline: z.date().nullable(),
+})
+
+const projectInput = projectFields.extend({
+  color: projectFields.shape.color.default(DEFAULT_PROJECT_COLOR),
+  status: projectStatus.default('ACTIVE'),
+  deadline: z.date().nullable().optional(),
+})
+
+// null moves an item out of its project, undefined leaves it alone
+export const projectIdInput = z.string().nullable().optional()
+
+// Throws unless the project belongs to the user, so project ids from the
+// client cannot file items under someone else's project
+export async function assertOwnProject(
+  prisma: Prisma.TransactionClient,
+  userId: string,
+  projectId: string | null | undefined
+) {
+  if (!projectId) {
+    return
+  }
+
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, userId },
+    select: { id: true },
+  })
+
+  if (!project) {
+    throw new Error('Project not found')
+  }
+}
+
+// Time logged against a task counts towards the task's project
+export async function projectIdForTask(
+  prisma: Prisma.TransactionClient,
+  userId: string,
+  taskId: string | null | undefined
+) {
+  if (!taskId) {
+    return null
+  }
+
+  const task = await prisma.task.findFirst({
+    where: { id: taskId, userId, deletedAt: null },
+    select: { projectId: true },
+  })
+
+  return task?.projectId ?? null
+}
+
+export const projectRouter = createTRPCRouter({
+  // Get the user's projects with their open task counts
+  list: protectedProcedure
+    .input(
+      z
+        .object({
+          includeArchived: z.boolean().default(false),
+        })
+        .optional()
+    )
+    .query(async ({ ctx, input }) => {
+      return ctx.prisma.project.findMany({
+        where: {
+          userId: ctx.session.user.id,
+          ...(!input?.includeArchived && { status: { not: 'ARCHIVED' } }),
+        },
+        orderBy: [{ name: 'asc' }, { id: 'asc' }],
+        include: {
+          _count: {
+            select: {
+              tasks: { where: { status: 'ACTIVE', deletedAt: null } },
+            },
+          },
+        },
+      })
+    }),
+
+  // Everything filed under a project, plus time spent in the given week
+  // and overall
+  overview: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        week: z.object({
+          from: z.string(),
+          to: z.string(),
+        }),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+
+      const project = await ctx.prisma.project.findFirst({
+        where: { id: input.id, userId },
+      })
+
+      if (!project) {
+        throw new Error('Project not found')
+      }
+
+      const [openTasks, completedTasks, notes, boards, weekTime, totalTime] =
+        await Promise.all([
+          ctx.prisma.task.findMany({
+            where: {
+              userId,
+              projectId: project.id,
+              status: 'ACTIVE',
+              deletedAt: null,
+            },
+            orderBy: [
+              { dueDate: { sort: 'asc', nulls: 'last' } },
+              { order: 'asc' },
+            ],
+            include: {
+              tags: {
+                select: { id: true, name: true, color: true },
+                orderBy: { name: 'asc' },
+              },
+            },
+          }),
+          ctx.prisma.task.count({
+            where: {
+              userId,
+              projectId: project.id,
+              status: 'COMPLETED',
+              deletedAt: null,
+            },
+          }),
+          ctx.prisma.note.findMany({
+            where: { userId, projectId: project.id, deletedAt: null },
+            orderBy: { updatedAt: 'desc' },
+            select: {
+              id: true,
+              title: true,
+              updatedAt: true,
+              tags: {
+                select: { id: true, name: true, color: true },
+                orderBy: { name: 'asc' },
+              },
+            },
+          }),
+          ctx.prisma.board.findMany({
+            where: { userId, projectId: project.id, deletedAt: null },
+            orderBy: { updatedAt: 'desc' },
+            include: { _count: { select: { items: true } } },
+          }),
+          ctx.prisma.timeEntry.aggregate({
+            _sum: { duration: true },
+            where: {
+              userId,
+              projectId: project.id,
+              start: {
+                gte: new Date(input.week.from),
+                lte: new Date(input.week.to),
+              },
+            },
+          }),
+          ctx.prisma.timeEntry.aggregate({
+            _sum: { duration: true },
+            where: { userId, projectId: project.id },
+          }),
+        ])
+
+      return {
+        project,
+        openTasks,
+        completedTaskCount: completedTasks,
+        notes,
+        boards,
+        weekMinutes: (weekTime._sum.duration ?? 0) / 60.0,
+        totalMinutes: (totalTime._sum.duration ?? 0) / 60.0,
+      }
+    }),
+
+  create: protectedProcedure
+    .input(projectInput)
+    .mutation(async ({ ctx, input }) => {
+      return ctx.prisma.project.create({
+        data: {
+          ...input,
+          userId: ctx.session.user.id,
+        },
+      })
+    }),
+
+  update: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        data: projectFields.partial(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const project = await ctx.prisma.project.findFirst({
+        where: {
+          id: input.id,
+          userId: ctx.session.user.id,
+        },
+      })
+
+      if (!project) {
+        throw new Error('Project not found')
+      }
+
+      return ctx.prisma.project.update({
+        where: { id: project.id },
+        data: input.data,
+      })
+    }),
+
+  // Deleting a project keeps its tasks, notes, boards and time entries,
+  // which fall back to having no project
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const project = await ctx.prisma.project.findFirst({
+        where: {
+          id: input.id,
+          userId: ctx.session.user.id,
+        },
+      })
+
+      if (!project) {
+        throw new Error('Project not found')
+      }
+
+      await ctx.prisma.project.delete({
+        where: { id: project.id },
+      })
+
+      return { success: true }
+    }),
+})
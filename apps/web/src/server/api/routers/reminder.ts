@@ -0,0 +1,280 @@
+import { z } from 'zod'
+import { TRPCError } from '@trpc/server'
+import type { Prisma } from '@prisma/client'
+import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
+import {
+  computeReminderTime,
+  nextEventReminder,
+  nextFireAt,
+} from '@/lib/reminders'
+import { getUserTimeZone } from './user'
+
+const reminderRuleInput = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('BEFORE'),
+    offsetMinutes: z
+      .number()
+      .int()
+      .min(0)
+      .max(7 * 24 * 60),
+  }),
+  z.object({ kind: z.literal('MORNING_OF') }),
+  z.object({ kind: z.literal('AT'), remindAt: z.date() }),
+])
+
+// A reminder belongs to exactly one task or calendar event
+const reminderTargetInput = z
+  .object({
+    taskId: z.string().optional(),
+    calendarEventId: z.string().optional(),
+  })
+  .refine((target) => !!target.taskId !== !!target.calendarEventId, {
+    message: 'A reminder needs either a task or an event',
+  })
+
+type ReminderTarget = { taskId: string } | { calendarEventId: string }
+
+// What an event's reminders count from, see nextEventReminder
+export const reminderEventSelect = {
+  startsAt: true,
+  endsAt: true,
+  allDay: true,
+  recurrenceRule: true,
+  excludedDates: true,
+  overrides: {
+    where: { deletedAt: null },
+    select: { originalStartsAt: true },
+  },
+} satisfies Prisma.CalendarEventSelect
+
+// Re-arms the reminders of a task or event after its due date or start
+// moved. Fixed-time reminders do not depend on it and are left alone.
+export async function rescheduleReminders(
+  prisma: Prisma.TransactionClient,
+  userId: string,
+  target: ReminderTarget,
+  anchor: Date | null,
+  now: Date = new Date()
+) {
+  const reminders = await prisma.reminder.findMany({
+    where: { userId, ...target, kind: { not: 'AT' } },
+  })
+  if (reminders.length === 0) return
+
+  const timeZone = await getUserTimeZone(prisma, userId)
+  await Promise.all(
+    reminders.map((reminder) =>
+      prisma.reminder.update({
+        where: { id: reminder.id },
+        data: { fireAt: nextFireAt(reminder, anchor, now, timeZone) },
+      })
+    )
+  )
+}
+
+// Re-arms the reminders of an event after its start moved or, for a
+// repeating event, its rule or its deleted and edited occurrences changed
+export async function rescheduleEventReminders(
+  prisma: Prisma.TransactionClient,
+  userId: string,
+  eventId: string,
+  now: Date = new Date()
+) {
+  const reminders = await prisma.reminder.findMany({
+    where: { userId, calendarEventId: eventId, kind: { not: 'AT' } },
+  })
+  if (reminders.length === 0) return
+
+  const [event, timeZone] = await Promise.all([
+    prisma.calendarEvent.findUniqueOrThrow({
+      where: { id: eventId },
+      select: reminderEventSelect,
+    }),
+    getUserTimeZone(prisma, userId),
+  ])
+  await Promise.all(
+    reminders.map((reminder) =>
+      prisma.reminder.update({
+        where: { id: reminder.id },
+        data: {
+          fireAt:
+            nextEventReminder(reminder, event, now, timeZone)?.fireAt ?? null,
+        },
+      })
+    )
+  )
+}
+
+// Re-arms a user's pending morning reminders after their timezone changed,
+// so they fire in the morning on the new clock
+export async function rescheduleMorningReminders(
+  prisma: Prisma.TransactionClient,
+  userId: string,
+  now: Date = new Date()
+) {
+  const reminders = await prisma.reminder.findMany({
+    where: { userId, kind: 'MORNING_OF', fireAt: { not: null } },
+    include: {
+      task: { select: { dueDate: true } },
+      calendarEvent: { select: reminderEventSelect },
+    },
+  })
+  if (reminders.length === 0) return
+
+  const timeZone = await getUserTimeZone(prisma, userId)
+  await Promise.all(
+    reminders.map(({ task, calendarEvent, ...reminder }) =>
+      prisma.reminder.update({
+        where: { id: reminder.id },
+        data: {
+          fireAt: calendarEvent
+            ? (nextEventReminder(reminder, calendarEvent, now, timeZone)
+                ?.fireAt ?? null)
+            : nextFireAt(reminder, task?.dueDate ?? null, now, timeZone),
+        },
+      })
+    )
+  )
+}
+
+// Gives an occurrence edited into an event of its own the relative
+// reminders of its series. Fixed-time ones stay with the series, so they
+// don't fire twice.
+export async function copyEventReminders(
+  prisma: Prisma.TransactionClient,
+  userId: string,
+  fromEventId: string,
+  toEventId: string,
+  now: Date = new Date()
+) {
+  const reminders = await prisma.reminder.findMany({
+    where: { userId, calendarEventId: fromEventId, kind: { not: 'AT' } },
+    select: { kind: true, offsetMinutes: true },
+  })
+  if (reminders.length === 0) return
+
+  await prisma.reminder.createMany({
+    data: reminders.map(({ kind, offsetMinutes }) => ({
+      kind,
+      offsetMinutes,
+      calendarEventId: toEventId,
+      userId,
+    })),
+  })
+  await rescheduleEventReminders(prisma, userId, toEventId, now)
+}
+
+// Loads the due date, or the event, the reminder counts from, checking the
+// task or event belongs to the user
+async function findAnchor(
+  prisma: Prisma.TransactionClient,
+  userId: string,
+  target: { taskId?: string; calendarEventId?: string }
+) {
+  if (target.taskId) {
+    const task = await prisma.task.findFirst({
+      where: { id: target.taskId, userId, deletedAt: null },
+      select: { dueDate: true },
+    })
+    if (!task) {
+      throw new Error('Task not found')
+    }
+    return { anchor: task.dueDate, event: null }
+  }
+
+  const event = await prisma.calendarEvent.findFirst({
+    where: { id: target.calendarEventId, userId, deletedAt: null },
+    select: reminderEventSelect,
+  })
+  if (!event) {
+    throw new Error('Event not found')
+  }
+  return { anchor: event.startsAt, event }
+}
+
+export const reminderRouter = createTRPCRouter({
+  // Reminders set on a task or event
+  list: protectedProcedure
+    .input(reminderTargetInput)
+    .query(async ({ ctx, input }) => {
+      return ctx.prisma.reminder.findMany({
+        where: {
+          userId: ctx.session.user.id,
+          ...(input.taskId
+            ? { taskId: input.taskId }
+            : { calendarEventId: input.calendarEventId }),
+        },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      })
+    }),
+
+  create: protectedProcedure
+    .input(
+      z.object({
+        target: reminderTargetInput,
+        rule: reminderRuleInput,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+      const { anchor, event } = await findAnchor(
+        ctx.prisma,
+        userId,
+        input.target
+      )
+      // "Morning of" is the morning on the user's clock
+      const timeZone = await getUserTimeZone(ctx.prisma, userId)
+      const rule = input.rule
+
+      if (!computeReminderTime(rule, anchor, timeZone)) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: input.target.taskId
+            ? 'Give the task a due date before adding this reminder'
+            : 'The event has no start time to remind about',
+        })
+      }
+
+      const now = new Date()
+      const fireAt = event
+        ? (nextEventReminder(rule, event, now, timeZone)?.fireAt ?? null)
+        : nextFireAt(rule, anchor, now, timeZone)
+      if (!fireAt) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'That reminder time has already passed',
+        })
+      }
+
+      return ctx.prisma.reminder.create({
+        data: {
+          ...rule,
+          taskId: input.target.taskId,
+          calendarEventId: input.target.calendarEventId,
+          fireAt,
+          userId,
+        },
+      })
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const reminder = await ctx.prisma.reminder.findFirst({
+        where: {
+          id: input.id,
+          userId: ctx.session.user.id,
+        },
+      })
+
+      if (!reminder) {
+        throw new Error('Reminder not found')
+      }
+
+      await ctx.prisma.reminder.delete({
+        where: { id: reminder.id },
+      })
+
+      return { success: true }
+    }),
+})
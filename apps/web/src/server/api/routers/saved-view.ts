@@ -0,0 +1,180 @@
+import { z } from 'zod'
+import { TRPCError } from '@trpc/server'
+import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
+import {
+  compileTaskQuery,
+  queryFiltersField,
+  TaskQueryError,
+} from '@/lib/task-query'
+import { deferredTaskFilter } from '@/lib/task-defer'
+import { getUserTimeZone } from './user'
+
+const savedViewSort = z.enum([
+  'MANUAL',
+  'DUE_DATE',
+  'PRIORITY',
+  'CREATED_AT',
+  'TITLE',
+])
+
+// No defaults here, so partial updates leave omitted fields alone
+const savedViewFields = z.object({
+  name: z.string().min(1, 'View name is required').max(60),
+  query: z.string().max(500),
+  sort: savedViewSort,
+  icon: z.string().max(32),
+})
+
+const savedViewInput = savedViewFields.extend({
+  sort: savedViewSort.default('MANUAL'),
+  icon: z.string().max(32).default('list'),
+})
+
+// Rejects queries that the task search would not accept
+function assertValidQuery(query: string) {
+  try {
+    compileTaskQuery(query)
+  } catch (error) {
+    if (error instanceof TaskQueryError) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: error.message,
+        cause: error,
+      })
+    }
+    throw error
+  }
+}
+
+export const savedViewRouter = createTRPCRouter({
+  // Get all saved views for the current user
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return ctx.prisma.savedView.findMany({
+      where: {
+        userId: ctx.session.user.id,
+      },
+      orderBy: [{ order: 'asc' }, { createdAt: 'asc' }],
+    })
+  }),
+
+  // Count the tasks each view would show. Views without a status filter
+  // only count active tasks, matching what the tasks page shows for them,
+  // and with a project given only its tasks count, as in the scoped list.
+  counts: protectedProcedure
+    .input(z.object({ projectId: z.string().optional() }).optional())
+    .query(async ({ ctx, input }) => {
+      const timeZone = await getUserTimeZone(ctx.prisma, ctx.session.user.id)
+      const views = await ctx.prisma.savedView.findMany({
+        where: {
+          userId: ctx.session.user.id,
+        },
+        select: { id: true, query: true },
+      })
+
+      const countable = views.flatMap((view) => {
+        try {
+          return [{ view, where: compileTaskQuery(view.query, { timeZone }) }]
+        } catch {
+          // A view saved before the query language changed shows no badge
+          return []
+        }
+      })
+
+      // Batched, so every count comes back in one round trip
+      const totals = await ctx.prisma.$transaction(
+        countable.map(({ view, where }) =>
+          ctx.prisma.task.count({
+            where: {
+              userId: ctx.session.user.id,
+              deletedAt: null,
+              ...(input?.projectId && { projectId: input.projectId }),
+              ...(!queryFiltersField(view.query, 'status') && {
+                status: 'ACTIVE',
+              }),
+              // Matches search, which leaves out deferred tasks
+              AND: [where, deferredTaskFilter('hide')],
+            },
+          })
+        )
+      )
+      const counts = new Map(
+        countable.map(({ view }, index) => [view.id, totals[index]])
+      )
+
+      return Object.fromEntries(
+        views.map((view) => [view.id, counts.get(view.id) ?? null])
+      ) as Record<string, number | null>
+    }),
+
+  getById: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const view = await ctx.prisma.savedView.findFirst({
+        where: {
+          id: input.id,
+          userId: ctx.session.user.id,
+        },
+      })
+
+      if (!view) {
+        throw new Error('Saved view not found')
+      }
+
+      return view
+    }),
+
+  // Create a new saved view at the end of the list
+  create: protectedProcedure
+    .input(savedViewInput)
+    .mutation(async ({ ctx, input }) => {
+      assertValidQuery(input.query)
+
+      const lastView = await ctx.prisma.savedView.findFirst({
+        where: { userId: ctx.session.user.id },
+        orderBy: { order: 'desc' },
+        select: { order: true },
+      })
+
+      return ctx.prisma.savedView.create({
+        data: {
+          ...input,
+          order: lastView ? lastView.order + 1 : 0,
+          userId: ctx.session.user.id,
+        },
+      })
+    }),
+
+  // Update a saved view
+  update: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        data: savedViewFields.partial(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (input.data.query !== undefined) {
+        assertValidQuery(input.data.query)
+      }
+
+      return ctx.prisma.savedView.update({
+        where: {
+          id: input.id,
+          userId: ctx.session.user.id,
+        },
+        data: input.data,
+      })
+    }),
+
+  // Delete a saved view
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      return ctx.prisma.savedView.delete({
+        where: {
+          id: input.id,
+          userId: ctx.session.user.id,
+        },
+      })
+    }),
+})
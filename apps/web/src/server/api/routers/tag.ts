@@ -0,0 +1,194 @@
+import { z } from 'zod'
+import { TRPCError } from '@trpc/server'
+import type { Prisma } from '@prisma/client'
+import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
+import { DEFAULT_TAG_COLOR, normalizeTagName } from '@/lib/tags'
+
+const tagName = z
+  .string()
+  .transform(normalizeTagName)
+  .pipe(z.string().min(1, 'Tag name is required').max(40))
+
+const tagColor = z
+  .string()
+  .regex(/^#[0-9a-f]{6}$/i, 'Color must be a hex value like #3b82f6')
+  .transform((color) => color.toLowerCase())
+
+export const tagIdsInput = z.array(z.string()).max(20)
+
+// Throws unless every tag belongs to the user, so tag ids from the client
+// cannot link records to someone else's tags
+export async function assertOwnTags(
+  prisma: Prisma.TransactionClient,
+  userId: string,
+  tagIds: string[]
+) {
+  const uniqueIds = Array.from(new Set(tagIds))
+  if (uniqueIds.length === 0) {
+    return []
+  }
+
+  const tags = await prisma.tag.findMany({
+    where: { id: { in: uniqueIds }, userId },
+    select: { id: true, name: true, color: true },
+  })
+
+  if (tags.length !== uniqueIds.length) {
+    throw new Error('Tag not found')
+  }
+
+  return tags
+}
+
+// The user's tag with this name, ignoring case, or a new one with it
+export async function findOrCreateTag(
+  prisma: Prisma.TransactionClient,
+  userId: string,
+  name: string
+) {
+  const normalized = normalizeTagName(name)
+  const existing = await prisma.tag.findFirst({
+    where: { userId, name: { equals: normalized, mode: 'insensitive' } },
+  })
+
+  return (
+    existing ??
+    prisma.tag.create({
+      data: { name: normalized, userId },
+    })
+  )
+}
+
+// Tags a new time entry with its timer's label, which is what time entry
+// labels became when tags were introduced
+export async function connectLabelTag(
+  prisma: Prisma.TransactionClient,
+  userId: string,
+  label: string | null | undefined
+) {
+  if (!label || !normalizeTagName(label)) return undefined
+  const tag = await findOrCreateTag(prisma, userId, label)
+  return { connect: { id: tag.id } }
+}
+
+// Throws when the user already has a tag with this name, ignoring case
+async function assertNameAvailable(
+  prisma: Prisma.TransactionClient,
+  userId: string,
+  name: string,
+  exceptId?: string
+) {
+  const existing = await prisma.tag.findFirst({
+    where: {
+      userId,
+      name: { equals: name, mode: 'insensitive' },
+      ...(exceptId && { id: { not: exceptId } }),
+    },
+    select: { id: true },
+  })
+
+  if (existing) {
+    throw new TRPCError({
+      code: 'CONFLICT',
+      message: `A tag named "${name}" already exists`,
+    })
+  }
+}
+
+export const tagRouter = createTRPCRouter({
+  // Get all tags with how often each one is used
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return ctx.prisma.tag.findMany({
+      where: {
+        userId: ctx.session.user.id,
+      },
+      orderBy: { name: 'asc' },
+      include: {
+        _count: {
+          select: {
+            tasks: { where: { deletedAt: null } },
+            notes: { where: { deletedAt: null } },
+            timeEntries: true,
+          },
+        },
+      },
+    })
+  }),
+
+  create: protectedProcedure
+    .input(
+      z.object({
+        name: tagName,
+        color: tagColor.default(DEFAULT_TAG_COLOR),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await assertNameAvailable(ctx.prisma, ctx.session.user.id, input.name)
+
+      return ctx.prisma.tag.create({
+        data: {
+          ...input,
+          userId: ctx.session.user.id,
+        },
+      })
+    }),
+
+  update: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        data: z.object({
+          name: tagName.optional(),
+          color: tagColor.optional(),
+        }),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const tag = await ctx.prisma.tag.findFirst({
+        where: {
+          id: input.id,
+          userId: ctx.session.user.id,
+        },
+      })
+
+      if (!tag) {
+        throw new Error('Tag not found')
+      }
+
+      if (input.data.name) {
+        await assertNameAvailable(
+          ctx.prisma,
+          ctx.session.user.id,
+          input.data.name,
+          tag.id
+        )
+      }
+
+      return ctx.prisma.tag.update({
+        where: { id: tag.id },
+        data: input.data,
+      })
+    }),
+
+  // Deleting a tag unlinks it everywhere but leaves the tagged items alone
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const tag = await ctx.prisma.tag.findFirst({
+        where: {
+          id: input.id,
+          userId: ctx.session.user.id,
+        },
+      })
+
+      if (!tag) {
+        throw new Error('Tag not found')
+      }
+
+      await ctx.prisma.tag.delete({
+        where: { id: tag.id },
+      })
+
+      return { success: true }
+    }),
+})
@@ -0,0 +1,163 @@
+import { z } from 'zod'
+import type { Prisma, TaskTemplate } from '@prisma/client'
+import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
+import {
+  getTemplateVariables,
+  toTemplateItems,
+  type TaskTemplateItem,
+} from '@/lib/task-template'
+import { assertOwnTags, tagIdsInput } from './tag'
+import { collectDescendants, taskSortOrders } from './task'
+
+const templateName = z.string().trim().min(1, 'Name is required').max(80)
+
+const templateItemsInput = z
+  .array(
+    z.object({
+      title: z.string().trim().min(1, 'Title is required').max(200),
+      description: z.string().max(5000).nullable().optional(),
+      priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).default('MEDIUM'),
+      dueOffsetDays: z
+        .number()
+        .int()
+        .min(-365)
+        .max(3650)
+        .nullable()
+        .default(null),
+      tagIds: tagIdsInput.default([]),
+      estimateMinutes: z.number().int().min(1).max(10000).nullable().optional(),
+      parentIndex: z.number().int().min(0).nullable().default(null),
+    })
+  )
+  .min(1, 'A template needs at least one task')
+  .max(50)
+  .superRefine((items, ctx) => {
+    items.forEach((item, index) => {
+      if (item.parentIndex !== null && item.parentIndex >= index) {
+        ctx.addIssue({
+          code: 'custom',
+          message: 'A subtask must come after its parent',
+          path: [index, 'parentIndex'],
+        })
+      }
+    })
+  })
+
+// Items are stored as JSON, so the variables are worked out on the way out
+function withItems(template: TaskTemplate) {
+  const items = template.items as unknown as TaskTemplateItem[]
+  return { ...template, items, variables: getTemplateVariables(items) }
+}
+
+export const taskTemplateRouter = createTRPCRouter({
+  // All of the user's templates with the variables each one asks for
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const templates = await ctx.prisma.taskTemplate.findMany({
+      where: { userId: ctx.session.user.id },
+      orderBy: { name: 'asc' },
+    })
+
+    return templates.map(withItems)
+  }),
+
+  create: protectedProcedure
+    .input(
+      z.object({
+        name: templateName,
+        description: z.string().max(500).optional(),
+        items: templateItemsInput,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await assertOwnTags(
+        ctx.prisma,
+        ctx.session.user.id,
+        input.items.flatMap((item) => item.tagIds)
+      )
+
+      const template = await ctx.prisma.taskTemplate.create({
+        data: {
+          ...input,
+          items: input.items as unknown as Prisma.InputJsonArray,
+          userId: ctx.session.user.id,
+        },
+      })
+
+      return withItems(template)
+    }),
+
+  // Save existing tasks and their subtasks as a new template
+  createFromTasks: protectedProcedure
+    .input(
+      z.object({
+        name: templateName,
+        description: z.string().max(500).optional(),
+        taskIds: z.array(z.string()).min(1).max(50),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+      const tasks = await ctx.prisma.task.findMany({
+        where: { id: { in: input.taskIds }, userId, deletedAt: null },
+        orderBy: taskSortOrders.MANUAL,
+        include: { tags: { select: { id: true } } },
+      })
+
+      if (tasks.length !== new Set(input.taskIds).size) {
+        throw new Error('Task not found')
+      }
+
+      const descendants = await collectDescendants(
+        ctx.prisma,
+        userId,
+        tasks.map((task) => task.id)
+      )
+      const subtasks = await ctx.prisma.task.findMany({
+        where: {
+          id: {
+            in: descendants
+              .map((subtask) => subtask.id)
+              .filter((id) => !input.taskIds.includes(id)),
+          },
+          userId,
+          deletedAt: null,
+        },
+        orderBy: taskSortOrders.MANUAL,
+        include: { tags: { select: { id: true } } },
+      })
+
+      const items = toTemplateItems([...tasks, ...subtasks])
+      if (items.length > 50) {
+        throw new Error('A template can hold at most 50 tasks')
+      }
+
+      const template = await ctx.prisma.taskTemplate.create({
+        data: {
+          name: input.name,
+          description: input.description,
+          items: items as unknown as Prisma.InputJsonArray,
+          userId,
+        },
+      })
+
+      return withItems(template)
+    }),
+
+  // Deleting a template leaves the tasks made from it alone
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const { count } = await ctx.prisma.taskTemplate.deleteMany({
+        where: {
+          id: input.id,
+          userId: ctx.session.user.id,
+        },
+      })
+
+      if (count === 0) {
+        throw new Error('Template not found')
+      }
+
+      return { success: true }
+    }),
+})
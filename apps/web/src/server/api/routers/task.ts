@@ -1,5 +1,45 @@
 import { z } from 'zod'
+import { TRPCError } from '@trpc/server'
+import { Prisma } from '@prisma/client'
+import type {
+  PrismaClient,
+  SavedViewSort,
+  Task,
+  TaskActivityAction,
+} from '@prisma/client'
 import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
+import { summarizeSubtasks } from '@/lib/task-tree'
+import {
+  getNextOccurrence,
+  parseRecurrenceRule,
+  validateRecurrenceRule,
+} from '@/lib/recurrence'
+import { parseQuickAdd } from '@/lib/quick-add'
+import { compileTaskQuery, TaskQueryError } from '@/lib/task-query'
+import { diffTaskFields, type TaskFieldChange } from '@/lib/task-activity'
+import { deferredTaskFilter } from '@/lib/task-defer'
+import { rankBetween, spreadRanks } from '@/lib/task-rank'
+import {
+  fillTemplateText,
+  getTemplateDueDate,
+  TaskTemplateError,
+  type TaskTemplateItem,
+} from '@/lib/task-template'
+import { getDayRangeInZone } from '@/lib/timezone'
+import { getTaskCalendarTimes, getTaskDropTimes } from '@/lib/calendar-tasks'
+import { assertOwnTags, findOrCreateTag, tagIdsInput } from './tag'
+import { assertOwnProject, projectIdInput } from './project'
+import { rescheduleReminders } from './reminder'
+import { assertOwnKanbanColumn, kanbanColumnIdInput } from './kanban'
+import { getUserCalendarTaskDrop, getUserTimeZone } from './user'
+import { resolveCalendar } from './calendar'
+
+export const recurrenceRuleInput = z.string().superRefine((value, ctx) => {
+  const error = validateRecurrenceRule(value)
+  if (error) {
+    ctx.addIssue({ code: 'custom', message: error })
+  }
+})
 
 const taskInput = z.object({
   title: z.string().min(1, 'Title is required'),
@@ -7,235 +47,1384 @@ const taskInput = z.object({
   priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).default('MEDIUM'),
   status: z.enum(['ACTIVE', 'COMPLETED', 'ARCHIVED']).default('ACTIVE'),
   dueDate: z.date().optional(),
-  label: z.string().optional(),
+  tagIds: tagIdsInput.optional(),
+  projectId: projectIdInput,
+  deferUntil: z.date().nullable().optional(),
   calendarEventId: z.string().optional(),
+  recurrenceRule: recurrenceRuleInput.nullable().optional(),
+  estimateMinutes: z.number().int().min(1).max(10000).nullable().optional(),
+  kanbanColumnId: kanbanColumnIdInput,
 })
 
+// Without the create defaults, so fields an update leaves out stay as they are
+const taskUpdateInput = taskInput
+  .extend({
+    priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']),
+    status: z.enum(['ACTIVE', 'COMPLETED', 'ARCHIVED']),
+  })
+  .partial()
+
+// Deferred tasks stay out of lists until their date unless asked for
+const deferredInput = z.enum(['hide', 'only', 'include'])
+
 const taskFilterInput = z.object({
   status: z.enum(['ACTIVE', 'COMPLETED', 'ARCHIVED']).optional(),
   priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).optional(),
   overdue: z.boolean().optional(),
   dueToday: z.boolean().optional(),
   upcoming: z.boolean().optional(),
+  tagId: z.string().optional(),
+  projectId: z.string().optional(),
+  deferred: deferredInput.optional(),
 })
 
+// Relations returned with every task
+const taskInclude = {
+  calendarEvent: true,
+  project: { select: { id: true, name: true, color: true } },
+  tags: {
+    select: { id: true, name: true, color: true },
+    orderBy: { name: 'asc' },
+  },
+} satisfies Prisma.TaskInclude
+
+// What the calendar shows of a task
+const calendarTaskSelect = {
+  id: true,
+  title: true,
+  priority: true,
+  dueDate: true,
+  estimateMinutes: true,
+  project: { select: { id: true, name: true, color: true } },
+} satisfies Prisma.TaskSelect
+
+// How many tasks the calendar's unscheduled panel lists
+const UNSCHEDULED_TASK_LIMIT = 100
+
+// Orderings for saved view sorts; id keeps cursor pagination stable
+export const taskSortOrders: Record<
+  SavedViewSort,
+  Prisma.TaskOrderByWithRelationInput[]
+> = {
+  MANUAL: [{ order: 'asc' }, { createdAt: 'desc' }, { id: 'asc' }],
+  DUE_DATE: [
+    { dueDate: { sort: 'asc', nulls: 'last' } },
+    { order: 'asc' },
+    { id: 'asc' },
+  ],
+  PRIORITY: [{ priority: 'desc' }, { order: 'asc' }, { id: 'asc' }],
+  CREATED_AT: [{ createdAt: 'desc' }, { id: 'asc' }],
+  TITLE: [{ title: 'asc' }, { id: 'asc' }],
+}
+
+// What to do with open subtasks when their parent is completed
+const openSubtasksPolicy = z.enum(['cascade', 'block']).default('block')
+
+type TaskClient = Prisma.TransactionClient
+
+// Walks the subtask hierarchy breadth-first below the given tasks. By
+// default only subtasks outside the trash are visited; pass a deletion time
+// to find the ones that were trashed along with their parent.
+export async function collectDescendants(
+  prisma: TaskClient,
+  userId: string,
+  rootIds: string[],
+  deletedAt: Date | null = null
+) {
+  const descendants: { id: string; status: string }[] = []
+  let frontier = rootIds
+
+  while (frontier.length > 0) {
+    const children = await prisma.task.findMany({
+      where: { userId, parentId: { in: frontier }, deletedAt },
+      select: { id: true, status: true },
+    })
+    descendants.push(...children)
+    frontier = children.map((child) => child.id)
+  }
+
+  return descendants
+}
+
+// Returns the IDs of a task and all of its ancestors, nearest first
+async function collectAncestorIds(
+  prisma: TaskClient,
+  userId: string,
+  taskId: string
+) {
+  const ancestorIds: string[] = []
+  let currentId: string | null = taskId
+
+  while (currentId && !ancestorIds.includes(currentId)) {
+    ancestorIds.push(currentId)
+    const current: { parentId: string | null } | null =
+      await prisma.task.findFirst({
+        where: { id: currentId, userId, deletedAt: null },
+        select: { parentId: true },
+      })
+    currentId = current?.parentId ?? null
+  }
+
+  return ancestorIds
+}
+
+// Attaches a direct-children completion rollup and the total tracked
+// time to each task
+async function withTaskRollups<T extends { id: string }>(
+  prisma: TaskClient,
+  userId: string,
+  tasks: T[]
+) {
+  if (tasks.length === 0) {
+    return []
+  }
+
+  const taskIds = tasks.map((task) => task.id)
+  const [groups, tracked] = await Promise.all([
+    prisma.task.groupBy({
+      by: ['parentId', 'status'],
+      where: {
+        userId,
+        parentId: { in: taskIds },
+        deletedAt: null,
+      },
+      _count: { _all: true },
+    }),
+    prisma.timeEntry.groupBy({
+      by: ['taskId'],
+      where: {
+        userId,
+        taskId: { in: taskIds },
+      },
+      _sum: { duration: true },
+    }),
+  ])
+  const progress = summarizeSubtasks(groups)
+  const trackedSeconds = new Map(
+    tracked.map((group) => [group.taskId, group._sum.duration ?? 0])
+  )
+
+  return tasks.map((task) => ({
+    ...task,
+    subtaskProgress: progress.get(task.id) ?? { total: 0, completed: 0 },
+    trackedMinutes: Math.round((trackedSeconds.get(task.id) ?? 0) / 60),
+  }))
+}
+
+// Writes one history entry per task. Writes that changed no tracked field
+// are left out, except creation which is always worth showing.
+async function recordActivity(
+  prisma: TaskClient,
+  userId: string,
+  entries: {
+    taskId: string
+    action: TaskActivityAction
+    changes: TaskFieldChange[]
+  }[]
+) {
+  const data = entries
+    .filter((entry) => entry.action === 'CREATED' || entry.changes.length > 0)
+    .map((entry) => ({
+      ...entry,
+      changes: entry.changes as unknown as Prisma.InputJsonArray,
+      userId,
+    }))
+
+  if (data.length > 0) {
+    await prisma.taskActivity.createMany({ data })
+  }
+}
+
+// Status change entries for subtasks completed along with their parent
+function cascadeActivity(
+  openSubtasks: { id: string }[],
+  action: TaskActivityAction
+) {
+  return openSubtasks.map((subtask) => ({
+    taskId: subtask.id,
+    action,
+    changes: [{ field: 'status' as const, from: 'ACTIVE', to: 'COMPLETED' }],
+  }))
+}
+
+// Creates the next instance of a completed recurring task. The rule moves
+// to the new instance so that reopening the old one cannot fork the series.
+async function createNextOccurrence(
+  prisma: TaskClient,
+  task: Task & { tags: { id: string }[] }
+) {
+  if (!task.recurrenceRule) {
+    return null
+  }
+
+  // Occurrences keep their time of day on the user's clock
+  const timeZone = await getUserTimeZone(prisma, task.userId)
+  const nextDueDate = getNextOccurrence(
+    parseRecurrenceRule(task.recurrenceRule, timeZone),
+    task.dueDate ?? new Date(),
+    task.recurrenceIndex,
+    timeZone
+  )
+
+  await prisma.task.update({
+    where: { id: task.id },
+    data: { recurrenceRule: null },
+  })
+
+  if (!nextDueDate) {
+    return null
+  }
+
+  const nextTask = await prisma.task.create({
+    data: {
+      title: task.title,
+      description: task.description,
+      priority: task.priority,
+      tags: { connect: task.tags.map((tag) => ({ id: tag.id })) },
+      projectId: task.projectId,
+      parentId: task.parentId,
+      order: task.order,
+      dueDate: nextDueDate,
+      recurrenceRule: task.recurrenceRule,
+      recurrenceIndex: task.recurrenceIndex + 1,
+      userId: task.userId,
+    },
+    include: taskInclude,
+  })
+
+  // Reminders follow the series to the next occurrence
+  await prisma.reminder.updateMany({
+    where: { taskId: task.id },
+    data: { taskId: nextTask.id },
+  })
+  await rescheduleReminders(
+    prisma,
+    task.userId,
+    { taskId: nextTask.id },
+    nextDueDate
+  )
+
+  await recordActivity(prisma, task.userId, [
+    {
+      taskId: nextTask.id,
+      action: 'CREATED',
+      changes: diffTaskFields(null, nextTask),
+    },
+  ])
+
+  return nextTask
+}
+
+// Open subtasks below tasks about to be completed, leaving out the ones
+// being completed along with them
+async function collectOpenSubtasks(
+  prisma: TaskClient,
+  userId: string,
+  taskIds: string[]
+) {
+  const descendants = await collectDescendants(prisma, userId, taskIds)
+  return descendants.filter(
+    (subtask) => subtask.status === 'ACTIVE' && !taskIds.includes(subtask.id)
+  )
+}
+
+// What completing tasks does besides setting their status: their open
+// subtasks are completed too and recurring series move on
+async function completeTasks(
+  prisma: TaskClient,
+  tasks: (Task & { tags: { id: string }[] })[],
+  openSubtasks: { id: string }[]
+) {
+  if (openSubtasks.length > 0) {
+    await prisma.task.updateMany({
+      where: { id: { in: openSubtasks.map((subtask) => subtask.id) } },
+      data: { status: 'COMPLETED' },
+    })
+  }
+
+  for (const task of tasks) {
+    await createNextOccurrence(prisma, task)
+  }
+}
+
+// Gives a task a rank between two neighbours, writing only that task. When
+// the neighbours are out of order or too close together, all of the user's
+// tasks outside the trash are renumbered in one statement instead.
+async function placeTask(
+  prisma: PrismaClient,
+  userId: string,
+  taskId: string,
+  neighbours: { beforeId: string | null; afterId: string | null }
+) {
+  const neighbourIds = [neighbours.beforeId, neighbours.afterId].filter(
+    (id): id is string => id !== null
+  )
+  const neighbourTasks = await prisma.task.findMany({
+    where: { id: { in: neighbourIds }, userId, deletedAt: null },
+    select: { id: true, order: true },
+  })
+  const before = neighbourTasks.find((task) => task.id === neighbours.beforeId)
+  const after = neighbourTasks.find((task) => task.id === neighbours.afterId)
+
+  if ((neighbours.beforeId && !before) || (neighbours.afterId && !after)) {
+    throw new Error('Task not found')
+  }
+
+  const order = rankBetween(before?.order ?? null, after?.order ?? null)
+  if (order !== null) {
+    return prisma.task.update({
+      where: { id: taskId },
+      data: { order },
+      include: taskInclude,
+    })
+  }
+
+  // Only reachable with both neighbours, so the task goes right after
+  // `before` in the current order
+  return prisma.$transaction(async (tx) => {
+    const others = await tx.task.findMany({
+      where: { userId, id: { not: taskId }, deletedAt: null },
+      orderBy: taskSortOrders.MANUAL,
+      select: { id: true },
+    })
+    const ids = others.map((task) => task.id)
+    ids.splice(ids.indexOf(before!.id) + 1, 0, taskId)
+
+    const ranks = spreadRanks(ids).map(
+      (rank) => Prisma.sql`(${rank.id}, ${rank.order}::double precision)`
+    )
+    await tx.$executeRaw`
+      UPDATE mindline.tasks AS t
+      SET "order" = ranks.rank
+      FROM (VALUES ${Prisma.join(ranks)}) AS ranks (id, rank)
+      WHERE t.id = ranks.id AND t.user_id = ${userId}
+    `
+
+    return tx.task.findFirstOrThrow({
+      where: { id: taskId },
+      include: taskInclude,
+    })
+  })
+}
+
+// Throws unless the caller explicitly chose to cascade completion
+function assertCanComplete(
+  openSubtasks: { id: string }[],
+  policy: 'cascade' | 'block'
+) {
+  if (openSubtasks.length > 0 && policy === 'block') {
+    throw new TRPCError({
+      code: 'PRECONDITION_FAILED',
+      message: `Task has ${openSubtasks.length} open subtask${
+        openSubtasks.length === 1 ? '' : 's'
+      }`,
+    })
+  }
+}
+
 export const taskRouter = createTRPCRouter({
   // Get all tasks with optional filtering
   list: protectedProcedure
     .input(taskFilterInput.optional())
     .query(async ({ ctx, input }) => {
-      const where: any = { userId: ctx.session.user.id }
+      // Filters are combined with AND so they narrow rather than replace each other
+      const filters: Prisma.TaskWhereInput[] = []
 
       if (input?.status) {
-        where.status = input.status
+        filters.push({ status: input.status })
       }
 
       if (input?.priority) {
-        where.priority = input.priority
+        filters.push({ priority: input.priority })
+      }
+
+      if (input?.overdue) {
+        filters.push({ dueDate: { lt: new Date() }, status: 'ACTIVE' })
       }
 
-      if (input?.overdue) {
-        where.dueDate = {
-          lt: new Date(),
+      if (input?.dueToday) {
+        const timeZone = await getUserTimeZone(ctx.prisma, ctx.session.user.id)
+        const today = getDayRangeInZone(new Date(), timeZone)
+        filters.push({ dueDate: { gte: today.start, lt: today.end } })
+      }
+
+      if (input?.upcoming) {
+        const today = new Date()
+        const nextWeek = new Date(today.getTime() + 7 * 24 * 60 * 60 * 1000)
+        filters.push({
+          dueDate: { gt: today, lte: nextWeek },
+          status: 'ACTIVE',
+        })
+      }
+
+      if (input?.tagId) {
+        filters.push({ tags: { some: { id: input.tagId } } })
+      }
+
+      if (input?.projectId) {
+        filters.push({ projectId: input.projectId })
+      }
+
+      const deferred = input?.deferred ?? 'hide'
+      if (deferred !== 'include') {
+        filters.push(deferredTaskFilter(deferred))
+      }
+
+      const tasks = await ctx.prisma.task.findMany({
+        where: { userId: ctx.session.user.id, deletedAt: null, AND: filters },
+        include: taskInclude,
+        orderBy: [{ order: 'asc' }, { createdAt: 'desc' }],
+      })
+
+      return withTaskRollups(ctx.prisma, ctx.session.user.id, tasks)
+    }),
+
+  // Search tasks with the query language in lib/task-query, one page at a time
+  search: protectedProcedure
+    .input(
+      z.object({
+        query: z.string().max(500).default(''),
+        status: z.enum(['ACTIVE', 'COMPLETED', 'ARCHIVED']).optional(),
+        tagId: z.string().optional(),
+        projectId: z.string().optional(),
+        deferred: deferredInput.default('hide'),
+        sort: z
+          .enum(['MANUAL', 'DUE_DATE', 'PRIORITY', 'CREATED_AT', 'TITLE'])
+          .default('MANUAL'),
+        cursor: z.string().optional(),
+        limit: z.number().min(1).max(100).default(50),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      // "due:today" means the user's today
+      const timeZone = await getUserTimeZone(ctx.prisma, ctx.session.user.id)
+      let queryWhere: Prisma.TaskWhereInput
+      try {
+        queryWhere = compileTaskQuery(input.query, { timeZone })
+      } catch (error) {
+        if (error instanceof TaskQueryError) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: error.message,
+            cause: error,
+          })
+        }
+        throw error
+      }
+
+      const tasks = await ctx.prisma.task.findMany({
+        where: {
+          userId: ctx.session.user.id,
+          deletedAt: null,
+          ...(input.status && { status: input.status }),
+          ...(input.tagId && { tags: { some: { id: input.tagId } } }),
+          ...(input.projectId && { projectId: input.projectId }),
+          AND: [queryWhere, deferredTaskFilter(input.deferred)],
+        },
+        include: taskInclude,
+        orderBy: taskSortOrders[input.sort],
+        take: input.limit + 1,
+        ...(input.cursor && { cursor: { id: input.cursor }, skip: 1 }),
+      })
+
+      let nextCursor: string | undefined = undefined
+      if (tasks.length > input.limit) {
+        tasks.pop()
+        nextCursor = tasks[tasks.length - 1].id
+      }
+
+      return {
+        tasks: await withTaskRollups(ctx.prisma, ctx.session.user.id, tasks),
+        nextCursor,
+      }
+    }),
+
+  // Get task counts for dashboard
+  getCounts: protectedProcedure.query(async ({ ctx }) => {
+    const today = new Date()
+    // "Due today" is the user's calendar day, not the server's
+    const timeZone = await getUserTimeZone(ctx.prisma, ctx.session.user.id)
+    const todayRange = getDayRangeInZone(today, timeZone)
+    const nextWeek = new Date(today.getTime() + 7 * 24 * 60 * 60 * 1000)
+    // Deferred tasks only count once they are back in the inbox
+    const notDeferred = deferredTaskFilter('hide', today)
+
+    const [totalActive, dueToday, overdue, upcoming, scheduled, subtaskGroups] =
+      await Promise.all([
+        ctx.prisma.task.count({
+          where: {
+            userId: ctx.session.user.id,
+            deletedAt: null,
+            status: 'ACTIVE',
+            AND: [notDeferred],
+          },
+        }),
+        ctx.prisma.task.count({
+          where: {
+            userId: ctx.session.user.id,
+            deletedAt: null,
+            status: 'ACTIVE',
+            dueDate: {
+              gte: todayRange.start,
+              lt: todayRange.end,
+            },
+            AND: [notDeferred],
+          },
+        }),
+        ctx.prisma.task.count({
+          where: {
+            userId: ctx.session.user.id,
+            deletedAt: null,
+            status: 'ACTIVE',
+            dueDate: {
+              lt: today,
+            },
+            AND: [notDeferred],
+          },
+        }),
+        ctx.prisma.task.count({
+          where: {
+            userId: ctx.session.user.id,
+            deletedAt: null,
+            status: 'ACTIVE',
+            dueDate: {
+              gt: today,
+              lte: nextWeek,
+            },
+            AND: [notDeferred],
+          },
+        }),
+        ctx.prisma.task.count({
+          where: {
+            userId: ctx.session.user.id,
+            deletedAt: null,
+            AND: [deferredTaskFilter('only', today)],
+          },
+        }),
+        // Rollup of subtasks that still belong to an active parent
+        ctx.prisma.task.groupBy({
+          by: ['status'],
+          where: {
+            userId: ctx.session.user.id,
+            deletedAt: null,
+            status: { in: ['ACTIVE', 'COMPLETED'] },
+            parent: { status: 'ACTIVE', deletedAt: null },
+          },
+          _count: { _all: true },
+        }),
+      ])
+
+    const subtasks = { total: 0, completed: 0 }
+    subtaskGroups.forEach((group) => {
+      subtasks.total += group._count._all
+      if (group.status === 'COMPLETED') {
+        subtasks.completed += group._count._all
+      }
+    })
+
+    return {
+      totalActive,
+      dueToday,
+      overdue,
+      upcoming,
+      scheduled,
+      subtasks,
+    }
+  }),
+
+  getById: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      return ctx.prisma.task.findFirst({
+        where: {
+          id: input.id,
+          userId: ctx.session.user.id,
+          deletedAt: null,
+        },
+        include: taskInclude,
+      })
+    }),
+
+  // Active tasks due in a range, with where they show on the calendar
+  getByDueDateRange: protectedProcedure
+    .input(z.object({ start: z.date(), end: z.date() }))
+    .query(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+      const timeZone = await getUserTimeZone(ctx.prisma, userId)
+      const tasks = await ctx.prisma.task.findMany({
+        where: {
+          userId,
+          deletedAt: null,
+          status: 'ACTIVE',
+          dueDate: { gte: input.start, lte: input.end },
+        },
+        orderBy: [{ dueDate: 'asc' }, { order: 'asc' }, { id: 'asc' }],
+        select: calendarTaskSelect,
+      })
+
+      return tasks.map((task) => ({
+        ...task,
+        ...getTaskCalendarTimes(task.dueDate!, timeZone),
+      }))
+    }),
+
+  // Active tasks that are neither due nor on the calendar, for dragging
+  // onto it. Snoozed tasks wait until their date.
+  getUnscheduled: protectedProcedure.query(async ({ ctx }) => {
+    return ctx.prisma.task.findMany({
+      where: {
+        userId: ctx.session.user.id,
+        deletedAt: null,
+        status: 'ACTIVE',
+        dueDate: null,
+        AND: [
+          deferredTaskFilter('hide'),
+          {
+            OR: [
+              { calendarEventId: null },
+              { calendarEvent: { deletedAt: { not: null } } },
+            ],
+          },
+        ],
+      },
+      orderBy: taskSortOrders.PRIORITY,
+      take: UNSCHEDULED_TASK_LIMIT,
+      select: calendarTaskSelect,
+    })
+  }),
+
+  // Put a task dropped on the calendar there: as an event linked through
+  // calendarEventId, or as its due date, as the user's settings say
+  scheduleOnCalendar: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        // The UTC midnight of the day for all-day drops
+        start: z.date(),
+        allDay: z.boolean(),
+        // For the event, the default calendar if left out
+        calendarId: z.string().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+
+      return ctx.prisma.$transaction(async (tx) => {
+        const before = await tx.task.findFirst({
+          where: { id: input.id, userId, deletedAt: null },
+          include: taskInclude,
+        })
+
+        if (!before) {
+          throw new Error('Task not found')
+        }
+
+        const [timeZone, drop] = await Promise.all([
+          getUserTimeZone(tx, userId),
+          getUserCalendarTaskDrop(tx, userId),
+        ])
+        const times = getTaskDropTimes(before, input, timeZone)
+
+        let data: Prisma.TaskUncheckedUpdateInput
+        if (drop === 'DUE_DATE') {
+          data = { dueDate: times.dueDate }
+        } else {
+          if (before.calendarEvent && !before.calendarEvent.deletedAt) {
+            throw new Error('Task is already on the calendar')
+          }
+          const calendar = await resolveCalendar(tx, userId, input.calendarId)
+          const event = await tx.calendarEvent.create({
+            data: {
+              userId,
+              title: before.title,
+              ...times.event,
+              color: calendar.color,
+              calendarId: calendar.id,
+            },
+          })
+          data = { calendarEventId: event.id }
+        }
+
+        const task = await tx.task.update({
+          where: { id: before.id },
+          data,
+          include: taskInclude,
+        })
+
+        if (drop === 'DUE_DATE') {
+          await rescheduleReminders(
+            tx,
+            userId,
+            { taskId: task.id },
+            task.dueDate
+          )
+        }
+
+        await recordActivity(tx, userId, [
+          {
+            taskId: task.id,
+            action: 'UPDATED',
+            changes: diffTaskFields(before, task),
+          },
+        ])
+
+        return task
+      })
+    }),
+
+  // Move a due task to where it was dragged on the calendar
+  moveOnCalendar: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        // The UTC midnight of the day for all-day drops
+        start: z.date(),
+        allDay: z.boolean(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+
+      return ctx.prisma.$transaction(async (tx) => {
+        const before = await tx.task.findFirst({
+          where: { id: input.id, userId, deletedAt: null },
+          include: taskInclude,
+        })
+
+        if (!before) {
+          throw new Error('Task not found')
+        }
+
+        const timeZone = await getUserTimeZone(tx, userId)
+        const { dueDate } = getTaskDropTimes(before, input, timeZone)
+
+        const task = await tx.task.update({
+          where: { id: before.id },
+          data: { dueDate },
+          include: taskInclude,
+        })
+
+        if (task.dueDate?.getTime() !== before.dueDate?.getTime()) {
+          await rescheduleReminders(
+            tx,
+            userId,
+            { taskId: task.id },
+            task.dueDate
+          )
+        }
+
+        await recordActivity(tx, userId, [
+          {
+            taskId: task.id,
+            action: 'UPDATED',
+            changes: diffTaskFields(before, task),
+          },
+        ])
+
+        return task
+      })
+    }),
+
+  create: protectedProcedure
+    .input(taskInput)
+    .mutation(async ({ ctx, input }) => {
+      const { tagIds = [], ...data } = input
+      await assertOwnTags(ctx.prisma, ctx.session.user.id, tagIds)
+      await assertOwnProject(ctx.prisma, ctx.session.user.id, data.projectId)
+      await assertOwnKanbanColumn(
+        ctx.prisma,
+        ctx.session.user.id,
+        data.kanbanColumnId
+      )
+
+      // Get the max order for the user's tasks
+      const maxOrderTask = await ctx.prisma.task.findFirst({
+        where: { userId: ctx.session.user.id },
+        orderBy: { order: 'desc' },
+        select: { order: true },
+      })
+
+      const nextOrder = maxOrderTask ? maxOrderTask.order + 1 : 1
+
+      return ctx.prisma.$transaction(async (tx) => {
+        const task = await tx.task.create({
+          data: {
+            ...data,
+            tags: { connect: tagIds.map((id) => ({ id })) },
+            order: nextOrder,
+            userId: ctx.session.user.id,
+          },
+          include: taskInclude,
+        })
+
+        await recordActivity(tx, ctx.session.user.id, [
+          {
+            taskId: task.id,
+            action: 'CREATED',
+            changes: diffTaskFields(null, task),
+          },
+        ])
+
+        return task
+      })
+    }),
+
+  // Create every task in a template at once, filling in its {{variables}}
+  // and counting due dates from the start date
+  instantiateTemplate: protectedProcedure
+    .input(
+      z.object({
+        templateId: z.string(),
+        variables: z.record(z.string(), z.string().max(200)).default({}),
+        // Local midnight of the first day, as picked on the client
+        startDate: z.date(),
+        projectId: projectIdInput,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+      const template = await ctx.prisma.taskTemplate.findFirst({
+        where: { id: input.templateId, userId },
+      })
+
+      if (!template) {
+        throw new Error('Template not found')
+      }
+
+      const items = template.items as unknown as TaskTemplateItem[]
+      let filled: { title: string; description: string | null }[]
+      try {
+        filled = items.map((item) => ({
+          title: fillTemplateText(item.title, input.variables),
+          description: item.description
+            ? fillTemplateText(item.description, input.variables)
+            : null,
+        }))
+      } catch (error) {
+        if (error instanceof TaskTemplateError) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: error.message,
+            cause: error,
+          })
+        }
+        throw error
+      }
+
+      await assertOwnProject(ctx.prisma, userId, input.projectId)
+
+      // Tags deleted since the template was saved are skipped
+      const tags = await ctx.prisma.tag.findMany({
+        where: { id: { in: items.flatMap((item) => item.tagIds) }, userId },
+        select: { id: true },
+      })
+      const tagIds = new Set(tags.map((tag) => tag.id))
+
+      const maxOrderTask = await ctx.prisma.task.findFirst({
+        where: { userId },
+        orderBy: { order: 'desc' },
+        select: { order: true },
+      })
+      const nextOrder = maxOrderTask ? maxOrderTask.order + 1 : 1
+
+      return ctx.prisma.$transaction(async (tx) => {
+        const tasks: Prisma.TaskGetPayload<{ include: typeof taskInclude }>[] =
+          []
+
+        for (const [index, item] of items.entries()) {
+          const task = await tx.task.create({
+            data: {
+              ...filled[index],
+              priority: item.priority,
+              dueDate: getTemplateDueDate(input.startDate, item.dueOffsetDays),
+              estimateMinutes: item.estimateMinutes ?? null,
+              projectId: input.projectId ?? null,
+              parentId:
+                item.parentIndex !== null ? tasks[item.parentIndex].id : null,
+              tags: {
+                connect: item.tagIds
+                  .filter((id) => tagIds.has(id))
+                  .map((id) => ({ id })),
+              },
+              order: nextOrder + index,
+              userId,
+            },
+            include: taskInclude,
+          })
+          tasks.push(task)
+        }
+
+        await recordActivity(
+          tx,
+          userId,
+          tasks.map((task) => ({
+            taskId: task.id,
+            action: 'CREATED' as const,
+            changes: diffTaskFields(null, task),
+          }))
+        )
+
+        return tasks
+      })
+    }),
+
+  // Create a task from a natural-language line, e.g. "Pay rent tomorrow 5pm !urgent"
+  quickAdd: protectedProcedure
+    .input(
+      z.object({
+        text: z.string().min(1),
+        // Files the task under the project the task list is scoped to
+        projectId: z.string().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      // Dates are on the user's clock, as the preview shows them
+      const timeZone = await getUserTimeZone(ctx.prisma, ctx.session.user.id)
+      const {
+        input: { tag, ...data },
+      } = parseQuickAdd(input.text, { timeZone })
+
+      if (!data.title) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Quick add needs a task title',
+        })
+      }
+
+      await assertOwnProject(ctx.prisma, ctx.session.user.id, input.projectId)
+
+      const maxOrderTask = await ctx.prisma.task.findFirst({
+        where: { userId: ctx.session.user.id },
+        orderBy: { order: 'desc' },
+        select: { order: true },
+      })
+
+      return ctx.prisma.$transaction(async (tx) => {
+        // #name reuses the user's tag of that name, or starts a new one
+        const quickTag = tag
+          ? await findOrCreateTag(tx, ctx.session.user.id, tag)
+          : null
+        const task = await tx.task.create({
+          data: {
+            ...data,
+            projectId: input.projectId,
+            ...(quickTag && { tags: { connect: { id: quickTag.id } } }),
+            order: maxOrderTask ? maxOrderTask.order + 1 : 1,
+            userId: ctx.session.user.id,
+          },
+          include: taskInclude,
+        })
+
+        await recordActivity(tx, ctx.session.user.id, [
+          {
+            taskId: task.id,
+            action: 'CREATED',
+            changes: diffTaskFields(null, task),
+          },
+        ])
+
+        return task
+      })
+    }),
+
+  // Create a subtask under an existing task
+  createSubtask: protectedProcedure
+    .input(
+      z.object({
+        parentId: z.string(),
+        data: taskInput,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const parent = await ctx.prisma.task.findFirst({
+        where: {
+          id: input.parentId,
+          userId: ctx.session.user.id,
+          deletedAt: null,
+        },
+      })
+
+      if (!parent) {
+        throw new Error('Parent task not found')
+      }
+
+      const { tagIds = [], ...data } = input.data
+      await assertOwnTags(ctx.prisma, ctx.session.user.id, tagIds)
+      await assertOwnProject(ctx.prisma, ctx.session.user.id, data.projectId)
+      await assertOwnKanbanColumn(
+        ctx.prisma,
+        ctx.session.user.id,
+        data.kanbanColumnId
+      )
+
+      // Append after the existing siblings
+      const lastSibling = await ctx.prisma.task.findFirst({
+        where: { userId: ctx.session.user.id, parentId: parent.id },
+        orderBy: { order: 'desc' },
+        select: { order: true },
+      })
+
+      return ctx.prisma.$transaction(async (tx) => {
+        const task = await tx.task.create({
+          data: {
+            ...data,
+            tags: { connect: tagIds.map((id) => ({ id })) },
+            // Subtasks stay in their parent's project unless told otherwise
+            projectId:
+              data.projectId === undefined ? parent.projectId : data.projectId,
+            parentId: parent.id,
+            order: lastSibling ? lastSibling.order + 1 : 1,
+            userId: ctx.session.user.id,
+          },
+          include: taskInclude,
+        })
+
+        await recordActivity(tx, ctx.session.user.id, [
+          {
+            taskId: task.id,
+            action: 'CREATED',
+            changes: diffTaskFields(null, task),
+          },
+        ])
+
+        return task
+      })
+    }),
+
+  update: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        data: taskUpdateInput,
+        // Applies when the update completes the task
+        openSubtasks: openSubtasksPolicy,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const before = await ctx.prisma.task.findFirst({
+        where: {
+          id: input.id,
+          userId: ctx.session.user.id,
+          deletedAt: null,
+        },
+        include: taskInclude,
+      })
+
+      if (!before) {
+        throw new Error('Task not found')
+      }
+
+      const { tagIds, ...data } = input.data
+      if (tagIds) {
+        await assertOwnTags(ctx.prisma, ctx.session.user.id, tagIds)
+      }
+      await assertOwnProject(ctx.prisma, ctx.session.user.id, data.projectId)
+      await assertOwnKanbanColumn(
+        ctx.prisma,
+        ctx.session.user.id,
+        data.kanbanColumnId
+      )
+
+      // Completing through an edit follows the same rules as toggling
+      const completing =
+        data.status === 'COMPLETED' && before.status === 'ACTIVE'
+      const openSubtasks = completing
+        ? await collectOpenSubtasks(ctx.prisma, ctx.session.user.id, [
+            before.id,
+          ])
+        : []
+      assertCanComplete(openSubtasks, input.openSubtasks)
+
+      return ctx.prisma.$transaction(async (tx) => {
+        const task = await tx.task.update({
+          where: {
+            id: input.id,
+            userId: ctx.session.user.id,
+            deletedAt: null,
+          },
+          data: {
+            ...data,
+            ...(tagIds && {
+              tags: { set: tagIds.map((id) => ({ id })) },
+            }),
+            // A new or removed rule starts the series over
+            ...(input.data.recurrenceRule !== undefined && {
+              recurrenceIndex: 0,
+            }),
+          },
+          include: taskInclude,
+        })
+
+        if (task.dueDate?.getTime() !== before.dueDate?.getTime()) {
+          await rescheduleReminders(
+            tx,
+            ctx.session.user.id,
+            { taskId: task.id },
+            task.dueDate
+          )
         }
-        where.status = 'ACTIVE'
-      }
 
-      if (input?.dueToday) {
-        const today = new Date()
-        const startOfDay = new Date(
-          today.getFullYear(),
-          today.getMonth(),
-          today.getDate()
-        )
-        const endOfDay = new Date(
-          today.getFullYear(),
-          today.getMonth(),
-          today.getDate(),
-          23,
-          59,
-          59
-        )
-        where.dueDate = {
-          gte: startOfDay,
-          lte: endOfDay,
+        // After the edit, so the next occurrence follows the saved fields
+        if (completing) {
+          await completeTasks(tx, [task], openSubtasks)
         }
-      }
 
-      if (input?.upcoming) {
-        const today = new Date()
-        const nextWeek = new Date(today.getTime() + 7 * 24 * 60 * 60 * 1000)
-        where.dueDate = {
-          gt: today,
-          lte: nextWeek,
-        }
-        where.status = 'ACTIVE'
-      }
+        await recordActivity(tx, ctx.session.user.id, [
+          {
+            taskId: task.id,
+            action: 'UPDATED',
+            changes: diffTaskFields(before, task),
+          },
+          ...cascadeActivity(openSubtasks, 'UPDATED'),
+        ])
 
-      return ctx.prisma.task.findMany({
-        where,
-        include: {
-          calendarEvent: true,
-        },
-        orderBy: [{ order: 'asc' }, { createdAt: 'desc' }],
+        // The rule moved on to the next occurrence
+        return completing ? { ...task, recurrenceRule: null } : task
       })
     }),
 
-  // Get task counts for dashboard
-  getCounts: protectedProcedure.query(async ({ ctx }) => {
-    const today = new Date()
-    const startOfDay = new Date(
-      today.getFullYear(),
-      today.getMonth(),
-      today.getDate()
-    )
-    const endOfDay = new Date(
-      today.getFullYear(),
-      today.getMonth(),
-      today.getDate(),
-      23,
-      59,
-      59
+  // Move a task between the tasks that should end up just before and
+  // just after it, e.g. after a drag and drop
+  move: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        beforeId: z.string().nullable(),
+        afterId: z.string().nullable(),
+      })
     )
-    const nextWeek = new Date(today.getTime() + 7 * 24 * 60 * 60 * 1000)
-
-    const [totalActive, dueToday, overdue, upcoming] = await Promise.all([
-      ctx.prisma.task.count({
-        where: {
-          userId: ctx.session.user.id,
-          status: 'ACTIVE',
-        },
-      }),
-      ctx.prisma.task.count({
-        where: {
-          userId: ctx.session.user.id,
-          status: 'ACTIVE',
-          dueDate: {
-            gte: startOfDay,
-            lte: endOfDay,
-          },
-        },
-      }),
-      ctx.prisma.task.count({
+    .mutation(async ({ ctx, input }) => {
+      const task = await ctx.prisma.task.findFirst({
         where: {
+          id: input.id,
           userId: ctx.session.user.id,
-          status: 'ACTIVE',
-          dueDate: {
-            lt: today,
-          },
+          deletedAt: null,
         },
-      }),
-      ctx.prisma.task.count({
+        select: { id: true },
+      })
+
+      if (!task) {
+        throw new Error('Task not found')
+      }
+
+      return placeTask(ctx.prisma, ctx.session.user.id, task.id, input)
+    }),
+
+  // Move a subtask to a new position among its siblings
+  moveSubtask: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        index: z.number().int().min(0),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const task = await ctx.prisma.task.findFirst({
         where: {
+          id: input.id,
           userId: ctx.session.user.id,
-          status: 'ACTIVE',
-          dueDate: {
-            gt: today,
-            lte: nextWeek,
-          },
+          deletedAt: null,
         },
-      }),
-    ])
+      })
 
-    return {
-      totalActive,
-      dueToday,
-      overdue,
-      upcoming,
-    }
-  }),
+      if (!task) {
+        throw new Error('Task not found')
+      }
 
-  getById: protectedProcedure
-    .input(z.object({ id: z.string() }))
-    .query(async ({ ctx, input }) => {
-      return ctx.prisma.task.findFirst({
+      if (!task.parentId) {
+        throw new Error('Task is not a subtask')
+      }
+
+      const siblings = await ctx.prisma.task.findMany({
         where: {
-          id: input.id,
           userId: ctx.session.user.id,
+          parentId: task.parentId,
+          deletedAt: null,
+          id: { not: task.id },
         },
-        include: {
-          calendarEvent: true,
-        },
+        orderBy: taskSortOrders.MANUAL,
+        select: { id: true },
+      })
+
+      const index = Math.min(input.index, siblings.length)
+      await placeTask(ctx.prisma, ctx.session.user.id, task.id, {
+        beforeId: siblings[index - 1]?.id ?? null,
+        afterId: siblings[index]?.id ?? null,
       })
+
+      return { success: true }
     }),
 
-  create: protectedProcedure
-    .input(taskInput)
+  // Move a task under a different parent, or to the top level
+  reparent: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        parentId: z.string().nullable(),
+      })
+    )
     .mutation(async ({ ctx, input }) => {
-      // Get the max order for the user's tasks
-      const maxOrderTask = await ctx.prisma.task.findFirst({
-        where: { userId: ctx.session.user.id },
+      const userId = ctx.session.user.id
+
+      const task = await ctx.prisma.task.findFirst({
+        where: { id: input.id, userId, deletedAt: null },
+      })
+
+      if (!task) {
+        throw new Error('Task not found')
+      }
+
+      if (input.parentId) {
+        const parent = await ctx.prisma.task.findFirst({
+          where: { id: input.parentId, userId, deletedAt: null },
+        })
+
+        if (!parent) {
+          throw new Error('Parent task not found')
+        }
+
+        const ancestorIds = await collectAncestorIds(
+          ctx.prisma,
+          userId,
+          parent.id
+        )
+        if (ancestorIds.includes(task.id)) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'A task cannot be moved under its own subtask',
+          })
+        }
+      }
+
+      const lastSibling = await ctx.prisma.task.findFirst({
+        where: { userId, parentId: input.parentId },
         orderBy: { order: 'desc' },
         select: { order: true },
       })
 
-      const nextOrder = maxOrderTask ? maxOrderTask.order + 1 : 1
-
-      return ctx.prisma.task.create({
+      return ctx.prisma.task.update({
+        where: { id: task.id },
         data: {
-          ...input,
-          order: nextOrder,
-          userId: ctx.session.user.id,
-        },
-        include: {
-          calendarEvent: true,
+          parentId: input.parentId,
+          order: lastSibling ? lastSibling.order + 1 : 1,
         },
+        include: taskInclude,
       })
     }),
 
-  update: protectedProcedure
+  // Toggle task status (Active <-> Completed)
+  toggleStatus: protectedProcedure
     .input(
       z.object({
         id: z.string(),
-        data: taskInput.partial(),
+        openSubtasks: openSubtasksPolicy,
       })
     )
     .mutation(async ({ ctx, input }) => {
-      return ctx.prisma.task.update({
+      const task = await ctx.prisma.task.findFirst({
         where: {
           id: input.id,
           userId: ctx.session.user.id,
+          deletedAt: null,
         },
-        data: input.data,
-        include: {
-          calendarEvent: true,
-        },
+        include: { tags: { select: { id: true } } },
+      })
+
+      if (!task) {
+        throw new Error('Task not found')
+      }
+
+      const newStatus = task.status === 'ACTIVE' ? 'COMPLETED' : 'ACTIVE'
+
+      const openSubtasks =
+        newStatus === 'COMPLETED'
+          ? await collectOpenSubtasks(ctx.prisma, ctx.session.user.id, [
+              task.id,
+            ])
+          : []
+      assertCanComplete(openSubtasks, input.openSubtasks)
+
+      return ctx.prisma.$transaction(async (tx) => {
+        if (newStatus === 'COMPLETED') {
+          await completeTasks(tx, [task], openSubtasks)
+        }
+
+        const updated = await tx.task.update({
+          where: { id: input.id },
+          data: { status: newStatus },
+          include: taskInclude,
+        })
+
+        await recordActivity(tx, ctx.session.user.id, [
+          {
+            taskId: task.id,
+            action: 'STATUS_CHANGED',
+            changes: [{ field: 'status', from: task.status, to: newStatus }],
+          },
+          ...cascadeActivity(openSubtasks, 'STATUS_CHANGED'),
+        ])
+
+        return updated
       })
     }),
 
-  // Update task order for drag and drop
-  updateOrder: protectedProcedure
+  // Hide a task from the inbox until the given time, or bring it back now
+  // with null
+  snooze: protectedProcedure
     .input(
       z.object({
-        taskIds: z.array(z.string()),
+        id: z.string(),
+        until: z.date().nullable(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      // Update order for each task
-      const updates = input.taskIds.map((id, index) =>
-        ctx.prisma.task.update({
-          where: {
-            id,
-            userId: ctx.session.user.id,
-          },
-          data: {
-            order: index + 1,
-          },
+      const task = await ctx.prisma.task.findFirst({
+        where: {
+          id: input.id,
+          userId: ctx.session.user.id,
+          deletedAt: null,
+        },
+      })
+
+      if (!task) {
+        throw new Error('Task not found')
+      }
+
+      if (task.status !== 'ACTIVE') {
+        throw new TRPCError({
+          code: 'PRECONDITION_FAILED',
+          message: 'Only active tasks can be snoozed',
         })
-      )
+      }
 
-      await Promise.all(updates)
-      return { success: true }
+      return ctx.prisma.$transaction(async (tx) => {
+        const updated = await tx.task.update({
+          where: { id: task.id },
+          data: { deferUntil: input.until },
+          include: taskInclude,
+        })
+
+        await recordActivity(tx, ctx.session.user.id, [
+          {
+            taskId: task.id,
+            action: 'SNOOZED',
+            changes: diffTaskFields(task, updated),
+          },
+        ])
+
+        return updated
+      })
     }),
 
-  // Toggle task status (Active <-> Completed)
-  toggleStatus: protectedProcedure
+  // Skip the current occurrence of a recurring task
+  skipOccurrence: protectedProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
       const task = await ctx.prisma.task.findFirst({
         where: {
           id: input.id,
           userId: ctx.session.user.id,
+          deletedAt: null,
         },
       })
 
@@ -243,14 +1432,51 @@ export const taskRouter = createTRPCRouter({
         throw new Error('Task not found')
       }
 
-      const newStatus = task.status === 'ACTIVE' ? 'COMPLETED' : 'ACTIVE'
+      if (!task.recurrenceRule) {
+        throw new Error('Task is not recurring')
+      }
+
+      const timeZone = await getUserTimeZone(ctx.prisma, ctx.session.user.id)
+      const nextDueDate = getNextOccurrence(
+        parseRecurrenceRule(task.recurrenceRule, timeZone),
+        task.dueDate ?? new Date(),
+        task.recurrenceIndex,
+        timeZone
+      )
+
+      // Skipping the last occurrence ends the series
+      const updated = await ctx.prisma.task.update({
+        where: { id: task.id },
+        data: nextDueDate
+          ? { dueDate: nextDueDate, recurrenceIndex: task.recurrenceIndex + 1 }
+          : { status: 'ARCHIVED', recurrenceRule: null },
+        include: taskInclude,
+      })
+
+      if (nextDueDate) {
+        await rescheduleReminders(
+          ctx.prisma,
+          ctx.session.user.id,
+          { taskId: task.id },
+          nextDueDate
+        )
+      }
+
+      return updated
+    }),
 
+  // Stop a recurring task from creating further occurrences
+  endSeries: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
       return ctx.prisma.task.update({
-        where: { id: input.id },
-        data: { status: newStatus },
-        include: {
-          calendarEvent: true,
+        where: {
+          id: input.id,
+          userId: ctx.session.user.id,
+          deletedAt: null,
         },
+        data: { recurrenceRule: null, recurrenceIndex: 0 },
+        include: taskInclude,
       })
     }),
 
@@ -258,15 +1484,35 @@ export const taskRouter = createTRPCRouter({
   archive: protectedProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
-      return ctx.prisma.task.update({
+      const before = await ctx.prisma.task.findFirst({
         where: {
           id: input.id,
           userId: ctx.session.user.id,
+          deletedAt: null,
         },
-        data: { status: 'ARCHIVED' },
-        include: {
-          calendarEvent: true,
-        },
+        include: taskInclude,
+      })
+
+      if (!before) {
+        throw new Error('Task not found')
+      }
+
+      return ctx.prisma.$transaction(async (tx) => {
+        const task = await tx.task.update({
+          where: { id: input.id },
+          data: { status: 'ARCHIVED' },
+          include: taskInclude,
+        })
+
+        await recordActivity(tx, ctx.session.user.id, [
+          {
+            taskId: task.id,
+            action: 'ARCHIVED',
+            changes: diffTaskFields(before, task),
+          },
+        ])
+
+        return task
       })
     }),
 
@@ -274,15 +1520,35 @@ export const taskRouter = createTRPCRouter({
   restore: protectedProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
-      return ctx.prisma.task.update({
+      const before = await ctx.prisma.task.findFirst({
         where: {
           id: input.id,
           userId: ctx.session.user.id,
+          deletedAt: null,
         },
-        data: { status: 'ACTIVE' },
-        include: {
-          calendarEvent: true,
-        },
+        include: taskInclude,
+      })
+
+      if (!before) {
+        throw new Error('Task not found')
+      }
+
+      return ctx.prisma.$transaction(async (tx) => {
+        const task = await tx.task.update({
+          where: { id: input.id },
+          data: { status: 'ACTIVE' },
+          include: taskInclude,
+        })
+
+        await recordActivity(tx, ctx.session.user.id, [
+          {
+            taskId: task.id,
+            action: 'RESTORED',
+            changes: diffTaskFields(before, task),
+          },
+        ])
+
+        return task
       })
     }),
 
@@ -294,28 +1560,160 @@ export const taskRouter = createTRPCRouter({
         data: z.object({
           status: z.enum(['ACTIVE', 'COMPLETED', 'ARCHIVED']).optional(),
           priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).optional(),
-          label: z.string().optional(),
+          // Added to each task's existing tags
+          tagIds: tagIdsInput.optional(),
         }),
+        openSubtasks: openSubtasksPolicy,
       })
     )
     .mutation(async ({ ctx, input }) => {
-      return ctx.prisma.task.updateMany({
+      const openSubtasks =
+        input.data.status === 'COMPLETED'
+          ? await collectOpenSubtasks(
+              ctx.prisma,
+              ctx.session.user.id,
+              input.taskIds
+            )
+          : []
+      assertCanComplete(openSubtasks, input.openSubtasks)
+
+      const { tagIds = [], ...fields } = input.data
+      const addedTags = await assertOwnTags(
+        ctx.prisma,
+        ctx.session.user.id,
+        tagIds
+      )
+
+      const tasks = await ctx.prisma.task.findMany({
         where: {
           id: { in: input.taskIds },
           userId: ctx.session.user.id,
+          deletedAt: null,
+        },
+        include: taskInclude,
+      })
+      const completedTasks =
+        input.data.status === 'COMPLETED'
+          ? tasks.filter((task) => task.status === 'ACTIVE')
+          : []
+
+      return ctx.prisma.$transaction(async (tx) => {
+        await completeTasks(tx, completedTasks, openSubtasks)
+
+        const result = await tx.task.updateMany({
+          where: {
+            id: { in: input.taskIds },
+            userId: ctx.session.user.id,
+            deletedAt: null,
+          },
+          data: fields,
+        })
+
+        // updateMany cannot write relations, so tags are added task by task
+        if (addedTags.length > 0) {
+          for (const task of tasks) {
+            await tx.task.update({
+              where: { id: task.id },
+              data: {
+                tags: { connect: addedTags.map((tag) => ({ id: tag.id })) },
+              },
+            })
+          }
+        }
+
+        // One entry per task, so each task's timeline stays complete
+        await recordActivity(tx, ctx.session.user.id, [
+          ...tasks.map((task) => ({
+            taskId: task.id,
+            action: 'BULK_UPDATED' as const,
+            changes: diffTaskFields(task, {
+              ...task,
+              ...fields,
+              ...(addedTags.length > 0 && {
+                tags: [
+                  ...task.tags,
+                  ...addedTags.filter(
+                    (tag) => !task.tags.some((current) => current.id === tag.id)
+                  ),
+                ],
+              }),
+            }),
+          })),
+          ...cascadeActivity(openSubtasks, 'BULK_UPDATED'),
+        ])
+
+        return result
+      })
+    }),
+
+  // Field-level change log for a task, newest first
+  history: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        limit: z.number().int().min(1).max(100).default(50),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const task = await ctx.prisma.task.findFirst({
+        where: {
+          id: input.id,
+          userId: ctx.session.user.id,
+          deletedAt: null,
+        },
+        select: { id: true },
+      })
+
+      if (!task) {
+        throw new Error('Task not found')
+      }
+
+      const activities = await ctx.prisma.taskActivity.findMany({
+        where: { taskId: task.id },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: input.limit,
+        include: {
+          user: {
+            select: { id: true, name: true, email: true },
+          },
         },
-        data: input.data,
       })
+
+      return activities.map((activity) => ({
+        ...activity,
+        changes: activity.changes as unknown as TaskFieldChange[],
+      }))
     }),
 
+  // Move a task and its subtasks to the trash. They share one deletion
+  // time so that restoring the task brings back exactly those subtasks.
   delete: protectedProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
-      return ctx.prisma.task.delete({
+      const userId = ctx.session.user.id
+
+      const task = await ctx.prisma.task.findFirst({
+        where: { id: input.id, userId, deletedAt: null },
+        select: { id: true },
+      })
+
+      if (!task) {
+        throw new Error('Task not found')
+      }
+
+      const descendants = await collectDescendants(ctx.prisma, userId, [
+        task.id,
+      ])
+      const deletedAt = new Date()
+
+      await ctx.prisma.task.updateMany({
         where: {
-          id: input.id,
-          userId: ctx.session.user.id,
+          id: { in: [task.id, ...descendants.map((subtask) => subtask.id)] },
+          userId,
         },
+        data: { deletedAt },
       })
+
+      return { id: task.id, deletedAt }
     }),
 })
@@ -1,7 +1,11 @@
 import { z } from 'zod'
 import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
-import { startOfDay, endOfDay } from 'date-fns'
 import { TimeSource, Prisma } from '@prisma/client'
+import { buildEstimateReport } from '@/lib/estimate-report'
+import { getDayRangeInZone, getZonedDateKey } from '@/lib/timezone'
+import { assertOwnTags, connectLabelTag, tagIdsInput } from './tag'
+import { assertOwnProject, projectIdForTask, projectIdInput } from './project'
+import { getUserTimeZone } from './user'
 
 export const timeRouter = createTRPCRouter({
   startTimer: protectedProcedure
@@ -27,6 +31,7 @@ export const timeRouter = createTRPCRouter({
       z.object({
         start: z.date(),
         end: z.date(),
+        // Filed on the entry as a tag of that name
         label: z.string().optional(),
         taskId: z.string().optional(),
         eventId: z.string().optional(),
@@ -49,9 +54,18 @@ export const timeRouter = createTRPCRouter({
           start: input.start,
           end: input.end,
           duration,
-          label: input.label,
+          tags: await connectLabelTag(
+            ctx.prisma,
+            ctx.session.user.id,
+            input.label
+          ),
           taskId: input.taskId,
           eventId: input.eventId,
+          projectId: await projectIdForTask(
+            ctx.prisma,
+            ctx.session.user.id,
+            input.taskId
+          ),
           distractionFree: input.distractionFree,
           source: TimeSource.STOPWATCH,
         },
@@ -69,6 +83,8 @@ export const timeRouter = createTRPCRouter({
       z.object({
         from: z.string().datetime().optional(),
         to: z.string().datetime().optional(),
+        tagId: z.string().optional(),
+        projectId: z.string().optional(),
         limit: z.number().max(200).default(50),
       })
     )
@@ -77,6 +93,14 @@ export const timeRouter = createTRPCRouter({
         userId: ctx.session.user.id,
       }
 
+      if (input.tagId) {
+        where.tags = { some: { id: input.tagId } }
+      }
+
+      if (input.projectId) {
+        where.projectId = input.projectId
+      }
+
       if (input.from || input.to) {
         where.start = {}
         if (input.from) where.start.gte = new Date(input.from)
@@ -91,6 +115,11 @@ export const timeRouter = createTRPCRouter({
           task: true,
           event: true,
           pomodoroRun: true,
+          project: { select: { id: true, name: true, color: true } },
+          tags: {
+            select: { id: true, name: true, color: true },
+            orderBy: { name: 'asc' },
+          },
         },
       })
 
@@ -98,29 +127,34 @@ export const timeRouter = createTRPCRouter({
     }),
 
   getStreak: protectedProcedure.query(async ({ ctx }) => {
+    // Days are the user's calendar days. Starts are stored as UTC
+    // timestamps, so they are read as UTC before converting to the zone.
+    const timeZone = await getUserTimeZone(ctx.prisma, ctx.session.user.id)
+    const today = getZonedDateKey(new Date(), timeZone)
+
     // Get current streak from view (using parameterized query)
     const streakResult = await ctx.prisma.$queryRaw<
       { current_streak: bigint }[]
     >`
       SELECT COALESCE(COUNT(*), 0) AS current_streak
       FROM (
-        SELECT DISTINCT (start AT TIME ZONE 'UTC')::date AS day
+        SELECT DISTINCT (start AT TIME ZONE 'UTC' AT TIME ZONE ${timeZone})::date AS day
         FROM mindline.time_entries
         WHERE user_id = ${ctx.session.user.id} AND distraction_free = TRUE
         ORDER BY day DESC
       ) AS days
-      WHERE day >= CURRENT_DATE - INTERVAL '1000 days'
+      WHERE day >= ${today}::date - INTERVAL '1000 days'
         AND NOT EXISTS (
           SELECT 1
-          FROM generate_series(CURRENT_DATE - INTERVAL '1000 days', CURRENT_DATE, '1 day') AS d
+          FROM generate_series(${today}::date - INTERVAL '1000 days', ${today}::date, '1 day') AS d
           WHERE d::date > days.day
-            AND d::date <= CURRENT_DATE
+            AND d::date <= ${today}::date
             AND NOT EXISTS (
               SELECT 1
               FROM mindline.time_entries te
               WHERE te.user_id = ${ctx.session.user.id}
                 AND te.distraction_free = TRUE
-                AND (te.start AT TIME ZONE 'UTC')::date = d::date
+                AND (te.start AT TIME ZONE 'UTC' AT TIME ZONE ${timeZone})::date = d::date
             )
         )
     `
@@ -133,7 +167,7 @@ export const timeRouter = createTRPCRouter({
       { max_streak: bigint }[]
     >`
       WITH days AS (
-        SELECT DISTINCT (start AT TIME ZONE 'UTC')::date AS day
+        SELECT DISTINCT (start AT TIME ZONE 'UTC' AT TIME ZONE ${timeZone})::date AS day
         FROM mindline.time_entries
         WHERE user_id = ${ctx.session.user.id} AND distraction_free = TRUE
         ORDER BY day
@@ -215,10 +249,11 @@ export const timeRouter = createTRPCRouter({
     .input(
       z.object({
         id: z.string(),
-        label: z.string().nullable().optional(),
         distractionFree: z.boolean().optional(),
         taskId: z.string().nullable().optional(),
         eventId: z.string().nullable().optional(),
+        tagIds: tagIdsInput.optional(),
+        projectId: projectIdInput,
       })
     )
     .mutation(async ({ ctx, input }) => {
@@ -233,17 +268,30 @@ export const timeRouter = createTRPCRouter({
         throw new Error('Time entry not found')
       }
 
+      if (input.tagIds) {
+        await assertOwnTags(ctx.prisma, ctx.session.user.id, input.tagIds)
+      }
+      await assertOwnProject(ctx.prisma, ctx.session.user.id, input.projectId)
+
       const updated = await ctx.prisma.timeEntry.update({
         where: { id: input.id },
         data: {
-          label: input.label,
           distractionFree: input.distractionFree,
           taskId: input.taskId,
           eventId: input.eventId,
+          projectId: input.projectId,
+          ...(input.tagIds && {
+            tags: { set: input.tagIds.map((id) => ({ id })) },
+          }),
         },
         include: {
           task: true,
           event: true,
+          project: { select: { id: true, name: true, color: true } },
+          tags: {
+            select: { id: true, name: true, color: true },
+            orderBy: { name: 'asc' },
+          },
         },
       })
 
@@ -257,6 +305,7 @@ export const timeRouter = createTRPCRouter({
           from: z.string(),
           to: z.string(),
         }),
+        projectId: z.string().optional(),
       })
     )
     .query(async ({ ctx, input }) => {
@@ -268,6 +317,7 @@ export const timeRouter = createTRPCRouter({
         _sum: { duration: true },
         where: {
           userId: ctx.session.user.id,
+          ...(input.projectId && { projectId: input.projectId }),
           start: {
             gte: from,
             lte: to,
@@ -280,6 +330,7 @@ export const timeRouter = createTRPCRouter({
       const entries = await ctx.prisma.timeEntry.findMany({
         where: {
           userId: ctx.session.user.id,
+          ...(input.projectId && { projectId: input.projectId }),
           start: {
             gte: from,
             lte: to,
@@ -292,14 +343,14 @@ export const timeRouter = createTRPCRouter({
         orderBy: { start: 'asc' },
       })
 
-      // Group by day (UTC) and aggregate
+      // Group by the user's calendar day and aggregate
+      const timeZone = await getUserTimeZone(ctx.prisma, ctx.session.user.id)
       const dailyMap = new Map<
         string,
         { total_minutes: number; session_count: number }
       >()
       entries.forEach((entry: { start: Date; duration: number }) => {
-        // Convert start to UTC date string (YYYY-MM-DD)
-        const day = entry.start.toISOString().slice(0, 10)
+        const day = getZonedDateKey(entry.start, timeZone)
         if (!dailyMap.has(day)) {
           dailyMap.set(day, { total_minutes: 0, session_count: 0 })
         }
@@ -320,24 +371,26 @@ export const timeRouter = createTRPCRouter({
       }
     }),
 
-  getTodayTotal: protectedProcedure.query(async ({ ctx }) => {
-    const today = new Date()
-    const from = startOfDay(today)
-    const to = endOfDay(today)
+  getTodayTotal: protectedProcedure
+    .input(z.object({ projectId: z.string().optional() }).optional())
+    .query(async ({ ctx, input }) => {
+      const timeZone = await getUserTimeZone(ctx.prisma, ctx.session.user.id)
+      const today = getDayRangeInZone(new Date(), timeZone)
 
-    const result = await ctx.prisma.timeEntry.aggregate({
-      _sum: { duration: true },
-      where: {
-        userId: ctx.session.user.id,
-        start: {
-          gte: from,
-          lte: to,
+      const result = await ctx.prisma.timeEntry.aggregate({
+        _sum: { duration: true },
+        where: {
+          userId: ctx.session.user.id,
+          ...(input?.projectId && { projectId: input.projectId }),
+          start: {
+            gte: today.start,
+            lt: today.end,
+          },
         },
-      },
-    })
+      })
 
-    return (result._sum.duration ?? 0) / 60.0
-  }),
+      return (result._sum.duration ?? 0) / 60.0
+    }),
 
   getPomodoroSummary: protectedProcedure
     .input(
@@ -346,18 +399,23 @@ export const timeRouter = createTRPCRouter({
           from: z.string(),
           to: z.string(),
         }),
+        projectId: z.string().optional(),
       })
     )
     .query(async ({ ctx, input }) => {
       const from = new Date(input.range.from)
       const to = new Date(input.range.to)
 
+      const timeZone = await getUserTimeZone(ctx.prisma, ctx.session.user.id)
+      const today = getDayRangeInZone(new Date(), timeZone)
+
       // Get pomodoro stats using Prisma aggregate
       const pomodoroResult = await ctx.prisma.timeEntry.aggregate({
         _count: { id: true },
         _sum: { duration: true },
         where: {
           userId: ctx.session.user.id,
+          ...(input.projectId && { projectId: input.projectId }),
           source: TimeSource.POMODORO,
           start: {
             gte: from,
@@ -371,10 +429,11 @@ export const timeRouter = createTRPCRouter({
         _sum: { duration: true },
         where: {
           userId: ctx.session.user.id,
+          ...(input.projectId && { projectId: input.projectId }),
           source: TimeSource.POMODORO,
           start: {
-            gte: startOfDay(new Date()),
-            lte: endOfDay(new Date()),
+            gte: today.start,
+            lt: today.end,
           },
         },
       })
@@ -387,6 +446,65 @@ export const timeRouter = createTRPCRouter({
       }
     }),
 
+  // Compare task estimates with tracked time for tasks worked on in the
+  // range. Actual minutes include all of a task's entries, since the
+  // estimate covers the whole task.
+  getEstimateReport: protectedProcedure
+    .input(
+      z.object({
+        range: z.object({
+          from: z.string(),
+          to: z.string(),
+        }),
+        projectId: z.string().optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const worked = await ctx.prisma.timeEntry.findMany({
+        where: {
+          userId: ctx.session.user.id,
+          taskId: { not: null },
+          ...(input.projectId && { projectId: input.projectId }),
+          start: {
+            gte: new Date(input.range.from),
+            lte: new Date(input.range.to),
+          },
+        },
+        select: { taskId: true },
+        distinct: ['taskId'],
+      })
+      const taskIds = worked.map((entry) => entry.taskId!)
+
+      const [tasks, entries, timeZone] = await Promise.all([
+        ctx.prisma.task.findMany({
+          where: {
+            id: { in: taskIds },
+            userId: ctx.session.user.id,
+            deletedAt: null,
+          },
+          select: {
+            id: true,
+            title: true,
+            tags: { select: { id: true, name: true, color: true } },
+            status: true,
+            estimateMinutes: true,
+          },
+        }),
+        ctx.prisma.timeEntry.findMany({
+          where: { userId: ctx.session.user.id, taskId: { in: taskIds } },
+          select: { taskId: true, start: true, duration: true },
+        }),
+        // Weeks start on the user's Monday
+        getUserTimeZone(ctx.prisma, ctx.session.user.id),
+      ])
+
+      return buildEstimateReport(
+        tasks,
+        entries.map((entry) => ({ ...entry, taskId: entry.taskId! })),
+        timeZone
+      )
+    }),
+
   // Timer-specific procedures
   saveTimerSession: protectedProcedure
     .input(
@@ -394,6 +512,7 @@ export const timeRouter = createTRPCRouter({
         start: z.date(),
         end: z.date(),
         duration: z.number(), // original timer duration in seconds
+        // Filed on the entry as a tag of that name
         label: z.string().optional(),
         taskId: z.string().optional(),
         eventId: z.string().optional(),
@@ -415,9 +534,18 @@ export const timeRouter = createTRPCRouter({
           start: input.start,
           end: input.end,
           duration: actualDuration,
-          label: input.label,
+          tags: await connectLabelTag(
+            ctx.prisma,
+            ctx.session.user.id,
+            input.label
+          ),
           taskId: input.taskId,
           eventId: input.eventId,
+          projectId: await projectIdForTask(
+            ctx.prisma,
+            ctx.session.user.id,
+            input.taskId
+          ),
           distractionFree: input.distractionFree,
           source: TimeSource.TIMER,
         },
@@ -457,6 +585,9 @@ export const timeRouter = createTRPCRouter({
       const from = new Date(input.range.from)
       const to = new Date(input.range.to)
 
+      const timeZone = await getUserTimeZone(ctx.prisma, ctx.session.user.id)
+      const today = getDayRangeInZone(new Date(), timeZone)
+
       // Get timer stats using Prisma aggregate
       const timerResult = await ctx.prisma.timeEntry.aggregate({
         _count: { id: true },
@@ -479,8 +610,8 @@ export const timeRouter = createTRPCRouter({
           userId: ctx.session.user.id,
           source: TimeSource.TIMER,
           start: {
-            gte: startOfDay(new Date()),
-            lte: endOfDay(new Date()),
+            gte: today.start,
+            lt: today.end,
           },
         },
       })
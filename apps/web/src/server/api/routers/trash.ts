@@ -0,0 +1,201 @@
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
+import { getPurgeDate, TRASH_ITEM_TYPES, type TrashItemType } from '@/lib/trash'
+import { getTrashRetentionDays } from '@/server/trash/purge'
+import { collectDescendants } from './task'
+
+const trashItemInput = z.object({
+  type: z.enum(TRASH_ITEM_TYPES),
+  id: z.string(),
+})
+
+// Subtasks and edited occurrences deleted along with the task or series
+// they belong to come back with it. Those deleted on their own before it
+// are listed separately, since restoring it leaves them in the trash.
+function deletedOnItsOwn(
+  item: { deletedAt: Date | null },
+  owner: { deletedAt: Date | null } | null | undefined
+) {
+  return owner?.deletedAt?.getTime() !== item.deletedAt?.getTime()
+}
+
+export const trashRouter = createTRPCRouter({
+  // Everything in the trash, most recently deleted first, with when each
+  // item will be purged
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const userId = ctx.session.user.id
+    const trashed = { userId, deletedAt: { not: null } }
+    const select = { id: true, deletedAt: true } as const
+
+    const [tasks, notes, events, boards] = await Promise.all([
+      ctx.prisma.task.findMany({
+        where: trashed,
+        select: {
+          ...select,
+          title: true,
+          parent: { select: { deletedAt: true } },
+        },
+      }),
+      ctx.prisma.note.findMany({
+        where: trashed,
+        select: { ...select, title: true },
+      }),
+      ctx.prisma.calendarEvent.findMany({
+        where: trashed,
+        select: {
+          ...select,
+          title: true,
+          recurringEvent: { select: { deletedAt: true } },
+        },
+      }),
+      ctx.prisma.board.findMany({
+        where: trashed,
+        select: { ...select, name: true },
+      }),
+    ])
+
+    const retentionDays = getTrashRetentionDays()
+    const toItem = (
+      type: TrashItemType,
+      item: { id: string; deletedAt: Date | null },
+      title: string
+    ) => ({
+      type,
+      id: item.id,
+      title,
+      deletedAt: item.deletedAt!,
+      purgeAt: getPurgeDate(item.deletedAt!, retentionDays),
+    })
+
+    const items = [
+      ...tasks
+        .filter((task) => deletedOnItsOwn(task, task.parent))
+        .map((task) => toItem('task', task, task.title)),
+      ...notes.map((note) => toItem('note', note, note.title)),
+      ...events
+        .filter((event) => deletedOnItsOwn(event, event.recurringEvent))
+        .map((event) => toItem('event', event, event.title)),
+      ...boards.map((board) => toItem('board', board, board.name)),
+    ].sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime())
+
+    return { items, retentionDays }
+  }),
+
+  // Take an item back out of the trash
+  restore: protectedProcedure
+    .input(trashItemInput)
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+      const where = { id: input.id, userId, deletedAt: { not: null } }
+      const data = { deletedAt: null }
+
+      switch (input.type) {
+        case 'task': {
+          const task = await ctx.prisma.task.findFirst({
+            where,
+            select: { id: true, deletedAt: true },
+          })
+          if (!task) {
+            throw new Error('Task not found')
+          }
+
+          const descendants = await collectDescendants(
+            ctx.prisma,
+            userId,
+            [task.id],
+            task.deletedAt
+          )
+          await ctx.prisma.task.updateMany({
+            where: {
+              id: {
+                in: [task.id, ...descendants.map((subtask) => subtask.id)],
+              },
+              userId,
+            },
+            data,
+          })
+          break
+        }
+        case 'note': {
+          const { count } = await ctx.prisma.note.updateMany({ where, data })
+          if (count === 0) {
+            throw new Error('Note not found')
+          }
+          break
+        }
+        case 'event': {
+          const event = await ctx.prisma.calendarEvent.findFirst({
+            where,
+            select: { id: true, deletedAt: true },
+          })
+          if (!event) {
+            throw new Error('Event not found')
+          }
+
+          await ctx.prisma.calendarEvent.updateMany({
+            where: {
+              OR: [
+                { id: event.id },
+                { recurringEventId: event.id, deletedAt: event.deletedAt },
+              ],
+              userId,
+            },
+            data,
+          })
+          break
+        }
+        case 'board': {
+          const { count } = await ctx.prisma.board.updateMany({ where, data })
+          if (count === 0) {
+            throw new Error('Board not found')
+          }
+          break
+        }
+      }
+
+      return { success: true }
+    }),
+
+  // Permanently delete one item from the trash
+  purge: protectedProcedure
+    .input(trashItemInput)
+    .mutation(async ({ ctx, input }) => {
+      const where = {
+        id: input.id,
+        userId: ctx.session.user.id,
+        deletedAt: { not: null },
+      }
+
+      const deleteItem = {
+        // Subtasks are removed by the database along with their parent
+        task: () => ctx.prisma.task.deleteMany({ where }),
+        note: () => ctx.prisma.note.deleteMany({ where }),
+        event: () => ctx.prisma.calendarEvent.deleteMany({ where }),
+        board: () => ctx.prisma.board.deleteMany({ where }),
+      }[input.type]
+
+      const { count } = await deleteItem()
+
+      if (count === 0) {
+        throw new Error('Item not found in trash')
+      }
+
+      return { success: true }
+    }),
+
+  // Permanently delete everything in the trash
+  empty: protectedProcedure.mutation(async ({ ctx }) => {
+    const where = { userId: ctx.session.user.id, deletedAt: { not: null } }
+
+    const [tasks, notes, events, boards] = await ctx.prisma.$transaction([
+      ctx.prisma.task.deleteMany({ where }),
+      ctx.prisma.note.deleteMany({ where }),
+      ctx.prisma.calendarEvent.deleteMany({ where }),
+      ctx.prisma.board.deleteMany({ where }),
+    ])
+
+    return {
+      deleted: tasks.count + notes.count + events.count + boards.count,
+    }
+  }),
+})
@@ -4,7 +4,96 @@ import {
   protectedProcedure,
   publicProcedure,
 } from '@/server/api/trpc'
+import type { Prisma } from '@prisma/client'
 import bcrypt from 'bcryptjs'
+import { randomBytes } from 'crypto'
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from '@/lib/timezone'
+import { DEFAULT_WORKING_HOURS, type WorkingHours } from '@/lib/free-busy'
+import { rescheduleMorningReminders } from './reminder'
+
+export const timeZoneInput = z
+  .string()
+  .max(64)
+  .refine(isValidTimeZone, 'Unknown timezone')
+
+// The zone the user's days are bucketed in, for "today" and daily totals
+export async function getUserTimeZone(
+  prisma: Prisma.TransactionClient,
+  userId: string
+) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { timezone: true },
+  })
+
+  return user?.timezone ?? DEFAULT_TIME_ZONE
+}
+
+// What dropping a task on the calendar does for the user
+export async function getUserCalendarTaskDrop(
+  prisma: Prisma.TransactionClient,
+  userId: string
+) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { calendarTaskDrop: true },
+  })
+
+  return user?.calendarTaskDrop ?? 'EVENT'
+}
+
+const settingsSelect = {
+  timezone: true,
+  calendarFeedToken: true,
+  calendarFeedIncludesTasks: true,
+  workingHoursStart: true,
+  workingHoursEnd: true,
+  workingDays: true,
+  calendarTaskDrop: true,
+} satisfies Prisma.UserSelect
+
+// Minutes after midnight, up to the midnight that ends the day
+const minutesOfDayInput = z
+  .number()
+  .int()
+  .min(0)
+  .max(24 * 60)
+
+export const workingHoursInput = z
+  .object({
+    start: minutesOfDayInput,
+    end: minutesOfDayInput,
+    days: z.array(z.number().int().min(0).max(6)).max(7),
+  })
+  .refine((hours) => hours.end > hours.start, {
+    message: 'Working hours must end after they start',
+    path: ['end'],
+  })
+
+// When the user works, for finding open time in their calendar
+export async function getUserWorkingHours(
+  prisma: Prisma.TransactionClient,
+  userId: string
+): Promise<WorkingHours> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      workingHoursStart: true,
+      workingHoursEnd: true,
+      workingDays: true,
+    },
+  })
+
+  if (!user) {
+    return DEFAULT_WORKING_HOURS
+  }
+
+  return {
+    start: user.workingHoursStart,
+    end: user.workingHoursEnd,
+    days: user.workingDays,
+  }
+}
 
 export const userRouter = createTRPCRouter({
   register: publicProcedure
@@ -13,10 +102,12 @@ export const userRouter = createTRPCRouter({
         email: z.string().email(),
         password: z.string().min(6),
         name: z.string().optional(),
+        // Detected by the browser when signing up
+        timezone: timeZoneInput.optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const { email, password, name } = input
+      const { email, password, name, timezone } = input
 
       const existingUser = await ctx.prisma.user.findUnique({
         where: { email },
@@ -33,6 +124,7 @@ export const userRouter = createTRPCRouter({
           email,
           passwordHash: hashedPassword,
           name,
+          timezone,
         },
       })
 
@@ -68,4 +160,71 @@ export const userRouter = createTRPCRouter({
 
       return user
     }),
+
+  // Preferences that change how the app computes things for the user
+  getSettings: protectedProcedure.query(async ({ ctx }) => {
+    const user = await ctx.prisma.user.findUnique({
+      where: { id: ctx.session.user.id },
+      select: settingsSelect,
+    })
+
+    if (!user) {
+      throw new Error('User not found')
+    }
+
+    return user
+  }),
+
+  updateSettings: protectedProcedure
+    .input(
+      z.object({
+        timezone: timeZoneInput.optional(),
+        calendarFeedIncludesTasks: z.boolean().optional(),
+        workingHours: workingHoursInput.optional(),
+        calendarTaskDrop: z.enum(['EVENT', 'DUE_DATE']).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { workingHours, ...data } = input
+
+      return ctx.prisma.$transaction(async (tx) => {
+        const settings = await tx.user.update({
+          where: { id: ctx.session.user.id },
+          data: {
+            ...data,
+            ...(workingHours && {
+              workingHoursStart: workingHours.start,
+              workingHoursEnd: workingHours.end,
+              workingDays: [...new Set(workingHours.days)].sort(),
+            }),
+          },
+          select: settingsSelect,
+        })
+
+        if (data.timezone) {
+          await rescheduleMorningReminders(tx, ctx.session.user.id)
+        }
+
+        return settings
+      })
+    }),
+
+  // Turn the calendar feed on with a new secret URL, which stops the old
+  // one from working
+  regenerateCalendarFeedToken: protectedProcedure.mutation(async ({ ctx }) => {
+    return ctx.prisma.user.update({
+      where: { id: ctx.session.user.id },
+      data: { calendarFeedToken: randomBytes(24).toString('base64url') },
+      select: settingsSelect,
+    })
+  }),
+
+  // Turn the calendar feed off
+  revokeCalendarFeedToken: protectedProcedure.mutation(async ({ ctx }) => {
+    return ctx.prisma.user.update({
+      where: { id: ctx.session.user.id },
+      data: { calendarFeedToken: null },
+      select: settingsSelect,
+    })
+  }),
 })
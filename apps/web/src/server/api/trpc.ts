@@ -4,6 +4,7 @@ import { getServerSession } from 'next-auth/next'
 import { type Session } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/db'
+import { TaskQueryError } from '@/lib/task-query'
 
 import superjson from 'superjson'
 import { ZodError } from 'zod'
@@ -57,6 +58,8 @@ const t = initTRPC.context<typeof createTRPCContext>().create({
         ...shape.data,
         zodError:
           error.cause instanceof ZodError ? error.cause.flatten() : null,
+        queryIssues:
+          error.cause instanceof TaskQueryError ? error.cause.issues : null,
       },
     }
   },
@@ -0,0 +1,173 @@
+import type { Calendar, Prisma, PrismaClient } from '@prisma/client'
+import { formatIcsCalendar, type IcsEvent } from '@/lib/ical'
+import { getZonedDateKey } from '@/lib/timezone'
+import { getIcsEvents } from '@/server/api/routers/event'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const feedUserSelect = {
+  id: true,
+  timezone: true,
+  calendarFeedIncludesTasks: true,
+  updatedAt: true,
+} satisfies Prisma.UserSelect
+
+export type CalendarFeedUser = Prisma.UserGetPayload<{
+  select: typeof feedUserSelect
+}>
+
+/**
+ * Finds the user a calendar feed token belongs to
+ * @returns The user, or null when the token is unknown or was revoked
+ */
+export async function findCalendarFeedUser(
+  prisma: PrismaClient,
+  token: string
+): Promise<CalendarFeedUser | null> {
+  if (!token) {
+    return null
+  }
+
+  return prisma.user.findUnique({
+    where: { calendarFeedToken: token },
+    select: feedUserSelect,
+  })
+}
+
+/** Narrows a feed to one calendar. Tasks are only in the whole feed. */
+export type CalendarFeedCalendar = Pick<Calendar, 'id' | 'name' | 'updatedAt'>
+
+/**
+ * Finds one of the user's calendars for a feed narrowed to it
+ * @returns The calendar, or null when the user has none with that id
+ */
+export function findCalendarFeedCalendar(
+  prisma: PrismaClient,
+  user: CalendarFeedUser,
+  calendarId: string
+): Promise<CalendarFeedCalendar | null> {
+  return prisma.calendar.findFirst({
+    where: { id: calendarId, userId: user.id },
+    select: { id: true, name: true, updatedAt: true },
+  })
+}
+
+/**
+ * Works out whether a user's feed changed, without building it. Deleting
+ * moves things to the trash, which updates them too, so the latest update
+ * across everything the feed reads from covers every change. Counts catch
+ * items purged from the trash, or moved to another calendar.
+ * @param calendar The calendar the feed is narrowed to, if any
+ * @returns An ETag and the time of the latest change
+ */
+export async function getCalendarFeedVersion(
+  prisma: PrismaClient,
+  user: CalendarFeedUser,
+  calendar?: CalendarFeedCalendar | null
+) {
+  const [events, tasks] = await Promise.all([
+    prisma.calendarEvent.aggregate({
+      where: { userId: user.id, ...(calendar && { calendarId: calendar.id }) },
+      _max: { updatedAt: true },
+      _count: { _all: true },
+    }),
+    user.calendarFeedIncludesTasks && !calendar
+      ? prisma.task.aggregate({
+          where: { userId: user.id },
+          _max: { updatedAt: true },
+          _count: { _all: true },
+        })
+      : null,
+  ])
+
+  const lastModified = new Date(
+    Math.max(
+      user.updatedAt.getTime(),
+      calendar?.updatedAt.getTime() ?? 0,
+      events._max.updatedAt?.getTime() ?? 0,
+      tasks?._max.updatedAt?.getTime() ?? 0
+    )
+  )
+  const parts = [
+    lastModified.getTime(),
+    events._count._all,
+    tasks?._count._all ?? 'no-tasks',
+  ]
+
+  return { etag: `"${parts.join('-')}"`, lastModified }
+}
+
+/**
+ * Checks a request's conditional headers against the feed's version
+ * @returns Whether the client's copy is still current (304 Not Modified)
+ */
+export function isCalendarFeedCurrent(
+  headers: Headers,
+  version: { etag: string; lastModified: Date }
+) {
+  const ifNoneMatch = headers.get('if-none-match')
+  if (ifNoneMatch) {
+    return ifNoneMatch
+      .split(',')
+      .map((tag) => tag.trim().replace(/^W\//, ''))
+      .some((tag) => tag === '*' || tag === version.etag)
+  }
+
+  const ifModifiedSince = headers.get('if-modified-since')
+  if (ifModifiedSince) {
+    const since = new Date(ifModifiedSince).getTime()
+    // HTTP dates have whole seconds
+    return (
+      !Number.isNaN(since) &&
+      Math.floor(version.lastModified.getTime() / 1000) * 1000 <= since
+    )
+  }
+
+  return false
+}
+
+/**
+ * Builds a user's calendar feed. Tasks, when included, show as all-day
+ * events on the day they are due.
+ * @param calendar The calendar the feed is narrowed to, if any
+ * @returns The .ics file contents
+ */
+export async function buildCalendarFeed(
+  prisma: PrismaClient,
+  user: CalendarFeedUser,
+  calendar?: CalendarFeedCalendar | null
+) {
+  const timeZone = user.timezone
+  const [events, tasks] = await Promise.all([
+    getIcsEvents(prisma, user.id, timeZone, undefined, calendar?.id),
+    user.calendarFeedIncludesTasks && !calendar
+      ? prisma.task.findMany({
+          where: {
+            userId: user.id,
+            deletedAt: null,
+            status: 'ACTIVE',
+            dueDate: { not: null },
+          },
+          orderBy: { dueDate: 'asc' },
+        })
+      : [],
+  ])
+
+  const taskEvents = tasks.map((task): IcsEvent => {
+    const startsAt = new Date(getZonedDateKey(task.dueDate!, timeZone))
+    return {
+      uid: `task-${task.id}@mindline`,
+      title: `Due: ${task.title}`,
+      description: task.description,
+      startsAt,
+      endsAt: new Date(startsAt.getTime() + DAY_MS),
+      allDay: true,
+      updatedAt: task.updatedAt,
+    }
+  })
+
+  return formatIcsCalendar([...events, ...taskEvents], {
+    timeZone,
+    name: calendar?.name,
+  })
+}
@@ -0,0 +1,241 @@
+import type { Prisma, PrismaClient } from '@prisma/client'
+import { planTimeBlocks } from '@/lib/day-planner'
+import { getFreeBusy, type TimeInterval } from '@/lib/free-busy'
+import { getDayRangeInZone } from '@/lib/timezone'
+import { getDefaultCalendar } from '@/server/api/routers/calendar'
+import { getEventsInRange, widenForAllDay } from '@/server/api/routers/event'
+import { rescheduleReminders } from '@/server/api/routers/reminder'
+import { getUserTimeZone, getUserWorkingHours } from '@/server/api/routers/user'
+
+// "Plan my day": places active tasks with estimates as time blocks, events
+// linked to their task through Task.calendarEventId, into the open working
+// hours left in a day. Planning again moves the blocks that are still
+// ahead, unless they are locked, and picks up blocks that were missed,
+// ones that ended while their task stayed active, wherever they were.
+
+/** Color of the events the planner creates */
+export const TIME_BLOCK_COLOR = '#8b5cf6'
+
+const plannerTaskSelect = {
+  id: true,
+  title: true,
+  priority: true,
+  dueDate: true,
+  estimateMinutes: true,
+  order: true,
+  calendarEvent: {
+    select: {
+      id: true,
+      startsAt: true,
+      endsAt: true,
+      locked: true,
+      deletedAt: true,
+    },
+  },
+} satisfies Prisma.TaskSelect
+
+type PlannerTaskRow = Prisma.TaskGetPayload<{
+  select: typeof plannerTaskSelect
+}>
+
+export interface DayPlanPreview {
+  /** The part of the day that was planned, from now on for today */
+  range: TimeInterval
+  blocks: {
+    taskId: string
+    title: string
+    startsAt: Date
+    endsAt: Date
+    /** The block that moves here, or null for a new one */
+    eventId: string | null
+    /** Whether it moves a block that was missed */
+    missed: boolean
+  }[]
+  /** Tasks that didn't fit. Blocks they had later in the day are removed */
+  unplaced: { taskId: string; title: string; eventId: string | null }[]
+}
+
+// How planning treats the block a task already has. Locked blocks, ones
+// under way and ones outside the planned range stay where they are.
+function getBlockState(
+  task: PlannerTaskRow,
+  range: TimeInterval,
+  now: Date
+): 'none' | 'missed' | 'movable' | 'fixed' {
+  const block = task.calendarEvent
+  if (!block || block.deletedAt) return 'none'
+  if (block.endsAt <= now) return 'missed'
+  if (block.locked || block.startsAt < range.start) return 'fixed'
+  return block.startsAt < range.end ? 'movable' : 'fixed'
+}
+
+async function planDay(
+  prisma: Prisma.TransactionClient,
+  userId: string,
+  date: Date,
+  now: Date
+): Promise<DayPlanPreview> {
+  const [timeZone, workingHours] = await Promise.all([
+    getUserTimeZone(prisma, userId),
+    getUserWorkingHours(prisma, userId),
+  ])
+  const day = getDayRangeInZone(date, timeZone)
+  const range = { start: day.start < now ? now : day.start, end: day.end }
+  if (range.start >= range.end) {
+    return { range, blocks: [], unplaced: [] }
+  }
+
+  const rows = await prisma.task.findMany({
+    where: {
+      userId,
+      deletedAt: null,
+      status: 'ACTIVE',
+      estimateMinutes: { gt: 0 },
+      AND: [
+        { OR: [{ deferUntil: null }, { deferUntil: { lt: day.end } }] },
+        // Tasks put on an event of the user's own are already planned
+        {
+          OR: [
+            { calendarEventId: null },
+            { calendarEvent: { timeBlock: true } },
+            { calendarEvent: { deletedAt: { not: null } } },
+          ],
+        },
+      ],
+    },
+    select: plannerTaskSelect,
+  })
+
+  const tasks = rows
+    .map((task) => ({ ...task, state: getBlockState(task, range, now) }))
+    .filter((task) => task.state !== 'fixed')
+  const movable = new Set(
+    tasks
+      .filter((task) => task.state === 'movable')
+      .map((task) => task.calendarEvent!.id)
+  )
+
+  // Blocks about to move leave their time open
+  const events = await getEventsInRange(
+    prisma,
+    userId,
+    widenForAllDay(range),
+    timeZone
+  )
+  const { free } = getFreeBusy(
+    events.filter((event) => !movable.has(event.id)),
+    range,
+    workingHours,
+    timeZone
+  )
+
+  const plan = planTimeBlocks(
+    tasks.map((task) => ({ ...task, estimateMinutes: task.estimateMinutes! })),
+    free,
+    { dueBy: day.end }
+  )
+  const byId = new Map(tasks.map((task) => [task.id, task]))
+
+  return {
+    range,
+    blocks: plan.blocks.map((block) => {
+      const task = byId.get(block.taskId)!
+      return {
+        taskId: task.id,
+        title: task.title,
+        startsAt: block.start,
+        endsAt: block.end,
+        eventId: task.state === 'none' ? null : task.calendarEvent!.id,
+        missed: task.state === 'missed',
+      }
+    }),
+    unplaced: plan.unplaced.map((taskId) => {
+      const task = byId.get(taskId)!
+      return {
+        taskId,
+        title: task.title,
+        eventId: task.state === 'movable' ? task.calendarEvent!.id : null,
+      }
+    }),
+  }
+}
+
+/**
+ * Works out the plan for a day without changing anything
+ * @param date Any moment in the day, on the user's clock
+ */
+export function previewDayPlan(
+  prisma: PrismaClient,
+  userId: string,
+  date: Date,
+  now: Date = new Date()
+) {
+  return planDay(prisma, userId, date, now)
+}
+
+/**
+ * Plans a day and saves the blocks. Blocks are planned again rather than
+ * taken from a preview, so nothing that changed in between is overlapped.
+ * @param date Any moment in the day, on the user's clock
+ * @returns The plan that was saved
+ */
+export function scheduleDayPlan(
+  prisma: PrismaClient,
+  userId: string,
+  date: Date,
+  now: Date = new Date()
+) {
+  return prisma.$transaction(async (tx) => {
+    const plan = await planDay(tx, userId, date, now)
+    // New blocks go in the default calendar, with a color of their own
+    const calendar = await getDefaultCalendar(tx, userId)
+
+    for (const block of plan.blocks) {
+      if (block.eventId) {
+        await tx.calendarEvent.update({
+          where: { id: block.eventId },
+          data: { startsAt: block.startsAt, endsAt: block.endsAt },
+        })
+        await rescheduleReminders(
+          tx,
+          userId,
+          { calendarEventId: block.eventId },
+          block.startsAt,
+          now
+        )
+        continue
+      }
+
+      const event = await tx.calendarEvent.create({
+        data: {
+          userId,
+          title: block.title,
+          startsAt: block.startsAt,
+          endsAt: block.endsAt,
+          color: TIME_BLOCK_COLOR,
+          timeBlock: true,
+          calendarId: calendar.id,
+        },
+      })
+      await tx.task.update({
+        where: { id: block.taskId },
+        data: { calendarEventId: event.id },
+      })
+    }
+
+    // A block its task no longer fits in goes to the trash
+    for (const task of plan.unplaced) {
+      if (!task.eventId) continue
+      await tx.calendarEvent.update({
+        where: { id: task.eventId },
+        data: { deletedAt: now },
+      })
+      await tx.task.update({
+        where: { id: task.taskId },
+        data: { calendarEventId: null },
+      })
+    }
+
+    return plan
+  })
+}
@@ -0,0 +1,93 @@
+/**
+ * Time source for background jobs. Tests pass a fake one so they can move
+ * time forward without waiting.
+ */
+export interface Clock {
+  now(): Date
+  setTimeout(callback: () => void, ms: number): unknown
+  clearTimeout(handle: unknown): void
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) =>
+    clearTimeout(handle as ReturnType<typeof setTimeout>),
+}
+
+export interface PollerOptions<T> {
+  clock: Clock
+  intervalMs: number
+  /** One pass of the job, given the clock's current time */
+  run: (now: Date) => Promise<T>
+  /** Returned from a pass that failed or was skipped */
+  fallback: T
+  onError: (error: unknown) => void
+}
+
+/**
+ * Runs a job right away and then every `intervalMs` until stopped. A pass
+ * that is still going when the next one is due makes that one a no-op, and
+ * a failed pass is reported without ending the polling.
+ */
+export function createPoller<T>({
+  clock,
+  intervalMs,
+  run,
+  fallback,
+  onError,
+}: PollerOptions<T>) {
+  let handle: unknown = null
+  let running = false
+  let stopped = true
+
+  // Runs one pass, skipped if the previous one is still going
+  async function tick() {
+    if (running) {
+      return fallback
+    }
+
+    running = true
+    try {
+      return await run(clock.now())
+    } catch (error) {
+      onError(error)
+      return fallback
+    } finally {
+      running = false
+    }
+  }
+
+  function scheduleNext() {
+    handle = clock.setTimeout(async () => {
+      await tick()
+      if (!stopped) {
+        scheduleNext()
+      }
+    }, intervalMs)
+  }
+
+  return {
+    tick,
+
+    // Catches up right away, then keeps polling until stopped
+    async start() {
+      if (!stopped) {
+        return
+      }
+      stopped = false
+      await tick()
+      if (!stopped) {
+        scheduleNext()
+      }
+    },
+
+    stop() {
+      stopped = true
+      if (handle !== null) {
+        clock.clearTimeout(handle)
+        handle = null
+      }
+    },
+  }
+}
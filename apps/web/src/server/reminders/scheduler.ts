@@ -0,0 +1,170 @@
+import type { Prisma, PrismaClient } from '@prisma/client'
+import { nextEventReminder, reminderMessage } from '@/lib/reminders'
+import { reminderEventSelect } from '@/server/api/routers/reminder'
+import { getUserTimeZone } from '@/server/api/routers/user'
+import { createPoller, systemClock, type Clock } from '@/server/jobs/poller'
+
+const dueReminderInclude = {
+  task: {
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      dueDate: true,
+      deletedAt: true,
+    },
+  },
+  calendarEvent: {
+    select: { id: true, title: true, deletedAt: true, ...reminderEventSelect },
+  },
+} satisfies Prisma.ReminderInclude
+
+type DueReminder = Prisma.ReminderGetPayload<{
+  include: typeof dueReminderInclude
+}>
+
+const reportError = (error: unknown) =>
+  console.error('Reminder scheduler failed:', error)
+
+// Claims one reminder and turns it into a notification. Both happen in a
+// transaction, so a crash in between leaves the reminder pending.
+async function fireReminder(
+  prisma: PrismaClient,
+  reminder: DueReminder,
+  now: Date
+) {
+  const scheduledFor = reminder.fireAt!
+  const event = reminder.calendarEvent
+
+  // A reminder on a repeating event is about the occurrence it was armed
+  // for, and moves on to the next one once it fires
+  let occurrence: Date | null = null
+  let nextFireAt: Date | null = null
+  if (event?.recurrenceRule && !event.deletedAt) {
+    const timeZone = await getUserTimeZone(prisma, reminder.userId)
+    const justBefore = new Date(scheduledFor.getTime() - 1)
+    occurrence =
+      nextEventReminder(reminder, event, justBefore, timeZone)?.anchor ?? null
+    nextFireAt =
+      nextEventReminder(reminder, event, now, timeZone)?.fireAt ?? null
+  }
+
+  return prisma.$transaction(async (tx) => {
+    // Matching on the fire time we read means only one scheduler wins,
+    // and a reminder moved in the meantime is left for its new time
+    const claimed = await tx.reminder.updateMany({
+      where: { id: reminder.id, fireAt: scheduledFor },
+      data: { fireAt: nextFireAt, firedAt: now },
+    })
+
+    if (claimed.count === 0) {
+      return false
+    }
+
+    // Nobody needs reminding about a task that is already done
+    if (reminder.task && reminder.task.status !== 'ACTIVE') {
+      return false
+    }
+
+    const target = reminder.calendarEvent ? 'event' : 'task'
+    const source = reminder.calendarEvent ?? reminder.task
+    // Anything sitting in the trash stays quiet too
+    if (!source || source.deletedAt) {
+      return false
+    }
+
+    const anchor =
+      occurrence ?? event?.startsAt ?? reminder.task?.dueDate ?? null
+
+    // The unique (reminder, scheduled time) pair keeps a reminder from
+    // being delivered twice even if a claim is somehow repeated
+    await tx.notification.createMany({
+      data: [
+        {
+          userId: reminder.userId,
+          reminderId: reminder.id,
+          title: source.title,
+          body: reminderMessage(target, anchor, scheduledFor),
+          href: target === 'task' ? '/tasks' : '/calendar',
+          scheduledFor,
+        },
+      ],
+      skipDuplicates: true,
+    })
+
+    return true
+  })
+}
+
+/**
+ * Fires every reminder that is due at `now`, oldest first. Reminders that
+ * came due while the server was down are still pending, so the first run
+ * after a restart catches up on them. A reminder that fails is reported
+ * and left pending for the next run, without holding up the others.
+ * @returns How many notifications were created
+ */
+export async function fireDueReminders(
+  prisma: PrismaClient,
+  now: Date,
+  batchSize = 100,
+  onError: (error: unknown) => void = reportError
+) {
+  let fired = 0
+  const failed: string[] = []
+
+  for (;;) {
+    const due = await prisma.reminder.findMany({
+      where: {
+        fireAt: { lte: now },
+        ...(failed.length > 0 && { id: { notIn: failed } }),
+      },
+      orderBy: [{ fireAt: 'asc' }, { id: 'asc' }],
+      take: batchSize,
+      include: dueReminderInclude,
+    })
+
+    for (const reminder of due) {
+      try {
+        if (await fireReminder(prisma, reminder, now)) {
+          fired++
+        }
+      } catch (error) {
+        failed.push(reminder.id)
+        onError(error)
+      }
+    }
+
+    if (due.length < batchSize) {
+      return fired
+    }
+  }
+}
+
+export interface ReminderSchedulerOptions {
+  prisma: PrismaClient
+  clock?: Clock
+  /** How often to look for due reminders */
+  intervalMs?: number
+  batchSize?: number
+  onError?: (error: unknown) => void
+}
+
+/**
+ * Polls for due reminders. Safe to run in several processes at once, since
+ * each reminder can only be claimed once.
+ */
+export function createReminderScheduler({
+  prisma,
+  clock = systemClock,
+  intervalMs = 30 * 1000,
+  batchSize,
+  onError = reportError,
+}: ReminderSchedulerOptions) {
+  return createPoller({
+    clock,
+    intervalMs,
+    run: (now) => fireDueReminders(prisma, now, batchSize, onError),
+    fallback: 0,
+    onError,
+  })
+}
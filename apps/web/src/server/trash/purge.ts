@@ -0,0 +1,62 @@
+import { subDays } from 'date-fns'
+import type { PrismaClient } from '@prisma/client'
+import { parseRetentionDays } from '@/lib/trash'
+import { createPoller, systemClock, type Clock } from '@/server/jobs/poller'
+
+export function getTrashRetentionDays() {
+  return parseRetentionDays(process.env.TRASH_RETENTION_DAYS)
+}
+
+/**
+ * Permanently deletes everything that has been in the trash for longer
+ * than the retention period. Subtasks go along with their parent.
+ * @returns How many items of each type were removed
+ */
+export async function purgeExpiredTrash(
+  prisma: PrismaClient,
+  now: Date,
+  retentionDays: number
+) {
+  const where = { deletedAt: { lte: subDays(now, retentionDays) } }
+
+  const [tasks, notes, events, boards] = await prisma.$transaction([
+    prisma.task.deleteMany({ where }),
+    prisma.note.deleteMany({ where }),
+    prisma.calendarEvent.deleteMany({ where }),
+    prisma.board.deleteMany({ where }),
+  ])
+
+  return {
+    tasks: tasks.count,
+    notes: notes.count,
+    events: events.count,
+    boards: boards.count,
+  }
+}
+
+export interface TrashPurgerOptions {
+  prisma: PrismaClient
+  clock?: Clock
+  /** How often to look for expired items */
+  intervalMs?: number
+  retentionDays?: number
+  onError?: (error: unknown) => void
+}
+
+// Empties expired trash on start and then every so often. Running it in
+// several processes only repeats deletes that match nothing.
+export function createTrashPurger({
+  prisma,
+  clock = systemClock,
+  intervalMs = 60 * 60 * 1000,
+  retentionDays = getTrashRetentionDays(),
+  onError = (error) => console.error('Trash purge failed:', error),
+}: TrashPurgerOptions) {
+  return createPoller({
+    clock,
+    intervalMs,
+    run: (now) => purgeExpiredTrash(prisma, now, retentionDays),
+    fallback: null,
+    onError,
+  })
+}